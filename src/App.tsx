@@ -1,9 +1,19 @@
 import { ChakraProvider, defaultSystem } from '@chakra-ui/react'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import Dashboard from './components/Dashboard'
+import Activity from './components/Activity'
+import Rebalance from './components/Rebalance'
 import Settings from './components/Settings'
 import Connections from './components/settings/Connections'
 import WalletDetails from './components/settings/WalletDetails'
+import Security from './components/settings/Security'
+import DataStorage from './components/settings/DataStorage'
+import Display from './components/settings/Display'
+import Networks from './components/settings/Networks'
+import Explorers from './components/settings/Explorers'
+import Sync from './components/settings/Sync'
+import TokenLists from './components/settings/TokenLists'
+import Notifications from './components/settings/Notifications'
 import Layout from './components/Layout'
 import { IntegrationProvider } from './providers/IntegrationProvider'
 
@@ -15,9 +25,19 @@ function App() {
           <Routes>
             <Route path="/" element={<Layout />}>
               <Route index element={<Dashboard />} />
+              <Route path="activity" element={<Activity />} />
+              <Route path="rebalance" element={<Rebalance />} />
               <Route path="settings" element={<Settings />}>
                 <Route path="connections" element={<Connections />} />
                 <Route path="wallet-details/:connectionType" element={<WalletDetails />} />
+                <Route path="security" element={<Security />} />
+                <Route path="data" element={<DataStorage />} />
+                <Route path="display" element={<Display />} />
+                <Route path="networks" element={<Networks />} />
+                <Route path="explorers" element={<Explorers />} />
+                <Route path="sync" element={<Sync />} />
+                <Route path="token-lists" element={<TokenLists />} />
+                <Route path="notifications" element={<Notifications />} />
               </Route>
             </Route>
           </Routes>
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import { CHAIN_REGISTRY, chainsIn } from '../domain/chain/ChainRegistry';
+import { buildRpcProviderConfig } from '../config/buildRpcProviderConfig';
+import { getChainMap } from '../infrastructure/sync/AccountSyncEngine';
+import { rpcConfigService } from '../infrastructure/rpc/RpcConfigurationService';
+import { MULTICALL3_ADDRESS, multicall3Address } from '../infrastructure/defi/EvmClientProvider';
+import { platformIcon } from '../components/settings/platformIcons';
+
+vi.mock('@cygnus-wealth/asset-valuator', () => ({ AssetValuator: vi.fn() }));
+
+// Every module that used to keep its own chain table now derives it from the
+// chain registry. These tests fail when one of those views drifts from it.
+
+const ENVIRONMENTS: NetworkEnvironment[] = ['production', 'testnet', 'local'];
+
+// Sui reads go through the Sui SDK client rather than the provider config
+const providerNetworks = (env: NetworkEnvironment) => chainsIn(env).filter(({ chain }) => chain.category !== 'sui');
+
+describe.each(ENVIRONMENTS)('chain registry views (%s)', (env) => {
+  it('builds an RPC entry for every network and nothing else', () => {
+    const config = buildRpcProviderConfig(env, { envVars: {} });
+
+    expect(Object.keys(config.chains).sort()).toEqual(providerNetworks(env).map(({ network }) => network.rpcKey).sort());
+    for (const { network } of providerNetworks(env)) {
+      const entry = config.chains[network.rpcKey];
+      expect(entry.chainName).toBe(network.name);
+      expect(entry.chainId).toBe(network.numericId);
+      expect(entry.endpoints.length, network.name).toBeGreaterThan(0);
+    }
+  });
+
+  it('syncs every EVM chain with its network\'s chain ID and native asset', () => {
+    const chainMap = getChainMap(env);
+
+    expect(Object.keys(chainMap)).toEqual(chainsIn(env, 'evm').map(({ chain }) => chain.name));
+    for (const { chain, network } of chainsIn(env, 'evm')) {
+      expect(chainMap[chain.name]).toEqual({
+        chainId: network.numericId,
+        symbol: network.native.symbol,
+        name: network.native.name,
+        registryName: network.name,
+      });
+    }
+  });
+
+  it('reads EVM balances through the network\'s Multicall3 deployment', () => {
+    for (const { network } of chainsIn(env, 'evm')) {
+      expect(multicall3Address(network.numericId!)).toBe(network.multicall3 ?? MULTICALL3_ADDRESS);
+    }
+  });
+});
+
+describe('RPC settings', () => {
+  it('offers endpoints for every registry chain under its mainnet RPC key', () => {
+    expect(rpcConfigService.getSupportedChains()).toEqual(CHAIN_REGISTRY.map(chain => chain.key));
+    for (const chain of CHAIN_REGISTRY) {
+      const config = rpcConfigService.getChainConfig(chain.key)!;
+      expect(config.chainId).toBe(chain.networks.production!.rpcKey);
+      expect(config.defaultEndpoints.length, chain.key).toBeGreaterThan(0);
+    }
+  });
+
+  it('starts every chain with the keyless endpoints the provider config tries, in its order', () => {
+    const config = buildRpcProviderConfig('production', { envVars: {} });
+
+    for (const { chain, network } of chainsIn('production')) {
+      const defaults = rpcConfigService.getChainConfig(chain.key)!.defaultEndpoints.map(endpoint => endpoint.url);
+      const expected = chain.category === 'sui'
+        ? network.rpc.public
+        : config.chains[network.rpcKey].endpoints.map(endpoint => endpoint.url);
+      expect(defaults, chain.key).toEqual(expected);
+    }
+  });
+});
+
+describe('chain icons', () => {
+  it('shows only Ethereum with the Ethereum logo and tells the other chains apart', () => {
+    const ethereumIcon = platformIcon('Ethereum');
+
+    for (const chain of CHAIN_REGISTRY.filter(chain => chain.key !== 'ethereum')) {
+      expect(platformIcon(chain.name), chain.name).not.toBe(ethereumIcon);
+    }
+    expect(platformIcon('Arbitrum')).not.toBe(platformIcon('Base'));
+  });
+});
@@ -0,0 +1,265 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Container,
+  Stack,
+  Text,
+  Button,
+  Heading,
+  Table,
+  Badge,
+  Flex,
+  IconButton,
+  Input,
+  NativeSelect,
+  Spinner,
+} from '@chakra-ui/react';
+import { FiChevronLeft, FiChevronRight, FiRefreshCw } from 'react-icons/fi';
+import { useStore } from '../store/useStore';
+import { useTransactionHistory } from '../hooks/useTransactionHistory';
+import type { Transaction, TransactionDirection } from '../domain/activity/Transaction';
+
+const DIRECTION_LABELS: Record<TransactionDirection, string> = {
+  in: 'Received',
+  out: 'Sent',
+  self: 'Self',
+  unknown: 'Activity',
+};
+
+const DIRECTION_COLORS: Record<TransactionDirection, string> = {
+  in: 'green',
+  out: 'red',
+  self: 'gray',
+  unknown: 'blue',
+};
+
+function shorten(value: string): string {
+  return value.length > 14 ? `${value.slice(0, 6)}...${value.slice(-4)}` : value;
+}
+
+function formatAmount(tx: Transaction): string {
+  if (!tx.amount) return '-';
+  const sign = tx.direction === 'in' ? '+' : tx.direction === 'out' ? '-' : '';
+  return `${sign}${Number(tx.amount).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${tx.symbol ?? ''}`.trim();
+}
+
+export default function Activity() {
+  const accounts = useStore(state => state.accounts);
+  const walletAccounts = useMemo(
+    () => accounts.filter(acc => acc.type === 'wallet' && acc.status === 'connected'),
+    [accounts]
+  );
+
+  const [accountId, setAccountId] = useState('');
+  const [chain, setChain] = useState('');
+  const [direction, setDirection] = useState<TransactionDirection | ''>('');
+  const [search, setSearch] = useState('');
+
+  const filter = useMemo(() => ({
+    accountId: accountId || undefined,
+    chains: chain ? [chain] : undefined,
+    direction: direction || undefined,
+    search: search || undefined,
+  }), [accountId, chain, direction, search]);
+
+  const {
+    items,
+    total,
+    page,
+    pageSize,
+    totalPages,
+    setPage,
+    isSyncing,
+    error,
+    failures,
+    refresh,
+  } = useTransactionHistory(filter);
+
+  const accountLabels = useMemo(
+    () => new Map(accounts.map(acc => [acc.id, acc.label])),
+    [accounts]
+  );
+
+  const chainOptions = useMemo(() => {
+    const chains = new Set<string>();
+    for (const account of walletAccounts) {
+      if (account.platform === 'Multi-Chain EVM') {
+        (account.metadata?.detectedChains || ['Ethereum']).forEach(c => chains.add(c));
+      } else {
+        chains.add(account.platform);
+      }
+    }
+    return Array.from(chains).sort();
+  }, [walletAccounts]);
+
+  const startIndex = (page - 1) * pageSize;
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        <Box textAlign="center">
+          <Heading as="h1" size="4xl" mb={2}>
+            Activity
+          </Heading>
+          <Text color="gray.600">
+            Transfers and transactions across your wallets
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Flex justify="space-between" align="center" wrap="wrap" gap={3}>
+              <Flex gap={2} wrap="wrap">
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label="Account"
+                    value={accountId}
+                    onChange={e => setAccountId(e.target.value)}
+                  >
+                    <option value="">All accounts</option>
+                    {walletAccounts.map(acc => (
+                      <option key={acc.id} value={acc.id}>{acc.label}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label="Chain"
+                    value={chain}
+                    onChange={e => setChain(e.target.value)}
+                  >
+                    <option value="">All chains</option>
+                    {chainOptions.map(c => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label="Direction"
+                    value={direction}
+                    onChange={e => setDirection(e.target.value as TransactionDirection | '')}
+                  >
+                    <option value="">All directions</option>
+                    <option value="in">Received</option>
+                    <option value="out">Sent</option>
+                    <option value="self">Self</option>
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                <Input
+                  size="sm"
+                  width="56"
+                  placeholder="Search token, hash or address"
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                />
+              </Flex>
+              <Button size="sm" variant="outline" onClick={refresh} disabled={isSyncing}>
+                {isSyncing ? <Spinner size="xs" /> : <FiRefreshCw />} Refresh
+              </Button>
+            </Flex>
+
+            {error && (
+              <Text fontSize="sm" color="red.500">{error}</Text>
+            )}
+            {failures.length > 0 && (
+              <Text fontSize="sm" color="orange.500">
+                Some chains could not be read: {failures.join('; ')}
+              </Text>
+            )}
+
+            <Box overflowX="auto">
+              <Table.Root size="sm" variant="line">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeader>Date</Table.ColumnHeader>
+                    <Table.ColumnHeader>Type</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Amount</Table.ColumnHeader>
+                    <Table.ColumnHeader>Account</Table.ColumnHeader>
+                    <Table.ColumnHeader>Chain</Table.ColumnHeader>
+                    <Table.ColumnHeader>Transaction</Table.ColumnHeader>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {items.length > 0 ? (
+                    items.map(tx => (
+                      <Table.Row key={tx.id}>
+                        <Table.Cell>
+                          <Text fontSize="sm">
+                            {tx.timestamp ? new Date(tx.timestamp).toLocaleString() : '-'}
+                          </Text>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Flex gap={1}>
+                            <Badge colorPalette={DIRECTION_COLORS[tx.direction]} variant="subtle">
+                              {DIRECTION_LABELS[tx.direction]}
+                            </Badge>
+                            {tx.status === 'failed' && (
+                              <Badge colorPalette="red" variant="outline">Failed</Badge>
+                            )}
+                          </Flex>
+                        </Table.Cell>
+                        <Table.Cell textAlign="right">
+                          <Text fontFamily="mono">{formatAmount(tx)}</Text>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Text fontSize="sm">{accountLabels.get(tx.accountId) ?? tx.accountId}</Text>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Badge colorScheme="purple" variant="subtle">{tx.chain}</Badge>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Text fontSize="xs" fontFamily="mono" title={tx.hash}>{shorten(tx.hash)}</Text>
+                        </Table.Cell>
+                      </Table.Row>
+                    ))
+                  ) : (
+                    <Table.Row>
+                      <Table.Cell colSpan={6} textAlign="center" py={12}>
+                        <Text color="gray.500">
+                          {isSyncing ? 'Loading activity...' : 'No activity to display'}
+                        </Text>
+                      </Table.Cell>
+                    </Table.Row>
+                  )}
+                </Table.Body>
+              </Table.Root>
+            </Box>
+
+            {totalPages > 1 && (
+              <Flex justify="space-between" align="center">
+                <Text fontSize="sm" color="gray.600">
+                  Showing {startIndex + 1}-{Math.min(startIndex + pageSize, total)} of {total} transactions
+                </Text>
+                <Stack direction="row" gap={2}>
+                  <IconButton
+                    aria-label="Previous page"
+                    size="sm"
+                    onClick={() => setPage(Math.max(1, page - 1))}
+                    disabled={page === 1}
+                  >
+                    <FiChevronLeft />
+                  </IconButton>
+                  <Button size="sm" variant="outline">
+                    {page} / {totalPages}
+                  </Button>
+                  <IconButton
+                    aria-label="Next page"
+                    size="sm"
+                    onClick={() => setPage(Math.min(totalPages, page + 1))}
+                    disabled={page === totalPages}
+                  >
+                    <FiChevronRight />
+                  </IconButton>
+                </Stack>
+              </Flex>
+            )}
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+  Box,
+  Stack,
+  Text,
+  IconButton,
+  Drawer,
+  Portal,
+  Button,
+  Flex,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiBell, FiX } from 'react-icons/fi';
+import { useStore } from '../store/useStore';
+import { describeAlertCondition } from '../domain/alerts/Alert';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SNOOZE_OPTIONS = [
+  { label: '1h', durationMs: HOUR_MS },
+  { label: '1d', durationMs: 24 * HOUR_MS },
+  { label: '1w', durationMs: 7 * 24 * HOUR_MS },
+];
+
+/** Bell with the count of unread alerts, opening the alert history */
+export default function AlertCenter() {
+  const [isOpen, setIsOpen] = useState(false);
+  const alertEvents = useStore(state => state.alertEvents);
+  const alertRules = useStore(state => state.alertRules);
+  const snoozeAlertRule = useStore(state => state.snoozeAlertRule);
+  const markAlertsRead = useStore(state => state.markAlertsRead);
+  const clearAlertHistory = useStore(state => state.clearAlertHistory);
+
+  const unread = alertEvents.filter(event => !event.read).length;
+  const rulesById = new Map(alertRules.map(rule => [rule.id, rule]));
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    // Alerts count as read once the history has been looked at
+    if (!open && unread > 0) markAlertsRead();
+  };
+
+  return (
+    <>
+      {/* Above the environment badge, clear of page headers */}
+      <Box position="fixed" bottom={14} right={4} zIndex="1000">
+        <IconButton
+          aria-label={unread > 0 ? `Alerts (${unread} unread)` : 'Alerts'}
+          bg="white"
+          shadow="md"
+          variant="ghost"
+          _hover={{ bg: 'gray.100' }}
+          onClick={() => setIsOpen(true)}
+        >
+          <FiBell />
+        </IconButton>
+        {unread > 0 && (
+          <Box
+            position="absolute"
+            top="-1"
+            right="-1"
+            bg="red.500"
+            color="white"
+            borderRadius="full"
+            minW={5}
+            h={5}
+            px={1}
+            fontSize="xs"
+            fontWeight="bold"
+            textAlign="center"
+            lineHeight="20px"
+            pointerEvents="none"
+          >
+            {unread > 99 ? '99+' : unread}
+          </Box>
+        )}
+      </Box>
+
+      <Drawer.Root open={isOpen} placement="end" onOpenChange={(e) => handleOpenChange(e.open)}>
+        <Portal>
+          <Drawer.Backdrop />
+          <Drawer.Positioner>
+            <Drawer.Content>
+              <Drawer.Header>
+                <Flex justify="space-between" align="center">
+                  <Text fontSize="xl" fontWeight="bold">
+                    Alerts
+                  </Text>
+                  <Drawer.CloseTrigger asChild>
+                    <IconButton aria-label="Close alerts" variant="ghost" size="sm">
+                      <FiX />
+                    </IconButton>
+                  </Drawer.CloseTrigger>
+                </Flex>
+              </Drawer.Header>
+              <Drawer.Body>
+                {alertEvents.length === 0 ? (
+                  <Text color="gray.500" textAlign="center" py={8}>
+                    No alerts yet
+                  </Text>
+                ) : (
+                  <Stack gap={3}>
+                    {alertEvents.map((event) => {
+                      const rule = rulesById.get(event.ruleId);
+                      const snoozed = rule?.snoozedUntil !== undefined && rule.snoozedUntil > Date.now();
+                      return (
+                        <Box
+                          key={event.id}
+                          p={3}
+                          borderRadius="md"
+                          bg={event.read ? 'gray.50' : 'blue.50'}
+                          data-testid="alert-event"
+                        >
+                          <Text fontWeight="medium">{event.message}</Text>
+                          <Text fontSize="xs" color="gray.600">
+                            {new Date(event.triggeredAt).toLocaleString()}
+                            {rule && ` · ${describeAlertCondition(rule.condition)}`}
+                          </Text>
+                          {rule && (
+                            <Flex gap={1} mt={2} align="center">
+                              {snoozed ? (
+                                <>
+                                  <Text fontSize="xs" color="gray.600">
+                                    Snoozed until {new Date(rule.snoozedUntil!).toLocaleString()}
+                                  </Text>
+                                  <Button size="2xs" variant="ghost" onClick={() => snoozeAlertRule(rule.id, null)}>
+                                    Resume
+                                  </Button>
+                                </>
+                              ) : (
+                                <>
+                                  <Text fontSize="xs" color="gray.600">Snooze</Text>
+                                  {SNOOZE_OPTIONS.map(option => (
+                                    <Button
+                                      key={option.label}
+                                      size="2xs"
+                                      variant="outline"
+                                      onClick={() => snoozeAlertRule(rule.id, Date.now() + option.durationMs)}
+                                    >
+                                      {option.label}
+                                    </Button>
+                                  ))}
+                                </>
+                              )}
+                            </Flex>
+                          )}
+                        </Box>
+                      );
+                    })}
+                  </Stack>
+                )}
+              </Drawer.Body>
+              <Drawer.Footer>
+                <Flex justify="space-between" width="full">
+                  <Button asChild variant="ghost" size="sm" onClick={() => handleOpenChange(false)}>
+                    <Link to="/settings/notifications">Manage alerts</Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={alertEvents.length === 0}
+                    onClick={clearAlertHistory}
+                  >
+                    Clear history
+                  </Button>
+                </Flex>
+              </Drawer.Footer>
+            </Drawer.Content>
+          </Drawer.Positioner>
+        </Portal>
+      </Drawer.Root>
+    </>
+  );
+}
@@ -6,8 +6,15 @@ import Dashboard from './Dashboard';
 import { useStore } from '../store/useStore';
 import type { Account, Asset } from '../store/useStore';
 import type { Chain } from '@cygnus-wealth/data-models';
+import { Result } from '../domain/shared/Result';
+import { getDeFiPositions } from '../domain/defi/DeFiPositionService';
+import type { DeFiPosition } from '../domain/defi/DeFiPosition';
 
 // Mock the useAccountSync hook
+vi.mock('../hooks/useSyncScheduler', () => ({
+  useSyncRefresh: () => ({ refreshAccounts: vi.fn(), refreshChain: vi.fn() }),
+}));
+
 vi.mock('../hooks/useAccountSync', () => ({
   useAccountSync: vi.fn(),
 }));
@@ -17,6 +24,18 @@ vi.mock('../domain/defi/DeFiPositionService', () => ({
   getDeFiPositions: vi.fn(() => []),
 }));
 
+// Mock on-chain DeFi discovery and the integration context it reads from
+vi.mock('../providers/IntegrationProvider', () => {
+  const integration = { evmRegistry: { getSupportedChains: () => [] } };
+  return { useIntegration: () => integration };
+});
+
+vi.mock('../infrastructure/defi/createDeFiDiscoveryService', () => ({
+  createDeFiDiscoveryService: () => ({
+    discover: vi.fn(async () => Result.success({ data: {}, failures: [] })),
+  }),
+}));
+
 const renderDashboard = () => {
   return render(
     <ChakraProvider value={defaultSystem}>
@@ -41,6 +60,10 @@ describe('Dashboard', () => {
       defiPositions: [],
       isLoadingDeFi: false,
       defiError: null,
+      costBasisEntries: [],
+      costBasisMethod: 'fifo',
+      baseCurrency: 'USD',
+      exchangeRates: {},
       isLoading: false,
       error: null,
     });
@@ -184,6 +207,44 @@ describe('Dashboard', () => {
       expect(usdcRow).toHaveTextContent('$1000.00'); // Value
     });
 
+    it('should show cost basis and P&L across the aggregated accounts', () => {
+      const buy = { chain: 'Ethereum', symbol: 'ETH', type: 'acquire' as const, source: 'manual' as const, timestamp: 0 };
+      useStore.setState({
+        costBasisEntries: [
+          { ...buy, id: 'buy-1', accountId: 'account-1', quantity: 1.5, unitPrice: 1000 },
+          { ...buy, id: 'buy-2', accountId: 'account-2', quantity: 0.5, unitPrice: 1500 },
+        ],
+      });
+      renderDashboard();
+
+      const ethRow = screen.getByText('ETH').closest('tr');
+      expect(ethRow).toHaveTextContent('$2250.00'); // Cost basis
+      expect(ethRow).toHaveTextContent('+$1750.00'); // Unrealized P&L
+      expect(ethRow).toHaveTextContent('+77.8%');
+    });
+
+    it('should render values in the base currency once its rate is known', () => {
+      useStore.setState({
+        baseCurrency: 'EUR',
+        exchangeRates: { EUR: { currency: 'EUR', rate: 0.5, updatedAt: new Date().toISOString() } },
+      });
+      renderDashboard();
+
+      expect(screen.getByText('€2500.00')).toBeInTheDocument(); // Total value
+      expect(screen.getByText('Price (EUR)')).toBeInTheDocument();
+      const ethRow = screen.getByText('ETH').closest('tr');
+      expect(ethRow).toHaveTextContent('€1000.00'); // Price
+      expect(ethRow).toHaveTextContent('€2000.00'); // Total value
+    });
+
+    it('should stay in USD while the base currency rate is missing', () => {
+      useStore.setState({ baseCurrency: 'GBP' });
+      renderDashboard();
+
+      expect(screen.getByText('$5000.00')).toBeInTheDocument();
+      expect(screen.getByText('USD (waiting for the GBP rate)')).toBeInTheDocument();
+    });
+
     it('should display chain badges', () => {
       renderDashboard();
 
@@ -463,7 +524,7 @@ describe('Dashboard', () => {
 
       renderDashboard();
 
-      expect(screen.getByText('Assets')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Assets' })).toBeInTheDocument();
       expect(screen.getByText('ETH')).toBeInTheDocument();
       expect(screen.getByText('0.1000')).toBeInTheDocument();
     });
@@ -487,7 +548,7 @@ describe('Dashboard', () => {
       // Should NOT show the empty state message
       expect(screen.queryByText('No assets to display')).not.toBeInTheDocument();
       // Should show the assets header
-      expect(screen.getByText('Assets')).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Assets' })).toBeInTheDocument();
     });
 
     it('should show refreshing indicator when loading with cached assets', () => {
@@ -639,6 +700,15 @@ describe('Dashboard', () => {
   });
 
   describe('DeFi Positions Section', () => {
+    // Positions only stay while an account is connected, so discovery reports them too
+    const withDeFiPositions = (defiPositions: DeFiPosition[]) => {
+      vi.mocked(getDeFiPositions).mockReturnValue(defiPositions);
+      useStore.setState({
+        accounts: [{ id: 'defi-wallet', type: 'wallet', platform: 'Ethereum', label: 'DeFi Wallet', status: 'connected' }],
+        defiPositions,
+      });
+    };
+
     it('should render DeFi Positions section', () => {
       renderDashboard();
       expect(screen.getByText('DeFi Positions')).toBeInTheDocument();
@@ -662,20 +732,20 @@ describe('Dashboard', () => {
           totalAssets: 2,
           lastUpdated: null,
         },
-        defiPositions: [
-          {
-            id: 'defi-1',
-            protocol: 'Lido',
-            positionType: 'staking',
-            label: 'ETH Staking',
-            chain: 'ETHEREUM' as Chain,
-            underlyingAssets: [{ symbol: 'ETH', name: 'Ethereum', amount: '10' }],
-            valueUsd: 20000,
-            apy: 4.2,
-            discoverySource: 'on-chain',
-          },
-        ],
       });
+      withDeFiPositions([
+        {
+          id: 'defi-1',
+          protocol: 'Lido',
+          positionType: 'staking',
+          label: 'ETH Staking',
+          chain: 'ETHEREUM' as Chain,
+          underlyingAssets: [{ symbol: 'ETH', name: 'Ethereum', amount: '10' }],
+          valueUsd: 20000,
+          apy: 4.2,
+          discoverySource: 'on-chain',
+        },
+      ]);
 
       renderDashboard();
 
@@ -687,23 +757,21 @@ describe('Dashboard', () => {
     });
 
     it('should display DeFi positions when present in store', () => {
-      useStore.setState({
-        defiPositions: [
-          {
-            id: 'defi-1',
-            protocol: 'Uniswap V3',
-            positionType: 'lp',
-            label: 'ETH/USDC',
-            chain: 'ETHEREUM' as Chain,
-            underlyingAssets: [
-              { symbol: 'ETH', name: 'Ethereum', amount: '5' },
-              { symbol: 'USDC', name: 'USD Coin', amount: '10000' },
-            ],
-            valueUsd: 20000,
-            discoverySource: 'subgraph',
-          },
-        ],
-      });
+      withDeFiPositions([
+        {
+          id: 'defi-1',
+          protocol: 'Uniswap V3',
+          positionType: 'lp',
+          label: 'ETH/USDC',
+          chain: 'ETHEREUM' as Chain,
+          underlyingAssets: [
+            { symbol: 'ETH', name: 'Ethereum', amount: '5' },
+            { symbol: 'USDC', name: 'USD Coin', amount: '10000' },
+          ],
+          valueUsd: 20000,
+          discoverySource: 'subgraph',
+        },
+      ]);
 
       renderDashboard();
 
@@ -17,17 +17,25 @@ import {
   Skeleton,
 } from '@chakra-ui/react';
 import { Link } from 'react-router-dom';
-import { FiChevronLeft, FiChevronRight, FiPlus, FiEye, FiEyeOff, FiRefreshCw } from 'react-icons/fi';
+import { FiChevronLeft, FiChevronRight, FiPlus, FiEye, FiEyeOff, FiRefreshCw, FiDownload, FiLayers } from 'react-icons/fi';
 import { useStore } from '../store/useStore';
-import { useAccountSync } from '../hooks/useAccountSync';
+import { useSyncRefresh } from '../hooks/useSyncScheduler';
 import { useProgressiveAssetLoading } from '../hooks/useProgressiveAssetLoading';
 import { useDeFiPositions } from '../hooks/useDeFiPositions';
 import { SimpleBalanceCell } from './dashboard/SimpleBalanceCell';
+import ExplorerLink from './ExplorerLink';
 import { ValueCell } from './dashboard/ValueCell';
 import { DeFiPositions } from './dashboard/DeFiPositions';
 import { shouldHideByDefault } from '../utils/spamFilter';
 import { AccountFilter } from './dashboard/AccountFilter';
+import { PortfolioCharts } from './dashboard/PortfolioCharts';
+import { ExportDialog } from './dashboard/ExportDialog';
+import { CostBasisDialog } from './dashboard/CostBasisDialog';
+import { PnLCell } from './dashboard/PnLCell';
 import { useAccountFilter } from '../hooks/useAccountFilter';
+import { useCostBasis } from '../hooks/useCostBasis';
+import { useCurrency } from '../hooks/useCurrency';
+import { useAccountNames } from '../hooks/useAccountNames';
 import type { Asset } from '../store/useStore';
 
 const ITEMS_PER_PAGE = 10;
@@ -46,6 +54,8 @@ function formatTimeAgo(isoDate: string): string {
 export default function Dashboard() {
   const [currentPage, setCurrentPage] = useState(1);
   const [showHiddenTokens, setShowHiddenTokens] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isCostBasisOpen, setIsCostBasisOpen] = useState(false);
   
   // Get data from global store - use selectors to prevent unnecessary re-renders
   const accounts = useStore(state => state.accounts);
@@ -53,9 +63,11 @@ export default function Dashboard() {
   const portfolio = useStore(state => state.portfolio);
   const prices = useStore(state => state.prices);
   const isLoading = useStore(state => state.isLoading);
+  const syncProgress = useStore(state => state.syncProgress);
+  const { currency, baseCurrency, isRatePending, format } = useCurrency();
   
-  // Sync account balances
-  useAccountSync();
+  // Balances sync in the background (see Layout); rows can be refreshed on demand
+  const { refreshAccounts, refreshChain } = useSyncRefresh();
   
   // Progressive loading for individual assets
   const { getLoadingState, getOverallStatus } = useProgressiveAssetLoading(assets);
@@ -67,6 +79,12 @@ export default function Dashboard() {
   const { filterAssets, selectedCount, totalWalletCount } = useAccountFilter();
   const visibleAssets = useMemo(() => filterAssets(assets), [filterAssets, assets]);
 
+  // Cost basis and P&L from recorded lots
+  const { getHoldingPnL } = useCostBasis();
+
+  // ENS, SNS and SuiNS names of wallet addresses
+  const getAccountName = useAccountNames();
+
   // Get connected accounts count
   const connectedAccounts = accounts.filter(acc => acc.status === 'connected').length;
 
@@ -75,6 +93,7 @@ export default function Dashboard() {
     const assetMap = new Map<string, {
       asset: Asset;
       addresses: Set<string>;
+      accountIds: Set<string>;
       totalBalance: number;
       totalValue: number;
       connectionInfo: { 
@@ -98,6 +117,7 @@ export default function Dashboard() {
 
       if (existing) {
         existing.addresses.add(address);
+        existing.accountIds.add(asset.accountId);
         existing.connectionInfo.walletIds.add(walletId);
         existing.totalBalance += balance;
         existing.totalValue += value;
@@ -113,6 +133,7 @@ export default function Dashboard() {
             source: connectionType // Update source to show connection type
           },
           addresses: new Set([address]),
+          accountIds: new Set([asset.accountId]),
           totalBalance: balance,
           totalValue: value,
           connectionInfo: { 
@@ -128,7 +149,7 @@ export default function Dashboard() {
   }, [visibleAssets, accounts]);
 
   // Filter assets: hide spam, worthless, zero-balance, and dust tokens by default
-  const filteredAssets = showHiddenTokens
+  const filteredAssets = useMemo(() => (showHiddenTokens
     ? aggregatedAssets
     : aggregatedAssets.filter(item => {
         // Hide zero balance tokens
@@ -136,7 +157,16 @@ export default function Dashboard() {
         // Hide spam/worthless/dust tokens using the spam filter
         if (shouldHideByDefault(item.asset, item.totalValue)) return false;
         return true;
-      });
+      })
+  ), [aggregatedAssets, showHiddenTokens]);
+
+  // Chart the per-account assets behind the rows the table lists
+  const chartedAssets = useMemo(() => {
+    const listed = new Set(filteredAssets.flatMap(item => (
+      [...item.accountIds].map(accountId => `${accountId}-${item.asset.symbol}-${item.asset.chain}`)
+    )));
+    return visibleAssets.filter(asset => listed.has(`${asset.accountId}-${asset.symbol}-${asset.chain}`));
+  }, [filteredAssets, visibleAssets]);
 
   // Pagination calculations
   const totalPages = Math.ceil(filteredAssets.length / ITEMS_PER_PAGE);
@@ -169,17 +199,24 @@ export default function Dashboard() {
         {/* Portfolio Summary - Always visible */}
         <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
           <Stack gap={4}>
-            <Heading as="h2" size="lg" color="gray.800">
-              Portfolio Summary
-            </Heading>
+            <Flex justify="space-between" align="center">
+              <Heading as="h2" size="lg" color="gray.800">
+                Portfolio Summary
+              </Heading>
+              <Button size="sm" variant="outline" onClick={() => setIsExportOpen(true)}>
+                <FiDownload /> Export
+              </Button>
+            </Flex>
             
             <Grid templateColumns={{ base: '1fr', md: 'repeat(4, 1fr)' }} gap={6}>
               <Stat.Root>
                 <Stat.Label color="gray.600">Total Portfolio Value</Stat.Label>
                 <Stat.ValueText fontSize="3xl">
-                  ${(portfolio.totalValue + totalDeFiValue).toFixed(2)}
+                  {format(portfolio.totalValue + totalDeFiValue, { grouping: false })}
                 </Stat.ValueText>
-                <Stat.HelpText>USD</Stat.HelpText>
+                <Stat.HelpText>
+                  {isRatePending ? `USD (waiting for the ${baseCurrency} rate)` : currency}
+                </Stat.HelpText>
               </Stat.Root>
 
               <Stat.Root>
@@ -193,7 +230,7 @@ export default function Dashboard() {
               <Stat.Root>
                 <Stat.Label color="gray.600">DeFi Value</Stat.Label>
                 <Stat.ValueText fontSize="3xl">
-                  ${totalDeFiValue.toFixed(2)}
+                  {format(totalDeFiValue, { grouping: false })}
                 </Stat.ValueText>
                 <Stat.HelpText>{defiPositions.length} positions</Stat.HelpText>
               </Stat.Root>
@@ -224,6 +261,9 @@ export default function Dashboard() {
         {/* Account Filter */}
         <AccountFilter />
 
+        {/* Portfolio Charts */}
+        <PortfolioCharts assets={chartedAssets} accounts={accounts} />
+
         {/* Assets Table - Always visible */}
         <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm" position="relative">
           <Stack gap={4}>
@@ -232,6 +272,9 @@ export default function Dashboard() {
                 Assets
               </Heading>
               <Flex align="center" gap={4}>
+                <Button size="sm" variant="outline" onClick={() => setIsCostBasisOpen(true)}>
+                  <FiLayers /> Cost basis
+                </Button>
                 <Flex align="center" gap={2}>
                   <Box as={showHiddenTokens ? FiEye : FiEyeOff} color="gray.600" />
                   <Text fontSize="sm" color="gray.600">
@@ -252,7 +295,9 @@ export default function Dashboard() {
                 {isLoading && assets.length > 0 && (
                   <Flex align="center" gap={2}>
                     <Box as={FiRefreshCw} color="blue.500" style={{ animation: 'spin 1s linear infinite' }} />
-                    <Text fontSize="xs" color="gray.500">Refreshing...</Text>
+                    <Text fontSize="xs" color="gray.500">
+                      Refreshing{syncProgress && syncProgress.total > 0 ? ` ${syncProgress.completed}/${syncProgress.total}` : ''}...
+                    </Text>
                   </Flex>
                 )}
                 {!isLoading && portfolio.lastUpdated && (
@@ -279,15 +324,26 @@ export default function Dashboard() {
                     <Table.ColumnHeader textAlign="right">Balance</Table.ColumnHeader>
                     <Table.ColumnHeader>Source</Table.ColumnHeader>
                     <Table.ColumnHeader>Chain</Table.ColumnHeader>
-                    <Table.ColumnHeader textAlign="right">Price (USD)</Table.ColumnHeader>
-                    <Table.ColumnHeader textAlign="right">Value (USD)</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Price ({currency})</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Value ({currency})</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Cost Basis</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Unrealized P&L</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Realized P&L</Table.ColumnHeader>
                   </Table.Row>
                 </Table.Header>
                 <Table.Body>
                   {filteredAssets.length > 0 ? (
                     currentAssets.map((item) => {
-                      const { asset, addresses, connectionInfo } = item;
-                      const addressArray = Array.from(addresses);
+                      const { asset, addresses, accountIds, connectionInfo } = item;
+                      const priceUsd = prices[asset.symbol] || asset.priceUsd;
+                      const pnl = getHoldingPnL(
+                        Array.from(accountIds),
+                        asset.chain,
+                        asset.symbol,
+                        item.totalBalance,
+                        priceUsd
+                      );
+                      const addressArray = Array.from(addresses).filter(Boolean);
                       const showTooltip = addressArray.length > 1;
 
                       // Format source to show account count
@@ -299,7 +355,13 @@ export default function Dashboard() {
                         <Table.Row key={asset.id}>
                           <Table.Cell>
                             <Stack gap={0}>
-                              <Text fontWeight="semibold">{asset.symbol}</Text>
+                              <Text fontWeight="semibold">
+                                {asset.metadata?.contractAddress ? (
+                                  <ExplorerLink chain={asset.chain} kind="token" value={asset.metadata.contractAddress}>
+                                    {asset.symbol}
+                                  </ExplorerLink>
+                                ) : asset.symbol}
+                              </Text>
                               <Text fontSize="sm" color="gray.600">{asset.name}</Text>
                             </Stack>
                           </Table.Cell>
@@ -313,7 +375,7 @@ export default function Dashboard() {
                           </Table.Cell>
                           <Table.Cell>
                             {showTooltip ? (
-                              <Tooltip.Root>
+                              <Tooltip.Root interactive>
                                 <Tooltip.Trigger asChild>
                                   <Badge
                                     colorScheme="blue"
@@ -332,7 +394,9 @@ export default function Dashboard() {
                                       </Text>
                                       {addressArray.map((addr, idx) => (
                                         <Text key={idx} fontSize="xs" fontFamily="mono">
-                                          {addr.slice(0, 6)}...{addr.slice(-4)}
+                                          <ExplorerLink chain={asset.chain} kind="address" value={addr}>
+                                            {getAccountName(addr) ?? `${addr.slice(0, 6)}...${addr.slice(-4)}`}
+                                          </ExplorerLink>
                                         </Text>
                                       ))}
                                     </Box>
@@ -344,11 +408,36 @@ export default function Dashboard() {
                                 {sourceLabel}
                               </Badge>
                             )}
+                            <IconButton
+                              aria-label={`Refresh ${sourceLabel}`}
+                              variant="ghost"
+                              size="2xs"
+                              ml={1}
+                              onClick={() => refreshAccounts(accountIds)}
+                            >
+                              <FiRefreshCw />
+                            </IconButton>
+                            {addressArray.length === 1 && (
+                              <Text fontSize="xs" fontFamily="mono" color="gray.600">
+                                <ExplorerLink chain={asset.chain} kind="address" value={addressArray[0]}>
+                                  {getAccountName(addressArray[0]) ?? `${addressArray[0].slice(0, 6)}...${addressArray[0].slice(-4)}`}
+                                </ExplorerLink>
+                              </Text>
+                            )}
                           </Table.Cell>
                           <Table.Cell>
                             <Badge colorScheme="purple" variant="subtle">
                               {asset.chain}
                             </Badge>
+                            <IconButton
+                              aria-label={`Refresh ${asset.chain}`}
+                              variant="ghost"
+                              size="2xs"
+                              ml={1}
+                              onClick={() => refreshChain(asset.chain)}
+                            >
+                              <FiRefreshCw />
+                            </IconButton>
                           </Table.Cell>
                           <Table.Cell textAlign="right">
                             {getLoadingState(asset.id).isLoadingPrice ? (
@@ -358,14 +447,14 @@ export default function Dashboard() {
                               </Flex>
                             ) : (
                               <Text fontFamily="mono">
-                                ${prices[asset.symbol]?.toFixed(2) || asset.priceUsd?.toFixed(2) || '-'}
+                                {priceUsd ? format(priceUsd, { grouping: false }) : '-'}
                               </Text>
                             )}
                           </Table.Cell>
                           <Table.Cell textAlign="right">
                             <ValueCell
                               balance={asset.balance}
-                              priceUsd={prices[asset.symbol] || asset.priceUsd}
+                              priceUsd={priceUsd}
                               valueUsd={asset.valueUsd}
                               isLoadingBalance={getLoadingState(asset.id).isLoadingBalance}
                               isLoadingPrice={getLoadingState(asset.id).isLoadingPrice}
@@ -374,6 +463,7 @@ export default function Dashboard() {
                               compact
                             />
                           </Table.Cell>
+                          <PnLCell pnl={pnl} />
                         </Table.Row>
                       );
                     })
@@ -401,11 +491,12 @@ export default function Dashboard() {
                         <Table.Cell textAlign="right">
                           <Skeleton height="16px" width="80px" ml="auto" />
                         </Table.Cell>
+                        <Table.Cell colSpan={3} />
                       </Table.Row>
                     ))
                   ) : (
                     <Table.Row>
-                      <Table.Cell colSpan={6} textAlign="center" py={20}>
+                      <Table.Cell colSpan={9} textAlign="center" py={20}>
                         <Stack gap={4} align="center">
                           <Box
                             p={4}
@@ -481,6 +572,14 @@ export default function Dashboard() {
           isLoading={isLoadingDeFi}
         />
 
+        {isExportOpen && (
+          <ExportDialog isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} />
+        )}
+
+        {isCostBasisOpen && (
+          <CostBasisDialog isOpen={isCostBasisOpen} onClose={() => setIsCostBasisOpen(false)} />
+        )}
+
       </Stack>
     </Container>
   );
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react';
+import ExplorerLink from './ExplorerLink';
+import { useStore } from '../store/useStore';
+
+const ADDRESS = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+function renderWithProviders(ui: React.ReactElement) {
+  return render(<ChakraProvider value={defaultSystem}>{ui}</ChakraProvider>);
+}
+
+describe('ExplorerLink', () => {
+  beforeEach(() => {
+    useStore.setState({ networkEnvironment: 'production', explorerSettings: {} });
+  });
+
+  it('opens the address in a new tab on the default explorer', () => {
+    renderWithProviders(<ExplorerLink chain="Solana" kind="address" value={ADDRESS} />);
+
+    const link = screen.getByText(ADDRESS).closest('a');
+    expect(link).toHaveAttribute('href', `https://solscan.io/account/${ADDRESS}`);
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  it('switches to the testnet explorer in testnet mode', () => {
+    useStore.setState({ networkEnvironment: 'testnet' });
+    renderWithProviders(<ExplorerLink chain="Solana" kind="address" value={ADDRESS}>Cold storage</ExplorerLink>);
+
+    expect(screen.getByText('Cold storage').closest('a'))
+      .toHaveAttribute('href', `https://solscan.io/account/${ADDRESS}?cluster=devnet`);
+  });
+
+  it('uses the explorer chosen for the chain in the current environment', () => {
+    useStore.getState().setExplorerSetting('production', 'solana', { preset: 'Solana Explorer' });
+    renderWithProviders(<ExplorerLink chain="Solana" kind="address" value={ADDRESS} />);
+
+    expect(screen.getByText(ADDRESS).closest('a')).toHaveAttribute('href', `https://explorer.solana.com/address/${ADDRESS}`);
+  });
+
+  it('renders plain content when the chain has no explorer page for it', () => {
+    renderWithProviders(<ExplorerLink chain="Bitcoin" kind="token" value="bc1qexample">BTC</ExplorerLink>);
+
+    expect(screen.getByText('BTC').closest('a')).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import type { ReactNode } from 'react';
+import { Link } from '@chakra-ui/react';
+import { FiExternalLink } from 'react-icons/fi';
+import { useStore } from '../store/useStore';
+import { explorerLink, type ExplorerLinkKind } from '../domain/chain/ExplorerLinks';
+
+interface ExplorerLinkProps {
+  /** Chain name as accounts and assets use it, e.g. 'Ethereum' or 'SUI' */
+  chain: string;
+  kind: ExplorerLinkKind;
+  value: string;
+  /** Defaults to the value itself */
+  children?: ReactNode;
+}
+
+/**
+ * Opens an address, token contract or transaction in the explorer chosen for
+ * the chain in the current network environment. Renders the content
+ * unlinked when the chain has no explorer page for it.
+ */
+export default function ExplorerLink({ chain, kind, value, children }: ExplorerLinkProps) {
+  const networkEnvironment = useStore(state => state.networkEnvironment);
+  const explorerSettings = useStore(state => state.explorerSettings);
+  const href = explorerLink(chain, networkEnvironment, kind, value, explorerSettings);
+  const content = children ?? value;
+
+  if (!href) return <>{content}</>;
+  return (
+    <Link
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={`View on explorer: ${value}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {content}
+      <FiExternalLink aria-hidden />
+    </Link>
+  );
+}
@@ -13,6 +13,10 @@ vi.mock('./SideMenu', () => ({
   ),
 }));
 
+vi.mock('../hooks/useAccountSync', () => ({
+  useAccountSync: vi.fn(),
+}));
+
 const renderLayout = () => {
   return render(
     <ChakraProvider value={defaultSystem}>
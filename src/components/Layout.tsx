@@ -4,9 +4,19 @@ import { Outlet } from 'react-router-dom';
 import SideMenu from './SideMenu';
 import TestnetBanner from './TestnetBanner';
 import EnvironmentIndicator from './EnvironmentIndicator';
+import UnlockScreen from './UnlockScreen';
+import AlertCenter from './AlertCenter';
+import { useVault, useVaultAutoLock } from '../hooks/useVault';
+import { useExchangeRateSync } from '../hooks/useCurrency';
+import { useAccountSync } from '../hooks/useAccountSync';
 
 export default function Layout() {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const { status: vaultStatus } = useVault();
+  useVaultAutoLock();
+  useExchangeRateSync();
+  // Balances refresh in the background on every route once the vault is open
+  useAccountSync({ enabled: vaultStatus !== 'locked' });
 
   return (
     <Box minH="100vh" bg="gray.50">
@@ -19,8 +29,9 @@ export default function Layout() {
         transition="margin-left 0.2s"
         pt={{ base: 16, md: 0 }}
       >
-        <Outlet />
+        {vaultStatus === 'locked' ? <UnlockScreen /> : <Outlet />}
       </Box>
+      {vaultStatus !== 'locked' && <AlertCenter />}
       <EnvironmentIndicator />
     </Box>
   );
@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react';
+import Rebalance from './Rebalance';
+import { useStore } from '../store/useStore';
+import { DEFAULT_REBALANCE_PLAN } from '../domain/portfolio/Rebalance';
+
+const renderRebalance = () => {
+  return render(
+    <ChakraProvider value={defaultSystem}>
+      <Rebalance />
+    </ChakraProvider>
+  );
+};
+
+describe('Rebalance', () => {
+  beforeEach(() => {
+    useStore.setState({
+      assets: [],
+      rebalancePlan: { ...DEFAULT_REBALANCE_PLAN, minTradeUsd: 50 },
+      baseCurrency: 'BTC',
+      exchangeRates: { BTC: { currency: 'BTC', rate: 1 / 50_000, updatedAt: '2026-01-01T00:00:00Z' } },
+    });
+  });
+
+  it('shows the minimum trade with the base currency decimals', () => {
+    renderRebalance();
+
+    expect(screen.getByLabelText('Minimum trade size')).toHaveValue(0.001);
+  });
+
+  it('keeps a BTC minimum trade below a hundredth of a coin', () => {
+    useStore.setState({ rebalancePlan: { ...DEFAULT_REBALANCE_PLAN, minTradeUsd: 5 } });
+
+    renderRebalance();
+
+    expect(screen.getByLabelText('Minimum trade size')).toHaveValue(0.0001);
+  });
+});
@@ -0,0 +1,324 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Container,
+  Stack,
+  Text,
+  Button,
+  Heading,
+  Table,
+  Badge,
+  Flex,
+  IconButton,
+  Input,
+  NativeSelect,
+} from '@chakra-ui/react';
+import { FiPlus, FiTrash2 } from 'react-icons/fi';
+import { useStore } from '../store/useStore';
+import { useAccountFilter } from '../hooks/useAccountFilter';
+import { useCurrency } from '../hooks/useCurrency';
+import { filterSpamTokens } from '../utils/spamFilter';
+import { ASSET_CATEGORY_LABELS, type AssetCategory } from '../domain/portfolio/AssetCategory';
+import { CURRENCY_INFO } from '../domain/asset/Currency';
+import {
+  planRebalance,
+  validateRebalancePlan,
+  type RebalanceTarget,
+  type RebalanceTargetKind,
+  type RebalanceTrade,
+} from '../domain/portfolio/Rebalance';
+
+function formatUnits(units: number | null, symbol: string | null): string {
+  if (units === null || symbol === null) return '-';
+  return `${units.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}`;
+}
+
+function formatPoints(value: number, signed = false): string {
+  const rounded = Number(value.toFixed(2));
+  return `${signed && rounded > 0 ? '+' : ''}${rounded}%`;
+}
+
+export default function Rebalance() {
+  const assets = useStore(state => state.assets);
+  const prices = useStore(state => state.prices);
+  const plan = useStore(state => state.rebalancePlan);
+  const setRebalancePlan = useStore(state => state.setRebalancePlan);
+  const { filterAssets, selectedCount, totalWalletCount } = useAccountFilter();
+  const { currency, rate, format } = useCurrency();
+  // What the user typed, kept while editing so small BTC or ETH amounts are not rounded away
+  const [minTradeDraft, setMinTradeDraft] = useState<string | null>(null);
+  const minTrade = String(Number((plan.minTradeUsd * rate).toFixed(CURRENCY_INFO[currency].decimals)));
+
+  // The same holdings the Dashboard shows, across chains
+  const holdings = useMemo(
+    () => filterSpamTokens(filterAssets(assets)).map(asset => ({
+      symbol: asset.symbol,
+      balance: parseFloat(asset.balance) || 0,
+      valueUsd: asset.valueUsd,
+    })),
+    [filterAssets, assets]
+  );
+
+  const validation = validateRebalancePlan(plan);
+  const result = useMemo(
+    () => (validation.isSuccess && plan.targets.length > 0 ? planRebalance(holdings, plan, prices) : null),
+    [validation.isSuccess, holdings, plan, prices]
+  );
+  const weightTotal = plan.targets.reduce((sum, target) => sum + (target.weight || 0), 0);
+
+  const updateTarget = (index: number, updates: Partial<RebalanceTarget>) => {
+    setRebalancePlan({
+      ...plan,
+      targets: plan.targets.map((target, i) => (i === index ? { ...target, ...updates } : target)),
+    });
+  };
+
+  const addTarget = () => {
+    setRebalancePlan({ ...plan, targets: [...plan.targets, { kind: 'asset', key: '', weight: 0 }] });
+  };
+
+  const removeTarget = (index: number) => {
+    setRebalancePlan({ ...plan, targets: plan.targets.filter((_, i) => i !== index) });
+  };
+
+  const renderTrade = (trade: RebalanceTrade, index: number) => (
+    <Table.Row key={`${trade.groupKey}-${trade.symbol ?? ''}-${index}`}>
+      <Table.Cell>
+        <Badge colorPalette={trade.side === 'buy' ? 'green' : 'red'} variant="subtle">
+          {trade.side === 'buy' ? 'Buy' : 'Sell'}
+        </Badge>
+      </Table.Cell>
+      <Table.Cell fontWeight="medium">
+        {trade.symbol ?? `Any ${result?.drifts.find(drift => drift.key === trade.groupKey)?.label ?? trade.groupKey}`}
+      </Table.Cell>
+      <Table.Cell textAlign="right">{formatUnits(trade.units, trade.symbol)}</Table.Cell>
+      <Table.Cell textAlign="right">{format(trade.valueUsd)}</Table.Cell>
+    </Table.Row>
+  );
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        <Box>
+          <Heading as="h1" size="3xl" mb={2}>
+            Rebalance
+          </Heading>
+          <Text color="gray.600">
+            Compare holdings with target weights and see the trades that bring them back. Nothing is traded for you.
+          </Text>
+          {selectedCount < totalWalletCount && totalWalletCount > 0 && (
+            <Text fontSize="sm" color="orange.500" mt={1}>
+              Using {selectedCount} of {totalWalletCount} accounts, as filtered on the Dashboard
+            </Text>
+          )}
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Targets
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Set weights by asset or by category; they must add up to 100%. An asset with its own target is not
+                counted in its category, and holdings without a target are treated as 0%.
+              </Text>
+            </Box>
+
+            {plan.targets.map((target, index) => (
+              <Flex key={index} gap={2} align="center" wrap="wrap">
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label={`Target ${index + 1} type`}
+                    value={target.kind}
+                    onChange={(e) => updateTarget(index, { kind: e.target.value as RebalanceTargetKind, key: '' })}
+                  >
+                    <option value="asset">Asset</option>
+                    <option value="category">Category</option>
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                {target.kind === 'asset' ? (
+                  <Input
+                    size="sm"
+                    width="40"
+                    aria-label={`Target ${index + 1} symbol`}
+                    placeholder="Symbol, e.g. ETH"
+                    value={target.key}
+                    onChange={(e) => updateTarget(index, { key: e.target.value.toUpperCase() })}
+                  />
+                ) : (
+                  <NativeSelect.Root size="sm" width="40">
+                    <NativeSelect.Field
+                      aria-label={`Target ${index + 1} category`}
+                      placeholder="Category"
+                      value={target.key}
+                      onChange={(e) => updateTarget(index, { key: e.target.value })}
+                    >
+                      {(Object.entries(ASSET_CATEGORY_LABELS) as Array<[AssetCategory, string]>).map(([category, label]) => (
+                        <option key={category} value={category}>{label}</option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                )}
+                <Input
+                  size="sm"
+                  width="24"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  aria-label={`Target ${index + 1} weight`}
+                  placeholder="Weight"
+                  value={target.weight || ''}
+                  onChange={(e) => updateTarget(index, { weight: Number(e.target.value) })}
+                />
+                <Text fontSize="sm" color="gray.600">%</Text>
+                <IconButton
+                  aria-label={`Remove target ${index + 1}`}
+                  size="sm"
+                  variant="ghost"
+                  color="red.500"
+                  onClick={() => removeTarget(index)}
+                >
+                  <FiTrash2 />
+                </IconButton>
+              </Flex>
+            ))}
+
+            <Flex gap={4} align="center" wrap="wrap">
+              <Button size="sm" variant="outline" onClick={addTarget}>
+                <FiPlus /> Add target
+              </Button>
+              {plan.targets.length > 0 && (
+                <Text fontSize="sm" color={Math.abs(weightTotal - 100) > 0.01 ? 'orange.500' : 'gray.600'}>
+                  Total {formatPoints(weightTotal)}
+                </Text>
+              )}
+            </Flex>
+
+            <Flex gap={6} wrap="wrap">
+              <Box>
+                <Text fontSize="sm" fontWeight="medium" mb={1}>Tolerance band (± percentage points)</Text>
+                <Input
+                  size="sm"
+                  width="32"
+                  type="number"
+                  min={0}
+                  step="any"
+                  aria-label="Tolerance band"
+                  value={plan.tolerancePercent}
+                  onChange={(e) => setRebalancePlan({ ...plan, tolerancePercent: Number(e.target.value) })}
+                />
+              </Box>
+              <Box>
+                <Text fontSize="sm" fontWeight="medium" mb={1}>Minimum trade ({currency})</Text>
+                <Input
+                  size="sm"
+                  width="32"
+                  type="number"
+                  min={0}
+                  step="any"
+                  aria-label="Minimum trade size"
+                  value={minTradeDraft ?? minTrade}
+                  onChange={(e) => {
+                    setMinTradeDraft(e.target.value);
+                    setRebalancePlan({ ...plan, minTradeUsd: Number(e.target.value) / rate });
+                  }}
+                  onBlur={() => setMinTradeDraft(null)}
+                />
+              </Box>
+            </Flex>
+
+            {validation.isFailure && (
+              <Text fontSize="sm" color="red.500">{validation.error.message}</Text>
+            )}
+          </Stack>
+        </Box>
+
+        {result && (
+          <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+            <Stack gap={4}>
+              <Flex justify="space-between" align="baseline" wrap="wrap" gap={2}>
+                <Heading as="h2" size="lg">
+                  Drift
+                </Heading>
+                <Text fontSize="sm" color="gray.600">Portfolio value {format(result.totalValue)}</Text>
+              </Flex>
+              <Box overflowX="auto">
+                <Table.Root variant="line" size="sm">
+                  <Table.Header>
+                    <Table.Row>
+                      <Table.ColumnHeader>Target</Table.ColumnHeader>
+                      <Table.ColumnHeader textAlign="right">Value ({currency})</Table.ColumnHeader>
+                      <Table.ColumnHeader textAlign="right">Current</Table.ColumnHeader>
+                      <Table.ColumnHeader textAlign="right">Target</Table.ColumnHeader>
+                      <Table.ColumnHeader textAlign="right">Drift</Table.ColumnHeader>
+                      <Table.ColumnHeader>Status</Table.ColumnHeader>
+                    </Table.Row>
+                  </Table.Header>
+                  <Table.Body>
+                    {result.drifts.map(drift => (
+                      <Table.Row key={`${drift.kind}-${drift.key}`}>
+                        <Table.Cell>
+                          <Text fontWeight="medium">{drift.label}</Text>
+                          {drift.kind === 'category' && drift.symbols.length > 0 && (
+                            <Text fontSize="xs" color="gray.600">{drift.symbols.join(', ')}</Text>
+                          )}
+                          {drift.kind === 'untargeted' && (
+                            <Text fontSize="xs" color="gray.600">No target</Text>
+                          )}
+                        </Table.Cell>
+                        <Table.Cell textAlign="right">{format(drift.currentValue)}</Table.Cell>
+                        <Table.Cell textAlign="right">{formatPoints(drift.currentPercent)}</Table.Cell>
+                        <Table.Cell textAlign="right">{formatPoints(drift.targetPercent)}</Table.Cell>
+                        <Table.Cell textAlign="right">{formatPoints(drift.driftPercent, true)}</Table.Cell>
+                        <Table.Cell>
+                          <Badge colorPalette={drift.withinTolerance ? 'green' : 'orange'} variant="subtle">
+                            {drift.withinTolerance ? 'Within band' : drift.driftPercent > 0 ? 'Overweight' : 'Underweight'}
+                          </Badge>
+                        </Table.Cell>
+                      </Table.Row>
+                    ))}
+                  </Table.Body>
+                </Table.Root>
+              </Box>
+
+              <Heading as="h2" size="lg">
+                Suggested trades
+              </Heading>
+              {result.trades.length === 0 ? (
+                <Text color="gray.500" fontSize="sm">
+                  {result.drifts.every(drift => drift.withinTolerance)
+                    ? 'Every target is within its tolerance band'
+                    : 'Every trade needed is below the minimum trade size'}
+                </Text>
+              ) : (
+                <Box overflowX="auto">
+                  <Table.Root variant="line" size="sm">
+                    <Table.Header>
+                      <Table.Row>
+                        <Table.ColumnHeader>Side</Table.ColumnHeader>
+                        <Table.ColumnHeader>Asset</Table.ColumnHeader>
+                        <Table.ColumnHeader textAlign="right">Units</Table.ColumnHeader>
+                        <Table.ColumnHeader textAlign="right">Value ({currency})</Table.ColumnHeader>
+                      </Table.Row>
+                    </Table.Header>
+                    <Table.Body>{result.trades.map(renderTrade)}</Table.Body>
+                  </Table.Root>
+                </Box>
+              )}
+              {result.skippedTrades.length > 0 && (
+                <Text fontSize="xs" color="gray.500">
+                  {result.skippedTrades.length} smaller trade{result.skippedTrades.length === 1 ? '' : 's'} below the
+                  minimum of {format(plan.minTradeUsd)} left out
+                </Text>
+              )}
+            </Stack>
+          </Box>
+        )}
+      </Stack>
+    </Container>
+  );
+}
@@ -8,7 +8,7 @@ import {
   Grid,
 } from '@chakra-ui/react';
 import { Link, Outlet, useLocation } from 'react-router-dom';
-import { FiUser, FiShield, FiBell, FiDatabase } from 'react-icons/fi';
+import { FiUser, FiShield, FiBell, FiDatabase, FiDollarSign, FiServer, FiRefreshCw, FiList, FiExternalLink } from 'react-icons/fi';
 
 interface SettingsItem {
   id: string;
@@ -40,6 +40,41 @@ const settingsItems: SettingsItem[] = [
     icon: FiBell,
     path: '/settings/notifications',
   },
+  {
+    id: 'display',
+    label: 'Display',
+    description: 'Base currency for values and exports',
+    icon: FiDollarSign,
+    path: '/settings/display',
+  },
+  {
+    id: 'networks',
+    label: 'Networks',
+    description: 'RPC endpoints, health and provider API keys',
+    icon: FiServer,
+    path: '/settings/networks',
+  },
+  {
+    id: 'explorers',
+    label: 'Explorers',
+    description: 'Block explorers for address and token links',
+    icon: FiExternalLink,
+    path: '/settings/explorers',
+  },
+  {
+    id: 'sync',
+    label: 'Sync',
+    description: 'How often balances refresh, per chain and account',
+    icon: FiRefreshCw,
+    path: '/settings/sync',
+  },
+  {
+    id: 'token-lists',
+    label: 'Token Lists',
+    description: 'Import token lists to search and add tokens',
+    icon: FiList,
+    path: '/settings/token-lists',
+  },
   {
     id: 'data',
     label: 'Data & Storage',
@@ -10,7 +10,7 @@ import {
   Flex,
 } from '@chakra-ui/react';
 import { Link, useLocation } from 'react-router-dom';
-import { FiMenu, FiHome, FiSettings, FiChevronLeft, FiChevronRight, FiX } from 'react-icons/fi';
+import { FiMenu, FiHome, FiActivity, FiSliders, FiSettings, FiChevronLeft, FiChevronRight, FiX } from 'react-icons/fi';
 import EnvironmentSelector from './EnvironmentSelector';
 
 interface MenuItem {
@@ -23,6 +23,8 @@ interface MenuItem {
 
 const menuItems: MenuItem[] = [
   { id: 'dashboard', label: 'Dashboard', icon: FiHome, path: '/' },
+  { id: 'activity', label: 'Activity', icon: FiActivity, path: '/activity' },
+  { id: 'rebalance', label: 'Rebalance', icon: FiSliders, path: '/rebalance' },
   { 
     id: 'settings', 
     label: 'Settings', 
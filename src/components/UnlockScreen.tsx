@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Box, Button, Container, Heading, Input, Stack, Text } from '@chakra-ui/react';
+import { FiLock } from 'react-icons/fi';
+import { useVault } from '../hooks/useVault';
+
+export default function UnlockScreen() {
+  const { vault } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+
+    const result = await vault.unlock(passphrase);
+    result.match({
+      success: () => setPassphrase(''),
+      failure: (err) => setError(err.message),
+    });
+    setIsUnlocking(false);
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Resetting the vault permanently deletes all stored API keys. Continue?')) {
+      vault.reset();
+    }
+  };
+
+  return (
+    <Container maxW="md" py={24}>
+      <Box p={8} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+        <form onSubmit={handleUnlock}>
+          <Stack gap={6} align="stretch">
+            <Stack gap={2} align="center" textAlign="center">
+              <Box color="blue.500" fontSize="3xl">
+                <FiLock />
+              </Box>
+              <Heading as="h1" size="2xl">
+                Vault Locked
+              </Heading>
+              <Text color="gray.600">
+                Enter your passphrase to unlock your encrypted credentials
+              </Text>
+            </Stack>
+
+            <Input
+              type="password"
+              aria-label="Passphrase"
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isUnlocking}
+              autoFocus
+            />
+
+            {error && (
+              <Text color="red.500" fontSize="sm" role="alert">
+                {error}
+              </Text>
+            )}
+
+            <Button type="submit" colorPalette="blue" loading={isUnlocking} disabled={!passphrase}>
+              Unlock
+            </Button>
+            <Button variant="ghost" size="sm" colorPalette="red" onClick={handleReset}>
+              Forgot passphrase? Reset vault
+            </Button>
+          </Stack>
+        </form>
+      </Box>
+    </Container>
+  );
+}
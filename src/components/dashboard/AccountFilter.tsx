@@ -7,6 +7,7 @@ import {
 } from '@chakra-ui/react';
 import { FiCheck, FiMinus } from 'react-icons/fi';
 import { useAccountFilter } from '../../hooks/useAccountFilter';
+import { useAccountNames } from '../../hooks/useAccountNames';
 
 function truncateAddress(address: string): string {
   if (address.length <= 10) return address;
@@ -26,6 +27,7 @@ export function AccountFilter() {
     selectedCount,
     totalWalletCount,
   } = useAccountFilter();
+  const getAccountName = useAccountNames();
 
   if (totalWalletCount === 0) return null;
 
@@ -140,7 +142,7 @@ export function AccountFilter() {
                       </Text>
                       {account.address && (
                         <Text fontSize="xs" color="gray.400" fontFamily="mono">
-                          {truncateAddress(account.address)}
+                          {getAccountName(account.address) ?? truncateAddress(account.address)}
                         </Text>
                       )}
                       <Box ml="auto">
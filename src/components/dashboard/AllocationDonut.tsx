@@ -0,0 +1,131 @@
+import { useState, useMemo } from 'react';
+import { Box, Stack, Text, Flex } from '@chakra-ui/react';
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
+import type { AllocationSlice } from '../../domain/portfolio/Allocation';
+import { useCurrency } from '../../hooks/useCurrency';
+
+const CHART_COLORS = [
+  '#3182CE', '#805AD5', '#38A169', '#DD6B20', '#D53F8C',
+  '#319795', '#D69E2E', '#E53E3E', '#5A67D8', '#718096',
+];
+
+interface AllocationDonutProps {
+  title: string;
+  slices: AllocationSlice[];
+}
+
+export function AllocationDonut({ title, slices }: AllocationDonutProps) {
+  // Keys hidden via the legend; hidden slices are excluded and the rest re-weighted
+  const [hiddenKeys, setHiddenKeys] = useState<Set<string>>(new Set());
+  const { format } = useCurrency();
+
+  const colorByKey = useMemo(() => {
+    const map = new Map<string, string>();
+    slices.forEach((slice, i) => map.set(slice.key, CHART_COLORS[i % CHART_COLORS.length]));
+    return map;
+  }, [slices]);
+
+  const visibleSlices = useMemo(
+    () => slices.filter(s => !hiddenKeys.has(s.key)),
+    [slices, hiddenKeys]
+  );
+  const visibleTotal = visibleSlices.reduce((sum, s) => sum + s.value, 0);
+
+  const toggleKey = (key: string) => {
+    setHiddenKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Box p={4} borderRadius="md" border="1px solid" borderColor="gray.100" data-testid={`allocation-${title}`}>
+      <Text fontWeight="semibold" fontSize="sm" color="gray.700" mb={2}>
+        {title}
+      </Text>
+
+      {slices.length === 0 ? (
+        <Flex h="180px" align="center" justify="center">
+          <Text fontSize="sm" color="gray.400">No priced assets</Text>
+        </Flex>
+      ) : (
+        <>
+          <Box h="180px">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie
+                  data={visibleSlices}
+                  dataKey="value"
+                  nameKey="label"
+                  innerRadius="55%"
+                  outerRadius="85%"
+                  paddingAngle={1}
+                  isAnimationActive={false}
+                >
+                  {visibleSlices.map(slice => (
+                    <Cell key={slice.key} fill={colorByKey.get(slice.key)} />
+                  ))}
+                </Pie>
+                <Tooltip
+                  formatter={(value) => {
+                    const numeric = Number(value);
+                    const share = visibleTotal > 0 ? (numeric / visibleTotal) * 100 : 0;
+                    return `${format(numeric)} (${share.toFixed(1)}%)`;
+                  }}
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          </Box>
+
+          {/* Legend — click an entry to hide/show it */}
+          <Stack gap={1} mt={2}>
+            {slices.map(slice => {
+              const hidden = hiddenKeys.has(slice.key);
+              const share = !hidden && visibleTotal > 0 ? (slice.value / visibleTotal) * 100 : null;
+
+              return (
+                <Flex
+                  key={slice.key}
+                  as="button"
+                  data-testid={`legend-${slice.key}`}
+                  aria-pressed={!hidden}
+                  align="center"
+                  gap={2}
+                  px={1}
+                  borderRadius="sm"
+                  cursor="pointer"
+                  _hover={{ bg: 'gray.50' }}
+                  onClick={() => toggleKey(slice.key)}
+                >
+                  <Box
+                    w="10px"
+                    h="10px"
+                    borderRadius="full"
+                    flexShrink={0}
+                    bg={hidden ? 'gray.300' : colorByKey.get(slice.key)}
+                  />
+                  <Text
+                    fontSize="xs"
+                    color={hidden ? 'gray.400' : 'gray.700'}
+                    textDecoration={hidden ? 'line-through' : 'none'}
+                    truncate
+                  >
+                    {slice.label}
+                  </Text>
+                  <Text fontSize="xs" color="gray.500" ml="auto" fontFamily="mono">
+                    {share !== null ? `${share.toFixed(1)}%` : '—'}
+                  </Text>
+                </Flex>
+              );
+            })}
+          </Stack>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -9,6 +9,7 @@ import React from 'react';
 import { Box, Text, Skeleton, Badge, Flex } from '@chakra-ui/react';
 import { BalanceAggregate } from '../../domain/asset/BalanceAggregate';
 import { LoadingStatus } from '../../domain/asset/AssetLoadingState';
+import ExplorerLink from '../ExplorerLink';
 
 export interface BalanceCellProps {
   balance: BalanceAggregate;
@@ -29,6 +30,7 @@ export const BalanceCell: React.FC<BalanceCellProps> = ({
   const balanceStatus = loadingState.getBalanceStatus();
   const priceStatus = loadingState.getPriceStatus();
   const cacheStatus = loadingState.getCacheStatus();
+  const contractAddress = balance.getMetadata()?.contractAddress;
 
   // Render balance amount
   const renderBalance = () => {
@@ -54,7 +56,11 @@ export const BalanceCell: React.FC<BalanceCellProps> = ({
           color={isStale ? 'gray.500' : 'inherit'}
           fontSize={compact ? 'sm' : 'md'}
         >
-          {balance.getBalance().format(4)}
+          {contractAddress ? (
+            <ExplorerLink chain={balance.getChain()} kind="token" value={contractAddress}>
+              {balance.getBalance().format(4)}
+            </ExplorerLink>
+          ) : balance.getBalance().format(4)}
         </Text>
         {isStale && (
           <Badge
@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  Button,
+  Stack,
+  Flex,
+  Box,
+  Text,
+  Input,
+  NativeSelect,
+  Table,
+  IconButton,
+  createToaster,
+} from '@chakra-ui/react';
+import { FiDownload, FiPlus, FiTrash2 } from 'react-icons/fi';
+import { useStore } from '../../store/useStore';
+import { useCostBasis } from '../../hooks/useCostBasis';
+import { useCurrency } from '../../hooks/useCurrency';
+import {
+  COST_BASIS_METHODS,
+  entriesFromTransactions,
+  validateCostBasisEntry,
+  type CostBasisEntryType,
+  type CostBasisMethod,
+  type Disposal,
+} from '../../domain/portfolio/CostBasis';
+import { getTransactionStore } from '../../infrastructure/activity/TransactionStore';
+
+interface CostBasisDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  hifo: 'HIFO',
+  average: 'Average cost',
+};
+
+const toaster = createToaster({
+  placement: 'top'
+});
+
+const emptyForm = {
+  accountId: '',
+  chain: '',
+  symbol: '',
+  type: 'acquire' as CostBasisEntryType,
+  quantity: '',
+  unitPrice: '',
+  fee: '',
+  date: new Date().toISOString().slice(0, 10),
+};
+
+export function CostBasisDialog({ isOpen, onClose }: CostBasisDialogProps) {
+  const accounts = useStore(state => state.accounts);
+  const addCostBasisEntries = useStore(state => state.addCostBasisEntries);
+  const updateCostBasisEntry = useStore(state => state.updateCostBasisEntry);
+  const removeCostBasisEntry = useStore(state => state.removeCostBasisEntry);
+  const setCostBasisMethod = useStore(state => state.setCostBasisMethod);
+  const { entries, method, positions } = useCostBasis();
+  const { format } = useCurrency();
+
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const accountLabels = useMemo(() => new Map(accounts.map(acc => [acc.id, acc.label])), [accounts]);
+
+  const disposals = useMemo(() => {
+    const byEntry = new Map<string, Disposal>();
+    for (const position of positions.values()) {
+      for (const disposal of position.disposals) byEntry.set(disposal.entryId, disposal);
+    }
+    return byEntry;
+  }, [positions]);
+
+  const sortedEntries = useMemo(
+    () => [...entries].sort((a, b) => b.timestamp - a.timestamp),
+    [entries]
+  );
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const transactions = await getTransactionStore().findByAccounts(accounts.map(acc => acc.id));
+      const imported = entriesFromTransactions(transactions, entries);
+      addCostBasisEntries(imported);
+      toaster.create({
+        title: imported.length > 0 ? `Imported ${imported.length} entries` : 'No new activity to import',
+        description: imported.length > 0 ? 'Add the unit price of each entry to complete its cost basis.' : undefined,
+        type: 'info',
+        duration: 4000
+      });
+    } catch (error) {
+      toaster.create({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        type: 'error',
+        duration: 5000
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const result = validateCostBasisEntry({
+      id: `manual-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      accountId: form.accountId,
+      chain: form.chain.trim(),
+      symbol: form.symbol,
+      type: form.type,
+      quantity: Number(form.quantity),
+      unitPrice: form.unitPrice === '' ? null : Number(form.unitPrice),
+      fee: form.fee === '' ? undefined : Number(form.fee),
+      timestamp: new Date(form.date).getTime(),
+      source: 'manual',
+    });
+
+    result.match({
+      success: (entry) => {
+        addCostBasisEntries([entry]);
+        setForm({ ...emptyForm, accountId: form.accountId, chain: form.chain });
+        setFormError(null);
+      },
+      failure: (error) => setFormError(error.getUserMessage()),
+    });
+  };
+
+  const handlePriceChange = (id: string, value: string) => {
+    const unitPrice = value === '' ? null : Number(value);
+    if (unitPrice !== null && (!Number.isFinite(unitPrice) || unitPrice < 0)) return;
+    updateCostBasisEntry(id, { unitPrice });
+  };
+
+  const setField = (field: keyof typeof emptyForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(e) => !e.open && onClose()} size="xl">
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content>
+          <Dialog.Header>
+            <Dialog.Title>Cost Basis</Dialog.Title>
+            <Dialog.CloseTrigger />
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <Stack gap={5}>
+              <Flex gap={3} align="center" justify="space-between" wrap="wrap">
+                <Flex gap={2} align="center">
+                  <Text fontSize="sm" color="gray.600">Lot method</Text>
+                  <NativeSelect.Root size="sm" width="auto">
+                    <NativeSelect.Field
+                      aria-label="Lot method"
+                      value={method}
+                      onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+                    >
+                      {COST_BASIS_METHODS.map(option => (
+                        <option key={option} value={option}>{COST_BASIS_METHOD_LABELS[option]}</option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                </Flex>
+                <Button size="sm" variant="outline" onClick={handleImport} loading={isImporting}>
+                  <FiDownload /> Import from activity
+                </Button>
+              </Flex>
+
+              <Box p={4} bg="gray.50" borderRadius="md">
+                <Stack gap={3}>
+                  <Text fontWeight="medium">Add entry</Text>
+                  <Flex gap={2} wrap="wrap">
+                    <NativeSelect.Root size="sm" width="auto">
+                      <NativeSelect.Field aria-label="Account" value={form.accountId} onChange={setField('accountId')}>
+                        <option value="">Account</option>
+                        {accounts.map(acc => (
+                          <option key={acc.id} value={acc.id}>{acc.label}</option>
+                        ))}
+                      </NativeSelect.Field>
+                      <NativeSelect.Indicator />
+                    </NativeSelect.Root>
+                    <NativeSelect.Root size="sm" width="auto">
+                      <NativeSelect.Field aria-label="Entry type" value={form.type} onChange={setField('type')}>
+                        <option value="acquire">Buy</option>
+                        <option value="dispose">Sell</option>
+                      </NativeSelect.Field>
+                      <NativeSelect.Indicator />
+                    </NativeSelect.Root>
+                    <Input size="sm" width="28" placeholder="Chain" value={form.chain} onChange={setField('chain')} />
+                    <Input size="sm" width="24" placeholder="Symbol" value={form.symbol} onChange={setField('symbol')} />
+                    <Input size="sm" width="28" placeholder="Quantity" inputMode="decimal" value={form.quantity} onChange={setField('quantity')} />
+                    <Input size="sm" width="28" placeholder="Unit price (USD)" inputMode="decimal" value={form.unitPrice} onChange={setField('unitPrice')} />
+                    <Input size="sm" width="24" placeholder="Fee (USD)" inputMode="decimal" value={form.fee} onChange={setField('fee')} />
+                    <Input size="sm" width="36" type="date" aria-label="Date" value={form.date} onChange={setField('date')} />
+                    <Button size="sm" colorPalette="blue" onClick={handleAdd}>
+                      <FiPlus /> Add
+                    </Button>
+                  </Flex>
+                  {formError && <Text fontSize="sm" color="red.500">{formError}</Text>}
+                </Stack>
+              </Box>
+
+              <Box overflowX="auto" maxH="400px" overflowY="auto">
+                <Table.Root size="sm" variant="line">
+                  <Table.Header>
+                    <Table.Row>
+                      <Table.ColumnHeader>Date</Table.ColumnHeader>
+                      <Table.ColumnHeader>Account</Table.ColumnHeader>
+                      <Table.ColumnHeader>Asset</Table.ColumnHeader>
+                      <Table.ColumnHeader>Type</Table.ColumnHeader>
+                      <Table.ColumnHeader textAlign="right">Quantity</Table.ColumnHeader>
+                      <Table.ColumnHeader textAlign="right">Unit price (USD)</Table.ColumnHeader>
+                      <Table.ColumnHeader textAlign="right">Realized P&L</Table.ColumnHeader>
+                      <Table.ColumnHeader />
+                    </Table.Row>
+                  </Table.Header>
+                  <Table.Body>
+                    {sortedEntries.length > 0 ? sortedEntries.map(entry => {
+                      const disposal = disposals.get(entry.id);
+                      return (
+                        <Table.Row key={entry.id}>
+                          <Table.Cell>{new Date(entry.timestamp).toLocaleDateString()}</Table.Cell>
+                          <Table.Cell>{accountLabels.get(entry.accountId) ?? entry.accountId}</Table.Cell>
+                          <Table.Cell>{entry.symbol} <Text as="span" color="gray.500">{entry.chain}</Text></Table.Cell>
+                          <Table.Cell>{entry.type === 'acquire' ? 'Buy' : 'Sell'}</Table.Cell>
+                          <Table.Cell textAlign="right" fontFamily="mono">{entry.quantity}</Table.Cell>
+                          <Table.Cell textAlign="right">
+                            <Input
+                              size="xs"
+                              width="24"
+                              textAlign="right"
+                              inputMode="decimal"
+                              aria-label={`Unit price for ${entry.symbol}`}
+                              placeholder="Unknown"
+                              defaultValue={entry.unitPrice ?? ''}
+                              onBlur={(e) => handlePriceChange(entry.id, e.target.value)}
+                            />
+                          </Table.Cell>
+                          <Table.Cell textAlign="right" fontFamily="mono">
+                            {disposal && entry.unitPrice !== null ? (
+                              <Text as="span" color={disposal.realizedPnL >= 0 ? 'green.600' : 'red.600'}>
+                                {format(disposal.realizedPnL, { grouping: false })}
+                              </Text>
+                            ) : '-'}
+                          </Table.Cell>
+                          <Table.Cell>
+                            <IconButton
+                              aria-label="Delete entry"
+                              size="xs"
+                              variant="ghost"
+                              onClick={() => removeCostBasisEntry(entry.id)}
+                            >
+                              <FiTrash2 />
+                            </IconButton>
+                          </Table.Cell>
+                        </Table.Row>
+                      );
+                    }) : (
+                      <Table.Row>
+                        <Table.Cell colSpan={8} textAlign="center" py={8}>
+                          <Text color="gray.500">No entries yet. Import your activity or add a buy.</Text>
+                        </Table.Cell>
+                      </Table.Row>
+                    )}
+                  </Table.Body>
+                </Table.Root>
+              </Box>
+            </Stack>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
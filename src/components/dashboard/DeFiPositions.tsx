@@ -11,6 +11,7 @@ import {
   Button,
 } from '@chakra-ui/react';
 import type { DeFiPosition, DeFiPositionType } from '../../domain/defi/DeFiPosition';
+import { useCurrency } from '../../hooks/useCurrency';
 
 const TYPE_LABELS: Record<DeFiPositionType, string> = {
   vault: 'Vault',
@@ -28,13 +29,6 @@ const TYPE_COLORS: Record<DeFiPositionType, string> = {
   farming: 'green',
 };
 
-function formatUsd(value: number): string {
-  return `$${value.toLocaleString('en-US', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  })}`;
-}
-
 type GroupBy = 'protocol' | 'chain';
 
 interface DeFiPositionsProps {
@@ -44,6 +38,7 @@ interface DeFiPositionsProps {
 
 export function DeFiPositions({ positions, isLoading }: DeFiPositionsProps) {
   const [groupBy, setGroupBy] = useState<GroupBy>('protocol');
+  const { currency, format } = useCurrency();
 
   const grouped = useMemo(() => {
     const map = new Map<string, DeFiPosition[]>();
@@ -103,7 +98,7 @@ export function DeFiPositions({ positions, isLoading }: DeFiPositionsProps) {
                   <Table.ColumnHeader>Assets</Table.ColumnHeader>
                   <Table.ColumnHeader>Chain</Table.ColumnHeader>
                   <Table.ColumnHeader textAlign="right">APY</Table.ColumnHeader>
-                  <Table.ColumnHeader textAlign="right">Value (USD)</Table.ColumnHeader>
+                  <Table.ColumnHeader textAlign="right">Value ({currency})</Table.ColumnHeader>
                   <Table.ColumnHeader>Source</Table.ColumnHeader>
                 </Table.Row>
               </Table.Header>
@@ -136,7 +131,7 @@ export function DeFiPositions({ positions, isLoading }: DeFiPositionsProps) {
                   <Table.ColumnHeader>Assets</Table.ColumnHeader>
                   <Table.ColumnHeader>Chain</Table.ColumnHeader>
                   <Table.ColumnHeader textAlign="right">APY</Table.ColumnHeader>
-                  <Table.ColumnHeader textAlign="right">Value (USD)</Table.ColumnHeader>
+                  <Table.ColumnHeader textAlign="right">Value ({currency})</Table.ColumnHeader>
                   <Table.ColumnHeader>Source</Table.ColumnHeader>
                 </Table.Row>
               </Table.Header>
@@ -180,9 +175,13 @@ export function DeFiPositions({ positions, isLoading }: DeFiPositionsProps) {
                         )}
                       </Table.Cell>
                       <Table.Cell textAlign="right">
-                        <Text fontWeight="semibold" fontFamily="mono">
-                          {formatUsd(pos.valueUsd)}
-                        </Text>
+                        {pos.valueUsd !== null ? (
+                          <Text fontWeight="semibold" fontFamily="mono">
+                            {format(pos.valueUsd)}
+                          </Text>
+                        ) : (
+                          <Text color="gray.400">-</Text>
+                        )}
                       </Table.Cell>
                       <Table.Cell>
                         <Badge colorScheme="gray" variant="subtle">
@@ -0,0 +1,221 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  Button,
+  Stack,
+  Flex,
+  Box,
+  Text,
+  NativeSelect,
+  createToaster,
+} from '@chakra-ui/react';
+import { FiDownload } from 'react-icons/fi';
+import { useStore } from '../../store/useStore';
+import { useCurrency } from '../../hooks/useCurrency';
+import {
+  EXPORT_CURRENCIES,
+  EXPORT_SECTIONS,
+  exportPortfolio,
+  getExportColumns,
+  type ExportCurrency,
+  type ExportFormat,
+  type ExportMode,
+  type ExportSection,
+} from '../../domain/export/PortfolioExport';
+import { downloadTextFile } from '../../utils/download';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx-csv', label: 'CSV for Excel' },
+  { value: 'json', label: 'JSON' },
+];
+
+const MODE_OPTIONS: { value: ExportMode; label: string }[] = [
+  { value: 'raw', label: 'Per account' },
+  { value: 'aggregated', label: 'Aggregated' },
+];
+
+const SECTION_LABELS: Record<ExportSection, string> = {
+  holdings: 'Holdings',
+  defi: 'DeFi positions',
+  accounts: 'Accounts',
+};
+
+const toaster = createToaster({
+  placement: 'top'
+});
+
+export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
+  const accounts = useStore(state => state.accounts);
+  const assets = useStore(state => state.assets);
+  const defiPositions = useStore(state => state.defiPositions);
+  const prices = useStore(state => state.prices);
+  const selectedAccountIds = useStore(state => state.selectedAccountIds);
+  const storedRates = useStore(state => state.exchangeRates);
+  const { currency: displayCurrency } = useCurrency();
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [mode, setMode] = useState<ExportMode>('raw');
+  const [currency, setCurrency] = useState<ExportCurrency>(displayCurrency);
+  const [sections, setSections] = useState<ExportSection[]>([...EXPORT_SECTIONS]);
+  // Columns the user switched off; everything else is exported
+  const [excluded, setExcluded] = useState<Record<ExportSection, string[]>>({ holdings: [], defi: [], accounts: [] });
+
+  const columnsBySection = useMemo(
+    () => Object.fromEntries(
+      EXPORT_SECTIONS.map(section => [section, getExportColumns(section, mode, currency)])
+    ) as Record<ExportSection, ReturnType<typeof getExportColumns>>,
+    [mode, currency]
+  );
+
+  const toggleSection = (section: ExportSection) => {
+    setSections(prev => prev.includes(section)
+      ? prev.filter(s => s !== section)
+      : EXPORT_SECTIONS.filter(s => s === section || prev.includes(s)));
+  };
+
+  const toggleColumn = (section: ExportSection, key: string) => {
+    setExcluded(prev => ({
+      ...prev,
+      [section]: prev[section].includes(key)
+        ? prev[section].filter(k => k !== key)
+        : [...prev[section], key],
+    }));
+  };
+
+  const handleExport = () => {
+    const exchangeRates = Object.fromEntries(
+      Object.values(storedRates).map(rate => [rate.currency, rate.rate])
+    );
+    const columns = Object.fromEntries(
+      EXPORT_SECTIONS.map(section => [
+        section,
+        columnsBySection[section].map(c => c.key).filter(key => !excluded[section].includes(key)),
+      ])
+    );
+
+    exportPortfolio(
+      { accounts, holdings: assets, defiPositions, prices, exchangeRates },
+      { format, mode, currency, sections, columns, selectedAccountIds }
+    ).match({
+      success: (files) => {
+        files.forEach(file => downloadTextFile(file.filename, file.content, file.mimeType));
+        onClose();
+      },
+      failure: (error) => {
+        toaster.create({
+          title: 'Export failed',
+          description: error.getUserMessage(),
+          type: 'error',
+          duration: 5000
+        });
+      },
+    });
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(e) => !e.open && onClose()}>
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content>
+          <Dialog.Header>
+            <Dialog.Title>Export Portfolio</Dialog.Title>
+            <Dialog.CloseTrigger />
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <Stack gap={5}>
+              <Flex gap={3} wrap="wrap">
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label="Format"
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                  >
+                    {FORMAT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label="Mode"
+                    value={mode}
+                    onChange={(e) => setMode(e.target.value as ExportMode)}
+                  >
+                    {MODE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label="Currency"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value as ExportCurrency)}
+                  >
+                    {EXPORT_CURRENCIES.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+              </Flex>
+
+              {selectedAccountIds !== null && (
+                <Text fontSize="sm" color="orange.500">
+                  Only the {selectedAccountIds.size} accounts selected in the Dashboard filter are exported.
+                </Text>
+              )}
+
+              {EXPORT_SECTIONS.map(section => (
+                <Box key={section}>
+                  <Flex as="label" align="center" gap={2} fontWeight="medium" cursor="pointer">
+                    <input
+                      type="checkbox"
+                      checked={sections.includes(section)}
+                      onChange={() => toggleSection(section)}
+                    />
+                    {SECTION_LABELS[section]}
+                  </Flex>
+                  {sections.includes(section) && (
+                    <Flex gap={3} wrap="wrap" mt={2} pl={6}>
+                      {columnsBySection[section].map(column => (
+                        <Flex key={column.key} as="label" align="center" gap={1} fontSize="sm" color="gray.700" cursor="pointer">
+                          <input
+                            type="checkbox"
+                            checked={!excluded[section].includes(column.key)}
+                            onChange={() => toggleColumn(section, column.key)}
+                          />
+                          {column.label}
+                        </Flex>
+                      ))}
+                    </Flex>
+                  )}
+                </Box>
+              ))}
+            </Stack>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button colorPalette="blue" onClick={handleExport} disabled={sections.length === 0}>
+              <FiDownload /> Export
+            </Button>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
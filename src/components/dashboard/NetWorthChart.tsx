@@ -0,0 +1,117 @@
+import { Box, Flex, Text, Button, Spinner } from '@chakra-ui/react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { usePortfolioHistory } from '../../hooks/usePortfolioHistory';
+import type { HistoryRange } from '../../hooks/usePortfolioHistory';
+import { useCurrency } from '../../hooks/useCurrency';
+
+const RANGES: HistoryRange[] = ['24h', '7d', '30d', '1y', 'all'];
+
+function formatTick(timestamp: number, range: HistoryRange): string {
+  const date = new Date(timestamp);
+  if (range === '24h') {
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  }
+  if (range === '1y' || range === 'all') {
+    return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+interface NetWorthChartProps {
+  range: HistoryRange;
+  onRangeChange: (range: HistoryRange) => void;
+}
+
+export function NetWorthChart({ range, onRangeChange }: NetWorthChartProps) {
+  const { points, change, isLoading, error } = usePortfolioHistory(range);
+  const { format } = useCurrency();
+
+  return (
+    <Box>
+      <Flex justify="space-between" align="center" mb={3} wrap="wrap" gap={2}>
+        <Flex align="baseline" gap={2}>
+          <Text fontWeight="semibold" fontSize="sm" color="gray.700">
+            Net Worth
+          </Text>
+          {change && (
+            <Text
+              fontSize="xs"
+              fontFamily="mono"
+              color={change.absolute >= 0 ? 'green.600' : 'red.600'}
+              data-testid="net-worth-change"
+            >
+              {format(change.absolute, { signed: true })}
+              {change.percentage !== null && ` (${change.percentage >= 0 ? '+' : ''}${change.percentage.toFixed(2)}%)`}
+            </Text>
+          )}
+          {isLoading && <Spinner size="xs" color="blue.500" />}
+        </Flex>
+        <Flex gap={1}>
+          {RANGES.map(r => (
+            <Button
+              key={r}
+              size="xs"
+              variant={r === range ? 'solid' : 'outline'}
+              colorPalette="blue"
+              onClick={() => onRangeChange(r)}
+              aria-label={`Show ${r} range`}
+            >
+              {r.toUpperCase()}
+            </Button>
+          ))}
+        </Flex>
+      </Flex>
+
+      {error && points.length >= 2 && (
+        <Text fontSize="xs" color="red.500" mb={2}>
+          {error}
+        </Text>
+      )}
+
+      {points.length < 2 ? (
+        <Flex h="240px" align="center" justify="center" bg="gray.50" borderRadius="md">
+          <Text fontSize="sm" color={error ? 'red.500' : 'gray.500'}>
+            {error ?? 'Not enough history yet — snapshots are recorded after each sync'}
+          </Text>
+        </Flex>
+      ) : (
+        <Box h="240px">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#EDF2F7" />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                scale="time"
+                tickFormatter={(ts: number) => formatTick(ts, range)}
+                fontSize={11}
+              />
+              <YAxis tickFormatter={(value: number) => format(value, { compact: true })} fontSize={11} width={60} />
+              <Tooltip
+                labelFormatter={(ts) => new Date(Number(ts)).toLocaleString()}
+                formatter={(value) => [format(Number(value)), 'Net worth']}
+              />
+              <Line
+                type="monotone"
+                dataKey="totalValue"
+                stroke="#3182CE"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </Box>
+      )}
+    </Box>
+  );
+}
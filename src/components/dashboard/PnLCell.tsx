@@ -0,0 +1,70 @@
+/**
+ * PnLCell Component
+ *
+ * Cost basis, unrealized and realized P&L cells for an asset row. Figures
+ * built on lots without a price are marked so they are not read as final.
+ */
+
+import React from 'react';
+import { Table, Text, Stack } from '@chakra-ui/react';
+import type { HoldingPnL } from '../../hooks/useCostBasis';
+import { useCurrency } from '../../hooks/useCurrency';
+
+export interface PnLCellProps {
+  pnl: HoldingPnL | null;
+}
+
+function pnlColor(value: number): string {
+  if (value > 0) return 'green.600';
+  if (value < 0) return 'red.600';
+  return 'gray.600';
+}
+
+export const PnLCell: React.FC<PnLCellProps> = ({ pnl }) => {
+  const { format } = useCurrency();
+
+  if (!pnl) {
+    return (
+      <>
+        <Table.Cell textAlign="right"><Text color="gray.400">-</Text></Table.Cell>
+        <Table.Cell textAlign="right"><Text color="gray.400">-</Text></Table.Cell>
+        <Table.Cell textAlign="right"><Text color="gray.400">-</Text></Table.Cell>
+      </>
+    );
+  }
+
+  const { position, unrealized } = pnl;
+  const marker = position.incomplete ? '*' : '';
+  const hint = position.incomplete ? 'Some entries have no price yet' : undefined;
+
+  return (
+    <>
+      <Table.Cell textAlign="right">
+        <Text fontFamily="mono" title={hint}>
+          {format(unrealized?.costBasis ?? position.costBasis, { grouping: false })}{marker}
+        </Text>
+      </Table.Cell>
+      <Table.Cell textAlign="right">
+        {unrealized ? (
+          <Stack gap={0} align="flex-end" title={hint}>
+            <Text fontFamily="mono" color={pnlColor(unrealized.unrealizedPnL)}>
+              {format(unrealized.unrealizedPnL, { signed: true, grouping: false })}{marker}
+            </Text>
+            {unrealized.unrealizedPnLPercent !== null && (
+              <Text fontSize="xs" color={pnlColor(unrealized.unrealizedPnL)}>
+                {unrealized.unrealizedPnLPercent >= 0 ? '+' : ''}{unrealized.unrealizedPnLPercent.toFixed(1)}%
+              </Text>
+            )}
+          </Stack>
+        ) : (
+          <Text color="gray.400">-</Text>
+        )}
+      </Table.Cell>
+      <Table.Cell textAlign="right">
+        <Text fontFamily="mono" color={pnlColor(position.realizedPnL)} title={hint}>
+          {position.disposals.length > 0 ? `${format(position.realizedPnL, { signed: true, grouping: false })}${marker}` : '-'}
+        </Text>
+      </Table.Cell>
+    </>
+  );
+};
@@ -0,0 +1,64 @@
+import { useState, useMemo } from 'react';
+import { Box, Stack, Heading, Grid } from '@chakra-ui/react';
+import { NetWorthChart } from './NetWorthChart';
+import { AllocationDonut } from './AllocationDonut';
+import { computeAllocation } from '../../domain/portfolio/Allocation';
+import { getAssetCategory, ASSET_CATEGORY_LABELS } from '../../domain/portfolio/AssetCategory';
+import type { AssetCategory } from '../../domain/portfolio/AssetCategory';
+import type { HistoryRange } from '../../hooks/usePortfolioHistory';
+import type { Account, Asset } from '../../store/useStore';
+
+const MAX_SLICES = 8;
+
+interface PortfolioChartsProps {
+  /** Assets already narrowed by the account filter and the hidden-token filter */
+  assets: Asset[];
+  accounts: Account[];
+}
+
+export function PortfolioCharts({ assets, accounts }: PortfolioChartsProps) {
+  const [range, setRange] = useState<HistoryRange>('7d');
+
+  const accountLabels = useMemo(
+    () => new Map(accounts.map(acc => [acc.id, acc.label])),
+    [accounts]
+  );
+
+  const byChain = useMemo(
+    () => computeAllocation(assets, a => a.chain, { maxSlices: MAX_SLICES }),
+    [assets]
+  );
+
+  const byAccount = useMemo(
+    () => computeAllocation(assets, a => a.accountId, {
+      maxSlices: MAX_SLICES,
+      getLabel: id => accountLabels.get(id) ?? id,
+    }),
+    [assets, accountLabels]
+  );
+
+  const byCategory = useMemo(
+    () => computeAllocation(assets, a => getAssetCategory(a.symbol), {
+      getLabel: key => ASSET_CATEGORY_LABELS[key as AssetCategory],
+    }),
+    [assets]
+  );
+
+  return (
+    <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+      <Stack gap={6}>
+        <Heading as="h2" size="lg" color="gray.800">
+          Portfolio Charts
+        </Heading>
+
+        <NetWorthChart range={range} onRangeChange={setRange} />
+
+        <Grid templateColumns={{ base: '1fr', md: 'repeat(3, 1fr)' }} gap={4}>
+          <AllocationDonut title="By Chain" slices={byChain} />
+          <AllocationDonut title="By Account" slices={byAccount} />
+          <AllocationDonut title="By Category" slices={byCategory} />
+        </Grid>
+      </Stack>
+    </Box>
+  );
+}
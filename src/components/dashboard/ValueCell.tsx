@@ -1,12 +1,13 @@
 /**
  * ValueCell Component
  * 
- * Displays USD value with progressive loading states.
- * Shows spinner while calculating value from balance and price data.
+ * Displays an asset's value in the base currency with progressive loading
+ * states. Shows spinner while calculating value from balance and price data.
  */
 
 import React from 'react';
 import { Box, Text, Spinner, Flex, Badge } from '@chakra-ui/react';
+import { useCurrency } from '../../hooks/useCurrency';
 
 export interface ValueCellProps {
   balance?: string | number;
@@ -18,6 +19,7 @@ export interface ValueCellProps {
   hasPriceError?: boolean;
   compact?: boolean;
   showCurrency?: boolean;
+  /** Fraction digits; defaults to the base currency's */
   precision?: number;
 }
 
@@ -29,8 +31,10 @@ export const ValueCell: React.FC<ValueCellProps> = ({
   hasPriceError = false,
   compact = false,
   showCurrency = true,
-  precision = 2
+  precision
 }) => {
+  const { currency, convert, format } = useCurrency();
+
   // Use the pre-calculated valueUsd; never compute from raw balance strings
   // as they may be in wei/smallest-unit form and would produce wildly incorrect values
   const calculatedValue = valueUsd ?? null;
@@ -78,14 +82,15 @@ export const ValueCell: React.FC<ValueCellProps> = ({
         textAlign="right"
         fontFamily="mono"
       >
-        {showCurrency ? '$-' : '-'}
+        -
       </Text>
     );
   }
 
   // Format value
-  const formattedValue = calculatedValue.toFixed(precision);
-  const displayValue = showCurrency ? `$${formattedValue}` : formattedValue;
+  const displayValue = showCurrency
+    ? format(calculatedValue, { decimals: precision, grouping: false })
+    : convert(calculatedValue).toFixed(precision ?? 2);
 
   // Determine color based on value
   const valueColor = calculatedValue > 0 ? 'green.600' : 
@@ -103,7 +108,7 @@ export const ValueCell: React.FC<ValueCellProps> = ({
       </Text>
       {!compact && calculatedValue > 0 && (
         <Text fontSize="xs" color="gray.500">
-          USD
+          {currency}
         </Text>
       )}
     </Box>
@@ -124,8 +129,10 @@ export const SimpleValueCell: React.FC<{
   isLoading = false, 
   compact = false, 
   showCurrency = true,
-  precision = 2 
+  precision
 }) => {
+  const { convert, format } = useCurrency();
+
   if (isLoading) {
     return (
       <Flex align="center" gap={1} justify="flex-end">
@@ -142,13 +149,14 @@ export const SimpleValueCell: React.FC<{
         textAlign="right"
         fontFamily="mono"
       >
-        {showCurrency ? '$-' : '-'}
+        -
       </Text>
     );
   }
 
-  const formattedValue = value.toFixed(precision);
-  const displayValue = showCurrency ? `$${formattedValue}` : formattedValue;
+  const displayValue = showCurrency
+    ? format(value, { decimals: precision, grouping: false })
+    : convert(value).toFixed(precision ?? 2);
   const valueColor = value > 0 ? 'green.600' : 
                     value < 0 ? 'red.600' : 'gray.600';
 
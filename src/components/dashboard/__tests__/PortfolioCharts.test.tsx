@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChakraProvider, defaultSystem } from '@chakra-ui/react';
+import { PortfolioCharts } from '../PortfolioCharts';
+import { useStore } from '../../../store/useStore';
+import { Result } from '../../../domain/shared/Result';
+import { ConfigurationError } from '../../../domain/shared/DomainError';
+import type { Account, Asset } from '../../../store/useStore';
+
+const mockQuery = vi.fn();
+
+vi.mock('../../../infrastructure/history/PortfolioSnapshotStore', () => ({
+  getPortfolioHistoryService: () => ({ query: mockQuery }),
+}));
+
+function renderWithChakra(ui: React.ReactElement) {
+  return render(
+    <ChakraProvider value={defaultSystem}>{ui}</ChakraProvider>
+  );
+}
+
+const makeAsset = (overrides: Partial<Asset> & { id: string }): Asset => ({
+  symbol: 'ETH',
+  name: 'Ethereum',
+  balance: '1',
+  source: 'Test',
+  chain: 'Ethereum',
+  accountId: 'acc-1',
+  priceUsd: 1,
+  valueUsd: 100,
+  ...overrides,
+});
+
+const accounts: Account[] = [
+  { id: 'acc-1', type: 'wallet', platform: 'Ethereum', label: 'Main Wallet', status: 'connected' },
+  { id: 'acc-2', type: 'wallet', platform: 'Solana', label: 'Phantom', status: 'connected' },
+];
+
+const assets: Asset[] = [
+  makeAsset({ id: 'a1', symbol: 'ETH', chain: 'Ethereum', accountId: 'acc-1', valueUsd: 300 }),
+  makeAsset({ id: 'a2', symbol: 'USDC', chain: 'Ethereum', accountId: 'acc-1', valueUsd: 100 }),
+  makeAsset({ id: 'a3', symbol: 'SOL', chain: 'Solana', accountId: 'acc-2', valueUsd: 100 }),
+];
+
+describe('PortfolioCharts', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockResolvedValue(Result.success([]));
+    useStore.setState({ selectedAccountIds: null });
+  });
+
+  it('renders allocation legends by chain, account and category', () => {
+    renderWithChakra(<PortfolioCharts assets={assets} accounts={accounts} />);
+
+    const byChain = screen.getByTestId('allocation-By Chain');
+    expect(byChain).toHaveTextContent('Ethereum');
+    expect(byChain).toHaveTextContent('80.0%');
+
+    const byAccount = screen.getByTestId('allocation-By Account');
+    expect(byAccount).toHaveTextContent('Main Wallet');
+    expect(byAccount).toHaveTextContent('Phantom');
+
+    const byCategory = screen.getByTestId('allocation-By Category');
+    expect(byCategory).toHaveTextContent('Native');
+    expect(byCategory).toHaveTextContent('Stablecoins');
+  });
+
+  it('toggles a slice off and re-weights the remaining ones', () => {
+    renderWithChakra(<PortfolioCharts assets={assets} accounts={accounts} />);
+
+    const byChain = screen.getByTestId('allocation-By Chain');
+    const solanaEntry = byChain.querySelector('[data-testid="legend-Solana"]') as HTMLElement;
+    fireEvent.click(solanaEntry);
+
+    expect(solanaEntry).toHaveAttribute('aria-pressed', 'false');
+    expect(byChain.querySelector('[data-testid="legend-Ethereum"]')).toHaveTextContent('100.0%');
+  });
+
+  it('shows an empty state when no assets are priced', () => {
+    renderWithChakra(<PortfolioCharts assets={[]} accounts={accounts} />);
+    expect(screen.getAllByText('No priced assets')).toHaveLength(3);
+  });
+
+  it('requeries history when the range changes', () => {
+    renderWithChakra(<PortfolioCharts assets={assets} accounts={accounts} />);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByLabelText('Show 30d range'));
+
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls[1][0]).toMatchObject({ granularity: 'day' });
+  });
+
+  it('shows the change across the range for the selected accounts only', async () => {
+    mockQuery.mockResolvedValue(Result.success([
+      { id: 's1', timestamp: 1000, currency: 'USD', totalValue: 500, assetCount: 3,
+        byAccount: { 'acc-1': 400, 'acc-2': 100 }, byChain: {}, byAsset: {} },
+      { id: 's2', timestamp: 2000, currency: 'USD', totalValue: 700, assetCount: 3,
+        byAccount: { 'acc-1': 450, 'acc-2': 250 }, byChain: {}, byAsset: {} },
+    ]));
+    useStore.setState({ selectedAccountIds: new Set(['acc-2']) });
+
+    renderWithChakra(<PortfolioCharts assets={assets} accounts={accounts} />);
+
+    expect(await screen.findByTestId('net-worth-change')).toHaveTextContent('+$150.00 (+150.00%)');
+  });
+
+  it('shows why the history could not be loaded', async () => {
+    mockQuery.mockResolvedValue(Result.failure(new ConfigurationError('indexedDB', 'IndexedDB is unavailable')));
+
+    renderWithChakra(<PortfolioCharts assets={assets} accounts={accounts} />);
+
+    expect(await screen.findByText('Configuration error with indexedDB: IndexedDB is unavailable')).toBeInTheDocument();
+    expect(screen.queryByText(/Not enough history yet/)).not.toBeInTheDocument();
+  });
+});
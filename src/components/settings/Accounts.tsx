@@ -12,25 +12,15 @@ import {
 } from '@chakra-ui/react';
 import { Link, useNavigate } from 'react-router-dom';
 import { FiArrowLeft, FiPlus, FiEdit2, FiTrash2, FiKey, FiExternalLink } from 'react-icons/fi';
-import { SiEthereum, SiSolana, SiBinance } from 'react-icons/si';
 import { useStore } from '../../store/useStore';
 import type { Account } from '../../store/useStore';
 import { useState, useMemo } from 'react';
 import AddAccountModal from './AddAccountModal';
 import TokenManager from './TokenManager';
 import MultiWalletConnect from './MultiWalletConnect';
+import { platformIcon } from './platformIcons';
 import WalletDiagnostics from './WalletDiagnostics';
 
-// Platform icon mapping
-const platformIcons: Record<string, React.ElementType> = {
-  'Ethereum': SiEthereum,
-  'Polygon': SiEthereum, // Using ETH icon for now
-  'Arbitrum': SiEthereum,
-  'Optimism': SiEthereum,
-  'Solana': SiSolana,
-  'Binance': SiBinance,
-};
-
 interface ConnectionGroup {
   connectionType: string;
   accounts: Account[];
@@ -234,7 +224,7 @@ export default function Accounts() {
             </Heading>
             <Stack gap={4}>
               {connectionGroups.map((group) => {
-                const Icon = platformIcons['Multi-Chain EVM'] || SiEthereum;
+                const Icon = platformIcon('Multi-Chain EVM');
                 
                 return (
                   <Box
@@ -369,7 +359,7 @@ export default function Accounts() {
             </Heading>
             <Grid templateColumns={{ base: '1fr', lg: 'repeat(2, 1fr)' }} gap={4}>
               {otherAccounts.map((account) => {
-                const Icon = platformIcons[account.platform] || SiEthereum;
+                const Icon = platformIcon(account.platform);
                 
                 return (
                   <Box
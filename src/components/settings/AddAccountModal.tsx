@@ -8,21 +8,58 @@ import {
   createToaster,
 } from '@chakra-ui/react';
 import { useState } from 'react';
-import { Formik, Form, Field, type FieldProps } from 'formik';
+import { Formik, Form, Field, type FieldProps, type FormikHelpers } from 'formik';
 import * as yup from 'yup';
 import { useStore } from '../../store/useStore';
+import { nameServiceForName, nameServiceForPlatform } from '../../domain/names/NameService';
+import { getNameResolutionService } from '../../infrastructure/names/NameResolutionService';
+import { parseBitcoinWatchInput } from '../../infrastructure/bitcoin/bitcoinAddress';
+import { CHAIN_REGISTRY } from '../../domain/chain/ChainRegistry';
 
 interface AddAccountModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const ADDRESS_PATTERNS: Record<string, RegExp> = {
+  Solana: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+  SUI: /^0x[a-fA-F0-9]{64}$/,
+};
+const EVM_ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+const ADDRESS_PLACEHOLDERS: Record<string, string> = {
+  Solana: 'Solana address',
+  Bitcoin: 'bc1... or xpub...',
+};
+
+const NAME_EXAMPLES = {
+  ens: 'vitalik.eth',
+  sns: 'toly.sol',
+  suins: 'name.sui',
+};
+
+type AccountFormValues = { label: string; address: string; platform: string };
+
 const validationSchema = yup.object({
   label: yup.string().required('Account name is required'),
   address: yup
     .string()
     .required('Wallet address is required')
-    .matches(/^0x[a-fA-F0-9]{40}$/, 'Please enter a valid Ethereum address'),
+    .test('address', function (value) {
+      const { platform } = this.parent as AccountFormValues;
+      if (!value) return true;
+      // Bitcoin accounts are watched by address or extended public key; there is no name service
+      if (platform === 'Bitcoin') {
+        const target = parseBitcoinWatchInput(value);
+        return target.isSuccess || this.createError({ message: target.error.message });
+      }
+      if ((ADDRESS_PATTERNS[platform] ?? EVM_ADDRESS_PATTERN).test(value.trim())) return true;
+      // Names are resolved on submit
+      if (nameServiceForName(value) === nameServiceForPlatform(platform)) return true;
+      return this.createError({
+        message: `Please enter a valid ${platform} address or a name like ${NAME_EXAMPLES[nameServiceForPlatform(platform)]}`,
+      });
+    }),
   platform: yup.string().required('Platform is required'),
 });
 
@@ -34,13 +71,26 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
   const { addAccount, accounts } = useStore();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSubmit = async (values: { label: string; address: string; platform: string }) => {
+  const handleSubmit = async (values: AccountFormValues, helpers: FormikHelpers<AccountFormValues>) => {
     setIsSubmitting(true);
     
     try {
+      let address = values.address.trim();
+      if (values.platform === 'Bitcoin') {
+        const target = parseBitcoinWatchInput(address).value;
+        address = target.kind === 'address' ? target.address : target.key;
+      } else if (nameServiceForName(address)) {
+        const resolved = await getNameResolutionService().resolveName(address);
+        if (resolved.isFailure) {
+          helpers.setFieldError('address', resolved.error.message);
+          return;
+        }
+        address = resolved.value.address;
+      }
+
       // Check if address already exists
       const addressExists = accounts.some(
-        acc => acc.address?.toLowerCase() === values.address.toLowerCase()
+        acc => acc.address?.toLowerCase() === address.toLowerCase()
       );
       
       if (addressExists) {
@@ -58,7 +108,7 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
         type: 'wallet' as const,
         platform: values.platform,
         label: values.label,
-        address: values.address,
+        address,
         status: 'connected' as const, // Auto-connect on add
         lastSync: new Date().toISOString(),
       };
@@ -105,7 +155,7 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
               validationSchema={validationSchema}
               onSubmit={handleSubmit}
             >
-              {({ errors, touched, isValid }) => (
+              {({ errors, touched, isValid, values }) => (
                 <Form>
                   <Stack gap={4}>
                     <Field name="label">
@@ -147,10 +197,11 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
                               boxShadow: "0 0 0 1px var(--chakra-colors-blue-500)"
                             }}
                           >
-                            <option value="Ethereum">Ethereum</option>
-                            <option value="Polygon">Polygon</option>
-                            <option value="Arbitrum">Arbitrum</option>
-                            <option value="Optimism">Optimism</option>
+                            {CHAIN_REGISTRY.map(chain => (
+                              <option key={chain.key} value={chain.name}>
+                                {chain.key === 'bitcoin' ? 'Bitcoin (watch-only)' : chain.displayName}
+                              </option>
+                            ))}
                           </Box>
                         </Stack>
                       )}
@@ -162,14 +213,22 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
                           <Text fontWeight="medium">Wallet Address</Text>
                           <Input
                             {...field}
-                            placeholder="0x..."
+                            placeholder={ADDRESS_PLACEHOLDERS[values.platform] ?? '0x...'}
                             fontFamily="mono"
                             disabled={isSubmitting}
                           />
-                          {errors.address && touched.address && (
+                          {errors.address && touched.address ? (
                             <Text color="red.500" fontSize="sm">
                               {errors.address}
                             </Text>
+                          ) : values.platform === 'Bitcoin' ? (
+                            <Text color="gray.500" fontSize="xs">
+                              Or an xpub, ypub or zpub to follow every address of a wallet
+                            </Text>
+                          ) : (
+                            <Text color="gray.500" fontSize="xs">
+                              Or a name such as {NAME_EXAMPLES[nameServiceForPlatform(values.platform)]}
+                            </Text>
                           )}
                         </Stack>
                       )}
@@ -7,6 +7,10 @@ import { useStore } from '../../store/useStore';
 import type { Account } from '../../store/useStore';
 
 // Mock the child components
+vi.mock('../../hooks/useSyncScheduler', () => ({
+  useSyncRefresh: () => ({ refreshAccounts: vi.fn(), refreshChain: vi.fn() }),
+}));
+
 vi.mock('./MultiWalletConnect', () => ({
   default: () => <button>Connect Wallet</button>,
 }));
@@ -12,25 +12,20 @@ import {
   Stat,
 } from '@chakra-ui/react';
 import { Link, useNavigate } from 'react-router-dom';
-import { FiArrowLeft, FiPlus, FiEdit2, FiTrash2, FiKey } from 'react-icons/fi';
-import { SiEthereum, SiSolana, SiBinance } from 'react-icons/si';
+import { FiArrowLeft, FiPlus, FiEdit2, FiTrash2, FiKey, FiRefreshCw } from 'react-icons/fi';
 import { useStore } from '../../store/useStore';
 import type { Account } from '../../store/useStore';
 import { useState, useMemo } from 'react';
 import AddAccountModal from './AddAccountModal';
+import AddExchangeModal from './AddExchangeModal';
 import TokenManager from './TokenManager';
+import ExplorerLink from '../ExplorerLink';
+import { accountExplorerChain } from '../../domain/chain/ExplorerLinks';
 import MultiWalletConnect from './MultiWalletConnect';
+import { platformIcon } from './platformIcons';
 import WalletDiagnostics from './WalletDiagnostics';
-
-// Platform icon mapping
-const platformIcons: Record<string, React.ElementType> = {
-  'Ethereum': SiEthereum,
-  'Polygon': SiEthereum, // Using ETH icon for now
-  'Arbitrum': SiEthereum,
-  'Optimism': SiEthereum,
-  'Solana': SiSolana,
-  'Binance': SiBinance,
-};
+import { useSyncRefresh } from '../../hooks/useSyncScheduler';
+import { useAccountNames } from '../../hooks/useAccountNames';
 
 interface ConnectionGroup {
   connectionType: string;
@@ -43,7 +38,10 @@ interface ConnectionGroup {
 export default function Connections() {
   const { accounts, updateAccount, removeAccount } = useStore();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isExchangeModalOpen, setIsExchangeModalOpen] = useState(false);
   const navigate = useNavigate();
+  const { refreshAccounts, refreshChain } = useSyncRefresh();
+  const getAccountName = useAccountNames();
   
   // Group accounts by connection type
   const connectionGroups = useMemo(() => {
@@ -263,6 +261,14 @@ export default function Connections() {
               <FiPlus />
               Add Manually
             </Button>
+            <Button
+              variant="outline"
+              colorPalette="gray"
+              onClick={() => setIsExchangeModalOpen(true)}
+            >
+              <FiKey />
+              Add Exchange
+            </Button>
             <WalletDiagnostics />
           </Stack>
         </Box>
@@ -275,7 +281,7 @@ export default function Connections() {
             </Heading>
             <Grid templateColumns={{ base: '1fr', md: 'repeat(2, 1fr)', lg: 'repeat(3, 1fr)' }} gap={4}>
               {connectionGroups.map((group) => {
-                const Icon = platformIcons['Multi-Chain EVM'] || SiEthereum;
+                const Icon = platformIcon('Multi-Chain EVM');
                 
                 return (
                   <Box
@@ -343,9 +349,26 @@ export default function Connections() {
 
                       {/* Chains Info */}
                       {group.accounts[0]?.metadata?.detectedChains && (
-                        <Text fontSize="xs" color="gray.600">
-                          Chains: {group.accounts[0].metadata.detectedChains.join(', ')}
-                        </Text>
+                        <Stack gap={1}>
+                          <Text fontSize="xs" color="gray.600">
+                            Chains: {group.accounts[0].metadata.detectedChains.join(', ')}
+                          </Text>
+                          {group.accounts.some(a => a.status === 'connected') && (
+                            <Flex gap={1} wrap="wrap">
+                              {group.accounts[0].metadata.detectedChains.map(chain => (
+                                <Button
+                                  key={chain}
+                                  aria-label={`Refresh ${chain}`}
+                                  size="xs"
+                                  variant="ghost"
+                                  onClick={() => refreshChain(chain)}
+                                >
+                                  <FiRefreshCw /> {chain}
+                                </Button>
+                              ))}
+                            </Flex>
+                          )}
+                        </Stack>
                       )}
 
                       {/* Quick Actions */}
@@ -373,6 +396,18 @@ export default function Connections() {
                             Connect All
                           </Button>
                         )}
+                        {group.accounts.some(a => a.status === 'connected') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            w="full"
+                            onClick={() => refreshAccounts(
+                              group.accounts.filter(a => a.status === 'connected').map(a => a.id)
+                            )}
+                          >
+                            <FiRefreshCw /> Refresh
+                          </Button>
+                        )}
                         {group.accounts.some(a => a.status === 'connected') && (
                           <Button
                             size="sm"
@@ -405,7 +440,7 @@ export default function Connections() {
             </Heading>
             <Grid templateColumns={{ base: '1fr', lg: 'repeat(2, 1fr)' }} gap={4}>
               {otherAccounts.map((account) => {
-                const Icon = platformIcons[account.platform] || SiEthereum;
+                const Icon = platformIcon(account.platform);
                 
                 return (
                   <Box
@@ -454,6 +489,16 @@ export default function Connections() {
                         
                         {/* Actions */}
                         <Stack direction="row" gap={1}>
+                          {account.status === 'connected' && (
+                            <IconButton
+                              aria-label="Refresh account"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => refreshAccounts([account.id])}
+                            >
+                              <FiRefreshCw />
+                            </IconButton>
+                          )}
                           <IconButton
                             aria-label="Edit connection"
                             variant="ghost"
@@ -480,8 +525,17 @@ export default function Connections() {
                             <Text fontSize="sm" color="gray.600">
                               Address:
                             </Text>
+                            {getAccountName(account.address) && (
+                              <Text fontSize="sm" fontWeight="medium">
+                                {getAccountName(account.address)}
+                              </Text>
+                            )}
                             <Text fontSize="sm" fontFamily="mono">
-                              {account.address}
+                              <ExplorerLink
+                                chain={accountExplorerChain(account.platform, account.metadata?.detectedChains)}
+                                kind="address"
+                                value={account.address}
+                              />
                             </Text>
                           </Flex>
                         )}
@@ -490,7 +544,7 @@ export default function Connections() {
                           <Flex align="center" gap={2}>
                             <FiKey size={14} color="gray" />
                             <Text fontSize="sm" color="gray.600">
-                              API Key configured
+                              {account.apiKey ? 'API Key configured' : 'API Key locked in vault'}
                             </Text>
                           </Flex>
                         )}
@@ -564,6 +618,10 @@ export default function Connections() {
         isOpen={isModalOpen} 
         onClose={() => setIsModalOpen(false)} 
       />
+      <AddExchangeModal
+        isOpen={isExchangeModalOpen}
+        onClose={() => setIsExchangeModalOpen(false)}
+      />
     </Container>
   );
 }
\ No newline at end of file
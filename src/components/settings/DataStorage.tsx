@@ -0,0 +1,294 @@
+import { useMemo, useState } from 'react';
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Input,
+  NativeSelect,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowLeft, FiDownload, FiUpload } from 'react-icons/fi';
+import { useStore, type Account } from '../../store/useStore';
+import { useVault } from '../../hooks/useVault';
+import { BackupService, backupFilename } from '../../infrastructure/backup/BackupService';
+import { MIN_PASSPHRASE_LENGTH } from '../../infrastructure/vault/SecretVault';
+import { detectEnvironment } from '../../config/environment';
+import type { BackupImportMode, BackupPayload } from '../../domain/backup/Backup';
+import { downloadTextFile } from '../../utils/download';
+
+function BackupSection({ service }: { service: BackupService }) {
+  const { status: vaultStatus } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (passphrase !== confirm) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await service.createBackup(passphrase);
+    setIsSubmitting(false);
+    result.match({
+      success: (content) => {
+        downloadTextFile(backupFilename(), content, 'application/json');
+        setError(null);
+        setPassphrase('');
+        setConfirm('');
+      },
+      failure: (failure) => setError(failure.message),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Stack gap={3} maxW="sm">
+        <Text color="gray.600" fontSize="sm">
+          {vaultStatus === 'unlocked'
+            ? 'Exchange API keys are included.'
+            : 'Exchange API keys are only included while the vault is unlocked.'}
+        </Text>
+        <Input
+          type="password"
+          aria-label="Backup passphrase"
+          placeholder={`Backup passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          disabled={isSubmitting}
+        />
+        <Input
+          type="password"
+          aria-label="Confirm backup passphrase"
+          placeholder="Confirm passphrase"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          disabled={isSubmitting}
+        />
+        {error && (
+          <Text color="red.500" fontSize="sm" role="alert">
+            {error}
+          </Text>
+        )}
+        <Button
+          type="submit"
+          colorPalette="blue"
+          alignSelf="flex-start"
+          loading={isSubmitting}
+          disabled={!passphrase}
+        >
+          <FiDownload /> Download Backup
+        </Button>
+      </Stack>
+    </form>
+  );
+}
+
+function RestoreSection({ service }: { service: BackupService }) {
+  const { status: vaultStatus } = useVault();
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [backup, setBackup] = useState<BackupPayload<Account> | null>(null);
+  const [mode, setMode] = useState<BackupImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const plan = useMemo(
+    () => backup ? service.previewImport(backup, mode) : null,
+    [backup, mode, service]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    setBackup(null);
+    setError(null);
+    setMessage(null);
+    setFileText(file ? await file.text() : null);
+  };
+
+  const handleRead = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!fileText) return;
+
+    setIsReading(true);
+    const result = await service.readBackup(fileText, passphrase);
+    setIsReading(false);
+    result.match({
+      success: (payload) => {
+        setBackup(payload);
+        setError(null);
+      },
+      failure: (failure) => setError(failure.message),
+    });
+  };
+
+  const handleImport = () => {
+    if (!plan) return;
+    if (mode === 'replace' && !window.confirm('Replace all accounts and RPC settings with the backup?')) {
+      return;
+    }
+    service.applyImport(plan);
+    setBackup(null);
+    setFileText(null);
+    setPassphrase('');
+    setMessage('Backup restored');
+  };
+
+  return (
+    <Stack gap={4}>
+      <form onSubmit={handleRead}>
+        <Stack gap={3} maxW="sm">
+          <Input
+            type="file"
+            accept="application/json,.json"
+            aria-label="Backup file"
+            p={1}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Input
+            type="password"
+            aria-label="Restore passphrase"
+            placeholder="Backup passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={isReading}
+          />
+          {error && (
+            <Text color="red.500" fontSize="sm" role="alert">
+              {error}
+            </Text>
+          )}
+          {message && (
+            <Text color="green.600" fontSize="sm">
+              {message}
+            </Text>
+          )}
+          <Button
+            type="submit"
+            variant="outline"
+            alignSelf="flex-start"
+            loading={isReading}
+            disabled={!fileText || !passphrase}
+          >
+            <FiUpload /> Read Backup
+          </Button>
+        </Stack>
+      </form>
+
+      {backup && plan && (
+        <Box p={4} bg="gray.50" borderRadius="md" data-testid="backup-preview">
+          <Stack gap={3}>
+            <Text fontWeight="medium">
+              Backup from {new Date(backup.createdAt).toLocaleString()} ({backup.accounts.length} accounts)
+            </Text>
+            {backup.environment !== detectEnvironment() && (
+              <Text fontSize="sm" color="orange.600">
+                This backup was made in the {backup.environment} environment.
+              </Text>
+            )}
+
+            <NativeSelect.Root size="sm" width="auto">
+              <NativeSelect.Field
+                aria-label="Import mode"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as BackupImportMode)}
+              >
+                <option value="merge">Merge with current configuration</option>
+                <option value="replace">Replace current configuration</option>
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+
+            <Box as="ul" pl={5} fontSize="sm" color="gray.700">
+              <li>{plan.summary.accountsAdded} accounts added</li>
+              <li>{plan.summary.accountsMerged} already present{mode === 'merge' ? ', token lists merged' : ''}</li>
+              {mode === 'replace' && <li>{plan.summary.accountsRemoved} accounts removed</li>}
+              <li>{plan.summary.tokensImported} tracked tokens</li>
+              <li>{plan.summary.endpointsImported} custom RPC endpoints</li>
+            </Box>
+
+            {plan.summary.secretsIncluded > 0 && vaultStatus !== 'unlocked' && (
+              <Text fontSize="sm" color="orange.600">
+                The backup contains API keys for {plan.summary.secretsIncluded} exchange accounts. Unlock the vault
+                under <Link to="/settings/security">Settings › Security</Link> first, or they will be discarded.
+              </Text>
+            )}
+
+            <Button colorPalette="blue" alignSelf="flex-start" onClick={handleImport}>
+              Import
+            </Button>
+          </Stack>
+        </Box>
+      )}
+    </Stack>
+  );
+}
+
+export default function DataStorage() {
+  const service = useMemo(() => new BackupService({ store: useStore }), []);
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Data & Storage
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            Back up your configuration or move it to another browser
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Backup
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Accounts, tracked tokens, filter settings and custom RPC endpoints, encrypted with a
+                passphrase of your choice.
+              </Text>
+            </Box>
+            <BackupSection service={service} />
+          </Stack>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Restore
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Preview a backup, then merge it into the current configuration or replace it.
+              </Text>
+            </Box>
+            <RestoreSection service={service} />
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
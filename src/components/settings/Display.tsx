@@ -0,0 +1,85 @@
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Flex,
+  IconButton,
+  NativeSelect,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowLeft } from 'react-icons/fi';
+import { useStore } from '../../store/useStore';
+import { useCurrency } from '../../hooks/useCurrency';
+import { BASE_CURRENCIES, CURRENCY_INFO, formatCurrency, type BaseCurrency } from '../../domain/asset/Currency';
+
+export default function Display() {
+  const setBaseCurrency = useStore(state => state.setBaseCurrency);
+  const { baseCurrency, rate, isRatePending, rateUpdatedAt } = useCurrency();
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Display
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            Choose how portfolio values are shown
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Base currency
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Totals, prices, P&L, charts and exports are converted from USD at the latest exchange rate.
+              </Text>
+            </Box>
+
+            <NativeSelect.Root size="sm" width="xs">
+              <NativeSelect.Field
+                aria-label="Base currency"
+                value={baseCurrency}
+                onChange={(e) => setBaseCurrency(e.target.value as BaseCurrency)}
+              >
+                {BASE_CURRENCIES.map(option => (
+                  <option key={option} value={option}>
+                    {option} · {CURRENCY_INFO[option].name}
+                  </option>
+                ))}
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+
+            {baseCurrency !== 'USD' && (
+              <Text fontSize="sm" color={isRatePending ? 'orange.500' : 'gray.600'} data-testid="exchange-rate">
+                {isRatePending
+                  ? `Fetching the ${baseCurrency} rate; values are shown in USD until it arrives.`
+                  : `1 USD = ${formatCurrency(rate, baseCurrency, { decimals: CURRENCY_INFO[baseCurrency].decimals + 2 })}`
+                    + (rateUpdatedAt ? `, updated ${new Date(rateUpdatedAt).toLocaleString()}` : '')}
+              </Text>
+            )}
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,188 @@
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Input,
+  NativeSelect,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowLeft } from 'react-icons/fi';
+import { useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { chainsIn, type ChainDefinition, type ChainExplorer, type ExplorerTemplates } from '../../domain/chain/ChainRegistry';
+import { validateExplorerTemplates, type CustomExplorer } from '../../domain/chain/ExplorerLinks';
+
+/** Select value for the user's own templates */
+const CUSTOM = '__custom__';
+
+interface CustomExplorerFormProps {
+  chain: ChainDefinition;
+  initial?: CustomExplorer;
+  onSave: (explorer: CustomExplorer) => void;
+}
+
+function CustomExplorerForm({ chain, initial, onSave }: CustomExplorerFormProps) {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [templates, setTemplates] = useState<ExplorerTemplates>({
+    address: initial?.address ?? '',
+    token: initial?.token ?? '',
+    tx: initial?.tx ?? '',
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    validateExplorerTemplates(name, templates).match({
+      success: (explorer) => {
+        setError(null);
+        onSave(explorer);
+      },
+      failure: (failure) => setError(failure.message),
+    });
+  };
+
+  const field = (kind: keyof ExplorerTemplates, label: string, placeholder: string) => (
+    <Input
+      size="sm"
+      aria-label={`${chain.displayName} ${label}`}
+      placeholder={placeholder}
+      value={templates[kind] ?? ''}
+      onChange={(e) => setTemplates({ ...templates, [kind]: e.target.value })}
+    />
+  );
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Stack gap={2} maxW="xl">
+        <Input
+          size="sm"
+          aria-label={`${chain.displayName} explorer name`}
+          placeholder="Explorer name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        {field('address', 'address URL', 'https://explorer.example/address/{address}')}
+        {chain.category !== 'bitcoin' && field('token', 'token URL', 'https://explorer.example/token/{token} (optional)')}
+        {field('tx', 'transaction URL', 'https://explorer.example/tx/{tx}')}
+        <Flex align="center" gap={3}>
+          <Button size="sm" type="submit" variant="outline">
+            Save explorer
+          </Button>
+          {error && <Text color="red.500" fontSize="sm">{error}</Text>}
+        </Flex>
+      </Stack>
+    </form>
+  );
+}
+
+function ChainExplorerSetting({ chain, presets }: { chain: ChainDefinition; presets: ChainExplorer[] }) {
+  const networkEnvironment = useStore(state => state.networkEnvironment);
+  const setting = useStore(state => state.explorerSettings[networkEnvironment]?.[chain.key]);
+  const setExplorerSetting = useStore(state => state.setExplorerSetting);
+  const custom = setting && 'custom' in setting ? setting.custom : undefined;
+  const [isEditingCustom, setIsEditingCustom] = useState(false);
+
+  const selected = custom || isEditingCustom || presets.length === 0
+    ? CUSTOM
+    : setting && 'preset' in setting && presets.some(preset => preset.name === setting.preset)
+      ? setting.preset
+      : presets[0].name;
+
+  const handleSelect = (value: string) => {
+    if (value === CUSTOM) {
+      setIsEditingCustom(true);
+      return;
+    }
+    setIsEditingCustom(false);
+    // The default explorer needs no entry
+    setExplorerSetting(networkEnvironment, chain.key, value === presets[0]?.name ? null : { preset: value });
+  };
+
+  return (
+    <Stack gap={3} py={3} borderBottom="1px solid" borderColor="gray.100">
+      <Flex justify="space-between" align="center" gap={4}>
+        <Text fontSize="sm" fontWeight="medium">{chain.displayName}</Text>
+        <NativeSelect.Root size="sm" width="xs">
+          <NativeSelect.Field
+            aria-label={`${chain.displayName} explorer`}
+            value={selected}
+            onChange={(e) => handleSelect(e.target.value)}
+          >
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+            <option value={CUSTOM}>{custom ? `${custom.name} (custom)` : 'Custom…'}</option>
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+      </Flex>
+      {selected === CUSTOM && (
+        <CustomExplorerForm
+          chain={chain}
+          initial={custom}
+          onSave={(explorer) => {
+            setExplorerSetting(networkEnvironment, chain.key, { custom: explorer });
+            setIsEditingCustom(false);
+          }}
+        />
+      )}
+    </Stack>
+  );
+}
+
+export default function Explorers() {
+  const networkEnvironment = useStore(state => state.networkEnvironment);
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Explorers
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            Where addresses and token contracts open
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Block explorers ({networkEnvironment})
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Choices apply to the current network environment; testnet keeps its own. Custom templates
+                use {'{address}'}, {'{token}'} and {'{tx}'} where the value goes.
+              </Text>
+            </Box>
+
+            <Stack gap={0}>
+              {chainsIn(networkEnvironment).map(({ chain, network }) => (
+                <ChainExplorerSetting key={chain.key} chain={chain} presets={network.explorers} />
+              ))}
+            </Stack>
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
@@ -13,6 +13,7 @@ import { useStore } from '../../store/useStore';
 import {
   IntegrationSource
 } from '@cygnus-wealth/wallet-integration-system';
+import { chainsIn } from '../../domain/chain/ChainRegistry';
 import phantomIcon from '../../assets/phantom-icon.svg';
 import slushIcon from '../../assets/slush-icon.svg';
 
@@ -366,15 +367,10 @@ export default function MultiWalletConnect() {
       console.log(`Found ${accounts.length} accounts from ${wallet.name}`);
       
       // Try to detect which chains are configured
-      const chainChecks = [
-        { chainId: '0x1', name: 'Ethereum' },
-        { chainId: '0x89', name: 'Polygon' },
-        { chainId: '0x38', name: 'BSC' },
-        { chainId: '0xa4b1', name: 'Arbitrum' },
-        { chainId: '0xa', name: 'Optimism' },
-        { chainId: '0xa86a', name: 'Avalanche' },
-        { chainId: '0x2105', name: 'Base' }
-      ];
+      const chainChecks = chainsIn('production', 'evm').map(({ chain, network }) => ({
+        chainId: `0x${network.numericId!.toString(16)}`,
+        name: chain.name
+      }));
       
       // Get current chain
       const currentChainId = await provider.request({ method: 'eth_chainId' });
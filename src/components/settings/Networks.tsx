@@ -0,0 +1,374 @@
+import { useState, useSyncExternalStore } from 'react';
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Button,
+  Flex,
+  HStack,
+  IconButton,
+  Input,
+  Badge,
+  Table,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowLeft, FiArrowUp, FiArrowDown, FiActivity, FiTrash2 } from 'react-icons/fi';
+import { useVault } from '../../hooks/useVault';
+import {
+  rpcConfigService,
+  type RpcEndpoint,
+  type SupportedChain,
+} from '../../infrastructure/rpc/RpcConfigurationService';
+import { MANAGED_RPC_PROVIDERS, type ManagedRpcProvider } from '../../config/rpc-provider-config.types';
+import { getChain } from '../../domain/chain/ChainRegistry';
+import RpcDiagnostics from './RpcDiagnostics';
+
+const chainLabel = (chain: SupportedChain): string => (
+  chain === 'bitcoin' ? 'Bitcoin (Esplora API)' : getChain(chain).displayName
+);
+
+const PROVIDER_LABELS: Record<ManagedRpcProvider, { label: string; hint: string }> = {
+  alchemy: { label: 'Alchemy', hint: 'EVM chains' },
+  drpc: { label: 'dRPC', hint: 'EVM chains' },
+  helius: { label: 'Helius', hint: 'Solana' },
+  infura: { label: 'Infura', hint: 'EVM chains' },
+  quicknode: { label: 'QuickNode', hint: 'Endpoint token, EVM chains and Solana' },
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function HealthBadge({ endpoint }: { endpoint: RpcEndpoint }) {
+  if (endpoint.lastChecked === undefined) {
+    return <Badge colorPalette="gray">Unchecked</Badge>;
+  }
+  return endpoint.isHealthy
+    ? <Badge colorPalette="green">Healthy</Badge>
+    : <Badge colorPalette="red">Unreachable</Badge>;
+}
+
+/** Recent response times as a small line, newest on the right */
+function LatencySparkline({ samples }: { samples: number[] }) {
+  if (samples.length < 2) return null;
+  const width = 80;
+  const height = 20;
+  const max = Math.max(...samples, 1);
+  const points = samples
+    .map((sample, i) => `${(i / (samples.length - 1)) * width},${height - (sample / max) * height}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} role="img" aria-label={`Latency history: ${samples.join(', ')} ms`}>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+function ApiKeySection() {
+  const { status: vaultStatus } = useVault();
+  const [drafts, setDrafts] = useState<Partial<Record<ManagedRpcProvider, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const configured = new Set(rpcConfigService.getConfiguredApiKeyProviders());
+  const isUnlocked = vaultStatus === 'unlocked';
+
+  const save = async (provider: ManagedRpcProvider, value: string) => {
+    const result = await rpcConfigService.setApiKey(provider, value);
+    result.match({
+      success: () => {
+        setError(null);
+        setDrafts(current => ({ ...current, [provider]: '' }));
+      },
+      failure: (failure) => setError(failure.message),
+    });
+  };
+
+  return (
+    <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+      <Stack gap={4}>
+        <Box>
+          <Heading as="h2" size="lg">
+            Provider API keys
+          </Heading>
+          <Text color="gray.600" fontSize="sm">
+            Keys are stored encrypted in the vault and used ahead of any keys the app was built with.
+          </Text>
+        </Box>
+
+        {!isUnlocked && (
+          <Text fontSize="sm" color="orange.500">
+            {vaultStatus === 'uninitialized' ? 'Set up' : 'Unlock'} the vault in{' '}
+            <Link to="/settings/security">Security</Link> to add or change keys.
+          </Text>
+        )}
+
+        {MANAGED_RPC_PROVIDERS.map(provider => (
+          <Flex key={provider} gap={3} align="center" wrap="wrap">
+            <Box width="48">
+              <Text fontWeight="medium">{PROVIDER_LABELS[provider].label}</Text>
+              <Text fontSize="xs" color="gray.500">{PROVIDER_LABELS[provider].hint}</Text>
+            </Box>
+            <Input
+              size="sm"
+              maxW="sm"
+              type="password"
+              aria-label={`${PROVIDER_LABELS[provider].label} API key`}
+              placeholder={configured.has(provider) ? '••••••••' : 'Paste API key'}
+              value={drafts[provider] ?? ''}
+              onChange={(e) => setDrafts(current => ({ ...current, [provider]: e.target.value }))}
+              disabled={!isUnlocked}
+            />
+            <Button
+              size="sm"
+              onClick={() => save(provider, drafts[provider] ?? '')}
+              disabled={!isUnlocked || !drafts[provider]?.trim()}
+            >
+              Save
+            </Button>
+            {configured.has(provider) && (
+              <>
+                <Badge colorPalette="green">Saved</Badge>
+                <Button size="sm" variant="ghost" onClick={() => save(provider, '')} disabled={!isUnlocked}>
+                  Remove
+                </Button>
+              </>
+            )}
+          </Flex>
+        ))}
+
+        {error && <Text color="red.500" fontSize="sm">{error}</Text>}
+      </Stack>
+    </Box>
+  );
+}
+
+function AddEndpointForm({ chain }: { chain: SupportedChain }) {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmedUrl = url.trim();
+    if (!isHttpUrl(trimmedUrl)) {
+      setError('Enter an http(s) URL');
+      return;
+    }
+    try {
+      rpcConfigService.addCustomEndpoint(chain, { url: trimmedUrl, name: name.trim() || 'Custom' });
+      setName('');
+      setUrl('');
+      setError(null);
+      void rpcConfigService.testEndpoint(chain, trimmedUrl);
+    } catch (failure) {
+      setError(failure instanceof Error ? failure.message : String(failure));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Flex gap={2} wrap="wrap" align="center">
+        <Input
+          size="sm"
+          maxW="40"
+          placeholder="Name"
+          aria-label={`${chainLabel(chain)} endpoint name`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Input
+          size="sm"
+          maxW="md"
+          placeholder={chain === 'bitcoin' ? 'https://your-esplora.example/api' : 'https://'}
+          aria-label={`${chainLabel(chain)} endpoint URL`}
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <Button size="sm" type="submit" variant="outline" disabled={!url.trim()}>
+          Add endpoint
+        </Button>
+        {error && <Text color="red.500" fontSize="sm">{error}</Text>}
+      </Flex>
+    </form>
+  );
+}
+
+function ChainEndpoints({ chain }: { chain: SupportedChain }) {
+  const config = rpcConfigService.getChainConfig(chain);
+  const endpoints = rpcConfigService.getAllEndpoints(chain);
+  const customUrls = new Set(config?.customEndpoints.map(endpoint => endpoint.url));
+
+  return (
+    <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+      <Stack gap={4}>
+        <Flex justify="space-between" align="center">
+          <Heading as="h3" size="md">
+            {chainLabel(chain)}
+          </Heading>
+          <Text fontSize="xs" color="gray.500">Chain {config?.chainId}</Text>
+        </Flex>
+
+        <Table.Root size="sm" variant="line">
+          <Table.Header>
+            <Table.Row>
+              <Table.ColumnHeader>Priority</Table.ColumnHeader>
+              <Table.ColumnHeader>Endpoint</Table.ColumnHeader>
+              <Table.ColumnHeader>Health</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="right">Latency</Table.ColumnHeader>
+              <Table.ColumnHeader textAlign="right">Actions</Table.ColumnHeader>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {endpoints.map((endpoint, index) => {
+              const isActive = endpoint.url === config?.activeEndpoint;
+              const isCustom = customUrls.has(endpoint.url);
+              return (
+                <Table.Row key={endpoint.url}>
+                  <Table.Cell>
+                    <HStack gap={0}>
+                      <Text width="6">{index + 1}</Text>
+                      <IconButton
+                        aria-label={`Move ${endpoint.name} up`}
+                        size="xs"
+                        variant="ghost"
+                        disabled={index === 0}
+                        onClick={() => rpcConfigService.moveEndpoint(chain, endpoint.url, -1)}
+                      >
+                        <FiArrowUp />
+                      </IconButton>
+                      <IconButton
+                        aria-label={`Move ${endpoint.name} down`}
+                        size="xs"
+                        variant="ghost"
+                        disabled={index === endpoints.length - 1}
+                        onClick={() => rpcConfigService.moveEndpoint(chain, endpoint.url, 1)}
+                      >
+                        <FiArrowDown />
+                      </IconButton>
+                    </HStack>
+                  </Table.Cell>
+                  <Table.Cell>
+                    <HStack gap={2}>
+                      <Text fontWeight="medium">{endpoint.name}</Text>
+                      {isActive && <Badge colorPalette="blue">Active</Badge>}
+                      {isCustom && <Badge variant="outline">Custom</Badge>}
+                    </HStack>
+                    <Text fontSize="xs" color="gray.500" wordBreak="break-all">{endpoint.url}</Text>
+                  </Table.Cell>
+                  <Table.Cell>
+                    <HealthBadge endpoint={endpoint} />
+                  </Table.Cell>
+                  <Table.Cell textAlign="right">
+                    <Stack gap={0} align="flex-end">
+                      <Text>{endpoint.responseTime !== undefined ? `${endpoint.responseTime} ms` : '-'}</Text>
+                      <LatencySparkline samples={endpoint.latencyHistory ?? []} />
+                    </Stack>
+                  </Table.Cell>
+                  <Table.Cell textAlign="right">
+                    <HStack gap={1} justify="flex-end">
+                      <Button
+                        size="xs"
+                        variant="ghost"
+                        disabled={isActive}
+                        onClick={() => rpcConfigService.setActiveEndpoint(chain, endpoint.url)}
+                      >
+                        Use
+                      </Button>
+                      <IconButton
+                        aria-label={`Test ${endpoint.name}`}
+                        size="xs"
+                        variant="ghost"
+                        onClick={() => void rpcConfigService.testEndpoint(chain, endpoint.url)}
+                      >
+                        <FiActivity />
+                      </IconButton>
+                      {isCustom && (
+                        <IconButton
+                          aria-label={`Remove ${endpoint.name}`}
+                          size="xs"
+                          variant="ghost"
+                          colorPalette="red"
+                          onClick={() => rpcConfigService.removeCustomEndpoint(chain, endpoint.url)}
+                        >
+                          <FiTrash2 />
+                        </IconButton>
+                      )}
+                    </HStack>
+                  </Table.Cell>
+                </Table.Row>
+              );
+            })}
+          </Table.Body>
+        </Table.Root>
+
+        <AddEndpointForm chain={chain} />
+      </Stack>
+    </Box>
+  );
+}
+
+export default function Networks() {
+  // Re-render on any endpoint, priority, health or key change
+  useSyncExternalStore(rpcConfigService.subscribe, rpcConfigService.getVersion);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const checkAll = async () => {
+    setIsChecking(true);
+    await Promise.allSettled(rpcConfigService.getSupportedChains().map(chain => rpcConfigService.runHealthChecks(chain)));
+    setIsChecking(false);
+  };
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Networks
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            RPC endpoints used to read balances. Until you add, reorder or choose one, the built-in endpoints are
+            ranked by measured reliability; after that they are tried in the order listed, top first. Providers you
+            entered an API key for keep their place in between.
+          </Text>
+        </Box>
+
+        <ApiKeySection />
+
+        <Flex justify="space-between" align="center">
+          <Heading as="h2" size="lg">
+            Endpoints
+          </Heading>
+          <Button size="sm" variant="outline" onClick={checkAll} loading={isChecking}>
+            <FiActivity /> Check all
+          </Button>
+        </Flex>
+
+        {rpcConfigService.getSupportedChains().map(chain => (
+          <ChainEndpoints key={chain} chain={chain} />
+        ))}
+
+        <RpcDiagnostics />
+      </Stack>
+    </Container>
+  );
+}
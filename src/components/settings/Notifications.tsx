@@ -0,0 +1,309 @@
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Flex,
+  Button,
+  IconButton,
+  Input,
+  NativeSelect,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowLeft, FiEdit2, FiTrash2 } from 'react-icons/fi';
+import { useState } from 'react';
+import { useStore } from '../../store/useStore';
+import {
+  describeAlertCondition,
+  formatAlertWindow,
+  type AlertCondition,
+  type AlertConditionKind,
+} from '../../domain/alerts/Alert';
+import { requestNotificationPermission } from '../../infrastructure/alerts/AlertMonitor';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WINDOW_OPTIONS = [HOUR_MS, 24 * HOUR_MS, 7 * 24 * HOUR_MS];
+
+const KIND_LABELS: Record<AlertConditionKind, string> = {
+  'price-above': 'Price rises above',
+  'price-below': 'Price falls below',
+  'portfolio-change': 'Portfolio changes by',
+  'asset-concentration': 'Any asset exceeds share of portfolio',
+  'stablecoin-depeg': 'A held stablecoin falls below',
+};
+
+/** Form fields of a rule, kept as entered */
+interface RuleDraft {
+  kind: AlertConditionKind;
+  symbol: string;
+  value: string;
+  windowMs: number;
+}
+
+const EMPTY_DRAFT: RuleDraft = { kind: 'price-above', symbol: '', value: '', windowMs: 24 * HOUR_MS };
+
+function draftFrom(condition: AlertCondition): RuleDraft {
+  switch (condition.kind) {
+    case 'price-above':
+    case 'price-below':
+      return { ...EMPTY_DRAFT, kind: condition.kind, symbol: condition.symbol, value: String(condition.price) };
+    case 'portfolio-change':
+      return { ...EMPTY_DRAFT, kind: condition.kind, value: String(condition.percent), windowMs: condition.windowMs };
+    case 'asset-concentration':
+      return { ...EMPTY_DRAFT, kind: condition.kind, value: String(condition.percent) };
+    case 'stablecoin-depeg':
+      return { ...EMPTY_DRAFT, kind: condition.kind, value: String(condition.price) };
+  }
+}
+
+/** The condition a draft describes, or null while it is incomplete */
+function conditionFrom(draft: RuleDraft): AlertCondition | null {
+  const value = Number(draft.value);
+  if (draft.value.trim() === '' || !Number.isFinite(value)) return null;
+
+  switch (draft.kind) {
+    case 'price-above':
+    case 'price-below': {
+      const symbol = draft.symbol.trim().toUpperCase();
+      return symbol && value > 0 ? { kind: draft.kind, symbol, price: value } : null;
+    }
+    case 'portfolio-change':
+      return value !== 0 ? { kind: 'portfolio-change', percent: value, windowMs: draft.windowMs } : null;
+    case 'asset-concentration':
+      return value > 0 && value < 100 ? { kind: 'asset-concentration', percent: value } : null;
+    case 'stablecoin-depeg':
+      return value > 0 ? { kind: 'stablecoin-depeg', price: value } : null;
+  }
+}
+
+function valuePlaceholder(kind: AlertConditionKind): string {
+  switch (kind) {
+    case 'price-above': return 'Price in USD, e.g. 4000';
+    case 'price-below': return 'Price in USD, e.g. 2500';
+    case 'portfolio-change': return 'Percent, e.g. -10 for a 10% drop';
+    case 'asset-concentration': return 'Percent, e.g. 40';
+    case 'stablecoin-depeg': return 'Price in USD, e.g. 0.98';
+  }
+}
+
+export default function Notifications() {
+  const alertRules = useStore(state => state.alertRules);
+  const addAlertRule = useStore(state => state.addAlertRule);
+  const updateAlertRule = useStore(state => state.updateAlertRule);
+  const removeAlertRule = useStore(state => state.removeAlertRule);
+  const snoozeAlertRule = useStore(state => state.snoozeAlertRule);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+
+  const condition = conditionFrom(draft);
+  const needsSymbol = draft.kind === 'price-above' || draft.kind === 'price-below';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!condition) return;
+    if (editingId) updateAlertRule(editingId, { condition });
+    else addAlertRule(condition);
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleEnableNotifications = async () => {
+    await requestNotificationPermission();
+    setPermission(Notification.permission);
+  };
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Notifications
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            Get alerted when prices or your portfolio cross a threshold
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Browser notifications
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Alerts always appear in the alert center. Allow notifications to also see them while the app is in
+                the background; rules are only checked while the app is open.
+              </Text>
+            </Box>
+            {permission === 'granted' ? (
+              <Text fontSize="sm" color="green.600">Notifications are enabled</Text>
+            ) : permission === 'denied' ? (
+              <Text fontSize="sm" color="gray.600">Notifications are blocked in the browser settings for this site</Text>
+            ) : permission === 'unsupported' ? (
+              <Text fontSize="sm" color="gray.600">This browser does not support notifications</Text>
+            ) : (
+              <Button size="sm" variant="outline" width="fit-content" onClick={handleEnableNotifications}>
+                Enable browser notifications
+              </Button>
+            )}
+          </Stack>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                {editingId ? 'Edit alert' : 'New alert'}
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Rules are checked after every price refresh and fire once each time their condition becomes true.
+              </Text>
+            </Box>
+            <form onSubmit={handleSubmit}>
+              <Flex gap={2} wrap="wrap" align="center">
+                <NativeSelect.Root size="sm" width="auto">
+                  <NativeSelect.Field
+                    aria-label="Alert type"
+                    value={draft.kind}
+                    onChange={(e) => setDraft({ ...draft, kind: e.target.value as AlertConditionKind })}
+                  >
+                    {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                      <option key={kind} value={kind}>{label}</option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                {needsSymbol && (
+                  <Input
+                    size="sm"
+                    width="28"
+                    aria-label="Asset symbol"
+                    placeholder="Symbol, e.g. ETH"
+                    value={draft.symbol}
+                    onChange={(e) => setDraft({ ...draft, symbol: e.target.value })}
+                  />
+                )}
+                <Input
+                  size="sm"
+                  width="xs"
+                  type="number"
+                  step="any"
+                  aria-label="Alert threshold"
+                  placeholder={valuePlaceholder(draft.kind)}
+                  value={draft.value}
+                  onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                />
+                {draft.kind === 'portfolio-change' && (
+                  <NativeSelect.Root size="sm" width="auto">
+                    <NativeSelect.Field
+                      aria-label="Alert window"
+                      value={draft.windowMs}
+                      onChange={(e) => setDraft({ ...draft, windowMs: Number(e.target.value) })}
+                    >
+                      {WINDOW_OPTIONS.map(windowMs => (
+                        <option key={windowMs} value={windowMs}>in {formatAlertWindow(windowMs)}</option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                )}
+                <Button type="submit" size="sm" colorPalette="blue" disabled={!condition}>
+                  {editingId ? 'Save' : 'Add alert'}
+                </Button>
+                {editingId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setDraft(EMPTY_DRAFT);
+                      setEditingId(null);
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </Flex>
+            </form>
+          </Stack>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Heading as="h2" size="lg">
+              Alerts
+            </Heading>
+            {alertRules.length === 0 ? (
+              <Text color="gray.500" fontSize="sm">No alerts yet</Text>
+            ) : alertRules.map(rule => {
+              const snoozed = rule.snoozedUntil !== undefined && rule.snoozedUntil > Date.now();
+              return (
+                <Flex key={rule.id} p={3} bg="gray.50" borderRadius="md" justify="space-between" align="center" gap={4}>
+                  <Box>
+                    <Text fontWeight="medium">{describeAlertCondition(rule.condition)}</Text>
+                    <Text fontSize="xs" color="gray.600">
+                      {snoozed
+                        ? `Snoozed until ${new Date(rule.snoozedUntil!).toLocaleString()}`
+                        : rule.active ? 'Triggered; fires again once the condition clears' : 'Watching'}
+                    </Text>
+                  </Box>
+                  <Flex gap={2} align="center">
+                    {snoozed && (
+                      <Button size="xs" variant="ghost" onClick={() => snoozeAlertRule(rule.id, null)}>
+                        Resume
+                      </Button>
+                    )}
+                    <Flex as="label" align="center" gap={2} fontSize="sm" cursor="pointer">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => updateAlertRule(rule.id, { enabled: e.target.checked })}
+                      />
+                      Enabled
+                    </Flex>
+                    <IconButton
+                      aria-label={`Edit ${describeAlertCondition(rule.condition)}`}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setDraft(draftFrom(rule.condition));
+                        setEditingId(rule.id);
+                      }}
+                    >
+                      <FiEdit2 />
+                    </IconButton>
+                    <IconButton
+                      aria-label={`Remove ${describeAlertCondition(rule.condition)}`}
+                      size="sm"
+                      variant="ghost"
+                      color="red.500"
+                      onClick={() => removeAlertRule(rule.id)}
+                    >
+                      <FiTrash2 />
+                    </IconButton>
+                  </Flex>
+                </Flex>
+              );
+            })}
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
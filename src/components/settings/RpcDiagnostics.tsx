@@ -0,0 +1,148 @@
+import { useState, useSyncExternalStore } from 'react';
+import {
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Button,
+  Flex,
+  HStack,
+  Badge,
+  Table,
+} from '@chakra-ui/react';
+import { FiActivity } from 'react-icons/fi';
+import { useIntegration } from '../../providers/IntegrationProvider';
+import { rpcConfigService } from '../../infrastructure/rpc/RpcConfigurationService';
+import { getRpcTelemetryStore } from '../../infrastructure/rpc/RpcTelemetryStore';
+import { rankRpcEndpoints } from '../../infrastructure/rpc/endpointRanking';
+import type { ChainRpcConfig } from '../../config/rpc-provider-config.types';
+
+/** Host only: the path of managed provider URLs holds the API key */
+function endpointHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function scoreColor(score: number): string {
+  if (score >= 75) return 'green';
+  if (score >= 50) return 'yellow';
+  return 'red';
+}
+
+function ChainDiagnostics({ chainKey, chain, pinnedUrls }: { chainKey: string; chain: ChainRpcConfig; pinnedUrls: Set<string> }) {
+  const telemetry = getRpcTelemetryStore();
+  const pinned = chain.endpoints.filter(endpoint => pinnedUrls.has(endpoint.url));
+  const ranked = rankRpcEndpoints(chainKey, chain.endpoints.filter(endpoint => !pinnedUrls.has(endpoint.url)), telemetry);
+
+  return (
+    <Box>
+      <Text fontWeight="medium" mb={2}>{chain.chainName}</Text>
+      <Table.Root size="sm" variant="line">
+        <Table.Header>
+          <Table.Row>
+            <Table.ColumnHeader>#</Table.ColumnHeader>
+            <Table.ColumnHeader>Provider</Table.ColumnHeader>
+            <Table.ColumnHeader>Tier</Table.ColumnHeader>
+            <Table.ColumnHeader textAlign="right">Score</Table.ColumnHeader>
+            <Table.ColumnHeader>Why</Table.ColumnHeader>
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {pinned.map((endpoint, index) => (
+            <Table.Row key={endpoint.url}>
+              <Table.Cell>{index + 1}</Table.Cell>
+              <Table.Cell>
+                <Text>{endpoint.provider}</Text>
+                <Text fontSize="xs" color="gray.500">{endpointHost(endpoint.url)}</Text>
+              </Table.Cell>
+              <Table.Cell><Badge variant="outline">Custom</Badge></Table.Cell>
+              <Table.Cell textAlign="right">-</Table.Cell>
+              <Table.Cell>
+                <Text fontSize="sm">Your endpoint; always tried before the ranked providers</Text>
+              </Table.Cell>
+            </Table.Row>
+          ))}
+          {ranked.map(({ item: endpoint, ranking }, index) => (
+            <Table.Row key={endpoint.url}>
+              <Table.Cell>{pinned.length + index + 1}</Table.Cell>
+              <Table.Cell>
+                <Text>{endpoint.provider}</Text>
+                <Text fontSize="xs" color="gray.500">{endpointHost(endpoint.url)}</Text>
+              </Table.Cell>
+              <Table.Cell>
+                <HStack gap={1}>
+                  <Badge>{endpoint.role}</Badge>
+                  <Badge variant="outline">{endpoint.type}</Badge>
+                </HStack>
+              </Table.Cell>
+              <Table.Cell textAlign="right">
+                <Badge colorPalette={scoreColor(ranking.score)}>{ranking.score.toFixed(1)}</Badge>
+              </Table.Cell>
+              <Table.Cell>
+                <Stack gap={0}>
+                  {ranking.reasons.map(reason => (
+                    <Text key={reason} fontSize="sm">{reason}</Text>
+                  ))}
+                </Stack>
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table.Root>
+    </Box>
+  );
+}
+
+/**
+ * How the endpoints in use are ranked: the provider tiers from the build
+ * config reordered by measured success rate and latency
+ */
+export default function RpcDiagnostics() {
+  const { rpcConfig } = useIntegration();
+  const telemetry = getRpcTelemetryStore();
+  useSyncExternalStore(telemetry.subscribe, telemetry.getVersion);
+  const [isProbing, setIsProbing] = useState(false);
+
+  const pinnedUrls = new Set(rpcConfig.userOverrides?.endpoints.map(endpoint => endpoint.url));
+
+  const probeAll = async () => {
+    setIsProbing(true);
+    await Promise.allSettled(Object.entries(rpcConfig.chains).flatMap(([chainKey, chain]) =>
+      chain.endpoints.map(endpoint => rpcConfigService.probeEndpoint(chainKey, endpoint.url))
+    ));
+    setIsProbing(false);
+  };
+
+  return (
+    <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+      <Stack gap={4}>
+        <Flex justify="space-between" align="flex-start" gap={4}>
+          <Box>
+            <Heading as="h2" size="lg">
+              Diagnostics
+            </Heading>
+            <Text color="gray.600" fontSize="sm">
+              Provider order used for balances. Each endpoint starts at its tier's score and is re-ranked by
+              success rate and p95 latency as requests are measured.
+            </Text>
+          </Box>
+          <HStack gap={2}>
+            <Button size="sm" variant="ghost" onClick={() => telemetry.clear()}>
+              Clear history
+            </Button>
+            <Button size="sm" variant="outline" onClick={probeAll} loading={isProbing}>
+              <FiActivity /> Probe all
+            </Button>
+          </HStack>
+        </Flex>
+
+        {Object.entries(rpcConfig.chains).map(([chainKey, chain]) => (
+          <ChainDiagnostics key={chainKey} chainKey={chainKey} chain={chain} pinnedUrls={pinnedUrls} />
+        ))}
+      </Stack>
+    </Box>
+  );
+}
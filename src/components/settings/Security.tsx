@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Button,
+  Badge,
+  Flex,
+  IconButton,
+  Input,
+  NativeSelect,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowLeft, FiLock } from 'react-icons/fi';
+import { useVault } from '../../hooks/useVault';
+import { MIN_PASSPHRASE_LENGTH, type VaultStatus } from '../../infrastructure/vault/SecretVault';
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+const statusBadges: Record<VaultStatus, { label: string; color: string }> = {
+  uninitialized: { label: 'Not set up', color: 'gray' },
+  locked: { label: 'Locked', color: 'orange' },
+  unlocked: { label: 'Unlocked', color: 'green' },
+};
+
+function PassphraseForm({
+  requireCurrent,
+  submitLabel,
+  onSubmit,
+}: {
+  requireCurrent: boolean;
+  submitLabel: string;
+  onSubmit: (current: string, next: string) => Promise<string | null>;
+}) {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setMessage(null);
+    if (next !== confirm) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const failure = await onSubmit(current, next);
+    setIsSubmitting(false);
+    setError(failure);
+    if (!failure) {
+      setCurrent('');
+      setNext('');
+      setConfirm('');
+      setMessage('Saved');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Stack gap={3} maxW="sm">
+        {requireCurrent && (
+          <Input
+            type="password"
+            aria-label="Current passphrase"
+            placeholder="Current passphrase"
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            disabled={isSubmitting}
+          />
+        )}
+        <Input
+          type="password"
+          aria-label="New passphrase"
+          placeholder={`New passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`}
+          value={next}
+          onChange={(e) => setNext(e.target.value)}
+          disabled={isSubmitting}
+        />
+        <Input
+          type="password"
+          aria-label="Confirm passphrase"
+          placeholder="Confirm passphrase"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          disabled={isSubmitting}
+        />
+        {error && (
+          <Text color="red.500" fontSize="sm" role="alert">
+            {error}
+          </Text>
+        )}
+        {message && (
+          <Text color="green.600" fontSize="sm">
+            {message}
+          </Text>
+        )}
+        <Button
+          type="submit"
+          colorPalette="blue"
+          alignSelf="flex-start"
+          loading={isSubmitting}
+          disabled={!next || (requireCurrent && !current)}
+        >
+          {submitLabel}
+        </Button>
+      </Stack>
+    </form>
+  );
+}
+
+export default function Security() {
+  const { vault, status } = useVault();
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => vault.getAutoLockMinutes());
+  const badge = statusBadges[status];
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    vault.setAutoLockMinutes(minutes);
+  };
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Security
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            Privacy and encryption settings
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={6}>
+            <Flex justify="space-between" align="center">
+              <Box>
+                <Heading as="h2" size="lg">
+                  Encrypted Vault
+                </Heading>
+                <Text color="gray.600" fontSize="sm">
+                  Exchange API keys are encrypted with a key derived from your passphrase
+                  and are never written to disk in plaintext.
+                </Text>
+              </Box>
+              <Badge colorPalette={badge.color} data-testid="vault-status">
+                {badge.label}
+              </Badge>
+            </Flex>
+
+            {status === 'uninitialized' && (
+              <Stack gap={3}>
+                <Text fontWeight="medium">Create a passphrase</Text>
+                <Text color="gray.600" fontSize="sm">
+                  The passphrase cannot be recovered. If you forget it, stored API keys must be re-entered.
+                </Text>
+                <PassphraseForm
+                  requireCurrent={false}
+                  submitLabel="Create Vault"
+                  onSubmit={async (_current, next) => {
+                    const result = await vault.initialize(next);
+                    return result.isFailure ? result.error.message : null;
+                  }}
+                />
+              </Stack>
+            )}
+
+            {status === 'unlocked' && (
+              <>
+                <Flex gap={4} align="center" wrap="wrap">
+                  <Button variant="outline" onClick={() => vault.lock()}>
+                    <FiLock /> Lock Now
+                  </Button>
+                  <NativeSelect.Root size="sm" width="auto">
+                    <NativeSelect.Field
+                      aria-label="Auto-lock"
+                      value={autoLockMinutes}
+                      onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+                    >
+                      {AUTO_LOCK_OPTIONS.map(option => (
+                        <option key={option.minutes} value={option.minutes}>
+                          Auto-lock: {option.label}
+                        </option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                </Flex>
+
+                <Stack gap={3}>
+                  <Text fontWeight="medium">Change passphrase</Text>
+                  <PassphraseForm
+                    requireCurrent
+                    submitLabel="Change Passphrase"
+                    onSubmit={async (current, next) => {
+                      const result = await vault.changePassphrase(current, next);
+                      return result.isFailure ? result.error.message : null;
+                    }}
+                  />
+                </Stack>
+              </>
+            )}
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
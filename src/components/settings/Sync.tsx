@@ -0,0 +1,206 @@
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Flex,
+  Button,
+  IconButton,
+  NativeSelect,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowLeft } from 'react-icons/fi';
+import { useMemo, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { getChainMap } from '../../infrastructure/sync/AccountSyncEngine';
+import { CHAIN_REGISTRY } from '../../domain/chain/ChainRegistry';
+import { getTokenDiscoveryStore } from '../../infrastructure/tokens/TokenDiscoveryStore';
+import { SYNC_INTERVAL_OPTIONS, formatSyncInterval } from '../../domain/sync/SyncCadence';
+
+/** Select value meaning "no override" */
+const INHERIT = '';
+
+interface IntervalSelectProps {
+  label: string;
+  value: number | undefined;
+  /** Shown for the no-override option; the default select has none */
+  inheritedLabel?: string;
+  onChange: (intervalMs: number | null) => void;
+}
+
+function IntervalSelect({ label, value, inheritedLabel, onChange }: IntervalSelectProps) {
+  return (
+    <Flex justify="space-between" align="center" gap={4}>
+      <Text fontSize="sm">{label}</Text>
+      <NativeSelect.Root size="sm" width="xs">
+        <NativeSelect.Field
+          aria-label={`${label} refresh interval`}
+          value={value === undefined ? INHERIT : String(value)}
+          onChange={(e) => onChange(e.target.value === INHERIT ? null : Number(e.target.value))}
+        >
+          {inheritedLabel !== undefined && (
+            <option value={INHERIT}>{inheritedLabel}</option>
+          )}
+          {SYNC_INTERVAL_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </NativeSelect.Field>
+        <NativeSelect.Indicator />
+      </NativeSelect.Root>
+    </Flex>
+  );
+}
+
+export default function Sync() {
+  const cadence = useStore(state => state.syncCadence);
+  const accounts = useStore(state => state.accounts);
+  const networkEnvironment = useStore(state => state.networkEnvironment);
+  const setDefaultSyncInterval = useStore(state => state.setDefaultSyncInterval);
+  const setChainSyncInterval = useStore(state => state.setChainSyncInterval);
+  const setAccountSyncInterval = useStore(state => state.setAccountSyncInterval);
+  const tokenDiscoveryEnabled = useStore(state => state.tokenDiscoveryEnabled);
+  const setTokenDiscoveryEnabled = useStore(state => state.setTokenDiscoveryEnabled);
+  const [isDiscoveryReset, setIsDiscoveryReset] = useState(false);
+
+  const chains = useMemo(
+    () => [
+      ...Object.keys(getChainMap(networkEnvironment)),
+      ...CHAIN_REGISTRY.filter(chain => chain.category !== 'evm').map(chain => chain.name),
+    ],
+    [networkEnvironment]
+  );
+  const connectedAccounts = accounts.filter(account => account.status === 'connected');
+  const defaultLabel = `Default (${formatSyncInterval(cadence.defaultIntervalMs).toLowerCase()})`;
+
+  const handleResetDiscovery = async () => {
+    await getTokenDiscoveryStore(networkEnvironment).clear();
+    setIsDiscoveryReset(true);
+  };
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Sync
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            Choose how often balances are refreshed
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Default
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Balances refresh while the app is open and visible, and right away when you return to it.
+                Endpoints that keep failing are retried less often until they recover.
+              </Text>
+            </Box>
+            <IntervalSelect
+              label="All chains"
+              value={cadence.defaultIntervalMs}
+              onChange={(intervalMs) => setDefaultSyncInterval(intervalMs ?? cadence.defaultIntervalMs)}
+            />
+          </Stack>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Chains
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Override the default for every account on a chain.
+              </Text>
+            </Box>
+            {chains.map(chain => (
+              <IntervalSelect
+                key={chain}
+                label={chain}
+                value={cadence.chains[chain]}
+                inheritedLabel={defaultLabel}
+                onChange={(intervalMs) => setChainSyncInterval(chain, intervalMs)}
+              />
+            ))}
+          </Stack>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Accounts
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Override the chain and default settings for a single account.
+              </Text>
+            </Box>
+            {connectedAccounts.length === 0 ? (
+              <Text color="gray.500" fontSize="sm">No connected accounts</Text>
+            ) : connectedAccounts.map(account => (
+              <IntervalSelect
+                key={account.id}
+                label={account.label}
+                value={cadence.accounts[account.id]}
+                inheritedLabel="Chain setting"
+                onChange={(intervalMs) => setAccountSyncInterval(account.id, intervalMs)}
+              />
+            ))}
+          </Stack>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Token discovery
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Find tokens beyond the well-known ones by scanning your EVM accounts' transfer history on the
+                configured RPC endpoints. The first scan covers recent blocks; later syncs only scan new blocks.
+                Tokens that look like spam are skipped.
+              </Text>
+            </Box>
+            <Flex as="label" align="center" gap={2} fontSize="sm" cursor="pointer">
+              <input
+                type="checkbox"
+                checked={tokenDiscoveryEnabled}
+                onChange={(e) => setTokenDiscoveryEnabled(e.target.checked)}
+              />
+              Discover tokens from transfer history
+            </Flex>
+            <Flex align="center" gap={3}>
+              <Button size="sm" variant="outline" width="fit-content" onClick={handleResetDiscovery}>
+                Forget discovered tokens
+              </Button>
+              {isDiscoveryReset && (
+                <Text fontSize="sm" color="gray.600">The next sync scans again from the start.</Text>
+              )}
+            </Flex>
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,248 @@
+import {
+  Container,
+  Stack,
+  Heading,
+  Text,
+  Box,
+  Flex,
+  Button,
+  IconButton,
+  Input,
+} from '@chakra-ui/react';
+import { Link } from 'react-router-dom';
+import { FiArrowDown, FiArrowLeft, FiArrowUp, FiRefreshCw, FiTrash2, FiUpload } from 'react-icons/fi';
+import { useState } from 'react';
+import { useTokenLists } from '../../hooks/useTokenLists';
+import { formatTokenListVersion, type TokenListImport } from '../../domain/tokens/TokenList';
+import type { DomainError } from '../../domain/shared/DomainError';
+import type { Result } from '../../domain/shared/Result';
+import { DEFAULT_TOKEN_LIST } from '../../infrastructure/tokens/defaultTokenList';
+
+function describeImport({ outcome, imported }: TokenListImport): string {
+  const { name, version, tokens } = imported.list;
+  switch (outcome) {
+    case 'added': return `Imported ${name} (${tokens.length} tokens)`;
+    case 'updated': return `Updated ${name} to version ${formatTokenListVersion(version)}`;
+    case 'unchanged': return `${name} ${formatTokenListVersion(version)} is already imported`;
+  }
+}
+
+export default function TokenLists() {
+  const { lists, catalog, service } = useTokenLists();
+  const [url, setUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const report = (result: Result<TokenListImport, DomainError>) => {
+    result.match({
+      success: (imported) => {
+        setMessage(describeImport(imported));
+        setError(null);
+      },
+      failure: (failure) => {
+        setError(failure.message);
+        setMessage(null);
+      },
+    });
+  };
+
+  const handleImportUrl = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsImporting(true);
+    const result = await service.importFromUrl(url);
+    setIsImporting(false);
+    report(result);
+    if (result.isSuccess) setUrl('');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    report(await service.importFromText(await file.text(), file.name));
+  };
+
+  const handleRefresh = async (id: string) => {
+    report(await service.refresh(id));
+  };
+
+  const handleRemove = (id: string, name: string) => {
+    if (!window.confirm(`Remove the token list ${name}?`)) return;
+    service.remove(id);
+  };
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Stack gap={8}>
+        {/* Header */}
+        <Box>
+          <Flex align="center" gap={4} mb={2}>
+            <IconButton
+              asChild
+              aria-label="Back to Settings"
+              variant="ghost"
+              size="sm"
+            >
+              <Link to="/settings">
+                <FiArrowLeft />
+              </Link>
+            </IconButton>
+            <Heading as="h1" size="3xl">
+              Token Lists
+            </Heading>
+          </Flex>
+          <Text color="gray.600" ml={12}>
+            Import token lists to search and add tokens to your accounts
+          </Text>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Import
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                Lists in the tokenlists.org format, such as https://tokens.uniswap.org. Importing a list again
+                replaces it only when its version is newer.
+              </Text>
+            </Box>
+            <form onSubmit={handleImportUrl}>
+              <Flex gap={2} maxW="xl">
+                <Input
+                  aria-label="Token list URL"
+                  placeholder="https://..."
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  disabled={isImporting}
+                />
+                <Button type="submit" variant="outline" loading={isImporting} disabled={!url.trim()}>
+                  Import
+                </Button>
+              </Flex>
+            </form>
+            <Flex align="center" gap={2} maxW="xl">
+              <FiUpload />
+              <Input
+                type="file"
+                accept="application/json,.json"
+                aria-label="Token list file"
+                p={1}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </Flex>
+            {error && (
+              <Text color="red.500" fontSize="sm" role="alert">
+                {error}
+              </Text>
+            )}
+            {message && (
+              <Text color="green.600" fontSize="sm">
+                {message}
+              </Text>
+            )}
+          </Stack>
+        </Box>
+
+        <Box p={6} bg="white" borderRadius="lg" border="1px solid" borderColor="gray.200" shadow="sm">
+          <Stack gap={4}>
+            <Box>
+              <Heading as="h2" size="lg">
+                Lists
+              </Heading>
+              <Text color="gray.600" fontSize="sm">
+                When lists describe the same token differently, the one higher up wins.
+                {catalog && catalog.conflicts.length > 0 && ` ${catalog.conflicts.length} tokens are currently affected.`}
+              </Text>
+            </Box>
+            {lists.map((stored, index) => (
+              <Flex
+                key={stored.id}
+                p={3}
+                bg="gray.50"
+                borderRadius="md"
+                justify="space-between"
+                align="center"
+                gap={4}
+                wrap="wrap"
+              >
+                <Box>
+                  <Text fontWeight="medium">{stored.list.name}</Text>
+                  <Text fontSize="sm" color="gray.600">
+                    Version {formatTokenListVersion(stored.list.version)} · {stored.list.tokens.length} tokens ·{' '}
+                    {stored.source.kind === 'url' ? stored.source.url : stored.source.fileName}
+                  </Text>
+                  <Flex gap={4} mt={2} fontSize="sm">
+                    <Flex as="label" align="center" gap={2} cursor="pointer">
+                      <input
+                        type="checkbox"
+                        checked={stored.enabled}
+                        onChange={(e) => service.update(stored.id, { enabled: e.target.checked })}
+                      />
+                      Use in search
+                    </Flex>
+                    <Flex as="label" align="center" gap={2} cursor="pointer">
+                      <input
+                        type="checkbox"
+                        checked={stored.includeInSync}
+                        onChange={(e) => service.update(stored.id, { includeInSync: e.target.checked })}
+                      />
+                      Check balances of every token during sync
+                    </Flex>
+                  </Flex>
+                </Box>
+                <Flex gap={1}>
+                  <IconButton
+                    aria-label={`Move ${stored.list.name} up`}
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === 0}
+                    onClick={() => service.move(stored.id, -1)}
+                  >
+                    <FiArrowUp />
+                  </IconButton>
+                  <IconButton
+                    aria-label={`Move ${stored.list.name} down`}
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === lists.length - 1}
+                    onClick={() => service.move(stored.id, 1)}
+                  >
+                    <FiArrowDown />
+                  </IconButton>
+                  {stored.source.kind === 'url' && (
+                    <IconButton
+                      aria-label={`Refresh ${stored.list.name}`}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRefresh(stored.id)}
+                    >
+                      <FiRefreshCw />
+                    </IconButton>
+                  )}
+                  <IconButton
+                    aria-label={`Remove ${stored.list.name}`}
+                    size="sm"
+                    variant="ghost"
+                    color="red.500"
+                    onClick={() => handleRemove(stored.id, stored.list.name)}
+                  >
+                    <FiTrash2 />
+                  </IconButton>
+                </Flex>
+              </Flex>
+            ))}
+            <Flex p={3} bg="gray.50" borderRadius="md" direction="column">
+              <Text fontWeight="medium">{DEFAULT_TOKEN_LIST.name}</Text>
+              <Text fontSize="sm" color="gray.600">
+                Built in · {DEFAULT_TOKEN_LIST.tokens.length} common tokens · always included, below imported lists
+              </Text>
+            </Flex>
+          </Stack>
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
@@ -8,54 +8,31 @@ import {
   Grid,
   Flex,
   Dialog,
+  Image,
   createToaster,
 } from '@chakra-ui/react';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { FiPlus, FiTrash2 } from 'react-icons/fi';
 import { useStore, type Token } from '../../store/useStore';
 import { isAddress } from 'viem';
+import { getChainMap } from '../../infrastructure/sync/AccountSyncEngine';
+import { useTokenLists } from '../../hooks/useTokenLists';
+import ExplorerLink from '../ExplorerLink';
 
 interface TokenManagerProps {
   accountId: string;
   platform: string;
 }
 
-// Common tokens by chain
-const commonTokens: Record<string, Token[]> = {
-  'Ethereum': [
-    { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 1 },
-    { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', name: 'Tether USD', decimals: 6, chainId: 1 },
-    { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, chainId: 1 },
-    { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8, chainId: 1 },
-    { address: '0x514910771AF9Ca656af840dff83E8264EcF986CA', symbol: 'LINK', name: 'Chainlink', decimals: 18, chainId: 1 },
-  ],
-  'Polygon': [
-    { address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 137 },
-    { address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', symbol: 'USDT', name: 'Tether USD', decimals: 6, chainId: 137 },
-    { address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, chainId: 137 },
-    { address: '0x1bfd67037b42cf73acf2047067bd4f2c47d9bfd6', symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8, chainId: 137 },
-  ],
-  'Arbitrum': [
-    { address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 42161 },
-    { address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', symbol: 'USDT', name: 'Tether USD', decimals: 6, chainId: 42161 },
-    { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, chainId: 42161 },
-    { address: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f', symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8, chainId: 42161 },
-  ],
-  'Optimism': [
-    { address: '0x7F5c764cBc14f9669B88837ca1490cCa17c31607', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 10 },
-    { address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', symbol: 'USDT', name: 'Tether USD', decimals: 6, chainId: 10 },
-    { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18, chainId: 10 },
-    { address: '0x68f180fcCe6836688e9084f035309E29Bf0A2095', symbol: 'WBTC', name: 'Wrapped BTC', decimals: 8, chainId: 10 },
-  ],
-};
-
 const toaster = createToaster({
   placement: 'top'
 });
 
 export default function TokenManager({ accountId, platform }: TokenManagerProps) {
-  const { accounts, updateAccount } = useStore();
+  const { accounts, updateAccount, networkEnvironment } = useStore();
+  const { catalog } = useTokenLists();
   const [isAddingToken, setIsAddingToken] = useState(false);
+  const [query, setQuery] = useState('');
   const [customToken, setCustomToken] = useState({
     address: '',
     symbol: '',
@@ -65,11 +42,17 @@ export default function TokenManager({ accountId, platform }: TokenManagerProps)
 
   const account = accounts.find(acc => acc.id === accountId);
   const tokens = account?.tokens || [];
-  const availablePresets = commonTokens[platform] || [];
-  const chainId = platform === 'Ethereum' ? 1 : 
-                  platform === 'Polygon' ? 137 : 
-                  platform === 'Arbitrum' ? 42161 : 
-                  platform === 'Optimism' ? 10 : 1;
+  const chainId = getChainMap(networkEnvironment)[platform]?.chainId ?? 1;
+
+  // Catalog matches not tracked yet; with no query, the highest-priority tokens of the chain
+  const suggestions = useMemo(() => {
+    if (!catalog) return [];
+    const tracked = new Set((account?.tokens ?? []).map(t => t.address.toLowerCase()));
+    return catalog
+      .search(chainId, query, 40)
+      .filter(token => !tracked.has(token.address.toLowerCase()))
+      .slice(0, query.trim() ? 20 : 12);
+  }, [catalog, chainId, query, account?.tokens]);
 
   const addToken = (token: Token) => {
     if (!account) return;
@@ -156,7 +139,9 @@ export default function TokenManager({ accountId, platform }: TokenManagerProps)
                   <Text fontWeight="medium">{token.symbol}</Text>
                   <Text fontSize="sm" color="gray.600">{token.name}</Text>
                   <Text fontSize="xs" color="gray.500" fontFamily="mono">
-                    {token.address.slice(0, 6)}...{token.address.slice(-4)}
+                    <ExplorerLink chain={platform} kind="token" value={token.address}>
+                      {token.address.slice(0, 6)}...{token.address.slice(-4)}
+                    </ExplorerLink>
                   </Text>
                 </Box>
                 <IconButton
@@ -177,26 +162,44 @@ export default function TokenManager({ accountId, platform }: TokenManagerProps)
           </Text>
         )}
 
-        {/* Common Tokens */}
-        {availablePresets.length > 0 && (
-          <Box>
-            <Text fontSize="sm" fontWeight="medium" mb={2}>Popular Tokens</Text>
+        {/* Token catalog */}
+        <Box>
+          <Text fontSize="sm" fontWeight="medium" mb={2}>Add from Token Lists</Text>
+          <Input
+            size="sm"
+            mb={2}
+            aria-label="Search tokens"
+            placeholder="Search by symbol, name or address"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          {suggestions.length > 0 ? (
             <Grid templateColumns="repeat(auto-fill, minmax(100px, 1fr))" gap={2}>
-              {availablePresets
-                .filter(preset => !tokens.some(t => t.address.toLowerCase() === preset.address.toLowerCase()))
-                .map((preset) => (
-                  <Button
-                    key={preset.address}
-                    size="sm"
-                    variant="outline"
-                    onClick={() => addToken(preset)}
-                  >
-                    {preset.symbol}
-                  </Button>
-                ))}
+              {suggestions.map((token) => (
+                <Button
+                  key={token.address}
+                  size="sm"
+                  variant="outline"
+                  title={`${token.name} (${token.lists.join(', ')})`}
+                  onClick={() => addToken({
+                    address: token.address,
+                    symbol: token.symbol,
+                    name: token.name,
+                    decimals: token.decimals,
+                    chainId: token.chainId,
+                  })}
+                >
+                  {token.logoURI && <Image src={token.logoURI} alt="" boxSize={4} borderRadius="full" />}
+                  {token.symbol}
+                </Button>
+              ))}
             </Grid>
-          </Box>
-        )}
+          ) : (
+            <Text fontSize="sm" color="gray.500">
+              {query.trim() ? 'No matching tokens' : 'No more tokens for this chain'}
+            </Text>
+          )}
+        </Box>
       </Stack>
 
       {/* Add Custom Token Dialog */}
@@ -13,6 +13,9 @@ import { Link, useParams } from 'react-router-dom';
 import { FiArrowLeft } from 'react-icons/fi';
 import { SiEthereum } from 'react-icons/si';
 import { useStore } from '../../store/useStore';
+import { useAccountNames } from '../../hooks/useAccountNames';
+import { accountExplorerChain } from '../../domain/chain/ExplorerLinks';
+import ExplorerLink from '../ExplorerLink';
 import { useMemo } from 'react';
 
 // Platform icon mapping
@@ -21,13 +24,10 @@ const platformIcons: Record<string, React.ElementType> = {
   'Multi-Chain EVM': SiEthereum,
 };
 
-// Helper to format address
-const formatAddress = (address: string) => 
-  address ? address : '-';
-
 export default function WalletDetails() {
   const { accounts } = useStore();
   const { connectionType } = useParams<{ connectionType: string }>();
+  const getAccountName = useAccountNames();
   
   // Decode the connection type from URL
   const decodedConnectionType = connectionType ? decodeURIComponent(connectionType) : '';
@@ -145,8 +145,19 @@ export default function WalletDetails() {
                       </Text>
                     </Table.Cell>
                     <Table.Cell>
+                      {account.address && getAccountName(account.address) && (
+                        <Text fontSize="sm" fontWeight="medium">
+                          {getAccountName(account.address)}
+                        </Text>
+                      )}
                       <Text fontFamily="mono" fontSize="sm">
-                        {formatAddress(account.address || '')}
+                        {account.address ? (
+                          <ExplorerLink
+                            chain={accountExplorerChain(account.platform, account.metadata?.detectedChains)}
+                            kind="address"
+                            value={account.address}
+                          />
+                        ) : '-'}
                       </Text>
                     </Table.Cell>
                     <Table.Cell>
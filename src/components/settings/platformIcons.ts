@@ -0,0 +1,47 @@
+import type { ElementType } from 'react';
+import { SiBinance, SiBitcoin, SiBnbchain, SiEthereum, SiOptimism, SiPolygon, SiSolana, SiSui } from 'react-icons/si';
+import {
+  TbCircleDashed,
+  TbCircleLetterA,
+  TbCircleLetterB,
+  TbCircleLetterG,
+  TbCircleLetterL,
+  TbCircleLetterM,
+  TbCircleLetterS,
+  TbCircleLetterZ,
+} from 'react-icons/tb';
+import { findChainByName, type ChainIcon } from '../../domain/chain/ChainRegistry';
+
+const chainIcons: Record<ChainIcon, ElementType> = {
+  ethereum: SiEthereum,
+  polygon: SiPolygon,
+  optimism: SiOptimism,
+  bnbchain: SiBnbchain,
+  solana: SiSolana,
+  sui: SiSui,
+  bitcoin: SiBitcoin,
+};
+
+/** Letter badges for the initials of chains without a brand icon */
+const letterIcons: Record<string, ElementType> = {
+  A: TbCircleLetterA,
+  B: TbCircleLetterB,
+  G: TbCircleLetterG,
+  L: TbCircleLetterL,
+  M: TbCircleLetterM,
+  S: TbCircleLetterS,
+  Z: TbCircleLetterZ,
+};
+
+/**
+ * Icon for an account platform or chain name. Chains without a brand icon of
+ * their own (Arbitrum, Base, zkSync, ...) get a badge with their initial;
+ * other platforms, e.g. multi-chain EVM wallets, use Ethereum's.
+ */
+export function platformIcon(platform: string): ElementType {
+  if (platform === 'Binance') return SiBinance;
+  const chain = findChainByName(platform);
+  if (!chain) return SiEthereum;
+  if (chain.icon) return chainIcons[chain.icon];
+  return letterIcons[chain.displayName[0].toUpperCase()] ?? TbCircleDashed;
+}
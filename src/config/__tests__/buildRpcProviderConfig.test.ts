@@ -30,10 +30,26 @@ describe('buildRpcProviderConfig', () => {
       expect(config.chains['8453']).toBeDefined();
     });
 
+    it('creates EVM chain entries for BSC, Avalanche and the newer L2s and sidechains', () => {
+      for (const chainId of ['56', '43114', '324', '59144', '534352', '81457', '5000', '100']) {
+        const chain = config.chains[chainId];
+        expect(chain.chainId).toBe(Number(chainId));
+        expect(chain.endpoints[0].provider).toBe('POKT Gateway');
+        expect(chain.endpoints.some(e => e.type === RpcProviderType.PUBLIC)).toBe(true);
+      }
+      expect(config.chains['324'].chainName).toBe('zkSync Era');
+    });
+
     it('creates a Solana chain entry', () => {
       expect(config.chains['solana-mainnet']).toBeDefined();
     });
 
+    it('creates a Bitcoin entry from the public Esplora instances', () => {
+      const btc = config.chains['bitcoin-mainnet'];
+      expect(btc.endpoints.map(e => e.url)).toEqual(['https://blockstream.info/api', 'https://mempool.space/api']);
+      expect(btc.endpoints[0].role).toBe(RpcProviderRole.PRIMARY);
+    });
+
     it('uses POKT as PRIMARY for EVM chains', () => {
       const eth = config.chains['1'];
       const primary = eth.endpoints.filter(e => e.role === RpcProviderRole.PRIMARY);
@@ -338,6 +354,100 @@ describe('buildRpcProviderConfig', () => {
       expect(config.userOverrides).toBeDefined();
       expect(config.userOverrides!.mode).toBe('override');
     });
+
+    it('prepend mode: puts user endpoints first in the chain endpoint list', () => {
+      const config = buildRpcProviderConfig('production', {
+        envVars: makeEnv(),
+        userConfig: {
+          endpoints: [{ chainId: '1', url: 'https://my-eth-node.example.com/rpc', label: 'My Node' }],
+          mode: 'prepend',
+        },
+      });
+
+      const eth = config.chains['1'].endpoints;
+      expect(eth[0].url).toBe('https://my-eth-node.example.com/rpc');
+      expect(eth[0].provider).toBe('My Node');
+      expect(eth.some(e => e.provider.includes('POKT'))).toBe(true);
+      expect(config.chains['137'].endpoints[0].url).not.toBe('https://my-eth-node.example.com/rpc');
+    });
+
+    it('puts a self-hosted Esplora instance ahead of the public ones', () => {
+      const config = buildRpcProviderConfig('production', {
+        envVars: makeEnv(),
+        userConfig: {
+          endpoints: [{ chainId: 'bitcoin-mainnet', url: 'http://umbrel.local:3006/api', label: 'Umbrel' }],
+          mode: 'prepend',
+        },
+      });
+
+      const btc = config.chains['bitcoin-mainnet'].endpoints;
+      expect(btc.map(e => e.provider)).toEqual(['Umbrel', 'Blockstream', 'mempool.space']);
+    });
+
+    it('override mode: replaces the built-in endpoints of targeted chains only', () => {
+      const config = buildRpcProviderConfig('production', {
+        envVars: makeEnv(),
+        userConfig: {
+          endpoints: [{ chainId: '1', url: 'https://my-node.example.com' }],
+          mode: 'override',
+        },
+      });
+
+      expect(config.chains['1'].endpoints.map(e => e.url)).toEqual(['https://my-node.example.com']);
+      expect(config.chains['137'].endpoints.length).toBeGreaterThan(1);
+    });
+
+    it('ranks built-in endpoints but keeps user endpoints first', () => {
+      const config = buildRpcProviderConfig('production', {
+        envVars: makeEnv(),
+        userConfig: {
+          endpoints: [{ chainId: '1', url: 'https://my-node.example.com' }],
+          mode: 'prepend',
+        },
+        rankEndpoints: (_chainId, endpoints) => [...endpoints].reverse(),
+      });
+
+      const eth = config.chains['1'].endpoints;
+      expect(eth[0].url).toBe('https://my-node.example.com');
+      expect(eth[1].role).toBe(RpcProviderRole.EMERGENCY);
+      expect(eth.at(-1)!.role).toBe(RpcProviderRole.PRIMARY);
+    });
+
+    it('tries endpoints in the user\'s priority order over the ranking, keeping keyed tiers in place', () => {
+      const [pokt, lava] = buildRpcProviderConfig('production', { envVars: makeEnv() }).chains['1'].endpoints.map(e => e.url);
+      const config = buildRpcProviderConfig('production', {
+        envVars: makeEnv({ VITE_CYGNUS_RPC_ALCHEMY_KEY: 'alchemy-key' }),
+        userConfig: {
+          endpoints: [],
+          mode: 'prepend',
+          endpointPriority: { '1': ['https://cloudflare-eth.com', pokt, lava, 'https://rpc.ankr.com/eth'] },
+        },
+        rankEndpoints: (_chainId, endpoints) => [...endpoints].reverse(),
+      });
+
+      const eth = config.chains['1'].endpoints;
+      expect(eth.map(e => e.provider)).toEqual(['Public', 'POKT Gateway', 'Alchemy', 'Lava Network', 'Public']);
+      expect(eth[0].url).toBe('https://cloudflare-eth.com');
+      expect(config.chains['137'].endpoints[0].provider).toBe('Public');
+    });
+
+    it('uses API keys from the user config, ahead of env var keys', () => {
+      const config = buildRpcProviderConfig('production', {
+        envVars: makeEnv({ VITE_CYGNUS_RPC_ALCHEMY_KEY: 'env-key' }),
+        userConfig: {
+          endpoints: [],
+          mode: 'prepend',
+          apiKeys: { alchemy: 'user-key', drpc: '  ' },
+        },
+      });
+
+      const eth = config.chains['1'].endpoints;
+      expect(eth.some(e => e.url.includes('user-key'))).toBe(true);
+      expect(eth.some(e => e.url.includes('env-key'))).toBe(false);
+      // Blank user keys are ignored
+      expect(eth.some(e => e.role === RpcProviderRole.SECONDARY)).toBe(false);
+      expect(config.userOverrides).toEqual({ endpoints: [], mode: 'prepend' });
+    });
   });
 
   // -------------------------------------------------------------------
@@ -359,11 +469,24 @@ describe('buildRpcProviderConfig', () => {
       expect(config.chains['1']).toBeUndefined();
     });
 
+    it('has a testnet counterpart for every mainnet EVM chain', () => {
+      const mainnet = buildRpcProviderConfig('production', { envVars: makeEnv() });
+      const countEvm = (c: AppRpcProviderConfig) => Object.keys(c.chains).filter(id => /^\d+$/.test(id)).length;
+      expect(countEvm(config)).toBe(countEvm(mainnet));
+      for (const chainId of ['97', '43113', '300', '59141', '534351', '168587773', '5003', '10200']) {
+        expect(config.chains[chainId].endpoints.length).toBeGreaterThan(0);
+      }
+    });
+
     it('uses Solana devnet for testnet environment', () => {
       expect(config.chains['solana-devnet']).toBeDefined();
       expect(config.chains['solana-mainnet']).toBeUndefined();
     });
 
+    it('has no Bitcoin entry, as watch-only accounts are mainnet only', () => {
+      expect(config.chains['bitcoin-mainnet']).toBeUndefined();
+    });
+
     it('still uses POKT as PRIMARY for testnet chains', () => {
       const sepolia = config.chains['11155111'];
       expect(sepolia.endpoints[0].role).toBe(RpcProviderRole.PRIMARY);
@@ -5,12 +5,14 @@ import type { AppRpcProviderConfig } from '../rpc-provider-config.types';
 // Mock hoisted functions
 const {
   mockUpdateChainConfig,
+  mockRegisterChain,
   mockIsChainSupported,
   mockGetEnvironment,
   mockGetChainConfig,
   mockGetHealthMetrics,
 } = vi.hoisted(() => ({
   mockUpdateChainConfig: vi.fn(),
+  mockRegisterChain: vi.fn(),
   mockIsChainSupported: vi.fn().mockReturnValue(true),
   mockGetEnvironment: vi.fn().mockReturnValue('production'),
   mockGetChainConfig: vi.fn().mockReturnValue({ endpoints: { http: [] } }),
@@ -20,6 +22,7 @@ const {
 vi.mock('@cygnus-wealth/evm-integration', () => ({
   ChainRegistry: vi.fn().mockImplementation(() => ({
     updateChainConfig: mockUpdateChainConfig,
+    registerChain: mockRegisterChain,
     isChainSupported: mockIsChainSupported,
     getEnvironment: mockGetEnvironment,
     getChainConfig: mockGetChainConfig,
@@ -246,6 +249,33 @@ describe('integrationServices', () => {
       createEvmIntegration(config);
       expect(mockUpdateChainConfig).not.toHaveBeenCalled();
     });
+
+    it('registers chains the package does not ship with the config URLs', () => {
+      mockIsChainSupported.mockImplementation((chainId: number) => chainId !== 324);
+      const config = makeConfig();
+      config.chains['324'] = {
+        ...config.chains['1'],
+        chainId: 324,
+        chainName: 'zkSync Era',
+        endpoints: config.chains['1'].endpoints.map(e => ({ ...e, url: `${e.url}/zksync` })),
+      };
+
+      createEvmIntegration(config);
+
+      expect(mockRegisterChain).toHaveBeenCalledTimes(1);
+      expect(mockRegisterChain).toHaveBeenCalledWith(expect.objectContaining({
+        id: 324,
+        name: 'zkSync Era',
+        symbol: 'ETH',
+        endpoints: {
+          http: [
+            'https://eth-mainnet.gateway.pokt.network/v1/lb/libre/zksync',
+            'https://cloudflare-eth.com/zksync',
+          ],
+        },
+      }));
+      expect(mockUpdateChainConfig).not.toHaveBeenCalledWith(324, expect.anything());
+    });
   });
 
   describe('createSolIntegration', () => {
@@ -6,7 +6,16 @@
  * dRPC is secondary, Lava Network tertiary. Managed providers (Alchemy, Infura,
  * QuickNode, Helius) are demoted to emergency fallback tier.
  *
- * The app works on first launch without any API keys configured.
+ * The app works on first launch without any API keys configured. API keys
+ * can come from VITE_CYGNUS_RPC_* build-time env vars or from the user's
+ * config (entered in Settings › Networks), which wins when both are set.
+ * User endpoints are put ahead of (prepend) or instead of (override) the
+ * built-in list of each chain they target. An optional ranker reorders the
+ * built-in tiers at runtime, e.g. from measured endpoint telemetry; a
+ * priority order the user set for a chain wins over it.
+ *
+ * The chains of each environment and their per-provider endpoints come from
+ * the chain registry.
  */
 
 import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
@@ -19,159 +28,11 @@ import type {
   ChainRpcConfig,
   AppRpcProviderConfig,
   BuildRpcConfigOptions,
+  AppUserRpcConfig,
+  ManagedRpcApiKeys,
 } from './rpc-provider-config.types';
 import { RPC_ENV_KEYS } from './rpc-provider-config.types';
-
-// ---------------------------------------------------------------------------
-// Chain definitions
-// ---------------------------------------------------------------------------
-
-interface ChainDef {
-  chainId: string;
-  numericId: number;
-  chainName: string;
-}
-
-const MAINNET_EVM_CHAINS: ChainDef[] = [
-  { chainId: '1', numericId: 1, chainName: 'Ethereum' },
-  { chainId: '137', numericId: 137, chainName: 'Polygon' },
-  { chainId: '42161', numericId: 42161, chainName: 'Arbitrum' },
-  { chainId: '10', numericId: 10, chainName: 'Optimism' },
-  { chainId: '8453', numericId: 8453, chainName: 'Base' },
-];
-
-const TESTNET_EVM_CHAINS: ChainDef[] = [
-  { chainId: '11155111', numericId: 11155111, chainName: 'Sepolia' },
-  { chainId: '80002', numericId: 80002, chainName: 'Polygon Amoy' },
-  { chainId: '421614', numericId: 421614, chainName: 'Arbitrum Sepolia' },
-  { chainId: '11155420', numericId: 11155420, chainName: 'Optimism Sepolia' },
-  { chainId: '84532', numericId: 84532, chainName: 'Base Sepolia' },
-];
-
-const LOCAL_EVM_CHAINS: ChainDef[] = [
-  { chainId: '1337', numericId: 1337, chainName: 'Localhost' },
-];
-
-// ---------------------------------------------------------------------------
-// POKT Gateway F-Chains endpoints (keyless, decentralized)
-// ---------------------------------------------------------------------------
-
-const POKT_ENDPOINTS: Record<string, string> = {
-  // Mainnet
-  '1': 'https://eth-mainnet.gateway.pokt.network/v1/lb/libre',
-  '137': 'https://poly-mainnet.gateway.pokt.network/v1/lb/libre',
-  '42161': 'https://arbitrum-one.gateway.pokt.network/v1/lb/libre',
-  '10': 'https://optimism-mainnet.gateway.pokt.network/v1/lb/libre',
-  '8453': 'https://base-mainnet.gateway.pokt.network/v1/lb/libre',
-  // Testnet
-  '11155111': 'https://eth-sepolia.gateway.pokt.network/v1/lb/libre',
-  '80002': 'https://polygon-amoy.gateway.pokt.network/v1/lb/libre',
-  '421614': 'https://arbitrum-sepolia.gateway.pokt.network/v1/lb/libre',
-  '11155420': 'https://optimism-sepolia.gateway.pokt.network/v1/lb/libre',
-  '84532': 'https://base-sepolia.gateway.pokt.network/v1/lb/libre',
-  // Solana
-  'solana-mainnet': 'https://solana-mainnet.gateway.pokt.network/v1/lb/libre',
-  'solana-devnet': 'https://solana-devnet.gateway.pokt.network/v1/lb/libre',
-};
-
-// ---------------------------------------------------------------------------
-// Lava Network endpoints (keyless, decentralized)
-// ---------------------------------------------------------------------------
-
-const LAVA_ENDPOINTS: Record<string, string> = {
-  // Mainnet
-  '1': 'https://eth1.lava.build',
-  '137': 'https://polygon1.lava.build',
-  '42161': 'https://arbitrum1.lava.build',
-  '10': 'https://optimism1.lava.build',
-  '8453': 'https://base1.lava.build',
-  // Testnet
-  '11155111': 'https://eth-sepolia.lava.build',
-  '80002': 'https://polygon-amoy.lava.build',
-  '421614': 'https://arbitrum-sepolia.lava.build',
-  '11155420': 'https://optimism-sepolia.lava.build',
-  '84532': 'https://base-sepolia.lava.build',
-  // Solana
-  'solana-mainnet': 'https://solana1.lava.build',
-  'solana-devnet': 'https://solana-devnet.lava.build',
-};
-
-// ---------------------------------------------------------------------------
-// dRPC network names (requires API key)
-// ---------------------------------------------------------------------------
-
-const DRPC_NETWORK_NAMES: Record<string, string> = {
-  '1': 'ethereum',
-  '137': 'polygon',
-  '42161': 'arbitrum',
-  '10': 'optimism',
-  '8453': 'base',
-  '11155111': 'sepolia',
-  '80002': 'polygon-amoy',
-  '421614': 'arbitrum-sepolia',
-  '11155420': 'optimism-sepolia',
-  '84532': 'base-sepolia',
-};
-
-// ---------------------------------------------------------------------------
-// Managed provider URL templates (require API keys — demoted to emergency)
-// ---------------------------------------------------------------------------
-
-const ALCHEMY_URLS: Record<string, string> = {
-  '1': 'https://eth-mainnet.g.alchemy.com/v2/',
-  '137': 'https://polygon-mainnet.g.alchemy.com/v2/',
-  '42161': 'https://arb-mainnet.g.alchemy.com/v2/',
-  '10': 'https://opt-mainnet.g.alchemy.com/v2/',
-  '8453': 'https://base-mainnet.g.alchemy.com/v2/',
-  '11155111': 'https://eth-sepolia.g.alchemy.com/v2/',
-  '80002': 'https://polygon-amoy.g.alchemy.com/v2/',
-  '421614': 'https://arb-sepolia.g.alchemy.com/v2/',
-  '11155420': 'https://opt-sepolia.g.alchemy.com/v2/',
-  '84532': 'https://base-sepolia.g.alchemy.com/v2/',
-  'solana-mainnet': 'https://solana-mainnet.g.alchemy.com/v2/',
-  'solana-devnet': 'https://solana-devnet.g.alchemy.com/v2/',
-};
-
-const INFURA_URLS: Record<string, string> = {
-  '1': 'https://mainnet.infura.io/v3/',
-  '137': 'https://polygon-mainnet.infura.io/v3/',
-  '42161': 'https://arbitrum-mainnet.infura.io/v3/',
-  '10': 'https://optimism-mainnet.infura.io/v3/',
-  '8453': 'https://base-mainnet.infura.io/v3/',
-  '11155111': 'https://sepolia.infura.io/v3/',
-  '80002': 'https://polygon-amoy.infura.io/v3/',
-  '421614': 'https://arbitrum-sepolia.infura.io/v3/',
-  '11155420': 'https://optimism-sepolia.infura.io/v3/',
-  '84532': 'https://base-sepolia.infura.io/v3/',
-};
-
-const QUICKNODE_CHAIN_SLUGS: Record<string, string> = {
-  '1': 'eth-mainnet',
-  '137': 'matic-mainnet',
-  '42161': 'arbitrum-mainnet',
-  '10': 'optimism',
-  '8453': 'base-mainnet',
-  '11155111': 'eth-sepolia',
-  'solana-mainnet': 'solana-mainnet',
-  'solana-devnet': 'solana-devnet',
-};
-
-/** Public fallback endpoints (free, no key required) */
-const PUBLIC_ENDPOINTS: Record<string, string[]> = {
-  '1': ['https://cloudflare-eth.com', 'https://rpc.ankr.com/eth'],
-  '137': ['https://polygon-rpc.com', 'https://rpc.ankr.com/polygon'],
-  '42161': ['https://arb1.arbitrum.io/rpc', 'https://rpc.ankr.com/arbitrum'],
-  '10': ['https://mainnet.optimism.io', 'https://rpc.ankr.com/optimism'],
-  '8453': ['https://mainnet.base.org', 'https://rpc.ankr.com/base'],
-  '11155111': ['https://rpc.sepolia.org'],
-  '80002': ['https://rpc-amoy.polygon.technology'],
-  '421614': ['https://sepolia-rollup.arbitrum.io/rpc'],
-  '11155420': ['https://sepolia.optimism.io'],
-  '84532': ['https://sepolia.base.org'],
-  'solana-mainnet': ['https://solana.publicnode.com', 'https://api.mainnet-beta.solana.com'],
-  'solana-devnet': ['https://api.devnet.solana.com'],
-  '1337': ['http://localhost:8545'],
-};
+import { chainsIn, type ChainNetwork } from '../domain/chain/ChainRegistry';
 
 // ---------------------------------------------------------------------------
 // Default operational configs
@@ -218,6 +79,7 @@ const PROVIDER_LIMITS = {
   quicknode: { rateLimitRps: 100, timeoutMs: 5_000 },
   helius: { rateLimitRps: 100, timeoutMs: 5_000 },
   public: { rateLimitRps: 10, timeoutMs: 10_000 },
+  user: { rateLimitRps: 50, timeoutMs: 10_000 },
 } as const;
 
 // ---------------------------------------------------------------------------
@@ -232,7 +94,7 @@ const PROVIDER_LIMITS = {
  * Works keyless on first launch — no API keys or configuration needed.
  *
  * @param env - Target network environment
- * @param options - Optional env vars and user config overrides
+ * @param options - Optional env vars, user config overrides and endpoint ranking
  */
 export function buildRpcProviderConfig(
   env: NetworkEnvironment,
@@ -240,19 +102,36 @@ export function buildRpcProviderConfig(
 ): AppRpcProviderConfig {
   const envVars = options?.envVars ?? (typeof import.meta !== 'undefined' ? import.meta.env : {}) as Record<string, string | undefined>;
   const userConfig = options?.userConfig;
+  const rankEndpoints = options?.rankEndpoints;
 
-  const keys = readApiKeys(envVars);
-  const evmChains = getEvmChains(env);
+  const keys = { ...readApiKeys(envVars), ...cleanApiKeys(userConfig?.apiKeys) };
   const chains: Record<string, ChainRpcConfig> = {};
 
   // Build EVM chain entries
-  for (const chain of evmChains) {
-    chains[chain.chainId] = buildEvmChainConfig(chain, keys);
+  for (const { network } of chainsIn(env, 'evm')) {
+    chains[network.rpcKey] = buildEvmChainConfig(network, keys);
   }
 
   // Build Solana chain entry
-  const solChain = getSolanaChain(env);
-  chains[solChain.chainId] = buildSolanaChainConfig(solChain, keys);
+  for (const { network } of chainsIn(env, 'solana')) {
+    chains[network.rpcKey] = buildSolanaChainConfig(network, keys);
+  }
+
+  // Build Bitcoin chain entry (watch-only accounts are mainnet only)
+  for (const { network } of chainsIn(env, 'bitcoin')) {
+    chains[network.rpcKey] = buildBitcoinChainConfig(network);
+  }
+
+  if (rankEndpoints) {
+    for (const [chainId, chain] of Object.entries(chains)) {
+      chain.endpoints = rankEndpoints(chainId, chain.endpoints);
+    }
+  }
+
+  if (userConfig) {
+    applyUserEndpoints(chains, userConfig);
+    applyEndpointPriority(chains, userConfig.endpointPriority ?? {});
+  }
 
   return {
     environment: env,
@@ -261,7 +140,8 @@ export function buildRpcProviderConfig(
     retry: DEFAULT_RETRY,
     healthCheck: DEFAULT_HEALTH_CHECK,
     privacy: DEFAULT_PRIVACY,
-    ...(userConfig ? { userOverrides: userConfig } : {}),
+    // Keys are already baked into the endpoint URLs; don't carry them around twice
+    ...(userConfig ? { userOverrides: { endpoints: userConfig.endpoints, mode: userConfig.mode } } : {}),
   };
 }
 
@@ -277,11 +157,12 @@ interface ApiKeys {
   quicknode?: string;
 }
 
+function clean(v: string | undefined): string | undefined {
+  if (!v || v.trim() === '') return undefined;
+  return v.trim();
+}
+
 function readApiKeys(envVars: Record<string, string | undefined>): ApiKeys {
-  const clean = (v: string | undefined): string | undefined => {
-    if (!v || v.trim() === '') return undefined;
-    return v.trim();
-  };
   return {
     alchemy: clean(envVars[RPC_ENV_KEYS.ALCHEMY]),
     drpc: clean(envVars[RPC_ENV_KEYS.DRPC]),
@@ -291,19 +172,56 @@ function readApiKeys(envVars: Record<string, string | undefined>): ApiKeys {
   };
 }
 
-function getEvmChains(env: NetworkEnvironment): ChainDef[] {
-  switch (env) {
-    case 'production': return MAINNET_EVM_CHAINS;
-    case 'testnet': return TESTNET_EVM_CHAINS;
-    case 'local': return LOCAL_EVM_CHAINS;
+/** User keys without blank entries, so they never mask an env var key */
+function cleanApiKeys(apiKeys: ManagedRpcApiKeys | undefined): ApiKeys {
+  const keys: ApiKeys = {};
+  for (const [provider, value] of Object.entries(apiKeys ?? {}) as Array<[keyof ApiKeys, string | undefined]>) {
+    const key = clean(value);
+    if (key) keys[provider] = key;
+  }
+  return keys;
+}
+
+/**
+ * Put the user's endpoints ahead of, or in place of, the built-in endpoints
+ * of every chain they target. Endpoints for chains outside this environment
+ * are ignored.
+ */
+function applyUserEndpoints(chains: Record<string, ChainRpcConfig>, userConfig: AppUserRpcConfig): void {
+  for (const [chainId, chain] of Object.entries(chains)) {
+    const userEndpoints: RpcEndpointConfig[] = userConfig.endpoints
+      .filter(endpoint => endpoint.chainId === chainId)
+      .map(endpoint => ({
+        url: endpoint.url,
+        ...(endpoint.wsUrl ? { wsUrl: endpoint.wsUrl } : {}),
+        provider: endpoint.label ?? 'Custom',
+        role: RpcProviderRole.PRIMARY,
+        type: RpcProviderType.COMMUNITY,
+        rateLimitRps: PROVIDER_LIMITS.user.rateLimitRps,
+        timeoutMs: PROVIDER_LIMITS.user.timeoutMs,
+      }));
+    if (userEndpoints.length === 0) continue;
+
+    const userUrls = new Set(userEndpoints.map(endpoint => endpoint.url));
+    chain.endpoints = userConfig.mode === 'override'
+      ? userEndpoints
+      : [...userEndpoints, ...chain.endpoints.filter(endpoint => !userUrls.has(endpoint.url))];
   }
 }
 
-function getSolanaChain(env: NetworkEnvironment): ChainDef {
-  switch (env) {
-    case 'production': return { chainId: 'solana-mainnet', numericId: 101, chainName: 'Solana' };
-    case 'testnet': return { chainId: 'solana-devnet', numericId: 103, chainName: 'Solana Devnet' };
-    case 'local': return { chainId: 'solana-devnet', numericId: 103, chainName: 'Solana Devnet (local)' };
+/**
+ * Put the endpoints a user ordered into that order. They take the places they
+ * held between them, so keyed providers the user never saw in the list keep
+ * their tier position.
+ */
+function applyEndpointPriority(chains: Record<string, ChainRpcConfig>, priority: Record<string, string[]>): void {
+  for (const [chainId, chain] of Object.entries(chains)) {
+    const order = priority[chainId];
+    if (!order?.length) continue;
+
+    const rank = (endpoint: RpcEndpointConfig) => order.indexOf(endpoint.url);
+    const ordered = chain.endpoints.filter(endpoint => rank(endpoint) !== -1).sort((a, b) => rank(a) - rank(b));
+    chain.endpoints = chain.endpoints.map(endpoint => rank(endpoint) === -1 ? endpoint : ordered.shift()!);
   }
 }
 
@@ -311,13 +229,13 @@ function getSolanaChain(env: NetworkEnvironment): ChainDef {
  * Build EVM chain config with decentralized-first priority:
  *   POKT (PRIMARY) > dRPC (SECONDARY) > Lava (TERTIARY) > Alchemy/Infura/QuickNode (EMERGENCY) > Public (EMERGENCY)
  */
-function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
+function buildEvmChainConfig(chain: ChainNetwork, keys: ApiKeys): ChainRpcConfig {
   const endpoints: RpcEndpointConfig[] = [];
 
   // PRIMARY: POKT Gateway (keyless)
-  if (POKT_ENDPOINTS[chain.chainId]) {
+  if (chain.rpc.pokt) {
     endpoints.push({
-      url: POKT_ENDPOINTS[chain.chainId],
+      url: chain.rpc.pokt,
       provider: 'POKT Gateway',
       role: RpcProviderRole.PRIMARY,
       type: RpcProviderType.DECENTRALIZED,
@@ -327,9 +245,9 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
   }
 
   // SECONDARY: dRPC (requires key)
-  if (keys.drpc && DRPC_NETWORK_NAMES[chain.chainId]) {
+  if (keys.drpc && chain.rpc.drpc) {
     endpoints.push({
-      url: `https://lb.drpc.org/ogrpc?network=${DRPC_NETWORK_NAMES[chain.chainId]}&dkey=${keys.drpc}`,
+      url: `https://lb.drpc.org/ogrpc?network=${chain.rpc.drpc}&dkey=${keys.drpc}`,
       provider: 'dRPC',
       role: RpcProviderRole.SECONDARY,
       type: RpcProviderType.DECENTRALIZED,
@@ -339,9 +257,9 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
   }
 
   // TERTIARY: Lava Network (keyless)
-  if (LAVA_ENDPOINTS[chain.chainId]) {
+  if (chain.rpc.lava) {
     endpoints.push({
-      url: LAVA_ENDPOINTS[chain.chainId],
+      url: chain.rpc.lava,
       provider: 'Lava Network',
       role: RpcProviderRole.TERTIARY,
       type: RpcProviderType.DECENTRALIZED,
@@ -351,9 +269,9 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
   }
 
   // EMERGENCY: Managed providers (demoted)
-  if (keys.alchemy && ALCHEMY_URLS[chain.chainId]) {
+  if (keys.alchemy && chain.rpc.alchemy) {
     endpoints.push({
-      url: ALCHEMY_URLS[chain.chainId] + keys.alchemy,
+      url: chain.rpc.alchemy + keys.alchemy,
       provider: 'Alchemy',
       role: RpcProviderRole.EMERGENCY,
       type: RpcProviderType.MANAGED,
@@ -362,9 +280,9 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
     });
   }
 
-  if (keys.infura && INFURA_URLS[chain.chainId]) {
+  if (keys.infura && chain.rpc.infura) {
     endpoints.push({
-      url: INFURA_URLS[chain.chainId] + keys.infura,
+      url: chain.rpc.infura + keys.infura,
       provider: 'Infura',
       role: RpcProviderRole.EMERGENCY,
       type: RpcProviderType.MANAGED,
@@ -373,9 +291,9 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
     });
   }
 
-  if (keys.quicknode && QUICKNODE_CHAIN_SLUGS[chain.chainId]) {
+  if (keys.quicknode && chain.rpc.quicknode) {
     endpoints.push({
-      url: `https://${QUICKNODE_CHAIN_SLUGS[chain.chainId]}.quiknode.pro/${keys.quicknode}`,
+      url: `https://${chain.rpc.quicknode}.quiknode.pro/${keys.quicknode}`,
       provider: 'QuickNode',
       role: RpcProviderRole.EMERGENCY,
       type: RpcProviderType.MANAGED,
@@ -385,8 +303,7 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
   }
 
   // EMERGENCY: Public fallbacks (always present)
-  const publicUrls = PUBLIC_ENDPOINTS[chain.chainId] ?? [];
-  for (const url of publicUrls) {
+  for (const url of chain.rpc.public) {
     endpoints.push({
       url,
       provider: 'Public',
@@ -398,8 +315,8 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
   }
 
   return {
-    chainId: chain.numericId,
-    chainName: chain.chainName,
+    chainId: chain.numericId!,
+    chainName: chain.name,
     endpoints,
     totalOperationTimeoutMs: DEFAULT_CHAIN_TIMEOUT_MS,
     cacheStaleAcceptanceMs: DEFAULT_CACHE_STALE_MS,
@@ -410,13 +327,13 @@ function buildEvmChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
  * Build Solana chain config with dual-path support:
  *   Standard RPC: POKT (PRIMARY) > Helius (SECONDARY, DAS-capable) > Lava (TERTIARY) > Alchemy/QuickNode (EMERGENCY) > Public (EMERGENCY)
  */
-function buildSolanaChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig {
+function buildSolanaChainConfig(chain: ChainNetwork, keys: ApiKeys): ChainRpcConfig {
   const endpoints: RpcEndpointConfig[] = [];
 
   // PRIMARY: POKT Gateway for standard RPC (keyless)
-  if (POKT_ENDPOINTS[chain.chainId]) {
+  if (chain.rpc.pokt) {
     endpoints.push({
-      url: POKT_ENDPOINTS[chain.chainId],
+      url: chain.rpc.pokt,
       provider: 'POKT Gateway',
       role: RpcProviderRole.PRIMARY,
       type: RpcProviderType.DECENTRALIZED,
@@ -426,13 +343,9 @@ function buildSolanaChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig
   }
 
   // SECONDARY: Helius for DAS API + standard RPC (requires key)
-  if (keys.helius) {
-    const isDevnet = chain.chainId === 'solana-devnet';
-    const base = isDevnet
-      ? 'https://devnet.helius-rpc.com/?api-key='
-      : 'https://mainnet.helius-rpc.com/?api-key=';
+  if (keys.helius && chain.rpc.helius) {
     endpoints.push({
-      url: base + keys.helius,
+      url: chain.rpc.helius + keys.helius,
       provider: 'Helius',
       role: RpcProviderRole.SECONDARY,
       type: RpcProviderType.MANAGED,
@@ -442,9 +355,9 @@ function buildSolanaChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig
   }
 
   // TERTIARY: Lava Network (keyless)
-  if (LAVA_ENDPOINTS[chain.chainId]) {
+  if (chain.rpc.lava) {
     endpoints.push({
-      url: LAVA_ENDPOINTS[chain.chainId],
+      url: chain.rpc.lava,
       provider: 'Lava Network',
       role: RpcProviderRole.TERTIARY,
       type: RpcProviderType.DECENTRALIZED,
@@ -454,9 +367,9 @@ function buildSolanaChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig
   }
 
   // EMERGENCY: Managed providers (demoted)
-  if (keys.alchemy && ALCHEMY_URLS[chain.chainId]) {
+  if (keys.alchemy && chain.rpc.alchemy) {
     endpoints.push({
-      url: ALCHEMY_URLS[chain.chainId] + keys.alchemy,
+      url: chain.rpc.alchemy + keys.alchemy,
       provider: 'Alchemy',
       role: RpcProviderRole.EMERGENCY,
       type: RpcProviderType.MANAGED,
@@ -465,9 +378,9 @@ function buildSolanaChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig
     });
   }
 
-  if (keys.quicknode && QUICKNODE_CHAIN_SLUGS[chain.chainId]) {
+  if (keys.quicknode && chain.rpc.quicknode) {
     endpoints.push({
-      url: `https://${QUICKNODE_CHAIN_SLUGS[chain.chainId]}.quiknode.pro/${keys.quicknode}`,
+      url: `https://${chain.rpc.quicknode}.quiknode.pro/${keys.quicknode}`,
       provider: 'QuickNode',
       role: RpcProviderRole.EMERGENCY,
       type: RpcProviderType.MANAGED,
@@ -477,8 +390,7 @@ function buildSolanaChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig
   }
 
   // EMERGENCY: Public fallbacks
-  const publicUrls = PUBLIC_ENDPOINTS[chain.chainId] ?? [];
-  for (const url of publicUrls) {
+  for (const url of chain.rpc.public) {
     endpoints.push({
       url,
       provider: 'Public',
@@ -490,8 +402,31 @@ function buildSolanaChainConfig(chain: ChainDef, keys: ApiKeys): ChainRpcConfig
   }
 
   return {
-    chainId: chain.numericId,
-    chainName: chain.chainName,
+    chainId: chain.numericId!,
+    chainName: chain.name,
+    endpoints,
+    totalOperationTimeoutMs: DEFAULT_CHAIN_TIMEOUT_MS,
+    cacheStaleAcceptanceMs: DEFAULT_CACHE_STALE_MS,
+  };
+}
+
+/**
+ * Build Bitcoin chain config from the public Esplora instances. A self-hosted
+ * instance comes in as a user endpoint and is put in front of them.
+ */
+function buildBitcoinChainConfig(chain: ChainNetwork): ChainRpcConfig {
+  const endpoints: RpcEndpointConfig[] = (chain.rpc.esplora ?? []).map(({ url, provider }, index) => ({
+    url,
+    provider,
+    role: index === 0 ? RpcProviderRole.PRIMARY : RpcProviderRole.SECONDARY,
+    type: RpcProviderType.PUBLIC,
+    rateLimitRps: PROVIDER_LIMITS.public.rateLimitRps,
+    timeoutMs: PROVIDER_LIMITS.public.timeoutMs,
+  }));
+
+  return {
+    chainId: chain.numericId!,
+    chainName: chain.name,
     endpoints,
     totalOperationTimeoutMs: DEFAULT_CHAIN_TIMEOUT_MS,
     cacheStaleAcceptanceMs: DEFAULT_CACHE_STALE_MS,
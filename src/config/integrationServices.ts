@@ -2,15 +2,16 @@
  * Integration service factories for RPC wiring.
  *
  * Takes an AppRpcProviderConfig and creates properly configured
- * ChainRegistry (EVM) and SolanaIntegrationFacade instances.
+ * ChainRegistry (EVM), SolanaIntegrationFacade and Bitcoin watch instances.
  */
 
 import { ChainRegistry } from '@cygnus-wealth/evm-integration';
 import { SolanaIntegrationFacade } from '@cygnus-wealth/sol-integration';
 import type { AppRpcProviderConfig } from './rpc-provider-config.types';
-
-/** EVM chain IDs (numeric strings) that are supported */
-const EVM_CHAIN_IDS = ['1', '137', '42161', '10', '8453', '11155111', '80002', '421614', '11155420', '84532', '1337'];
+import { EsploraClient } from '../infrastructure/bitcoin/EsploraClient';
+import { BitcoinWatchService } from '../infrastructure/bitcoin/BitcoinWatchService';
+import { chainsIn } from '../domain/chain/ChainRegistry';
+import { recordRpcRequest } from '../infrastructure/rpc/requestTelemetry';
 
 /**
  * Extract HTTP endpoint URLs for a given EVM chain from config.
@@ -30,21 +31,41 @@ export function extractSolanaEndpoints(config: AppRpcProviderConfig): string[] {
   return config.chains[solanaKey].endpoints.map(e => e.url);
 }
 
+/**
+ * Extract Esplora base URLs for Bitcoin from config; empty outside production.
+ */
+export function extractBitcoinEndpoints(config: AppRpcProviderConfig): string[] {
+  const bitcoinKey = Object.keys(config.chains).find(k => k.startsWith('bitcoin-'));
+  if (!bitcoinKey) return [];
+  return config.chains[bitcoinKey].endpoints.map(e => e.url);
+}
+
 /**
  * Creates a ChainRegistry configured with RPC endpoints from the provider config.
- * Updates each chain's endpoints to use the fallback URLs from buildRpcProviderConfig.
+ * Updates each chain's endpoints to use the fallback URLs from buildRpcProviderConfig,
+ * registering the chain registry's networks the package does not ship.
  */
 export function createEvmIntegration(config: AppRpcProviderConfig): InstanceType<typeof ChainRegistry> {
   const registry = new ChainRegistry(config.environment);
 
-  for (const chainId of EVM_CHAIN_IDS) {
-    const urls = extractEvmEndpoints(config, chainId);
+  for (const { network } of chainsIn(config.environment, 'evm')) {
+    const urls = extractEvmEndpoints(config, network.rpcKey);
     if (urls.length > 0) {
-      const numericId = parseInt(chainId, 10);
+      const numericId = network.numericId!;
       if (registry.isChainSupported(numericId)) {
         registry.updateChainConfig(numericId, {
           endpoints: { http: urls },
         });
+      } else {
+        registry.registerChain({
+          id: numericId,
+          name: network.name,
+          symbol: network.native.symbol,
+          decimals: network.native.decimals,
+          explorer: network.explorers[0]?.url ?? '',
+          isTestnet: config.environment !== 'production',
+          endpoints: { http: urls },
+        });
       }
     }
   }
@@ -62,3 +83,16 @@ export function createSolIntegration(config: AppRpcProviderConfig): InstanceType
     rpcEndpoints: endpoints.length > 0 ? endpoints : undefined,
   });
 }
+
+/**
+ * Creates a BitcoinWatchService reading through the Esplora endpoints from the provider config,
+ * recording every request as endpoint telemetry.
+ */
+export function createBitcoinIntegration(config: AppRpcProviderConfig): BitcoinWatchService {
+  const bitcoinKey = Object.keys(config.chains).find(k => k.startsWith('bitcoin-'));
+  return new BitcoinWatchService(new EsploraClient(extractBitcoinEndpoints(config), {
+    onRequest: (url, outcome) => {
+      if (bitcoinKey) recordRpcRequest(bitcoinKey, url, outcome);
+    },
+  }));
+}
@@ -23,7 +23,7 @@ export type {
   PrivacyConfig,
 } from '@cygnus-wealth/rpc-infrastructure';
 
-import type { RpcProviderConfig } from '@cygnus-wealth/rpc-infrastructure';
+import type { RpcEndpointConfig, RpcProviderConfig, UserRpcConfig } from '@cygnus-wealth/rpc-infrastructure';
 
 /** Extended config with environment context for downstream consumers */
 export interface AppRpcProviderConfig extends RpcProviderConfig {
@@ -31,12 +31,30 @@ export interface AppRpcProviderConfig extends RpcProviderConfig {
   environment: NetworkEnvironment;
 }
 
+/** Managed providers whose endpoints are only added once an API key is known */
+export const MANAGED_RPC_PROVIDERS = ['alchemy', 'drpc', 'helius', 'infura', 'quicknode'] as const;
+export type ManagedRpcProvider = typeof MANAGED_RPC_PROVIDERS[number];
+
+export type ManagedRpcApiKeys = Partial<Record<ManagedRpcProvider, string>>;
+
+/** User overrides plus API keys entered in the app, which take precedence over env vars */
+export interface AppUserRpcConfig extends UserRpcConfig {
+  apiKeys?: ManagedRpcApiKeys;
+  /** Endpoint URLs per chain ID in the order the user wants them tried */
+  endpointPriority?: Record<string, string[]>;
+}
+
+/** Reorders a chain's built-in endpoints at runtime, e.g. by measured reliability */
+export type RpcEndpointRanker = (chainId: string, endpoints: RpcEndpointConfig[]) => RpcEndpointConfig[];
+
 /** Options for buildRpcProviderConfig */
 export interface BuildRpcConfigOptions {
   /** Env vars containing API keys (defaults to import.meta.env at runtime) */
   envVars?: Record<string, string | undefined>;
-  /** Optional user-provided RPC endpoint overrides */
-  userConfig?: import('@cygnus-wealth/rpc-infrastructure').UserRpcConfig;
+  /** Optional user-provided RPC endpoint overrides and API keys */
+  userConfig?: AppUserRpcConfig;
+  /** Optional reordering of each chain's built-in endpoints; user endpoints stay in front */
+  rankEndpoints?: RpcEndpointRanker;
 }
 
 /** Environment variable names we read for managed provider API keys */
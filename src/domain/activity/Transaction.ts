@@ -0,0 +1,93 @@
+/**
+ * Transaction
+ *
+ * Normalized on-chain activity for an account: native and token transfers on
+ * EVM chains, Solana signatures and Sui transaction blocks. Records are keyed
+ * so that re-ingesting the same range is idempotent.
+ */
+
+/** unknown: the source does not decode the transaction body (Solana signatures) */
+export type TransactionDirection = 'in' | 'out' | 'self' | 'unknown';
+
+/**
+ * transfer: a native or token movement with a known amount
+ * call: activity involving the account whose effect is not decoded (Solana signatures)
+ */
+export type TransactionKind = 'transfer' | 'call';
+
+export type TransactionStatus = 'success' | 'failed';
+
+export interface Transaction {
+  id: string;
+  accountId: string;
+  /** Display chain name, e.g. Ethereum, Solana, Sui */
+  chain: string;
+  hash: string;
+  /** Epoch milliseconds; null when the chain did not report a time */
+  timestamp: number | null;
+  /** Block number, slot or checkpoint */
+  block: number | null;
+  kind: TransactionKind;
+  direction: TransactionDirection;
+  status: TransactionStatus;
+  symbol?: string;
+  /** Decimal amount as a string, always positive; direction carries the sign */
+  amount?: string;
+  /** Token contract, mint or coin type; omitted for the native asset */
+  asset?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Stable record id. `part` distinguishes several transfers inside one
+ * transaction (log index, coin type).
+ */
+export function transactionId(accountId: string, chain: string, hash: string, part: string | number = 'native'): string {
+  return `${accountId}:${chain}:${hash}:${part}`;
+}
+
+export function directionFor(account: string, from?: string, to?: string): TransactionDirection {
+  const self = account.toLowerCase();
+  const isFrom = from?.toLowerCase() === self;
+  const isTo = to?.toLowerCase() === self;
+  if (isFrom && isTo) return 'self';
+  return isFrom ? 'out' : 'in';
+}
+
+export interface TransactionFilter {
+  accountIds?: string[];
+  chains?: string[];
+  direction?: TransactionDirection;
+  /** Case-insensitive match on symbol, hash or counterparty */
+  search?: string;
+}
+
+export interface TransactionPage {
+  items: Transaction[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export function matchesFilter(tx: Transaction, filter: TransactionFilter): boolean {
+  if (filter.accountIds && !filter.accountIds.includes(tx.accountId)) return false;
+  if (filter.chains && !filter.chains.includes(tx.chain)) return false;
+  if (filter.direction && tx.direction !== filter.direction) return false;
+  if (filter.search) {
+    const needle = filter.search.trim().toLowerCase();
+    const haystack = [tx.symbol, tx.hash, tx.from, tx.to, tx.asset]
+      .filter(Boolean)
+      .map(value => value!.toLowerCase());
+    if (needle && !haystack.some(value => value.includes(needle))) return false;
+  }
+  return true;
+}
+
+/** Newest first; undated records sort last, ties broken by id for stable paging */
+export function compareTransactions(a: Transaction, b: Transaction): number {
+  const byTime = (b.timestamp ?? -Infinity) - (a.timestamp ?? -Infinity);
+  // Both undated gives NaN, which falls through to the id comparison like a tie
+  if (byTime) return byTime;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
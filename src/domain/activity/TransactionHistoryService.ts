@@ -0,0 +1,190 @@
+/**
+ * TransactionHistoryService
+ *
+ * Ingests account activity from the chain sources into a repository and pages
+ * it back for the activity feed. Every (account, chain) pair keeps its own
+ * cursor, which only advances after the batch it belongs to has been stored,
+ * so an interrupted sync resumes where it left off. A failing chain does not
+ * block the others; failures are reported alongside the counts.
+ */
+
+import { Result } from '../shared/Result';
+import { DomainError, ServiceError, ValidationError } from '../shared/DomainError';
+import {
+  compareTransactions,
+  matchesFilter,
+  type Transaction,
+  type TransactionFilter,
+  type TransactionPage,
+} from './Transaction';
+import type { ITransactionSource, TransactionSyncTarget } from './TransactionSource';
+
+export interface SyncCursor {
+  /** `${accountId}:${chain}` */
+  key: string;
+  accountId: string;
+  chain: string;
+  cursor: string;
+  updatedAt: number;
+}
+
+export interface ITransactionRepository {
+  saveMany(transactions: Transaction[]): Promise<void>;
+  findByAccounts(accountIds: string[] | null): Promise<Transaction[]>;
+  getCursor(key: string): Promise<SyncCursor | null>;
+  saveCursor(cursor: SyncCursor): Promise<void>;
+  /** Remove an account's transactions and cursors */
+  deleteAccount(accountId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface TransactionSyncFailure {
+  accountId: string;
+  chain: string;
+  message: string;
+}
+
+export interface TransactionSyncResult {
+  ingested: number;
+  failures: TransactionSyncFailure[];
+  /** Targets that stopped early and will continue on the next sync */
+  pending: number;
+}
+
+export function cursorKey(accountId: string, chain: string): string {
+  return `${accountId}:${chain}`;
+}
+
+export class TransactionHistoryService {
+  private repository: ITransactionRepository;
+  private sources: ITransactionSource[];
+  // One sync per (account, chain) at a time; a second caller shares the first run
+  private inFlight: Map<string, Promise<{ count: number; hasMore: boolean }>> = new Map();
+
+  constructor(repository: ITransactionRepository, sources: ITransactionSource[]) {
+    this.repository = repository;
+    this.sources = sources;
+  }
+
+  /**
+   * Pull new activity for every target a source supports
+   */
+  public async sync(targets: TransactionSyncTarget[], signal?: AbortSignal): Promise<Result<TransactionSyncResult, DomainError>> {
+    const jobs = targets.flatMap(target => {
+      const source = this.sources.find(s => s.supportsChain(target.chain));
+      return source ? [{ target, source }] : [];
+    });
+
+    const failures: TransactionSyncFailure[] = [];
+    let ingested = 0;
+    let pending = 0;
+
+    const settled = await Promise.allSettled(
+      jobs.map(({ target, source }) => this.syncTarget(target, source, signal))
+    );
+
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        ingested += outcome.value.count;
+        if (outcome.value.hasMore) pending += 1;
+        return;
+      }
+      const { target } = jobs[i];
+      failures.push({
+        accountId: target.accountId,
+        chain: target.chain,
+        message: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+      });
+    });
+
+    if (jobs.length > 0 && failures.length === jobs.length) {
+      return Result.failure(
+        new ServiceError('TRANSACTION_SYNC_ERROR', 'Failed to load activity from any chain', { failures })
+      );
+    }
+
+    return Result.success({ ingested, failures, pending });
+  }
+
+  /**
+   * Page through stored activity, newest first
+   */
+  public async query(
+    filter: TransactionFilter = {},
+    page: number = 1,
+    pageSize: number = 25
+  ): Promise<Result<TransactionPage, DomainError>> {
+    if (page < 1 || pageSize < 1) {
+      return Result.failure(new ValidationError('Page and page size must be positive', 'page', page));
+    }
+
+    try {
+      const stored = await this.repository.findByAccounts(filter.accountIds ?? null);
+      const matching = stored.filter(tx => matchesFilter(tx, filter)).sort(compareTransactions);
+      const start = (page - 1) * pageSize;
+
+      return Result.success({
+        items: matching.slice(start, start + pageSize),
+        total: matching.length,
+        page,
+        pageSize,
+      });
+    } catch (error) {
+      return Result.failure(
+        new ServiceError(
+          'TRANSACTION_QUERY_ERROR',
+          error instanceof Error ? error.message : 'Unknown error querying transactions'
+        )
+      );
+    }
+  }
+
+  /**
+   * Forget an account's history, e.g. after the account was removed
+   */
+  public async removeAccount(accountId: string): Promise<void> {
+    await this.repository.deleteAccount(accountId);
+  }
+
+  /**
+   * Remove all stored history and cursors
+   */
+  public async clearHistory(): Promise<void> {
+    await this.repository.clear();
+  }
+
+  private syncTarget(
+    target: TransactionSyncTarget,
+    source: ITransactionSource,
+    signal?: AbortSignal
+  ): Promise<{ count: number; hasMore: boolean }> {
+    const key = cursorKey(target.accountId, target.chain);
+    const running = this.inFlight.get(key);
+    if (running) return running;
+
+    const run = (async () => {
+      const stored = await this.repository.getCursor(key);
+      const batch = await source.fetchTransactions(target, stored?.cursor ?? null, signal);
+      signal?.throwIfAborted();
+
+      if (batch.transactions.length > 0) {
+        await this.repository.saveMany(batch.transactions);
+      }
+      if (batch.cursor !== null) {
+        await this.repository.saveCursor({
+          key,
+          accountId: target.accountId,
+          chain: target.chain,
+          cursor: batch.cursor,
+          updatedAt: Date.now(),
+        });
+      }
+      return { count: batch.transactions.length, hasMore: batch.hasMore };
+    })().finally(() => {
+      this.inFlight.delete(key);
+    });
+
+    this.inFlight.set(key, run);
+    return run;
+  }
+}
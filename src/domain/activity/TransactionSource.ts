@@ -0,0 +1,35 @@
+/**
+ * TransactionSource
+ *
+ * Contract for chain-specific history readers. A source pulls the activity of
+ * one address on one chain that happened after an opaque cursor it produced
+ * on the previous run, so each sync only asks the chain for what is new.
+ */
+
+import type { Transaction } from './Transaction';
+
+export interface TransactionSyncTarget {
+  accountId: string;
+  address: string;
+  /** Display chain name the source is responsible for */
+  chain: string;
+}
+
+export interface TransactionBatch {
+  transactions: Transaction[];
+  /** Cursor to resume from next time; null leaves the stored cursor unchanged */
+  cursor: string | null;
+  /** True when the source stopped early and another run would find more */
+  hasMore: boolean;
+}
+
+export interface ITransactionSource {
+  /** Stable identifier, e.g. 'evm-logs' */
+  readonly id: string;
+
+  /** Whether this source can read history for the given chain */
+  supportsChain(chain: string): boolean;
+
+  /** Read activity after `cursor` (from the configured backfill start when null) */
+  fetchTransactions(target: TransactionSyncTarget, cursor: string | null, signal?: AbortSignal): Promise<TransactionBatch>;
+}
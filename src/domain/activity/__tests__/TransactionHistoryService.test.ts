@@ -0,0 +1,169 @@
+/**
+ * Tests for TransactionHistoryService
+ *
+ * Covers cursor handling, partial failures, filtering and paging against an
+ * in-memory repository and a scripted source.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  TransactionHistoryService,
+  type ITransactionRepository,
+  type SyncCursor,
+} from '../TransactionHistoryService';
+import { transactionId, type Transaction } from '../Transaction';
+import type { ITransactionSource, TransactionBatch, TransactionSyncTarget } from '../TransactionSource';
+
+class InMemoryTransactionRepository implements ITransactionRepository {
+  transactions = new Map<string, Transaction>();
+  cursors = new Map<string, SyncCursor>();
+
+  async saveMany(transactions: Transaction[]) {
+    transactions.forEach(t => this.transactions.set(t.id, t));
+  }
+
+  async findByAccounts(accountIds: string[] | null) {
+    return Array.from(this.transactions.values()).filter(t => !accountIds || accountIds.includes(t.accountId));
+  }
+
+  async getCursor(key: string) {
+    return this.cursors.get(key) ?? null;
+  }
+
+  async saveCursor(cursor: SyncCursor) {
+    this.cursors.set(cursor.key, cursor);
+  }
+
+  async deleteAccount(accountId: string) {
+    for (const [id, t] of this.transactions) if (t.accountId === accountId) this.transactions.delete(id);
+    for (const [key, c] of this.cursors) if (c.accountId === accountId) this.cursors.delete(key);
+  }
+
+  async clear() {
+    this.transactions.clear();
+    this.cursors.clear();
+  }
+}
+
+function tx(accountId: string, hash: string, timestamp: number, overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: transactionId(accountId, 'Ethereum', hash),
+    accountId,
+    chain: 'Ethereum',
+    hash,
+    timestamp,
+    block: timestamp,
+    kind: 'transfer',
+    direction: 'in',
+    status: 'success',
+    symbol: 'ETH',
+    amount: '1',
+    ...overrides,
+  };
+}
+
+/** Serves queued batches and records the cursor each call received */
+class FakeSource implements ITransactionSource {
+  readonly id = 'fake';
+  cursors: Array<string | null> = [];
+  batches: Array<TransactionBatch | Error> = [];
+
+  supportsChain(chain: string): boolean {
+    return chain === 'Ethereum';
+  }
+
+  async fetchTransactions(_target: TransactionSyncTarget, cursor: string | null): Promise<TransactionBatch> {
+    this.cursors.push(cursor);
+    const next = this.batches.shift();
+    if (!next) return { transactions: [], cursor: null, hasMore: false };
+    if (next instanceof Error) throw next;
+    return next;
+  }
+}
+
+const main: TransactionSyncTarget = { accountId: 'a1', address: '0xabc', chain: 'Ethereum' };
+const other: TransactionSyncTarget = { accountId: 'a2', address: '0xdef', chain: 'Ethereum' };
+
+describe('TransactionHistoryService', () => {
+  let source: FakeSource;
+  let service: TransactionHistoryService;
+
+  beforeEach(() => {
+    source = new FakeSource();
+    service = new TransactionHistoryService(new InMemoryTransactionRepository(), [source]);
+  });
+
+  it('resumes from the stored cursor and ingests idempotently', async () => {
+    source.batches.push(
+      { transactions: [tx('a1', '0x1', 1000), tx('a1', '0x2', 2000)], cursor: '100', hasMore: true },
+      { transactions: [tx('a1', '0x2', 2000), tx('a1', '0x3', 3000)], cursor: '200', hasMore: false }
+    );
+
+    const first = await service.sync([main]);
+    expect(first.value).toEqual({ ingested: 2, failures: [], pending: 1 });
+    await service.sync([main]);
+
+    expect(source.cursors).toEqual([null, '100']);
+    const page = await service.query();
+    expect(page.value.total).toBe(3);
+    expect(page.value.items.map(t => t.hash)).toEqual(['0x3', '0x2', '0x1']);
+  });
+
+  it('keeps the cursor when a source fails and reports partial failures', async () => {
+    source.batches.push(
+      { transactions: [tx('a1', '0x1', 1000)], cursor: '100', hasMore: false },
+      new Error('rate limited')
+    );
+
+    const result = await service.sync([main, other]);
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.failures).toEqual([{ accountId: 'a2', chain: 'Ethereum', message: 'rate limited' }]);
+
+    await service.sync([other]);
+    expect(source.cursors).toEqual([null, null, null]);
+  });
+
+  it('fails when every chain fails and skips unsupported chains', async () => {
+    source.batches.push(new Error('down'));
+    const result = await service.sync([main, { ...other, chain: 'Bitcoin' }]);
+    expect(result.isFailure).toBe(true);
+    expect(source.cursors).toHaveLength(1);
+  });
+
+  it('filters and pages stored activity', async () => {
+    source.batches.push({
+      transactions: [
+        tx('a1', '0x1', 1000, { symbol: 'USDC', direction: 'out' }),
+        tx('a1', '0x2', 2000),
+        tx('a1', '0x3', 3000, { symbol: 'USDC' }),
+        tx('a1', '0x4', 0, { timestamp: null }),
+      ],
+      cursor: '1',
+      hasMore: false,
+    });
+    await service.sync([main]);
+
+    const usdc = await service.query({ search: 'usdc' });
+    expect(usdc.value.items.map(t => t.hash)).toEqual(['0x3', '0x1']);
+
+    const outgoing = await service.query({ direction: 'out' });
+    expect(outgoing.value.total).toBe(1);
+
+    const second = await service.query({}, 2, 3);
+    expect(second.value.items.map(t => t.hash)).toEqual(['0x4']);
+    expect(second.value.total).toBe(4);
+
+    expect((await service.query({}, 0)).isFailure).toBe(true);
+  });
+
+  it('removes an account together with its cursor', async () => {
+    source.batches.push({ transactions: [tx('a1', '0x1', 1000)], cursor: '100', hasMore: false });
+    await service.sync([main]);
+
+    await service.removeAccount('a1');
+    expect((await service.query()).value.total).toBe(0);
+
+    await service.sync([main]);
+    expect(source.cursors).toEqual([null, null]);
+  });
+});
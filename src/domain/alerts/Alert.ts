@@ -0,0 +1,176 @@
+/**
+ * Alert
+ *
+ * User-defined alert rules on prices and the shape of the portfolio, checked
+ * after every price refresh. A rule fires when its condition starts to hold
+ * and stays quiet until the condition clears again, so a price hovering above
+ * a threshold notifies once. Snoozed rules are not checked until the snooze
+ * ends.
+ */
+
+import { getAssetCategory } from '../portfolio/AssetCategory';
+
+export type AlertCondition =
+  | { kind: 'price-above'; symbol: string; price: number }
+  | { kind: 'price-below'; symbol: string; price: number }
+  /** Portfolio value changed by `percent` (negative for a drop) over the window */
+  | { kind: 'portfolio-change'; percent: number; windowMs: number }
+  /** A single asset is more than `percent` of the portfolio */
+  | { kind: 'asset-concentration'; percent: number }
+  /** A held stablecoin trades below `price` */
+  | { kind: 'stablecoin-depeg'; price: number };
+
+export type AlertConditionKind = AlertCondition['kind'];
+
+export interface AlertRule {
+  id: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  createdAt: number;
+  /** Epoch ms until which the rule is not checked */
+  snoozedUntil?: number;
+  /** Whether the condition held when last checked; the rule fires when this turns true */
+  active: boolean;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  triggeredAt: number;
+  message: string;
+  read: boolean;
+}
+
+/** Valued holdings; several rows of one symbol count as one asset */
+export interface AlertHolding {
+  symbol: string;
+  valueUsd: number | null;
+}
+
+export interface AlertContext {
+  /** USD price per symbol */
+  prices: Record<string, number>;
+  holdings: AlertHolding[];
+  totalValue: number;
+  /** Portfolio value one window ago, by window length; absent when history is too short */
+  pastTotals: Record<number, number>;
+}
+
+export interface AlertEvaluation {
+  /** Whether each checked rule's condition holds now */
+  activeById: Record<string, boolean>;
+  events: AlertEvent[];
+}
+
+/** Alert history kept in the alert center */
+export const MAX_ALERT_HISTORY = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 4 });
+
+function formatUsd(value: number): string {
+  return usd.format(value);
+}
+
+function formatPercent(value: number): string {
+  return `${Number(value.toFixed(2))}%`;
+}
+
+export function formatAlertWindow(windowMs: number): string {
+  const hours = windowMs / HOUR_MS;
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
+/** Short description of a rule, e.g. "ETH above $4,000.00" */
+export function describeAlertCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case 'price-above': return `${condition.symbol} above ${formatUsd(condition.price)}`;
+    case 'price-below': return `${condition.symbol} below ${formatUsd(condition.price)}`;
+    case 'portfolio-change':
+      return `Portfolio ${condition.percent < 0 ? 'drops' : 'rises'} ${formatPercent(Math.abs(condition.percent))} in ${formatAlertWindow(condition.windowMs)}`;
+    case 'asset-concentration': return `Any asset above ${formatPercent(condition.percent)} of the portfolio`;
+    case 'stablecoin-depeg': return `A stablecoin below ${formatUsd(condition.price)}`;
+  }
+}
+
+/** Why the condition holds right now, null when it does not, undefined when it cannot be told yet */
+function checkCondition(condition: AlertCondition, context: AlertContext): string | null | undefined {
+  switch (condition.kind) {
+    case 'price-above':
+    case 'price-below': {
+      const price = context.prices[condition.symbol.toUpperCase()] ?? context.prices[condition.symbol];
+      if (!price) return undefined;
+      const holds = condition.kind === 'price-above' ? price > condition.price : price < condition.price;
+      return holds ? `${condition.symbol} is ${formatUsd(price)}, ${condition.kind === 'price-above' ? 'above' : 'below'} ${formatUsd(condition.price)}` : null;
+    }
+
+    case 'portfolio-change': {
+      const past = context.pastTotals[condition.windowMs];
+      if (!past || past <= 0) return undefined;
+      const change = ((context.totalValue - past) / past) * 100;
+      const holds = condition.percent < 0 ? change <= condition.percent : change >= condition.percent;
+      return holds
+        ? `Portfolio ${change < 0 ? 'fell' : 'rose'} ${formatPercent(Math.abs(change))} in ${formatAlertWindow(condition.windowMs)} to ${formatUsd(context.totalValue)}`
+        : null;
+    }
+
+    case 'asset-concentration': {
+      const bySymbol = new Map<string, number>();
+      let total = 0;
+      for (const { symbol, valueUsd } of context.holdings) {
+        if (!valueUsd || valueUsd <= 0) continue;
+        bySymbol.set(symbol, (bySymbol.get(symbol) ?? 0) + valueUsd);
+        total += valueUsd;
+      }
+      if (total === 0) return undefined;
+      const [symbol, value] = [...bySymbol].sort((a, b) => b[1] - a[1])[0];
+      const share = (value / total) * 100;
+      return share > condition.percent ? `${symbol} is ${formatPercent(share)} of the portfolio` : null;
+    }
+
+    case 'stablecoin-depeg': {
+      const held = new Set(context.holdings
+        .filter(holding => (holding.valueUsd ?? 0) > 0 && getAssetCategory(holding.symbol) === 'stablecoin')
+        .map(holding => holding.symbol));
+      const depegged = [...held]
+        .filter(symbol => context.prices[symbol] > 0 && context.prices[symbol] < condition.price)
+        .map(symbol => `${symbol} at ${formatUsd(context.prices[symbol])}`);
+      return depegged.length > 0 ? `Depegged: ${depegged.join(', ')}` : null;
+    }
+  }
+}
+
+/**
+ * Check every enabled, unsnoozed rule. A rule whose condition cannot be told
+ * yet (no price, not enough history) keeps its previous state.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  context: AlertContext,
+  now: number
+): AlertEvaluation {
+  const activeById: Record<string, boolean> = {};
+  const events: AlertEvent[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled || (rule.snoozedUntil !== undefined && rule.snoozedUntil > now)) continue;
+
+    const message = checkCondition(rule.condition, context);
+    if (message === undefined) continue;
+    activeById[rule.id] = message !== null;
+    if (message !== null && !rule.active) {
+      events.push({ id: `${rule.id}-${now}`, ruleId: rule.id, triggeredAt: now, message, read: false });
+    }
+  }
+
+  return { activeById, events };
+}
+
+/** The portfolio-change windows the rules need a past total for */
+export function alertWindows(rules: AlertRule[]): number[] {
+  const windows = rules
+    .filter(rule => rule.enabled && rule.condition.kind === 'portfolio-change')
+    .map(rule => (rule.condition as Extract<AlertCondition, { kind: 'portfolio-change' }>).windowMs);
+  return [...new Set(windows)];
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alertWindows,
+  describeAlertCondition,
+  evaluateAlertRules,
+  type AlertCondition,
+  type AlertContext,
+  type AlertRule,
+} from '../Alert';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+function rule(condition: AlertCondition, overrides: Partial<AlertRule> = {}): AlertRule {
+  return { id: 'rule-1', condition, enabled: true, createdAt: 0, active: false, ...overrides };
+}
+
+const context: AlertContext = {
+  prices: { ETH: 4100, USDC: 0.97, USDT: 1 },
+  holdings: [
+    { symbol: 'ETH', valueUsd: 4100 },
+    { symbol: 'ETH', valueUsd: 1000 },
+    { symbol: 'USDC', valueUsd: 970 },
+    { symbol: 'USDT', valueUsd: 500 },
+    { symbol: 'SPAM', valueUsd: null },
+  ],
+  totalValue: 6570,
+  pastTotals: { [DAY_MS]: 8000 },
+};
+
+describe('evaluateAlertRules', () => {
+  it('fires a price rule when its threshold is crossed', () => {
+    const above = evaluateAlertRules([rule({ kind: 'price-above', symbol: 'ETH', price: 4000 })], context, NOW);
+    expect(above.activeById).toEqual({ 'rule-1': true });
+    expect(above.events).toHaveLength(1);
+    expect(above.events[0]).toMatchObject({ ruleId: 'rule-1', triggeredAt: NOW, read: false });
+    expect(above.events[0].message).toContain('ETH is $4,100.00');
+
+    const below = evaluateAlertRules([rule({ kind: 'price-below', symbol: 'eth', price: 4000 })], context, NOW);
+    expect(below.activeById).toEqual({ 'rule-1': false });
+    expect(below.events).toEqual([]);
+  });
+
+  it('fires only when the condition starts to hold', () => {
+    const condition: AlertCondition = { kind: 'price-above', symbol: 'ETH', price: 4000 };
+
+    const stillActive = evaluateAlertRules([rule(condition, { active: true })], context, NOW);
+    expect(stillActive.activeById).toEqual({ 'rule-1': true });
+    expect(stillActive.events).toEqual([]);
+
+    const cleared = evaluateAlertRules(
+      [rule(condition, { active: true })],
+      { ...context, prices: { ETH: 3900 } },
+      NOW
+    );
+    expect(cleared.activeById).toEqual({ 'rule-1': false });
+  });
+
+  it('compares the portfolio with its value one window ago', () => {
+    const drop = evaluateAlertRules(
+      [rule({ kind: 'portfolio-change', percent: -10, windowMs: DAY_MS })],
+      context,
+      NOW
+    );
+    expect(drop.events[0].message).toBe('Portfolio fell 17.88% in 1d to $6,570.00');
+
+    const rise = evaluateAlertRules(
+      [rule({ kind: 'portfolio-change', percent: 10, windowMs: DAY_MS })],
+      context,
+      NOW
+    );
+    expect(rise.activeById).toEqual({ 'rule-1': false });
+  });
+
+  it('keeps the previous state when the condition cannot be told', () => {
+    const evaluation = evaluateAlertRules(
+      [
+        rule({ kind: 'portfolio-change', percent: -10, windowMs: 7 * DAY_MS }, { id: 'history', active: true }),
+        rule({ kind: 'price-above', symbol: 'BTC', price: 100000 }, { id: 'unpriced' }),
+      ],
+      context,
+      NOW
+    );
+
+    expect(evaluation).toEqual({ activeById: {}, events: [] });
+  });
+
+  it('adds up holdings of one symbol for concentration', () => {
+    const evaluation = evaluateAlertRules([rule({ kind: 'asset-concentration', percent: 40 })], context, NOW);
+
+    expect(evaluation.events[0].message).toBe('ETH is 77.63% of the portfolio');
+  });
+
+  it('reports held stablecoins trading below the peg threshold', () => {
+    const evaluation = evaluateAlertRules([rule({ kind: 'stablecoin-depeg', price: 0.98 })], context, NOW);
+
+    expect(evaluation.events[0].message).toBe('Depegged: USDC at $0.97');
+  });
+
+  it('skips disabled rules and rules snoozed past now', () => {
+    const condition: AlertCondition = { kind: 'price-above', symbol: 'ETH', price: 4000 };
+    const evaluation = evaluateAlertRules(
+      [
+        rule(condition, { id: 'disabled', enabled: false }),
+        rule(condition, { id: 'snoozed', snoozedUntil: NOW + 1 }),
+        rule(condition, { id: 'snooze-over', snoozedUntil: NOW }),
+      ],
+      context,
+      NOW
+    );
+
+    expect(evaluation.activeById).toEqual({ 'snooze-over': true });
+    expect(evaluation.events.map(event => event.ruleId)).toEqual(['snooze-over']);
+  });
+});
+
+describe('alertWindows', () => {
+  it('lists the distinct windows of enabled portfolio-change rules', () => {
+    const rules = [
+      rule({ kind: 'portfolio-change', percent: -10, windowMs: DAY_MS }, { id: 'a' }),
+      rule({ kind: 'portfolio-change', percent: 10, windowMs: DAY_MS }, { id: 'b' }),
+      rule({ kind: 'portfolio-change', percent: -5, windowMs: 7 * DAY_MS }, { id: 'c', enabled: false }),
+      rule({ kind: 'price-above', symbol: 'ETH', price: 1 }, { id: 'd' }),
+    ];
+
+    expect(alertWindows(rules)).toEqual([DAY_MS]);
+  });
+});
+
+describe('describeAlertCondition', () => {
+  it('describes each kind of rule', () => {
+    expect(describeAlertCondition({ kind: 'price-above', symbol: 'ETH', price: 4000 })).toBe('ETH above $4,000.00');
+    expect(describeAlertCondition({ kind: 'portfolio-change', percent: -10, windowMs: DAY_MS }))
+      .toBe('Portfolio drops 10% in 1d');
+    expect(describeAlertCondition({ kind: 'asset-concentration', percent: 40 }))
+      .toBe('Any asset above 40% of the portfolio');
+    expect(describeAlertCondition({ kind: 'stablecoin-depeg', price: 0.98 })).toBe('A stablecoin below $0.98');
+  });
+});
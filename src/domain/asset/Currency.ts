@@ -0,0 +1,90 @@
+/**
+ * Currency
+ *
+ * Base currencies the portfolio can be displayed in. Balances and prices are
+ * valued in USD throughout the app and converted for display with an exchange
+ * rate quoted as units of the base currency per US dollar. Fiat currencies use
+ * the locale currency format; BTC and ETH are denominations shown with their
+ * ticker.
+ */
+
+export const BASE_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'BTC', 'ETH'] as const;
+export type BaseCurrency = (typeof BASE_CURRENCIES)[number];
+
+export const DEFAULT_BASE_CURRENCY: BaseCurrency = 'USD';
+
+export interface CurrencyInfo {
+  name: string;
+  kind: 'fiat' | 'crypto';
+  /** Fraction digits shown for amounts */
+  decimals: number;
+}
+
+export const CURRENCY_INFO: Record<BaseCurrency, CurrencyInfo> = {
+  USD: { name: 'US Dollar', kind: 'fiat', decimals: 2 },
+  EUR: { name: 'Euro', kind: 'fiat', decimals: 2 },
+  GBP: { name: 'British Pound', kind: 'fiat', decimals: 2 },
+  JPY: { name: 'Japanese Yen', kind: 'fiat', decimals: 0 },
+  CHF: { name: 'Swiss Franc', kind: 'fiat', decimals: 2 },
+  CAD: { name: 'Canadian Dollar', kind: 'fiat', decimals: 2 },
+  BTC: { name: 'Bitcoin', kind: 'crypto', decimals: 6 },
+  ETH: { name: 'Ether', kind: 'crypto', decimals: 5 },
+};
+
+/** A USD exchange rate as last fetched */
+export interface ExchangeRate {
+  currency: BaseCurrency;
+  /** Units of `currency` per US dollar */
+  rate: number;
+  /** ISO timestamp of the fetch */
+  updatedAt: string;
+}
+
+export function isBaseCurrency(value: unknown): value is BaseCurrency {
+  return typeof value === 'string' && (BASE_CURRENCIES as readonly string[]).includes(value);
+}
+
+export interface FormatCurrencyOptions {
+  /** Prefix positive amounts with '+' (for P&L and changes) */
+  signed?: boolean;
+  /** Thousands separators; on by default */
+  grouping?: boolean;
+  /** Override the currency's fraction digits */
+  decimals?: number;
+  /** Short form for chart axes, e.g. $1.2K */
+  compact?: boolean;
+}
+
+/**
+ * Format an amount already expressed in `currency`
+ */
+export function formatCurrency(
+  amount: number,
+  currency: BaseCurrency,
+  options: FormatCurrencyOptions = {}
+): string {
+  const info = CURRENCY_INFO[currency];
+  const decimals = options.decimals ?? info.decimals;
+  const signDisplay = options.signed ? 'exceptZero' : 'auto';
+
+  if (info.kind === 'fiat') {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      signDisplay,
+      useGrouping: options.grouping ?? true,
+      ...(options.compact
+        ? { notation: 'compact', maximumFractionDigits: 1 }
+        : { minimumFractionDigits: decimals, maximumFractionDigits: decimals }),
+    }).format(amount);
+  }
+
+  const number = new Intl.NumberFormat('en-US', {
+    signDisplay,
+    useGrouping: options.grouping ?? true,
+    ...(options.compact
+      ? { notation: 'compact', maximumFractionDigits: 2 }
+      : { minimumFractionDigits: decimals, maximumFractionDigits: decimals }),
+  }).format(amount);
+  return `${number} ${currency}`;
+}
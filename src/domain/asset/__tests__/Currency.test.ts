@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { formatCurrency, isBaseCurrency } from '../Currency';
+
+describe('formatCurrency', () => {
+  it('formats fiat with its symbol and fraction digits', () => {
+    expect(formatCurrency(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatCurrency(1234.5, 'EUR', { grouping: false })).toBe('€1234.50');
+    expect(formatCurrency(1234.5, 'JPY')).toBe('¥1,235');
+  });
+
+  it('shows crypto denominations with their ticker', () => {
+    expect(formatCurrency(0.0123456789, 'BTC')).toBe('0.012346 BTC');
+    expect(formatCurrency(-2, 'ETH')).toBe('-2.00000 ETH');
+  });
+
+  it('signs P&L and shortens axis labels', () => {
+    expect(formatCurrency(12.5, 'GBP', { signed: true })).toBe('+£12.50');
+    expect(formatCurrency(-12.5, 'GBP', { signed: true })).toBe('-£12.50');
+    expect(formatCurrency(0, 'GBP', { signed: true })).toBe('£0.00');
+    expect(formatCurrency(1250, 'USD', { compact: true })).toBe('$1.3K');
+  });
+});
+
+describe('isBaseCurrency', () => {
+  it('accepts only the supported currencies', () => {
+    expect(isBaseCurrency('CHF')).toBe(true);
+    expect(isBaseCurrency('chf')).toBe(false);
+    expect(isBaseCurrency(undefined)).toBe(false);
+  });
+});
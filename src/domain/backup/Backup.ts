@@ -0,0 +1,317 @@
+/**
+ * Backup
+ *
+ * Portable snapshot of the user's configuration: accounts with their token
+ * lists, app settings and custom RPC endpoints. The helpers below validate a
+ * decrypted backup and plan how it is applied, either merged into the current
+ * configuration or replacing it.
+ */
+
+import { Result } from '../shared/Result';
+import { ValidationError } from '../shared/DomainError';
+
+export const BACKUP_VERSION = 1;
+
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  chainId: number;
+}
+
+/** Fields a backed-up account must have; anything else is carried along untouched */
+export interface BackupAccount {
+  id: string;
+  type: string;
+  platform: string;
+  label: string;
+  status: string;
+  address?: string;
+  apiKey?: string;
+  apiSecret?: string;
+  tokens?: BackupToken[];
+}
+
+export interface BackupRpcEndpoint {
+  url: string;
+  name: string;
+}
+
+/** Custom endpoints and the active endpoint per chain, as kept by the RPC configuration */
+export type BackupRpcConfig = Record<string, {
+  customEndpoints: BackupRpcEndpoint[];
+  activeEndpoint?: string;
+}>;
+
+export interface BackupSettings {
+  selectedAccountIds: string[] | null;
+}
+
+export interface BackupPayload<A extends BackupAccount = BackupAccount> {
+  version: number;
+  environment: string;
+  createdAt: string;
+  accounts: A[];
+  settings: BackupSettings;
+  rpc: BackupRpcConfig;
+}
+
+export interface BackupState<A extends BackupAccount = BackupAccount> {
+  accounts: A[];
+  settings: BackupSettings;
+  rpc: BackupRpcConfig;
+}
+
+export interface BackupImportSummary {
+  accountsAdded: number;
+  accountsMerged: number;
+  accountsRemoved: number;
+  /** Tokens that end up tracked because of the import */
+  tokensImported: number;
+  endpointsImported: number;
+  secretsIncluded: number;
+}
+
+export interface BackupImportPlan<A extends BackupAccount = BackupAccount> {
+  state: BackupState<A>;
+  summary: BackupImportSummary;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function validateToken(value: unknown, path: string): ValidationError | null {
+  if (!isRecord(value)
+    || !isString(value.address) || !isString(value.symbol) || !isString(value.name)
+    || typeof value.decimals !== 'number' || typeof value.chainId !== 'number') {
+    return new ValidationError(`${path} is not a valid token`, 'backup', path);
+  }
+  return null;
+}
+
+function validateAccount(value: unknown, path: string): ValidationError | null {
+  if (!isRecord(value)) {
+    return new ValidationError(`${path} is not an object`, 'backup', path);
+  }
+  for (const field of ['id', 'type', 'platform', 'label', 'status']) {
+    if (!isString(value[field]) || !value[field]) {
+      return new ValidationError(`${path}.${field} is missing`, 'backup', `${path}.${field}`);
+    }
+  }
+  for (const field of ['address', 'apiKey', 'apiSecret']) {
+    if (value[field] !== undefined && !isString(value[field])) {
+      return new ValidationError(`${path}.${field} must be a string`, 'backup', `${path}.${field}`);
+    }
+  }
+  if (value.tokens !== undefined) {
+    if (!Array.isArray(value.tokens)) {
+      return new ValidationError(`${path}.tokens must be a list`, 'backup', `${path}.tokens`);
+    }
+    for (const [index, token] of value.tokens.entries()) {
+      const invalid = validateToken(token, `${path}.tokens[${index}]`);
+      if (invalid) return invalid;
+    }
+  }
+  return null;
+}
+
+function validateRpc(value: unknown): ValidationError | null {
+  if (!isRecord(value)) {
+    return new ValidationError('rpc must be an object', 'backup', 'rpc');
+  }
+  for (const [chain, config] of Object.entries(value)) {
+    const path = `rpc.${chain}`;
+    if (!isRecord(config) || !Array.isArray(config.customEndpoints)) {
+      return new ValidationError(`${path}.customEndpoints must be a list`, 'backup', path);
+    }
+    if (config.activeEndpoint !== undefined && !isString(config.activeEndpoint)) {
+      return new ValidationError(`${path}.activeEndpoint must be a string`, 'backup', path);
+    }
+    for (const endpoint of config.customEndpoints) {
+      if (!isRecord(endpoint) || !isString(endpoint.url) || !isString(endpoint.name) || !/^(https?|wss?):\/\//.test(endpoint.url)) {
+        return new ValidationError(`${path} has an invalid endpoint`, 'backup', path);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check that decrypted backup content has the expected shape before anything is applied
+ */
+export function validateBackupPayload(value: unknown): Result<BackupPayload, ValidationError> {
+  if (!isRecord(value)) {
+    return Result.failure(new ValidationError('Backup content is not an object', 'backup'));
+  }
+  if (value.version !== BACKUP_VERSION) {
+    return Result.failure(new ValidationError(`Unsupported backup version ${String(value.version)}`, 'backup', value.version));
+  }
+  if (!isString(value.environment) || !isString(value.createdAt) || Number.isNaN(Date.parse(value.createdAt))) {
+    return Result.failure(new ValidationError('Backup header is incomplete', 'backup'));
+  }
+  if (!Array.isArray(value.accounts)) {
+    return Result.failure(new ValidationError('accounts must be a list', 'backup', 'accounts'));
+  }
+  for (const [index, account] of value.accounts.entries()) {
+    const invalid = validateAccount(account, `accounts[${index}]`);
+    if (invalid) return Result.failure(invalid);
+  }
+
+  const settings = value.settings;
+  if (!isRecord(settings)
+    || !(settings.selectedAccountIds === null
+      || (Array.isArray(settings.selectedAccountIds) && settings.selectedAccountIds.every(isString)))) {
+    return Result.failure(new ValidationError('settings.selectedAccountIds is invalid', 'backup', 'settings'));
+  }
+
+  const invalidRpc = validateRpc(value.rpc);
+  if (invalidRpc) return Result.failure(invalidRpc);
+
+  return Result.success(value as unknown as BackupPayload);
+}
+
+/**
+ * Identity used to spot the same account in two configurations: wallets by
+ * address and chain, exchanges by platform and API key, anything else by id.
+ */
+export function accountDedupKey(account: BackupAccount): string {
+  if (account.address) return `address:${account.platform.toLowerCase()}:${account.address.toLowerCase()}`;
+  if (account.apiKey) return `key:${account.platform.toLowerCase()}:${account.apiKey}`;
+  return `id:${account.id}`;
+}
+
+function mergeTokens(current: BackupToken[] = [], incoming: BackupToken[] = []): BackupToken[] {
+  const seen = new Set(current.map(token => `${token.chainId}:${token.address.toLowerCase()}`));
+  const added = incoming.filter(token => {
+    const key = `${token.chainId}:${token.address.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...current, ...added];
+}
+
+function mergeRpc(current: BackupRpcConfig, incoming: BackupRpcConfig): { rpc: BackupRpcConfig; added: number } {
+  const rpc: BackupRpcConfig = { ...current };
+  let added = 0;
+  for (const [chain, config] of Object.entries(incoming)) {
+    const existing = rpc[chain] ?? { customEndpoints: [] };
+    const urls = new Set(existing.customEndpoints.map(endpoint => endpoint.url));
+    const newEndpoints = config.customEndpoints.filter(endpoint => {
+      if (urls.has(endpoint.url)) return false;
+      urls.add(endpoint.url);
+      return true;
+    });
+    added += newEndpoints.length;
+    rpc[chain] = {
+      customEndpoints: [...existing.customEndpoints, ...newEndpoints],
+      activeEndpoint: existing.activeEndpoint ?? config.activeEndpoint,
+    };
+  }
+  return { rpc, added };
+}
+
+function dedupeAccounts<A extends BackupAccount>(accounts: A[]): A[] {
+  const byKey = new Map<string, A>();
+  for (const account of accounts) {
+    const key = accountDedupKey(account);
+    const existing = byKey.get(key);
+    byKey.set(key, existing ? { ...existing, tokens: mergeTokens(existing.tokens, account.tokens) } : account);
+  }
+  return Array.from(byKey.values());
+}
+
+/**
+ * Work out the configuration that results from importing a backup. Merge keeps
+ * every current account and setting, adding what the backup has on top;
+ * replace takes the backup as is. Duplicate accounts are collapsed either way.
+ */
+export function planBackupImport<A extends BackupAccount>(
+  current: BackupState<A>,
+  backup: BackupPayload<A>,
+  mode: BackupImportMode
+): BackupImportPlan<A> {
+  const secretsIncluded = backup.accounts.filter(account => account.apiKey || account.apiSecret).length;
+
+  if (mode === 'replace') {
+    const tokenCount = (accounts: A[]) => accounts.reduce((sum, account) => sum + (account.tokens?.length ?? 0), 0);
+    const accounts = dedupeAccounts(backup.accounts);
+    const incomingKeys = new Set(accounts.map(accountDedupKey));
+    const currentKeys = new Set(current.accounts.map(accountDedupKey));
+    const accountIds = new Set(accounts.map(account => account.id));
+    const selected = backup.settings.selectedAccountIds?.filter(id => accountIds.has(id)) ?? null;
+
+    return {
+      state: {
+        accounts,
+        settings: { selectedAccountIds: selected },
+        rpc: backup.rpc,
+      },
+      summary: {
+        accountsAdded: accounts.filter(account => !currentKeys.has(accountDedupKey(account))).length,
+        accountsMerged: accounts.filter(account => currentKeys.has(accountDedupKey(account))).length,
+        accountsRemoved: current.accounts.filter(account => !incomingKeys.has(accountDedupKey(account))).length,
+        tokensImported: tokenCount(accounts),
+        endpointsImported: Object.values(backup.rpc).reduce((sum, config) => sum + config.customEndpoints.length, 0),
+        secretsIncluded,
+      },
+    };
+  }
+
+  const accounts = [...current.accounts];
+  const indexByKey = new Map(accounts.map((account, index) => [accountDedupKey(account), index]));
+  const ids = new Set(accounts.map(account => account.id));
+  let accountsAdded = 0;
+  let accountsMerged = 0;
+  let tokensAdded = 0;
+
+  for (const account of dedupeAccounts(backup.accounts)) {
+    const key = accountDedupKey(account);
+    const index = indexByKey.get(key);
+    if (index === undefined) {
+      // Ids only need to be unique locally; rename rather than clobber an unrelated account
+      const id = ids.has(account.id) ? `${account.id}-restored` : account.id;
+      ids.add(id);
+      indexByKey.set(key, accounts.length);
+      accounts.push({ ...account, id });
+      accountsAdded += 1;
+      tokensAdded += account.tokens?.length ?? 0;
+      continue;
+    }
+
+    const existing = accounts[index];
+    const tokens = mergeTokens(existing.tokens, account.tokens);
+    tokensAdded += tokens.length - (existing.tokens?.length ?? 0);
+    accounts[index] = {
+      ...existing,
+      tokens,
+      apiKey: existing.apiKey ?? account.apiKey,
+      apiSecret: existing.apiSecret ?? account.apiSecret,
+    };
+    accountsMerged += 1;
+  }
+
+  const { rpc, added } = mergeRpc(current.rpc, backup.rpc);
+
+  return {
+    state: { accounts, settings: current.settings, rpc },
+    summary: {
+      accountsAdded,
+      accountsMerged,
+      accountsRemoved: 0,
+      tokensImported: tokensAdded,
+      endpointsImported: added,
+      secretsIncluded,
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BACKUP_VERSION,
+  planBackupImport,
+  validateBackupPayload,
+  type BackupAccount,
+  type BackupPayload,
+  type BackupState,
+} from '../Backup';
+
+const usdc = { address: '0xA0b8', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 1 };
+const dai = { address: '0x6B17', symbol: 'DAI', name: 'Dai', decimals: 18, chainId: 1 };
+
+const current: BackupState = {
+  accounts: [
+    { id: 'wallet-1', type: 'wallet', platform: 'Ethereum', label: 'Main', status: 'connected', address: '0xAbC', tokens: [usdc] },
+    { id: 'wallet-2', type: 'wallet', platform: 'Solana', label: 'Phantom', status: 'connected', address: 'So1' },
+  ],
+  settings: { selectedAccountIds: ['wallet-1'] },
+  rpc: { ethereum: { customEndpoints: [{ url: 'https://eth.example', name: 'Mine' }], activeEndpoint: 'https://eth.example' } },
+};
+
+function backupWith(accounts: BackupAccount[], rpc: BackupPayload['rpc'] = {}): BackupPayload {
+  return {
+    version: BACKUP_VERSION,
+    environment: 'production',
+    createdAt: '2026-10-01T00:00:00.000Z',
+    accounts,
+    settings: { selectedAccountIds: null },
+    rpc,
+  };
+}
+
+describe('validateBackupPayload', () => {
+  it('accepts a well-formed backup', () => {
+    expect(validateBackupPayload(backupWith(current.accounts, current.rpc)).isSuccess).toBe(true);
+  });
+
+  it('rejects unknown versions and malformed accounts', () => {
+    expect(validateBackupPayload({ ...backupWith([]), version: 99 }).error.message).toContain('version 99');
+
+    const result = validateBackupPayload(backupWith([{ id: 'x', type: 'wallet' } as BackupAccount]));
+    expect(result.isFailure).toBe(true);
+    expect(result.error.message).toBe('accounts[0].platform is missing');
+  });
+
+  it('rejects endpoints that are not http or websocket URLs', () => {
+    const result = validateBackupPayload(backupWith([], {
+      ethereum: { customEndpoints: [{ url: 'javascript:alert(1)', name: 'Bad' }] },
+    }));
+    expect(result.error.message).toBe('rpc.ethereum has an invalid endpoint');
+  });
+});
+
+describe('planBackupImport', () => {
+  it('merges duplicate accounts by address and chain, combining token lists', () => {
+    const backup = backupWith(
+      [
+        { id: 'other-id', type: 'wallet', platform: 'Ethereum', label: 'Imported', status: 'connected', address: '0xabc', tokens: [usdc, dai] },
+        { id: 'wallet-2', type: 'wallet', platform: 'Polygon', label: 'Same id, other wallet', status: 'connected', address: '0xdef' },
+      ],
+      {
+        ethereum: { customEndpoints: [{ url: 'https://eth.example', name: 'Mine' }, { url: 'https://eth2.example', name: 'Backup' }] },
+        base: { customEndpoints: [{ url: 'https://base.example', name: 'Base' }], activeEndpoint: 'https://base.example' },
+      }
+    );
+
+    const { state, summary } = planBackupImport(current, backup, 'merge');
+
+    expect(state.accounts.map(a => a.id)).toEqual(['wallet-1', 'wallet-2', 'wallet-2-restored']);
+    expect(state.accounts[0].label).toBe('Main');
+    expect(state.accounts[0].tokens?.map(t => t.symbol)).toEqual(['USDC', 'DAI']);
+    expect(state.settings).toEqual(current.settings);
+    expect(state.rpc.ethereum).toEqual({
+      customEndpoints: [{ url: 'https://eth.example', name: 'Mine' }, { url: 'https://eth2.example', name: 'Backup' }],
+      activeEndpoint: 'https://eth.example',
+    });
+    expect(state.rpc.base.activeEndpoint).toBe('https://base.example');
+    expect(summary).toEqual({
+      accountsAdded: 1,
+      accountsMerged: 1,
+      accountsRemoved: 0,
+      tokensImported: 1,
+      endpointsImported: 2,
+      secretsIncluded: 0,
+    });
+  });
+
+  it('replaces the configuration and keeps only selections that still exist', () => {
+    const backup = {
+      ...backupWith([
+        { id: 'wallet-9', type: 'wallet', platform: 'Ethereum', label: 'Main', status: 'connected', address: '0xABC' },
+        { id: 'cex-1', type: 'cex', platform: 'Kraken', label: 'Kraken', status: 'connected', apiKey: 'k', apiSecret: 's' },
+      ]),
+      settings: { selectedAccountIds: ['wallet-9', 'gone'] },
+    };
+
+    const { state, summary } = planBackupImport(current, backup, 'replace');
+
+    expect(state.accounts.map(a => a.id)).toEqual(['wallet-9', 'cex-1']);
+    expect(state.settings.selectedAccountIds).toEqual(['wallet-9']);
+    expect(state.rpc).toEqual({});
+    expect(summary.accountsAdded).toBe(1);
+    expect(summary.accountsMerged).toBe(1);
+    expect(summary.accountsRemoved).toBe(1);
+    expect(summary.secretsIncluded).toBe(1);
+  });
+});
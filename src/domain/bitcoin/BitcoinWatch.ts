@@ -0,0 +1,111 @@
+/**
+ * BitcoinWatch
+ *
+ * Watch-only Bitcoin accounts. An account follows either one address or an
+ * extended public key (xpub, ypub or zpub), whose receive and change chains
+ * are walked until a run of unused addresses as long as the gap limit is
+ * found, the way wallets recover a seed. Balances are counted in satoshis and
+ * only turned into BTC for display.
+ */
+
+/** Output script of the addresses an account holds */
+export type BitcoinScriptType = 'p2pkh' | 'p2sh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2wsh' | 'p2tr';
+
+export type ExtendedKeyPrefix = 'xpub' | 'ypub' | 'zpub';
+
+/** Addresses an extended key stands for, per SLIP-132 */
+export const EXTENDED_KEY_SCRIPT_TYPES: Record<ExtendedKeyPrefix, BitcoinScriptType> = {
+  xpub: 'p2pkh',
+  ypub: 'p2sh-p2wpkh',
+  zpub: 'p2wpkh',
+};
+
+export type BitcoinWatchTarget =
+  | { kind: 'address'; address: string; scriptType: BitcoinScriptType }
+  | { kind: 'extended-key'; key: string; scriptType: BitcoinScriptType };
+
+/** BIP44 chains below an account key: 0 for receiving, 1 for change */
+export type BitcoinAddressChain = 'receive' | 'change';
+
+export const BITCOIN_CHAIN_INDEX: Record<BitcoinAddressChain, number> = {
+  receive: 0,
+  change: 1,
+};
+
+/** Consecutive unused addresses after which a chain is assumed to end (BIP44) */
+export const DEFAULT_GAP_LIMIT = 20;
+
+export const SATS_PER_BTC = 100_000_000;
+
+/** On-chain and mempool activity of one address */
+export interface AddressActivity {
+  address: string;
+  txCount: number;
+  fundedSats: number;
+  spentSats: number;
+}
+
+export interface BitcoinUtxo {
+  txid: string;
+  vout: number;
+  address: string;
+  valueSats: number;
+  confirmed: boolean;
+}
+
+export interface ScannedAddress extends AddressActivity {
+  chain: BitcoinAddressChain;
+  index: number;
+}
+
+export interface ChainScan {
+  /** Addresses with at least one transaction */
+  used: ScannedAddress[];
+  /** First index after the last used address */
+  nextIndex: number;
+}
+
+export function balanceOf(activity: AddressActivity): number {
+  return activity.fundedSats - activity.spentSats;
+}
+
+/**
+ * Walk one chain of an extended key in batches of `gapLimit` addresses until
+ * `gapLimit` addresses in a row have never been used
+ */
+export async function scanAddressChain(
+  chain: BitcoinAddressChain,
+  deriveAddress: (index: number) => string,
+  getActivity: (addresses: string[]) => Promise<AddressActivity[]>,
+  gapLimit: number = DEFAULT_GAP_LIMIT
+): Promise<ChainScan> {
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    throw new RangeError(`Gap limit must be a positive integer, got ${gapLimit}`);
+  }
+
+  const used: ScannedAddress[] = [];
+  let nextIndex = 0;
+  let start = 0;
+
+  while (start - nextIndex < gapLimit) {
+    const indexes = Array.from({ length: gapLimit }, (_, i) => start + i);
+    const activity = await getActivity(indexes.map(deriveAddress));
+    activity.forEach((entry, i) => {
+      if (entry.txCount === 0) return;
+      used.push({ ...entry, chain, index: indexes[i] });
+      nextIndex = indexes[i] + 1;
+    });
+    start += gapLimit;
+  }
+
+  return { used, nextIndex };
+}
+
+/** Satoshis as a BTC amount without trailing zeros, e.g. 150000 → "0.0015" */
+export function formatSats(sats: number): string {
+  const sign = sats < 0 ? '-' : '';
+  const abs = Math.abs(Math.round(sats));
+  const whole = Math.floor(abs / SATS_PER_BTC);
+  const fraction = String(abs % SATS_PER_BTC).padStart(8, '0').replace(/0+$/, '');
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatSats, scanAddressChain, type AddressActivity } from '../BitcoinWatch';
+
+function activityFor(usedIndexes: number[]) {
+  return vi.fn(async (addresses: string[]): Promise<AddressActivity[]> => addresses.map(address => {
+    const used = usedIndexes.includes(Number(address.slice(5)));
+    return { address, txCount: used ? 1 : 0, fundedSats: used ? 1000 : 0, spentSats: 0 };
+  }));
+}
+
+const derive = (index: number) => `addr-${index}`;
+
+describe('scanAddressChain', () => {
+  it('stops after one batch when nothing is used', async () => {
+    const getActivity = activityFor([]);
+
+    const scan = await scanAddressChain('receive', derive, getActivity, 5);
+
+    expect(scan).toEqual({ used: [], nextIndex: 0 });
+    expect(getActivity).toHaveBeenCalledTimes(1);
+    expect(getActivity).toHaveBeenCalledWith(['addr-0', 'addr-1', 'addr-2', 'addr-3', 'addr-4']);
+  });
+
+  it('keeps going until a full gap of unused addresses follows the last used one', async () => {
+    const getActivity = activityFor([0, 3, 7]);
+
+    const scan = await scanAddressChain('change', derive, getActivity, 5);
+
+    expect(scan.used.map(address => [address.chain, address.index])).toEqual([
+      ['change', 0],
+      ['change', 3],
+      ['change', 7],
+    ]);
+    expect(scan.nextIndex).toBe(8);
+    // Indexes 8-12 have to be checked before giving up, which takes a third batch
+    expect(getActivity).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not look past the gap limit', async () => {
+    const getActivity = activityFor([0, 9]);
+
+    const scan = await scanAddressChain('receive', derive, getActivity, 4);
+
+    expect(scan.used.map(address => address.index)).toEqual([0]);
+    expect(scan.nextIndex).toBe(1);
+  });
+
+  it('rejects a gap limit below one', async () => {
+    await expect(scanAddressChain('receive', derive, activityFor([]), 0)).rejects.toThrow(RangeError);
+  });
+});
+
+describe('formatSats', () => {
+  it('formats satoshis as BTC without float noise', () => {
+    expect(formatSats(0)).toBe('0');
+    expect(formatSats(1)).toBe('0.00000001');
+    expect(formatSats(150_000)).toBe('0.0015');
+    expect(formatSats(2_100_000_000_000_000)).toBe('21000000');
+    expect(formatSats(-50_000_000)).toBe('-0.5');
+  });
+});
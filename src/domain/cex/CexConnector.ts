@@ -0,0 +1,51 @@
+/**
+ * CexConnector
+ *
+ * Contract for read-only centralized-exchange balance adapters. Connectors
+ * only ever call balance endpoints; keys should be created without trading or
+ * withdrawal permissions.
+ */
+
+import type { Result } from '../shared/Result';
+import type { DomainError } from '../shared/DomainError';
+
+export const CEX_PLATFORMS = ['Coinbase', 'Kraken', 'Binance', 'Gemini'] as const;
+
+export type CexPlatform = typeof CEX_PLATFORMS[number];
+
+export interface CexCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+export interface CexBalance {
+  /** Normalized ticker, e.g. BTC rather than Kraken's XXBT */
+  symbol: string;
+  /** Total held including amounts on hold or in earn products, as a decimal string */
+  amount: string;
+}
+
+export interface CexConnector {
+  readonly platform: CexPlatform;
+  fetchBalances(credentials: CexCredentials, signal?: AbortSignal): Promise<Result<CexBalance[], DomainError>>;
+}
+
+export function isCexPlatform(platform: string): platform is CexPlatform {
+  return (CEX_PLATFORMS as readonly string[]).includes(platform);
+}
+
+/**
+ * Sum balances per symbol and drop empty ones. Exchanges can report the same
+ * asset several times (spot and earn wallets, legacy and new tickers).
+ */
+export function mergeCexBalances(balances: CexBalance[]): CexBalance[] {
+  const totals = new Map<string, number>();
+  for (const { symbol, amount } of balances) {
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value)) continue;
+    totals.set(symbol, (totals.get(symbol) ?? 0) + value);
+  }
+  return Array.from(totals.entries())
+    .filter(([, total]) => total > 0)
+    .map(([symbol, total]) => ({ symbol, amount: total.toString() }));
+}
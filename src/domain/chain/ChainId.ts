@@ -7,101 +7,35 @@
 
 import { ValueObject } from '../shared/ValueObject';
 import { ValidationError } from '../shared/DomainError';
+import { CHAIN_REGISTRY, type ChainCategory, type ChainKey } from './ChainRegistry';
 
-export type SupportedChainType = 
-  | 'ethereum' 
-  | 'polygon' 
-  | 'arbitrum' 
-  | 'optimism' 
-  | 'bsc' 
-  | 'avalanche' 
-  | 'base' 
-  | 'solana' 
-  | 'sui';
+export type SupportedChainType = ChainKey;
 
 export interface ChainInfo {
   name: string;
   symbol: string;
   numericId?: number;
   isEvm: boolean;
-  category: 'evm' | 'solana' | 'sui';
+  category: ChainCategory;
 }
 
 export class ChainId extends ValueObject<SupportedChainType> {
-  private static readonly CHAIN_INFO_MAP: Record<SupportedChainType, ChainInfo> = {
-    ethereum: { 
-      name: 'Ethereum', 
-      symbol: 'ETH', 
-      numericId: 1, 
-      isEvm: true, 
-      category: 'evm' 
-    },
-    polygon: { 
-      name: 'Polygon', 
-      symbol: 'MATIC', 
-      numericId: 137, 
-      isEvm: true, 
-      category: 'evm' 
-    },
-    arbitrum: { 
-      name: 'Arbitrum', 
-      symbol: 'ETH', 
-      numericId: 42161, 
-      isEvm: true, 
-      category: 'evm' 
-    },
-    optimism: { 
-      name: 'Optimism', 
-      symbol: 'ETH', 
-      numericId: 10, 
-      isEvm: true, 
-      category: 'evm' 
-    },
-    bsc: { 
-      name: 'BNB Smart Chain', 
-      symbol: 'BNB', 
-      numericId: 56, 
-      isEvm: true, 
-      category: 'evm' 
-    },
-    avalanche: { 
-      name: 'Avalanche', 
-      symbol: 'AVAX', 
-      numericId: 43114, 
-      isEvm: true, 
-      category: 'evm' 
-    },
-    base: { 
-      name: 'Base', 
-      symbol: 'ETH', 
-      numericId: 8453, 
-      isEvm: true, 
-      category: 'evm' 
-    },
-    solana: { 
-      name: 'Solana', 
-      symbol: 'SOL', 
-      isEvm: false, 
-      category: 'solana' 
-    },
-    sui: { 
-      name: 'SUI', 
-      symbol: 'SUI', 
-      isEvm: false, 
-      category: 'sui' 
-    }
-  };
+  private static readonly CHAIN_INFO_MAP = Object.fromEntries(
+    CHAIN_REGISTRY.map(chain => [chain.key, {
+      name: chain.displayName,
+      symbol: chain.networks.production!.native.symbol,
+      numericId: chain.category === 'evm' ? chain.networks.production!.numericId : undefined,
+      isEvm: chain.category === 'evm',
+      category: chain.category,
+    }])
+  ) as Record<SupportedChainType, ChainInfo>;
 
   // Mapping from numeric chain IDs to chain types (for EVM chains)
-  private static readonly NUMERIC_ID_MAP: Record<number, SupportedChainType> = {
-    1: 'ethereum',
-    137: 'polygon',
-    42161: 'arbitrum',
-    10: 'optimism',
-    56: 'bsc',
-    43114: 'avalanche',
-    8453: 'base'
-  };
+  private static readonly NUMERIC_ID_MAP = Object.fromEntries(
+    Object.entries(ChainId.CHAIN_INFO_MAP)
+      .filter(([, info]) => info.numericId !== undefined)
+      .map(([chainType, info]) => [info.numericId, chainType])
+  ) as Record<number, SupportedChainType>;
 
   private constructor(chainType: SupportedChainType) {
     super(chainType);
@@ -220,10 +154,17 @@ export class ChainId extends ValueObject<SupportedChainType> {
     return this.getInfo().category === 'sui';
   }
 
+  /**
+   * Check if this is the Bitcoin chain
+   */
+  public isBitcoinChain(): boolean {
+    return this.getInfo().category === 'bitcoin';
+  }
+
   /**
    * Get chain category
    */
-  public getCategory(): 'evm' | 'solana' | 'sui' {
+  public getCategory(): ChainCategory {
     return this.getInfo().category;
   }
 
@@ -311,7 +252,7 @@ export class ChainId extends ValueObject<SupportedChainType> {
     symbol: string;
     numericId?: number;
     isEvm: boolean;
-    category: 'evm' | 'solana' | 'sui';
+    category: ChainCategory;
   } {
     const info = this.getInfo();
     return {
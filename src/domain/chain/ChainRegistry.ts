@@ -0,0 +1,820 @@
+/**
+ * Chain Registry
+ *
+ * The one list of chains the app supports. Each chain carries its names,
+ * icon and, per network environment, its chain IDs, native asset, explorers
+ * and RPC tiers. ChainId, the sync engine's chain maps, the RPC config
+ * builder and the settings screens all derive their view from it, so adding
+ * a chain means adding an entry here (plus its well-known tokens, if any).
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+
+export type ChainKey =
+  | 'ethereum'
+  | 'polygon'
+  | 'arbitrum'
+  | 'optimism'
+  | 'base'
+  | 'bsc'
+  | 'avalanche'
+  | 'zksync'
+  | 'linea'
+  | 'scroll'
+  | 'blast'
+  | 'mantle'
+  | 'gnosis'
+  | 'solana'
+  | 'sui'
+  | 'bitcoin';
+
+export type ChainCategory = 'evm' | 'solana' | 'sui' | 'bitcoin';
+
+/** Brand icons the UI has a component for */
+export type ChainIcon = 'ethereum' | 'polygon' | 'optimism' | 'bnbchain' | 'solana' | 'sui' | 'bitcoin';
+
+export interface NativeAsset {
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+/**
+ * A block explorer's page URLs. `{address}`, `{token}` and `{tx}` in the
+ * templates stand for the account, token contract or transaction linked to.
+ */
+export interface ExplorerTemplates {
+  address: string;
+  /** Absent where the chain has no token pages (Bitcoin) */
+  token?: string;
+  tx: string;
+}
+
+export interface ChainExplorer extends ExplorerTemplates {
+  name: string;
+  /** Home page */
+  url: string;
+}
+
+/**
+ * Where a network's RPC endpoints come from, by provider. Managed provider
+ * entries are URL prefixes or names the provider's key is combined with.
+ */
+export interface ChainRpcTiers {
+  /** POKT Gateway F-Chains URL (keyless) */
+  pokt?: string;
+  /** Lava Network URL (keyless) */
+  lava?: string;
+  /** dRPC network name */
+  drpc?: string;
+  /** Alchemy URL the key is appended to */
+  alchemy?: string;
+  /** Infura URL the key is appended to */
+  infura?: string;
+  /** QuickNode chain slug */
+  quicknode?: string;
+  /** Helius URL the key is appended to (Solana) */
+  helius?: string;
+  /** Esplora REST APIs (Bitcoin), which take plain GETs rather than JSON-RPC */
+  esplora?: Array<{ url: string; provider: string }>;
+  /** Free public endpoints, no key required */
+  public: string[];
+}
+
+export interface ChainNetwork {
+  /** Key of the network in the RPC provider config: the numeric ID for EVM chains */
+  rpcKey: string;
+  /** EIP-155 chain ID for EVM chains, the provider config's ID otherwise */
+  numericId?: number;
+  /** Name of the network, and of its evm-integration registry entry for EVM chains */
+  name: string;
+  native: NativeAsset;
+  /** Block explorers users can pick from, the default first; none on local networks */
+  explorers: ChainExplorer[];
+  rpc: ChainRpcTiers;
+  /** Multicall3 deployment where it is not at the usual address */
+  multicall3?: string;
+}
+
+export interface ChainDefinition {
+  key: ChainKey;
+  /** Name accounts and assets refer to the chain by, e.g. 'Arbitrum' */
+  name: string;
+  /** Human-readable name, e.g. 'BNB Smart Chain' */
+  displayName: string;
+  category: ChainCategory;
+  /** Brand icon; chains without one are shown with a badge of their initial */
+  icon?: ChainIcon;
+  /** Network used in each environment; a chain without one is unavailable there */
+  networks: Partial<Record<NetworkEnvironment, ChainNetwork>>;
+}
+
+const ether = (name: string): NativeAsset => ({ symbol: 'ETH', name, decimals: 18 });
+
+/** Etherscan's page layout, which Blockscout and most EVM explorers share */
+const etherscan = (name: string, url: string): ChainExplorer => ({
+  name,
+  url,
+  address: `${url}/address/{address}`,
+  token: `${url}/token/{token}`,
+  tx: `${url}/tx/{tx}`,
+});
+
+/** zkSync's explorer shows token contracts on their address page */
+const zksyncExplorer = (url: string): ChainExplorer => ({
+  name: 'zkSync Explorer',
+  url,
+  address: `${url}/address/{address}`,
+  token: `${url}/address/{token}`,
+  tx: `${url}/tx/{tx}`,
+});
+
+/** Solscan and Solana Explorer select devnet with a query parameter */
+const solanaExplorers = (cluster?: 'devnet'): ChainExplorer[] => {
+  const query = cluster ? `?cluster=${cluster}` : '';
+  return [
+    {
+      name: 'Solscan',
+      url: `https://solscan.io${query}`,
+      address: `https://solscan.io/account/{address}${query}`,
+      token: `https://solscan.io/token/{token}${query}`,
+      tx: `https://solscan.io/tx/{tx}${query}`,
+    },
+    {
+      name: 'Solana Explorer',
+      url: `https://explorer.solana.com${query}`,
+      address: `https://explorer.solana.com/address/{address}${query}`,
+      token: `https://explorer.solana.com/address/{token}${query}`,
+      tx: `https://explorer.solana.com/tx/{tx}${query}`,
+    },
+  ];
+};
+
+const suiExplorers = (network: 'mainnet' | 'testnet'): ChainExplorer[] => {
+  const suivision = network === 'mainnet' ? 'https://suivision.xyz' : 'https://testnet.suivision.xyz';
+  const suiscan = `https://suiscan.xyz/${network}`;
+  return [
+    {
+      name: 'SuiVision',
+      url: suivision,
+      address: `${suivision}/account/{address}`,
+      token: `${suivision}/coin/{token}`,
+      tx: `${suivision}/txblock/{tx}`,
+    },
+    {
+      name: 'Suiscan',
+      url: suiscan,
+      address: `${suiscan}/account/{address}`,
+      token: `${suiscan}/coin/{token}`,
+      tx: `${suiscan}/tx/{tx}`,
+    },
+  ];
+};
+
+const bitcoinExplorer = (name: string, url: string): ChainExplorer => ({
+  name,
+  url,
+  address: `${url}/address/{address}`,
+  tx: `${url}/tx/{tx}`,
+});
+
+const ZKSYNC_MULTICALL3 = '0xF9cda624FBC7e059355ce98a31693d299FACd963';
+
+export const CHAIN_REGISTRY: readonly ChainDefinition[] = [
+  {
+    key: 'ethereum',
+    name: 'Ethereum',
+    displayName: 'Ethereum',
+    category: 'evm',
+    icon: 'ethereum',
+    networks: {
+      production: {
+        rpcKey: '1',
+        numericId: 1,
+        name: 'Ethereum',
+        native: ether('Ethereum'),
+        explorers: [etherscan('Etherscan', 'https://etherscan.io')],
+        rpc: {
+          pokt: 'https://eth-mainnet.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://eth1.lava.build',
+          drpc: 'ethereum',
+          alchemy: 'https://eth-mainnet.g.alchemy.com/v2/',
+          infura: 'https://mainnet.infura.io/v3/',
+          quicknode: 'eth-mainnet',
+          public: ['https://cloudflare-eth.com', 'https://rpc.ankr.com/eth'],
+        },
+      },
+      testnet: {
+        rpcKey: '11155111',
+        numericId: 11155111,
+        name: 'Sepolia',
+        native: ether('Sepolia ETH'),
+        explorers: [etherscan('Etherscan', 'https://sepolia.etherscan.io')],
+        rpc: {
+          pokt: 'https://eth-sepolia.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://eth-sepolia.lava.build',
+          drpc: 'sepolia',
+          alchemy: 'https://eth-sepolia.g.alchemy.com/v2/',
+          infura: 'https://sepolia.infura.io/v3/',
+          quicknode: 'eth-sepolia',
+          public: ['https://rpc.sepolia.org'],
+        },
+      },
+      local: {
+        rpcKey: '1337',
+        numericId: 1337,
+        name: 'Localhost',
+        native: ether('Localhost'),
+        explorers: [],
+        rpc: { public: ['http://localhost:8545'] },
+      },
+    },
+  },
+  {
+    key: 'polygon',
+    name: 'Polygon',
+    displayName: 'Polygon',
+    category: 'evm',
+    icon: 'polygon',
+    networks: {
+      production: {
+        rpcKey: '137',
+        numericId: 137,
+        name: 'Polygon',
+        native: { symbol: 'MATIC', name: 'Polygon', decimals: 18 },
+        explorers: [etherscan('PolygonScan', 'https://polygonscan.com')],
+        rpc: {
+          pokt: 'https://poly-mainnet.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://polygon1.lava.build',
+          drpc: 'polygon',
+          alchemy: 'https://polygon-mainnet.g.alchemy.com/v2/',
+          infura: 'https://polygon-mainnet.infura.io/v3/',
+          quicknode: 'matic-mainnet',
+          public: ['https://polygon-rpc.com', 'https://rpc.ankr.com/polygon'],
+        },
+      },
+      testnet: {
+        rpcKey: '80002',
+        numericId: 80002,
+        name: 'Polygon Amoy',
+        native: { symbol: 'MATIC', name: 'Polygon Amoy', decimals: 18 },
+        explorers: [etherscan('PolygonScan', 'https://amoy.polygonscan.com')],
+        rpc: {
+          pokt: 'https://polygon-amoy.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://polygon-amoy.lava.build',
+          drpc: 'polygon-amoy',
+          alchemy: 'https://polygon-amoy.g.alchemy.com/v2/',
+          infura: 'https://polygon-amoy.infura.io/v3/',
+          public: ['https://rpc-amoy.polygon.technology'],
+        },
+      },
+    },
+  },
+  {
+    key: 'arbitrum',
+    name: 'Arbitrum',
+    displayName: 'Arbitrum',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '42161',
+        numericId: 42161,
+        name: 'Arbitrum One',
+        native: ether('Arbitrum Ethereum'),
+        explorers: [etherscan('Arbiscan', 'https://arbiscan.io')],
+        rpc: {
+          pokt: 'https://arbitrum-one.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://arbitrum1.lava.build',
+          drpc: 'arbitrum',
+          alchemy: 'https://arb-mainnet.g.alchemy.com/v2/',
+          infura: 'https://arbitrum-mainnet.infura.io/v3/',
+          quicknode: 'arbitrum-mainnet',
+          public: ['https://arb1.arbitrum.io/rpc', 'https://rpc.ankr.com/arbitrum'],
+        },
+      },
+      testnet: {
+        rpcKey: '421614',
+        numericId: 421614,
+        name: 'Arbitrum Sepolia',
+        native: ether('Arbitrum Sepolia'),
+        explorers: [etherscan('Arbiscan', 'https://sepolia.arbiscan.io')],
+        rpc: {
+          pokt: 'https://arbitrum-sepolia.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://arbitrum-sepolia.lava.build',
+          drpc: 'arbitrum-sepolia',
+          alchemy: 'https://arb-sepolia.g.alchemy.com/v2/',
+          infura: 'https://arbitrum-sepolia.infura.io/v3/',
+          public: ['https://sepolia-rollup.arbitrum.io/rpc'],
+        },
+      },
+    },
+  },
+  {
+    key: 'optimism',
+    name: 'Optimism',
+    displayName: 'Optimism',
+    category: 'evm',
+    icon: 'optimism',
+    networks: {
+      production: {
+        rpcKey: '10',
+        numericId: 10,
+        name: 'Optimism',
+        native: ether('Optimism Ethereum'),
+        explorers: [etherscan('Etherscan', 'https://optimistic.etherscan.io')],
+        rpc: {
+          pokt: 'https://optimism-mainnet.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://optimism1.lava.build',
+          drpc: 'optimism',
+          alchemy: 'https://opt-mainnet.g.alchemy.com/v2/',
+          infura: 'https://optimism-mainnet.infura.io/v3/',
+          quicknode: 'optimism',
+          public: ['https://mainnet.optimism.io', 'https://rpc.ankr.com/optimism'],
+        },
+      },
+      testnet: {
+        rpcKey: '11155420',
+        numericId: 11155420,
+        name: 'Optimism Sepolia',
+        native: ether('Optimism Sepolia'),
+        explorers: [etherscan('Etherscan', 'https://sepolia-optimism.etherscan.io')],
+        rpc: {
+          pokt: 'https://optimism-sepolia.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://optimism-sepolia.lava.build',
+          drpc: 'optimism-sepolia',
+          alchemy: 'https://opt-sepolia.g.alchemy.com/v2/',
+          infura: 'https://optimism-sepolia.infura.io/v3/',
+          public: ['https://sepolia.optimism.io'],
+        },
+      },
+    },
+  },
+  {
+    key: 'base',
+    name: 'Base',
+    displayName: 'Base',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '8453',
+        numericId: 8453,
+        name: 'Base',
+        native: ether('Base Ethereum'),
+        explorers: [etherscan('BaseScan', 'https://basescan.org')],
+        rpc: {
+          pokt: 'https://base-mainnet.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://base1.lava.build',
+          drpc: 'base',
+          alchemy: 'https://base-mainnet.g.alchemy.com/v2/',
+          infura: 'https://base-mainnet.infura.io/v3/',
+          quicknode: 'base-mainnet',
+          public: ['https://mainnet.base.org', 'https://rpc.ankr.com/base'],
+        },
+      },
+      testnet: {
+        rpcKey: '84532',
+        numericId: 84532,
+        name: 'Base Sepolia',
+        native: ether('Base Sepolia'),
+        explorers: [etherscan('BaseScan', 'https://sepolia.basescan.org')],
+        rpc: {
+          pokt: 'https://base-sepolia.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://base-sepolia.lava.build',
+          drpc: 'base-sepolia',
+          alchemy: 'https://base-sepolia.g.alchemy.com/v2/',
+          infura: 'https://base-sepolia.infura.io/v3/',
+          public: ['https://sepolia.base.org'],
+        },
+      },
+    },
+  },
+  {
+    key: 'bsc',
+    name: 'BSC',
+    displayName: 'BNB Smart Chain',
+    category: 'evm',
+    icon: 'bnbchain',
+    networks: {
+      production: {
+        rpcKey: '56',
+        numericId: 56,
+        name: 'BNB Smart Chain',
+        native: { symbol: 'BNB', name: 'BNB Chain', decimals: 18 },
+        explorers: [etherscan('BscScan', 'https://bscscan.com')],
+        rpc: {
+          pokt: 'https://bsc-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'bsc',
+          alchemy: 'https://bnb-mainnet.g.alchemy.com/v2/',
+          infura: 'https://bsc-mainnet.infura.io/v3/',
+          quicknode: 'bsc',
+          public: ['https://bsc-dataseed.bnbchain.org', 'https://bsc-rpc.publicnode.com'],
+        },
+      },
+      testnet: {
+        rpcKey: '97',
+        numericId: 97,
+        name: 'BSC Testnet',
+        native: { symbol: 'BNB', name: 'BSC Testnet', decimals: 18 },
+        explorers: [etherscan('BscScan', 'https://testnet.bscscan.com')],
+        rpc: {
+          drpc: 'bsc-testnet',
+          alchemy: 'https://bnb-testnet.g.alchemy.com/v2/',
+          infura: 'https://bsc-testnet.infura.io/v3/',
+          public: ['https://data-seed-prebsc-1-s1.bnbchain.org:8545'],
+        },
+      },
+    },
+  },
+  {
+    key: 'avalanche',
+    name: 'Avalanche',
+    displayName: 'Avalanche',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '43114',
+        numericId: 43114,
+        name: 'Avalanche C-Chain',
+        native: { symbol: 'AVAX', name: 'Avalanche', decimals: 18 },
+        explorers: [etherscan('Snowtrace', 'https://snowtrace.io')],
+        rpc: {
+          pokt: 'https://avax-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'avalanche',
+          alchemy: 'https://avax-mainnet.g.alchemy.com/v2/',
+          infura: 'https://avalanche-mainnet.infura.io/v3/',
+          quicknode: 'avalanche-mainnet',
+          public: ['https://api.avax.network/ext/bc/C/rpc', 'https://avalanche-c-chain-rpc.publicnode.com'],
+        },
+      },
+      testnet: {
+        rpcKey: '43113',
+        numericId: 43113,
+        name: 'Avalanche Fuji',
+        native: { symbol: 'AVAX', name: 'Avalanche Fuji', decimals: 18 },
+        explorers: [etherscan('Snowtrace', 'https://testnet.snowtrace.io')],
+        rpc: {
+          drpc: 'avalanche-fuji',
+          alchemy: 'https://avax-fuji.g.alchemy.com/v2/',
+          infura: 'https://avalanche-fuji.infura.io/v3/',
+          public: ['https://api.avax-test.network/ext/bc/C/rpc'],
+        },
+      },
+    },
+  },
+  {
+    key: 'zksync',
+    name: 'zkSync',
+    displayName: 'zkSync Era',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '324',
+        numericId: 324,
+        name: 'zkSync Era',
+        native: ether('zkSync Ethereum'),
+        explorers: [zksyncExplorer('https://explorer.zksync.io')],
+        rpc: {
+          pokt: 'https://zksync-era-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'zksync',
+          alchemy: 'https://zksync-mainnet.g.alchemy.com/v2/',
+          infura: 'https://zksync-mainnet.infura.io/v3/',
+          quicknode: 'zksync-mainnet',
+          public: ['https://mainnet.era.zksync.io'],
+        },
+        multicall3: ZKSYNC_MULTICALL3,
+      },
+      testnet: {
+        rpcKey: '300',
+        numericId: 300,
+        name: 'zkSync Sepolia',
+        native: ether('zkSync Sepolia'),
+        explorers: [zksyncExplorer('https://sepolia.explorer.zksync.io')],
+        rpc: {
+          drpc: 'zksync-sepolia',
+          alchemy: 'https://zksync-sepolia.g.alchemy.com/v2/',
+          infura: 'https://zksync-sepolia.infura.io/v3/',
+          public: ['https://sepolia.era.zksync.dev'],
+        },
+        multicall3: ZKSYNC_MULTICALL3,
+      },
+    },
+  },
+  {
+    key: 'linea',
+    name: 'Linea',
+    displayName: 'Linea',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '59144',
+        numericId: 59144,
+        name: 'Linea',
+        native: ether('Linea Ethereum'),
+        explorers: [etherscan('LineaScan', 'https://lineascan.build')],
+        rpc: {
+          pokt: 'https://linea-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'linea',
+          alchemy: 'https://linea-mainnet.g.alchemy.com/v2/',
+          infura: 'https://linea-mainnet.infura.io/v3/',
+          quicknode: 'linea-mainnet',
+          public: ['https://rpc.linea.build'],
+        },
+      },
+      testnet: {
+        rpcKey: '59141',
+        numericId: 59141,
+        name: 'Linea Sepolia',
+        native: ether('Linea Sepolia'),
+        explorers: [etherscan('LineaScan', 'https://sepolia.lineascan.build')],
+        rpc: {
+          drpc: 'linea-sepolia',
+          alchemy: 'https://linea-sepolia.g.alchemy.com/v2/',
+          infura: 'https://linea-sepolia.infura.io/v3/',
+          public: ['https://rpc.sepolia.linea.build'],
+        },
+      },
+    },
+  },
+  {
+    key: 'scroll',
+    name: 'Scroll',
+    displayName: 'Scroll',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '534352',
+        numericId: 534352,
+        name: 'Scroll',
+        native: ether('Scroll Ethereum'),
+        explorers: [etherscan('Scrollscan', 'https://scrollscan.com')],
+        rpc: {
+          pokt: 'https://scroll-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'scroll',
+          alchemy: 'https://scroll-mainnet.g.alchemy.com/v2/',
+          infura: 'https://scroll-mainnet.infura.io/v3/',
+          quicknode: 'scroll-mainnet',
+          public: ['https://rpc.scroll.io'],
+        },
+      },
+      testnet: {
+        rpcKey: '534351',
+        numericId: 534351,
+        name: 'Scroll Sepolia',
+        native: ether('Scroll Sepolia'),
+        explorers: [etherscan('Scrollscan', 'https://sepolia.scrollscan.com')],
+        rpc: {
+          drpc: 'scroll-sepolia',
+          alchemy: 'https://scroll-sepolia.g.alchemy.com/v2/',
+          infura: 'https://scroll-sepolia.infura.io/v3/',
+          public: ['https://sepolia-rpc.scroll.io'],
+        },
+      },
+    },
+  },
+  {
+    key: 'blast',
+    name: 'Blast',
+    displayName: 'Blast',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '81457',
+        numericId: 81457,
+        name: 'Blast',
+        native: ether('Blast Ethereum'),
+        explorers: [etherscan('Blastscan', 'https://blastscan.io')],
+        rpc: {
+          pokt: 'https://blast-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'blast',
+          alchemy: 'https://blast-mainnet.g.alchemy.com/v2/',
+          infura: 'https://blast-mainnet.infura.io/v3/',
+          quicknode: 'blast-mainnet',
+          public: ['https://rpc.blast.io'],
+        },
+      },
+      testnet: {
+        rpcKey: '168587773',
+        numericId: 168587773,
+        name: 'Blast Sepolia',
+        native: ether('Blast Sepolia'),
+        explorers: [etherscan('Blastscan', 'https://sepolia.blastscan.io')],
+        rpc: {
+          drpc: 'blast-sepolia',
+          alchemy: 'https://blast-sepolia.g.alchemy.com/v2/',
+          infura: 'https://blast-sepolia.infura.io/v3/',
+          public: ['https://sepolia.blast.io'],
+        },
+      },
+    },
+  },
+  {
+    key: 'mantle',
+    name: 'Mantle',
+    displayName: 'Mantle',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '5000',
+        numericId: 5000,
+        name: 'Mantle',
+        native: { symbol: 'MNT', name: 'Mantle', decimals: 18 },
+        explorers: [etherscan('Mantlescan', 'https://mantlescan.xyz')],
+        rpc: {
+          pokt: 'https://mantle-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'mantle',
+          alchemy: 'https://mantle-mainnet.g.alchemy.com/v2/',
+          infura: 'https://mantle-mainnet.infura.io/v3/',
+          quicknode: 'mantle-mainnet',
+          public: ['https://rpc.mantle.xyz'],
+        },
+      },
+      testnet: {
+        rpcKey: '5003',
+        numericId: 5003,
+        name: 'Mantle Sepolia',
+        native: { symbol: 'MNT', name: 'Mantle Sepolia', decimals: 18 },
+        explorers: [etherscan('Mantlescan', 'https://sepolia.mantlescan.xyz')],
+        rpc: {
+          drpc: 'mantle-sepolia',
+          alchemy: 'https://mantle-sepolia.g.alchemy.com/v2/',
+          infura: 'https://mantle-sepolia.infura.io/v3/',
+          public: ['https://rpc.sepolia.mantle.xyz'],
+        },
+      },
+    },
+  },
+  {
+    key: 'gnosis',
+    name: 'Gnosis',
+    displayName: 'Gnosis',
+    category: 'evm',
+    networks: {
+      production: {
+        rpcKey: '100',
+        numericId: 100,
+        name: 'Gnosis',
+        native: { symbol: 'XDAI', name: 'xDAI', decimals: 18 },
+        explorers: [etherscan('GnosisScan', 'https://gnosisscan.io')],
+        rpc: {
+          pokt: 'https://gnosischain-mainnet.gateway.pokt.network/v1/lb/libre',
+          drpc: 'gnosis',
+          alchemy: 'https://gnosis-mainnet.g.alchemy.com/v2/',
+          quicknode: 'xdai',
+          public: ['https://rpc.gnosischain.com', 'https://gnosis-rpc.publicnode.com'],
+        },
+      },
+      testnet: {
+        rpcKey: '10200',
+        numericId: 10200,
+        name: 'Gnosis Chiado',
+        native: { symbol: 'XDAI', name: 'Gnosis Chiado', decimals: 18 },
+        explorers: [etherscan('Blockscout', 'https://gnosis-chiado.blockscout.com')],
+        rpc: {
+          drpc: 'gnosis-chiado',
+          alchemy: 'https://gnosis-chiado.g.alchemy.com/v2/',
+          public: ['https://rpc.chiadochain.net'],
+        },
+      },
+    },
+  },
+  {
+    key: 'solana',
+    name: 'Solana',
+    displayName: 'Solana',
+    category: 'solana',
+    icon: 'solana',
+    networks: {
+      production: {
+        rpcKey: 'solana-mainnet',
+        numericId: 101,
+        name: 'Solana',
+        native: { symbol: 'SOL', name: 'Solana', decimals: 9 },
+        explorers: solanaExplorers(),
+        rpc: {
+          pokt: 'https://solana-mainnet.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://solana1.lava.build',
+          alchemy: 'https://solana-mainnet.g.alchemy.com/v2/',
+          quicknode: 'solana-mainnet',
+          helius: 'https://mainnet.helius-rpc.com/?api-key=',
+          public: ['https://solana.publicnode.com', 'https://api.mainnet-beta.solana.com'],
+        },
+      },
+      testnet: {
+        rpcKey: 'solana-devnet',
+        numericId: 103,
+        name: 'Solana Devnet',
+        native: { symbol: 'SOL', name: 'Solana Devnet', decimals: 9 },
+        explorers: solanaExplorers('devnet'),
+        rpc: {
+          pokt: 'https://solana-devnet.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://solana-devnet.lava.build',
+          alchemy: 'https://solana-devnet.g.alchemy.com/v2/',
+          quicknode: 'solana-devnet',
+          helius: 'https://devnet.helius-rpc.com/?api-key=',
+          public: ['https://api.devnet.solana.com'],
+        },
+      },
+      local: {
+        rpcKey: 'solana-devnet',
+        numericId: 103,
+        name: 'Solana Devnet (local)',
+        native: { symbol: 'SOL', name: 'Solana Devnet', decimals: 9 },
+        explorers: solanaExplorers('devnet'),
+        rpc: {
+          pokt: 'https://solana-devnet.gateway.pokt.network/v1/lb/libre',
+          lava: 'https://solana-devnet.lava.build',
+          alchemy: 'https://solana-devnet.g.alchemy.com/v2/',
+          quicknode: 'solana-devnet',
+          helius: 'https://devnet.helius-rpc.com/?api-key=',
+          public: ['https://api.devnet.solana.com'],
+        },
+      },
+    },
+  },
+  {
+    key: 'sui',
+    name: 'SUI',
+    displayName: 'Sui',
+    category: 'sui',
+    icon: 'sui',
+    networks: {
+      production: {
+        rpcKey: 'sui-mainnet',
+        name: 'Sui',
+        native: { symbol: 'SUI', name: 'Sui', decimals: 9 },
+        explorers: suiExplorers('mainnet'),
+        rpc: { public: ['https://fullnode.mainnet.sui.io'] },
+      },
+      testnet: {
+        rpcKey: 'sui-testnet',
+        name: 'Sui Testnet',
+        native: { symbol: 'SUI', name: 'Sui Testnet', decimals: 9 },
+        explorers: suiExplorers('testnet'),
+        rpc: { public: ['https://fullnode.testnet.sui.io'] },
+      },
+    },
+  },
+  {
+    key: 'bitcoin',
+    name: 'Bitcoin',
+    displayName: 'Bitcoin',
+    category: 'bitcoin',
+    icon: 'bitcoin',
+    networks: {
+      // Watch-only accounts are mainnet only
+      production: {
+        rpcKey: 'bitcoin-mainnet',
+        numericId: 0,
+        name: 'Bitcoin',
+        native: { symbol: 'BTC', name: 'Bitcoin', decimals: 8 },
+        explorers: [
+          bitcoinExplorer('mempool.space', 'https://mempool.space'),
+          bitcoinExplorer('Blockstream', 'https://blockstream.info'),
+        ],
+        rpc: {
+          esplora: [
+            { url: 'https://blockstream.info/api', provider: 'Blockstream' },
+            { url: 'https://mempool.space/api', provider: 'mempool.space' },
+          ],
+          public: [],
+        },
+      },
+    },
+  },
+];
+
+const BY_KEY = new Map(CHAIN_REGISTRY.map(chain => [chain.key, chain]));
+
+/** The registry entry of a chain */
+export function getChain(key: ChainKey): ChainDefinition {
+  return BY_KEY.get(key)!;
+}
+
+/** The chain accounts and assets call `name`, e.g. 'Arbitrum' or 'SUI' */
+export function findChainByName(name: string): ChainDefinition | undefined {
+  return CHAIN_REGISTRY.find(chain => chain.name === name);
+}
+
+/** A chain together with the network it uses in one environment */
+export interface ChainInEnvironment {
+  chain: ChainDefinition;
+  network: ChainNetwork;
+}
+
+/** Chains available in an environment, optionally of one category, in registry order */
+export function chainsIn(env: NetworkEnvironment, category?: ChainCategory): ChainInEnvironment[] {
+  return CHAIN_REGISTRY.flatMap(chain => {
+    const network = chain.networks[env];
+    return network && (!category || chain.category === category) ? [{ chain, network }] : [];
+  });
+}
+
+/** The EVM network with this chain ID in any environment */
+export function findEvmNetwork(numericId: number): ChainInEnvironment | undefined {
+  for (const chain of CHAIN_REGISTRY) {
+    if (chain.category !== 'evm') continue;
+    const network = Object.values(chain.networks).find(candidate => candidate.numericId === numericId);
+    if (network) return { chain, network };
+  }
+  return undefined;
+}
@@ -0,0 +1,131 @@
+/**
+ * Explorer Links
+ *
+ * Deep links into block explorers for addresses, token contracts and
+ * transactions. Each chain's network lists its explorer presets in the chain
+ * registry; users may pick another preset or enter their own URL templates,
+ * per chain and per network environment, so switching to testnet switches
+ * explorers too.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import { Result } from '../shared/Result';
+import { ValidationError } from '../shared/DomainError';
+import { EXTENDED_KEY_SCRIPT_TYPES } from '../bitcoin/BitcoinWatch';
+import { CHAIN_REGISTRY, findChainByName, type ChainKey, type ExplorerTemplates } from './ChainRegistry';
+
+export type ExplorerLinkKind = keyof ExplorerTemplates;
+
+/** Templates a user entered for an explorer the registry does not list */
+export interface CustomExplorer extends ExplorerTemplates {
+  name: string;
+}
+
+/** A user's explorer for one chain: a registry preset by name, or their own templates */
+export type ExplorerSetting = { preset: string } | { custom: CustomExplorer };
+
+export type ExplorerSettings = Partial<Record<NetworkEnvironment, Partial<Record<ChainKey, ExplorerSetting>>>>;
+
+const PLACEHOLDERS: Record<ExplorerLinkKind, string> = {
+  address: '{address}',
+  token: '{token}',
+  tx: '{tx}',
+};
+
+// Addresses, mints, coin types and hashes; anything else is not linked
+const LINKABLE_VALUE = /^[A-Za-z0-9:_.-]+$/;
+
+/**
+ * The explorer used for a chain in an environment. Chains are looked up by
+ * the name accounts and assets use or by their registry key. Falls back to the chain's default when a chosen preset is not
+ * offered there; undefined for unknown chains and networks without one.
+ */
+export function resolveExplorer(
+  chainName: string,
+  env: NetworkEnvironment,
+  settings: ExplorerSettings = {}
+): CustomExplorer | undefined {
+  const chain = findChainByName(chainName) ?? CHAIN_REGISTRY.find(candidate => candidate.key === chainName);
+  const presets = chain?.networks[env]?.explorers;
+  if (!chain || !presets) return undefined;
+
+  const setting = settings[env]?.[chain.key];
+  if (setting && 'custom' in setting) return setting.custom;
+  const preset = setting && presets.find(explorer => explorer.name === setting.preset);
+  return preset ?? presets[0];
+}
+
+/** The explorer page of an address, token contract or transaction, if the explorer has one */
+export function explorerUrl(
+  explorer: ExplorerTemplates | undefined,
+  kind: ExplorerLinkKind,
+  value: string
+): string | undefined {
+  const template = explorer?.[kind];
+  if (!template || !LINKABLE_VALUE.test(value)) return undefined;
+  return template.replaceAll(PLACEHOLDERS[kind], value);
+}
+
+/** Convenience for `explorerUrl(resolveExplorer(...), ...)` */
+export function explorerLink(
+  chainName: string,
+  env: NetworkEnvironment,
+  kind: ExplorerLinkKind,
+  value: string,
+  settings?: ExplorerSettings
+): string | undefined {
+  // Explorers show single Bitcoin addresses; watched extended keys have no page
+  if (chainName === 'Bitcoin' && value.slice(0, 4) in EXTENDED_KEY_SCRIPT_TYPES) return undefined;
+  return explorerUrl(resolveExplorer(chainName, env, settings), kind, value);
+}
+
+/**
+ * The chain whose explorer shows an account's address. Multi-chain EVM
+ * accounts share one address across chains, so the first detected one is used.
+ */
+export function accountExplorerChain(platform: string, detectedChains?: string[]): string {
+  return platform === 'Multi-Chain EVM' ? detectedChains?.[0] ?? 'Ethereum' : platform;
+}
+
+function isWebUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check user-entered templates: the address and transaction templates are
+ * required, the token template is optional, and each must be a web URL
+ * containing its placeholder.
+ */
+export function validateExplorerTemplates(
+  name: string,
+  templates: ExplorerTemplates
+): Result<CustomExplorer, ValidationError> {
+  if (!name.trim()) {
+    return Result.failure(new ValidationError('Give the explorer a name', 'name', name));
+  }
+
+  const custom: CustomExplorer = {
+    name: name.trim(),
+    address: templates.address.trim(),
+    tx: templates.tx.trim(),
+  };
+  const token = templates.token?.trim();
+  if (token) custom.token = token;
+
+  for (const kind of Object.keys(PLACEHOLDERS) as ExplorerLinkKind[]) {
+    const template = custom[kind];
+    if (template === undefined) continue;
+    if (!isWebUrl(template.replace(PLACEHOLDERS[kind], 'x'))) {
+      return Result.failure(new ValidationError(`The ${kind} template is not an http(s) URL`, kind, template));
+    }
+    if (!template.includes(PLACEHOLDERS[kind])) {
+      return Result.failure(new ValidationError(`The ${kind} template needs ${PLACEHOLDERS[kind]}`, kind, template));
+    }
+  }
+  return Result.success(custom);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import { CHAIN_REGISTRY, chainsIn, findChainByName, findEvmNetwork, getChain } from '../ChainRegistry';
+import { ChainId } from '../ChainId';
+
+const ENVIRONMENTS: NetworkEnvironment[] = ['production', 'testnet', 'local'];
+const ALL_NETWORKS = CHAIN_REGISTRY.flatMap(chain => Object.values(chain.networks).map(network => ({ chain, network })));
+
+function duplicates(values: unknown[]): unknown[] {
+  return values.filter((value, index) => values.indexOf(value) !== index);
+}
+
+describe('CHAIN_REGISTRY', () => {
+  it('has unique keys, names and display names', () => {
+    expect(duplicates(CHAIN_REGISTRY.map(chain => chain.key))).toEqual([]);
+    expect(duplicates(CHAIN_REGISTRY.map(chain => chain.name))).toEqual([]);
+    expect(duplicates(CHAIN_REGISTRY.map(chain => chain.displayName))).toEqual([]);
+  });
+
+  it('gives every chain a production network', () => {
+    const missing = CHAIN_REGISTRY.filter(chain => !chain.networks.production).map(chain => chain.key);
+    expect(missing).toEqual([]);
+  });
+
+  it('gives every EVM mainnet a testnet counterpart', () => {
+    const missing = CHAIN_REGISTRY
+      .filter(chain => chain.category === 'evm' && !chain.networks.testnet)
+      .map(chain => chain.key);
+    expect(missing).toEqual([]);
+  });
+
+  it('keeps RPC keys unique within each environment', () => {
+    for (const env of ENVIRONMENTS) {
+      expect(duplicates(chainsIn(env).map(({ network }) => network.rpcKey)), env).toEqual([]);
+    }
+  });
+
+  it('identifies EVM networks by a unique numeric chain ID that is also their RPC key', () => {
+    const evmNetworks = ALL_NETWORKS.filter(({ chain }) => chain.category === 'evm');
+    for (const { network } of evmNetworks) {
+      expect(network.numericId, network.name).toBeTypeOf('number');
+      expect(network.rpcKey, network.name).toBe(String(network.numericId));
+    }
+    // The local Ethereum network shares nothing with real chains
+    expect(duplicates(evmNetworks.map(({ network }) => network.numericId))).toEqual([]);
+  });
+
+  it('gives every network a keyless endpoint and a native asset', () => {
+    for (const { network } of ALL_NETWORKS) {
+      const keyless = [...network.rpc.public, network.rpc.pokt, network.rpc.lava, ...(network.rpc.esplora ?? [])]
+        .filter(Boolean);
+      expect(keyless.length, network.name).toBeGreaterThan(0);
+      expect(network.native.symbol, network.name).not.toBe('');
+      expect(network.native.decimals, network.name).toBeGreaterThan(0);
+    }
+  });
+
+  it('gives every public network an explorer whose templates carry their placeholders', () => {
+    for (const env of ['production', 'testnet'] as const) {
+      for (const { network } of chainsIn(env)) {
+        expect(network.explorers.length, network.name).toBeGreaterThan(0);
+        expect(duplicates(network.explorers.map(explorer => explorer.name)), network.name).toEqual([]);
+        for (const explorer of network.explorers) {
+          expect(explorer.address, explorer.name).toContain('{address}');
+          expect(explorer.tx, explorer.name).toContain('{tx}');
+          if (explorer.token) expect(explorer.token, explorer.name).toContain('{token}');
+        }
+      }
+    }
+  });
+
+  it('uses https URLs throughout, except on local networks', () => {
+    for (const env of ['production', 'testnet'] as const) {
+      for (const { network } of chainsIn(env)) {
+        const urls = [
+          ...network.rpc.public,
+          network.rpc.pokt,
+          network.rpc.lava,
+          network.rpc.alchemy,
+          network.rpc.infura,
+          network.rpc.helius,
+          ...(network.rpc.esplora ?? []).map(endpoint => endpoint.url),
+          ...network.explorers.flatMap(explorer => [explorer.url, explorer.address, explorer.token, explorer.tx]),
+        ].filter((url): url is string => !!url);
+        for (const url of urls) expect(url, network.name).toMatch(/^https:\/\//);
+      }
+    }
+  });
+});
+
+describe('registry lookups', () => {
+  it('finds chains by key and by the name accounts use', () => {
+    expect(getChain('bsc').displayName).toBe('BNB Smart Chain');
+    expect(findChainByName('SUI')?.key).toBe('sui');
+    expect(findChainByName('Sui')).toBeUndefined();
+  });
+
+  it('finds EVM networks by chain ID in any environment', () => {
+    expect(findEvmNetwork(42161)?.chain.key).toBe('arbitrum');
+    expect(findEvmNetwork(11155111)?.network.name).toBe('Sepolia');
+    expect(findEvmNetwork(123456789)).toBeUndefined();
+  });
+
+  it('lists chains of one category in registry order', () => {
+    expect(chainsIn('production', 'evm').map(({ chain }) => chain.key)).toEqual(
+      CHAIN_REGISTRY.filter(chain => chain.category === 'evm').map(chain => chain.key)
+    );
+    expect(chainsIn('testnet', 'bitcoin')).toEqual([]);
+  });
+});
+
+describe('ChainId', () => {
+  it('supports every registry chain', () => {
+    expect(ChainId.getSupportedChainTypes()).toEqual(CHAIN_REGISTRY.map(chain => chain.key));
+  });
+
+  it('resolves every EVM mainnet chain ID back to its chain', () => {
+    for (const { chain, network } of chainsIn('production', 'evm')) {
+      expect(ChainId.fromNumericId(network.numericId!).getChainType()).toBe(chain.key);
+    }
+  });
+});
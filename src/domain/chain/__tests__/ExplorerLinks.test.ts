@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accountExplorerChain,
+  explorerLink,
+  resolveExplorer,
+  validateExplorerTemplates,
+  type ExplorerSettings,
+} from '../ExplorerLinks';
+
+const WALLET = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const SOL_WALLET = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const ZPUB = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+
+describe('explorerLink', () => {
+  it('links EVM addresses and tokens to the Etherscan-family explorer of the environment', () => {
+    expect(explorerLink('Ethereum', 'production', 'address', WALLET)).toBe(`https://etherscan.io/address/${WALLET}`);
+    expect(explorerLink('Ethereum', 'testnet', 'address', WALLET)).toBe(`https://sepolia.etherscan.io/address/${WALLET}`);
+    expect(explorerLink('Arbitrum', 'production', 'token', USDC)).toBe(`https://arbiscan.io/token/${USDC}`);
+    expect(explorerLink('Base', 'testnet', 'tx', '0xabc')).toBe('https://sepolia.basescan.org/tx/0xabc');
+  });
+
+  it('links Solana and Sui with their own page layouts', () => {
+    expect(explorerLink('Solana', 'production', 'address', SOL_WALLET)).toBe(`https://solscan.io/account/${SOL_WALLET}`);
+    expect(explorerLink('Solana', 'testnet', 'token', USDC_MINT)).toBe(`https://solscan.io/token/${USDC_MINT}?cluster=devnet`);
+    expect(explorerLink('SUI', 'production', 'token', '0x2::sui::SUI')).toBe('https://suivision.xyz/coin/0x2::sui::SUI');
+    expect(explorerLink('SUI', 'testnet', 'address', '0x2')).toBe('https://testnet.suivision.xyz/account/0x2');
+  });
+
+  it('accepts registry keys as well as account chain names', () => {
+    expect(explorerLink('polygon', 'production', 'address', WALLET)).toBe(`https://polygonscan.com/address/${WALLET}`);
+  });
+
+  it('leaves out what no explorer page exists for', () => {
+    // Bitcoin explorers have no token pages, and watched extended keys no page at all
+    expect(explorerLink('Bitcoin', 'production', 'token', 'anything')).toBeUndefined();
+    expect(explorerLink('Bitcoin', 'production', 'address', ZPUB)).toBeUndefined();
+    expect(explorerLink('Bitcoin', 'production', 'address', 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'))
+      .toBe('https://mempool.space/address/bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+    expect(explorerLink('Ethereum', 'local', 'address', WALLET)).toBeUndefined();
+    expect(explorerLink('Coinbase', 'production', 'address', WALLET)).toBeUndefined();
+    expect(explorerLink('Ethereum', 'production', 'address', '0x1/../../evil')).toBeUndefined();
+  });
+});
+
+describe('resolveExplorer', () => {
+  it('uses a chosen preset in its environment only', () => {
+    const settings: ExplorerSettings = { production: { solana: { preset: 'Solana Explorer' } } };
+
+    expect(explorerLink('Solana', 'production', 'address', SOL_WALLET, settings))
+      .toBe(`https://explorer.solana.com/address/${SOL_WALLET}`);
+    expect(resolveExplorer('Solana', 'testnet', settings)?.name).toBe('Solscan');
+  });
+
+  it('falls back to the default when a chosen preset is not offered', () => {
+    const settings: ExplorerSettings = { production: { ethereum: { preset: 'Gone' } } };
+
+    expect(resolveExplorer('Ethereum', 'production', settings)?.name).toBe('Etherscan');
+  });
+
+  it('uses custom templates, also where the registry lists no explorer', () => {
+    const custom = { name: 'Otterscan', address: 'http://localhost:5100/address/{address}', tx: 'http://localhost:5100/tx/{tx}' };
+    const settings: ExplorerSettings = { local: { ethereum: { custom } } };
+
+    expect(explorerLink('Ethereum', 'local', 'address', WALLET, settings)).toBe(`http://localhost:5100/address/${WALLET}`);
+    expect(explorerLink('Ethereum', 'local', 'token', USDC, settings)).toBeUndefined();
+  });
+});
+
+describe('validateExplorerTemplates', () => {
+  it('trims the templates and drops an empty token template', () => {
+    const result = validateExplorerTemplates(' Blockscout ', {
+      address: ' https://eth.blockscout.com/address/{address} ',
+      token: '  ',
+      tx: 'https://eth.blockscout.com/tx/{tx}',
+    });
+
+    expect(result.value).toEqual({
+      name: 'Blockscout',
+      address: 'https://eth.blockscout.com/address/{address}',
+      tx: 'https://eth.blockscout.com/tx/{tx}',
+    });
+  });
+
+  it('requires a name, web URLs and each template\'s placeholder', () => {
+    const templates = { address: 'https://x.example/address/{address}', tx: 'https://x.example/tx/{tx}' };
+
+    expect(validateExplorerTemplates('', templates).error.details?.field).toBe('name');
+    expect(validateExplorerTemplates('X', { ...templates, address: 'javascript:alert({address})' }).error.message)
+      .toBe('The address template is not an http(s) URL');
+    expect(validateExplorerTemplates('X', { ...templates, tx: 'https://x.example/tx/' }).error.message)
+      .toBe('The tx template needs {tx}');
+    expect(validateExplorerTemplates('X', { ...templates, token: 'https://x.example/token/{address}' }).error.details?.field)
+      .toBe('token');
+  });
+});
+
+describe('accountExplorerChain', () => {
+  it('links multi-chain EVM accounts through their first detected chain', () => {
+    expect(accountExplorerChain('Multi-Chain EVM', ['Polygon', 'Ethereum'])).toBe('Polygon');
+    expect(accountExplorerChain('Multi-Chain EVM')).toBe('Ethereum');
+    expect(accountExplorerChain('Solana', ['Polygon'])).toBe('Solana');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * DeFiDiscoveryService
+ *
+ * Fans position discovery out over every (wallet, chain, protocol) combination
+ * and merges the results into a single RawDeFiData. A failing protocol on one
+ * chain does not hide positions found elsewhere; failures are reported
+ * alongside the data, and only a run where every read failed is an error.
+ */
+
+import { Result } from '../shared/Result';
+import { DomainError, ServiceError } from '../shared/DomainError';
+import type { RawDeFiData } from './DeFiPositionService';
+import type { DeFiDiscoveryTarget, IDeFiProtocolAdapter } from './DeFiProtocolAdapter';
+
+export interface DeFiDiscoveryFailure {
+  protocol: string;
+  address: string;
+  chainId: number;
+  message: string;
+}
+
+export interface DeFiDiscoveryResult {
+  data: RawDeFiData;
+  failures: DeFiDiscoveryFailure[];
+}
+
+/**
+ * Concatenate position lists, dropping duplicates by position id.
+ */
+export function mergeRawDeFiData(parts: RawDeFiData[]): RawDeFiData {
+  const merged: Required<RawDeFiData> = {
+    liquidityPositions: [],
+    stakedPositions: [],
+    lendingPositions: [],
+    vaultPositions: [],
+  };
+  const seen = new Set<string>();
+
+  const append = <T extends { id: string }>(target: T[], source?: T[]) => {
+    for (const pos of source ?? []) {
+      if (seen.has(pos.id)) continue;
+      seen.add(pos.id);
+      target.push(pos);
+    }
+  };
+
+  for (const part of parts) {
+    append(merged.liquidityPositions, part.liquidityPositions);
+    append(merged.stakedPositions, part.stakedPositions);
+    append(merged.lendingPositions, part.lendingPositions);
+    append(merged.vaultPositions, part.vaultPositions);
+  }
+
+  return merged;
+}
+
+export class DeFiDiscoveryService {
+  private adapters: IDeFiProtocolAdapter[];
+
+  constructor(adapters: IDeFiProtocolAdapter[]) {
+    this.adapters = adapters;
+  }
+
+  /**
+   * Registered protocol adapters
+   */
+  getAdapters(): IDeFiProtocolAdapter[] {
+    return [...this.adapters];
+  }
+
+  /**
+   * Discover positions for every target across all adapters that support its chain
+   */
+  async discover(targets: DeFiDiscoveryTarget[]): Promise<Result<DeFiDiscoveryResult, DomainError>> {
+    const jobs: Array<{ adapter: IDeFiProtocolAdapter; target: DeFiDiscoveryTarget }> = [];
+    for (const target of targets) {
+      for (const adapter of this.adapters) {
+        if (adapter.supportsChain(target.chainId)) {
+          jobs.push({ adapter, target });
+        }
+      }
+    }
+
+    const settled = await Promise.allSettled(
+      jobs.map(({ adapter, target }) => adapter.discoverPositions(target))
+    );
+
+    const parts: RawDeFiData[] = [];
+    const failures: DeFiDiscoveryFailure[] = [];
+
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        parts.push(outcome.value);
+        return;
+      }
+      const { adapter, target } = jobs[i];
+      failures.push({
+        protocol: adapter.name,
+        address: target.address,
+        chainId: target.chainId,
+        message: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+      });
+    });
+
+    if (jobs.length > 0 && failures.length === jobs.length) {
+      return Result.failure(
+        new ServiceError('DEFI_DISCOVERY_ERROR', 'Failed to load DeFi positions from any protocol', {
+          failures,
+        })
+      );
+    }
+
+    return Result.success({ data: mergeRawDeFiData(parts), failures });
+  }
+}
@@ -15,7 +15,10 @@ export interface DeFiPosition {
   label: string;
   chain: Chain;
   underlyingAssets: UnderlyingAsset[];
-  valueUsd: number;
+  /** Null when the position could not be priced */
+  valueUsd: number | null;
   apy?: number;
   discoverySource: string;
+  /** Wallet address the position belongs to, when the discovery source reports it */
+  owner?: string;
 }
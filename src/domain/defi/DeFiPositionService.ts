@@ -13,9 +13,12 @@ export interface RawDeFiData {
   vaultPositions?: VaultPosition[];
 }
 
-function getValueUsd(value?: { value?: number; amount?: number }): number {
-  if (!value) return 0;
-  return value.value ?? value.amount ?? 0;
+function getOwner(metadata?: Record<string, unknown>): string | undefined {
+  return typeof metadata?.owner === 'string' ? metadata.owner : undefined;
+}
+
+function getValueUsd(value?: { value?: number; amount?: number }): number | null {
+  return value?.value ?? value?.amount ?? null;
 }
 
 export function normalizeLiquidityPosition(
@@ -35,6 +38,7 @@ export function normalizeLiquidityPosition(
     })),
     valueUsd: getValueUsd(pos.value),
     discoverySource: source,
+    owner: getOwner(pos.metadata),
   };
 }
 
@@ -58,6 +62,7 @@ export function normalizeStakedPosition(
     valueUsd: getValueUsd(pos.value),
     apy: pos.apr,
     discoverySource: source,
+    owner: getOwner(pos.metadata),
   };
 }
 
@@ -81,6 +86,7 @@ export function normalizeLendingPosition(
     valueUsd: getValueUsd(pos.value),
     apy: pos.apy,
     discoverySource: source,
+    owner: getOwner(pos.metadata),
   };
 }
 
@@ -104,6 +110,7 @@ export function normalizeVaultPosition(
     valueUsd: getValueUsd(pos.value),
     apy: pos.apy,
     discoverySource: source,
+    owner: getOwner(pos.metadata),
   };
 }
 
@@ -0,0 +1,29 @@
+/**
+ * DeFiProtocolAdapter
+ *
+ * Contract for protocol-specific position readers. Each adapter knows the
+ * contracts of one protocol (Aave, Compound, ...) and turns on-chain state for
+ * a wallet into the raw data-model positions consumed by DeFiPositionService.
+ */
+
+import type { RawDeFiData } from './DeFiPositionService';
+
+export interface DeFiDiscoveryTarget {
+  /** Wallet address (checksummed or lowercase hex) */
+  address: string;
+  /** Numeric EVM chain id */
+  chainId: number;
+}
+
+export interface IDeFiProtocolAdapter {
+  /** Stable identifier, e.g. 'aave-v3' */
+  readonly id: string;
+  /** Display name used as the position's protocol label */
+  readonly name: string;
+
+  /** Whether the protocol is deployed on the given chain */
+  supportsChain(chainId: number): boolean;
+
+  /** Read all positions held by the target wallet on the target chain */
+  discoverPositions(target: DeFiDiscoveryTarget): Promise<RawDeFiData>;
+}
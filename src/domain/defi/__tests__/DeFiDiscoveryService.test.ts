@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { StakedPosition, LendingPosition, Chain } from '@cygnus-wealth/data-models';
+import { DeFiDiscoveryService, mergeRawDeFiData } from '../DeFiDiscoveryService';
+import type { IDeFiProtocolAdapter } from '../DeFiProtocolAdapter';
+import type { RawDeFiData } from '../DeFiPositionService';
+
+const staked = (id: string): StakedPosition => ({
+  id,
+  protocol: 'Lido',
+  chain: 'ETHEREUM' as Chain,
+  asset: { id: 'steth', symbol: 'stETH', name: 'stETH', type: 'STAKED_POSITION' as StakedPosition['asset']['type'] },
+  stakedAmount: '1',
+  rewards: [],
+});
+
+const lending = (id: string): LendingPosition => ({
+  id,
+  protocol: 'Aave V3',
+  chain: 'ETHEREUM' as Chain,
+  type: 'SUPPLY' as LendingPosition['type'],
+  asset: { id: 'usdc', symbol: 'USDC', name: 'USD Coin', type: 'CRYPTOCURRENCY' as LendingPosition['asset']['type'] },
+  amount: '100',
+});
+
+function makeAdapter(
+  name: string,
+  chains: number[],
+  discover: (chainId: number) => Promise<RawDeFiData>
+): IDeFiProtocolAdapter {
+  return {
+    id: name.toLowerCase(),
+    name,
+    supportsChain: (chainId: number) => chains.includes(chainId),
+    discoverPositions: vi.fn(({ chainId }) => discover(chainId)),
+  };
+}
+
+describe('mergeRawDeFiData', () => {
+  it('concatenates position lists and drops duplicate ids', () => {
+    const merged = mergeRawDeFiData([
+      { stakedPositions: [staked('a')] },
+      { stakedPositions: [staked('a'), staked('b')], lendingPositions: [lending('c')] },
+    ]);
+
+    expect(merged.stakedPositions?.map(p => p.id)).toEqual(['a', 'b']);
+    expect(merged.lendingPositions?.map(p => p.id)).toEqual(['c']);
+    expect(merged.liquidityPositions).toEqual([]);
+  });
+});
+
+describe('DeFiDiscoveryService', () => {
+  it('only runs adapters on chains they support', async () => {
+    const lido = makeAdapter('Lido', [1], async () => ({ stakedPositions: [staked('lido-1')] }));
+    const aave = makeAdapter('Aave V3', [1, 10], async (chainId) => ({ lendingPositions: [lending(`aave-${chainId}`)] }));
+    const service = new DeFiDiscoveryService([lido, aave]);
+
+    const result = await service.discover([
+      { address: '0xabc', chainId: 1 },
+      { address: '0xabc', chainId: 10 },
+    ]);
+
+    expect(lido.discoverPositions).toHaveBeenCalledTimes(1);
+    expect(aave.discoverPositions).toHaveBeenCalledTimes(2);
+    expect(result.value.data.lendingPositions?.map(p => p.id)).toEqual(['aave-1', 'aave-10']);
+    expect(result.value.failures).toEqual([]);
+  });
+
+  it('keeps positions from healthy protocols when one fails', async () => {
+    const lido = makeAdapter('Lido', [1], async () => ({ stakedPositions: [staked('lido-1')] }));
+    const aave = makeAdapter('Aave V3', [1], async () => {
+      throw new Error('execution reverted');
+    });
+    const service = new DeFiDiscoveryService([lido, aave]);
+
+    const result = await service.discover([{ address: '0xabc', chainId: 1 }]);
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.data.stakedPositions).toHaveLength(1);
+    expect(result.value.failures).toEqual([
+      { protocol: 'Aave V3', address: '0xabc', chainId: 1, message: 'execution reverted' },
+    ]);
+  });
+
+  it('fails when every protocol read fails', async () => {
+    const aave = makeAdapter('Aave V3', [1], async () => {
+      throw new Error('rpc down');
+    });
+    const service = new DeFiDiscoveryService([aave]);
+
+    const result = await service.discover([{ address: '0xabc', chainId: 1 }]);
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.code).toBe('DEFI_DISCOVERY_ERROR');
+  });
+
+  it('succeeds with no data when there is nothing to scan', async () => {
+    const service = new DeFiDiscoveryService([makeAdapter('Lido', [1], async () => ({}))]);
+
+    const result = await service.discover([]);
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.failures).toEqual([]);
+  });
+});
@@ -55,7 +55,7 @@ describe('DeFiPositionService', () => {
       expect(result.discoverySource).toBe('subgraph');
     });
 
-    it('should handle missing value', () => {
+    it('should leave a position without a value unpriced', () => {
       const lp: LiquidityPosition = {
         id: 'lp-1',
         protocol: 'Curve',
@@ -66,7 +66,7 @@ describe('DeFiPositionService', () => {
       };
 
       const result = normalizeLiquidityPosition(lp, 'rpc');
-      expect(result.valueUsd).toBe(0);
+      expect(result.valueUsd).toBeNull();
     });
   });
 
@@ -205,7 +205,7 @@ describe('DeFiPositionService', () => {
       expect(positions[2].positionType).toBe('lending');
       expect(positions[3].positionType).toBe('vault');
 
-      const totalValue = positions.reduce((sum, p) => sum + p.valueUsd, 0);
+      const totalValue = positions.reduce((sum, p) => sum + (p.valueUsd ?? 0), 0);
       expect(totalValue).toBe(55000);
     });
 
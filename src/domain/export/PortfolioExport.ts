@@ -0,0 +1,528 @@
+/**
+ * PortfolioExport
+ *
+ * Turns holdings, DeFi positions and accounts into spreadsheet-friendly CSV or
+ * a versioned JSON document. Rows are either raw (one per account holding) or
+ * aggregated (summed across accounts), values can be converted into another
+ * currency and every row is sorted deterministically so exports taken on
+ * different days diff cleanly.
+ */
+
+import { Result } from '../shared/Result';
+import { ValidationError } from '../shared/DomainError';
+import { BASE_CURRENCIES, CURRENCY_INFO } from '../asset/Currency';
+
+export const EXPORT_SCHEMA_VERSION = 1;
+export const EXPORT_SCHEMA_ID = `https://cygnus-wealth.app/schemas/portfolio-export/v${EXPORT_SCHEMA_VERSION}.json`;
+
+export const EXPORT_FORMATS = ['csv', 'xlsx-csv', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_MODES = ['raw', 'aggregated'] as const;
+export type ExportMode = typeof EXPORT_MODES[number];
+
+export const EXPORT_SECTIONS = ['holdings', 'defi', 'accounts'] as const;
+export type ExportSection = typeof EXPORT_SECTIONS[number];
+
+export const EXPORT_CURRENCIES = BASE_CURRENCIES;
+export type ExportCurrency = typeof EXPORT_CURRENCIES[number];
+
+export type ExportCell = string | number | null;
+export type ExportRow = Record<string, ExportCell>;
+
+/** Minimal account shape; credentials are deliberately not part of it */
+export interface ExportAccountInput {
+  id: string;
+  type: string;
+  platform: string;
+  label: string;
+  address?: string;
+  status: string;
+  lastSync?: string;
+}
+
+export interface ExportHoldingInput {
+  symbol: string;
+  name: string;
+  balance: string;
+  chain: string;
+  accountId: string;
+  priceUsd: number | null;
+  valueUsd: number | null;
+}
+
+export interface ExportDeFiInput {
+  id: string;
+  protocol: string;
+  positionType: string;
+  label: string;
+  chain: string;
+  underlyingAssets: { symbol: string; amount: string }[];
+  valueUsd: number | null;
+  apy?: number;
+  owner?: string;
+}
+
+export interface PortfolioExportInput {
+  accounts: ExportAccountInput[];
+  holdings: ExportHoldingInput[];
+  defiPositions: ExportDeFiInput[];
+  /** USD price per symbol, used to convert into BTC or ETH when no rate is given */
+  prices: Record<string, number>;
+  /** Units of a currency per US dollar */
+  exchangeRates?: Partial<Record<ExportCurrency, number>>;
+}
+
+export interface PortfolioExportOptions {
+  format: ExportFormat;
+  mode: ExportMode;
+  currency: ExportCurrency;
+  sections: ExportSection[];
+  /** Selected column keys per section; a missing entry means every column */
+  columns?: Partial<Record<ExportSection, string[]>>;
+  /** Same semantics as the Dashboard filter: null exports every account */
+  selectedAccountIds: ReadonlySet<string> | null;
+  generatedAt?: Date;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  /** Modes the column is available in; omitted means both */
+  modes?: ExportMode[];
+}
+
+/**
+ * Column catalog per section. Keys are part of the JSON schema, so renaming one
+ * requires bumping EXPORT_SCHEMA_VERSION.
+ */
+export function getExportColumns(section: ExportSection, mode: ExportMode, currency: ExportCurrency = 'USD'): ExportColumn[] {
+  const catalog: Record<ExportSection, ExportColumn[]> = {
+    holdings: [
+      { key: 'account', label: 'Account', modes: ['raw'] },
+      { key: 'accountId', label: 'Account ID', modes: ['raw'] },
+      { key: 'platform', label: 'Platform', modes: ['raw'] },
+      { key: 'chain', label: 'Chain' },
+      { key: 'symbol', label: 'Symbol' },
+      { key: 'name', label: 'Name' },
+      { key: 'balance', label: 'Balance' },
+      { key: 'price', label: `Price (${currency})` },
+      { key: 'value', label: `Value (${currency})` },
+      { key: 'accountCount', label: 'Accounts', modes: ['aggregated'] },
+    ],
+    defi: [
+      { key: 'id', label: 'Position ID', modes: ['raw'] },
+      { key: 'owner', label: 'Owner', modes: ['raw'] },
+      { key: 'protocol', label: 'Protocol' },
+      { key: 'chain', label: 'Chain' },
+      { key: 'type', label: 'Type', modes: ['raw'] },
+      { key: 'label', label: 'Position', modes: ['raw'] },
+      { key: 'underlying', label: 'Underlying Assets', modes: ['raw'] },
+      { key: 'apy', label: 'APY (%)', modes: ['raw'] },
+      { key: 'positionCount', label: 'Positions', modes: ['aggregated'] },
+      { key: 'value', label: `Value (${currency})` },
+    ],
+    accounts: [
+      { key: 'id', label: 'Account ID', modes: ['raw'] },
+      { key: 'label', label: 'Label', modes: ['raw'] },
+      { key: 'type', label: 'Type' },
+      { key: 'platform', label: 'Platform' },
+      { key: 'address', label: 'Address', modes: ['raw'] },
+      { key: 'status', label: 'Status', modes: ['raw'] },
+      { key: 'lastSync', label: 'Last Sync', modes: ['raw'] },
+      { key: 'accountCount', label: 'Accounts', modes: ['aggregated'] },
+      { key: 'holdingCount', label: 'Holdings' },
+      { key: 'value', label: `Value (${currency})` },
+    ],
+  };
+  return catalog[section].filter(column => !column.modes || column.modes.includes(mode));
+}
+
+function toNumber(value: string): number {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function compareText(a: ExportCell, b: ExportCell): number {
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+/** Sort by value descending, then by the given text keys so ties are stable */
+function sortRows(rows: ExportRow[], tieBreakers: string[]): ExportRow[] {
+  return rows.sort((a, b) => {
+    const byValue = (Number(b.value) || 0) - (Number(a.value) || 0);
+    if (byValue !== 0) return byValue;
+    for (const key of tieBreakers) {
+      const order = compareText(a[key], b[key]);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+interface ExportContext {
+  convert: (usd: number | null) => number | null;
+  accountsById: Map<string, ExportAccountInput>;
+}
+
+function holdingRows(holdings: ExportHoldingInput[], mode: ExportMode, ctx: ExportContext): ExportRow[] {
+  if (mode === 'raw') {
+    return sortRows(holdings.map(holding => {
+      const account = ctx.accountsById.get(holding.accountId);
+      return {
+        account: account?.label ?? null,
+        accountId: holding.accountId,
+        platform: account?.platform ?? null,
+        chain: holding.chain,
+        symbol: holding.symbol,
+        name: holding.name,
+        balance: holding.balance,
+        price: ctx.convert(holding.priceUsd),
+        value: ctx.convert(holding.valueUsd),
+      };
+    }), ['symbol', 'chain', 'accountId']);
+  }
+
+  const groups = new Map<string, { holding: ExportHoldingInput; balance: number; priceUsd: number | null; valueUsd: number | null; accounts: Set<string> }>();
+  for (const holding of holdings) {
+    const key = `${holding.symbol}-${holding.chain}`;
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, {
+        holding,
+        balance: toNumber(holding.balance),
+        priceUsd: holding.priceUsd,
+        valueUsd: holding.valueUsd,
+        accounts: new Set([holding.accountId]),
+      });
+      continue;
+    }
+    group.balance += toNumber(holding.balance);
+    group.priceUsd = group.priceUsd ?? holding.priceUsd;
+    group.valueUsd = holding.valueUsd === null ? group.valueUsd : (group.valueUsd ?? 0) + holding.valueUsd;
+    group.accounts.add(holding.accountId);
+  }
+
+  return sortRows(Array.from(groups.values(), ({ holding, balance, priceUsd, valueUsd, accounts }) => ({
+    chain: holding.chain,
+    symbol: holding.symbol,
+    name: holding.name,
+    balance,
+    price: ctx.convert(priceUsd),
+    value: ctx.convert(valueUsd),
+    accountCount: accounts.size,
+  })), ['symbol', 'chain']);
+}
+
+function defiRows(positions: ExportDeFiInput[], mode: ExportMode, ctx: ExportContext): ExportRow[] {
+  if (mode === 'raw') {
+    return sortRows(positions.map(position => ({
+      id: position.id,
+      owner: position.owner ?? null,
+      protocol: position.protocol,
+      chain: position.chain,
+      type: position.positionType,
+      label: position.label,
+      underlying: position.underlyingAssets.map(asset => `${asset.amount} ${asset.symbol}`).join(' + '),
+      apy: position.apy ?? null,
+      value: ctx.convert(position.valueUsd),
+    })), ['protocol', 'chain', 'id']);
+  }
+
+  const groups = new Map<string, ExportRow & { positionCount: number; valueUsd: number | null }>();
+  for (const position of positions) {
+    const key = `${position.protocol}-${position.chain}`;
+    const group = groups.get(key) ?? { protocol: position.protocol, chain: position.chain, positionCount: 0, valueUsd: null };
+    group.positionCount += 1;
+    group.valueUsd = position.valueUsd === null ? group.valueUsd : (group.valueUsd ?? 0) + position.valueUsd;
+    groups.set(key, group);
+  }
+
+  return sortRows(Array.from(groups.values(), ({ valueUsd, ...group }) => ({
+    ...group,
+    value: ctx.convert(valueUsd),
+  })), ['protocol', 'chain']);
+}
+
+function accountRows(
+  accounts: ExportAccountInput[],
+  holdings: ExportHoldingInput[],
+  mode: ExportMode,
+  ctx: ExportContext
+): ExportRow[] {
+  const totals = new Map<string, { holdingCount: number; valueUsd: number }>();
+  for (const holding of holdings) {
+    const total = totals.get(holding.accountId) ?? { holdingCount: 0, valueUsd: 0 };
+    total.holdingCount += 1;
+    total.valueUsd += holding.valueUsd ?? 0;
+    totals.set(holding.accountId, total);
+  }
+
+  if (mode === 'raw') {
+    return sortRows(accounts.map(account => ({
+      id: account.id,
+      label: account.label,
+      type: account.type,
+      platform: account.platform,
+      address: account.address ?? null,
+      status: account.status,
+      lastSync: account.lastSync ?? null,
+      holdingCount: totals.get(account.id)?.holdingCount ?? 0,
+      value: ctx.convert(totals.get(account.id)?.valueUsd ?? 0),
+    })), ['label', 'id']);
+  }
+
+  const groups = new Map<string, { type: string; platform: string; accountCount: number; holdingCount: number; valueUsd: number }>();
+  for (const account of accounts) {
+    const key = `${account.type}-${account.platform}`;
+    const group = groups.get(key) ?? { type: account.type, platform: account.platform, accountCount: 0, holdingCount: 0, valueUsd: 0 };
+    group.accountCount += 1;
+    group.holdingCount += totals.get(account.id)?.holdingCount ?? 0;
+    group.valueUsd += totals.get(account.id)?.valueUsd ?? 0;
+    groups.set(key, group);
+  }
+
+  return sortRows(Array.from(groups.values(), ({ valueUsd, ...group }) => ({
+    ...group,
+    value: ctx.convert(valueUsd),
+  })), ['platform', 'type']);
+}
+
+/**
+ * Apply the account selection. DeFi positions are matched through their owner
+ * address, since they are discovered per wallet rather than per account.
+ */
+export function filterExportInput(
+  input: PortfolioExportInput,
+  selectedAccountIds: ReadonlySet<string> | null
+): PortfolioExportInput {
+  if (selectedAccountIds === null) return input;
+
+  const accounts = input.accounts.filter(account => selectedAccountIds.has(account.id));
+  const addresses = new Set(
+    accounts.flatMap(account => account.address ? [account.address.toLowerCase()] : [])
+  );
+
+  return {
+    ...input,
+    accounts,
+    holdings: input.holdings.filter(holding => selectedAccountIds.has(holding.accountId)),
+    defiPositions: input.defiPositions.filter(
+      position => !!position.owner && addresses.has(position.owner.toLowerCase())
+    ),
+  };
+}
+
+export interface ExportSectionData {
+  columns: ExportColumn[];
+  rows: ExportRow[];
+}
+
+function isValidRate(rate: number | undefined): rate is number {
+  return rate !== undefined && Number.isFinite(rate) && rate > 0;
+}
+
+/**
+ * USD to `currency` conversion: the exchange rate when one is given, otherwise
+ * (BTC and ETH only) the asset's USD price. Null when neither is known.
+ */
+function currencyConverter(input: PortfolioExportInput, currency: ExportCurrency): ((usd: number) => number) | null {
+  if (currency === 'USD') return usd => usd;
+
+  const rate = input.exchangeRates?.[currency];
+  if (isValidRate(rate)) return usd => usd * rate;
+
+  const price = input.prices[currency];
+  if (CURRENCY_INFO[currency].kind === 'crypto' && isValidRate(price)) return usd => usd / price;
+  return null;
+}
+
+/**
+ * Build the rows of every requested section, restricted to the selected columns.
+ * Fails when a non-USD currency has no exchange rate or price to convert with.
+ */
+export function buildExportSections(
+  input: PortfolioExportInput,
+  options: Omit<PortfolioExportOptions, 'format' | 'generatedAt'>
+): Result<Partial<Record<ExportSection, ExportSectionData>>, ValidationError> {
+  const { mode, currency } = options;
+
+  const convert = currencyConverter(input, currency);
+  if (!convert) {
+    return Result.failure(new ValidationError(`No ${currency} exchange rate available to convert values`, 'currency', currency));
+  }
+
+  const filtered = filterExportInput(input, options.selectedAccountIds);
+  const ctx: ExportContext = {
+    convert: (usd) => usd === null ? null : convert(usd),
+    accountsById: new Map(input.accounts.map(account => [account.id, account])),
+  };
+
+  const sections: Partial<Record<ExportSection, ExportSectionData>> = {};
+  for (const section of EXPORT_SECTIONS) {
+    if (!options.sections.includes(section)) continue;
+
+    const available = getExportColumns(section, mode, currency);
+    const selected = options.columns?.[section];
+    const columns = selected
+      ? available.filter(column => selected.includes(column.key))
+      : available;
+    if (columns.length === 0) {
+      return Result.failure(new ValidationError(`Select at least one ${section} column`, 'columns', section));
+    }
+
+    const rows = section === 'holdings'
+      ? holdingRows(filtered.holdings, mode, ctx)
+      : section === 'defi'
+        ? defiRows(filtered.defiPositions, mode, ctx)
+        : accountRows(filtered.accounts, filtered.holdings, mode, ctx);
+
+    sections[section] = {
+      columns,
+      rows: rows.map(row => Object.fromEntries(columns.map(column => [column.key, row[column.key] ?? null]))),
+    };
+  }
+
+  return Result.success(sections);
+}
+
+function formatNumber(value: number): string {
+  // Avoid exponent notation, which spreadsheets may import as text
+  return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 12 });
+}
+
+/** Excel reads "YYYY-MM-DD HH:MM:SS" as a date; ISO strings with a T stay text */
+function formatSpreadsheetDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function formatCsvCell(value: ExportCell, key: string, format: ExportFormat): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return formatNumber(value);
+
+  let text = format === 'xlsx-csv' && key === 'lastSync' ? formatSpreadsheetDate(value) : value;
+  // Cells starting with these characters are evaluated as formulas by spreadsheets
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize one section as RFC 4180 CSV. The XLSX-compatible variant adds a
+ * UTF-8 byte order mark so Excel detects the encoding.
+ */
+export function toCsv(data: ExportSectionData, format: ExportFormat = 'csv'): string {
+  const lines = [
+    data.columns.map(column => formatCsvCell(column.label, 'label', format)).join(','),
+    ...data.rows.map(row =>
+      data.columns.map(column => formatCsvCell(row[column.key], column.key, format)).join(',')
+    ),
+  ];
+  const csv = `${lines.join('\r\n')}\r\n`;
+  return format === 'xlsx-csv' ? `\uFEFF${csv}` : csv;
+}
+
+export interface PortfolioExportDocument {
+  $schema: string;
+  schemaVersion: number;
+  generatedAt: string;
+  mode: ExportMode;
+  currency: ExportCurrency;
+  filter: { accountIds: string[] | null };
+  sections: Partial<Record<ExportSection, { columns: string[]; rows: ExportRow[] }>>;
+}
+
+/** JSON Schema (draft 2020-12) describing PortfolioExportDocument */
+export const PORTFOLIO_EXPORT_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: EXPORT_SCHEMA_ID,
+  title: 'Cygnus Wealth portfolio export',
+  type: 'object',
+  required: ['$schema', 'schemaVersion', 'generatedAt', 'mode', 'currency', 'filter', 'sections'],
+  properties: {
+    $schema: { const: EXPORT_SCHEMA_ID },
+    schemaVersion: { const: EXPORT_SCHEMA_VERSION },
+    generatedAt: { type: 'string', format: 'date-time' },
+    mode: { enum: [...EXPORT_MODES] },
+    currency: { enum: [...EXPORT_CURRENCIES] },
+    filter: {
+      type: 'object',
+      required: ['accountIds'],
+      properties: {
+        accountIds: { oneOf: [{ type: 'null' }, { type: 'array', items: { type: 'string' } }] },
+      },
+    },
+    sections: {
+      type: 'object',
+      propertyNames: { enum: [...EXPORT_SECTIONS] },
+      additionalProperties: {
+        type: 'object',
+        required: ['columns', 'rows'],
+        properties: {
+          columns: { type: 'array', items: { type: 'string' } },
+          rows: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: { type: ['string', 'number', 'null'] },
+            },
+          },
+        },
+      },
+    },
+  },
+  additionalProperties: false,
+} as const;
+
+/**
+ * Build the downloadable files: one CSV per section, or a single JSON document.
+ */
+export function exportPortfolio(
+  input: PortfolioExportInput,
+  options: PortfolioExportOptions
+): Result<ExportFile[], ValidationError> {
+  if (options.sections.length === 0) {
+    return Result.failure(new ValidationError('Select at least one section to export', 'sections'));
+  }
+
+  const generatedAt = options.generatedAt ?? new Date();
+  const stamp = generatedAt.toISOString().slice(0, 10);
+
+  return buildExportSections(input, options).map((sections): ExportFile[] => {
+    if (options.format === 'json') {
+      const document: PortfolioExportDocument = {
+        $schema: EXPORT_SCHEMA_ID,
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        generatedAt: generatedAt.toISOString(),
+        mode: options.mode,
+        currency: options.currency,
+        filter: {
+          accountIds: options.selectedAccountIds ? Array.from(options.selectedAccountIds).sort() : null,
+        },
+        sections: Object.fromEntries(
+          Object.entries(sections).map(([section, data]) => [
+            section,
+            { columns: data.columns.map(column => column.key), rows: data.rows },
+          ])
+        ),
+      };
+      return [{
+        filename: `cygnus-wealth-portfolio-${options.mode}-${stamp}.json`,
+        mimeType: 'application/json',
+        content: `${JSON.stringify(document, null, 2)}\n`,
+      }];
+    }
+
+    return Object.entries(sections).map(([section, data]) => ({
+      filename: `cygnus-wealth-${section}-${options.mode}-${stamp}.csv`,
+      mimeType: 'text/csv;charset=utf-8',
+      content: toCsv(data, options.format),
+    }));
+  });
+}
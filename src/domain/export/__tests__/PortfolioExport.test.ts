@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EXPORT_SCHEMA_ID,
+  EXPORT_SCHEMA_VERSION,
+  PORTFOLIO_EXPORT_JSON_SCHEMA,
+  buildExportSections,
+  exportPortfolio,
+  toCsv,
+  type PortfolioExportDocument,
+  type PortfolioExportInput,
+  type PortfolioExportOptions,
+} from '../PortfolioExport';
+
+const input: PortfolioExportInput = {
+  accounts: [
+    { id: 'w1', type: 'wallet', platform: 'Ethereum', label: 'Main', address: '0xAAA', status: 'connected', lastSync: '2026-10-01T12:30:00.000Z' },
+    { id: 'w2', type: 'wallet', platform: 'Ethereum', label: 'Cold, "vault"', address: '0xbbb', status: 'connected' },
+    { id: 'c1', type: 'cex', platform: 'Kraken', label: '=HYPERLINK("x")', status: 'connected' },
+  ],
+  holdings: [
+    { symbol: 'ETH', name: 'Ethereum', balance: '1.5', chain: 'Ethereum', accountId: 'w1', priceUsd: 2000, valueUsd: 3000 },
+    { symbol: 'ETH', name: 'Ethereum', balance: '0.5', chain: 'Ethereum', accountId: 'w2', priceUsd: 2000, valueUsd: 1000 },
+    { symbol: 'USDC', name: 'USD Coin', balance: '500', chain: 'Ethereum', accountId: 'w1', priceUsd: 1, valueUsd: 500 },
+    { symbol: 'BTC', name: 'Bitcoin', balance: '0.1', chain: 'Kraken', accountId: 'c1', priceUsd: null, valueUsd: null },
+  ],
+  defiPositions: [
+    { id: 'aave-1', protocol: 'Aave V3', positionType: 'lending', label: 'USDC supply', chain: 'Ethereum', underlyingAssets: [{ symbol: 'USDC', amount: '100' }], valueUsd: 100, apy: 4.2, owner: '0xaaa' },
+    { id: 'lido-1', protocol: 'Lido', positionType: 'staking', label: 'stETH Staking', chain: 'Ethereum', underlyingAssets: [{ symbol: 'stETH', amount: '1' }], valueUsd: 2000, owner: '0xBBB' },
+  ],
+  prices: { ETH: 2000 },
+};
+
+const baseOptions: PortfolioExportOptions = {
+  format: 'csv',
+  mode: 'raw',
+  currency: 'USD',
+  sections: ['holdings', 'defi', 'accounts'],
+  selectedAccountIds: null,
+  generatedAt: new Date('2026-10-18T08:00:00.000Z'),
+};
+
+describe('buildExportSections', () => {
+  it('aggregates holdings by symbol and chain across accounts', () => {
+    const sections = buildExportSections(input, { ...baseOptions, mode: 'aggregated' }).value;
+
+    expect(sections.holdings?.rows).toEqual([
+      { chain: 'Ethereum', symbol: 'ETH', name: 'Ethereum', balance: 2, price: 2000, value: 4000, accountCount: 2 },
+      { chain: 'Ethereum', symbol: 'USDC', name: 'USD Coin', balance: 500, price: 1, value: 500, accountCount: 1 },
+      { chain: 'Kraken', symbol: 'BTC', name: 'Bitcoin', balance: 0.1, price: null, value: null, accountCount: 1 },
+    ]);
+    expect(sections.accounts?.rows.map(row => [row.platform, row.accountCount, row.value])).toEqual([
+      ['Ethereum', 2, 4500],
+      ['Kraken', 1, 0],
+    ]);
+  });
+
+  it('honors the account selection, matching DeFi positions by owner address', () => {
+    const sections = buildExportSections(input, { ...baseOptions, selectedAccountIds: new Set(['w2']) }).value;
+
+    expect(sections.holdings?.rows.map(row => row.accountId)).toEqual(['w2']);
+    expect(sections.defi?.rows.map(row => row.id)).toEqual(['lido-1']);
+    expect(sections.accounts?.rows.map(row => row.id)).toEqual(['w2']);
+  });
+
+  it('restricts rows to the selected columns in catalog order', () => {
+    const sections = buildExportSections(input, {
+      ...baseOptions,
+      sections: ['holdings'],
+      columns: { holdings: ['value', 'symbol'] },
+    }).value;
+
+    expect(sections.defi).toBeUndefined();
+    expect(sections.holdings?.columns.map(column => column.key)).toEqual(['symbol', 'value']);
+    expect(sections.holdings?.rows[0]).toEqual({ symbol: 'ETH', value: 3000 });
+  });
+
+  it('converts values into the selected currency', () => {
+    const sections = buildExportSections(input, { ...baseOptions, currency: 'ETH', sections: ['defi'] }).value;
+
+    expect(sections.defi?.columns.at(-1)?.label).toBe('Value (ETH)');
+    expect(sections.defi?.rows.map(row => row.value)).toEqual([1, 0.05]);
+  });
+
+  it('prefers an exchange rate and converts into fiat currencies', () => {
+    const withRates = { ...input, exchangeRates: { EUR: 0.5, ETH: 0.001 } };
+
+    const eur = buildExportSections(withRates, { ...baseOptions, currency: 'EUR', sections: ['defi'] }).value;
+    expect(eur.defi?.columns.at(-1)?.label).toBe('Value (EUR)');
+    expect(eur.defi?.rows.map(row => row.value)).toEqual([1000, 50]);
+
+    const eth = buildExportSections(withRates, { ...baseOptions, currency: 'ETH', sections: ['defi'] }).value;
+    expect(eth.defi?.rows.map(row => row.value)).toEqual([2, 0.1]);
+    expect(buildExportSections(input, { ...baseOptions, currency: 'GBP' }).isFailure).toBe(true);
+  });
+
+  it('fails when the currency has no price', () => {
+    const result = buildExportSections(input, { ...baseOptions, currency: 'BTC' });
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.details?.field).toBe('currency');
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes special characters and neutralizes formulas', () => {
+    const { accounts } = buildExportSections(input, {
+      ...baseOptions,
+      columns: { accounts: ['label', 'value'] },
+    }).value;
+    const csv = toCsv(accounts!);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Label,Value (USD)',
+      'Main,3500',
+      '"Cold, ""vault""",1000',
+      '"\'=HYPERLINK(""x"")",0',
+      '',
+    ]);
+  });
+
+  it('adds a byte order mark and spreadsheet dates for Excel', () => {
+    const { accounts } = buildExportSections(input, {
+      ...baseOptions,
+      columns: { accounts: ['id', 'lastSync'] },
+    }).value;
+    const csv = toCsv(accounts!, 'xlsx-csv');
+
+    expect(csv.startsWith('\uFEFFAccount ID,Last Sync\r\n')).toBe(true);
+    expect(csv).toContain('w1,2026-10-01 12:30:00\r\n');
+  });
+});
+
+describe('exportPortfolio', () => {
+  it('writes one CSV file per section', () => {
+    const files = exportPortfolio(input, baseOptions).value;
+
+    expect(files.map(file => file.filename)).toEqual([
+      'cygnus-wealth-holdings-raw-2026-10-18.csv',
+      'cygnus-wealth-defi-raw-2026-10-18.csv',
+      'cygnus-wealth-accounts-raw-2026-10-18.csv',
+    ]);
+  });
+
+  it('writes a versioned JSON document that matches the schema', () => {
+    const [file] = exportPortfolio(input, {
+      ...baseOptions,
+      format: 'json',
+      selectedAccountIds: new Set(['w2', 'w1']),
+    }).value;
+    const document = JSON.parse(file.content) as PortfolioExportDocument;
+
+    expect(file.filename).toBe('cygnus-wealth-portfolio-raw-2026-10-18.json');
+    expect(document.$schema).toBe(EXPORT_SCHEMA_ID);
+    expect(document.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(document.filter.accountIds).toEqual(['w1', 'w2']);
+    expect(Object.keys(document).sort()).toEqual([...PORTFOLIO_EXPORT_JSON_SCHEMA.required].sort());
+    expect(document.sections.holdings?.columns).toContain('balance');
+    expect(document.sections.holdings?.rows[0]).toMatchObject({ symbol: 'ETH', balance: '1.5', accountId: 'w1' });
+  });
+
+  it('never exports account credentials', () => {
+    const withSecrets = {
+      ...input,
+      accounts: input.accounts.map(account => ({ ...account, apiKey: 'key-123', apiSecret: 'secret-456' })),
+    };
+    const [file] = exportPortfolio(withSecrets, { ...baseOptions, format: 'json' }).value;
+
+    expect(file.content).not.toContain('key-123');
+    expect(file.content).not.toContain('secret-456');
+  });
+
+  it('requires at least one section', () => {
+    expect(exportPortfolio(input, { ...baseOptions, sections: [] }).isFailure).toBe(true);
+  });
+});
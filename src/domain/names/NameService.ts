@@ -0,0 +1,69 @@
+/**
+ * NameService
+ *
+ * Human-readable names for wallet addresses: ENS (.eth) on Ethereum, SNS
+ * (.sol) on Solana and SuiNS (.sui) on Sui. Names resolve to an address when an
+ * account is added; known accounts are looked up the other way round for
+ * display. A reverse record is set by whoever controls the address and is not
+ * proof of anything, so a name is only shown once it resolves back to the
+ * same address.
+ */
+
+export type NameServiceKind = 'ens' | 'sns' | 'suins';
+
+export const NAME_SERVICE_LABELS: Record<NameServiceKind, string> = {
+  ens: 'ENS',
+  sns: 'SNS',
+  suins: 'SuiNS',
+};
+
+const NAME_SUFFIXES: Record<NameServiceKind, string> = {
+  ens: '.eth',
+  sns: '.sol',
+  suins: '.sui',
+};
+
+/** One service's lookups in both directions; null means no record */
+export interface NameResolver {
+  resolve(name: string): Promise<string | null>;
+  lookup(address: string): Promise<string | null>;
+}
+
+/** How long a lookup is trusted before it is repeated */
+export const NAME_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+/** Addresses without a name are asked again sooner, in case one is set */
+export const MISSING_NAME_TTL_MS = 60 * 60 * 1000;
+
+export function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** The service a name belongs to, or null when the input is not a supported name */
+export function nameServiceForName(name: string): NameServiceKind | null {
+  const normalized = normalizeName(name);
+  for (const [kind, suffix] of Object.entries(NAME_SUFFIXES) as Array<[NameServiceKind, string]>) {
+    // At least one label before the suffix, no spaces
+    if (normalized.length > suffix.length && normalized.endsWith(suffix) && !/\s/.test(normalized)) return kind;
+  }
+  return null;
+}
+
+const EVM_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/** The service naming addresses of a wallet platform; EVM chains share ENS */
+export function nameServiceForPlatform(platform: string): NameServiceKind {
+  if (platform === 'Solana') return 'sns';
+  if (platform === 'SUI') return 'suins';
+  return 'ens';
+}
+
+/** The service that names an account's address, or null when none does */
+export function nameServiceForAccount(platform: string, address: string): NameServiceKind | null {
+  const kind = nameServiceForPlatform(platform);
+  return kind !== 'ens' || EVM_ADDRESS_PATTERN.test(address) ? kind : null;
+}
+
+/** Whether two addresses of a service are the same; hex addresses ignore case */
+export function sameAddress(kind: NameServiceKind, a: string, b: string): boolean {
+  return kind === 'sns' ? a === b : a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { nameServiceForAccount, nameServiceForName, nameServiceForPlatform, sameAddress } from '../NameService';
+
+describe('nameServiceForName', () => {
+  it('picks the service by suffix', () => {
+    expect(nameServiceForName('vitalik.eth')).toBe('ens');
+    expect(nameServiceForName(' Toly.SOL ')).toBe('sns');
+    expect(nameServiceForName('dex.bonfida.sol')).toBe('sns');
+    expect(nameServiceForName('example.sui')).toBe('suins');
+  });
+
+  it('rejects addresses and incomplete names', () => {
+    expect(nameServiceForName('0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045')).toBeNull();
+    expect(nameServiceForName('.eth')).toBeNull();
+    expect(nameServiceForName('my name.eth')).toBeNull();
+    expect(nameServiceForName('example.com')).toBeNull();
+  });
+});
+
+describe('nameServiceForAccount', () => {
+  it('follows the platform, with ENS for EVM addresses only', () => {
+    expect(nameServiceForPlatform('Polygon')).toBe('ens');
+    expect(nameServiceForAccount('Multi-Chain EVM', '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045')).toBe('ens');
+    expect(nameServiceForAccount('Solana', 'HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH')).toBe('sns');
+    expect(nameServiceForAccount('SUI', `0x${'a'.repeat(64)}`)).toBe('suins');
+    expect(nameServiceForAccount('Ethereum', 'not-an-address')).toBeNull();
+  });
+});
+
+describe('sameAddress', () => {
+  it('ignores case for hex addresses only', () => {
+    expect(sameAddress('ens', '0xABC', '0xabc')).toBe(true);
+    expect(sameAddress('sns', 'AbC', 'abc')).toBe(false);
+  });
+});
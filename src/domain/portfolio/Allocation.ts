@@ -0,0 +1,78 @@
+/**
+ * Allocation
+ *
+ * Groups valued holdings into weighted slices (by chain, account, category, ...)
+ * for allocation charts and drift calculations.
+ */
+
+export interface AllocationInput {
+  valueUsd: number | null;
+}
+
+export interface AllocationSlice {
+  key: string;
+  label: string;
+  value: number;
+  percentage: number; // 0-100
+}
+
+export interface AllocationOptions {
+  /** Slices beyond this count are merged into a single "Other" slice */
+  maxSlices?: number;
+  /** Resolve a display label for a group key (defaults to the key itself) */
+  getLabel?: (key: string) => string;
+}
+
+export const OTHER_SLICE_KEY = '__other__';
+
+/**
+ * Compute allocation slices, sorted by value descending.
+ * Items without a positive value are ignored.
+ */
+export function computeAllocation<T extends AllocationInput>(
+  items: T[],
+  getKey: (item: T) => string,
+  options: AllocationOptions = {}
+): AllocationSlice[] {
+  const totals = new Map<string, number>();
+  let grandTotal = 0;
+
+  for (const item of items) {
+    const value = item.valueUsd ?? 0;
+    if (!Number.isFinite(value) || value <= 0) continue;
+
+    const key = getKey(item);
+    totals.set(key, (totals.get(key) ?? 0) + value);
+    grandTotal += value;
+  }
+
+  if (grandTotal === 0) return [];
+
+  const getLabel = options.getLabel ?? ((key: string) => key);
+  let slices: AllocationSlice[] = Array.from(totals.entries())
+    .map(([key, value]) => ({
+      key,
+      label: getLabel(key),
+      value,
+      percentage: (value / grandTotal) * 100,
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  const { maxSlices } = options;
+  if (maxSlices && maxSlices > 0 && slices.length > maxSlices) {
+    const kept = slices.slice(0, maxSlices - 1);
+    const rest = slices.slice(maxSlices - 1);
+    const otherValue = rest.reduce((sum, s) => sum + s.value, 0);
+    slices = [
+      ...kept,
+      {
+        key: OTHER_SLICE_KEY,
+        label: 'Other',
+        value: otherValue,
+        percentage: (otherValue / grandTotal) * 100,
+      },
+    ];
+  }
+
+  return slices;
+}
@@ -0,0 +1,48 @@
+/**
+ * AssetCategory
+ *
+ * Coarse classification of assets by economic role, used for allocation
+ * breakdowns. Classification is symbol-based and intentionally conservative:
+ * anything not explicitly listed falls into 'other'.
+ */
+
+export type AssetCategory =
+  | 'native'
+  | 'stablecoin'
+  | 'wrapped'
+  | 'liquid-staking'
+  | 'defi'
+  | 'other';
+
+export const ASSET_CATEGORY_LABELS: Record<AssetCategory, string> = {
+  native: 'Native',
+  stablecoin: 'Stablecoins',
+  wrapped: 'Wrapped',
+  'liquid-staking': 'Liquid Staking',
+  defi: 'DeFi & Governance',
+  other: 'Other',
+};
+
+const CATEGORY_SYMBOLS: Record<Exclude<AssetCategory, 'other'>, string[]> = {
+  native: ['ETH', 'BTC', 'SOL', 'SUI', 'MATIC', 'POL', 'BNB', 'AVAX', 'XDAI', 'MNT'],
+  stablecoin: [
+    'USDC', 'USDT', 'DAI', 'PYUSD', 'USDC.E', 'USDBC', 'FRAX', 'LUSD',
+    'USDE', 'GUSD', 'TUSD', 'BUSD', 'FDUSD', 'USDS', 'CRVUSD', 'GHO',
+  ],
+  wrapped: ['WETH', 'WBTC', 'WMATIC', 'WPOL', 'WBNB', 'WAVAX', 'WSOL', 'CBBTC', 'TBTC'],
+  'liquid-staking': ['STETH', 'WSTETH', 'CBETH', 'RETH', 'WEETH', 'EZETH', 'MSOL', 'JITOSOL', 'BSOL'],
+  defi: ['UNI', 'AAVE', 'LINK', 'ARB', 'OP', 'COMP', 'MKR', 'LDO', 'CRV', 'SNX', 'JUP'],
+};
+
+const SYMBOL_TO_CATEGORY: Map<string, AssetCategory> = new Map(
+  Object.entries(CATEGORY_SYMBOLS).flatMap(([category, symbols]) =>
+    symbols.map(symbol => [symbol, category as AssetCategory] as const)
+  )
+);
+
+/**
+ * Classify an asset by its ticker symbol (case-insensitive)
+ */
+export function getAssetCategory(symbol: string): AssetCategory {
+  return SYMBOL_TO_CATEGORY.get(symbol.trim().toUpperCase()) ?? 'other';
+}
@@ -0,0 +1,326 @@
+/**
+ * CostBasis
+ *
+ * Lot accounting for holdings. Acquisitions open lots and disposals consume
+ * them in the order of the chosen method (FIFO, LIFO, HIFO or a pooled
+ * average cost); each disposal reports its realized P&L and the lots left
+ * open give the cost basis for unrealized P&L against the current price.
+ * Entries come from imported activity or are typed in by hand; an imported
+ * entry has no price until the user supplies one, and positions built on such
+ * lots are flagged as incomplete.
+ */
+
+import { Result } from '../shared/Result';
+import { ValidationError } from '../shared/DomainError';
+import type { BalanceAggregate } from '../asset/BalanceAggregate';
+import type { Price } from '../asset/Price';
+import type { Transaction } from '../activity/Transaction';
+
+export const COST_BASIS_METHODS = ['fifo', 'lifo', 'hifo', 'average'] as const;
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+
+export type CostBasisEntryType = 'acquire' | 'dispose';
+
+export interface CostBasisEntry {
+  id: string;
+  accountId: string;
+  chain: string;
+  symbol: string;
+  type: CostBasisEntryType;
+  quantity: number;
+  /** USD per unit paid (acquire) or received (dispose); null when not yet known */
+  unitPrice: number | null;
+  /** USD fee; added to the cost of an acquisition, deducted from disposal proceeds */
+  fee?: number;
+  /** Epoch milliseconds */
+  timestamp: number;
+  source: 'transaction' | 'manual';
+  /** Activity record the entry was imported from */
+  transactionId?: string;
+}
+
+export interface OpenLot {
+  entryId: string;
+  quantity: number;
+  /** USD per unit including fees; null when the acquisition price is unknown */
+  unitCost: number | null;
+  acquiredAt: number;
+}
+
+export interface Disposal {
+  entryId: string;
+  timestamp: number;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  realizedPnL: number;
+  /** Quantity sold beyond the tracked lots; carries no cost basis */
+  unmatchedQuantity: number;
+}
+
+export interface CostBasisPosition {
+  accountId: string;
+  chain: string;
+  symbol: string;
+  /** Quantity still held in open lots */
+  quantity: number;
+  costBasis: number;
+  averageCost: number | null;
+  realizedPnL: number;
+  openLots: OpenLot[];
+  disposals: Disposal[];
+  /** Some lots or disposals lack a price, so the figures understate reality */
+  incomplete: boolean;
+}
+
+export interface UnrealizedPnL {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnL: number;
+  /** Percent of cost basis; null when nothing was paid */
+  unrealizedPnLPercent: number | null;
+  /** Held quantity that has no lot behind it (history not imported) */
+  uncoveredQuantity: number;
+}
+
+export function costBasisKey(accountId: string, chain: string, symbol: string): string {
+  return `${accountId}:${chain}:${symbol.toUpperCase()}`;
+}
+
+export function validateCostBasisEntry(entry: CostBasisEntry): Result<CostBasisEntry, ValidationError> {
+  if (!entry.accountId) {
+    return Result.failure(new ValidationError('Account is required', 'accountId'));
+  }
+  if (!entry.chain || entry.chain.trim().length === 0) {
+    return Result.failure(new ValidationError('Chain is required', 'chain'));
+  }
+  if (!entry.symbol || entry.symbol.trim().length === 0) {
+    return Result.failure(new ValidationError('Asset symbol is required', 'symbol'));
+  }
+  if (!Number.isFinite(entry.quantity) || entry.quantity <= 0) {
+    return Result.failure(new ValidationError('Quantity must be a positive number', 'quantity', entry.quantity));
+  }
+  if (entry.unitPrice !== null && (!Number.isFinite(entry.unitPrice) || entry.unitPrice < 0)) {
+    return Result.failure(new ValidationError('Unit price must be zero or more', 'unitPrice', entry.unitPrice));
+  }
+  if (entry.fee !== undefined && (!Number.isFinite(entry.fee) || entry.fee < 0)) {
+    return Result.failure(new ValidationError('Fee must be zero or more', 'fee', entry.fee));
+  }
+  if (!Number.isFinite(entry.timestamp)) {
+    return Result.failure(new ValidationError('Date is required', 'timestamp', entry.timestamp));
+  }
+  return Result.success({ ...entry, symbol: entry.symbol.trim().toUpperCase() });
+}
+
+/**
+ * Turn received and sent transfers into entries, skipping activity that was
+ * already imported. Prices are left empty for the user to fill in.
+ */
+export function entriesFromTransactions(
+  transactions: Transaction[],
+  existing: CostBasisEntry[]
+): CostBasisEntry[] {
+  const imported = new Set(existing.map(entry => entry.transactionId).filter(Boolean));
+
+  return transactions.flatMap(tx => {
+    if (imported.has(tx.id)) return [];
+    if (tx.kind !== 'transfer' || tx.status !== 'success') return [];
+    if (tx.direction !== 'in' && tx.direction !== 'out') return [];
+    const quantity = Number(tx.amount);
+    if (!tx.symbol || !Number.isFinite(quantity) || quantity <= 0 || tx.timestamp === null) return [];
+
+    return [{
+      id: `tx:${tx.id}`,
+      accountId: tx.accountId,
+      chain: tx.chain,
+      symbol: tx.symbol.toUpperCase(),
+      type: tx.direction === 'in' ? 'acquire' as const : 'dispose' as const,
+      quantity,
+      unitPrice: null,
+      timestamp: tx.timestamp,
+      source: 'transaction' as const,
+      transactionId: tx.id,
+    }];
+  });
+}
+
+/** Index of the next lot to consume under a method; the pooled average never has more than one */
+function nextLot(lots: OpenLot[], method: CostBasisMethod): number {
+  switch (method) {
+    case 'lifo':
+      return lots.length - 1;
+    case 'hifo': {
+      let best = 0;
+      for (let i = 1; i < lots.length; i++) {
+        if ((lots[i].unitCost ?? -1) > (lots[best].unitCost ?? -1)) best = i;
+      }
+      return best;
+    }
+    default:
+      return 0;
+  }
+}
+
+function compareEntries(a: CostBasisEntry, b: CostBasisEntry): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+  // Same instant: buy before sell so a same-block round trip has a lot to consume
+  if (a.type !== b.type) return a.type === 'acquire' ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Floating point leftovers below this are treated as an emptied lot
+const EPSILON = 1e-12;
+
+function emptyPosition(entry: CostBasisEntry): CostBasisPosition {
+  return {
+    accountId: entry.accountId,
+    chain: entry.chain,
+    symbol: entry.symbol.toUpperCase(),
+    quantity: 0,
+    costBasis: 0,
+    averageCost: null,
+    realizedPnL: 0,
+    openLots: [],
+    disposals: [],
+    incomplete: false,
+  };
+}
+
+function acquire(position: CostBasisPosition, entry: CostBasisEntry, method: CostBasisMethod): void {
+  const fee = entry.fee ?? 0;
+  const unitCost = entry.unitPrice === null ? null : entry.unitPrice + fee / entry.quantity;
+  if (unitCost === null) position.incomplete = true;
+
+  const pool = position.openLots[0];
+  if (method === 'average' && pool) {
+    const total = pool.quantity + entry.quantity;
+    const cost = (pool.unitCost ?? 0) * pool.quantity + (unitCost ?? 0) * entry.quantity;
+    position.openLots = [{ ...pool, quantity: total, unitCost: cost / total }];
+    return;
+  }
+  position.openLots.push({ entryId: entry.id, quantity: entry.quantity, unitCost, acquiredAt: entry.timestamp });
+}
+
+function dispose(position: CostBasisPosition, entry: CostBasisEntry, method: CostBasisMethod): void {
+  let remaining = entry.quantity;
+  let costBasis = 0;
+
+  while (remaining > EPSILON && position.openLots.length > 0) {
+    const index = nextLot(position.openLots, method);
+    const lot = position.openLots[index];
+    const used = Math.min(lot.quantity, remaining);
+
+    costBasis += used * (lot.unitCost ?? 0);
+    remaining -= used;
+    lot.quantity -= used;
+    if (lot.quantity <= EPSILON) position.openLots.splice(index, 1);
+  }
+
+  const unmatchedQuantity = remaining > EPSILON ? remaining : 0;
+  if (entry.unitPrice === null || unmatchedQuantity > 0) position.incomplete = true;
+
+  const proceeds = entry.unitPrice === null ? 0 : entry.unitPrice * entry.quantity - (entry.fee ?? 0);
+  const realizedPnL = entry.unitPrice === null ? 0 : proceeds - costBasis;
+  position.realizedPnL += realizedPnL;
+  position.disposals.push({
+    entryId: entry.id,
+    timestamp: entry.timestamp,
+    quantity: entry.quantity,
+    proceeds,
+    costBasis,
+    realizedPnL,
+    unmatchedQuantity,
+  });
+}
+
+/**
+ * Replay entries in time order and return one position per account, chain and asset
+ */
+export function calculateCostBasis(
+  entries: CostBasisEntry[],
+  method: CostBasisMethod
+): Map<string, CostBasisPosition> {
+  const positions = new Map<string, CostBasisPosition>();
+
+  for (const entry of [...entries].sort(compareEntries)) {
+    const key = costBasisKey(entry.accountId, entry.chain, entry.symbol);
+    let position = positions.get(key);
+    if (!position) {
+      position = emptyPosition(entry);
+      positions.set(key, position);
+    }
+
+    if (entry.type === 'acquire') acquire(position, entry, method);
+    else dispose(position, entry, method);
+  }
+
+  for (const position of positions.values()) {
+    position.quantity = position.openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    position.costBasis = position.openLots.reduce((sum, lot) => sum + lot.quantity * (lot.unitCost ?? 0), 0);
+    position.averageCost = position.quantity > EPSILON ? position.costBasis / position.quantity : null;
+  }
+
+  return positions;
+}
+
+/**
+ * Merge the positions of several accounts holding the same asset, for rows
+ * that aggregate accounts. Lots and disposals are concatenated as-is.
+ */
+export function combinePositions(positions: CostBasisPosition[]): CostBasisPosition | null {
+  if (positions.length === 0) return null;
+  if (positions.length === 1) return positions[0];
+
+  const [first] = positions;
+  const quantity = positions.reduce((sum, p) => sum + p.quantity, 0);
+  const costBasis = positions.reduce((sum, p) => sum + p.costBasis, 0);
+  return {
+    accountId: first.accountId,
+    chain: first.chain,
+    symbol: first.symbol,
+    quantity,
+    costBasis,
+    averageCost: quantity > EPSILON ? costBasis / quantity : null,
+    realizedPnL: positions.reduce((sum, p) => sum + p.realizedPnL, 0),
+    openLots: positions.flatMap(p => p.openLots),
+    disposals: positions.flatMap(p => p.disposals),
+    incomplete: positions.some(p => p.incomplete),
+  };
+}
+
+/**
+ * Unrealized P&L of the open lots at a price. Quantity held beyond the lots
+ * is reported as uncovered rather than valued at an invented cost.
+ */
+export function calculateUnrealizedPnL(
+  position: CostBasisPosition,
+  heldQuantity: number,
+  price: Price
+): UnrealizedPnL {
+  // Lots can exceed the balance when outgoing activity was not imported
+  const covered = Math.min(position.quantity, heldQuantity);
+  const costBasis = position.quantity > EPSILON ? position.costBasis * (covered / position.quantity) : 0;
+  const marketValue = covered * price.getAmount();
+  const unrealizedPnL = marketValue - costBasis;
+
+  return {
+    marketValue,
+    costBasis,
+    unrealizedPnL,
+    unrealizedPnLPercent: costBasis > 0 ? (unrealizedPnL / costBasis) * 100 : null,
+    uncoveredQuantity: Math.max(0, heldQuantity - position.quantity),
+  };
+}
+
+/**
+ * Unrealized P&L for a loaded balance; null until its price has loaded
+ */
+export function unrealizedPnLForBalance(
+  balance: BalanceAggregate,
+  positions: Map<string, CostBasisPosition>
+): UnrealizedPnL | null {
+  const price = balance.getPrice();
+  const position = positions.get(costBasisKey(balance.getAccountId(), balance.getChain(), balance.getAssetSymbol()));
+  if (!price || !position) return null;
+  return calculateUnrealizedPnL(position, balance.getBalance().getAmountAsNumber(), price);
+}
@@ -0,0 +1,183 @@
+/**
+ * PortfolioSnapshot
+ *
+ * Point-in-time record of portfolio value, broken down by account, chain and asset.
+ * Snapshots are immutable once recorded; the helpers below build them from synced
+ * assets and thin them out over time (downsampling and retention).
+ */
+
+export type SnapshotGranularity = 'raw' | 'hour' | 'day' | 'week' | 'month';
+
+export interface PortfolioSnapshot {
+  id: string;
+  timestamp: number; // epoch milliseconds
+  currency: string;
+  totalValue: number;
+  assetCount: number;
+  byAccount: Record<string, number>;
+  byChain: Record<string, number>;
+  byAsset: Record<string, number>; // keyed by asset symbol
+}
+
+/** Minimal asset shape needed to build a snapshot */
+export interface SnapshotAssetInput {
+  symbol: string;
+  chain: string;
+  accountId: string;
+  valueUsd: number | null;
+}
+
+export interface SnapshotRetentionPolicy {
+  /** Every snapshot younger than this is kept */
+  rawMaxAgeMs: number;
+  /** Older snapshots are thinned to one per hour until this age */
+  hourlyMaxAgeMs: number;
+  /** Older snapshots are thinned to one per day until this age (null = keep forever) */
+  dailyMaxAgeMs: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_RETENTION_POLICY: SnapshotRetentionPolicy = {
+  rawMaxAgeMs: 2 * DAY_MS,
+  hourlyMaxAgeMs: 30 * DAY_MS,
+  dailyMaxAgeMs: null,
+};
+
+function addValue(target: Record<string, number>, key: string, value: number): void {
+  target[key] = (target[key] ?? 0) + value;
+}
+
+/**
+ * Build a snapshot from the current set of synced assets.
+ * Unpriced assets count towards assetCount but contribute no value.
+ */
+export function buildPortfolioSnapshot(
+  assets: SnapshotAssetInput[],
+  timestamp: number = Date.now(),
+  currency: string = 'USD'
+): PortfolioSnapshot {
+  const byAccount: Record<string, number> = {};
+  const byChain: Record<string, number> = {};
+  const byAsset: Record<string, number> = {};
+  let totalValue = 0;
+
+  for (const asset of assets) {
+    const value = asset.valueUsd ?? 0;
+    if (!Number.isFinite(value) || value <= 0) continue;
+
+    totalValue += value;
+    addValue(byAccount, asset.accountId, value);
+    addValue(byChain, asset.chain, value);
+    addValue(byAsset, asset.symbol, value);
+  }
+
+  return {
+    id: `snapshot-${timestamp}`,
+    timestamp,
+    currency,
+    totalValue,
+    assetCount: assets.length,
+    byAccount,
+    byChain,
+    byAsset,
+  };
+}
+
+/**
+ * Start of the bucket a timestamp falls into, in local time.
+ * Weeks start on Monday.
+ */
+export function getBucketStart(timestamp: number, granularity: SnapshotGranularity): number {
+  if (granularity === 'raw') return timestamp;
+
+  const date = new Date(timestamp);
+  date.setMinutes(0, 0, 0);
+  if (granularity === 'hour') return date.getTime();
+
+  date.setHours(0);
+  if (granularity === 'day') return date.getTime();
+
+  if (granularity === 'week') {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    date.setDate(date.getDate() - daysSinceMonday);
+    return date.getTime();
+  }
+
+  date.setDate(1);
+  return date.getTime();
+}
+
+/**
+ * Collapse snapshots into one per bucket, keeping the latest (closing) snapshot
+ * of each bucket. Input must be sorted by timestamp ascending.
+ */
+export function downsampleSnapshots(
+  snapshots: PortfolioSnapshot[],
+  granularity: SnapshotGranularity
+): PortfolioSnapshot[] {
+  if (granularity === 'raw') return snapshots;
+
+  const buckets = new Map<number, PortfolioSnapshot>();
+  for (const snapshot of snapshots) {
+    buckets.set(getBucketStart(snapshot.timestamp, granularity), snapshot);
+  }
+  return Array.from(buckets.values());
+}
+
+/**
+ * Reduce a series to at most maxPoints by even stride sampling.
+ * The first and last points are always preserved.
+ */
+export function limitPoints<T>(points: T[], maxPoints: number): T[] {
+  if (maxPoints <= 0 || points.length <= maxPoints) return points;
+  if (maxPoints === 1) return [points[points.length - 1]];
+
+  const step = (points.length - 1) / (maxPoints - 1);
+  const result: T[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    result.push(points[Math.round(i * step)]);
+  }
+  return result;
+}
+
+/**
+ * Determine which snapshots fall outside the retention policy.
+ * Returns the ids that should be deleted.
+ */
+export function selectSnapshotsToPrune(
+  snapshots: PortfolioSnapshot[],
+  policy: SnapshotRetentionPolicy,
+  now: number = Date.now()
+): string[] {
+  const toDelete: string[] = [];
+  const hourlyKeep = new Map<number, PortfolioSnapshot>();
+  const dailyKeep = new Map<number, PortfolioSnapshot>();
+
+  for (const snapshot of snapshots) {
+    const age = now - snapshot.timestamp;
+
+    if (age <= policy.rawMaxAgeMs) continue;
+
+    if (policy.dailyMaxAgeMs !== null && age > policy.dailyMaxAgeMs) {
+      toDelete.push(snapshot.id);
+      continue;
+    }
+
+    const tier = age <= policy.hourlyMaxAgeMs ? hourlyKeep : dailyKeep;
+    const bucket = getBucketStart(snapshot.timestamp, tier === hourlyKeep ? 'hour' : 'day');
+    const existing = tier.get(bucket);
+
+    if (!existing) {
+      tier.set(bucket, snapshot);
+    } else if (snapshot.timestamp >= existing.timestamp) {
+      toDelete.push(existing.id);
+      tier.set(bucket, snapshot);
+    } else {
+      toDelete.push(snapshot.id);
+    }
+  }
+
+  return toDelete;
+}
@@ -0,0 +1,247 @@
+/**
+ * Rebalance
+ *
+ * Compares holdings with target weights and suggests the trades that bring
+ * them back. Targets are set per asset symbol or per asset category; a symbol
+ * with its own target is left out of its category's target. Holdings without
+ * any target count towards a 0% target, so the weights describe the whole
+ * portfolio. Groups inside the tolerance band are left alone; groups outside it
+ * are traded back to their target weight. Nothing is executed, the plan only
+ * lists trades.
+ */
+
+import { Result } from '../shared/Result';
+import { ValidationError } from '../shared/DomainError';
+import { ASSET_CATEGORY_LABELS, getAssetCategory, type AssetCategory } from './AssetCategory';
+
+export type RebalanceTargetKind = 'asset' | 'category';
+
+export interface RebalanceTarget {
+  kind: RebalanceTargetKind;
+  /** Upper-case symbol for asset targets, an AssetCategory for category targets */
+  key: string;
+  /** Percent of the portfolio, 0-100 */
+  weight: number;
+}
+
+export interface RebalancePlan {
+  targets: RebalanceTarget[];
+  /** Allowed drift either side of a target, in percentage points */
+  tolerancePercent: number;
+  /** Trades smaller than this (USD) are not suggested */
+  minTradeUsd: number;
+}
+
+export const DEFAULT_REBALANCE_PLAN: RebalancePlan = {
+  targets: [],
+  tolerancePercent: 5,
+  minTradeUsd: 50,
+};
+
+export interface RebalanceHolding {
+  symbol: string;
+  /** Units held */
+  balance: number;
+  valueUsd: number | null;
+}
+
+export interface RebalanceDrift {
+  /** 'untargeted' groups a held symbol no target covers */
+  kind: RebalanceTargetKind | 'untargeted';
+  key: string;
+  label: string;
+  /** Held symbols counted towards this group */
+  symbols: string[];
+  currentValue: number;
+  currentPercent: number;
+  targetPercent: number;
+  /** Current minus target, in percentage points */
+  driftPercent: number;
+  withinTolerance: boolean;
+}
+
+export interface RebalanceTrade {
+  /** Key of the drift the trade corrects */
+  groupKey: string;
+  /** null when a category has no held asset to buy more of */
+  symbol: string | null;
+  side: 'buy' | 'sell';
+  valueUsd: number;
+  /** null without a price for the symbol */
+  units: number | null;
+}
+
+export interface RebalanceResult {
+  totalValue: number;
+  /** Sorted by distance from target, largest first */
+  drifts: RebalanceDrift[];
+  /** Sells first, since they fund the buys; largest first within each side */
+  trades: RebalanceTrade[];
+  /** Trades left out for being under the minimum trade size */
+  skippedTrades: RebalanceTrade[];
+}
+
+/** Weights are entered by hand, so a total off by rounding still counts as 100% */
+const WEIGHT_SUM_TOLERANCE = 0.01;
+
+function isAssetCategory(key: string): key is AssetCategory {
+  return key in ASSET_CATEGORY_LABELS;
+}
+
+function targetLabel(target: RebalanceTarget): string {
+  return target.kind === 'category' && isAssetCategory(target.key) ? ASSET_CATEGORY_LABELS[target.key] : target.key;
+}
+
+export function validateRebalancePlan(plan: RebalancePlan): Result<RebalancePlan, ValidationError> {
+  const seen = new Set<string>();
+  let total = 0;
+
+  for (const [index, target] of plan.targets.entries()) {
+    const path = `targets[${index}]`;
+    if (!target.key.trim()) {
+      return Result.failure(new ValidationError(`Target ${index + 1} has no asset or category`, 'targets', path));
+    }
+    if (target.kind === 'category' && !isAssetCategory(target.key)) {
+      return Result.failure(new ValidationError(`Unknown category ${target.key}`, 'targets', target.key));
+    }
+    if (!Number.isFinite(target.weight) || target.weight <= 0 || target.weight > 100) {
+      return Result.failure(new ValidationError(`${targetLabel(target)} needs a weight between 0 and 100`, 'targets', target.weight));
+    }
+    const id = `${target.kind}:${target.key.toUpperCase()}`;
+    if (seen.has(id)) {
+      return Result.failure(new ValidationError(`${targetLabel(target)} has more than one target`, 'targets', target.key));
+    }
+    seen.add(id);
+    total += target.weight;
+  }
+
+  if (plan.targets.length > 0 && Math.abs(total - 100) > WEIGHT_SUM_TOLERANCE) {
+    return Result.failure(new ValidationError(`Target weights add up to ${Number(total.toFixed(2))}%, not 100%`, 'targets', total));
+  }
+  if (!Number.isFinite(plan.tolerancePercent) || plan.tolerancePercent < 0) {
+    return Result.failure(new ValidationError('Tolerance cannot be negative', 'tolerancePercent', plan.tolerancePercent));
+  }
+  if (!Number.isFinite(plan.minTradeUsd) || plan.minTradeUsd < 0) {
+    return Result.failure(new ValidationError('Minimum trade size cannot be negative', 'minTradeUsd', plan.minTradeUsd));
+  }
+
+  return Result.success(plan);
+}
+
+interface HeldSymbol {
+  symbol: string;
+  balance: number;
+  value: number;
+}
+
+interface Group {
+  kind: RebalanceDrift['kind'];
+  key: string;
+  label: string;
+  weight: number;
+  held: HeldSymbol[];
+}
+
+/**
+ * Work out drift and trades for a validated plan. `prices` (USD by symbol,
+ * matched regardless of case) sizes trades in assets that are not held yet;
+ * held assets fall back to the price implied by their value.
+ */
+export function planRebalance(
+  holdings: RebalanceHolding[],
+  plan: RebalancePlan,
+  prices: Record<string, number> = {}
+): RebalanceResult {
+  const bySymbol = new Map<string, HeldSymbol>();
+  let totalValue = 0;
+  for (const holding of holdings) {
+    const value = holding.valueUsd ?? 0;
+    if (!Number.isFinite(value) || value <= 0) continue;
+    const symbol = holding.symbol.trim().toUpperCase();
+    const held = bySymbol.get(symbol) ?? { symbol, balance: 0, value: 0 };
+    held.balance += holding.balance;
+    held.value += value;
+    bySymbol.set(symbol, held);
+    totalValue += value;
+  }
+
+  // Symbols are compared upper-cased, so prices keyed e.g. 'stETH' are too
+  const priceBySymbol = new Map(Object.entries(prices).map(([symbol, price]) => [symbol.trim().toUpperCase(), price]));
+
+  const groups = new Map<string, Group>();
+  for (const target of plan.targets) {
+    const key = target.kind === 'asset' ? target.key.trim().toUpperCase() : target.key;
+    groups.set(`${target.kind}:${key}`, { kind: target.kind, key, label: targetLabel({ ...target, key }), weight: target.weight, held: [] });
+  }
+  for (const held of bySymbol.values()) {
+    const group = groups.get(`asset:${held.symbol}`)
+      ?? groups.get(`category:${getAssetCategory(held.symbol)}`);
+    if (group) {
+      group.held.push(held);
+    } else {
+      groups.set(`untargeted:${held.symbol}`, { kind: 'untargeted', key: held.symbol, label: held.symbol, weight: 0, held: [held] });
+    }
+  }
+
+  const drifts: RebalanceDrift[] = [];
+  const trades: RebalanceTrade[] = [];
+  const skippedTrades: RebalanceTrade[] = [];
+
+  for (const group of groups.values()) {
+    const currentValue = group.held.reduce((sum, held) => sum + held.value, 0);
+    const currentPercent = totalValue > 0 ? (currentValue / totalValue) * 100 : 0;
+    const driftPercent = currentPercent - group.weight;
+    const withinTolerance = totalValue === 0 || Math.abs(driftPercent) <= plan.tolerancePercent;
+    drifts.push({
+      kind: group.kind,
+      key: group.key,
+      label: group.label,
+      symbols: group.held.map(held => held.symbol),
+      currentValue,
+      currentPercent,
+      targetPercent: group.weight,
+      driftPercent,
+      withinTolerance,
+    });
+    if (withinTolerance) continue;
+
+    const difference = (totalValue * group.weight) / 100 - currentValue;
+    const side = difference > 0 ? 'buy' : 'sell';
+    for (const leg of splitTrade(group, Math.abs(difference), priceBySymbol)) {
+      const trade: RebalanceTrade = { groupKey: group.key, side, ...leg };
+      (trade.valueUsd < plan.minTradeUsd ? skippedTrades : trades).push(trade);
+    }
+  }
+
+  drifts.sort((a, b) => Math.abs(b.driftPercent) - Math.abs(a.driftPercent));
+  const bySideThenValue = (a: RebalanceTrade, b: RebalanceTrade) =>
+    (a.side === b.side ? 0 : a.side === 'sell' ? -1 : 1) || b.valueUsd - a.valueUsd;
+  trades.sort(bySideThenValue);
+  skippedTrades.sort(bySideThenValue);
+
+  return { totalValue, drifts, trades, skippedTrades };
+}
+
+/** Spread a group's trade over its held assets in proportion to their value */
+function splitTrade(
+  group: Group,
+  valueUsd: number,
+  prices: Map<string, number>
+): Array<Pick<RebalanceTrade, 'symbol' | 'valueUsd' | 'units'>> {
+  const priceOf = (symbol: string, held?: HeldSymbol): number | null => {
+    const price = prices.get(symbol) ?? (held && held.balance > 0 ? held.value / held.balance : undefined);
+    return price && price > 0 ? price : null;
+  };
+  const leg = (symbol: string, value: number, held?: HeldSymbol) => {
+    const price = priceOf(symbol, held);
+    return { symbol, valueUsd: value, units: price ? value / price : null };
+  };
+
+  if (group.held.length === 0) {
+    // Nothing held yet: an asset target is bought directly, a category needs picking
+    return [group.kind === 'asset' ? leg(group.key, valueUsd) : { symbol: null, valueUsd, units: null }];
+  }
+
+  const groupValue = group.held.reduce((sum, held) => sum + held.value, 0);
+  return group.held.map(held => leg(held.symbol, (valueUsd * held.value) / groupValue, held));
+}
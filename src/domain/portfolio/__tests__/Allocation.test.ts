@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { computeAllocation, OTHER_SLICE_KEY } from '../Allocation';
+import { getAssetCategory } from '../AssetCategory';
+
+interface Holding {
+  symbol: string;
+  chain: string;
+  valueUsd: number | null;
+}
+
+const holdings: Holding[] = [
+  { symbol: 'ETH', chain: 'Ethereum', valueUsd: 600 },
+  { symbol: 'USDC', chain: 'Ethereum', valueUsd: 200 },
+  { symbol: 'SOL', chain: 'Solana', valueUsd: 150 },
+  { symbol: 'SUI', chain: 'Sui', valueUsd: 50 },
+  { symbol: 'SPAM', chain: 'Polygon', valueUsd: null },
+];
+
+describe('computeAllocation', () => {
+  it('groups by key and sorts slices by value descending', () => {
+    const slices = computeAllocation(holdings, h => h.chain);
+
+    expect(slices.map(s => s.key)).toEqual(['Ethereum', 'Solana', 'Sui']);
+    expect(slices[0].value).toBe(800);
+    expect(slices[0].percentage).toBeCloseTo(80);
+    expect(slices.reduce((sum, s) => sum + s.percentage, 0)).toBeCloseTo(100);
+  });
+
+  it('ignores unpriced and non-positive values', () => {
+    const slices = computeAllocation(holdings, h => h.chain);
+    expect(slices.find(s => s.key === 'Polygon')).toBeUndefined();
+  });
+
+  it('returns no slices when nothing is priced', () => {
+    expect(computeAllocation([{ valueUsd: null }, { valueUsd: 0 }], () => 'x')).toEqual([]);
+  });
+
+  it('merges the tail into an Other slice beyond maxSlices', () => {
+    const slices = computeAllocation(holdings, h => h.symbol, { maxSlices: 3 });
+
+    expect(slices).toHaveLength(3);
+    expect(slices[2]).toMatchObject({ key: OTHER_SLICE_KEY, label: 'Other', value: 200 });
+  });
+
+  it('resolves labels through getLabel', () => {
+    const slices = computeAllocation(holdings, h => h.chain, {
+      getLabel: key => key.toUpperCase(),
+    });
+    expect(slices[0].label).toBe('ETHEREUM');
+  });
+});
+
+describe('getAssetCategory', () => {
+  it('classifies known symbols case-insensitively', () => {
+    expect(getAssetCategory('eth')).toBe('native');
+    expect(getAssetCategory('USDC')).toBe('stablecoin');
+    expect(getAssetCategory('wstETH')).toBe('liquid-staking');
+    expect(getAssetCategory('WBTC')).toBe('wrapped');
+  });
+
+  it('falls back to other for unknown symbols', () => {
+    expect(getAssetCategory('PEPE')).toBe('other');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCostBasis,
+  calculateUnrealizedPnL,
+  combinePositions,
+  costBasisKey,
+  entriesFromTransactions,
+  unrealizedPnLForBalance,
+  validateCostBasisEntry,
+  type CostBasisEntry,
+  type CostBasisMethod,
+} from '../CostBasis';
+import { BalanceAggregate } from '../../asset/BalanceAggregate';
+import { AssetValue } from '../../asset/AssetValue';
+import { Price } from '../../asset/Price';
+import type { Transaction } from '../../activity/Transaction';
+
+const DAY = 24 * 60 * 60 * 1000;
+const KEY = costBasisKey('acc-1', 'Ethereum', 'ETH');
+
+function entry(
+  id: string,
+  type: CostBasisEntry['type'],
+  quantity: number,
+  unitPrice: number | null,
+  day: number,
+  overrides: Partial<CostBasisEntry> = {}
+): CostBasisEntry {
+  return {
+    id,
+    accountId: 'acc-1',
+    chain: 'Ethereum',
+    symbol: 'ETH',
+    type,
+    quantity,
+    unitPrice,
+    timestamp: day * DAY,
+    source: 'manual',
+    ...overrides,
+  };
+}
+
+// Three buys at 100, 300, 200 followed by selling 1.5 at 400
+const ledger: CostBasisEntry[] = [
+  entry('sell', 'dispose', 1.5, 400, 4),
+  entry('buy-1', 'acquire', 1, 100, 1),
+  entry('buy-2', 'acquire', 1, 300, 2),
+  entry('buy-3', 'acquire', 1, 200, 3),
+];
+
+describe('calculateCostBasis', () => {
+  it.each<[CostBasisMethod, number, number]>([
+    ['fifo', 350, 350], // sells 1@100 + 0.5@300
+    ['lifo', 250, 250], // sells 1@200 + 0.5@300
+    ['hifo', 200, 200], // sells 1@300 + 0.5@200
+    ['average', 300, 300], // sells 1.5@200
+  ])('%s matches lots to the disposal', (method, realized, remainingCost) => {
+    const position = calculateCostBasis(ledger, method).get(KEY)!;
+
+    expect(position.realizedPnL).toBeCloseTo(realized);
+    expect(position.disposals[0]).toMatchObject({ entryId: 'sell', proceeds: 600, unmatchedQuantity: 0 });
+    expect(position.quantity).toBeCloseTo(1.5);
+    expect(position.costBasis).toBeCloseTo(remainingCost);
+    expect(position.incomplete).toBe(false);
+  });
+
+  it('adds fees to cost and deducts them from proceeds', () => {
+    const position = calculateCostBasis([
+      entry('buy', 'acquire', 2, 100, 1, { fee: 10 }),
+      entry('sell', 'dispose', 1, 150, 2, { fee: 5 }),
+    ], 'fifo').get(KEY)!;
+
+    expect(position.disposals[0].costBasis).toBeCloseTo(105);
+    expect(position.realizedPnL).toBeCloseTo(40);
+    expect(position.averageCost).toBeCloseTo(105);
+  });
+
+  it('flags unknown prices and sales beyond the tracked lots', () => {
+    const position = calculateCostBasis([
+      entry('buy', 'acquire', 1, null, 1),
+      entry('sell', 'dispose', 3, 50, 2),
+    ], 'fifo').get(KEY)!;
+
+    expect(position.incomplete).toBe(true);
+    expect(position.disposals[0].unmatchedQuantity).toBeCloseTo(2);
+    expect(position.quantity).toBe(0);
+    expect(position.averageCost).toBeNull();
+  });
+
+  it('keeps accounts, chains and assets apart', () => {
+    const positions = calculateCostBasis([
+      entry('a', 'acquire', 1, 100, 1),
+      entry('b', 'acquire', 1, 100, 1, { accountId: 'acc-2' }),
+      entry('c', 'acquire', 1, 100, 1, { chain: 'Base' }),
+      entry('d', 'acquire', 1, 1, 1, { symbol: 'usdc' }),
+    ], 'fifo');
+
+    expect(positions.size).toBe(4);
+    expect(positions.get(costBasisKey('acc-1', 'Ethereum', 'USDC'))?.symbol).toBe('USDC');
+  });
+});
+
+describe('unrealized P&L', () => {
+  it('values open lots and reports quantity without lots as uncovered', () => {
+    const position = calculateCostBasis(ledger, 'fifo').get(KEY)!;
+    const pnl = calculateUnrealizedPnL(position, 2, Price.live(250));
+
+    expect(pnl.marketValue).toBeCloseTo(375);
+    expect(pnl.unrealizedPnL).toBeCloseTo(25);
+    expect(pnl.unrealizedPnLPercent).toBeCloseTo((25 / 350) * 100);
+    expect(pnl.uncoveredQuantity).toBeCloseTo(0.5);
+  });
+
+  it('scales the cost basis down when the balance is below the lots', () => {
+    const position = calculateCostBasis(ledger, 'average').get(KEY)!;
+    expect(calculateUnrealizedPnL(position, 0.75, Price.live(200)).costBasis).toBeCloseTo(150);
+  });
+
+  it('reads quantity and price from a balance aggregate', () => {
+    const positions = calculateCostBasis(ledger, 'fifo');
+    const balance = BalanceAggregate.create('b1', 'acc-1', 'ETH', 'Ether', 'Ethereum', AssetValue.fromNumber(1.5, 'ETH'));
+
+    expect(unrealizedPnLForBalance(balance, positions)).toBeNull();
+    balance.updatePrice(Price.live(300));
+    expect(unrealizedPnLForBalance(balance, positions)?.unrealizedPnL).toBeCloseTo(100);
+  });
+
+  it('combines positions across accounts', () => {
+    const positions = calculateCostBasis([
+      entry('a', 'acquire', 1, 100, 1),
+      entry('b', 'acquire', 1, 300, 1, { accountId: 'acc-2' }),
+    ], 'fifo');
+    const combined = combinePositions(Array.from(positions.values()))!;
+
+    expect(combined.quantity).toBe(2);
+    expect(combined.averageCost).toBeCloseTo(200);
+    expect(combinePositions([])).toBeNull();
+  });
+});
+
+describe('entries', () => {
+  const base: Transaction = {
+    id: 'acc-1:Ethereum:0x1:native',
+    accountId: 'acc-1',
+    chain: 'Ethereum',
+    hash: '0x1',
+    timestamp: DAY,
+    block: 1,
+    kind: 'transfer',
+    direction: 'in',
+    status: 'success',
+    symbol: 'eth',
+    amount: '0.5',
+  };
+
+  it('imports received and sent transfers once, without prices', () => {
+    const transactions: Transaction[] = [
+      base,
+      { ...base, id: 'out', direction: 'out' },
+      { ...base, id: 'failed', status: 'failed' },
+      { ...base, id: 'self', direction: 'self' },
+      { ...base, id: 'call', kind: 'call', amount: undefined },
+    ];
+
+    const imported = entriesFromTransactions(transactions, []);
+    expect(imported.map(e => [e.type, e.symbol, e.quantity, e.unitPrice])).toEqual([
+      ['acquire', 'ETH', 0.5, null],
+      ['dispose', 'ETH', 0.5, null],
+    ]);
+    expect(entriesFromTransactions(transactions, imported)).toEqual([]);
+  });
+
+  it('validates manual entries', () => {
+    expect(validateCostBasisEntry(entry('x', 'acquire', 1, 10, 1, { symbol: ' eth ' })).value.symbol).toBe('ETH');
+    expect(validateCostBasisEntry(entry('x', 'acquire', 0, 10, 1)).error.details?.field).toBe('quantity');
+    expect(validateCostBasisEntry(entry('x', 'acquire', 1, -1, 1)).error.details?.field).toBe('unitPrice');
+    expect(validateCostBasisEntry(entry('x', 'acquire', 1, 1, 1, { chain: '' })).error.details?.field).toBe('chain');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REBALANCE_PLAN,
+  planRebalance,
+  validateRebalancePlan,
+  type RebalanceHolding,
+  type RebalancePlan,
+} from '../Rebalance';
+
+const holdings: RebalanceHolding[] = [
+  { symbol: 'ETH', balance: 2, valueUsd: 6000 },
+  { symbol: 'eth', balance: 1, valueUsd: 3000 },
+  { symbol: 'USDC', balance: 1500, valueUsd: 1500 },
+  { symbol: 'DAI', balance: 500, valueUsd: 500 },
+  { symbol: 'SOL', balance: 10, valueUsd: 1500 },
+  { symbol: 'PEPE', balance: 1e9, valueUsd: 500 },
+  { symbol: 'SPAM', balance: 100, valueUsd: null },
+];
+
+function plan(overrides: Partial<RebalancePlan> = {}): RebalancePlan {
+  return {
+    ...DEFAULT_REBALANCE_PLAN,
+    targets: [
+      { kind: 'asset', key: 'ETH', weight: 50 },
+      { kind: 'category', key: 'stablecoin', weight: 30 },
+      { kind: 'asset', key: 'SOL', weight: 20 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('validateRebalancePlan', () => {
+  it('accepts weights adding up to 100%', () => {
+    expect(validateRebalancePlan(plan()).isSuccess).toBe(true);
+    expect(validateRebalancePlan(DEFAULT_REBALANCE_PLAN).isSuccess).toBe(true);
+  });
+
+  it('rejects weights that do not add up to 100%', () => {
+    const result = validateRebalancePlan(plan({ targets: [{ kind: 'asset', key: 'ETH', weight: 60 }] }));
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.message).toBe('Target weights add up to 60%, not 100%');
+  });
+
+  it('rejects duplicate, empty and unknown targets', () => {
+    const duplicate = validateRebalancePlan(plan({
+      targets: [{ kind: 'asset', key: 'ETH', weight: 50 }, { kind: 'asset', key: 'eth', weight: 50 }],
+    }));
+    expect(duplicate.error.message).toBe('eth has more than one target');
+
+    const empty = validateRebalancePlan(plan({ targets: [{ kind: 'asset', key: ' ', weight: 100 }] }));
+    expect(empty.error.details?.field).toBe('targets');
+
+    const unknown = validateRebalancePlan(plan({ targets: [{ kind: 'category', key: 'memes', weight: 100 }] }));
+    expect(unknown.error.message).toBe('Unknown category memes');
+  });
+
+  it('rejects a negative tolerance or minimum trade', () => {
+    expect(validateRebalancePlan(plan({ tolerancePercent: -1 })).error.details?.field).toBe('tolerancePercent');
+    expect(validateRebalancePlan(plan({ minTradeUsd: -1 })).error.details?.field).toBe('minTradeUsd');
+  });
+});
+
+describe('planRebalance', () => {
+  it('groups holdings by asset, then category, and treats the rest as a 0% target', () => {
+    const result = planRebalance(holdings, plan());
+
+    expect(result.totalValue).toBe(13000);
+    const byKey = new Map(result.drifts.map(drift => [drift.key, drift]));
+    expect(byKey.get('ETH')).toMatchObject({ kind: 'asset', currentValue: 9000, targetPercent: 50 });
+    expect(byKey.get('ETH')!.driftPercent).toBeCloseTo(19.23);
+    expect(byKey.get('stablecoin')).toMatchObject({ label: 'Stablecoins', symbols: ['USDC', 'DAI'], currentValue: 2000 });
+    expect(byKey.get('PEPE')).toMatchObject({ kind: 'untargeted', targetPercent: 0 });
+    expect(result.drifts[0].key).toBe('ETH');
+  });
+
+  it('suggests sells before buys, in units and USD', () => {
+    const result = planRebalance(holdings, plan());
+
+    expect(result.trades.map(trade => [trade.side, trade.symbol])).toEqual([
+      ['sell', 'ETH'],
+      ['buy', 'USDC'],
+      ['buy', 'SOL'],
+      ['buy', 'DAI'],
+    ]);
+    const [ethSell, usdcBuy, solBuy] = result.trades;
+    expect(ethSell.valueUsd).toBeCloseTo(2500);
+    expect(ethSell.units).toBeCloseTo(2500 / 3000);
+    // The stablecoin buy is split by current holdings: 1500 USDC to 500 DAI
+    expect(usdcBuy.valueUsd).toBeCloseTo(1425);
+    expect(result.trades[3].valueUsd).toBeCloseTo(475);
+    expect(solBuy.valueUsd).toBeCloseTo(1100);
+    expect(solBuy.units).toBeCloseTo(7.333);
+  });
+
+  it('leaves groups within the tolerance band alone', () => {
+    const result = planRebalance(holdings, plan({ tolerancePercent: 9 }));
+
+    expect(result.drifts.find(drift => drift.key === 'SOL')!.withinTolerance).toBe(true);
+    expect(result.drifts.find(drift => drift.key === 'PEPE')!.withinTolerance).toBe(true);
+    expect(result.trades.map(trade => trade.symbol)).toEqual(['ETH', 'USDC', 'DAI']);
+  });
+
+  it('moves trades under the minimum size to the skipped list', () => {
+    const result = planRebalance(holdings, plan({ tolerancePercent: 3, minTradeUsd: 600 }));
+
+    expect(result.trades.map(trade => trade.symbol)).toEqual(['ETH', 'USDC', 'SOL']);
+    expect(result.skippedTrades.map(trade => trade.symbol)).toEqual(['PEPE', 'DAI']);
+  });
+
+  it('buys assets that are not held yet at their market price', () => {
+    const result = planRebalance(
+      [{ symbol: 'ETH', balance: 1, valueUsd: 1000 }],
+      plan({
+        targets: [
+          { kind: 'asset', key: 'ETH', weight: 50 },
+          { kind: 'asset', key: 'SUI', weight: 25 },
+          { kind: 'category', key: 'stablecoin', weight: 25 },
+        ],
+      }),
+      { SUI: 2 }
+    );
+
+    expect(result.trades).toContainEqual({ groupKey: 'SUI', side: 'buy', symbol: 'SUI', valueUsd: 250, units: 125 });
+    // No stablecoin held to pick from
+    expect(result.trades).toContainEqual({ groupKey: 'stablecoin', side: 'buy', symbol: null, valueUsd: 250, units: null });
+  });
+
+  it('finds prices of mixed-case symbols', () => {
+    const result = planRebalance(
+      [{ symbol: 'ETH', balance: 1, valueUsd: 1000 }],
+      plan({
+        targets: [
+          { kind: 'asset', key: 'ETH', weight: 50 },
+          { kind: 'asset', key: 'stETH', weight: 50 },
+        ],
+      }),
+      { stETH: 1000 }
+    );
+
+    expect(result.trades).toContainEqual({ groupKey: 'STETH', side: 'buy', symbol: 'STETH', valueUsd: 500, units: 0.5 });
+  });
+
+  it('returns no trades for an empty portfolio', () => {
+    const result = planRebalance([], plan());
+
+    expect(result.totalValue).toBe(0);
+    expect(result.trades).toEqual([]);
+    expect(result.drifts.every(drift => drift.withinTolerance)).toBe(true);
+  });
+});
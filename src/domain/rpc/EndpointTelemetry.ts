@@ -0,0 +1,153 @@
+/**
+ * EndpointTelemetry
+ *
+ * Rolling record of RPC request outcomes per endpoint, summarized into a
+ * success rate, latency percentiles and error counts, and turned into a score
+ * used to rank endpoints. Until an endpoint has enough samples its score leans
+ * on a prior (its configured tier or position), so a single slow request
+ * doesn't reshuffle the list.
+ */
+
+export interface TelemetrySample {
+  /** Epoch milliseconds */
+  at: number;
+  ok: boolean;
+  latencyMs?: number;
+  /** Short error classification, e.g. TIMEOUT or HTTP_429 */
+  errorCode?: string;
+}
+
+export interface EndpointStats {
+  requests: number;
+  successRate: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  errorCodes: Record<string, number>;
+  lastSampleAt: number | null;
+}
+
+export interface EndpointScore {
+  /** 0 to 100, higher ranks first */
+  score: number;
+  /** How much of the score comes from measurements rather than the prior, 0 to 1 */
+  confidence: number;
+  reasons: string[];
+}
+
+/** Samples kept per endpoint */
+export const TELEMETRY_WINDOW_SIZE = 100;
+/** Samples older than this are dropped */
+export const TELEMETRY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+/** Samples needed before measurements fully outweigh the prior */
+export const CONFIDENT_SAMPLE_COUNT = 20;
+
+// Weights of the measured part of the score
+const SUCCESS_WEIGHT = 0.7;
+const LATENCY_WEIGHT = 0.3;
+// p95 latency at which the latency component drops to one half
+const LATENCY_HALF_SCORE_MS = 800;
+
+/**
+ * Append a sample, dropping the oldest beyond the window and anything past the max age
+ */
+export function appendSample(samples: TelemetrySample[], sample: TelemetrySample, now = Date.now()): TelemetrySample[] {
+  return [...samples, sample]
+    .filter(s => now - s.at <= TELEMETRY_MAX_AGE_MS)
+    .slice(-TELEMETRY_WINDOW_SIZE);
+}
+
+/** Nearest-rank percentile of sorted values */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank - 1, 0), sorted.length - 1)];
+}
+
+export function summarizeSamples(samples: TelemetrySample[]): EndpointStats {
+  const latencies = samples
+    .filter(s => s.ok && s.latencyMs !== undefined)
+    .map(s => s.latencyMs as number)
+    .sort((a, b) => a - b);
+
+  const errorCodes: Record<string, number> = {};
+  for (const sample of samples) {
+    if (!sample.ok) {
+      const code = sample.errorCode ?? 'UNKNOWN';
+      errorCodes[code] = (errorCodes[code] ?? 0) + 1;
+    }
+  }
+
+  return {
+    requests: samples.length,
+    successRate: samples.length === 0 ? 0 : samples.filter(s => s.ok).length / samples.length,
+    p50LatencyMs: percentile(latencies, 50),
+    p95LatencyMs: percentile(latencies, 95),
+    errorCodes,
+    lastSampleAt: samples.length === 0 ? null : Math.max(...samples.map(s => s.at)),
+  };
+}
+
+/**
+ * Score an endpoint from its stats, blending in the prior (0 to 1) while
+ * there are few samples. `priorLabel` says where the prior came from.
+ */
+export function scoreEndpoint(stats: EndpointStats, prior: number, priorLabel: string): EndpointScore {
+  const confidence = Math.min(1, stats.requests / CONFIDENT_SAMPLE_COUNT);
+  const reasons: string[] = [];
+
+  let measured = 0;
+  if (stats.requests > 0) {
+    const latencyScore = stats.p95LatencyMs === null
+      ? 0
+      : LATENCY_HALF_SCORE_MS / (LATENCY_HALF_SCORE_MS + stats.p95LatencyMs);
+    measured = SUCCESS_WEIGHT * stats.successRate + LATENCY_WEIGHT * latencyScore;
+
+    reasons.push(`${Math.round(stats.successRate * 100)}% success over ${stats.requests} request${stats.requests === 1 ? '' : 's'}`);
+    if (stats.p50LatencyMs !== null && stats.p95LatencyMs !== null) {
+      reasons.push(`p50 ${Math.round(stats.p50LatencyMs)} ms, p95 ${Math.round(stats.p95LatencyMs)} ms`);
+    }
+    const errors = Object.entries(stats.errorCodes).sort(([, a], [, b]) => b - a);
+    if (errors.length > 0) {
+      reasons.push(`Errors: ${errors.map(([code, count]) => `${code} ×${count}`).join(', ')}`);
+    }
+  }
+
+  if (confidence < 1) {
+    reasons.push(stats.requests === 0
+      ? `No measurements yet; ranked by ${priorLabel}`
+      : `Only ${stats.requests} of ${CONFIDENT_SAMPLE_COUNT} samples; ${priorLabel} still weighs ${Math.round((1 - confidence) * 100)}%`);
+  }
+
+  const score = 100 * (confidence * measured + (1 - confidence) * prior);
+  return { score: Math.round(score * 10) / 10, confidence, reasons };
+}
+
+/**
+ * Sort items by score, highest first; equal scores keep their input order.
+ * With a `step`, scores within the same step count as equal, so small changes
+ * in the measurements don't reshuffle the order.
+ */
+export function rankByScore<T>(
+  items: T[],
+  getScore: (item: T, index: number) => EndpointScore,
+  step = 0
+): Array<{ item: T; ranking: EndpointScore }> {
+  const bucket = (score: number) => step > 0 ? Math.floor(score / step) : score;
+  return items
+    .map((item, index) => ({ item, index, ranking: getScore(item, index) }))
+    .sort((a, b) => bucket(b.ranking.score) - bucket(a.ranking.score) || a.index - b.index)
+    .map(({ item, ranking }) => ({ item, ranking }));
+}
+
+/**
+ * Classify a failed request into a short error code
+ */
+export function classifyRpcError(error: unknown, status?: number): string {
+  if (status !== undefined && status >= 400) return `HTTP_${status}`;
+  const message = error instanceof Error ? `${error.name} ${error.message}` : String(error ?? '');
+  if (/abort|timeout|timed out/i.test(message)) return 'TIMEOUT';
+  const httpStatus = /\b(4\d\d|5\d\d)\b/.exec(message);
+  if (httpStatus) return `HTTP_${httpStatus[1]}`;
+  if (/fetch|network|ECONN|ENOTFOUND/i.test(message)) return 'NETWORK';
+  return 'RPC_ERROR';
+}
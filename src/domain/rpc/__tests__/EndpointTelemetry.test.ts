@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendSample,
+  summarizeSamples,
+  scoreEndpoint,
+  rankByScore,
+  classifyRpcError,
+  TELEMETRY_WINDOW_SIZE,
+  TELEMETRY_MAX_AGE_MS,
+  CONFIDENT_SAMPLE_COUNT,
+  type TelemetrySample,
+} from '../EndpointTelemetry';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+function samples(count: number, sample: Omit<TelemetrySample, 'at'>): TelemetrySample[] {
+  return Array.from({ length: count }, (_, i) => ({ ...sample, at: NOW - i }));
+}
+
+describe('appendSample', () => {
+  it('keeps a rolling window and drops stale samples', () => {
+    let window: TelemetrySample[] = [{ at: NOW - TELEMETRY_MAX_AGE_MS - 1, ok: true }];
+    for (let i = 0; i < TELEMETRY_WINDOW_SIZE + 10; i++) {
+      window = appendSample(window, { at: NOW + i, ok: true }, NOW + i);
+    }
+
+    expect(window).toHaveLength(TELEMETRY_WINDOW_SIZE);
+    expect(window[0].at).toBe(NOW + 10);
+  });
+});
+
+describe('summarizeSamples', () => {
+  it('computes success rate, latency percentiles and error counts', () => {
+    const window: TelemetrySample[] = [
+      ...Array.from({ length: 20 }, (_, i) => ({ at: NOW, ok: true, latencyMs: (i + 1) * 10 })),
+      { at: NOW, ok: false, errorCode: 'HTTP_429' },
+      { at: NOW, ok: false, errorCode: 'HTTP_429' },
+      { at: NOW + 5, ok: false },
+    ];
+
+    const stats = summarizeSamples(window);
+
+    expect(stats.requests).toBe(23);
+    expect(stats.successRate).toBeCloseTo(20 / 23);
+    expect(stats.p50LatencyMs).toBe(100);
+    expect(stats.p95LatencyMs).toBe(190);
+    expect(stats.errorCodes).toEqual({ HTTP_429: 2, UNKNOWN: 1 });
+    expect(stats.lastSampleAt).toBe(NOW + 5);
+  });
+
+  it('reports no latency without successful samples', () => {
+    const stats = summarizeSamples([]);
+    expect(stats).toMatchObject({ requests: 0, successRate: 0, p50LatencyMs: null, p95LatencyMs: null });
+  });
+});
+
+describe('scoreEndpoint', () => {
+  it('uses the prior alone without measurements', () => {
+    const score = scoreEndpoint(summarizeSamples([]), 0.9, 'primary tier');
+
+    expect(score.score).toBe(90);
+    expect(score.confidence).toBe(0);
+    expect(score.reasons).toEqual(['No measurements yet; ranked by primary tier']);
+  });
+
+  it('lets measurements outweigh the tier once there are enough samples', () => {
+    const failing = scoreEndpoint(
+      summarizeSamples(samples(CONFIDENT_SAMPLE_COUNT, { ok: false, errorCode: 'TIMEOUT' })),
+      0.9,
+      'primary tier'
+    );
+    const reliable = scoreEndpoint(
+      summarizeSamples(samples(CONFIDENT_SAMPLE_COUNT, { ok: true, latencyMs: 100 })),
+      0.5,
+      'emergency tier'
+    );
+
+    expect(reliable.score).toBeGreaterThan(failing.score);
+    expect(failing.reasons).toContain(`Errors: TIMEOUT ×${CONFIDENT_SAMPLE_COUNT}`);
+    expect(reliable.reasons).toContain('p50 100 ms, p95 100 ms');
+  });
+
+  it('scores slower endpoints lower at equal success rates', () => {
+    const fast = scoreEndpoint(summarizeSamples(samples(30, { ok: true, latencyMs: 80 })), 0.5, 'tier');
+    const slow = scoreEndpoint(summarizeSamples(samples(30, { ok: true, latencyMs: 2000 })), 0.5, 'tier');
+
+    expect(fast.score).toBeGreaterThan(slow.score);
+  });
+});
+
+describe('rankByScore', () => {
+  it('sorts by score and keeps input order on ties', () => {
+    const scores: Record<string, number> = { a: 50, b: 80, c: 50 };
+    const ranked = rankByScore(['a', 'b', 'c'], item => ({ score: scores[item], confidence: 1, reasons: [] }));
+
+    expect(ranked.map(({ item }) => item)).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('classifyRpcError', () => {
+  it('maps failures to short codes', () => {
+    expect(classifyRpcError(null, 429)).toBe('HTTP_429');
+    expect(classifyRpcError(new DOMException('The operation was aborted', 'AbortError'))).toBe('TIMEOUT');
+    expect(classifyRpcError(new Error('Request timeout'))).toBe('TIMEOUT');
+    expect(classifyRpcError(new Error('503 Service Unavailable'))).toBe('HTTP_503');
+    expect(classifyRpcError(new TypeError('Failed to fetch'))).toBe('NETWORK');
+    expect(classifyRpcError(new Error('invalid params'))).toBe('RPC_ERROR');
+  });
+});
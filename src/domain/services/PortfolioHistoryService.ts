@@ -0,0 +1,169 @@
+/**
+ * PortfolioHistoryService
+ *
+ * Domain service for recording portfolio snapshots after each sync and querying
+ * them back as a net-worth time series. Storage is delegated to a repository so
+ * the service can run against IndexedDB in the browser or memory in tests.
+ */
+
+import { Result } from '../shared/Result';
+import { DomainError, ServiceError, ValidationError } from '../shared/DomainError';
+import {
+  buildPortfolioSnapshot,
+  downsampleSnapshots,
+  limitPoints,
+  selectSnapshotsToPrune,
+  DEFAULT_RETENTION_POLICY,
+} from '../portfolio/PortfolioSnapshot';
+import type {
+  PortfolioSnapshot,
+  SnapshotAssetInput,
+  SnapshotGranularity,
+  SnapshotRetentionPolicy,
+} from '../portfolio/PortfolioSnapshot';
+
+export interface SnapshotQuery {
+  from?: number; // epoch ms, inclusive (defaults to the beginning of time)
+  to?: number; // epoch ms, inclusive (defaults to now)
+  granularity?: SnapshotGranularity;
+  maxPoints?: number;
+}
+
+export interface NetWorthPoint {
+  timestamp: number;
+  totalValue: number;
+}
+
+export interface IPortfolioSnapshotRepository {
+  save(snapshot: PortfolioSnapshot): Promise<void>;
+  findInRange(from: number, to: number): Promise<PortfolioSnapshot[]>;
+  deleteByIds(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class PortfolioHistoryService {
+  private repository: IPortfolioSnapshotRepository;
+  private retentionPolicy: SnapshotRetentionPolicy;
+  private lastPrunedAt: number = 0;
+
+  // Configuration
+  private readonly pruneIntervalMs = 60 * 60 * 1000; // 1 hour
+
+  constructor(
+    repository: IPortfolioSnapshotRepository,
+    retentionPolicy: SnapshotRetentionPolicy = DEFAULT_RETENTION_POLICY
+  ) {
+    this.repository = repository;
+    this.retentionPolicy = retentionPolicy;
+  }
+
+  /**
+   * Record a snapshot of the given assets.
+   * Retention is applied opportunistically, at most once per prune interval.
+   */
+  public async recordSnapshot(
+    assets: SnapshotAssetInput[],
+    timestamp: number = Date.now()
+  ): Promise<Result<PortfolioSnapshot, DomainError>> {
+    try {
+      const snapshot = buildPortfolioSnapshot(assets, timestamp);
+      await this.repository.save(snapshot);
+
+      if (timestamp - this.lastPrunedAt >= this.pruneIntervalMs) {
+        this.lastPrunedAt = timestamp;
+        await this.applyRetention(timestamp);
+      }
+
+      return Result.success(snapshot);
+    } catch (error) {
+      return Result.failure(
+        new ServiceError(
+          'SNAPSHOT_RECORD_ERROR',
+          error instanceof Error ? error.message : 'Unknown error recording snapshot'
+        )
+      );
+    }
+  }
+
+  /**
+   * Query snapshots within a time range, optionally downsampled
+   */
+  public async query(
+    query: SnapshotQuery = {}
+  ): Promise<Result<PortfolioSnapshot[], DomainError>> {
+    const from = query.from ?? 0;
+    const to = query.to ?? Date.now();
+
+    if (from > to) {
+      return Result.failure(
+        new ValidationError('Range start must not be after range end', 'from', from)
+      );
+    }
+
+    try {
+      const snapshots = await this.repository.findInRange(from, to);
+      const sorted = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+      const bucketed = downsampleSnapshots(sorted, query.granularity ?? 'raw');
+      const limited = query.maxPoints ? limitPoints(bucketed, query.maxPoints) : bucketed;
+
+      return Result.success(limited);
+    } catch (error) {
+      return Result.failure(
+        new ServiceError(
+          'SNAPSHOT_QUERY_ERROR',
+          error instanceof Error ? error.message : 'Unknown error querying snapshots'
+        )
+      );
+    }
+  }
+
+  /**
+   * Query the net-worth time series (total value only)
+   */
+  public async getNetWorthSeries(
+    query: SnapshotQuery = {}
+  ): Promise<Result<NetWorthPoint[], DomainError>> {
+    const result = await this.query(query);
+    return result.map(snapshots =>
+      snapshots.map(s => ({ timestamp: s.timestamp, totalValue: s.totalValue }))
+    );
+  }
+
+  /**
+   * Delete snapshots that fall outside the retention policy.
+   * Returns the number of snapshots removed.
+   */
+  public async applyRetention(now: number = Date.now()): Promise<number> {
+    const snapshots = await this.repository.findInRange(0, now);
+    const sorted = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+    const toDelete = selectSnapshotsToPrune(sorted, this.retentionPolicy, now);
+
+    if (toDelete.length > 0) {
+      await this.repository.deleteByIds(toDelete);
+    }
+
+    return toDelete.length;
+  }
+
+  /**
+   * Remove all recorded history
+   */
+  public async clearHistory(): Promise<void> {
+    await this.repository.clear();
+  }
+
+  /**
+   * Get the active retention policy
+   */
+  public getRetentionPolicy(): SnapshotRetentionPolicy {
+    return { ...this.retentionPolicy };
+  }
+
+  /**
+   * Replace the retention policy (takes effect on the next prune)
+   */
+  public setRetentionPolicy(policy: SnapshotRetentionPolicy): void {
+    this.retentionPolicy = { ...policy };
+    this.lastPrunedAt = 0;
+  }
+}
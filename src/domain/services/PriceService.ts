@@ -3,6 +3,8 @@
  * 
  * Domain service for fetching and managing asset prices with multi-layer caching.
  * Implements progressive loading, background refresh, and fallback strategies.
+ * Exchange rates between currencies come from separate providers and share
+ * the price cache under their own keys.
  */
 
 import { Price } from '../asset/Price';
@@ -35,6 +37,13 @@ export interface IPriceProvider {
   getPriority(): number; // Lower number = higher priority
 }
 
+export interface IExchangeRateProvider {
+  /** Units of `quote` per one unit of `base` */
+  fetchRate(base: string, quote: string): Promise<Result<number, Error>>;
+  supports(base: string, quote: string): boolean;
+  getProviderName(): string;
+}
+
 export interface IPriceCache {
   get(key: string): Promise<Price | null>;
   set(key: string, price: Price, ttl?: number): Promise<void>;
@@ -46,6 +55,7 @@ export interface IPriceCache {
 
 export class PriceService {
   private providers: IPriceProvider[] = [];
+  private rateProviders: IExchangeRateProvider[] = [];
   private cache?: IPriceCache;
   private fallbackPrices: Map<string, Price> = new Map();
   private refreshQueue: Set<string> = new Set();
@@ -56,6 +66,7 @@ export class PriceService {
   private readonly defaultTTL = 10000; // 10 seconds
   private readonly staleTTL = 60000; // 1 minute
   private readonly batchSize = 50;
+  private readonly exchangeRateTTL = 600000; // 10 minutes
 
   constructor(cache?: IPriceCache) {
     this.cache = cache;
@@ -70,6 +81,13 @@ export class PriceService {
     this.providers.sort((a, b) => a.getPriority() - b.getPriority());
   }
 
+  /**
+   * Register an exchange rate provider; providers are tried in registration order
+   */
+  public registerExchangeRateProvider(provider: IExchangeRateProvider): void {
+    this.rateProviders.push(provider);
+  }
+
   /**
    * Fetch price for a single asset
    */
@@ -225,6 +243,79 @@ export class PriceService {
     }
   }
 
+  /**
+   * Fetch the exchange rate from `base` to `quote`, as the price of one unit
+   * of `base` in `quote`
+   */
+  public async fetchExchangeRate(
+    base: string,
+    quote: string
+  ): Promise<Result<Price, DomainError>> {
+    const from = base.toUpperCase();
+    const to = quote.toUpperCase();
+    if (from === to) {
+      return Result.success(Price.manual(1, to));
+    }
+
+    const cacheKey = this.getExchangeRateCacheKey(from, to);
+    try {
+      if (this.cache) {
+        const cached = await this.cache.get(cacheKey);
+        if (cached) {
+          return Result.success(cached);
+        }
+      }
+
+      for (const provider of this.rateProviders) {
+        if (!provider.supports(from, to)) continue;
+        try {
+          const result = await provider.fetchRate(from, to);
+          if (result.isSuccess && Number.isFinite(result.value) && result.value > 0) {
+            const rate = Price.live(result.value, to, provider.getProviderName());
+            if (this.cache) {
+              await this.cache.set(cacheKey, rate, this.exchangeRateTTL);
+            }
+            return Result.success(rate);
+          }
+        } catch (error) {
+          console.warn(`Exchange rate provider ${provider.getProviderName()} failed for ${from}/${to}:`, error);
+        }
+      }
+
+      return Result.failure(
+        new ServiceError(
+          'EXCHANGE_RATE_NOT_AVAILABLE',
+          `No exchange rate available for ${from}/${to}`
+        )
+      );
+    } catch (error) {
+      return Result.failure(
+        new ServiceError(
+          'EXCHANGE_RATE_FETCH_ERROR',
+          error instanceof Error ? error.message : 'Unknown error fetching exchange rate'
+        )
+      );
+    }
+  }
+
+  /**
+   * Convert a price into another currency at the current exchange rate
+   */
+  public async convertPrice(
+    price: Price,
+    currency: string
+  ): Promise<Result<Price, DomainError>> {
+    if (price.getCurrency() === currency.toUpperCase()) {
+      return Result.success(price);
+    }
+
+    const rate = await this.fetchExchangeRate(price.getCurrency(), currency);
+    if (rate.isFailure) {
+      return Result.failure(rate.error);
+    }
+    return Result.success(price.convertTo(currency, rate.value.getAmount()));
+  }
+
   /**
    * Fetch from providers with fallback
    */
@@ -403,6 +494,13 @@ export class PriceService {
     return `price:${symbol.toUpperCase()}:${currency.toUpperCase()}`;
   }
 
+  /**
+   * Generate exchange rate cache key
+   */
+  private getExchangeRateCacheKey(base: string, quote: string): string {
+    return `fx:${base}:${quote}`;
+  }
+
   /**
    * Chunk array helper
    */
@@ -0,0 +1,206 @@
+/**
+ * Tests for PortfolioHistoryService
+ *
+ * Covers snapshot recording, range queries, downsampling and retention
+ * against an in-memory repository.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  PortfolioHistoryService,
+  type IPortfolioSnapshotRepository,
+} from '../PortfolioHistoryService';
+import {
+  buildPortfolioSnapshot,
+  limitPoints,
+  selectSnapshotsToPrune,
+  DEFAULT_RETENTION_POLICY,
+  type PortfolioSnapshot,
+} from '../../portfolio/PortfolioSnapshot';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+class InMemorySnapshotRepository implements IPortfolioSnapshotRepository {
+  public snapshots = new Map<string, PortfolioSnapshot>();
+
+  public save = vi.fn(async (snapshot: PortfolioSnapshot) => {
+    this.snapshots.set(snapshot.id, snapshot);
+  });
+
+  public findInRange = vi.fn(async (from: number, to: number) =>
+    Array.from(this.snapshots.values())
+      .filter(s => s.timestamp >= from && s.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp)
+  );
+
+  public deleteByIds = vi.fn(async (ids: string[]) => {
+    ids.forEach(id => this.snapshots.delete(id));
+  });
+
+  public clear = vi.fn(async () => {
+    this.snapshots.clear();
+  });
+}
+
+function snapshotAt(timestamp: number, totalValue = 100): PortfolioSnapshot {
+  return buildPortfolioSnapshot(
+    [{ symbol: 'ETH', chain: 'Ethereum', accountId: 'acc-1', valueUsd: totalValue }],
+    timestamp
+  );
+}
+
+describe('PortfolioHistoryService', () => {
+  let repository: InMemorySnapshotRepository;
+  let service: PortfolioHistoryService;
+  // Fixed local-time anchor so bucket boundaries are deterministic
+  const now = new Date(2026, 5, 15, 12, 30).getTime();
+
+  beforeEach(() => {
+    repository = new InMemorySnapshotRepository();
+    service = new PortfolioHistoryService(repository);
+  });
+
+  describe('buildPortfolioSnapshot', () => {
+    it('should break down value by account, chain and asset', () => {
+      const snapshot = buildPortfolioSnapshot([
+        { symbol: 'ETH', chain: 'Ethereum', accountId: 'acc-1', valueUsd: 3000 },
+        { symbol: 'ETH', chain: 'Arbitrum', accountId: 'acc-2', valueUsd: 1000 },
+        { symbol: 'USDC', chain: 'Ethereum', accountId: 'acc-1', valueUsd: 500 },
+        { symbol: 'SPAM', chain: 'Ethereum', accountId: 'acc-1', valueUsd: null },
+      ], now);
+
+      expect(snapshot.totalValue).toBe(4500);
+      expect(snapshot.assetCount).toBe(4);
+      expect(snapshot.byAccount).toEqual({ 'acc-1': 3500, 'acc-2': 1000 });
+      expect(snapshot.byChain).toEqual({ Ethereum: 3500, Arbitrum: 1000 });
+      expect(snapshot.byAsset).toEqual({ ETH: 4000, USDC: 500 });
+      expect(snapshot.currency).toBe('USD');
+      expect(snapshot.timestamp).toBe(now);
+    });
+  });
+
+  describe('recordSnapshot', () => {
+    it('should persist a snapshot built from assets', async () => {
+      const result = await service.recordSnapshot(
+        [{ symbol: 'SOL', chain: 'Solana', accountId: 'acc-1', valueUsd: 250 }],
+        now
+      );
+
+      expect(result.isSuccess).toBe(true);
+      expect(repository.save).toHaveBeenCalledTimes(1);
+      expect(repository.snapshots.get(result.value.id)?.totalValue).toBe(250);
+    });
+
+    it('should return a failure when the repository throws', async () => {
+      repository.save.mockRejectedValueOnce(new Error('quota exceeded'));
+
+      const result = await service.recordSnapshot([], now);
+
+      expect(result.isFailure).toBe(true);
+      expect(result.error.code).toBe('SNAPSHOT_RECORD_ERROR');
+    });
+
+    it('should apply retention at most once per hour', async () => {
+      await service.recordSnapshot([], now);
+      await service.recordSnapshot([], now + 60_000);
+      await service.recordSnapshot([], now + HOUR);
+
+      // One findInRange call per retention pass
+      expect(repository.findInRange).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(async () => {
+      // Hourly snapshots across three days with increasing value
+      for (let i = 0; i < 72; i++) {
+        const snapshot = snapshotAt(now - (71 - i) * HOUR, 1000 + i);
+        await repository.save(snapshot);
+      }
+    });
+
+    it('should return raw snapshots within the range in ascending order', async () => {
+      const result = await service.query({ from: now - 5 * HOUR, to: now });
+
+      expect(result.isSuccess).toBe(true);
+      expect(result.value).toHaveLength(6);
+      expect(result.value[0].timestamp).toBeLessThan(result.value[5].timestamp);
+    });
+
+    it('should downsample to one closing snapshot per day', async () => {
+      const result = await service.query({ granularity: 'day', to: now });
+
+      expect(result.isSuccess).toBe(true);
+      // 72 hours ending at 12:30 span four calendar days
+      expect(result.value).toHaveLength(4);
+      expect(result.value[result.value.length - 1].totalValue).toBe(1071);
+    });
+
+    it('should cap the number of points', async () => {
+      const result = await service.getNetWorthSeries({ to: now, maxPoints: 10 });
+
+      expect(result.isSuccess).toBe(true);
+      expect(result.value).toHaveLength(10);
+      expect(result.value[0].totalValue).toBe(1000);
+      expect(result.value[9].totalValue).toBe(1071);
+    });
+
+    it('should reject an inverted range', async () => {
+      const result = await service.query({ from: now, to: now - DAY });
+
+      expect(result.isFailure).toBe(true);
+      expect(result.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('retention', () => {
+    it('should keep raw snapshots inside the raw window', () => {
+      const snapshots = [snapshotAt(now - HOUR), snapshotAt(now - HOUR + 60_000)];
+
+      expect(selectSnapshotsToPrune(snapshots, DEFAULT_RETENTION_POLICY, now)).toEqual([]);
+    });
+
+    it('should thin older snapshots to one per hour, then one per day', () => {
+      const threeDaysAgo = new Date(2026, 5, 12, 9, 0).getTime();
+      const fortyDaysAgo = new Date(2026, 4, 6, 9, 0).getTime();
+      const snapshots = [
+        snapshotAt(fortyDaysAgo),
+        snapshotAt(fortyDaysAgo + 3 * HOUR),
+        snapshotAt(threeDaysAgo),
+        snapshotAt(threeDaysAgo + 10 * 60_000),
+        snapshotAt(threeDaysAgo + 20 * 60_000),
+      ];
+
+      const pruned = selectSnapshotsToPrune(snapshots, DEFAULT_RETENTION_POLICY, now);
+
+      expect(pruned).toEqual([
+        `snapshot-${fortyDaysAgo}`,
+        `snapshot-${threeDaysAgo}`,
+        `snapshot-${threeDaysAgo + 10 * 60_000}`,
+      ]);
+    });
+
+    it('should drop everything older than the daily window when one is set', async () => {
+      service.setRetentionPolicy({ ...DEFAULT_RETENTION_POLICY, dailyMaxAgeMs: 365 * DAY });
+      await repository.save(snapshotAt(now - 400 * DAY));
+      await repository.save(snapshotAt(now - 10 * DAY));
+
+      const removed = await service.applyRetention(now);
+
+      expect(removed).toBe(1);
+      expect(repository.snapshots.size).toBe(1);
+    });
+  });
+
+  describe('limitPoints', () => {
+    it('should return the input unchanged when under the limit', () => {
+      expect(limitPoints([1, 2, 3], 5)).toEqual([1, 2, 3]);
+    });
+
+    it('should preserve first and last points', () => {
+      const result = limitPoints(Array.from({ length: 100 }, (_, i) => i), 5);
+      expect(result).toEqual([0, 25, 50, 74, 99]);
+    });
+  });
+});
@@ -6,7 +6,13 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { PriceService, type PriceFetchRequest, type IPriceProvider, type IPriceCache } from '../PriceService';
+import {
+  PriceService,
+  type PriceFetchRequest,
+  type IPriceProvider,
+  type IPriceCache,
+  type IExchangeRateProvider,
+} from '../PriceService';
 import { Price, PriceSource } from '../../asset/Price';
 import { Result } from '../../shared/Result';
 
@@ -34,6 +40,18 @@ class MockPriceProvider implements IPriceProvider {
   }
 }
 
+class MockRateProvider implements IExchangeRateProvider {
+  public fetchRate = vi.fn();
+  public getProviderName = vi.fn();
+  public supports = vi.fn();
+
+  constructor(name: string, currencies: string[]) {
+    this.getProviderName.mockReturnValue(name);
+    this.supports.mockImplementation((base: string, quote: string) =>
+      currencies.includes(base) && currencies.includes(quote));
+  }
+}
+
 class MockPriceCache implements IPriceCache {
   public get = vi.fn().mockResolvedValue(null);
   public set = vi.fn().mockResolvedValue(undefined);
@@ -464,4 +482,54 @@ describe('PriceService', () => {
       expect(typeof priceService.warmCache).toBe('function');
     });
   });
-});
\ No newline at end of file
+
+  describe('Exchange rates', () => {
+    let fiat: MockRateProvider;
+    let crypto: MockRateProvider;
+
+    beforeEach(() => {
+      fiat = new MockRateProvider('fiat', ['USD', 'EUR']);
+      crypto = new MockRateProvider('crypto', ['USD', 'BTC']);
+      priceService.registerExchangeRateProvider(fiat);
+      priceService.registerExchangeRateProvider(crypto);
+    });
+
+    it('asks the provider that supports the pair and caches the rate', async () => {
+      crypto.fetchRate.mockResolvedValue(Result.success(0.00002));
+
+      const result = await priceService.fetchExchangeRate('usd', 'btc');
+
+      expect(fiat.fetchRate).not.toHaveBeenCalled();
+      expect(result.value.getAmount()).toBe(0.00002);
+      expect(result.value.getCurrency()).toBe('BTC');
+      expect(mockCache.set).toHaveBeenCalledWith('fx:USD:BTC', result.value, 600000);
+    });
+
+    it('serves a cached rate without calling providers', async () => {
+      mockCache.get.mockImplementation(async (key: string) => key === 'fx:USD:EUR' ? Price.live(0.9, 'EUR') : null);
+
+      const result = await priceService.fetchExchangeRate('USD', 'EUR');
+
+      expect(result.value.getAmount()).toBe(0.9);
+      expect(fiat.fetchRate).not.toHaveBeenCalled();
+    });
+
+    it('fails when no provider returns a usable rate', async () => {
+      fiat.fetchRate.mockResolvedValue(Result.success(0));
+
+      expect((await priceService.fetchExchangeRate('USD', 'EUR')).error.code).toBe('EXCHANGE_RATE_NOT_AVAILABLE');
+      expect((await priceService.fetchExchangeRate('USD', 'JPY')).isFailure).toBe(true);
+    });
+
+    it('converts a price with Price.convertTo', async () => {
+      fiat.fetchRate.mockResolvedValue(Result.success(0.9));
+
+      const converted = await priceService.convertPrice(Price.live(2000, 'USD'), 'EUR');
+
+      expect(fiat.fetchRate).toHaveBeenCalledWith('USD', 'EUR');
+      expect(converted.value.getAmount()).toBeCloseTo(1800);
+      expect(converted.value.getCurrency()).toBe('EUR');
+      expect((await priceService.fetchExchangeRate('EUR', 'EUR')).value.getAmount()).toBe(1);
+    });
+  });
+});
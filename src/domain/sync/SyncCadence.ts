@@ -0,0 +1,76 @@
+/**
+ * Sync cadence
+ *
+ * How often balances are refreshed. A sync is split into scopes (an account on
+ * one chain, or a whole exchange account); each scope refreshes on the interval
+ * set for its account, else for its chain, else the default. Scopes whose
+ * fetches keep failing back off exponentially until one succeeds.
+ */
+
+/** Interval value meaning the scope only refreshes when asked to */
+export const MANUAL_SYNC = 0;
+
+export interface SyncCadence {
+  defaultIntervalMs: number;
+  /** Overrides by chain name, e.g. 'Ethereum' or 'Solana' */
+  chains: Record<string, number>;
+  /** Overrides by account id; they take precedence over chain overrides */
+  accounts: Record<string, number>;
+}
+
+export const DEFAULT_SYNC_CADENCE: SyncCadence = {
+  defaultIntervalMs: 60_000,
+  chains: {},
+  accounts: {},
+};
+
+export const SYNC_INTERVAL_OPTIONS: ReadonlyArray<{ value: number; label: string }> = [
+  { value: 30_000, label: 'Every 30 seconds' },
+  { value: 60_000, label: 'Every minute' },
+  { value: 5 * 60_000, label: 'Every 5 minutes' },
+  { value: 15 * 60_000, label: 'Every 15 minutes' },
+  { value: 60 * 60_000, label: 'Every hour' },
+  { value: MANUAL_SYNC, label: 'Manual only' },
+];
+
+/** Longest wait between retries of a failing scope */
+export const MAX_BACKOFF_MS = 30 * 60_000;
+
+/** Shortest retry wait, so a short cadence does not hammer a failing endpoint */
+const MIN_BACKOFF_MS = 30_000;
+
+export function resolveSyncInterval(cadence: SyncCadence, accountId: string, chain?: string): number {
+  return cadence.accounts[accountId]
+    ?? (chain !== undefined ? cadence.chains[chain] : undefined)
+    ?? cadence.defaultIntervalMs;
+}
+
+/** Wait before the next attempt after `failures` consecutive failed fetches */
+export function backoffInterval(intervalMs: number, failures: number): number {
+  if (failures <= 0) return intervalMs;
+  const base = Math.max(intervalMs || MIN_BACKOFF_MS, MIN_BACKOFF_MS);
+  return Math.min(base * 2 ** (failures - 1), MAX_BACKOFF_MS);
+}
+
+export interface ScopeSyncState {
+  /** Epoch ms of the last started fetch; undefined when never fetched */
+  lastAttemptAt?: number;
+  /** Consecutive failed fetches */
+  failures: number;
+}
+
+/**
+ * Whether a scope should be fetched now. A never-fetched scope is due; a
+ * manual-only scope is due only while failing, so a failed manual refresh is
+ * retried with backoff.
+ */
+export function isScopeDue(state: ScopeSyncState, intervalMs: number, now: number): boolean {
+  if (state.lastAttemptAt === undefined) return true;
+  if (intervalMs === MANUAL_SYNC && state.failures === 0) return false;
+  return now - state.lastAttemptAt >= backoffInterval(intervalMs, state.failures);
+}
+
+export function formatSyncInterval(intervalMs: number): string {
+  return SYNC_INTERVAL_OPTIONS.find(option => option.value === intervalMs)?.label
+    ?? `Every ${Math.round(intervalMs / 1000)} seconds`;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SYNC_CADENCE,
+  MANUAL_SYNC,
+  MAX_BACKOFF_MS,
+  backoffInterval,
+  isScopeDue,
+  resolveSyncInterval,
+  type SyncCadence,
+} from '../SyncCadence';
+
+const cadence: SyncCadence = {
+  defaultIntervalMs: 60_000,
+  chains: { Ethereum: 5 * 60_000 },
+  accounts: { 'acc-1': 30_000 },
+};
+
+describe('resolveSyncInterval', () => {
+  it('prefers the account override, then the chain, then the default', () => {
+    expect(resolveSyncInterval(cadence, 'acc-1', 'Ethereum')).toBe(30_000);
+    expect(resolveSyncInterval(cadence, 'acc-2', 'Ethereum')).toBe(5 * 60_000);
+    expect(resolveSyncInterval(cadence, 'acc-2', 'Polygon')).toBe(60_000);
+    expect(resolveSyncInterval(DEFAULT_SYNC_CADENCE, 'cex-1')).toBe(60_000);
+  });
+
+  it('keeps a manual-only override', () => {
+    expect(resolveSyncInterval({ ...cadence, chains: { Solana: MANUAL_SYNC } }, 'acc-2', 'Solana')).toBe(MANUAL_SYNC);
+  });
+});
+
+describe('backoffInterval', () => {
+  it('doubles the wait per consecutive failure up to the cap', () => {
+    expect(backoffInterval(60_000, 0)).toBe(60_000);
+    expect(backoffInterval(60_000, 1)).toBe(60_000);
+    expect(backoffInterval(60_000, 3)).toBe(240_000);
+    expect(backoffInterval(60_000, 20)).toBe(MAX_BACKOFF_MS);
+  });
+
+  it('never retries a failing scope faster than every 30 seconds', () => {
+    expect(backoffInterval(5_000, 1)).toBe(30_000);
+    expect(backoffInterval(MANUAL_SYNC, 2)).toBe(60_000);
+  });
+});
+
+describe('isScopeDue', () => {
+  it('is due when never fetched or once the interval has elapsed', () => {
+    expect(isScopeDue({ failures: 0 }, 60_000, 0)).toBe(true);
+    expect(isScopeDue({ lastAttemptAt: 1_000, failures: 0 }, 60_000, 30_000)).toBe(false);
+    expect(isScopeDue({ lastAttemptAt: 1_000, failures: 0 }, 60_000, 61_000)).toBe(true);
+  });
+
+  it('waits out the backoff of a failing scope', () => {
+    expect(isScopeDue({ lastAttemptAt: 0, failures: 2 }, 60_000, 61_000)).toBe(false);
+    expect(isScopeDue({ lastAttemptAt: 0, failures: 2 }, 60_000, 120_000)).toBe(true);
+  });
+
+  it('refreshes manual-only scopes only to retry a failure', () => {
+    expect(isScopeDue({ lastAttemptAt: 0, failures: 0 }, MANUAL_SYNC, 10 * MAX_BACKOFF_MS)).toBe(false);
+    expect(isScopeDue({ lastAttemptAt: 0, failures: 1 }, MANUAL_SYNC, 30_000)).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * TokenDiscovery
+ *
+ * Finds the ERC-20 tokens an EVM account has held by scanning Transfer logs to
+ * and from its address, so balances are read for more than the well-known and
+ * user-added tokens. Each (account, chain) pair remembers the last block it
+ * scanned and the tokens it found, so later syncs only scan new blocks.
+ * Contracts that are not ERC-20 tokens or look like spam are remembered as
+ * rejected and never looked up again.
+ */
+
+export interface DiscoveredToken {
+  /** Contract address as found in the logs */
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  chainId: number;
+}
+
+/** Metadata read from a candidate contract; null when it is not an ERC-20 token */
+export type TokenMetadata = Omit<DiscoveredToken, 'chainId'>;
+
+export interface TokenDiscoveryRecord {
+  /** `${accountId}:${chain}` */
+  key: string;
+  accountId: string;
+  chain: string;
+  /** Last block scanned, as a decimal string */
+  scannedToBlock: string;
+  tokens: DiscoveredToken[];
+  /** Lowercased addresses of contracts that were looked up and turned down */
+  rejected: string[];
+  updatedAt: number;
+}
+
+export interface ITokenDiscoveryRepository {
+  get(key: string): Promise<TokenDiscoveryRecord | null>;
+  save(record: TokenDiscoveryRecord): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface TokenScanTarget {
+  accountId: string;
+  address: string;
+  /** Display chain name, e.g. Ethereum */
+  chain: string;
+  chainId: number;
+}
+
+export interface TokenLogScan {
+  /** Contracts that emitted a Transfer to or from the address */
+  contracts: string[];
+  scannedToBlock: bigint;
+  /** True when the scan stopped before the chain head */
+  hasMore: boolean;
+}
+
+/** Reads Transfer logs and token metadata from a chain */
+export interface ITokenLogScanner {
+  /** Scan blocks after `afterBlock` (from the configured backfill start when null) */
+  scan(target: TokenScanTarget, afterBlock: bigint | null, signal?: AbortSignal): Promise<TokenLogScan>;
+  /** Metadata per contract, in order; null for contracts that are not ERC-20 tokens */
+  readMetadata(chainId: number, contracts: string[], signal?: AbortSignal): Promise<Array<TokenMetadata | null>>;
+}
+
+export interface TokenDiscoveryResult {
+  /** Every token found for the account on the chain so far */
+  tokens: DiscoveredToken[];
+  hasMore: boolean;
+  /** Why this run could not scan; tokens found earlier are still returned */
+  error?: string;
+}
+
+export function discoveryKey(accountId: string, chain: string): string {
+  return `${accountId}:${chain}`;
+}
+
+export class TokenDiscoveryService {
+  private repository: ITokenDiscoveryRepository;
+  private scanner: ITokenLogScanner;
+  private isSpam: (token: TokenMetadata) => boolean;
+  // One scan per (account, chain) at a time; a second caller shares the first run
+  private inFlight: Map<string, Promise<TokenDiscoveryResult>> = new Map();
+
+  constructor(
+    repository: ITokenDiscoveryRepository,
+    scanner: ITokenLogScanner,
+    isSpam: (token: TokenMetadata) => boolean = () => false
+  ) {
+    this.repository = repository;
+    this.scanner = scanner;
+    this.isSpam = isSpam;
+  }
+
+  /**
+   * Scan the blocks since the last run and return all tokens found so far.
+   * A failed scan still returns the tokens found earlier; only an abort throws.
+   */
+  public discover(target: TokenScanTarget, signal?: AbortSignal): Promise<TokenDiscoveryResult> {
+    const key = discoveryKey(target.accountId, target.chain);
+    const running = this.inFlight.get(key);
+    if (running) return running;
+
+    const run = this.scanTarget(key, target, signal).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, run);
+    return run;
+  }
+
+  /**
+   * Tokens found for the account on the chain by earlier runs, without scanning
+   */
+  public async known(target: Pick<TokenScanTarget, 'accountId' | 'chain'>): Promise<DiscoveredToken[]> {
+    const stored = await this.repository.get(discoveryKey(target.accountId, target.chain));
+    return stored?.tokens ?? [];
+  }
+
+  /**
+   * Forget all discovered tokens and scan positions
+   */
+  public async clear(): Promise<void> {
+    await this.repository.clear();
+  }
+
+  private async scanTarget(key: string, target: TokenScanTarget, signal?: AbortSignal): Promise<TokenDiscoveryResult> {
+    const stored = await this.repository.get(key);
+    const known = stored?.tokens ?? [];
+
+    try {
+      const scan = await this.scanner.scan(target, stored ? BigInt(stored.scannedToBlock) : null, signal);
+      signal?.throwIfAborted();
+
+      const seen = new Set([
+        ...known.map(token => token.address.toLowerCase()),
+        ...(stored?.rejected ?? []),
+      ]);
+      const candidates = [...new Set(scan.contracts.map(address => address.toLowerCase()))]
+        .filter(address => !seen.has(address));
+
+      const tokens = [...known];
+      const rejected = [...(stored?.rejected ?? [])];
+      if (candidates.length > 0) {
+        const metadata = await this.scanner.readMetadata(target.chainId, candidates, signal);
+        signal?.throwIfAborted();
+
+        candidates.forEach((address, i) => {
+          const token = metadata[i];
+          if (token && !this.isSpam(token)) {
+            tokens.push({ ...token, chainId: target.chainId });
+          } else {
+            rejected.push(address);
+          }
+        });
+      }
+
+      await this.repository.save({
+        key,
+        accountId: target.accountId,
+        chain: target.chain,
+        scannedToBlock: scan.scannedToBlock.toString(),
+        tokens,
+        rejected,
+        updatedAt: Date.now(),
+      });
+      return { tokens, hasMore: scan.hasMore };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {
+        tokens: known,
+        hasMore: true,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * TokenList
+ *
+ * Token lists in the tokenlists.org format (as published by Uniswap and most
+ * wallets) and the catalog built from them. Lists are validated against the
+ * schema's rules before they are kept, a list imported again replaces the
+ * stored copy only when its version is newer, and lists are merged per chain
+ * into a searchable catalog where the higher-priority list wins when two
+ * describe the same contract differently.
+ */
+
+import { Result } from '../shared/Result';
+import { ValidationError } from '../shared/DomainError';
+
+export interface TokenListVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface TokenList {
+  name: string;
+  /** ISO 8601 time the list was published */
+  timestamp: string;
+  version: TokenListVersion;
+  tokens: TokenListToken[];
+  logoURI?: string;
+  keywords?: string[];
+}
+
+/** Where a list came from; URL lists can be fetched again for newer versions */
+export type TokenListSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; fileName: string };
+
+export interface ImportedTokenList {
+  /** Lowercased list name; a list's name identifies it across versions */
+  id: string;
+  source: TokenListSource;
+  list: TokenList;
+  importedAt: number;
+  /** Disabled lists stay stored but are left out of the catalog */
+  enabled: boolean;
+  /** Read balances of every token on the list for this chain's accounts during sync */
+  includeInSync: boolean;
+}
+
+/** Stored lists in priority order, highest first */
+export interface ITokenListRepository {
+  getAll(): Promise<ImportedTokenList[]>;
+  saveAll(lists: ImportedTokenList[]): Promise<void>;
+}
+
+export type TokenListImportOutcome = 'added' | 'updated' | 'unchanged';
+
+export interface TokenListImport {
+  lists: ImportedTokenList[];
+  outcome: TokenListImportOutcome;
+  /** The stored list after the import */
+  imported: ImportedTokenList;
+}
+
+/** A catalog entry, taken from the highest-priority list that has the contract */
+export interface CatalogToken extends TokenListToken {
+  /** Names of the lists the token appears on, highest priority first */
+  lists: string[];
+}
+
+/** Two lists disagree on a contract's symbol or decimals; the winner's entry is kept */
+export interface TokenListConflict {
+  chainId: number;
+  address: string;
+  kept: string;
+  overridden: string;
+}
+
+// Limits from the tokenlists.org JSON schema
+const MAX_LIST_NAME_LENGTH = 30;
+const MAX_TOKENS = 10_000;
+const MAX_TOKEN_NAME_LENGTH = 60;
+const MAX_SYMBOL_LENGTH = 20;
+const MAX_DECIMALS = 255;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validateToken(value: unknown, path: string): ValidationError | null {
+  const invalid = (reason: string) => new ValidationError(`${path} ${reason}`, 'tokenList', path);
+
+  if (!isRecord(value)) return invalid('is not an object');
+  if (!isNonNegativeInteger(value.chainId) || value.chainId < 1) return invalid('has an invalid chainId');
+  if (typeof value.address !== 'string' || !ADDRESS_PATTERN.test(value.address)) return invalid('has an invalid address');
+  if (!isNonNegativeInteger(value.decimals) || value.decimals > MAX_DECIMALS) return invalid('has invalid decimals');
+  if (typeof value.name !== 'string' || value.name.length > MAX_TOKEN_NAME_LENGTH) return invalid('has an invalid name');
+  if (typeof value.symbol !== 'string' || value.symbol.length === 0 || value.symbol.length > MAX_SYMBOL_LENGTH) {
+    return invalid('has an invalid symbol');
+  }
+  if (value.logoURI !== undefined && typeof value.logoURI !== 'string') return invalid('has an invalid logoURI');
+  if (value.tags !== undefined && !isStringList(value.tags)) return invalid('has invalid tags');
+  return null;
+}
+
+/**
+ * Check that a parsed JSON value is a token list. Any invalid token rejects
+ * the whole list, as the schema does.
+ */
+export function validateTokenList(value: unknown): Result<TokenList, ValidationError> {
+  if (!isRecord(value)) {
+    return Result.failure(new ValidationError('Token list is not an object', 'tokenList'));
+  }
+  if (typeof value.name !== 'string' || value.name.trim().length === 0 || value.name.length > MAX_LIST_NAME_LENGTH) {
+    return Result.failure(new ValidationError('Token list name is missing or too long', 'tokenList', 'name'));
+  }
+  if (typeof value.timestamp !== 'string' || Number.isNaN(Date.parse(value.timestamp))) {
+    return Result.failure(new ValidationError('Token list timestamp is not a date', 'tokenList', 'timestamp'));
+  }
+  const version = value.version;
+  if (!isRecord(version)
+    || !isNonNegativeInteger(version.major) || !isNonNegativeInteger(version.minor) || !isNonNegativeInteger(version.patch)) {
+    return Result.failure(new ValidationError('Token list version is invalid', 'tokenList', 'version'));
+  }
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0 || value.tokens.length > MAX_TOKENS) {
+    return Result.failure(new ValidationError(`Token list must have between 1 and ${MAX_TOKENS} tokens`, 'tokenList', 'tokens'));
+  }
+  if (value.logoURI !== undefined && typeof value.logoURI !== 'string') {
+    return Result.failure(new ValidationError('Token list logoURI is invalid', 'tokenList', 'logoURI'));
+  }
+  if (value.keywords !== undefined && !isStringList(value.keywords)) {
+    return Result.failure(new ValidationError('Token list keywords are invalid', 'tokenList', 'keywords'));
+  }
+
+  for (let i = 0; i < value.tokens.length; i++) {
+    const invalid = validateToken(value.tokens[i], `tokens[${i}]`);
+    if (invalid) return Result.failure(invalid);
+  }
+
+  return Result.success(value as unknown as TokenList);
+}
+
+/** Negative when `a` is older than `b`, positive when newer */
+export function compareTokenListVersions(a: TokenListVersion, b: TokenListVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+export function formatTokenListVersion(version: TokenListVersion): string {
+  return `${version.major}.${version.minor}.${version.patch}`;
+}
+
+export function tokenListId(list: TokenList): string {
+  return list.name.trim().toLowerCase();
+}
+
+/**
+ * Add a list to the stored ones. A list already stored under the same name is
+ * replaced, keeping its position and settings, only when the new one has a
+ * higher version; an older version is refused.
+ */
+export function planTokenListImport(
+  lists: ImportedTokenList[],
+  list: TokenList,
+  source: TokenListSource,
+  now: number
+): Result<TokenListImport, ValidationError> {
+  const id = tokenListId(list);
+  const index = lists.findIndex(stored => stored.id === id);
+
+  if (index === -1) {
+    const imported: ImportedTokenList = { id, source, list, importedAt: now, enabled: true, includeInSync: false };
+    return Result.success({ lists: [...lists, imported], outcome: 'added', imported });
+  }
+
+  const existing = lists[index];
+  const order = compareTokenListVersions(list.version, existing.list.version);
+  if (order < 0) {
+    return Result.failure(new ValidationError(
+      `${list.name} ${formatTokenListVersion(list.version)} is older than the stored ${formatTokenListVersion(existing.list.version)}`,
+      'tokenList',
+      'version'
+    ));
+  }
+  if (order === 0) {
+    return Result.success({ lists, outcome: 'unchanged', imported: existing });
+  }
+
+  const imported: ImportedTokenList = { ...existing, source, list, importedAt: now };
+  const updated = [...lists];
+  updated[index] = imported;
+  return Result.success({ lists: updated, outcome: 'updated', imported });
+}
+
+function catalogKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * Tokens of the enabled lists, per chain. Lists are given highest priority
+ * first; a contract on several lists takes its metadata from the first,
+ * filling in a missing logo from later ones.
+ */
+export class TokenCatalog {
+  private readonly byKey = new Map<string, CatalogToken>();
+  private readonly byChain = new Map<number, CatalogToken[]>();
+  public readonly conflicts: TokenListConflict[] = [];
+
+  constructor(lists: TokenList[]) {
+    for (const list of lists) {
+      for (const token of list.tokens) {
+        const key = catalogKey(token.chainId, token.address);
+        const existing = this.byKey.get(key);
+        if (!existing) {
+          const entry: CatalogToken = { ...token, lists: [list.name] };
+          this.byKey.set(key, entry);
+          const chainTokens = this.byChain.get(token.chainId) ?? [];
+          chainTokens.push(entry);
+          this.byChain.set(token.chainId, chainTokens);
+          continue;
+        }
+
+        if (!existing.lists.includes(list.name)) existing.lists.push(list.name);
+        existing.logoURI ??= token.logoURI;
+        if (existing.symbol !== token.symbol || existing.decimals !== token.decimals) {
+          this.conflicts.push({ chainId: token.chainId, address: existing.address, kept: existing.lists[0], overridden: list.name });
+        }
+      }
+    }
+  }
+
+  get(chainId: number, address: string): CatalogToken | undefined {
+    return this.byKey.get(catalogKey(chainId, address));
+  }
+
+  tokensFor(chainId: number): CatalogToken[] {
+    return this.byChain.get(chainId) ?? [];
+  }
+
+  /**
+   * Tokens of a chain matching a query on symbol, name or address. Exact
+   * symbol matches come first, then symbol prefixes, then anything else.
+   */
+  search(chainId: number, query: string, limit = 20): CatalogToken[] {
+    const needle = query.trim().toLowerCase();
+    const tokens = this.tokensFor(chainId);
+    if (!needle) return tokens.slice(0, limit);
+
+    const rank = (token: CatalogToken): number => {
+      const symbol = token.symbol.toLowerCase();
+      if (symbol === needle || token.address.toLowerCase() === needle) return 0;
+      if (symbol.startsWith(needle)) return 1;
+      if (token.name.toLowerCase().includes(needle) || symbol.includes(needle)) return 2;
+      return -1;
+    };
+
+    return tokens
+      .map(token => ({ token, rank: rank(token) }))
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank)
+      .slice(0, limit)
+      .map(({ token }) => token);
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TokenDiscoveryService,
+  type ITokenDiscoveryRepository,
+  type ITokenLogScanner,
+  type TokenDiscoveryRecord,
+  type TokenMetadata,
+} from '../TokenDiscovery';
+
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const SPAM = '0x5555555555555555555555555555555555555555';
+const NFT = '0x4444444444444444444444444444444444444444';
+
+const METADATA: Record<string, TokenMetadata | null> = {
+  [USDC]: { address: USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+  [SPAM]: { address: SPAM, symbol: 'FREE', name: 'Visit claim-now.com', decimals: 18 },
+  [NFT]: null,
+};
+
+function createRepository(): ITokenDiscoveryRepository & { records: Map<string, TokenDiscoveryRecord> } {
+  const records = new Map<string, TokenDiscoveryRecord>();
+  return {
+    records,
+    get: async key => records.get(key) ?? null,
+    save: async record => { records.set(record.key, record); },
+    clear: async () => records.clear(),
+  };
+}
+
+function createScanner(contracts: string[], scannedToBlock = 100n) {
+  return {
+    scan: vi.fn<ITokenLogScanner['scan']>(async () => ({ contracts, scannedToBlock, hasMore: false })),
+    readMetadata: vi.fn<ITokenLogScanner['readMetadata']>(async (_chainId, addresses) =>
+      addresses.map(address => METADATA[address] ?? null)
+    ),
+  };
+}
+
+const target = { accountId: 'acc-1', address: '0x1111111111111111111111111111111111111111', chain: 'Ethereum', chainId: 1 };
+const isSpam = (token: TokenMetadata) => /visit|claim/i.test(token.name);
+
+describe('TokenDiscoveryService', () => {
+  it('keeps ERC-20 candidates and rejects spam and non-tokens', async () => {
+    const repository = createRepository();
+    const scanner = createScanner([USDC.toUpperCase().replace('0X', '0x'), SPAM, NFT]);
+    const service = new TokenDiscoveryService(repository, scanner, isSpam);
+
+    const result = await service.discover(target);
+
+    expect(result.tokens).toEqual([{ address: USDC, symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 1 }]);
+    expect(result.error).toBeUndefined();
+    expect(repository.records.get('acc-1:Ethereum')).toMatchObject({
+      scannedToBlock: '100',
+      rejected: [SPAM, NFT],
+    });
+  });
+
+  it('scans only new blocks and looks up only new contracts', async () => {
+    const repository = createRepository();
+    const service = new TokenDiscoveryService(repository, createScanner([USDC, NFT]), isSpam);
+    await service.discover(target);
+
+    const scanner = createScanner([USDC, NFT], 150n);
+    const next = new TokenDiscoveryService(repository, scanner, isSpam);
+    const result = await next.discover(target);
+
+    expect(scanner.scan).toHaveBeenCalledWith(target, 100n, undefined);
+    expect(scanner.readMetadata).not.toHaveBeenCalled();
+    expect(result.tokens.map(token => token.symbol)).toEqual(['USDC']);
+    expect(repository.records.get('acc-1:Ethereum')?.scannedToBlock).toBe('150');
+  });
+
+  it('returns the tokens found earlier when a scan fails', async () => {
+    const repository = createRepository();
+    await new TokenDiscoveryService(repository, createScanner([USDC])).discover(target);
+
+    const failing = createScanner([]);
+    failing.scan.mockRejectedValueOnce(new Error('rate limited'));
+    const result = await new TokenDiscoveryService(repository, failing).discover(target);
+
+    expect(result.error).toBe('rate limited');
+    expect(result.tokens.map(token => token.symbol)).toEqual(['USDC']);
+    expect(repository.records.get('acc-1:Ethereum')?.scannedToBlock).toBe('100');
+  });
+
+  it('shares a running scan between callers', async () => {
+    const scanner = createScanner([USDC]);
+    const service = new TokenDiscoveryService(createRepository(), scanner);
+
+    await Promise.all([service.discover(target), service.discover(target)]);
+    expect(scanner.scan).toHaveBeenCalledTimes(1);
+  });
+});
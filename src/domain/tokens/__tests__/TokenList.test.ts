@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TokenCatalog,
+  compareTokenListVersions,
+  planTokenListImport,
+  validateTokenList,
+  type TokenList,
+  type TokenListToken,
+} from '../TokenList';
+
+const USDC: TokenListToken = {
+  chainId: 1,
+  address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  symbol: 'USDC',
+  name: 'USD Coin',
+  decimals: 6,
+  logoURI: 'https://example.com/usdc.png',
+};
+const USDT: TokenListToken = { chainId: 1, address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', name: 'Tether USD', decimals: 6 };
+const USDC_POLYGON: TokenListToken = { chainId: 137, address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', symbol: 'USDC', name: 'USD Coin', decimals: 6 };
+
+function tokenList(overrides: Partial<TokenList> = {}): TokenList {
+  return {
+    name: 'Example List',
+    timestamp: '2025-06-01T00:00:00.000Z',
+    version: { major: 1, minor: 2, patch: 0 },
+    tokens: [USDC, USDT, USDC_POLYGON],
+    ...overrides,
+  };
+}
+
+describe('validateTokenList', () => {
+  it('accepts a list in the tokenlists.org format', () => {
+    const result = validateTokenList(JSON.parse(JSON.stringify(tokenList())));
+    expect(result.isSuccess).toBe(true);
+  });
+
+  it.each([
+    ['a list without a version', { ...tokenList(), version: undefined }, 'version'],
+    ['a list without tokens', tokenList({ tokens: [] }), 'tokens'],
+    ['a token with a malformed address', tokenList({ tokens: [{ ...USDC, address: '0x1234' }] }), 'tokens[0]'],
+    ['a token with fractional decimals', tokenList({ tokens: [USDT, { ...USDC, decimals: 6.5 }] }), 'tokens[1]'],
+    ['a token without a symbol', tokenList({ tokens: [{ ...USDC, symbol: '' }] }), 'tokens[0]'],
+  ])('rejects %s', (_case, value, field) => {
+    const result = validateTokenList(value);
+    expect(result.isFailure).toBe(true);
+    expect(result.error.details?.value).toBe(field);
+  });
+});
+
+describe('planTokenListImport', () => {
+  const source = { kind: 'url', url: 'https://example.com/list.json' } as const;
+
+  it('adds a new list enabled and left out of sync', () => {
+    const result = planTokenListImport([], tokenList(), source, 1000);
+    expect(result.value.outcome).toBe('added');
+    expect(result.value.lists).toEqual([
+      { id: 'example list', source, list: tokenList(), importedAt: 1000, enabled: true, includeInSync: false },
+    ]);
+  });
+
+  it('replaces a stored list only with a newer version, keeping its settings', () => {
+    const stored = { ...planTokenListImport([], tokenList(), source, 1000).value.imported, includeInSync: true };
+    const newer = tokenList({ version: { major: 1, minor: 3, patch: 0 }, tokens: [USDC] });
+
+    const updated = planTokenListImport([stored], newer, source, 2000);
+    expect(updated.value.outcome).toBe('updated');
+    expect(updated.value.lists).toEqual([{ ...stored, list: newer, importedAt: 2000 }]);
+
+    expect(planTokenListImport([stored], tokenList(), source, 2000).value.outcome).toBe('unchanged');
+
+    const older = planTokenListImport([stored], tokenList({ version: { major: 1, minor: 1, patch: 9 } }), source, 2000);
+    expect(older.isFailure).toBe(true);
+    expect(older.error.message).toContain('older');
+  });
+
+  it('orders versions by major, minor then patch', () => {
+    expect(compareTokenListVersions({ major: 2, minor: 0, patch: 0 }, { major: 1, minor: 9, patch: 9 })).toBeGreaterThan(0);
+    expect(compareTokenListVersions({ major: 1, minor: 0, patch: 1 }, { major: 1, minor: 0, patch: 2 })).toBeLessThan(0);
+  });
+});
+
+describe('TokenCatalog', () => {
+  it('groups tokens per chain and merges lists by priority', () => {
+    const renamed = { ...USDC, address: USDC.address.toLowerCase(), symbol: 'USDC.e', logoURI: undefined };
+    const catalog = new TokenCatalog([
+      tokenList({ name: 'Preferred', tokens: [{ ...USDC, logoURI: undefined }] }),
+      tokenList({ name: 'Fallback', tokens: [USDC, renamed, USDT] }),
+    ]);
+
+    expect(catalog.tokensFor(1).map(token => token.symbol)).toEqual(['USDC', 'USDT']);
+    expect(catalog.tokensFor(137)).toEqual([]);
+
+    const usdc = catalog.get(1, USDC.address.toLowerCase());
+    expect(usdc).toMatchObject({ symbol: 'USDC', logoURI: USDC.logoURI, lists: ['Preferred', 'Fallback'] });
+    expect(catalog.conflicts).toEqual([
+      { chainId: 1, address: USDC.address, kept: 'Preferred', overridden: 'Fallback' },
+    ]);
+  });
+
+  it('ranks exact symbol matches before prefixes and name matches', () => {
+    const catalog = new TokenCatalog([tokenList({
+      tokens: [
+        { ...USDT, symbol: 'USDC.e', name: 'Bridged USDC', address: '0x1111111111111111111111111111111111111111' },
+        { ...USDT, symbol: 'AUSDC', name: 'Aave USDC', address: '0x2222222222222222222222222222222222222222' },
+        USDC,
+        USDT,
+      ],
+    })]);
+
+    expect(catalog.search(1, 'usdc').map(token => token.symbol)).toEqual(['USDC', 'USDC.e', 'AUSDC']);
+    expect(catalog.search(1, USDT.address.toLowerCase()).map(token => token.symbol)).toEqual(['USDT']);
+    expect(catalog.search(1, '', 2)).toHaveLength(2);
+  });
+});
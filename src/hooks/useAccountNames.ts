@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useStore } from '../store/useStore';
+import { nameServiceForAccount, type NameServiceKind } from '../domain/names/NameService';
+import { getNameResolutionService } from '../infrastructure/names/NameResolutionService';
+
+interface NamedAddress {
+  service: NameServiceKind;
+  address: string;
+}
+
+/**
+ * Verified ENS, SNS and SuiNS names of the wallet accounts' addresses. Names
+ * come from the cache first and are looked up again once it expires; the
+ * returned function gives null for addresses without a name.
+ */
+export function useAccountNames(): (address: string) => string | null {
+  const accounts = useStore(state => state.accounts);
+  const service = getNameResolutionService();
+  // Re-render when a looked-up name arrives
+  useSyncExternalStore(service.subscribe, service.getVersion);
+
+  // Round-trip through a key so lookups only re-run when the addresses change
+  const targetsKey = useMemo(() => {
+    const targets = new Map<string, NamedAddress>();
+    for (const account of accounts) {
+      if (account.type !== 'wallet' || !account.address) continue;
+      const kind = nameServiceForAccount(account.platform, account.address);
+      if (kind) targets.set(`${kind}:${account.address}`, { service: kind, address: account.address });
+    }
+    return JSON.stringify([...targets.values()]);
+  }, [accounts]);
+  const targets = useMemo(() => JSON.parse(targetsKey) as NamedAddress[], [targetsKey]);
+
+  useEffect(() => {
+    for (const target of targets) {
+      void service.lookupAddress(target.service, target.address);
+    }
+  }, [service, targets]);
+
+  const names = new Map<string, string>();
+  for (const target of targets) {
+    const name = service.getCachedName(target.service, target.address);
+    if (!name) continue;
+    names.set(target.address, name);
+    if (target.service !== 'sns') names.set(target.address.toLowerCase(), name);
+  }
+
+  return (address: string) => names.get(address) ?? names.get(address.toLowerCase()) ?? null;
+}
@@ -4,6 +4,7 @@ import React from 'react';
 import { useAccountSync } from './useAccountSync';
 import { useStore } from '../store/useStore';
 import type { Account } from '../store/useStore';
+import type { BitcoinWatchService } from '../infrastructure/bitcoin/BitcoinWatchService';
 
 // Mock evm-integration to avoid module resolution errors
 vi.mock('@cygnus-wealth/evm-integration', () => ({
@@ -259,6 +260,7 @@ describe('useAccountSync - Solana & SUI', () => {
           getTokenBalances: vi.fn().mockResolvedValue(mockResultFail({ message: 'RPC error' })),
           getHealthMetrics: vi.fn(),
         } as any,
+        bitcoinWatch: { getHoldings: vi.fn() } as unknown as BitcoinWatchService,
         rpcConfig: { environment: 'production', chains: {}, circuitBreaker: { failureThreshold: 5, openDurationMs: 30000, halfOpenMaxAttempts: 2, monitorWindowMs: 60000 }, retry: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 }, healthCheck: { intervalMs: 30000, timeoutMs: 5000, method: 'eth_blockNumber' }, privacy: { rotateWithinTier: true, privacyMode: false, queryJitterMs: 100 } } as any,
       });
 
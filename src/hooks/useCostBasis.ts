@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from 'react';
+import { useStore } from '../store/useStore';
+import { Price } from '../domain/asset/Price';
+import {
+  calculateCostBasis,
+  calculateUnrealizedPnL,
+  combinePositions,
+  costBasisKey,
+  type CostBasisPosition,
+  type UnrealizedPnL,
+} from '../domain/portfolio/CostBasis';
+
+export interface HoldingPnL {
+  position: CostBasisPosition;
+  /** Null until the holding has a price */
+  unrealized: UnrealizedPnL | null;
+}
+
+export function useCostBasis() {
+  const entries = useStore(state => state.costBasisEntries);
+  const method = useStore(state => state.costBasisMethod);
+
+  const positions = useMemo(() => calculateCostBasis(entries, method), [entries, method]);
+
+  /**
+   * P&L for a holding that may span several accounts; null when none of
+   * them has cost basis entries for the asset
+   */
+  const getHoldingPnL = useCallback((
+    accountIds: string[],
+    chain: string,
+    symbol: string,
+    heldQuantity: number,
+    priceUsd: number | null
+  ): HoldingPnL | null => {
+    const position = combinePositions(
+      accountIds
+        .map(id => positions.get(costBasisKey(id, chain, symbol)))
+        .filter((p): p is CostBasisPosition => p !== undefined)
+    );
+    if (!position) return null;
+
+    const unrealized = priceUsd !== null && priceUsd > 0
+      ? calculateUnrealizedPnL(position, heldQuantity, Price.live(priceUsd))
+      : null;
+    return { position, unrealized };
+  }, [positions]);
+
+  return { entries, method, positions, getHoldingPnL };
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect } from 'react';
+import { useStore } from '../store/useStore';
+import { formatCurrency, type BaseCurrency, type FormatCurrencyOptions } from '../domain/asset/Currency';
+import { getExchangeRateService } from '../infrastructure/fx/createExchangeRateService';
+
+const RATE_REFRESH_MS = 10 * 60 * 1000;
+
+/**
+ * Display currency helpers. Values are held in USD and converted here; until
+ * the first rate for the chosen base currency arrives they stay in USD rather
+ * than showing a wrong figure.
+ */
+export function useCurrency() {
+  const baseCurrency = useStore(state => state.baseCurrency);
+  const exchangeRate = useStore(state => state.exchangeRates[state.baseCurrency]);
+
+  const currency: BaseCurrency = baseCurrency === 'USD' || !exchangeRate ? 'USD' : baseCurrency;
+  const rate = currency === 'USD' || !exchangeRate ? 1 : exchangeRate.rate;
+
+  const convert = useCallback((usd: number) => usd * rate, [rate]);
+
+  const format = useCallback(
+    (usd: number, options?: FormatCurrencyOptions) => formatCurrency(usd * rate, currency, options),
+    [rate, currency]
+  );
+
+  return {
+    currency,
+    baseCurrency,
+    rate,
+    /** Base currency chosen but its rate not loaded yet */
+    isRatePending: currency !== baseCurrency,
+    rateUpdatedAt: exchangeRate?.updatedAt ?? null,
+    convert,
+    format,
+  };
+}
+
+/**
+ * Keep the base currency's USD rate fresh. Mounted once in the layout; nothing
+ * is fetched while the base currency is USD.
+ */
+export function useExchangeRateSync() {
+  const baseCurrency = useStore(state => state.baseCurrency);
+  const setExchangeRate = useStore(state => state.setExchangeRate);
+
+  useEffect(() => {
+    if (baseCurrency === 'USD') return;
+
+    let cancelled = false;
+    const refresh = () => {
+      getExchangeRateService()
+        .fetchExchangeRate('USD', baseCurrency)
+        .then(result => {
+          if (cancelled) return;
+          result.match({
+            success: (price) => setExchangeRate({
+              currency: baseCurrency,
+              rate: price.getAmount(),
+              updatedAt: price.getTimestamp().toISOString(),
+            }),
+            failure: (error) => console.warn(`Exchange rate refresh failed for ${baseCurrency}:`, error.message),
+          });
+        });
+    };
+
+    refresh();
+    const timer = setInterval(refresh, RATE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [baseCurrency, setExchangeRate]);
+}
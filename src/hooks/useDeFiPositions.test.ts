@@ -9,7 +9,21 @@ vi.mock('../domain/defi/DeFiPositionService', () => ({
   getDeFiPositions: vi.fn(() => []),
 }));
 
+const mockDiscover = vi.fn();
+const mockGetSupportedChains = vi.fn(() => [{ id: 1 }, { id: 8453 }]);
+
+vi.mock('../providers/IntegrationProvider', () => {
+  const integration = { evmRegistry: { getSupportedChains: () => mockGetSupportedChains() } };
+  return { useIntegration: () => integration };
+});
+
+vi.mock('../infrastructure/defi/createDeFiDiscoveryService', () => ({
+  createDeFiDiscoveryService: () => ({ discover: mockDiscover }),
+}));
+
 import { getDeFiPositions } from '../domain/defi/DeFiPositionService';
+import { Result } from '../domain/shared/Result';
+import { ServiceError } from '../domain/shared/DomainError';
 
 const mockPositions: DeFiPosition[] = [
   {
@@ -41,6 +55,7 @@ const mockPositions: DeFiPosition[] = [
 describe('useDeFiPositions', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockDiscover.mockResolvedValue(Result.success({ data: {}, failures: [] }));
     useStore.setState({
       accounts: [],
       defiPositions: [],
@@ -54,7 +69,16 @@ describe('useDeFiPositions', () => {
     expect(getDeFiPositions).not.toHaveBeenCalled();
   });
 
-  it('should fetch DeFi positions when connected accounts exist', () => {
+  it('should clear positions once no accounts are connected', () => {
+    useStore.setState({ defiPositions: mockPositions });
+
+    renderHook(() => useDeFiPositions());
+
+    expect(useStore.getState().defiPositions).toEqual([]);
+    expect(mockDiscover).not.toHaveBeenCalled();
+  });
+
+  it('should fetch DeFi positions when connected accounts exist', async () => {
     vi.mocked(getDeFiPositions).mockReturnValue(mockPositions);
 
     useStore.setState({
@@ -71,13 +95,14 @@ describe('useDeFiPositions', () => {
     });
 
     renderHook(() => useDeFiPositions());
+    await act(async () => {});
 
     const state = useStore.getState();
     expect(state.defiPositions).toHaveLength(2);
     expect(state.defiPositions[0].protocol).toBe('Uniswap V3');
   });
 
-  it('should compute total DeFi value', () => {
+  it('should compute total DeFi value', async () => {
     vi.mocked(getDeFiPositions).mockReturnValue(mockPositions);
 
     useStore.setState({
@@ -94,11 +119,12 @@ describe('useDeFiPositions', () => {
     });
 
     const { result } = renderHook(() => useDeFiPositions());
+    await act(async () => {});
 
     expect(result.current.totalDeFiValue).toBe(84000);
   });
 
-  it('should handle errors gracefully', () => {
+  it('should handle errors gracefully', async () => {
     vi.mocked(getDeFiPositions).mockImplementation(() => {
       throw new Error('Failed to fetch');
     });
@@ -117,6 +143,7 @@ describe('useDeFiPositions', () => {
     });
 
     renderHook(() => useDeFiPositions());
+    await act(async () => {});
 
     expect(useStore.getState().defiError).toBe('Failed to fetch');
   });
@@ -127,7 +154,7 @@ describe('useDeFiPositions', () => {
     expect(result.current.isLoadingDeFi).toBe(true);
   });
 
-  it('should update positions when accounts change', () => {
+  it('should update positions when accounts change', async () => {
     vi.mocked(getDeFiPositions).mockReturnValue([]);
 
     const { rerender } = renderHook(() => useDeFiPositions());
@@ -151,7 +178,64 @@ describe('useDeFiPositions', () => {
     });
 
     rerender();
+    await act(async () => {});
 
     expect(getDeFiPositions).toHaveBeenCalled();
   });
+
+  it('should discover positions for each EVM wallet on every registry chain', async () => {
+    useStore.setState({
+      accounts: [
+        {
+          id: 'acc-1',
+          type: 'wallet',
+          platform: 'Ethereum',
+          label: 'EVM',
+          address: '0xAbCdEf0123456789aBcDeF0123456789AbCdEf01',
+          status: 'connected',
+        },
+        {
+          id: 'acc-2',
+          type: 'wallet',
+          platform: 'Solana',
+          label: 'SOL',
+          address: 'So11111111111111111111111111111111111111112',
+          status: 'connected',
+        },
+      ],
+    });
+
+    renderHook(() => useDeFiPositions());
+    await act(async () => {});
+
+    expect(mockDiscover.mock.calls[0][0]).toEqual([
+      { address: '0xabcdef0123456789abcdef0123456789abcdef01', chainId: 1 },
+      { address: '0xabcdef0123456789abcdef0123456789abcdef01', chainId: 8453 },
+    ]);
+  });
+
+  it('should surface discovery failures as the DeFi error', async () => {
+    mockDiscover.mockResolvedValue(
+      Result.failure(new ServiceError('DEFI_DISCOVERY_ERROR', 'Failed to load DeFi positions from any protocol'))
+    );
+
+    useStore.setState({
+      accounts: [
+        {
+          id: 'acc-1',
+          type: 'wallet',
+          platform: 'Ethereum',
+          label: 'Test',
+          address: '0x123',
+          status: 'connected',
+        },
+      ],
+    });
+
+    renderHook(() => useDeFiPositions());
+    await act(async () => {});
+
+    expect(useStore.getState().defiError).toBe('Failed to load DeFi positions from any protocol');
+    expect(useStore.getState().isLoadingDeFi).toBe(false);
+  });
 });
@@ -1,7 +1,11 @@
 import { useEffect, useMemo } from 'react';
 import { useStore } from '../store/useStore';
 import { getDeFiPositions } from '../domain/defi/DeFiPositionService';
-import type { RawDeFiData } from '../domain/defi/DeFiPositionService';
+import { useIntegration } from '../providers/IntegrationProvider';
+import { createDeFiDiscoveryService } from '../infrastructure/defi/createDeFiDiscoveryService';
+import type { DeFiDiscoveryTarget } from '../domain/defi/DeFiProtocolAdapter';
+
+const EVM_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
 
 export function useDeFiPositions() {
   const accounts = useStore((state) => state.accounts);
@@ -11,33 +15,83 @@ export function useDeFiPositions() {
   const setIsLoadingDeFi = useStore((state) => state.setIsLoadingDeFi);
   const setDeFiError = useStore((state) => state.setDeFiError);
 
+  const { evmRegistry } = useIntegration();
+  const discoveryService = useMemo(() => createDeFiDiscoveryService(evmRegistry), [evmRegistry]);
+
   const connectedAccounts = useMemo(
     () => accounts.filter((acc) => acc.status === 'connected'),
     [accounts]
   );
 
+  // Unique EVM wallet addresses; a stable string key so the effect only
+  // re-runs when the set of wallets actually changes
+  const evmAddressesKey = useMemo(() => {
+    const addresses = new Set<string>();
+    for (const acc of connectedAccounts) {
+      if (acc.address && EVM_ADDRESS_PATTERN.test(acc.address)) {
+        addresses.add(acc.address.toLowerCase());
+      }
+    }
+    return Array.from(addresses).sort().join(',');
+  }, [connectedAccounts]);
+
   useEffect(() => {
-    if (connectedAccounts.length === 0) return;
+    if (connectedAccounts.length === 0) {
+      setDeFiPositions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const chainIds = evmRegistry.getSupportedChains().map((chain) => chain.id);
+    const targets: DeFiDiscoveryTarget[] = evmAddressesKey
+      .split(',')
+      .filter(Boolean)
+      .flatMap((address) => chainIds.map((chainId) => ({ address, chainId })));
 
     setIsLoadingDeFi(true);
     setDeFiError(null);
 
-    try {
-      // In a real implementation, this would fetch from subgraphs/RPCs
-      // For now, we normalize whatever raw data we can gather
-      const rawData: RawDeFiData = {};
-      const positions = getDeFiPositions(rawData, 'on-chain');
-      setDeFiPositions(positions);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      setDeFiError(message);
-    } finally {
-      setIsLoadingDeFi(false);
-    }
-  }, [connectedAccounts.length, setDeFiPositions, setIsLoadingDeFi, setDeFiError]);
+    discoveryService
+      .discover(targets)
+      .then((result) => {
+        if (cancelled) return;
+        result.match({
+          success: ({ data, failures }) => {
+            for (const failure of failures) {
+              console.warn(
+                `[useDeFiPositions] ${failure.protocol} failed on chain ${failure.chainId}:`,
+                failure.message
+              );
+            }
+            setDeFiPositions(getDeFiPositions(data, 'on-chain'));
+          },
+          failure: (error) => setDeFiError(error.getUserMessage()),
+        });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        setDeFiError(message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingDeFi(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    connectedAccounts.length,
+    evmAddressesKey,
+    evmRegistry,
+    discoveryService,
+    setDeFiPositions,
+    setIsLoadingDeFi,
+    setDeFiError,
+  ]);
 
   const totalDeFiValue = useMemo(
-    () => defiPositions.reduce((sum, p) => sum + p.valueUsd, 0),
+    () => defiPositions.reduce((sum, p) => sum + (p.valueUsd ?? 0), 0),
     [defiPositions]
   );
 
@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../store/useStore';
+import { getPortfolioHistoryService } from '../infrastructure/history/PortfolioSnapshotStore';
+import type { PortfolioSnapshot, SnapshotGranularity } from '../domain/portfolio/PortfolioSnapshot';
+import type { NetWorthPoint } from '../domain/services/PortfolioHistoryService';
+
+export type HistoryRange = '24h' | '7d' | '30d' | '1y' | 'all';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_CHART_POINTS = 200;
+
+const RANGE_CONFIG: Record<HistoryRange, { durationMs: number | null; granularity: SnapshotGranularity }> = {
+  '24h': { durationMs: DAY_MS, granularity: 'raw' },
+  '7d': { durationMs: 7 * DAY_MS, granularity: 'hour' },
+  '30d': { durationMs: 30 * DAY_MS, granularity: 'day' },
+  '1y': { durationMs: 365 * DAY_MS, granularity: 'day' },
+  'all': { durationMs: null, granularity: 'week' },
+};
+
+/**
+ * Net worth of a snapshot restricted to the selected accounts (null = all).
+ */
+function getFilteredTotal(snapshot: PortfolioSnapshot, selectedAccountIds: Set<string> | null): number {
+  if (selectedAccountIds === null) return snapshot.totalValue;
+  let total = 0;
+  for (const [accountId, value] of Object.entries(snapshot.byAccount)) {
+    if (selectedAccountIds.has(accountId)) total += value;
+  }
+  return total;
+}
+
+/**
+ * Load the net-worth time series for a range, honoring the account filter.
+ * Reloads whenever a new sync completes (portfolio.lastUpdated changes).
+ */
+export function usePortfolioHistory(range: HistoryRange) {
+  const lastUpdated = useStore(state => state.portfolio.lastUpdated);
+  const selectedAccountIds = useStore(state => state.selectedAccountIds);
+
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { durationMs, granularity } = RANGE_CONFIG[range];
+    const now = Date.now();
+
+    setIsLoading(true);
+    getPortfolioHistoryService()
+      .query({
+        from: durationMs === null ? 0 : now - durationMs,
+        to: now,
+        granularity,
+        maxPoints: MAX_CHART_POINTS,
+      })
+      .then(result => {
+        if (cancelled) return;
+        result.match({
+          success: (value) => {
+            setSnapshots(value);
+            setError(null);
+          },
+          failure: (err) => setError(err.getUserMessage()),
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, lastUpdated]);
+
+  const points: NetWorthPoint[] = useMemo(
+    () => snapshots.map(s => ({
+      timestamp: s.timestamp,
+      totalValue: getFilteredTotal(s, selectedAccountIds),
+    })),
+    [snapshots, selectedAccountIds]
+  );
+
+  const change = useMemo(() => {
+    if (points.length < 2) return null;
+    const first = points[0].totalValue;
+    const last = points[points.length - 1].totalValue;
+    return {
+      absolute: last - first,
+      percentage: first > 0 ? ((last - first) / first) * 100 : null,
+    };
+  }, [points]);
+
+  return { points, change, isLoading, error };
+}
@@ -42,6 +42,8 @@ export const useProgressiveAssetLoading = (
   } = options;
 
   const { updatePrice, prices } = useStore();
+  // Per-row states written by the account sync as each fetch settles
+  const syncLoadingStates = useStore(state => state.assetLoadingStates);
   
   // Loading states for each asset
   const [loadingStates, setLoadingStates] = useState<Map<string, AssetLoadingState>>(
@@ -241,18 +243,28 @@ export const useProgressiveAssetLoading = (
   }, [enablePriceLoading, loadPrice, updateLoadingState, priceTimeout, retryAttempts]);
 
 
-  // Get loading state for a specific asset
+  // Get loading state for a specific asset, combined with the sync's state for the row
   const getLoadingState = useCallback((assetId: string): AssetLoadingState => {
-    return loadingStates.get(assetId) || {
+    const local = loadingStates.get(assetId) || {
       assetId,
       isLoadingBalance: false,
       isLoadingPrice: false
     };
-  }, [loadingStates]);
+    const synced = syncLoadingStates.get(assetId);
+    if (!synced) return local;
+
+    return {
+      ...local,
+      isLoadingBalance: local.isLoadingBalance || synced.isLoadingBalance,
+      isLoadingPrice: local.isLoadingPrice || synced.isLoadingPrice,
+      balanceError: local.balanceError ?? synced.balanceError,
+      priceError: local.priceError ?? synced.priceError
+    };
+  }, [loadingStates, syncLoadingStates]);
 
   // Get overall loading status
   const getOverallStatus = useCallback(() => {
-    const states = Array.from(loadingStates.values());
+    const states = assets.map(asset => getLoadingState(asset.id));
     
     return {
       isLoadingAnyBalance: states.some(s => s.isLoadingBalance),
@@ -263,7 +275,7 @@ export const useProgressiveAssetLoading = (
       completedPrices: states.filter(s => !s.isLoadingPrice && !s.priceError).length,
       totalAssets: assets.length
     };
-  }, [loadingStates, assets.length]);
+  }, [getLoadingState, assets]);
 
   // Auto-start loading when assets change
   // Using a ref to track if we've already started loading for current assets
@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import { useStore } from '../store/useStore';
+import { AccountSyncClient } from '../infrastructure/sync/AccountSyncClient';
+import { SyncScheduler } from '../infrastructure/sync/SyncScheduler';
+import { AlertMonitor } from '../infrastructure/alerts/AlertMonitor';
+
+// One scheduler for the app so a sync started on one route keeps running on the next
+let _syncScheduler: SyncScheduler | null = null;
+export function getSyncScheduler(): SyncScheduler {
+  if (!_syncScheduler) {
+    const client = new AccountSyncClient(useStore);
+    // Alert rules are checked after every sync, once its prices are in the store
+    new AlertMonitor(useStore).attach(client);
+    _syncScheduler = new SyncScheduler(client);
+  }
+  return _syncScheduler;
+}
+
+/** Manual refreshes; they run now, or as soon as the running sync finishes */
+export function useSyncRefresh() {
+  const refreshAccounts = useCallback((accountIds: Iterable<string>) => {
+    getSyncScheduler().refresh(...Array.from(accountIds, accountId => ({ accountId })));
+  }, []);
+
+  const refreshChain = useCallback((chain: string) => {
+    getSyncScheduler().refresh({ chain });
+  }, []);
+
+  return { refreshAccounts, refreshChain };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { getTokenListService } from '../infrastructure/tokens/TokenListService';
+import type { ImportedTokenList, TokenCatalog } from '../domain/tokens/TokenList';
+
+/**
+ * Imported token lists and the catalog built from them, reloaded whenever a
+ * list is imported, changed or removed.
+ */
+export function useTokenLists() {
+  const [lists, setLists] = useState<ImportedTokenList[]>([]);
+  const [catalog, setCatalog] = useState<TokenCatalog | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => getTokenListService().subscribe(() => setVersion(v => v + 1)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const service = getTokenListService();
+
+    Promise.all([service.getLists(), service.getCatalog()]).then(([loadedLists, loadedCatalog]) => {
+      if (cancelled) return;
+      setLists(loadedLists);
+      setCatalog(loadedCatalog);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  return { lists, catalog, service: getTokenListService() };
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useStore } from '../store/useStore';
+import type { Account } from '../store/useStore';
+import { useIntegration } from '../providers/IntegrationProvider';
+import { getChainMap, type ChainMapEntry } from '../infrastructure/sync/AccountSyncEngine';
+import { createTransactionHistoryService } from '../infrastructure/activity/createTransactionHistoryService';
+import type { Transaction, TransactionFilter } from '../domain/activity/Transaction';
+import type { TransactionSyncTarget } from '../domain/activity/TransactionSource';
+
+const PAGE_SIZE = 25;
+
+/**
+ * Chains whose history belongs to a wallet account, using the same platform
+ * mapping as balance syncing
+ */
+export function getHistoryTargets(accounts: Account[], chainMap: Record<string, ChainMapEntry>): TransactionSyncTarget[] {
+  return accounts.flatMap(account => {
+    if (account.type !== 'wallet' || account.status !== 'connected' || !account.address) return [];
+    const address = account.address;
+
+    let chains: string[];
+    if (account.platform === 'Multi-Chain EVM') {
+      chains = (account.metadata?.detectedChains || ['Ethereum']).filter(chain => chainMap[chain]);
+    } else if (account.platform === 'Solana' || account.platform === 'SUI') {
+      chains = [account.platform];
+    } else {
+      chains = chainMap[account.platform] ? [account.platform] : [];
+    }
+    return chains.map(chain => ({ accountId: account.id, address, chain }));
+  });
+}
+
+export function useTransactionHistory(filter: Omit<TransactionFilter, 'accountIds'> & { accountId?: string }) {
+  const accounts = useStore(state => state.accounts);
+  const networkEnvironment = useStore(state => state.networkEnvironment);
+  const { evmRegistry } = useIntegration();
+
+  const chainMap = useMemo(() => getChainMap(networkEnvironment), [networkEnvironment]);
+  const service = useMemo(
+    () => createTransactionHistoryService(evmRegistry, chainMap),
+    [evmRegistry, chainMap]
+  );
+
+  // Round-trip through a key so syncing only re-runs when the set of targets
+  // changes, not on every account update (e.g. lastSync)
+  const targetsKey = useMemo(
+    () => JSON.stringify(getHistoryTargets(accounts, chainMap)),
+    [accounts, chainMap]
+  );
+  const targets = useMemo(() => JSON.parse(targetsKey) as TransactionSyncTarget[], [targetsKey]);
+  const accountIds = useMemo(
+    () => Array.from(new Set(targets.map(t => t.accountId))),
+    [targets]
+  );
+
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<Transaction[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failures, setFailures] = useState<string[]>([]);
+  // Bumped after each sync so the current page reloads
+  const [version, setVersion] = useState(0);
+
+  const { accountId, chains, direction, search } = filter;
+  const chainsKey = chains?.join(',') ?? '';
+
+  // Any filter change starts over at the first page
+  useEffect(() => {
+    setPage(1);
+  }, [accountId, chainsKey, direction, search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query: TransactionFilter = {
+      accountIds: accountId ? [accountId] : accountIds,
+      chains: chainsKey ? chainsKey.split(',') : undefined,
+      direction,
+      search,
+    };
+
+    service.query(query, page, PAGE_SIZE).then(result => {
+      if (cancelled) return;
+      result.match({
+        success: ({ items, total }) => {
+          setItems(items);
+          setTotal(total);
+        },
+        failure: err => setError(err.getUserMessage()),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [service, accountIds, accountId, chainsKey, direction, search, page, version]);
+
+  const sync = useCallback(async (signal?: AbortSignal) => {
+    if (targets.length === 0) return;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const result = await service.sync(targets, signal);
+      if (signal?.aborted) return;
+      result.match({
+        success: ({ failures }) => {
+          setFailures(failures.map(f => `${f.chain}: ${f.message}`));
+        },
+        failure: err => setError(err.getUserMessage()),
+      });
+      setVersion(v => v + 1);
+    } catch (err) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      if (!signal?.aborted) setIsSyncing(false);
+    }
+  }, [service, targets]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    sync(controller.signal);
+    return () => controller.abort();
+  }, [sync]);
+
+  return {
+    items,
+    total,
+    page,
+    pageSize: PAGE_SIZE,
+    totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+    setPage,
+    isSyncing,
+    error,
+    failures,
+    refresh: () => sync(),
+  };
+}
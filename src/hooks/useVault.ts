@@ -0,0 +1,55 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getSecretVault, type VaultStatus } from '../infrastructure/vault/SecretVault';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Current vault status plus the shared vault instance
+ */
+export function useVault() {
+  const vault = getSecretVault();
+  const status: VaultStatus = useSyncExternalStore(vault.subscribe, vault.getStatus);
+  return { vault, status };
+}
+
+/**
+ * Lock the vault after the configured period without user activity.
+ * Time spent in a hidden tab counts as inactivity.
+ */
+export function useVaultAutoLock() {
+  const { vault, status } = useVault();
+  const minutes = useSyncExternalStore(vault.subscribe, () => vault.getAutoLockMinutes());
+
+  useEffect(() => {
+    if (status !== 'unlocked' || minutes <= 0) return;
+
+    const timeoutMs = minutes * 60_000;
+    let lastActivity = Date.now();
+    let timer = setTimeout(() => vault.lock(), timeoutMs);
+
+    const onActivity = () => {
+      // Activity events fire constantly; only re-arm once a second
+      const now = Date.now();
+      if (now - lastActivity < 1000) return;
+      lastActivity = now;
+      clearTimeout(timer);
+      timer = setTimeout(() => vault.lock(), timeoutMs);
+    };
+
+    // Timers are throttled in background tabs, so check elapsed time on return
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && Date.now() - lastActivity >= timeoutMs) {
+        vault.lock();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [vault, status, minutes]);
+}
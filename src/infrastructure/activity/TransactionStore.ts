@@ -0,0 +1,219 @@
+/**
+ * TransactionStore Implementation
+ *
+ * IndexedDB-backed repository for account activity and the per-account sync
+ * cursors. Falls back to memory when IndexedDB is unavailable (tests, private
+ * browsing). Like portfolio history, the database is namespaced by network
+ * environment.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { Transaction } from '../../domain/activity/Transaction';
+import type { ITransactionRepository, SyncCursor } from '../../domain/activity/TransactionHistoryService';
+import { detectEnvironment } from '../../config/environment';
+
+const TRANSACTIONS = 'transactions';
+const CURSORS = 'cursors';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class TransactionStore implements ITransactionRepository {
+  private memoryTransactions: Map<string, Transaction> = new Map();
+  private memoryCursors: Map<string, SyncCursor> = new Map();
+  private dbName: string;
+  private db: IDBDatabase | null = null;
+  private ready: Promise<void>;
+
+  constructor(env: NetworkEnvironment = detectEnvironment()) {
+    this.dbName = `CygnusWealthActivity-${env}`;
+    this.ready = this.initializeDB().catch(() => {
+      // Already logged; continue with the memory store
+    });
+  }
+
+  /**
+   * Initialize IndexedDB
+   */
+  private async initializeDB(): Promise<void> {
+    if (typeof indexedDB === 'undefined' || !indexedDB) {
+      console.warn('IndexedDB not available, activity history will not persist');
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => {
+        console.error('Failed to open activity database:', request.error);
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(TRANSACTIONS)) {
+          const store = db.createObjectStore(TRANSACTIONS, { keyPath: 'id' });
+          store.createIndex('accountId', 'accountId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(CURSORS)) {
+          const store = db.createObjectStore(CURSORS, { keyPath: 'key' });
+          store.createIndex('accountId', 'accountId', { unique: false });
+        }
+      };
+    });
+  }
+
+  /**
+   * Insert or overwrite transactions in a single database transaction
+   */
+  public async saveMany(transactions: Transaction[]): Promise<void> {
+    await this.ready;
+
+    if (!this.db) {
+      for (const tx of transactions) {
+        this.memoryTransactions.set(tx.id, tx);
+      }
+      return;
+    }
+
+    const transaction = this.db.transaction([TRANSACTIONS], 'readwrite');
+    const store = transaction.objectStore(TRANSACTIONS);
+    for (const tx of transactions) {
+      store.put(tx);
+    }
+    return transactionDone(transaction);
+  }
+
+  /**
+   * Load the transactions of some accounts, or of every account when null
+   */
+  public async findByAccounts(accountIds: string[] | null): Promise<Transaction[]> {
+    await this.ready;
+
+    if (!this.db) {
+      const all = Array.from(this.memoryTransactions.values());
+      return accountIds ? all.filter(tx => accountIds.includes(tx.accountId)) : all;
+    }
+
+    const store = this.db.transaction([TRANSACTIONS], 'readonly').objectStore(TRANSACTIONS);
+    if (!accountIds) {
+      return requestToPromise(store.getAll() as IDBRequest<Transaction[]>);
+    }
+
+    const index = store.index('accountId');
+    const perAccount = await Promise.all(
+      accountIds.map(id => requestToPromise(index.getAll(id) as IDBRequest<Transaction[]>))
+    );
+    return perAccount.flat();
+  }
+
+  public async getCursor(key: string): Promise<SyncCursor | null> {
+    await this.ready;
+
+    if (!this.db) {
+      return this.memoryCursors.get(key) ?? null;
+    }
+
+    const store = this.db.transaction([CURSORS], 'readonly').objectStore(CURSORS);
+    const cursor = await requestToPromise(store.get(key) as IDBRequest<SyncCursor | undefined>);
+    return cursor ?? null;
+  }
+
+  public async saveCursor(cursor: SyncCursor): Promise<void> {
+    await this.ready;
+
+    if (!this.db) {
+      this.memoryCursors.set(cursor.key, cursor);
+      return;
+    }
+
+    const transaction = this.db.transaction([CURSORS], 'readwrite');
+    transaction.objectStore(CURSORS).put(cursor);
+    return transactionDone(transaction);
+  }
+
+  /**
+   * Delete an account's transactions and cursors together
+   */
+  public async deleteAccount(accountId: string): Promise<void> {
+    await this.ready;
+
+    if (!this.db) {
+      for (const [id, tx] of this.memoryTransactions) {
+        if (tx.accountId === accountId) this.memoryTransactions.delete(id);
+      }
+      for (const [key, cursor] of this.memoryCursors) {
+        if (cursor.accountId === accountId) this.memoryCursors.delete(key);
+      }
+      return;
+    }
+
+    const transaction = this.db.transaction([TRANSACTIONS, CURSORS], 'readwrite');
+    for (const name of [TRANSACTIONS, CURSORS]) {
+      const index = transaction.objectStore(name).index('accountId');
+      const request = index.openKeyCursor(IDBKeyRange.only(accountId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        transaction.objectStore(name).delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    }
+    return transactionDone(transaction);
+  }
+
+  /**
+   * Remove all transactions and cursors
+   */
+  public async clear(): Promise<void> {
+    await this.ready;
+    this.memoryTransactions.clear();
+    this.memoryCursors.clear();
+
+    if (!this.db) return;
+
+    const transaction = this.db.transaction([TRANSACTIONS, CURSORS], 'readwrite');
+    transaction.objectStore(TRANSACTIONS).clear();
+    transaction.objectStore(CURSORS).clear();
+    return transactionDone(transaction);
+  }
+
+  /**
+   * Close the database connection
+   */
+  public destroy(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    this.memoryTransactions.clear();
+    this.memoryCursors.clear();
+  }
+}
+
+let _transactionStoreInstance: TransactionStore | null = null;
+
+export function getTransactionStore(): TransactionStore {
+  if (!_transactionStoreInstance) {
+    _transactionStoreInstance = new TransactionStore();
+  }
+  return _transactionStoreInstance;
+}
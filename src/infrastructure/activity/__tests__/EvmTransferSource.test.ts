@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPublicClient,
+  custom,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  erc20Abi,
+  pad,
+  parseAbiItem,
+  toHex,
+  type PublicClient,
+} from 'viem';
+import { EvmTransferSource } from '../sources/EvmTransferSource';
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+const PEER = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const NFT = '0x4444444444444444444444444444444444444444';
+const TRANSFER = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+const OUTGOING_HASH = pad('0xaa', { size: 32 });
+const TOKEN_HASH = pad('0xbb', { size: 32 });
+
+const LATEST = 100n;
+const SPEND_BLOCK = 75n;
+const TOKEN_BLOCK = 80n;
+
+interface ChainOptions {
+  archive?: boolean;
+  /** Largest eth_getLogs range the node accepts */
+  maxLogRange?: number;
+}
+
+/**
+ * A tiny in-memory chain: the account spends 1 ETH at SPEND_BLOCK and
+ * receives 1.5 USDC plus an NFT at TOKEN_BLOCK
+ */
+function createChainClient({ archive = true, maxLogRange = Infinity }: ChainOptions = {}): PublicClient {
+  const block = (number: bigint, full: boolean) => ({
+    number: toHex(number),
+    hash: pad(toHex(number), { size: 32 }),
+    timestamp: toHex(1_700_000_000n + number * 12n),
+    transactions: number === SPEND_BLOCK && full
+      ? [
+          { hash: OUTGOING_HASH, from: ACCOUNT, to: PEER, value: toHex(10n ** 18n), blockNumber: toHex(number) },
+          { hash: pad('0xcc', { size: 32 }), from: PEER, to: TOKEN, value: '0x0', blockNumber: toHex(number) },
+        ]
+      : [],
+  });
+
+  const logs = [
+    {
+      address: TOKEN,
+      topics: encodeEventTopics({ abi: [TRANSFER], eventName: 'Transfer', args: { from: PEER, to: ACCOUNT } }),
+      data: encodeAbiParameters([{ type: 'uint256' }], [1_500_000n]),
+    },
+    {
+      // ERC-721 Transfer: same signature, token id indexed instead of in data
+      address: NFT,
+      topics: [...encodeEventTopics({ abi: [TRANSFER], eventName: 'Transfer', args: { from: PEER, to: ACCOUNT } }), pad('0x07', { size: 32 })],
+      data: '0x',
+    },
+  ].map((log, i) => ({
+    ...log,
+    blockNumber: toHex(TOKEN_BLOCK),
+    blockHash: pad(toHex(TOKEN_BLOCK), { size: 32 }),
+    transactionHash: TOKEN_HASH,
+    transactionIndex: '0x0',
+    logIndex: toHex(i),
+    removed: false,
+  }));
+
+  return createPublicClient({
+    transport: custom({
+      async request({ method, params }: { method: string; params?: unknown }) {
+        const args = params as unknown[];
+        switch (method) {
+          case 'eth_blockNumber':
+            return toHex(LATEST);
+          case 'eth_getBalance': {
+            if (!archive) throw new Error('missing trie node');
+            const blockNumber = BigInt(args[1] as string);
+            return toHex(blockNumber < SPEND_BLOCK ? 10n * 10n ** 18n : 9n * 10n ** 18n);
+          }
+          case 'eth_getBlockByNumber':
+            return block(BigInt(args[0] as string), args[1] as boolean);
+          case 'eth_getTransactionReceipt':
+            return { transactionHash: args[0], status: '0x1', blockNumber: toHex(SPEND_BLOCK), logs: [] };
+          case 'eth_getLogs': {
+            const { fromBlock, toBlock, topics } = args[0] as { fromBlock: string; toBlock: string; topics: (string | null)[] };
+            if (Number(BigInt(toBlock) - BigInt(fromBlock)) + 1 > maxLogRange) {
+              throw new Error('query returned more than 10000 results');
+            }
+            const inRange = BigInt(fromBlock) <= TOKEN_BLOCK && TOKEN_BLOCK <= BigInt(toBlock);
+            const toAccount = topics[2]?.toLowerCase() === pad(ACCOUNT).toLowerCase();
+            return inRange && toAccount ? logs : [];
+          }
+          case 'eth_call': {
+            const { data } = args[0] as { data: string };
+            // symbol() and decimals() selectors
+            if (data.startsWith('0x95d89b41')) return encodeFunctionResult({ abi: erc20Abi, functionName: 'symbol', result: 'USDC' });
+            if (data.startsWith('0x313ce567')) return encodeFunctionResult({ abi: erc20Abi, functionName: 'decimals', result: 6 });
+            throw new Error(`Unexpected call ${data}`);
+          }
+          default:
+            throw new Error(`Unexpected RPC method: ${method}`);
+        }
+      },
+    }, { retryCount: 0 }),
+  });
+}
+
+const target = { accountId: 'acc-1', address: ACCOUNT, chain: 'Ethereum' };
+const chains = { Ethereum: { chainId: 1, symbol: 'ETH' } };
+
+describe('EvmTransferSource', () => {
+  it('finds native transfers by balance bisection and token transfers from logs', async () => {
+    const client = createChainClient();
+    const source = new EvmTransferSource(() => client, chains, { backfillBlocks: 50 });
+
+    const batch = await source.fetchTransactions(target, null);
+
+    expect(batch.cursor).toBe('100');
+    expect(batch.hasMore).toBe(false);
+    expect(batch.transactions).toHaveLength(2);
+
+    const native = batch.transactions.find(t => t.hash === OUTGOING_HASH)!;
+    expect(native).toMatchObject({
+      direction: 'out',
+      kind: 'transfer',
+      status: 'success',
+      symbol: 'ETH',
+      amount: '1',
+      block: 75,
+      timestamp: (1_700_000_000 + 75 * 12) * 1000,
+    });
+
+    const token = batch.transactions.find(t => t.hash === TOKEN_HASH)!;
+    expect(token).toMatchObject({ direction: 'in', symbol: 'USDC', amount: '1.5', asset: TOKEN, block: 80 });
+  });
+
+  it('continues from the cursor and caps the range per sync', async () => {
+    const client = createChainClient();
+    const source = new EvmTransferSource(() => client, chains, { maxBlocksPerSync: 10 });
+
+    const batch = await source.fetchTransactions(target, '70');
+    expect(batch.cursor).toBe('80');
+    expect(batch.hasMore).toBe(true);
+    expect(batch.transactions.map(t => t.hash).sort()).toEqual([OUTGOING_HASH, TOKEN_HASH]);
+
+    const caughtUp = await source.fetchTransactions(target, '100');
+    expect(caughtUp).toEqual({ transactions: [], cursor: null, hasMore: false });
+  });
+
+  it('narrows the log range when the node rejects it and skips native without archive state', async () => {
+    const client = createChainClient({ archive: false, maxLogRange: 20 });
+    const source = new EvmTransferSource(() => client, chains, { backfillBlocks: 50, logChunkSize: 50 });
+
+    const batch = await source.fetchTransactions(target, null);
+    expect(batch.transactions.map(t => t.hash)).toEqual([TOKEN_HASH]);
+  });
+
+  it('rejects chains without a configured client', async () => {
+    const source = new EvmTransferSource(() => null, chains);
+    await expect(source.fetchTransactions(target, null)).rejects.toThrow('No RPC endpoint');
+  });
+});
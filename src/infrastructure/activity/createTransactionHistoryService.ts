@@ -0,0 +1,42 @@
+/**
+ * Wires the chain history sources to the app's RPC configuration.
+ */
+
+import type { ChainRegistry } from '@cygnus-wealth/evm-integration';
+import { Connection } from '@solana/web3.js';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui.js/client';
+import { TransactionHistoryService } from '../../domain/activity/TransactionHistoryService';
+import { createRegistryClientProvider } from '../defi/EvmClientProvider';
+import { rpcConfigService } from '../rpc/RpcConfigurationService';
+import { EvmTransferSource, type EvmChainEntry } from './sources/EvmTransferSource';
+import { SolanaSignatureSource } from './sources/SolanaSignatureSource';
+import { SuiTransactionSource } from './sources/SuiTransactionSource';
+import { getTransactionStore } from './TransactionStore';
+
+/**
+ * Build a history service over the persistent store. `evmChains` maps the
+ * display chain names accounts use to chain ids and native symbols.
+ */
+export function createTransactionHistoryService(
+  registry: InstanceType<typeof ChainRegistry>,
+  evmChains: Record<string, EvmChainEntry>
+): TransactionHistoryService {
+  let solana: { url: string; connection: Connection } | null = null;
+  let sui: SuiClient | null = null;
+
+  return new TransactionHistoryService(getTransactionStore(), [
+    new EvmTransferSource(createRegistryClientProvider(registry), evmChains),
+    new SolanaSignatureSource(() => {
+      // Follow endpoint failover done by the balance service
+      const url = rpcConfigService.getActiveEndpoint('solana');
+      if (solana?.url !== url) {
+        solana = { url, connection: new Connection(url, { commitment: 'confirmed' }) };
+      }
+      return solana.connection;
+    }),
+    new SuiTransactionSource(() => {
+      if (!sui) sui = new SuiClient({ url: getFullnodeUrl('mainnet') });
+      return sui;
+    }),
+  ]);
+}
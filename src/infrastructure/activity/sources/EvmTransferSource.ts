@@ -0,0 +1,288 @@
+/**
+ * EvmTransferSource
+ *
+ * Reads EVM account activity straight from the configured RPC endpoints, without
+ * an indexer. ERC-20 transfers come from Transfer logs scanned in block chunks.
+ * Native transfers cannot be found through logs, so the source bisects the block
+ * range on the account's balance and only opens the blocks where it changed.
+ * That needs historical state; on endpoints that prune it, native activity is
+ * skipped and token transfers are still reported.
+ */
+
+import { erc20Abi, formatUnits, parseAbiItem, type Address, type PublicClient } from 'viem';
+import { directionFor, transactionId, type Transaction } from '../../../domain/activity/Transaction';
+import type {
+  ITransactionSource,
+  TransactionBatch,
+  TransactionSyncTarget,
+} from '../../../domain/activity/TransactionSource';
+import type { EvmClientProvider } from '../../defi/EvmClientProvider';
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+export interface EvmChainEntry {
+  chainId: number;
+  symbol: string;
+}
+
+export interface EvmTransferSourceOptions {
+  /** Blocks read on the first sync of an account */
+  backfillBlocks?: number;
+  /** Upper bound of blocks scanned per sync; the rest is picked up next time */
+  maxBlocksPerSync?: number;
+  /** Initial eth_getLogs range, halved when a provider rejects it */
+  logChunkSize?: number;
+}
+
+interface TokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+const DEFAULT_BACKFILL_BLOCKS = 10_000;
+const DEFAULT_MAX_BLOCKS_PER_SYNC = 50_000;
+const DEFAULT_LOG_CHUNK_SIZE = 2_000;
+const MIN_LOG_CHUNK_SIZE = 16;
+
+export class EvmTransferSource implements ITransactionSource {
+  readonly id = 'evm-logs';
+
+  private readonly getClient: EvmClientProvider;
+  private readonly chains: Record<string, EvmChainEntry>;
+  private readonly backfillBlocks: bigint;
+  private readonly maxBlocksPerSync: bigint;
+  private readonly logChunkSize: bigint;
+  private tokens: Map<string, TokenInfo> = new Map();
+
+  constructor(
+    getClient: EvmClientProvider,
+    chains: Record<string, EvmChainEntry>,
+    options: EvmTransferSourceOptions = {}
+  ) {
+    this.getClient = getClient;
+    this.chains = chains;
+    this.backfillBlocks = BigInt(options.backfillBlocks ?? DEFAULT_BACKFILL_BLOCKS);
+    this.maxBlocksPerSync = BigInt(options.maxBlocksPerSync ?? DEFAULT_MAX_BLOCKS_PER_SYNC);
+    this.logChunkSize = BigInt(options.logChunkSize ?? DEFAULT_LOG_CHUNK_SIZE);
+  }
+
+  supportsChain(chain: string): boolean {
+    return chain in this.chains;
+  }
+
+  async fetchTransactions(
+    target: TransactionSyncTarget,
+    cursor: string | null,
+    signal?: AbortSignal
+  ): Promise<TransactionBatch> {
+    const entry = this.chains[target.chain];
+    const client = entry ? this.getClient(entry.chainId) : null;
+    if (!entry || !client) {
+      throw new Error(`No RPC endpoint configured for ${target.chain}`);
+    }
+
+    const latest = await client.getBlockNumber();
+    const fromBlock = cursor !== null
+      ? BigInt(cursor) + 1n
+      : latest >= this.backfillBlocks ? latest - this.backfillBlocks + 1n : 0n;
+
+    if (fromBlock > latest) {
+      return { transactions: [], cursor: null, hasMore: false };
+    }
+
+    const toBlock = fromBlock + this.maxBlocksPerSync - 1n < latest
+      ? fromBlock + this.maxBlocksPerSync - 1n
+      : latest;
+    const address = target.address as Address;
+    const timestamps = new Map<bigint, number>();
+
+    const tokenTransfers = await this.readTokenTransfers(client, target, entry, address, fromBlock, toBlock, timestamps, signal);
+    signal?.throwIfAborted();
+    const nativeTransfers = await this.readNativeTransfers(client, target, entry, address, fromBlock, toBlock, timestamps, signal);
+
+    return {
+      transactions: [...nativeTransfers, ...tokenTransfers],
+      cursor: toBlock.toString(),
+      hasMore: toBlock < latest,
+    };
+  }
+
+  private async readTokenTransfers(
+    client: PublicClient,
+    target: TransactionSyncTarget,
+    entry: EvmChainEntry,
+    address: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    timestamps: Map<bigint, number>,
+    signal?: AbortSignal
+  ): Promise<Transaction[]> {
+    const transactions = new Map<string, Transaction>();
+    let chunk = this.logChunkSize;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      signal?.throwIfAborted();
+      const end = start + chunk - 1n < toBlock ? start + chunk - 1n : toBlock;
+
+      let logs;
+      try {
+        const [sent, received] = await Promise.all([
+          client.getLogs({ event: TRANSFER_EVENT, args: { from: address }, fromBlock: start, toBlock: end }),
+          client.getLogs({ event: TRANSFER_EVENT, args: { to: address }, fromBlock: start, toBlock: end }),
+        ]);
+        logs = [...sent, ...received];
+      } catch (error) {
+        // Providers cap the range or result size of eth_getLogs; retry smaller
+        if (chunk <= MIN_LOG_CHUNK_SIZE) throw error;
+        chunk /= 2n;
+        continue;
+      }
+
+      for (const log of logs) {
+        const { from, to, value } = log.args;
+        // ERC-721 transfers share the event signature but index the token id
+        if (typeof value !== 'bigint' || log.transactionHash === null || log.blockNumber === null) continue;
+
+        const token = await this.tokenInfo(client, entry.chainId, log.address);
+        const timestamp = await this.blockTimestamp(client, log.blockNumber, timestamps);
+        const id = transactionId(target.accountId, target.chain, log.transactionHash, log.logIndex ?? log.address);
+
+        transactions.set(id, {
+          id,
+          accountId: target.accountId,
+          chain: target.chain,
+          hash: log.transactionHash,
+          timestamp,
+          block: Number(log.blockNumber),
+          kind: 'transfer',
+          direction: directionFor(address, from, to),
+          // Logs are only emitted by successful transactions
+          status: 'success',
+          symbol: token.symbol,
+          amount: formatUnits(value, token.decimals),
+          asset: log.address,
+          from,
+          to,
+        });
+      }
+      start = end + 1n;
+    }
+
+    return Array.from(transactions.values());
+  }
+
+  private async readNativeTransfers(
+    client: PublicClient,
+    target: TransactionSyncTarget,
+    entry: EvmChainEntry,
+    address: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    timestamps: Map<bigint, number>,
+    signal?: AbortSignal
+  ): Promise<Transaction[]> {
+    const changedBlocks: bigint[] = [];
+    const before = fromBlock > 0n ? fromBlock - 1n : 0n;
+
+    try {
+      const [startBalance, endBalance] = await Promise.all([
+        fromBlock > 0n ? client.getBalance({ address, blockNumber: before }) : Promise.resolve(0n),
+        client.getBalance({ address, blockNumber: toBlock }),
+      ]);
+      await this.bisect(client, address, before, toBlock, startBalance, endBalance, changedBlocks, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`[EvmTransferSource] Historical balances unavailable on ${target.chain}, skipping native transfers:`, error);
+      return [];
+    }
+
+    const transactions: Transaction[] = [];
+    const self = address.toLowerCase();
+
+    for (const blockNumber of changedBlocks) {
+      signal?.throwIfAborted();
+      const block = await client.getBlock({ blockNumber, includeTransactions: true });
+      const timestamp = Number(block.timestamp) * 1000;
+      timestamps.set(blockNumber, timestamp);
+
+      for (const tx of block.transactions) {
+        const isFrom = tx.from.toLowerCase() === self;
+        const isTo = tx.to?.toLowerCase() === self;
+        // Incoming zero-value transactions are contract calls on the account, not activity
+        if (!isFrom && !(isTo && tx.value > 0n)) continue;
+
+        const receipt = isFrom ? await client.getTransactionReceipt({ hash: tx.hash }) : null;
+        transactions.push({
+          id: transactionId(target.accountId, target.chain, tx.hash),
+          accountId: target.accountId,
+          chain: target.chain,
+          hash: tx.hash,
+          timestamp,
+          block: Number(blockNumber),
+          kind: tx.value > 0n ? 'transfer' : 'call',
+          direction: directionFor(address, tx.from, tx.to ?? undefined),
+          status: receipt?.status === 'reverted' ? 'failed' : 'success',
+          symbol: entry.symbol,
+          amount: formatUnits(tx.value, 18),
+          from: tx.from,
+          to: tx.to ?? undefined,
+        });
+      }
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Collect blocks in (low, high] where the balance changed. Ranges whose
+   * endpoints match are assumed unchanged, which can miss activity that nets
+   * to zero; token logs still cover those transactions' transfers.
+   */
+  private async bisect(
+    client: PublicClient,
+    address: Address,
+    low: bigint,
+    high: bigint,
+    lowBalance: bigint,
+    highBalance: bigint,
+    changed: bigint[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (lowBalance === highBalance || high <= low) return;
+    if (high - low === 1n) {
+      changed.push(high);
+      return;
+    }
+
+    signal?.throwIfAborted();
+    const mid = low + (high - low) / 2n;
+    const midBalance = await client.getBalance({ address, blockNumber: mid });
+    await this.bisect(client, address, low, mid, lowBalance, midBalance, changed, signal);
+    await this.bisect(client, address, mid, high, midBalance, highBalance, changed, signal);
+  }
+
+  private async tokenInfo(client: PublicClient, chainId: number, token: Address): Promise<TokenInfo> {
+    const key = `${chainId}:${token.toLowerCase()}`;
+    const cached = this.tokens.get(key);
+    if (cached) return cached;
+
+    const [symbol, decimals] = await Promise.all([
+      client.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }).catch(() => 'UNKNOWN'),
+      client.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }).catch(() => 18),
+    ]);
+    const info = { symbol, decimals };
+    this.tokens.set(key, info);
+    return info;
+  }
+
+  private async blockTimestamp(client: PublicClient, blockNumber: bigint, timestamps: Map<bigint, number>): Promise<number> {
+    const cached = timestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await client.getBlock({ blockNumber });
+    const timestamp = Number(block.timestamp) * 1000;
+    timestamps.set(blockNumber, timestamp);
+    return timestamp;
+  }
+}
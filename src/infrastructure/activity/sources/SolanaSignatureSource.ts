@@ -0,0 +1,85 @@
+/**
+ * SolanaSignatureSource
+ *
+ * Lists the signatures that touched a Solana address. Signatures come back
+ * newest first, so the newest one seen becomes the cursor and the next sync
+ * pages back only until it reaches it. Transaction bodies are not fetched, so
+ * records carry status and time but no amount or direction.
+ */
+
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { transactionId, type Transaction } from '../../../domain/activity/Transaction';
+import type {
+  ITransactionSource,
+  TransactionBatch,
+  TransactionSyncTarget,
+} from '../../../domain/activity/TransactionSource';
+
+export type SolanaSignatureReader = Pick<Connection, 'getSignaturesForAddress'>;
+
+const PAGE_SIZE = 1000;
+/** Pages read on the first sync of an address */
+const BACKFILL_PAGES = 1;
+/** Pages read per incremental sync */
+const MAX_PAGES = 10;
+
+export class SolanaSignatureSource implements ITransactionSource {
+  readonly id = 'solana-signatures';
+
+  private readonly getConnection: () => SolanaSignatureReader;
+
+  constructor(getConnection: () => SolanaSignatureReader) {
+    this.getConnection = getConnection;
+  }
+
+  supportsChain(chain: string): boolean {
+    return chain === 'Solana';
+  }
+
+  async fetchTransactions(
+    target: TransactionSyncTarget,
+    cursor: string | null,
+    signal?: AbortSignal
+  ): Promise<TransactionBatch> {
+    const connection = this.getConnection();
+    const address = new PublicKey(target.address);
+    const maxPages = cursor === null ? BACKFILL_PAGES : MAX_PAGES;
+    const transactions: Transaction[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      signal?.throwIfAborted();
+      const signatures = await connection.getSignaturesForAddress(address, {
+        before,
+        until: cursor ?? undefined,
+        limit: PAGE_SIZE,
+      });
+
+      for (const info of signatures) {
+        transactions.push({
+          id: transactionId(target.accountId, target.chain, info.signature),
+          accountId: target.accountId,
+          chain: target.chain,
+          hash: info.signature,
+          timestamp: info.blockTime != null ? info.blockTime * 1000 : null,
+          block: info.slot,
+          kind: 'call',
+          direction: 'unknown',
+          status: info.err ? 'failed' : 'success',
+        });
+      }
+
+      if (signatures.length < PAGE_SIZE) break;
+      before = signatures[signatures.length - 1].signature;
+    }
+
+    // Signatures beyond the page limit (older history on the first sync, or a
+    // burst of more than MAX_PAGES pages between syncs) are not backfilled:
+    // the RPC can only page backwards from the newest signature
+    return {
+      transactions,
+      cursor: transactions.length > 0 ? transactions[0].hash : null,
+      hasMore: false,
+    };
+  }
+}
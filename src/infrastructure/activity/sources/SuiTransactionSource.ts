@@ -0,0 +1,178 @@
+/**
+ * SuiTransactionSource
+ *
+ * Reads the transaction blocks an address sent and received, oldest first, and
+ * turns the address's balance changes into transfers. Sent and received blocks
+ * are separate queries with their own pagination cursor; both are stored
+ * together as the sync cursor.
+ */
+
+import type { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui.js/client';
+import { transactionId, type Transaction } from '../../../domain/activity/Transaction';
+import type {
+  ITransactionSource,
+  TransactionBatch,
+  TransactionSyncTarget,
+} from '../../../domain/activity/TransactionSource';
+
+export type SuiTransactionReader = Pick<SuiClient, 'queryTransactionBlocks' | 'getCoinMetadata'>;
+
+interface SuiCursor {
+  sent: string | null;
+  received: string | null;
+}
+
+const SUI_COIN_TYPE = '0x2::sui::SUI';
+const SUI_DECIMALS = 9;
+const PAGE_SIZE = 50;
+const MAX_PAGES = 10;
+
+function parseCursor(cursor: string | null): SuiCursor {
+  if (!cursor) return { sent: null, received: null };
+  const parsed = JSON.parse(cursor) as Partial<SuiCursor>;
+  return { sent: parsed.sent ?? null, received: parsed.received ?? null };
+}
+
+/** Format a signed integer amount with the coin's decimals, without the sign */
+function formatAmount(raw: bigint, decimals: number): string {
+  const abs = raw < 0n ? -raw : raw;
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+  const fraction = (abs % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+function ownerAddress(owner: unknown): string | null {
+  if (typeof owner === 'object' && owner !== null && 'AddressOwner' in owner) {
+    return (owner as { AddressOwner: string }).AddressOwner;
+  }
+  return null;
+}
+
+export class SuiTransactionSource implements ITransactionSource {
+  readonly id = 'sui-transactions';
+
+  private readonly getClient: () => SuiTransactionReader;
+  private decimals: Map<string, number> = new Map([[SUI_COIN_TYPE, SUI_DECIMALS]]);
+
+  constructor(getClient: () => SuiTransactionReader) {
+    this.getClient = getClient;
+  }
+
+  supportsChain(chain: string): boolean {
+    return chain === 'SUI';
+  }
+
+  async fetchTransactions(
+    target: TransactionSyncTarget,
+    cursor: string | null,
+    signal?: AbortSignal
+  ): Promise<TransactionBatch> {
+    const client = this.getClient();
+    const start = parseCursor(cursor);
+
+    const sent = await this.readPages(client, { FromAddress: target.address }, start.sent, signal);
+    const received = await this.readPages(client, { ToAddress: target.address }, start.received, signal);
+
+    const transactions = new Map<string, Transaction>();
+    for (const block of [...sent.blocks, ...received.blocks]) {
+      for (const tx of await this.toTransactions(client, target, block)) {
+        transactions.set(tx.id, tx);
+      }
+    }
+
+    return {
+      transactions: Array.from(transactions.values()),
+      cursor: JSON.stringify({ sent: sent.cursor, received: received.cursor }),
+      hasMore: sent.hasMore || received.hasMore,
+    };
+  }
+
+  private async readPages(
+    client: SuiTransactionReader,
+    filter: { FromAddress: string } | { ToAddress: string },
+    cursor: string | null,
+    signal?: AbortSignal
+  ): Promise<{ blocks: SuiTransactionBlockResponse[]; cursor: string | null; hasMore: boolean }> {
+    const blocks: SuiTransactionBlockResponse[] = [];
+    let next = cursor;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      signal?.throwIfAborted();
+      const response = await client.queryTransactionBlocks({
+        filter,
+        cursor: next,
+        limit: PAGE_SIZE,
+        order: 'ascending',
+        options: { showBalanceChanges: true, showEffects: true, showInput: true },
+      });
+      blocks.push(...response.data);
+      // An empty page returns no cursor; keep the position we already have
+      next = response.nextCursor ?? next;
+      if (!response.hasNextPage) {
+        return { blocks, cursor: next, hasMore: false };
+      }
+    }
+    return { blocks, cursor: next, hasMore: true };
+  }
+
+  private async toTransactions(
+    client: SuiTransactionReader,
+    target: TransactionSyncTarget,
+    block: SuiTransactionBlockResponse
+  ): Promise<Transaction[]> {
+    const self = target.address.toLowerCase();
+    const sender = block.transaction?.data.sender;
+    const base = {
+      accountId: target.accountId,
+      chain: target.chain,
+      hash: block.digest,
+      timestamp: block.timestampMs ? Number(block.timestampMs) : null,
+      block: block.checkpoint ? Number(block.checkpoint) : null,
+      status: block.effects?.status.status === 'failure' ? 'failed' as const : 'success' as const,
+    };
+
+    const changes = (block.balanceChanges ?? []).filter(
+      change => ownerAddress(change.owner)?.toLowerCase() === self
+    );
+
+    if (changes.length === 0) {
+      // Object transfers and calls without coin movement still belong in the feed
+      return [{
+        ...base,
+        id: transactionId(target.accountId, target.chain, block.digest),
+        kind: 'call',
+        direction: sender?.toLowerCase() === self ? 'out' : 'in',
+        from: sender,
+      }];
+    }
+
+    const transactions: Transaction[] = [];
+    for (const change of changes) {
+      const raw = BigInt(change.amount);
+      const decimals = await this.coinDecimals(client, change.coinType);
+      const isSui = change.coinType === SUI_COIN_TYPE;
+      transactions.push({
+        ...base,
+        id: transactionId(target.accountId, target.chain, block.digest, change.coinType),
+        kind: 'transfer',
+        direction: raw < 0n ? 'out' : 'in',
+        symbol: change.coinType.split('::').pop(),
+        amount: formatAmount(raw, decimals),
+        asset: isSui ? undefined : change.coinType,
+        from: sender,
+      });
+    }
+    return transactions;
+  }
+
+  private async coinDecimals(client: SuiTransactionReader, coinType: string): Promise<number> {
+    const cached = this.decimals.get(coinType);
+    if (cached !== undefined) return cached;
+
+    const metadata = await client.getCoinMetadata({ coinType }).catch(() => null);
+    const decimals = metadata?.decimals ?? SUI_DECIMALS;
+    this.decimals.set(coinType, decimals);
+    return decimals;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Alert monitor
+ *
+ * Checks the alert rules whenever a sync completes, which is when prices are
+ * refreshed, and records what fired in the store's alert history. Alerts that
+ * fire are also shown as browser notifications when the user allowed them.
+ */
+
+import {
+  alertWindows,
+  evaluateAlertRules,
+  type AlertContext,
+  type AlertEvaluation,
+  type AlertEvent,
+  type AlertRule,
+} from '../../domain/alerts/Alert';
+import type { Asset } from '../../store/useStore';
+import { getPortfolioHistoryService } from '../history/PortfolioSnapshotStore';
+import type { AccountSyncClient } from '../sync/AccountSyncClient';
+
+/** Shows fired alerts outside the app */
+export interface AlertNotifier {
+  notify: (event: AlertEvent) => void;
+}
+
+export function browserNotifier(): AlertNotifier {
+  return {
+    notify(event) {
+      if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+      try {
+        new Notification('CygnusWealth alert', { body: event.message, tag: event.ruleId });
+      } catch (error) {
+        // Some browsers only allow notifications from a service worker
+        console.warn('[AlertMonitor] Notification failed:', error);
+      }
+    },
+  };
+}
+
+/** Ask for notification permission; resolves to whether notifications can be shown */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+/** Portfolio value about `windowMs` before `now`, or null without history that old */
+export type PastTotalSource = (windowMs: number, now: number) => Promise<number | null>;
+
+async function pastTotalFromHistory(windowMs: number, now: number): Promise<number | null> {
+  const at = now - windowMs;
+  // The latest snapshot from the window before the one being compared
+  const result = await getPortfolioHistoryService().query({ from: at - windowMs, to: at });
+  if (result.isFailure) return null;
+  return result.value.at(-1)?.totalValue ?? null;
+}
+
+/** The store state and actions the monitor reads rules and holdings from */
+export interface AlertStoreState {
+  assets: Asset[];
+  prices: Record<string, number>;
+  portfolio: { totalValue: number };
+  alertRules: AlertRule[];
+  recordAlertEvaluation: (evaluation: AlertEvaluation) => void;
+}
+
+export interface AlertMonitorOptions {
+  notifier?: AlertNotifier;
+  pastTotal?: PastTotalSource;
+  now?: () => number;
+}
+
+export class AlertMonitor {
+  private readonly store: { getState: () => AlertStoreState };
+  private readonly notifier: AlertNotifier;
+  private readonly pastTotal: PastTotalSource;
+  private readonly now: () => number;
+
+  constructor(store: { getState: () => AlertStoreState }, options: AlertMonitorOptions = {}) {
+    this.store = store;
+    this.notifier = options.notifier ?? browserNotifier();
+    this.pastTotal = options.pastTotal ?? pastTotalFromHistory;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Check the rules after every sync of the client */
+  attach(client: Pick<AccountSyncClient, 'subscribe'>): () => void {
+    return client.subscribe(event => {
+      if (event.type !== 'complete') return;
+      this.evaluate().catch((error: unknown) => {
+        console.warn('[AlertMonitor] Alert evaluation failed:', error);
+      });
+    });
+  }
+
+  async evaluate(): Promise<AlertEvent[]> {
+    const { alertRules } = this.store.getState();
+    if (!alertRules.some(rule => rule.enabled)) return [];
+
+    const now = this.now();
+    const pastTotals: Record<number, number> = {};
+    for (const windowMs of alertWindows(alertRules)) {
+      const total = await this.pastTotal(windowMs, now);
+      if (total !== null) pastTotals[windowMs] = total;
+    }
+
+    // Rules may have changed while history was read
+    const state = this.store.getState();
+    const context: AlertContext = {
+      prices: state.prices,
+      holdings: state.assets,
+      totalValue: state.portfolio.totalValue,
+      pastTotals,
+    };
+    const evaluation = evaluateAlertRules(state.alertRules, context, now);
+    state.recordAlertEvaluation(evaluation);
+    for (const event of evaluation.events) this.notifier.notify(event);
+    return evaluation.events;
+  }
+}
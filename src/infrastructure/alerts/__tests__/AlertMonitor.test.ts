@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AlertEvaluation, AlertRule } from '../../../domain/alerts/Alert';
+import type { SyncEvent } from '../../sync/syncProtocol';
+import { AlertMonitor, type AlertStoreState } from '../AlertMonitor';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+function createStore(alertRules: AlertRule[]) {
+  const state: AlertStoreState = {
+    assets: [
+      { id: 'eth', accountId: 'a', symbol: 'ETH', name: 'Ethereum', balance: '1', chain: 'Ethereum', source: 'wallet', priceUsd: 4100, valueUsd: 4100 },
+    ],
+    prices: { ETH: 4100 },
+    portfolio: { totalValue: 4100 },
+    alertRules,
+    recordAlertEvaluation: vi.fn((evaluation: AlertEvaluation) => {
+      state.alertRules = state.alertRules.map(rule =>
+        rule.id in evaluation.activeById ? { ...rule, active: evaluation.activeById[rule.id] } : rule
+      );
+    }),
+  };
+  return { getState: () => state, state };
+}
+
+function alertRule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    id: 'eth-above',
+    condition: { kind: 'price-above', symbol: 'ETH', price: 4000 },
+    enabled: true,
+    createdAt: 0,
+    active: false,
+    ...overrides,
+  };
+}
+
+describe('AlertMonitor', () => {
+  it('records fired alerts and notifies each once', async () => {
+    const store = createStore([alertRule({})]);
+    const notifier = { notify: vi.fn() };
+    const monitor = new AlertMonitor(store, { notifier, pastTotal: async () => null, now: () => NOW });
+
+    const fired = await monitor.evaluate();
+    expect(fired.map(event => event.ruleId)).toEqual(['eth-above']);
+    expect(notifier.notify).toHaveBeenCalledWith(fired[0]);
+    expect(store.state.alertRules[0].active).toBe(true);
+
+    // Still above the threshold: nothing new
+    expect(await monitor.evaluate()).toEqual([]);
+    expect(notifier.notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads past totals only for the windows the rules use', async () => {
+    const store = createStore([
+      alertRule({ id: 'drop', condition: { kind: 'portfolio-change', percent: -10, windowMs: DAY_MS } }),
+    ]);
+    const pastTotal = vi.fn(async () => 5000);
+    const monitor = new AlertMonitor(store, { notifier: { notify: vi.fn() }, pastTotal, now: () => NOW });
+
+    const fired = await monitor.evaluate();
+
+    expect(pastTotal).toHaveBeenCalledExactlyOnceWith(DAY_MS, NOW);
+    expect(fired[0].message).toBe('Portfolio fell 18% in 1d to $4,100.00');
+  });
+
+  it('skips evaluation without enabled rules', async () => {
+    const store = createStore([alertRule({ enabled: false })]);
+    const monitor = new AlertMonitor(store, { notifier: { notify: vi.fn() }, now: () => NOW });
+
+    expect(await monitor.evaluate()).toEqual([]);
+    expect(store.state.recordAlertEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('evaluates after each completed sync', async () => {
+    const store = createStore([alertRule({})]);
+    const notifier = { notify: vi.fn() };
+    let listener: ((event: SyncEvent) => void) | undefined;
+    const client = {
+      subscribe: (callback: (event: SyncEvent) => void) => {
+        listener = callback;
+        return () => { listener = undefined; };
+      },
+    };
+    const detach = new AlertMonitor(store, { notifier, pastTotal: async () => null, now: () => NOW }).attach(client);
+
+    listener!({ type: 'progress' } as SyncEvent);
+    await Promise.resolve();
+    expect(store.state.recordAlertEvaluation).not.toHaveBeenCalled();
+
+    listener!({ type: 'complete' } as SyncEvent);
+    await vi.waitFor(() => expect(notifier.notify).toHaveBeenCalledTimes(1));
+
+    detach();
+    expect(listener).toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * BackupService
+ *
+ * Writes and reads encrypted backup files. A backup holds everything needed to
+ * move the app to another browser: the persisted accounts (with token lists and,
+ * while the vault is unlocked, their API keys), account filter settings and the
+ * custom RPC endpoints. The file is encrypted with its own passphrase, so it
+ * can be restored where no vault exists yet.
+ */
+
+import type { StoreApi } from 'zustand';
+import { Result } from '../../domain/shared/Result';
+import { ValidationError, type DomainError } from '../../domain/shared/DomainError';
+import {
+  BACKUP_VERSION,
+  planBackupImport,
+  validateBackupPayload,
+  type BackupImportMode,
+  type BackupImportPlan,
+  type BackupPayload,
+} from '../../domain/backup/Backup';
+import { detectEnvironment } from '../../config/environment';
+import type { Account, Asset } from '../../store/useStore';
+import { rpcConfigService, type CustomRpcConfiguration } from '../rpc/RpcConfigurationService';
+import { validatePassphrase } from '../vault/SecretVault';
+import {
+  DEFAULT_PBKDF2_ITERATIONS,
+  decryptString,
+  deriveKey,
+  encryptString,
+  generateSalt,
+} from '../vault/VaultCrypto';
+
+export const BACKUP_FILE_FORMAT = 'cygnus-wealth-backup';
+
+// PBKDF2 work a file may ask for; anything outside is damage or an attempt to
+// hang the tab deriving the key
+const MIN_KDF_ITERATIONS = 1_000;
+const MAX_KDF_ITERATIONS = 10 * DEFAULT_PBKDF2_ITERATIONS;
+
+// Bound as AES-GCM additional data so a vault ciphertext cannot pass as a backup
+const BACKUP_CONTEXT = `${BACKUP_FILE_FORMAT}:v${BACKUP_VERSION}`;
+
+interface BackupFile {
+  format: typeof BACKUP_FILE_FORMAT;
+  version: number;
+  createdAt: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; salt: string; iterations: number };
+  iv: string;
+  ciphertext: string;
+}
+
+/** The slice of the app store a backup reads and writes */
+export interface BackupStoreState {
+  accounts: Account[];
+  assets: Asset[];
+  selectedAccountIds: Set<string> | null;
+}
+
+export interface RpcConfigurationStore {
+  exportCustomConfigurations(): Record<string, CustomRpcConfiguration>;
+  replaceCustomConfigurations(configs: Record<string, CustomRpcConfiguration>): void;
+}
+
+export interface BackupServiceOptions {
+  store: Pick<StoreApi<BackupStoreState>, 'getState' | 'setState'>;
+  rpcConfig?: RpcConfigurationStore;
+  environment?: string;
+  iterations?: number;
+}
+
+function invalidFile(message: string): ValidationError {
+  return new ValidationError(message, 'backup');
+}
+
+function isBackupFile(value: unknown): value is BackupFile {
+  if (typeof value !== 'object' || value === null) return false;
+  const file = value as Record<string, unknown>;
+  const kdf = file.kdf as Record<string, unknown> | undefined;
+  const iterations = kdf?.iterations;
+  return file.format === BACKUP_FILE_FORMAT
+    && typeof file.iv === 'string'
+    && typeof file.ciphertext === 'string'
+    && typeof kdf?.salt === 'string'
+    && typeof iterations === 'number'
+    && Number.isInteger(iterations)
+    && iterations >= MIN_KDF_ITERATIONS
+    && iterations <= MAX_KDF_ITERATIONS;
+}
+
+export class BackupService {
+  private readonly store: BackupServiceOptions['store'];
+  private readonly rpcConfig: RpcConfigurationStore;
+  private readonly environment: string;
+  private readonly iterations: number;
+
+  constructor(options: BackupServiceOptions) {
+    this.store = options.store;
+    this.rpcConfig = options.rpcConfig ?? rpcConfigService;
+    this.environment = options.environment ?? detectEnvironment();
+    this.iterations = options.iterations ?? DEFAULT_PBKDF2_ITERATIONS;
+  }
+
+  /**
+   * Snapshot the current configuration as backup content
+   */
+  collect(): BackupPayload<Account> {
+    const { accounts, selectedAccountIds } = this.store.getState();
+    return {
+      version: BACKUP_VERSION,
+      environment: this.environment,
+      createdAt: new Date().toISOString(),
+      // Cached balances are re-fetched on the next sync and are not worth carrying
+      accounts: accounts.map(account => ({ ...account, balances: undefined })),
+      settings: {
+        selectedAccountIds: selectedAccountIds ? Array.from(selectedAccountIds) : null,
+      },
+      rpc: this.rpcConfig.exportCustomConfigurations(),
+    };
+  }
+
+  /**
+   * Encrypt the current configuration into the text of a backup file
+   */
+  async createBackup(passphrase: string): Promise<Result<string, DomainError>> {
+    const invalid = validatePassphrase(passphrase);
+    if (invalid) return Result.failure(invalid);
+
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, this.iterations);
+    const payload = this.collect();
+    const encrypted = await encryptString(key, JSON.stringify(payload), BACKUP_CONTEXT);
+
+    const file: BackupFile = {
+      format: BACKUP_FILE_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: payload.createdAt,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: this.iterations },
+      ...encrypted,
+    };
+    return Result.success(JSON.stringify(file, null, 2));
+  }
+
+  /**
+   * Decrypt and validate a backup file without applying it
+   */
+  async readBackup(text: string, passphrase: string): Promise<Result<BackupPayload<Account>, DomainError>> {
+    let file: unknown;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      return Result.failure(invalidFile('File is not a CygnusWealth backup'));
+    }
+    if (!isBackupFile(file)) {
+      return Result.failure(invalidFile('File is not a CygnusWealth backup'));
+    }
+    if (file.version !== BACKUP_VERSION) {
+      return Result.failure(invalidFile(`Unsupported backup version ${file.version}`));
+    }
+
+    let plaintext: string;
+    try {
+      const key = await deriveKey(passphrase, file.kdf.salt, file.kdf.iterations);
+      plaintext = await decryptString(key, file, BACKUP_CONTEXT);
+    } catch {
+      return Result.failure(new ValidationError('Incorrect passphrase or damaged backup file', 'passphrase'));
+    }
+
+    let content: unknown;
+    try {
+      content = JSON.parse(plaintext);
+    } catch {
+      return Result.failure(invalidFile('Backup content is not valid JSON'));
+    }
+    return validateBackupPayload(content) as Result<BackupPayload<Account>, DomainError>;
+  }
+
+  /**
+   * Show what importing a backup would change
+   */
+  previewImport(backup: BackupPayload<Account>, mode: BackupImportMode): BackupImportPlan<Account> {
+    const { accounts, selectedAccountIds } = this.store.getState();
+    return planBackupImport(
+      {
+        accounts,
+        settings: { selectedAccountIds: selectedAccountIds ? Array.from(selectedAccountIds) : null },
+        rpc: this.rpcConfig.exportCustomConfigurations(),
+      },
+      backup,
+      mode
+    );
+  }
+
+  /**
+   * Apply a previewed import to the store and the RPC configuration
+   */
+  applyImport(plan: BackupImportPlan<Account>): void {
+    const accountIds = new Set(plan.state.accounts.map(account => account.id));
+    const { selectedAccountIds } = plan.state.settings;
+
+    this.store.setState({
+      accounts: plan.state.accounts,
+      // Drop cached holdings of accounts a replace removed
+      assets: this.store.getState().assets.filter(asset => accountIds.has(asset.accountId)),
+      selectedAccountIds: selectedAccountIds ? new Set(selectedAccountIds) : null,
+    });
+    this.rpcConfig.replaceCustomConfigurations(plan.state.rpc);
+  }
+}
+
+export function backupFilename(date: Date = new Date()): string {
+  return `cygnus-wealth-backup-${date.toISOString().slice(0, 10)}.json`;
+}
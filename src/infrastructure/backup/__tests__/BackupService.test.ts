@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStore } from 'zustand/vanilla';
+import { BackupService, type BackupStoreState, type RpcConfigurationStore } from '../BackupService';
+import type { Account } from '../../../store/useStore';
+
+const wallet: Account = {
+  id: 'wallet-1',
+  type: 'wallet',
+  platform: 'Ethereum',
+  label: 'Main',
+  address: '0xabc',
+  status: 'connected',
+  tokens: [{ address: '0xA0b8', symbol: 'USDC', name: 'USD Coin', decimals: 6, chainId: 1 }],
+};
+
+const exchange: Account = {
+  id: 'cex-kraken-1',
+  type: 'cex',
+  platform: 'Kraken',
+  label: 'Kraken',
+  apiKey: 'kraken-key',
+  apiSecret: 'kraken-secret',
+  status: 'connected',
+};
+
+function createService(accounts: Account[]) {
+  const store = createStore<BackupStoreState>(() => ({
+    accounts,
+    assets: [
+      { id: 'a1', symbol: 'ETH', name: 'Ethereum', balance: '1', source: 'wallet', chain: 'Ethereum', accountId: 'wallet-1', priceUsd: 2000, valueUsd: 2000 },
+    ],
+    selectedAccountIds: null,
+  }));
+  let rpc: ReturnType<RpcConfigurationStore['exportCustomConfigurations']> = {
+    ethereum: { customEndpoints: [{ url: 'https://eth.example', name: 'Mine' }], activeEndpoint: 'https://eth.example' },
+  };
+  const rpcConfig: RpcConfigurationStore = {
+    exportCustomConfigurations: () => rpc,
+    replaceCustomConfigurations: vi.fn((configs) => {
+      rpc = configs;
+    }),
+  };
+  const service = new BackupService({ store, rpcConfig, environment: 'production', iterations: 1000 });
+  return { service, store, rpcConfig };
+}
+
+describe('BackupService', () => {
+  it('round-trips the configuration through an encrypted file', async () => {
+    const { service } = createService([wallet, exchange]);
+
+    const file = await service.createBackup('correct horse battery');
+    expect(file.isSuccess).toBe(true);
+    expect(file.value).not.toContain('kraken-secret');
+    expect(file.value).not.toContain('0xabc');
+
+    const restored = await service.readBackup(file.value, 'correct horse battery');
+    expect(restored.isSuccess).toBe(true);
+    expect(restored.value.environment).toBe('production');
+    expect(restored.value.accounts).toEqual([wallet, exchange]);
+    expect(restored.value.rpc.ethereum.customEndpoints).toHaveLength(1);
+  });
+
+  it('rejects a wrong passphrase and files that are not backups', async () => {
+    const { service } = createService([wallet]);
+    const file = await service.createBackup('correct horse battery');
+
+    const wrong = await service.readBackup(file.value, 'wrong passphrase');
+    expect(wrong.error.message).toBe('Incorrect passphrase or damaged backup file');
+
+    const tampered = JSON.stringify({ ...JSON.parse(file.value), createdAt: 'x', ciphertext: 'AAAA' });
+    expect((await service.readBackup(tampered, 'correct horse battery')).isFailure).toBe(true);
+    expect((await service.readBackup('{"accounts": []}', 'correct horse battery')).error.message)
+      .toBe('File is not a CygnusWealth backup');
+  });
+
+  it('rejects files asking for key derivation work outside the accepted range', async () => {
+    const { service } = createService([wallet]);
+    const file = JSON.parse((await service.createBackup('correct horse battery')).value);
+
+    for (const iterations of [0, 1.5, 1e12, '1000']) {
+      const tampered = JSON.stringify({ ...file, kdf: { ...file.kdf, iterations } });
+      expect((await service.readBackup(tampered, 'correct horse battery')).error.message)
+        .toBe('File is not a CygnusWealth backup');
+    }
+  });
+
+  it('requires a strong enough passphrase', async () => {
+    const { service } = createService([wallet]);
+    expect((await service.createBackup('short')).isFailure).toBe(true);
+  });
+
+  it('applies a replace import to the store and RPC configuration', async () => {
+    const source = createService([exchange]);
+    const file = await source.service.createBackup('correct horse battery');
+    const { service, store, rpcConfig } = createService([wallet]);
+
+    const backup = await service.readBackup(file.value, 'correct horse battery');
+    const plan = service.previewImport(backup.value, 'replace');
+    expect(plan.summary.accountsRemoved).toBe(1);
+
+    service.applyImport(plan);
+
+    expect(store.getState().accounts.map(a => a.id)).toEqual(['cex-kraken-1']);
+    expect(store.getState().assets).toEqual([]);
+    expect(rpcConfig.replaceCustomConfigurations).toHaveBeenCalledWith(plan.state.rpc);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Bitcoin Watch Service
+ *
+ * Balances of watch-only Bitcoin accounts. A single address is read as it is;
+ * an extended key has its receive and change chains scanned up to the gap
+ * limit, and the balances of every used address are added up.
+ */
+
+import { Result } from '../../domain/shared/Result';
+import { ExternalServiceError, type DomainError } from '../../domain/shared/DomainError';
+import {
+  DEFAULT_GAP_LIMIT,
+  balanceOf,
+  scanAddressChain,
+  type BitcoinUtxo,
+  type ScannedAddress,
+} from '../../domain/bitcoin/BitcoinWatch';
+import { createAddressDeriver, parseBitcoinWatchInput } from './bitcoinAddress';
+import type { EsploraClient } from './EsploraClient';
+
+export interface BitcoinHoldings {
+  balanceSats: number;
+  /** Used addresses, receive chain first */
+  addresses: ScannedAddress[];
+  /** Only filled when asked for */
+  utxos: BitcoinUtxo[];
+  /** First unused receive address of an extended key */
+  nextReceiveAddress: string | null;
+}
+
+export interface BitcoinHoldingsOptions {
+  /** Also list the unspent outputs of every funded address */
+  includeUtxos?: boolean;
+  signal?: AbortSignal;
+}
+
+export class BitcoinWatchService {
+  private readonly client: Pick<EsploraClient, 'getAddressActivity' | 'getUtxos'>;
+  private readonly gapLimit: number;
+
+  constructor(client: Pick<EsploraClient, 'getAddressActivity' | 'getUtxos'>, gapLimit: number = DEFAULT_GAP_LIMIT) {
+    this.client = client;
+    this.gapLimit = gapLimit;
+  }
+
+  async getHoldings(input: string, options: BitcoinHoldingsOptions = {}): Promise<Result<BitcoinHoldings, DomainError>> {
+    const target = parseBitcoinWatchInput(input);
+    if (target.isFailure) return Result.failure(target.error);
+    const { signal } = options;
+
+    try {
+      let addresses: ScannedAddress[];
+      let nextReceiveAddress: string | null = null;
+
+      if (target.value.kind === 'address') {
+        const activity = await this.client.getAddressActivity(target.value.address, signal);
+        addresses = activity.txCount > 0 ? [{ ...activity, chain: 'receive', index: 0 }] : [];
+      } else {
+        const derive = createAddressDeriver(target.value);
+        const getActivity = (batch: string[]) => {
+          if (signal?.aborted) return Promise.reject(new Error('Aborted'));
+          return Promise.all(batch.map(address => this.client.getAddressActivity(address, signal)));
+        };
+        const [receive, change] = await Promise.all([
+          scanAddressChain('receive', index => derive('receive', index), getActivity, this.gapLimit),
+          scanAddressChain('change', index => derive('change', index), getActivity, this.gapLimit),
+        ]);
+        addresses = [...receive.used, ...change.used];
+        nextReceiveAddress = derive('receive', receive.nextIndex);
+      }
+
+      const funded = addresses.filter(address => balanceOf(address) > 0);
+      const utxos = options.includeUtxos
+        ? (await Promise.all(funded.map(address => this.client.getUtxos(address.address, signal)))).flat()
+        : [];
+
+      return Result.success({
+        balanceSats: funded.reduce((sum, address) => sum + balanceOf(address), 0),
+        addresses,
+        utxos,
+        nextReceiveAddress,
+      });
+    } catch (error) {
+      if (error instanceof ExternalServiceError) return Result.failure(error);
+      return Result.failure(new ExternalServiceError(
+        'Esplora',
+        'get holdings',
+        `Could not read Bitcoin balances: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      ));
+    }
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Esplora Client
+ *
+ * Reads address activity and unspent outputs from an Esplora-compatible HTTP
+ * API, the one served by Blockstream, mempool.space and self-hosted electrs.
+ * Base URLs are tried in order, so a self-hosted instance can go first with
+ * the public ones behind it.
+ */
+
+import { ExternalServiceError } from '../../domain/shared/DomainError';
+import type { AddressActivity, BitcoinUtxo } from '../../domain/bitcoin/BitcoinWatch';
+import { classifyRpcError } from '../../domain/rpc/EndpointTelemetry';
+import type { RequestOutcome } from '../rpc/requestTelemetry';
+
+export type EsploraFetch = (url: string, init?: { signal?: AbortSignal }) => Promise<Response>;
+
+export interface EsploraClientOptions {
+  fetch?: EsploraFetch;
+  /** Told the outcome of every request, by base URL */
+  onRequest?: (baseUrl: string, outcome: RequestOutcome) => void;
+  /** Per-request timeout in ms */
+  timeoutMs?: number;
+}
+
+interface EsploraStats {
+  tx_count: number;
+  funded_txo_sum: number;
+  spent_txo_sum: number;
+}
+
+interface EsploraAddress {
+  chain_stats: EsploraStats;
+  mempool_stats: EsploraStats;
+}
+
+interface EsploraUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: { confirmed: boolean };
+}
+
+/** Base URL without a trailing slash, e.g. https://blockstream.info/api */
+export function normalizeEsploraUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+export class EsploraClient {
+  private readonly baseUrls: string[];
+  private readonly fetchImpl: EsploraFetch;
+  private readonly timeoutMs: number;
+  private readonly onRequest?: (baseUrl: string, outcome: RequestOutcome) => void;
+
+  constructor(baseUrls: string[], options: EsploraClientOptions = {}) {
+    this.baseUrls = [...new Set(baseUrls.map(normalizeEsploraUrl))];
+    this.fetchImpl = options.fetch ?? ((url, init) => fetch(url, init));
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.onRequest = options.onRequest;
+  }
+
+  /** Confirmed and mempool activity of an address */
+  async getAddressActivity(address: string, signal?: AbortSignal): Promise<AddressActivity> {
+    const { chain_stats: chain, mempool_stats: mempool } = await this.get<EsploraAddress>(
+      `/address/${address}`,
+      signal
+    );
+    return {
+      address,
+      txCount: chain.tx_count + mempool.tx_count,
+      fundedSats: chain.funded_txo_sum + mempool.funded_txo_sum,
+      spentSats: chain.spent_txo_sum + mempool.spent_txo_sum,
+    };
+  }
+
+  async getUtxos(address: string, signal?: AbortSignal): Promise<BitcoinUtxo[]> {
+    const utxos = await this.get<EsploraUtxo[]>(`/address/${address}/utxo`, signal);
+    return utxos.map(utxo => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      address,
+      valueSats: utxo.value,
+      confirmed: utxo.status.confirmed,
+    }));
+  }
+
+  private async get<T>(path: string, signal?: AbortSignal): Promise<T> {
+    if (this.baseUrls.length === 0) {
+      throw new ExternalServiceError('Esplora', `GET ${path}`, 'No Esplora endpoint is configured');
+    }
+
+    let lastError: unknown;
+    for (const baseUrl of this.baseUrls) {
+      if (signal?.aborted) break;
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      signal?.addEventListener('abort', abort);
+      const timer = setTimeout(abort, this.timeoutMs);
+      const startedAt = Date.now();
+      let status: number | undefined;
+      try {
+        const response = await this.fetchImpl(`${baseUrl}${path}`, { signal: controller.signal });
+        status = response.status;
+        if (!response.ok) {
+          throw new ExternalServiceError(
+            'Esplora',
+            `GET ${path}`,
+            `${baseUrl} answered ${response.status}`,
+            undefined,
+            response.status
+          );
+        }
+        const body = await response.json() as T;
+        this.onRequest?.(baseUrl, { ok: true, latencyMs: Date.now() - startedAt });
+        return body;
+      } catch (error) {
+        // A caller's abort is not the instance's fault
+        if (!signal?.aborted) {
+          this.onRequest?.(baseUrl, { ok: false, latencyMs: Date.now() - startedAt, errorCode: classifyRpcError(error, status) });
+        }
+        // Try the next instance
+        lastError = error;
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+      }
+    }
+
+    if (lastError instanceof ExternalServiceError) throw lastError;
+    throw new ExternalServiceError(
+      'Esplora',
+      `GET ${path}`,
+      `Esplora request failed: ${lastError instanceof Error ? lastError.message : String(lastError ?? 'aborted')}`,
+      lastError instanceof Error ? lastError : undefined
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EsploraClient, type EsploraFetch } from '../EsploraClient';
+import { BitcoinWatchService } from '../BitcoinWatchService';
+import { createAddressDeriver, parseBitcoinWatchInput } from '../bitcoinAddress';
+import type { BitcoinWatchTarget } from '../../../domain/bitcoin/BitcoinWatch';
+
+const ZPUB = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+// receive/0, receive/1 and change/0 of ZPUB
+const RECEIVE_0 = 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu';
+const RECEIVE_1 = 'bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g';
+const CHANGE_0 = 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el';
+
+interface FakeAddress {
+  chain: [txCount: number, funded: number, spent: number];
+  mempool?: [txCount: number, funded: number, spent: number];
+  utxos?: Array<{ txid: string; vout: number; value: number; confirmed: boolean }>;
+}
+
+function stats([txCount, funded, spent]: [number, number, number]) {
+  return { tx_count: txCount, funded_txo_sum: funded, spent_txo_sum: spent };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function createFetch(addresses: Record<string, FakeAddress>) {
+  return vi.fn<EsploraFetch>(async (url) => {
+    const [, address, utxo] = new URL(url).pathname.match(/\/address\/([^/]+)(\/utxo)?$/) ?? [];
+    const entry = addresses[address] ?? { chain: [0, 0, 0] };
+    if (utxo) {
+      return json((entry.utxos ?? []).map(({ confirmed, ...rest }) => ({ ...rest, status: { confirmed } })));
+    }
+    return json({ chain_stats: stats(entry.chain), mempool_stats: stats(entry.mempool ?? [0, 0, 0]) });
+  });
+}
+
+describe('BitcoinWatchService', () => {
+  it('adds up the confirmed and mempool balance of a single address', async () => {
+    const fetch = createFetch({ [RECEIVE_0]: { chain: [2, 100_000, 40_000], mempool: [1, 5_000, 0] } });
+    const service = new BitcoinWatchService(new EsploraClient(['https://esplora.example/api/'], { fetch }));
+
+    const result = await service.getHoldings(RECEIVE_0);
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value.balanceSats).toBe(65_000);
+    expect(result.value.nextReceiveAddress).toBeNull();
+    expect(fetch).toHaveBeenCalledWith(`https://esplora.example/api/address/${RECEIVE_0}`, expect.anything());
+  });
+
+  it('scans both chains of an extended key up to the gap limit', async () => {
+    const fetch = createFetch({
+      [RECEIVE_0]: { chain: [2, 50_000, 50_000] },
+      [RECEIVE_1]: {
+        chain: [1, 30_000, 0],
+        utxos: [{ txid: 'aa', vout: 0, value: 30_000, confirmed: true }],
+      },
+      [CHANGE_0]: {
+        chain: [1, 12_000, 0],
+        utxos: [{ txid: 'bb', vout: 1, value: 12_000, confirmed: false }],
+      },
+    });
+    const service = new BitcoinWatchService(new EsploraClient(['https://esplora.example/api'], { fetch }), 3);
+
+    const result = await service.getHoldings(ZPUB, { includeUtxos: true });
+
+    expect(result.value.balanceSats).toBe(42_000);
+    expect(result.value.addresses.map(address => [address.chain, address.index])).toEqual([
+      ['receive', 0],
+      ['receive', 1],
+      ['change', 0],
+    ]);
+    expect(result.value.utxos).toEqual([
+      { txid: 'aa', vout: 0, address: RECEIVE_1, valueSats: 30_000, confirmed: true },
+      { txid: 'bb', vout: 1, address: CHANGE_0, valueSats: 12_000, confirmed: false },
+    ]);
+    // The emptied receive/0 has no UTXOs to ask for
+    expect(fetch).not.toHaveBeenCalledWith(expect.stringContaining(`${RECEIVE_0}/utxo`), expect.anything());
+    const target = parseBitcoinWatchInput(ZPUB).value as Extract<BitcoinWatchTarget, { kind: 'extended-key' }>;
+    expect(result.value.nextReceiveAddress).toBe(createAddressDeriver(target)('receive', 2));
+  });
+
+  it('falls back to the next Esplora instance', async () => {
+    const working = createFetch({ [RECEIVE_0]: { chain: [1, 1_000, 0] } });
+    const fetch = vi.fn<EsploraFetch>(async (url, init) => (
+      url.startsWith('https://self-hosted.example') ? json({ error: 'down' }, 503) : working(url, init)
+    ));
+    const service = new BitcoinWatchService(
+      new EsploraClient(['https://self-hosted.example/api', 'https://blockstream.info/api'], { fetch })
+    );
+
+    const result = await service.getHoldings(RECEIVE_0);
+
+    expect(result.value.balanceSats).toBe(1_000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports the outcome of every request by instance', async () => {
+    const working = createFetch({ [RECEIVE_0]: { chain: [1, 1_000, 0] } });
+    const fetch = vi.fn<EsploraFetch>(async (url, init) => (
+      url.startsWith('https://self-hosted.example') ? json({ error: 'down' }, 503) : working(url, init)
+    ));
+    const onRequest = vi.fn();
+    const service = new BitcoinWatchService(
+      new EsploraClient(['https://self-hosted.example/api', 'https://blockstream.info/api'], { fetch, onRequest })
+    );
+
+    await service.getHoldings(RECEIVE_0);
+
+    expect(onRequest).toHaveBeenCalledWith('https://self-hosted.example/api', expect.objectContaining({ ok: false, errorCode: 'HTTP_503' }));
+    expect(onRequest).toHaveBeenCalledWith('https://blockstream.info/api', expect.objectContaining({ ok: true }));
+  });
+
+  it('fails with the last error when every instance fails', async () => {
+    const fetch = vi.fn<EsploraFetch>(async () => json({}, 429));
+    const service = new BitcoinWatchService(new EsploraClient(['https://a.example/api', 'https://b.example/api'], { fetch }));
+
+    const result = await service.getHoldings(RECEIVE_0);
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.code).toBe('EXTERNAL_SERVICE_ERROR');
+    expect(result.error.message).toBe('https://b.example/api answered 429');
+  });
+
+  it('rejects input that is neither an address nor an extended key', async () => {
+    const fetch = vi.fn<EsploraFetch>();
+    const service = new BitcoinWatchService(new EsploraClient(['https://esplora.example/api'], { fetch }));
+
+    const result = await service.getHoldings('not-an-address');
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.details?.field).toBe('address');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
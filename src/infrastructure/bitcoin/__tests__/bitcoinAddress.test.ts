@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { bitcoinAddressScriptType, createAddressDeriver, parseBitcoinWatchInput } from '../bitcoinAddress';
+
+// Account keys of the "abandon abandon ... about" test mnemonic from BIP44, BIP49 and BIP84
+const XPUB = 'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj';
+const YPUB = 'ypub6Ww3ibxVfGzLrAH1PNcjyAWenMTbbAosGNB6VvmSEgytSER9azLDWCxoJwW7Ke7icmizBMXrzBx9979FfaHxHcrArf3zbeJJJUZPf663zsP';
+const ZPUB = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+
+function deriverFor(key: string) {
+  const target = parseBitcoinWatchInput(key).value;
+  if (target.kind !== 'extended-key') throw new Error('expected an extended key');
+  return createAddressDeriver(target);
+}
+
+describe('bitcoinAddressScriptType', () => {
+  it('recognizes every mainnet address format', () => {
+    expect(bitcoinAddressScriptType('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2')).toBe('p2pkh');
+    expect(bitcoinAddressScriptType('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toBe('p2sh');
+    expect(bitcoinAddressScriptType('BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4')).toBe('p2wpkh');
+    expect(bitcoinAddressScriptType('bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3')).toBe('p2wsh');
+    expect(bitcoinAddressScriptType('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0')).toBe('p2tr');
+  });
+
+  it('rejects bad checksums, testnet addresses and the wrong bech32 variant', () => {
+    expect(bitcoinAddressScriptType('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3')).toBeNull();
+    expect(bitcoinAddressScriptType('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx')).toBeNull();
+    // Taproot with a bech32 rather than bech32m checksum (BIP350)
+    expect(bitcoinAddressScriptType('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd')).toBeNull();
+    expect(bitcoinAddressScriptType('bc1QW508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4')).toBeNull();
+  });
+});
+
+describe('parseBitcoinWatchInput', () => {
+  it('keeps legacy addresses as typed and lower-cases bech32 ones', () => {
+    expect(parseBitcoinWatchInput(' 1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2 ').value).toEqual({
+      kind: 'address',
+      address: '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2',
+      scriptType: 'p2pkh',
+    });
+    expect(parseBitcoinWatchInput('BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4').value).toMatchObject({
+      address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+    });
+  });
+
+  it('maps extended key prefixes to their address type', () => {
+    expect(parseBitcoinWatchInput(XPUB).value).toEqual({ kind: 'extended-key', key: XPUB, scriptType: 'p2pkh' });
+    expect(parseBitcoinWatchInput(YPUB).value).toMatchObject({ scriptType: 'p2sh-p2wpkh' });
+    expect(parseBitcoinWatchInput(ZPUB).value).toMatchObject({ scriptType: 'p2wpkh' });
+  });
+
+  it('rejects malformed keys and private keys', () => {
+    const corrupted = parseBitcoinWatchInput(`${ZPUB.slice(0, -1)}t`);
+    expect(corrupted.isFailure).toBe(true);
+    expect(corrupted.error.message).toBe('Invalid zpub: the key is malformed');
+
+    const secret = parseBitcoinWatchInput('xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi');
+    expect(secret.isFailure).toBe(true);
+    expect(secret.error.message).toContain('never a private key');
+    expect(JSON.stringify(secret.error.details)).not.toContain('xprv9s21');
+
+    expect(parseBitcoinWatchInput('vitalik.eth').isFailure).toBe(true);
+  });
+});
+
+describe('createAddressDeriver', () => {
+  it('derives legacy, nested segwit and native segwit addresses', () => {
+    expect(deriverFor(XPUB)('receive', 0)).toBe('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA');
+    expect(deriverFor(YPUB)('receive', 0)).toBe('37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf');
+    expect(deriverFor(ZPUB)('receive', 0)).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+  });
+
+  it('derives the receive and change chains separately', () => {
+    const derive = deriverFor(ZPUB);
+
+    expect(derive('receive', 1)).toBe('bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g');
+    expect(derive('change', 0)).toBe('bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el');
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Bitcoin addresses and extended public keys
+ *
+ * Checks the mainnet address formats a watch-only account can hold — base58
+ * P2PKH and P2SH, bech32 segwit v0 and bech32m taproot — and derives the
+ * receive and change addresses of an xpub, ypub or zpub. Only public keys are
+ * ever handled here.
+ */
+
+import { ripemd160, sha256 } from 'viem';
+import { HDKey } from 'viem/accounts';
+import { Result } from '../../domain/shared/Result';
+import { ValidationError } from '../../domain/shared/DomainError';
+import {
+  BITCOIN_CHAIN_INDEX,
+  EXTENDED_KEY_SCRIPT_TYPES,
+  type BitcoinAddressChain,
+  type BitcoinScriptType,
+  type BitcoinWatchTarget,
+  type ExtendedKeyPrefix,
+} from '../../domain/bitcoin/BitcoinWatch';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+const MAINNET_HRP = 'bc';
+
+const P2PKH_VERSION = 0x00;
+const P2SH_VERSION = 0x05;
+
+/** SLIP-132 version bytes of mainnet extended public keys */
+const EXTENDED_KEY_VERSIONS: Record<ExtendedKeyPrefix, number> = {
+  xpub: 0x0488b21e,
+  ypub: 0x049d7cb2,
+  zpub: 0x04b24746,
+};
+
+function hash160(bytes: Uint8Array): Uint8Array {
+  return ripemd160(sha256(bytes, 'bytes'), 'bytes');
+}
+
+function checksum(payload: Uint8Array): Uint8Array {
+  return sha256(sha256(payload, 'bytes'), 'bytes').slice(0, 4);
+}
+
+function base58Encode(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  // Leading zero bytes are kept as leading 1s
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+function base58Decode(text: string): Uint8Array | null {
+  let value = 0n;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) return null;
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  for (const char of text) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function base58CheckEncode(payload: Uint8Array): string {
+  const bytes = new Uint8Array(payload.length + 4);
+  bytes.set(payload);
+  bytes.set(checksum(payload), payload.length);
+  return base58Encode(bytes);
+}
+
+/** Payload of a base58check string, or null when it is malformed */
+function base58CheckDecode(text: string): Uint8Array | null {
+  const bytes = base58Decode(text);
+  if (!bytes || bytes.length < 5) return null;
+  const payload = bytes.slice(0, -4);
+  const expected = checksum(payload);
+  return bytes.slice(-4).every((byte, i) => byte === expected[i]) ? payload : null;
+}
+
+function polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= generator[i];
+    }
+  }
+  return chk >>> 0;
+}
+
+function expandHrp(hrp: string): number[] {
+  const chars = [...hrp].map(char => char.charCodeAt(0));
+  return [...chars.map(code => code >> 5), 0, ...chars.map(code => code & 31)];
+}
+
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] | null {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  const maxValue = (1 << to) - 1;
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & maxValue);
+    }
+  }
+  if (pad) {
+    if (bits > 0) out.push((acc << (to - bits)) & maxValue);
+  } else if (bits >= from || ((acc << (to - bits)) & maxValue)) {
+    return null;
+  }
+  return out;
+}
+
+function encodeSegwitAddress(version: number, program: Uint8Array): string {
+  const data = [version, ...convertBits(program, 8, 5, true)!];
+  const constant = version === 0 ? BECH32_CONST : BECH32M_CONST;
+  const mod = polymod([...expandHrp(MAINNET_HRP), ...data, 0, 0, 0, 0, 0, 0]) ^ constant;
+  const checksumChars = Array.from({ length: 6 }, (_, i) => (mod >>> (5 * (5 - i))) & 31);
+  return `${MAINNET_HRP}1${[...data, ...checksumChars].map(value => BECH32_ALPHABET[value]).join('')}`;
+}
+
+/** Witness version and program of a mainnet segwit address (BIP173/BIP350) */
+function decodeSegwitAddress(address: string): { version: number; program: Uint8Array } | null {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) return null;
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (lower.slice(0, separator) !== MAINNET_HRP || lower.length > 90) return null;
+
+  const data = [...lower.slice(separator + 1)].map(char => BECH32_ALPHABET.indexOf(char));
+  if (data.length < 7 || data.includes(-1)) return null;
+
+  const version = data[0];
+  const constant = version === 0 ? BECH32_CONST : BECH32M_CONST;
+  if (version > 16 || polymod([...expandHrp(MAINNET_HRP), ...data]) !== constant) return null;
+
+  const program = convertBits(data.slice(1, -6), 5, 8, false);
+  if (!program || program.length < 2 || program.length > 40) return null;
+  if (version === 0 && program.length !== 20 && program.length !== 32) return null;
+  return { version, program: Uint8Array.from(program) };
+}
+
+/** Script type of a mainnet address, or null when it is not one */
+export function bitcoinAddressScriptType(address: string): BitcoinScriptType | null {
+  const segwit = decodeSegwitAddress(address);
+  if (segwit) {
+    if (segwit.version === 0) return segwit.program.length === 20 ? 'p2wpkh' : 'p2wsh';
+    return segwit.version === 1 && segwit.program.length === 32 ? 'p2tr' : null;
+  }
+
+  const payload = base58CheckDecode(address);
+  if (!payload || payload.length !== 21) return null;
+  if (payload[0] === P2PKH_VERSION) return 'p2pkh';
+  if (payload[0] === P2SH_VERSION) return 'p2sh';
+  return null;
+}
+
+function extendedKeyPrefix(key: string): ExtendedKeyPrefix | null {
+  const prefix = key.slice(0, 4);
+  return prefix in EXTENDED_KEY_VERSIONS ? prefix as ExtendedKeyPrefix : null;
+}
+
+function parseExtendedKey(key: string): HDKey {
+  const prefix = extendedKeyPrefix(key);
+  if (!prefix) throw new Error('Not an xpub, ypub or zpub');
+  return HDKey.fromExtendedKey(key, { public: EXTENDED_KEY_VERSIONS[prefix], private: 0 });
+}
+
+/**
+ * What an account input watches: a mainnet address or an extended public key.
+ * Private keys and testnet keys are refused.
+ */
+export function parseBitcoinWatchInput(input: string): Result<BitcoinWatchTarget, ValidationError> {
+  const value = input.trim();
+
+  const addressType = bitcoinAddressScriptType(value);
+  if (addressType) {
+    // bech32 addresses are stored in their canonical lower case
+    const address = addressType === 'p2pkh' || addressType === 'p2sh' ? value : value.toLowerCase();
+    return Result.success({ kind: 'address', address, scriptType: addressType });
+  }
+
+  const prefix = extendedKeyPrefix(value);
+  if (prefix) {
+    try {
+      parseExtendedKey(value);
+      return Result.success({ kind: 'extended-key', key: value, scriptType: EXTENDED_KEY_SCRIPT_TYPES[prefix] });
+    } catch {
+      return Result.failure(new ValidationError(`Invalid ${prefix}: the key is malformed`, 'address', value));
+    }
+  }
+
+  if (/^[xyz]prv/.test(value)) {
+    return Result.failure(new ValidationError('Enter the public key (xpub), never a private key', 'address', '[redacted]'));
+  }
+  return Result.failure(new ValidationError('Not a Bitcoin address or xpub, ypub or zpub', 'address', value));
+}
+
+export function isBitcoinWatchInput(input: string): boolean {
+  return parseBitcoinWatchInput(input).isSuccess;
+}
+
+function addressFromPublicKey(publicKey: Uint8Array, scriptType: BitcoinScriptType): string {
+  const keyHash = hash160(publicKey);
+  switch (scriptType) {
+    case 'p2pkh':
+      return base58CheckEncode(Uint8Array.from([P2PKH_VERSION, ...keyHash]));
+    case 'p2sh-p2wpkh': {
+      // P2SH wrapping the witness program OP_0 <20-byte key hash>
+      const redeemScript = Uint8Array.from([0x00, 0x14, ...keyHash]);
+      return base58CheckEncode(Uint8Array.from([P2SH_VERSION, ...hash160(redeemScript)]));
+    }
+    case 'p2wpkh':
+      return encodeSegwitAddress(0, keyHash);
+    default:
+      throw new Error(`Cannot derive ${scriptType} addresses from a public key`);
+  }
+}
+
+/**
+ * Address derivation for an extended key; the chain keys are derived once and
+ * reused for every index
+ */
+export function createAddressDeriver(
+  target: Extract<BitcoinWatchTarget, { kind: 'extended-key' }>
+): (chain: BitcoinAddressChain, index: number) => string {
+  const account = parseExtendedKey(target.key);
+  const chains = new Map<BitcoinAddressChain, HDKey>();
+
+  return (chain, index) => {
+    let chainKey = chains.get(chain);
+    if (!chainKey) {
+      chainKey = account.deriveChild(BITCOIN_CHAIN_INDEX[chain]);
+      chains.set(chain, chainKey);
+    }
+    const { publicKey } = chainKey.deriveChild(index);
+    if (!publicKey) throw new Error(`No public key at ${chain}/${index}`);
+    return addressFromPublicKey(publicKey, target.scriptType);
+  };
+}
@@ -12,6 +12,7 @@ import { rpcConfigService } from '../../rpc/RpcConfigurationService';
 import { ChainId } from '../../../domain/chain/ChainId';
 import { AssetValue } from '../../../domain/asset/AssetValue';
 import { Result } from '../../../domain/shared/Result';
+import { classifyRpcError } from '../../../domain/rpc/EndpointTelemetry';
 import { 
   ExternalServiceError, 
   NetworkError, 
@@ -89,6 +90,7 @@ export class SolanaChainService {
     let lastError: Error | undefined;
     
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      const startedAt = Date.now();
       try {
         // Add timeout to the operation
         const timeoutPromise = new Promise<never>((_, reject) => {
@@ -99,7 +101,7 @@ export class SolanaChainService {
         
         // Mark endpoint as healthy on successful request
         const currentUrl = rpcConfigService.getActiveEndpoint('solana');
-        rpcConfigService.updateEndpointHealth('solana', currentUrl, true);
+        rpcConfigService.updateEndpointHealth('solana', currentUrl, true, Date.now() - startedAt);
         
         return Result.success(result);
       } catch (error) {
@@ -107,7 +109,7 @@ export class SolanaChainService {
         const currentUrl = rpcConfigService.getActiveEndpoint('solana');
 
         // Mark endpoint as unhealthy
-        rpcConfigService.updateEndpointHealth('solana', currentUrl, false);
+        rpcConfigService.updateEndpointHealth('solana', currentUrl, false, Date.now() - startedAt, classifyRpcError(error));
 
         // If this is the last attempt, don't try to reconnect
         if (attempt === this.maxRetries) {
@@ -0,0 +1,183 @@
+/**
+ * CexHttpClient
+ *
+ * Thin fetch wrapper shared by the exchange connectors. Every request waits
+ * for the exchange's rate limiter, is signed afresh on each attempt (nonces
+ * and timestamps must not be reused) and is retried with backoff when the
+ * exchange throttles or has a server error.
+ */
+
+import { DomainError, ExternalServiceError, NetworkError, TimeoutError } from '../../domain/shared/DomainError';
+import { RateLimiter, type RateLimit } from './RateLimiter';
+
+export interface CexRequest {
+  /** Path including query string, appended to the base URL */
+  path: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export interface CexHttpClientOptions {
+  service: string;
+  baseUrl: string;
+  rateLimit: RateLimit;
+  maxRetries?: number;
+  timeoutMs?: number;
+  /** Base delay for exponential backoff when the response has no Retry-After */
+  backoffMs?: number;
+  /** Detect throttling reported in a 200 response body (Kraken) */
+  isRateLimited?: (body: unknown) => boolean;
+  fetchImpl?: typeof fetch;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_BACKOFF_MS = 1000;
+const MAX_RETRY_AFTER_MS = 60000;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (header === null) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.min(Math.max(0, date - Date.now()), MAX_RETRY_AFTER_MS);
+}
+
+function describeError(body: unknown): string | null {
+  if (typeof body === 'string') return body.slice(0, 200) || null;
+  if (body && typeof body === 'object') {
+    const record = body as Record<string, unknown>;
+    const message = record.message ?? record.msg ?? record.reason ?? record.error;
+    if (Array.isArray(message)) return message.join(', ') || null;
+    if (typeof message === 'string') return message;
+  }
+  return null;
+}
+
+export class CexHttpClient {
+  private readonly options: CexHttpClientOptions;
+  private readonly limiter: RateLimiter;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: CexHttpClientOptions) {
+    this.options = options;
+    this.limiter = new RateLimiter(options.rateLimit);
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Send a request built by `build`, which is called again for every retry
+   */
+  async request<T>(build: () => Promise<CexRequest>, signal?: AbortSignal): Promise<T> {
+    const { service, baseUrl } = this.options;
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const backoffMs = this.options.backoffMs ?? DEFAULT_BACKOFF_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.acquire();
+      signal?.throwIfAborted();
+      const request = await build();
+
+      let response: Response;
+      let body: unknown;
+      try {
+        response = await this.send(request, signal);
+        const text = await response.text();
+        try {
+          body = text ? JSON.parse(text) : null;
+        } catch {
+          body = text;
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        if (attempt < maxRetries) {
+          await sleep(backoffMs * 2 ** attempt, signal);
+          continue;
+        }
+        if (error instanceof TimeoutError) throw error;
+        throw new NetworkError(`${service} ${request.path}`, (error as Error).message, baseUrl);
+      }
+
+      const throttled = response.status === 429 || response.status === 418
+        || (response.ok && !!this.options.isRateLimited?.(body));
+      if (throttled) this.limiter.drain();
+
+      if ((throttled || response.status >= 500) && attempt < maxRetries) {
+        await sleep(retryAfterMs(response) ?? backoffMs * 2 ** attempt, signal);
+        continue;
+      }
+
+      if (!response.ok || throttled) {
+        throw new ExternalServiceError(
+          service,
+          'fetch balances',
+          describeError(body) ?? `HTTP ${response.status}`,
+          undefined,
+          throttled ? 429 : response.status
+        );
+      }
+
+      return body as T;
+    }
+  }
+
+  private async send(request: CexRequest, signal?: AbortSignal): Promise<Response> {
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await this.fetchImpl(`${this.options.baseUrl}${request.path}`, {
+        method: request.method ?? 'GET',
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(`${this.options.service} ${request.path}`, timeoutMs);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/** Options shared by all exchange connectors; overrides are mainly for tests and proxies */
+export interface CexConnectorOptions {
+  baseUrl?: string;
+  rateLimit?: RateLimit;
+  backoffMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Normalize anything thrown while talking to an exchange into a DomainError
+ */
+export function toCexError(service: string, error: unknown): DomainError {
+  if (error instanceof DomainError) return error;
+  return new ExternalServiceError(
+    service,
+    'fetch balances',
+    error instanceof Error ? error.message : String(error),
+    error instanceof Error ? error : undefined
+  );
+}
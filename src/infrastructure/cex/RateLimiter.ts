@@ -0,0 +1,58 @@
+/**
+ * RateLimiter
+ *
+ * Token bucket shared by every request to one exchange. Bursts up to
+ * `capacity` requests, then one request per `refillIntervalMs`.
+ */
+
+export interface RateLimit {
+  capacity: number;
+  refillIntervalMs: number;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly limit: RateLimit;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+    this.tokens = limit.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Resolve once a request may be sent; callers are served in order
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  /**
+   * Empty the bucket after the exchange reports throttling
+   */
+  drain(): void {
+    this.refill();
+    this.tokens = 0;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = (1 - this.tokens) * this.limit.refillIntervalMs;
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const earned = (now - this.lastRefill) / this.limit.refillIntervalMs;
+    this.tokens = Math.min(this.limit.capacity, this.tokens + earned);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,366 @@
+import { describe, it, expect, afterEach, beforeAll, vi } from 'vitest';
+import { CoinbaseConnector } from '../connectors/CoinbaseConnector';
+import { KrakenConnector, normalizeKrakenAsset } from '../connectors/KrakenConnector';
+import { BinanceConnector } from '../connectors/BinanceConnector';
+import { GeminiConnector } from '../connectors/GeminiConnector';
+import { fetchExchangeAssets } from '../fetchExchangeAssets';
+import type { Account } from '../../../store/useStore';
+import { startMockExchange, type MockExchangeServer, type MockRequest } from './mockExchangeServer';
+
+// The mock server verifies signatures independently with WebCrypto, as the exchange would
+const subtle = globalThis.crypto.subtle;
+const encoder = new TextEncoder();
+
+let server: MockExchangeServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+function header(request: MockRequest, name: string): string {
+  return String(request.headers[name.toLowerCase()] ?? '');
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function encodeBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function decodeBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function hmacDigest(hash: string, key: string | Uint8Array<ArrayBuffer>, message: string | Uint8Array<ArrayBuffer>) {
+  const cryptoKey = await subtle.importKey(
+    'raw',
+    typeof key === 'string' ? encoder.encode(key) : key,
+    { name: 'HMAC', hash },
+    false,
+    ['sign']
+  );
+  return subtle.sign('HMAC', cryptoKey, typeof message === 'string' ? encoder.encode(message) : message);
+}
+
+function assertSignature(expected: string, actual: string) {
+  if (expected !== actual) throw new Error('Invalid signature');
+}
+
+function toPem(label: string, der: Uint8Array): string {
+  const lines = encodeBase64(der).match(/.{1,64}/g)!.join('\n');
+  return `-----BEGIN ${label}-----\n${lines}\n-----END ${label}-----\n`;
+}
+
+describe('CoinbaseConnector', () => {
+  const apiKey = 'organizations/org-1/apiKeys/key-1';
+  let keyPair: CryptoKeyPair;
+  let pkcs8Secret: string;
+  let sec1Secret: string;
+
+  beforeAll(async () => {
+    keyPair = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const pkcs8 = new Uint8Array(await subtle.exportKey('pkcs8', keyPair.privateKey));
+    pkcs8Secret = toPem('PRIVATE KEY', pkcs8);
+    // A P-256 PKCS#8 key carries its SEC1 structure in an OCTET STRING at byte 27
+    expect(pkcs8[27]).toBe(0x04);
+    sec1Secret = toPem('EC PRIVATE KEY', pkcs8.slice(29, 29 + pkcs8[28]));
+  });
+
+  async function verifyJwt(request: MockRequest) {
+    const [encodedHeader, encodedPayload, signature] = header(request, 'Authorization').replace('Bearer ', '').split('.');
+    const valid = await subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      keyPair.publicKey,
+      decodeBase64(signature),
+      encoder.encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) throw new Error('Invalid signature');
+
+    const decode = (part: string) => JSON.parse(new TextDecoder().decode(decodeBase64(part)));
+    expect(decode(encodedHeader)).toMatchObject({ alg: 'ES256', kid: apiKey });
+    expect(decode(encodedPayload)).toMatchObject({
+      iss: 'cdp',
+      sub: apiKey,
+      uri: 'GET api.coinbase.com/api/v3/brokerage/accounts',
+    });
+  }
+
+  it('signs a JWT per request and follows the cursor across pages', async () => {
+    server = await startMockExchange(async request => {
+      await verifyJwt(request);
+      return request.query.get('cursor') === 'page-2'
+        ? {
+            body: {
+              accounts: [{ currency: 'ETH', available_balance: { value: '1.5' }, hold: { value: '0.5' } }],
+              has_next: false,
+            },
+          }
+        : {
+            body: {
+              accounts: [
+                { currency: 'BTC', available_balance: { value: '0.25' }, hold: { value: '0' } },
+                { currency: 'DOGE', available_balance: { value: '0' }, hold: { value: '0' } },
+              ],
+              has_next: true,
+              cursor: 'page-2',
+            },
+          };
+    });
+
+    const connector = new CoinbaseConnector({ baseUrl: server.url });
+    const result = await connector.fetchBalances({ apiKey, apiSecret: sec1Secret });
+
+    expect(result.isSuccess).toBe(true);
+    expect(result.value).toEqual([
+      { symbol: 'BTC', amount: '0.25' },
+      { symbol: 'ETH', amount: '2' },
+    ]);
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests[0].query.get('limit')).toBe('250');
+  });
+
+  it('accepts PKCS#8 keys and keys pasted with escaped newlines', async () => {
+    server = await startMockExchange(async request => {
+      await verifyJwt(request);
+      return { body: { accounts: [{ currency: 'SOL', available_balance: { value: '3' } }], has_next: false } };
+    });
+
+    const connector = new CoinbaseConnector({ baseUrl: server.url });
+    const pkcs8 = await connector.fetchBalances({ apiKey, apiSecret: pkcs8Secret });
+    const escaped = await connector.fetchBalances({ apiKey, apiSecret: sec1Secret.replace(/\n/g, '\\n') });
+
+    expect(pkcs8.value).toEqual([{ symbol: 'SOL', amount: '3' }]);
+    expect(escaped.value).toEqual([{ symbol: 'SOL', amount: '3' }]);
+  });
+
+  it('rejects a secret that is not an EC private key', async () => {
+    const connector = new CoinbaseConnector({ baseUrl: 'http://127.0.0.1:1' });
+    const result = await connector.fetchBalances({ apiKey, apiSecret: 'not-a-key' });
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.message).toContain('PEM');
+  });
+});
+
+describe('KrakenConnector', () => {
+  const apiKey = 'kraken-key';
+  const apiSecret = encodeBase64(globalThis.crypto.getRandomValues(new Uint8Array(64)));
+
+  async function verifySignature(request: MockRequest) {
+    const nonce = new URLSearchParams(request.body).get('nonce')!;
+    const digest = new Uint8Array(await subtle.digest('SHA-256', encoder.encode(nonce + request.body)));
+    const path = encoder.encode(request.path);
+    const message = new Uint8Array(path.length + digest.length);
+    message.set(path);
+    message.set(digest, path.length);
+    const expected = encodeBase64(await hmacDigest('SHA-512', decodeBase64(apiSecret), message));
+    assertSignature(expected, header(request, 'API-Sign'));
+    expect(header(request, 'API-Key')).toBe(apiKey);
+  }
+
+  it('normalizes legacy asset codes and merges staked balances', async () => {
+    server = await startMockExchange(async request => {
+      await verifySignature(request);
+      return {
+        body: {
+          error: [],
+          result: { XXBT: '0.1', XETH: '1.0', 'ETH2.S': '2.0', 'DOT.S': '10', ZUSD: '150.25', ZEUR: '0.0000' },
+        },
+      };
+    });
+
+    const connector = new KrakenConnector({ baseUrl: server.url });
+    const result = await connector.fetchBalances({ apiKey, apiSecret });
+
+    expect(result.value).toEqual([
+      { symbol: 'BTC', amount: '0.1' },
+      { symbol: 'ETH', amount: '3' },
+      { symbol: 'DOT', amount: '10' },
+      { symbol: 'USD', amount: '150.25' },
+    ]);
+  });
+
+  it('backs off and retries when Kraken reports a rate limit in the body', async () => {
+    let calls = 0;
+    server = await startMockExchange(async request => {
+      await verifySignature(request);
+      calls++;
+      return calls === 1
+        ? { body: { error: ['EAPI:Rate limit exceeded'] } }
+        : { body: { error: [], result: { XXBT: '1' } } };
+    });
+
+    const connector = new KrakenConnector({ baseUrl: server.url, backoffMs: 1, rateLimit: { capacity: 15, refillIntervalMs: 10 } });
+    const result = await connector.fetchBalances({ apiKey, apiSecret });
+
+    expect(result.value).toEqual([{ symbol: 'BTC', amount: '1' }]);
+    // A fresh nonce is signed for the retry
+    const [first, second] = server.requests.map(r => new URLSearchParams(r.body).get('nonce'));
+    expect(Number(second)).toBeGreaterThan(Number(first));
+  });
+
+  it('surfaces API errors as failures', async () => {
+    server = await startMockExchange(() => ({ body: { error: ['EAPI:Invalid key'] } }));
+
+    const result = await new KrakenConnector({ baseUrl: server.url }).fetchBalances({ apiKey, apiSecret });
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.message).toBe('EAPI:Invalid key');
+  });
+
+  it('maps asset codes', () => {
+    expect(normalizeKrakenAsset('XXDG')).toBe('DOGE');
+    expect(normalizeKrakenAsset('USDC.F')).toBe('USDC');
+    expect(normalizeKrakenAsset('SOL')).toBe('SOL');
+  });
+});
+
+describe('BinanceConnector', () => {
+  const apiKey = 'binance-key';
+  const apiSecret = 'binance-secret';
+
+  async function verifySignature(request: MockRequest) {
+    const query = new URLSearchParams(request.query);
+    const signature = query.get('signature')!;
+    query.delete('signature');
+    assertSignature(toHex(await hmacDigest('SHA-256', apiSecret, query.toString())), signature);
+    expect(header(request, 'X-MBX-APIKEY')).toBe(apiKey);
+  }
+
+  it('combines spot and paginated Simple Earn balances without double counting', async () => {
+    const earnRows = Array.from({ length: 101 }, (_, i) => ({
+      asset: i === 0 ? 'USDT' : `TKN${i}`,
+      totalAmount: i === 0 ? '500' : '1',
+    }));
+
+    server = await startMockExchange(async request => {
+      await verifySignature(request);
+      if (request.path === '/api/v3/account') {
+        expect(request.query.get('omitZeroBalances')).toBe('true');
+        return {
+          body: {
+            balances: [
+              { asset: 'BTC', free: '0.5', locked: '0.1' },
+              { asset: 'USDT', free: '20', locked: '0' },
+              { asset: 'LDUSDT', free: '500', locked: '0' },
+              { asset: 'LDO', free: '3', locked: '0' },
+            ],
+          },
+        };
+      }
+      const page = Number(request.query.get('current'));
+      const size = Number(request.query.get('size'));
+      return { body: { rows: earnRows.slice((page - 1) * size, page * size), total: earnRows.length } };
+    });
+
+    const connector = new BinanceConnector({ baseUrl: server.url });
+    const result = await connector.fetchBalances({ apiKey, apiSecret });
+
+    const balances = Object.fromEntries(result.value.map(b => [b.symbol, b.amount]));
+    expect(balances.BTC).toBe('0.6');
+    expect(balances.USDT).toBe('520');
+    expect(balances.LDO).toBe('3');
+    expect(balances.LDUSDT).toBeUndefined();
+    expect(balances.TKN100).toBe('1');
+    expect(server.requests.filter(r => r.path.includes('simple-earn'))).toHaveLength(2);
+  });
+
+  it('honours Retry-After on HTTP 429', async () => {
+    let accountCalls = 0;
+    server = await startMockExchange(request => {
+      if (request.path === '/api/v3/account') {
+        accountCalls++;
+        return accountCalls === 1
+          ? { status: 429, headers: { 'Retry-After': '0' }, body: { code: -1003, msg: 'Too many requests' } }
+          : { body: { balances: [{ asset: 'ETH', free: '1', locked: '0' }] } };
+      }
+      return { status: 403, body: { code: -2015, msg: 'Permission denied' } };
+    });
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const connector = new BinanceConnector({ baseUrl: server.url, backoffMs: 1 });
+    const result = await connector.fetchBalances({ apiKey, apiSecret });
+    warn.mockRestore();
+
+    // Earn is optional: a key without that permission still yields spot balances
+    expect(result.value).toEqual([{ symbol: 'ETH', amount: '1' }]);
+    expect(accountCalls).toBe(2);
+  });
+
+  it('does not retry client errors', async () => {
+    server = await startMockExchange(() => ({ status: 401, body: { code: -2014, msg: 'API-key format invalid.' } }));
+
+    const result = await new BinanceConnector({ baseUrl: server.url }).fetchBalances({ apiKey, apiSecret });
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.message).toBe('API-key format invalid.');
+    expect(result.error.details?.statusCode).toBe(401);
+    expect(server.requests).toHaveLength(1);
+  });
+});
+
+describe('GeminiConnector', () => {
+  it('signs the base64 payload with HMAC-SHA384', async () => {
+    const apiKey = 'account-abc';
+    const apiSecret = 'gemini-secret';
+
+    server = await startMockExchange(async request => {
+      const payload = header(request, 'X-GEMINI-PAYLOAD');
+      assertSignature(toHex(await hmacDigest('SHA-384', apiSecret, payload)), header(request, 'X-GEMINI-SIGNATURE'));
+      expect(JSON.parse(atob(payload))).toMatchObject({ request: '/v1/balances' });
+      return {
+        body: [
+          { currency: 'btc', amount: '0.75', available: '0.5' },
+          { currency: 'USD', amount: '1000.5', available: '1000.5' },
+          { currency: 'ETH', amount: '0', available: '0' },
+        ],
+      };
+    });
+
+    const result = await new GeminiConnector({ baseUrl: server.url }).fetchBalances({ apiKey, apiSecret });
+
+    expect(result.value).toEqual([
+      { symbol: 'BTC', amount: '0.75' },
+      { symbol: 'USD', amount: '1000.5' },
+    ]);
+  });
+});
+
+describe('fetchExchangeAssets', () => {
+  const account: Account = {
+    id: 'cex-gemini-1',
+    type: 'cex',
+    platform: 'Gemini',
+    label: 'Gemini',
+    apiKey: 'key',
+    apiSecret: 'secret',
+    status: 'connected',
+  };
+
+  it('produces unpriced asset rows, except USD cash', async () => {
+    server = await startMockExchange(() => ({
+      body: [
+        { currency: 'BTC', amount: '0.5' },
+        { currency: 'USD', amount: '250' },
+      ],
+    }));
+
+    const result = await fetchExchangeAssets(account, undefined, new GeminiConnector({ baseUrl: server.url }));
+
+    expect(result.value).toEqual([
+      expect.objectContaining({ id: 'cex-gemini-1-BTC-Gemini', symbol: 'BTC', chain: 'Gemini', priceUsd: null, valueUsd: null }),
+      expect.objectContaining({ symbol: 'USD', balance: '250', priceUsd: 1, valueUsd: 250 }),
+    ]);
+  });
+
+  it('fails without credentials, as when the vault is locked', async () => {
+    const result = await fetchExchangeAssets({ ...account, apiKey: undefined, apiSecret: undefined });
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.code).toBe('CEX_CREDENTIALS_UNAVAILABLE');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Local HTTP server standing in for an exchange API. Handlers see the raw
+ * request so tests can verify signatures the way the exchange would.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockExchangeServer {
+  url: string;
+  requests: MockRequest[];
+  close: () => Promise<void>;
+}
+
+export async function startMockExchange(
+  handler: (request: MockRequest) => MockResponse | Promise<MockResponse>
+): Promise<MockExchangeServer> {
+  const requests: MockRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const request: MockRequest = {
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body,
+      };
+      requests.push(request);
+
+      let response: MockResponse;
+      try {
+        response = await handler(request);
+      } catch (error) {
+        response = { status: 401, body: { message: (error as Error).message } };
+      }
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * BinanceConnector
+ *
+ * Reads spot balances plus Simple Earn flexible positions. SIGNED endpoints
+ * take an HMAC-SHA256 hex signature of the query string. Earn positions are
+ * paginated; they are optional, since read-only keys may lack the permission.
+ */
+
+import { Result } from '../../../domain/shared/Result';
+import type { DomainError } from '../../../domain/shared/DomainError';
+import {
+  mergeCexBalances,
+  type CexBalance,
+  type CexConnector,
+  type CexCredentials,
+} from '../../../domain/cex/CexConnector';
+import { CexHttpClient, toCexError, type CexConnectorOptions } from '../CexHttpClient';
+import { hmac, toHex } from '../signing';
+
+const ACCOUNT_PATH = '/api/v3/account';
+const FLEXIBLE_EARN_PATH = '/sapi/v1/simple-earn/flexible/position';
+const EARN_PAGE_SIZE = 100;
+const MAX_EARN_PAGES = 20;
+const RECV_WINDOW_MS = 10000;
+
+interface BinanceAccountResponse {
+  balances: Array<{ asset: string; free: string; locked: string }>;
+}
+
+interface BinanceEarnResponse {
+  rows: Array<{ asset: string; totalAmount: string }>;
+  total: number;
+}
+
+export class BinanceConnector implements CexConnector {
+  readonly platform = 'Binance';
+
+  private http: CexHttpClient;
+
+  constructor(options: CexConnectorOptions = {}) {
+    this.http = new CexHttpClient({
+      service: this.platform,
+      baseUrl: options.baseUrl ?? 'https://api.binance.com',
+      // Well under the 6,000 request-weight per minute budget
+      rateLimit: options.rateLimit ?? { capacity: 10, refillIntervalMs: 200 },
+      backoffMs: options.backoffMs,
+      fetchImpl: options.fetchImpl,
+    });
+  }
+
+  async fetchBalances(credentials: CexCredentials, signal?: AbortSignal): Promise<Result<CexBalance[], DomainError>> {
+    try {
+      const account = await this.signedGet<BinanceAccountResponse>(
+        ACCOUNT_PATH,
+        { omitZeroBalances: 'true' },
+        credentials,
+        signal
+      );
+      const earn = await this.fetchFlexibleEarn(credentials, signal);
+
+      // Flexible earn holdings also appear in spot as LD-prefixed receipt tokens
+      const earnAssets = new Set(earn.map(balance => balance.symbol));
+      const spot = account.balances
+        .filter(balance => !(balance.asset.startsWith('LD') && earnAssets.has(balance.asset.slice(2))))
+        .flatMap(balance => [
+          { symbol: balance.asset, amount: balance.free },
+          { symbol: balance.asset, amount: balance.locked },
+        ]);
+
+      return Result.success(mergeCexBalances([...spot, ...earn]));
+    } catch (error) {
+      return Result.failure(toCexError(this.platform, error));
+    }
+  }
+
+  /**
+   * Page through Simple Earn flexible positions; returns nothing when the key
+   * is not allowed to read them
+   */
+  private async fetchFlexibleEarn(credentials: CexCredentials, signal?: AbortSignal): Promise<CexBalance[]> {
+    const balances: CexBalance[] = [];
+    try {
+      for (let page = 1; page <= MAX_EARN_PAGES; page++) {
+        const response = await this.signedGet<BinanceEarnResponse>(
+          FLEXIBLE_EARN_PATH,
+          { current: String(page), size: String(EARN_PAGE_SIZE) },
+          credentials,
+          signal
+        );
+        balances.push(...response.rows.map(row => ({ symbol: row.asset, amount: row.totalAmount })));
+        if (response.rows.length < EARN_PAGE_SIZE || page * EARN_PAGE_SIZE >= response.total) break;
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('[BinanceConnector] Skipping Simple Earn positions:', error);
+      return [];
+    }
+    return balances;
+  }
+
+  private signedGet<T>(
+    path: string,
+    params: Record<string, string>,
+    { apiKey, apiSecret }: CexCredentials,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return this.http.request<T>(async () => {
+      const query = new URLSearchParams({
+        ...params,
+        recvWindow: String(RECV_WINDOW_MS),
+        timestamp: String(Date.now()),
+      }).toString();
+      const signature = toHex(await hmac('SHA-256', apiSecret, query));
+      return {
+        path: `${path}?${query}&signature=${signature}`,
+        headers: { 'X-MBX-APIKEY': apiKey },
+      };
+    }, signal);
+  }
+}
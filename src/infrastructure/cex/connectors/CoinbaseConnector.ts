@@ -0,0 +1,92 @@
+/**
+ * CoinbaseConnector
+ *
+ * Reads balances through the Coinbase Advanced Trade API using a CDP API key.
+ * Requests are authenticated with a short-lived ES256 JWT signed by the key's
+ * EC private key; the account list is paginated with an opaque cursor.
+ */
+
+import { Result } from '../../../domain/shared/Result';
+import type { DomainError } from '../../../domain/shared/DomainError';
+import {
+  mergeCexBalances,
+  type CexBalance,
+  type CexConnector,
+  type CexCredentials,
+} from '../../../domain/cex/CexConnector';
+import { CexHttpClient, toCexError, type CexConnectorOptions } from '../CexHttpClient';
+import { importEcPrivateKey, randomHex, signEs256Jwt } from '../signing';
+
+export const COINBASE_API_HOST = 'api.coinbase.com';
+
+const ACCOUNTS_PATH = '/api/v3/brokerage/accounts';
+const PAGE_SIZE = 250;
+const MAX_PAGES = 20;
+const JWT_LIFETIME_SECONDS = 120;
+
+interface CoinbaseAccountsResponse {
+  accounts: Array<{
+    currency: string;
+    available_balance: { value: string };
+    hold?: { value: string };
+  }>;
+  has_next: boolean;
+  cursor?: string;
+}
+
+export class CoinbaseConnector implements CexConnector {
+  readonly platform = 'Coinbase';
+
+  private http: CexHttpClient;
+
+  constructor(options: CexConnectorOptions = {}) {
+    this.http = new CexHttpClient({
+      service: this.platform,
+      baseUrl: options.baseUrl ?? `https://${COINBASE_API_HOST}`,
+      // Private endpoints allow 30 requests per second
+      rateLimit: options.rateLimit ?? { capacity: 10, refillIntervalMs: 100 },
+      backoffMs: options.backoffMs,
+      fetchImpl: options.fetchImpl,
+    });
+  }
+
+  async fetchBalances({ apiKey, apiSecret }: CexCredentials, signal?: AbortSignal): Promise<Result<CexBalance[], DomainError>> {
+    try {
+      const key = await importEcPrivateKey(apiSecret);
+      const balances: CexBalance[] = [];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const query = `?limit=${PAGE_SIZE}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
+        const response = await this.http.request<CoinbaseAccountsResponse>(async () => {
+          const now = Math.floor(Date.now() / 1000);
+          const token = await signEs256Jwt(
+            key,
+            { kid: apiKey, nonce: randomHex(16) },
+            {
+              iss: 'cdp',
+              sub: apiKey,
+              nbf: now,
+              exp: now + JWT_LIFETIME_SECONDS,
+              // The signed URI never includes the query string
+              uri: `GET ${COINBASE_API_HOST}${ACCOUNTS_PATH}`,
+            }
+          );
+          return { path: `${ACCOUNTS_PATH}${query}`, headers: { Authorization: `Bearer ${token}` } };
+        }, signal);
+
+        for (const account of response.accounts) {
+          balances.push({ symbol: account.currency, amount: account.available_balance.value });
+          if (account.hold) balances.push({ symbol: account.currency, amount: account.hold.value });
+        }
+
+        if (!response.has_next || !response.cursor) break;
+        cursor = response.cursor;
+      }
+
+      return Result.success(mergeCexBalances(balances));
+    } catch (error) {
+      return Result.failure(toCexError(this.platform, error));
+    }
+  }
+}
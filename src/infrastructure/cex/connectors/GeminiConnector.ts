@@ -0,0 +1,68 @@
+/**
+ * GeminiConnector
+ *
+ * Reads balances from Gemini's private balances endpoint. The request is a
+ * base64 JSON payload carried in a header and signed with HMAC-SHA384.
+ */
+
+import { Result } from '../../../domain/shared/Result';
+import type { DomainError } from '../../../domain/shared/DomainError';
+import {
+  mergeCexBalances,
+  type CexBalance,
+  type CexConnector,
+  type CexCredentials,
+} from '../../../domain/cex/CexConnector';
+import { toBase64 } from '../../vault/VaultCrypto';
+import { CexHttpClient, toCexError, type CexConnectorOptions } from '../CexHttpClient';
+import { createNonceGenerator, hmac, toHex } from '../signing';
+
+const BALANCES_PATH = '/v1/balances';
+
+type GeminiBalancesResponse = Array<{ currency: string; amount: string }>;
+
+export class GeminiConnector implements CexConnector {
+  readonly platform = 'Gemini';
+
+  private http: CexHttpClient;
+  private nextNonce = createNonceGenerator();
+
+  constructor(options: CexConnectorOptions = {}) {
+    this.http = new CexHttpClient({
+      service: this.platform,
+      baseUrl: options.baseUrl ?? 'https://api.gemini.com',
+      // Private endpoints allow 600 requests per minute, no more than 5 per second
+      rateLimit: options.rateLimit ?? { capacity: 5, refillIntervalMs: 200 },
+      backoffMs: options.backoffMs,
+      fetchImpl: options.fetchImpl,
+    });
+  }
+
+  async fetchBalances({ apiKey, apiSecret }: CexCredentials, signal?: AbortSignal): Promise<Result<CexBalance[], DomainError>> {
+    try {
+      const response = await this.http.request<GeminiBalancesResponse>(async () => {
+        const payload = toBase64(new TextEncoder().encode(JSON.stringify({
+          request: BALANCES_PATH,
+          nonce: String(this.nextNonce()),
+        })));
+        return {
+          path: BALANCES_PATH,
+          method: 'POST',
+          headers: {
+            'Content-Type': 'text/plain',
+            'Cache-Control': 'no-cache',
+            'X-GEMINI-APIKEY': apiKey,
+            'X-GEMINI-PAYLOAD': payload,
+            'X-GEMINI-SIGNATURE': toHex(await hmac('SHA-384', apiSecret, payload)),
+          },
+        };
+      }, signal);
+
+      return Result.success(mergeCexBalances(
+        response.map(balance => ({ symbol: balance.currency.toUpperCase(), amount: balance.amount }))
+      ));
+    } catch (error) {
+      return Result.failure(toCexError(this.platform, error));
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * KrakenConnector
+ *
+ * Reads balances from Kraken's private Balance endpoint. Requests are signed
+ * with HMAC-SHA512 over the path and SHA-256 of nonce plus POST data. Kraken
+ * reports throttling inside a 200 response, and uses legacy X/Z-prefixed
+ * asset codes plus suffixes for staked and earn balances.
+ */
+
+import { Result } from '../../../domain/shared/Result';
+import { ExternalServiceError, type DomainError } from '../../../domain/shared/DomainError';
+import {
+  mergeCexBalances,
+  type CexBalance,
+  type CexConnector,
+  type CexCredentials,
+} from '../../../domain/cex/CexConnector';
+import { fromBase64, toBase64 } from '../../vault/VaultCrypto';
+import { CexHttpClient, toCexError, type CexConnectorOptions } from '../CexHttpClient';
+import { concatBytes, createNonceGenerator, hmac, sha256 } from '../signing';
+
+const BALANCE_PATH = '/0/private/Balance';
+
+const RATE_LIMIT_ERRORS = ['EAPI:Rate limit exceeded', 'EGeneral:Too many requests'];
+
+/** Kraken's legacy asset codes mapped to common tickers */
+const KRAKEN_ASSET_ALIASES: Record<string, string> = {
+  XXBT: 'BTC',
+  XBT: 'BTC',
+  XETH: 'ETH',
+  ETH2: 'ETH',
+  XXDG: 'DOGE',
+  XDG: 'DOGE',
+  XLTC: 'LTC',
+  XXRP: 'XRP',
+  XXLM: 'XLM',
+  XXMR: 'XMR',
+  XETC: 'ETC',
+  XZEC: 'ZEC',
+  XMLN: 'MLN',
+  XREP: 'REP',
+  ZUSD: 'USD',
+  ZEUR: 'EUR',
+  ZGBP: 'GBP',
+  ZCAD: 'CAD',
+  ZJPY: 'JPY',
+  ZAUD: 'AUD',
+  ZCHF: 'CHF',
+};
+
+interface KrakenResponse<T> {
+  error: string[];
+  result?: T;
+}
+
+/**
+ * Map a Kraken asset code to a common ticker. Suffixes such as ".S" (staked),
+ * ".F" (auto-earn) or ".B" (yield-bearing) denote the same underlying asset.
+ */
+export function normalizeKrakenAsset(code: string): string {
+  const base = code.split('.')[0];
+  return KRAKEN_ASSET_ALIASES[base] ?? base;
+}
+
+export class KrakenConnector implements CexConnector {
+  readonly platform = 'Kraken';
+
+  private http: CexHttpClient;
+  private nextNonce = createNonceGenerator();
+
+  constructor(options: CexConnectorOptions = {}) {
+    this.http = new CexHttpClient({
+      service: this.platform,
+      baseUrl: options.baseUrl ?? 'https://api.kraken.com',
+      // Starter tier: a counter of 15 that decays by one every three seconds
+      rateLimit: options.rateLimit ?? { capacity: 15, refillIntervalMs: 3000 },
+      backoffMs: options.backoffMs,
+      isRateLimited: (body) =>
+        ((body as KrakenResponse<unknown>)?.error ?? []).some(error => RATE_LIMIT_ERRORS.includes(error)),
+      fetchImpl: options.fetchImpl,
+    });
+  }
+
+  async fetchBalances({ apiKey, apiSecret }: CexCredentials, signal?: AbortSignal): Promise<Result<CexBalance[], DomainError>> {
+    try {
+      const secret = fromBase64(apiSecret.trim());
+      const response = await this.http.request<KrakenResponse<Record<string, string>>>(async () => {
+        const nonce = this.nextNonce().toString();
+        const postData = `nonce=${nonce}`;
+        const digest = await sha256(nonce + postData);
+        const signature = await hmac('SHA-512', secret, concatBytes(new TextEncoder().encode(BALANCE_PATH), digest));
+        return {
+          path: BALANCE_PATH,
+          method: 'POST',
+          headers: {
+            'API-Key': apiKey,
+            'API-Sign': toBase64(signature),
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: postData,
+        };
+      }, signal);
+
+      if (response.error.length > 0) {
+        throw new ExternalServiceError(this.platform, 'fetch balances', response.error.join(', '));
+      }
+
+      const balances = Object.entries(response.result ?? {}).map(([code, amount]) => ({
+        symbol: normalizeKrakenAsset(code),
+        amount,
+      }));
+      return Result.success(mergeCexBalances(balances));
+    } catch (error) {
+      return Result.failure(toCexError(this.platform, error));
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Builds exchange connectors. One connector is shared per exchange so every
+ * account on that exchange draws from the same rate limit.
+ *
+ * Most exchanges do not send CORS headers for private endpoints; when
+ * VITE_CEX_PROXY_URL is set, requests go to `${proxy}/${exchange}` instead.
+ */
+
+import type { CexConnector, CexPlatform } from '../../domain/cex/CexConnector';
+import type { CexConnectorOptions } from './CexHttpClient';
+import { BinanceConnector } from './connectors/BinanceConnector';
+import { CoinbaseConnector } from './connectors/CoinbaseConnector';
+import { GeminiConnector } from './connectors/GeminiConnector';
+import { KrakenConnector } from './connectors/KrakenConnector';
+
+export function createCexConnector(platform: CexPlatform, options: CexConnectorOptions = {}): CexConnector {
+  switch (platform) {
+    case 'Coinbase': return new CoinbaseConnector(options);
+    case 'Kraken': return new KrakenConnector(options);
+    case 'Binance': return new BinanceConnector(options);
+    case 'Gemini': return new GeminiConnector(options);
+  }
+}
+
+const _connectors = new Map<CexPlatform, CexConnector>();
+
+export function getCexConnector(platform: CexPlatform): CexConnector {
+  let connector = _connectors.get(platform);
+  if (!connector) {
+    const proxy = import.meta.env.VITE_CEX_PROXY_URL as string | undefined;
+    connector = createCexConnector(
+      platform,
+      proxy ? { baseUrl: `${proxy.replace(/\/$/, '')}/${platform.toLowerCase()}` } : {}
+    );
+    _connectors.set(platform, connector);
+  }
+  return connector;
+}
@@ -0,0 +1,44 @@
+/**
+ * Turns an exchange account's balances into Asset rows. Rows come back
+ * unpriced, like wallet assets, so they join the same price batch; only
+ * USD cash is priced here.
+ */
+
+import type { Account, Asset } from '../../store/useStore';
+import { Result } from '../../domain/shared/Result';
+import { ServiceError, type DomainError } from '../../domain/shared/DomainError';
+import { isCexPlatform, type CexConnector } from '../../domain/cex/CexConnector';
+import { getCexConnector } from './createCexConnector';
+
+export async function fetchExchangeAssets(
+  account: Account,
+  signal?: AbortSignal,
+  connector?: CexConnector
+): Promise<Result<Asset[], DomainError>> {
+  if (!isCexPlatform(account.platform)) {
+    return Result.failure(new ServiceError('CEX_UNSUPPORTED', `Unsupported exchange: ${account.platform}`));
+  }
+  if (!account.apiKey || !account.apiSecret) {
+    return Result.failure(new ServiceError(
+      'CEX_CREDENTIALS_UNAVAILABLE',
+      `API credentials for ${account.label} are unavailable; unlock the vault to sync`
+    ));
+  }
+
+  const result = await (connector ?? getCexConnector(account.platform)).fetchBalances(
+    { apiKey: account.apiKey, apiSecret: account.apiSecret },
+    signal
+  );
+
+  return result.map(balances => balances.map(({ symbol, amount }) => ({
+    id: `${account.id}-${symbol}-${account.platform}`,
+    symbol,
+    name: symbol,
+    balance: amount,
+    source: account.label,
+    chain: account.platform,
+    accountId: account.id,
+    priceUsd: symbol === 'USD' ? 1 : null,
+    valueUsd: symbol === 'USD' ? parseFloat(amount) : null,
+  })));
+}
@@ -0,0 +1,115 @@
+/**
+ * Request signing helpers for exchange APIs, built on WebCrypto
+ */
+
+import { fromBase64, toBase64 } from '../vault/VaultCrypto';
+
+export type HmacHash = 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+const encoder = new TextEncoder();
+
+function toBytes(value: string | Bytes): Bytes {
+  return typeof value === 'string' ? encoder.encode(value) : value;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function sha256(message: string | Bytes): Promise<Bytes> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', toBytes(message)));
+}
+
+export async function hmac(hash: HmacHash, key: string | Bytes, message: string | Bytes): Promise<Bytes> {
+  const cryptoKey = await crypto.subtle.importKey('raw', toBytes(key), { name: 'HMAC', hash }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, toBytes(message)));
+}
+
+export function concatBytes(...parts: Uint8Array[]): Bytes {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// DER prefix wrapping a SEC1 P-256 key into PKCS#8: version 0 plus the
+// id-ecPublicKey / prime256v1 algorithm identifier
+const PKCS8_EC_P256_ALGORITHM = new Uint8Array([
+  0x02, 0x01, 0x00,
+  0x30, 0x13,
+  0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01,
+  0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07,
+]);
+
+function derLength(length: number): Uint8Array {
+  if (length < 0x80) return new Uint8Array([length]);
+  if (length < 0x100) return new Uint8Array([0x81, length]);
+  return new Uint8Array([0x82, length >> 8, length & 0xff]);
+}
+
+function derElement(tag: number, content: Uint8Array): Bytes {
+  return concatBytes(new Uint8Array([tag]), derLength(content.length), content);
+}
+
+/**
+ * Import a P-256 private key from PEM. Accepts PKCS#8 ("PRIVATE KEY") and
+ * SEC1 ("EC PRIVATE KEY"), the format exchanges usually hand out.
+ */
+export async function importEcPrivateKey(pem: string): Promise<CryptoKey> {
+  // Keys pasted from JSON downloads often carry literal "\n" sequences
+  const normalized = pem.replace(/\\n/g, '\n');
+  const match = normalized.match(/-----BEGIN (EC )?PRIVATE KEY-----([\s\S]+?)-----END (EC )?PRIVATE KEY-----/);
+  if (!match) {
+    throw new Error('API secret is not a PEM-encoded EC private key');
+  }
+
+  const der = fromBase64(match[2].replace(/\s+/g, ''));
+  const pkcs8 = match[1]
+    ? derElement(0x30, concatBytes(PKCS8_EC_P256_ALGORITHM, derElement(0x04, der)))
+    : der;
+
+  return crypto.subtle.importKey('pkcs8', pkcs8, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+}
+
+/**
+ * Sign a compact ES256 JWT. WebCrypto already emits the raw r||s signature
+ * format JWS expects.
+ */
+export async function signEs256Jwt(
+  key: CryptoKey,
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>
+): Promise<string> {
+  const encode = (part: Record<string, unknown>) => toBase64Url(encoder.encode(JSON.stringify(part)));
+  const signingInput = `${encode({ alg: 'ES256', typ: 'JWT', ...header })}.${encode(payload)}`;
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    encoder.encode(signingInput)
+  );
+  return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Strictly increasing millisecond nonces, safe for several requests in the same millisecond
+ */
+export function createNonceGenerator(): () => number {
+  let last = 0;
+  return () => {
+    last = Math.max(Date.now(), last + 1);
+    return last;
+  };
+}
+
+export function randomHex(bytes: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
@@ -0,0 +1,53 @@
+/**
+ * EvmClientProvider
+ *
+ * Supplies read-only viem clients for protocol adapters. Clients are built from
+ * the endpoints configured in the evm-integration ChainRegistry, so DeFi reads
+ * go through the same RPC fallback chain as balance syncing. Every request is
+ * recorded as endpoint telemetry.
+ */
+
+import { createPublicClient, fallback, http } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import type { ChainRegistry } from '@cygnus-wealth/evm-integration';
+import { findEvmNetwork } from '../../domain/chain/ChainRegistry';
+import { withRequestTelemetry } from '../rpc/requestTelemetry';
+
+/** Resolves a client for a chain id, or null when the chain is not configured */
+export type EvmClientProvider = (chainId: number) => PublicClient | null;
+
+const RPC_TIMEOUT_MS = 15_000;
+
+/** Multicall3 address on most chains; the chain registry lists the ones where it differs */
+export const MULTICALL3_ADDRESS: Address = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/** Multicall3 address on the given chain */
+export function multicall3Address(chainId: number): Address {
+  return (findEvmNetwork(chainId)?.network.multicall3 as Address | undefined) ?? MULTICALL3_ADDRESS;
+}
+
+/**
+ * Create a provider that lazily builds (and caches) one client per chain
+ * using the registry's HTTP endpoints.
+ */
+export function createRegistryClientProvider(
+  registry: InstanceType<typeof ChainRegistry>
+): EvmClientProvider {
+  const clients = new Map<number, PublicClient>();
+
+  return (chainId: number) => {
+    const cached = clients.get(chainId);
+    if (cached) return cached;
+
+    const urls = registry.getChainConfig(chainId)?.endpoints.http ?? [];
+    if (urls.length === 0) return null;
+
+    const client = createPublicClient({
+      transport: fallback(
+        urls.map(url => withRequestTelemetry(http(url, { batch: true, timeout: RPC_TIMEOUT_MS }), String(chainId), url))
+      ),
+    });
+    clients.set(chainId, client);
+    return client;
+  };
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { AaveV3Adapter, rayRateToApy } from '../protocols/AaveV3Adapter';
+import { CompoundV3Adapter, perSecondRateToApy } from '../protocols/CompoundV3Adapter';
+import { LidoAdapter } from '../protocols/LidoAdapter';
+import { UniswapV3Adapter, getPositionAmounts } from '../protocols/UniswapV3Adapter';
+import { createDeFiDiscoveryServiceWithClients } from '../createDeFiDiscoveryService';
+import { CHAINLINK_ETH_USD_FEEDS } from '../protocols/protocolUtils';
+import { getDeFiPositions } from '../../../domain/defi/DeFiPositionService';
+import { createFixtureClientProvider, loadFixture } from './fixtureClient';
+
+const aaveEthereum = loadFixture('aave-v3-ethereum');
+const compoundBase = loadFixture('compound-v3-base');
+const lidoEthereum = loadFixture('lido-ethereum');
+const lidoArbitrum = loadFixture('lido-arbitrum');
+const uniswapArbitrum = loadFixture('uniswap-v3-arbitrum');
+
+const WALLET = aaveEthereum.wallet;
+
+describe('AaveV3Adapter', () => {
+  it('reads supply and borrow positions with oracle values', async () => {
+    const adapter = new AaveV3Adapter(createFixtureClientProvider(aaveEthereum));
+
+    const { lendingPositions = [] } = await adapter.discoverPositions({ address: WALLET, chainId: 1 });
+
+    expect(lendingPositions).toHaveLength(2);
+    const [supply, borrow] = lendingPositions;
+
+    expect(supply.type).toBe('SUPPLY');
+    expect(supply.asset.symbol).toBe('USDC');
+    expect(supply.amount).toBe('5000');
+    expect(supply.value?.value).toBeCloseTo(5000);
+    expect(supply.apy).toBeCloseTo(rayRateToApy(5n * 10n ** 25n));
+    expect(supply.healthFactor).toBeCloseTo(2.6);
+    expect(supply.liquidationThreshold).toBe(78);
+
+    expect(borrow.type).toBe('BORROW');
+    expect(borrow.asset.symbol).toBe('WETH');
+    expect(borrow.amount).toBe('0.5');
+    expect(borrow.value?.value).toBeCloseTo(-1500);
+  });
+
+  it('only supports chains with a known market', () => {
+    const adapter = new AaveV3Adapter(() => null);
+    expect(adapter.supportsChain(1)).toBe(true);
+    expect(adapter.supportsChain(11155111)).toBe(false);
+  });
+});
+
+describe('CompoundV3Adapter', () => {
+  it('reads base supply and ETH-quoted collateral across markets', async () => {
+    const adapter = new CompoundV3Adapter(createFixtureClientProvider(compoundBase));
+
+    const { lendingPositions = [] } = await adapter.discoverPositions({ address: WALLET, chainId: 8453 });
+
+    expect(lendingPositions).toHaveLength(2);
+    const [supply, collateral] = lendingPositions;
+
+    expect(supply.asset.symbol).toBe('USDC');
+    expect(supply.amount).toBe('2500');
+    expect(supply.value?.value).toBeCloseTo(2500);
+    expect(supply.apy).toBeCloseTo(perSecondRateToApy(1268391679n));
+
+    // 1.2 cbETH at 1.1 ETH each, ETH at $3,000
+    expect(collateral.asset.symbol).toBe('cbETH');
+    expect(collateral.amount).toBe('1.2');
+    expect(collateral.value?.value).toBeCloseTo(3960);
+    expect(collateral.liquidationThreshold).toBeCloseTo(85);
+  });
+
+  it('leaves ETH-quoted positions unpriced instead of worthless', async () => {
+    const withoutFeed = {
+      ...compoundBase,
+      calls: compoundBase.calls.filter(call => call.to.toLowerCase() !== CHAINLINK_ETH_USD_FEEDS[8453].toLowerCase()),
+    };
+    const adapter = new CompoundV3Adapter(createFixtureClientProvider(withoutFeed));
+
+    const { lendingPositions = [] } = await adapter.discoverPositions({ address: WALLET, chainId: 8453 });
+
+    const [supply, collateral] = lendingPositions;
+    expect(supply.value?.value).toBeCloseTo(2500);
+    expect(collateral.amount).toBe('1.2');
+    expect(collateral.value).toBeUndefined();
+  });
+});
+
+describe('LidoAdapter', () => {
+  it('reports stETH and wstETH with the wstETH exchange rate applied', async () => {
+    const adapter = new LidoAdapter(createFixtureClientProvider(lidoEthereum));
+
+    const { stakedPositions = [] } = await adapter.discoverPositions({ address: WALLET, chainId: 1 });
+
+    expect(stakedPositions.map(p => p.asset.symbol)).toEqual(['stETH', 'wstETH']);
+    expect(stakedPositions[0].value?.value).toBeCloseTo(4500);
+    expect(stakedPositions[1].stakedAmount).toBe('2');
+    expect(stakedPositions[1].metadata?.ethAmount).toBe('2.4');
+    expect(stakedPositions[1].value?.value).toBeCloseTo(7200);
+  });
+
+  it('prices bridged wstETH on L2 using mainnet rate and price', async () => {
+    const adapter = new LidoAdapter(createFixtureClientProvider(lidoEthereum, lidoArbitrum));
+
+    const { stakedPositions = [] } = await adapter.discoverPositions({ address: WALLET, chainId: 42161 });
+
+    expect(stakedPositions).toHaveLength(1);
+    expect(stakedPositions[0].chain).toBe('ARBITRUM');
+    expect(stakedPositions[0].value?.value).toBeCloseTo(1800);
+  });
+
+  it('still reports amounts when mainnet pricing is unavailable', async () => {
+    const adapter = new LidoAdapter(createFixtureClientProvider(lidoArbitrum));
+
+    const { stakedPositions = [] } = await adapter.discoverPositions({ address: WALLET, chainId: 42161 });
+
+    expect(stakedPositions[0].stakedAmount).toBe('0.5');
+    expect(stakedPositions[0].value).toBeUndefined();
+  });
+});
+
+describe('UniswapV3Adapter', () => {
+  it('derives token amounts for open positions and skips closed ones', async () => {
+    const adapter = new UniswapV3Adapter(createFixtureClientProvider(uniswapArbitrum));
+
+    const { liquidityPositions = [] } = await adapter.discoverPositions({ address: WALLET, chainId: 42161 });
+
+    expect(liquidityPositions).toHaveLength(1);
+    const [position] = liquidityPositions;
+
+    expect(position.poolName).toBe('WETH/USDC 0.05%');
+    expect(position.metadata?.tokenId).toBe('101');
+    expect(position.metadata?.inRange).toBe(true);
+    expect(position.tokens.map(t => t.asset.symbol)).toEqual(['WETH', 'USDC']);
+    expect(Number(position.tokens[0].amount)).toBeGreaterThan(0);
+    expect(Number(position.tokens[1].amount)).toBeGreaterThan(0);
+  });
+
+  it('computes single-sided amounts outside the range', () => {
+    const sqrtPriceAtTick0 = 2n ** 96n;
+    const below = getPositionAmounts(10n ** 18n, sqrtPriceAtTick0, 0, 100, 200);
+    const above = getPositionAmounts(10n ** 18n, sqrtPriceAtTick0, 0, -200, -100);
+
+    expect(below.amount0).toBeGreaterThan(0);
+    expect(below.amount1).toBe(0);
+    expect(above.amount0).toBe(0);
+    expect(above.amount1).toBeGreaterThan(0);
+  });
+
+  it('splits liquidity symmetrically around the current price', () => {
+    const { amount0, amount1 } = getPositionAmounts(10n ** 18n, 2n ** 96n, 0, -1000, 1000);
+    // At price 1 a symmetric range holds roughly equal amounts of each token
+    expect(amount0 / amount1).toBeCloseTo(1, 1);
+  });
+});
+
+describe('DeFi discovery with all adapters', () => {
+  it('normalizes positions from every protocol on a chain', async () => {
+    const service = createDeFiDiscoveryServiceWithClients(
+      createFixtureClientProvider(lidoEthereum, lidoArbitrum, uniswapArbitrum)
+    );
+
+    const result = await service.discover([{ address: WALLET, chainId: 42161 }]);
+
+    expect(result.isSuccess).toBe(true);
+    const { data, failures } = result.value;
+    // Aave and Compound have no recorded calls for Arbitrum and fail in isolation
+    expect(failures.map(f => f.protocol).sort()).toEqual(['Aave V3', 'Compound V3']);
+
+    const positions = getDeFiPositions(data, 'on-chain');
+    expect(positions.map(p => p.protocol).sort()).toEqual(['Lido', 'Uniswap V3']);
+  });
+});
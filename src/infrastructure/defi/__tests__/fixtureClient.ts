@@ -0,0 +1,73 @@
+/**
+ * Replays recorded eth_call fixtures through a real viem client so adapters
+ * are exercised end-to-end (ABI encoding, decoding and math) without network.
+ * Any call missing from the fixture fails loudly.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createPublicClient, custom } from 'viem';
+import type { PublicClient } from 'viem';
+import type { EvmClientProvider } from '../EvmClientProvider';
+
+export interface RecordedCall {
+  to: string;
+  data: string;
+  result: string;
+}
+
+export interface RpcFixture {
+  description: string;
+  chainId: number;
+  wallet: string;
+  calls: RecordedCall[];
+}
+
+/**
+ * Load a recorded fixture from ./fixtures
+ */
+export function loadFixture(name: string): RpcFixture {
+  const filePath = path.resolve(__dirname, 'fixtures', `${name}.json`);
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RpcFixture;
+}
+
+export function createFixtureClient(fixture: RpcFixture): PublicClient {
+  const responses = new Map(
+    fixture.calls.map(call => [`${call.to.toLowerCase()}:${call.data}`, call.result])
+  );
+
+  return createPublicClient({
+    transport: custom({
+      async request({ method, params }: { method: string; params?: unknown }) {
+        if (method !== 'eth_call') {
+          throw new Error(`Unexpected RPC method in fixture replay: ${method}`);
+        }
+        const [{ to, data }] = params as [{ to: string; data: string }];
+        const result = responses.get(`${to.toLowerCase()}:${data}`);
+        if (result === undefined) {
+          throw new Error(`No recorded eth_call for ${to} ${data.slice(0, 10)}`);
+        }
+        return result;
+      },
+    }, { retryCount: 0 }),
+  });
+}
+
+/**
+ * Build a client provider from fixtures; fixtures for the same chain are combined
+ */
+export function createFixtureClientProvider(...fixtures: RpcFixture[]): EvmClientProvider {
+  const byChain = new Map<number, RpcFixture>();
+  for (const fixture of fixtures) {
+    const existing = byChain.get(fixture.chainId);
+    byChain.set(
+      fixture.chainId,
+      existing ? { ...existing, calls: [...existing.calls, ...fixture.calls] } : fixture
+    );
+  }
+
+  const clients = new Map(
+    Array.from(byChain.entries()).map(([chainId, fixture]) => [chainId, createFixtureClient(fixture)])
+  );
+  return (chainId: number) => clients.get(chainId) ?? null;
+}
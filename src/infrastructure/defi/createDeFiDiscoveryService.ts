@@ -0,0 +1,33 @@
+/**
+ * Wires the protocol adapters to the app's EVM ChainRegistry.
+ */
+
+import type { ChainRegistry } from '@cygnus-wealth/evm-integration';
+import { DeFiDiscoveryService } from '../../domain/defi/DeFiDiscoveryService';
+import { createRegistryClientProvider } from './EvmClientProvider';
+import type { EvmClientProvider } from './EvmClientProvider';
+import { AaveV3Adapter } from './protocols/AaveV3Adapter';
+import { CompoundV3Adapter } from './protocols/CompoundV3Adapter';
+import { LidoAdapter } from './protocols/LidoAdapter';
+import { UniswapV3Adapter } from './protocols/UniswapV3Adapter';
+
+/**
+ * Build a discovery service with every supported protocol adapter
+ */
+export function createDeFiDiscoveryServiceWithClients(getClient: EvmClientProvider): DeFiDiscoveryService {
+  return new DeFiDiscoveryService([
+    new AaveV3Adapter(getClient),
+    new CompoundV3Adapter(getClient),
+    new LidoAdapter(getClient),
+    new UniswapV3Adapter(getClient),
+  ]);
+}
+
+/**
+ * Build a discovery service reading through the registry's RPC endpoints
+ */
+export function createDeFiDiscoveryService(
+  registry: InstanceType<typeof ChainRegistry>
+): DeFiDiscoveryService {
+  return createDeFiDiscoveryServiceWithClients(createRegistryClientProvider(registry));
+}
@@ -0,0 +1,154 @@
+/**
+ * AaveV3Adapter
+ *
+ * Reads Aave v3 supply and borrow positions. Contract addresses are resolved
+ * at runtime from each market's PoolAddressesProvider, so upgrades of the data
+ * provider or oracle do not require code changes here.
+ */
+
+import type { Address } from 'viem';
+import type { LendingPosition, LendingPositionType } from '@cygnus-wealth/data-models';
+import type { IDeFiProtocolAdapter, DeFiDiscoveryTarget } from '../../../domain/defi/DeFiProtocolAdapter';
+import type { RawDeFiData } from '../../../domain/defi/DeFiPositionService';
+import type { EvmClientProvider } from '../EvmClientProvider';
+import {
+  aavePoolAddressesProviderAbi,
+  aavePoolAbi,
+  aaveDataProviderAbi,
+  aaveOracleAbi,
+} from './abis';
+import { formatAmount, toAsset, toDataChain, toUsd, usdValue } from './protocolUtils';
+
+/** PoolAddressesProvider of the main Aave v3 market per chain */
+export const AAVE_V3_ADDRESSES_PROVIDERS: Record<number, Address> = {
+  1: '0x2f39d218133AFaB8F2B819B1066c7E434Ad94E9e',
+  10: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+  137: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+  42161: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+  8453: '0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D',
+};
+
+const RAY = 10n ** 27n;
+const SECONDS_PER_YEAR = 31_536_000;
+
+/**
+ * Convert an Aave ray-denominated APR into a compounded APY percentage
+ */
+export function rayRateToApy(rate: bigint): number {
+  const apr = Number(rate) / Number(RAY);
+  return (Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1) * 100;
+}
+
+export class AaveV3Adapter implements IDeFiProtocolAdapter {
+  readonly id = 'aave-v3';
+  readonly name = 'Aave V3';
+
+  private getClient: EvmClientProvider;
+
+  constructor(getClient: EvmClientProvider) {
+    this.getClient = getClient;
+  }
+
+  supportsChain(chainId: number): boolean {
+    return chainId in AAVE_V3_ADDRESSES_PROVIDERS;
+  }
+
+  async discoverPositions({ address, chainId }: DeFiDiscoveryTarget): Promise<RawDeFiData> {
+    const client = this.getClient(chainId);
+    const providerAddress = AAVE_V3_ADDRESSES_PROVIDERS[chainId];
+    if (!client || !providerAddress) return {};
+
+    const user = address as Address;
+    const [poolAddress, dataProvider, oracle] = await Promise.all([
+      client.readContract({ address: providerAddress, abi: aavePoolAddressesProviderAbi, functionName: 'getPool' }),
+      client.readContract({ address: providerAddress, abi: aavePoolAddressesProviderAbi, functionName: 'getPoolDataProvider' }),
+      client.readContract({ address: providerAddress, abi: aavePoolAddressesProviderAbi, functionName: 'getPriceOracle' }),
+    ]);
+
+    // Skip the per-reserve scan entirely for wallets that never touched the market
+    const [totalCollateralBase, totalDebtBase, , , , healthFactorRaw] = await client.readContract({
+      address: poolAddress,
+      abi: aavePoolAbi,
+      functionName: 'getUserAccountData',
+      args: [user],
+    });
+    if (totalCollateralBase === 0n && totalDebtBase === 0n) return {};
+
+    const healthFactor = totalDebtBase > 0n ? Number(healthFactorRaw) / 1e18 : undefined;
+
+    const reserves = await client.readContract({
+      address: dataProvider,
+      abi: aaveDataProviderAbi,
+      functionName: 'getAllReservesTokens',
+    });
+
+    const userReserves = await Promise.all(
+      reserves.map(reserve =>
+        client.readContract({
+          address: dataProvider,
+          abi: aaveDataProviderAbi,
+          functionName: 'getUserReserveData',
+          args: [reserve.tokenAddress, user],
+        })
+      )
+    );
+
+    const chain = toDataChain(chainId);
+    const lendingPositions: LendingPosition[] = [];
+
+    for (let i = 0; i < reserves.length; i++) {
+      const [aTokenBalance, stableDebt, variableDebt, , , , liquidityRate] = userReserves[i];
+      const debt = stableDebt + variableDebt;
+      if (aTokenBalance === 0n && debt === 0n) continue;
+
+      const reserveAddress = reserves[i].tokenAddress;
+      const [config, reserveData, price] = await Promise.all([
+        client.readContract({ address: dataProvider, abi: aaveDataProviderAbi, functionName: 'getReserveConfigurationData', args: [reserveAddress] }),
+        client.readContract({ address: dataProvider, abi: aaveDataProviderAbi, functionName: 'getReserveData', args: [reserveAddress] }),
+        client.readContract({ address: oracle, abi: aaveOracleAbi, functionName: 'getAssetPrice', args: [reserveAddress] }),
+      ]);
+
+      const decimals = Number(config[0]);
+      const liquidationThreshold = Number(config[2]) / 100;
+      const asset = toAsset(
+        { address: reserveAddress, symbol: reserves[i].symbol, name: reserves[i].symbol, decimals },
+        chainId
+      );
+      const baseId = `aave-v3-${chain.toLowerCase()}-${user.toLowerCase()}-${reserveAddress.toLowerCase()}`;
+
+      if (aTokenBalance > 0n) {
+        lendingPositions.push({
+          id: `${baseId}-supply`,
+          protocol: this.name,
+          chain,
+          type: 'SUPPLY' as LendingPositionType,
+          asset,
+          amount: formatAmount(aTokenBalance, decimals),
+          apy: rayRateToApy(liquidityRate),
+          healthFactor,
+          liquidationThreshold,
+          value: usdValue(toUsd(aTokenBalance, decimals, price)),
+          metadata: { owner: user },
+        });
+      }
+
+      if (debt > 0n) {
+        lendingPositions.push({
+          id: `${baseId}-borrow`,
+          protocol: this.name,
+          chain,
+          type: 'BORROW' as LendingPositionType,
+          asset,
+          amount: formatAmount(debt, decimals),
+          apy: rayRateToApy(reserveData[6]),
+          healthFactor,
+          // Debt reduces net worth
+          value: usdValue(-toUsd(debt, decimals, price)),
+          metadata: { owner: user },
+        });
+      }
+    }
+
+    return { lendingPositions };
+  }
+}
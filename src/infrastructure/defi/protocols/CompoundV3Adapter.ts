@@ -0,0 +1,197 @@
+/**
+ * CompoundV3Adapter
+ *
+ * Reads Compound v3 (Comet) positions: base-asset supply or borrow plus any
+ * collateral posted to each market. Prices come from the market's own feeds;
+ * ETH-quoted markets (cWETHv3) are converted to USD via Chainlink ETH/USD and
+ * left unpriced when that feed is missing or cannot be read.
+ */
+
+import type { Address } from 'viem';
+import type { LendingPosition, LendingPositionType } from '@cygnus-wealth/data-models';
+import type { IDeFiProtocolAdapter, DeFiDiscoveryTarget } from '../../../domain/defi/DeFiProtocolAdapter';
+import type { RawDeFiData } from '../../../domain/defi/DeFiPositionService';
+import type { EvmClientProvider } from '../EvmClientProvider';
+import { cometAbi } from './abis';
+import {
+  CHAINLINK_ETH_USD_FEEDS,
+  formatAmount,
+  readChainlinkPrice,
+  readTokenInfo,
+  toAsset,
+  toDataChain,
+  toUsd,
+  usdValue,
+} from './protocolUtils';
+
+interface CometMarket {
+  address: Address;
+  /** Currency the market's price feeds are quoted in */
+  quote: 'USD' | 'ETH';
+}
+
+/** Comet market proxies per chain */
+export const COMPOUND_V3_MARKETS: Record<number, CometMarket[]> = {
+  1: [
+    { address: '0xc3d688B66703497DAA19211EEdff47f25384cdc3', quote: 'USD' }, // cUSDCv3
+    { address: '0xA17581A9E3356d9A858b789D68B4d866e593aE94', quote: 'ETH' }, // cWETHv3
+    { address: '0x3Afdc9BCA9213A35503b077a6072F3D0d5AB0840', quote: 'USD' }, // cUSDTv3
+  ],
+  10: [{ address: '0x2e44e174f7D53F0212823acC11C01A11d58c5bCB', quote: 'USD' }], // cUSDCv3
+  137: [{ address: '0xF25212E676D1F7F89Cd72fFEe66158f541246445', quote: 'USD' }], // cUSDCv3
+  42161: [
+    { address: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf', quote: 'USD' }, // cUSDCv3
+    { address: '0xA5EDBDD9646f8dFF606d7448e414884C7d905dCA', quote: 'USD' }, // cUSDC.ev3
+  ],
+  8453: [
+    { address: '0xb125E6687d4313864e53df431d5425969c15Eb2F', quote: 'USD' }, // cUSDCv3
+    { address: '0x46e6b214b524310239732D51387075E0e70970bf', quote: 'ETH' }, // cWETHv3
+  ],
+};
+
+const SECONDS_PER_YEAR = 31_536_000;
+
+/**
+ * Convert Comet's per-second rate (1e18 scale) into an APY percentage
+ */
+export function perSecondRateToApy(rate: bigint): number {
+  const perSecond = Number(rate) / 1e18;
+  return (Math.pow(1 + perSecond, SECONDS_PER_YEAR) - 1) * 100;
+}
+
+export class CompoundV3Adapter implements IDeFiProtocolAdapter {
+  readonly id = 'compound-v3';
+  readonly name = 'Compound V3';
+
+  private getClient: EvmClientProvider;
+
+  constructor(getClient: EvmClientProvider) {
+    this.getClient = getClient;
+  }
+
+  supportsChain(chainId: number): boolean {
+    return chainId in COMPOUND_V3_MARKETS;
+  }
+
+  async discoverPositions(target: DeFiDiscoveryTarget): Promise<RawDeFiData> {
+    const markets = COMPOUND_V3_MARKETS[target.chainId] ?? [];
+    const perMarket = await Promise.all(markets.map(market => this.readMarket(market, target)));
+    return { lendingPositions: perMarket.flat() };
+  }
+
+  /**
+   * Read the base and collateral positions of one Comet market
+   */
+  private async readMarket(market: CometMarket, { address, chainId }: DeFiDiscoveryTarget): Promise<LendingPosition[]> {
+    const client = this.getClient(chainId);
+    if (!client) return [];
+
+    const comet = market.address;
+    const user = address as Address;
+    const chain = toDataChain(chainId);
+    const positions: LendingPosition[] = [];
+    const baseId = `compound-v3-${chain.toLowerCase()}-${comet.toLowerCase()}-${user.toLowerCase()}`;
+
+    const [supplied, borrowed, numAssets] = await Promise.all([
+      client.readContract({ address: comet, abi: cometAbi, functionName: 'balanceOf', args: [user] }),
+      client.readContract({ address: comet, abi: cometAbi, functionName: 'borrowBalanceOf', args: [user] }),
+      client.readContract({ address: comet, abi: cometAbi, functionName: 'numAssets' }),
+    ]);
+
+    // Multiplier converting the market's quote currency to USD, read only when
+    // needed; null when there is no ETH price to convert with
+    let quoteToUsd: Promise<number | null> | null = null;
+    const getQuoteToUsd = () => {
+      if (!quoteToUsd) {
+        const feed = CHAINLINK_ETH_USD_FEEDS[chainId];
+        quoteToUsd = market.quote === 'USD' ? Promise.resolve(1)
+          : feed ? readChainlinkPrice(client, feed).catch(() => null) : Promise.resolve(null);
+      }
+      return quoteToUsd;
+    };
+    const valueIn = (usdAtQuote: number, quoteUsd: number | null) => (
+      quoteUsd === null ? undefined : usdValue(usdAtQuote * quoteUsd)
+    );
+
+    if (supplied > 0n || borrowed > 0n) {
+      const [baseToken, baseFeed, utilization] = await Promise.all([
+        client.readContract({ address: comet, abi: cometAbi, functionName: 'baseToken' }),
+        client.readContract({ address: comet, abi: cometAbi, functionName: 'baseTokenPriceFeed' }),
+        client.readContract({ address: comet, abi: cometAbi, functionName: 'getUtilization' }),
+      ]);
+      const [token, price, quoteUsd] = await Promise.all([
+        readTokenInfo(client, baseToken),
+        client.readContract({ address: comet, abi: cometAbi, functionName: 'getPrice', args: [baseFeed] }),
+        getQuoteToUsd(),
+      ]);
+
+      if (supplied > 0n) {
+        const rate = await client.readContract({ address: comet, abi: cometAbi, functionName: 'getSupplyRate', args: [utilization] });
+        positions.push({
+          id: `${baseId}-supply`,
+          protocol: this.name,
+          chain,
+          type: 'SUPPLY' as LendingPositionType,
+          asset: toAsset(token, chainId),
+          amount: formatAmount(supplied, token.decimals),
+          apy: perSecondRateToApy(rate),
+          value: valueIn(toUsd(supplied, token.decimals, price), quoteUsd),
+          metadata: { owner: user, market: comet },
+        });
+      }
+
+      if (borrowed > 0n) {
+        const rate = await client.readContract({ address: comet, abi: cometAbi, functionName: 'getBorrowRate', args: [utilization] });
+        positions.push({
+          id: `${baseId}-borrow`,
+          protocol: this.name,
+          chain,
+          type: 'BORROW' as LendingPositionType,
+          asset: toAsset(token, chainId),
+          amount: formatAmount(borrowed, token.decimals),
+          apy: perSecondRateToApy(rate),
+          // Debt reduces net worth
+          value: valueIn(-toUsd(borrowed, token.decimals, price), quoteUsd),
+          metadata: { owner: user, market: comet },
+        });
+      }
+    }
+
+    const assetInfos = await Promise.all(
+      Array.from({ length: Number(numAssets) }, (_, i) =>
+        client.readContract({ address: comet, abi: cometAbi, functionName: 'getAssetInfo', args: [i] })
+      )
+    );
+    const collateralBalances = await Promise.all(
+      assetInfos.map(info =>
+        client.readContract({ address: comet, abi: cometAbi, functionName: 'collateralBalanceOf', args: [user, info.asset] })
+      )
+    );
+
+    for (let i = 0; i < assetInfos.length; i++) {
+      const balance = collateralBalances[i];
+      if (balance === 0n) continue;
+
+      const info = assetInfos[i];
+      const [token, price, quoteUsd] = await Promise.all([
+        readTokenInfo(client, info.asset),
+        client.readContract({ address: comet, abi: cometAbi, functionName: 'getPrice', args: [info.priceFeed] }),
+        getQuoteToUsd(),
+      ]);
+
+      positions.push({
+        id: `${baseId}-collateral-${info.asset.toLowerCase()}`,
+        protocol: this.name,
+        chain,
+        type: 'SUPPLY' as LendingPositionType,
+        asset: toAsset(token, chainId),
+        amount: formatAmount(balance, token.decimals),
+        liquidationThreshold: Number(info.liquidateCollateralFactor) / 1e16,
+        value: valueIn(toUsd(balance, token.decimals, price), quoteUsd),
+        metadata: { owner: user, market: comet, collateral: true },
+      });
+    }
+
+    return positions;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * LidoAdapter
+ *
+ * Reports stETH on Ethereum and wstETH on Ethereum and the canonical L2
+ * bridges as staked ETH. Exchange rate and ETH/USD price are always read on
+ * Ethereum mainnet, where the authoritative contracts live.
+ */
+
+import { erc20Abi } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import type { AssetType, StakedPosition } from '@cygnus-wealth/data-models';
+import type { IDeFiProtocolAdapter, DeFiDiscoveryTarget } from '../../../domain/defi/DeFiProtocolAdapter';
+import type { RawDeFiData } from '../../../domain/defi/DeFiPositionService';
+import type { EvmClientProvider } from '../EvmClientProvider';
+import { wstEthAbi } from './abis';
+import {
+  CHAINLINK_ETH_USD_FEEDS,
+  formatAmount,
+  readChainlinkPrice,
+  toAsset,
+  toDataChain,
+  usdValue,
+} from './protocolUtils';
+
+const ETHEREUM_CHAIN_ID = 1;
+
+export const STETH_ADDRESS: Address = '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84';
+
+/** wstETH token per chain (bridged on L2s) */
+export const WSTETH_ADDRESSES: Record<number, Address> = {
+  1: '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0',
+  10: '0x1F32b1c2345538c0c6f582fCB022739c4A194Ebb',
+  137: '0x03b54A6e9a984069379fae1a4fC4dBAE93B3bCCD',
+  42161: '0x5979D7b546E38E414F7E9822514be443A4800529',
+  8453: '0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452',
+};
+
+interface LidoPricing {
+  stEthPerToken: bigint; // 18 decimals
+  ethUsd: number;
+}
+
+export class LidoAdapter implements IDeFiProtocolAdapter {
+  readonly id = 'lido';
+  readonly name = 'Lido';
+
+  private getClient: EvmClientProvider;
+
+  constructor(getClient: EvmClientProvider) {
+    this.getClient = getClient;
+  }
+
+  supportsChain(chainId: number): boolean {
+    return chainId in WSTETH_ADDRESSES;
+  }
+
+  async discoverPositions({ address, chainId }: DeFiDiscoveryTarget): Promise<RawDeFiData> {
+    const client = this.getClient(chainId);
+    const wstEth = WSTETH_ADDRESSES[chainId];
+    if (!client || !wstEth) return {};
+
+    const user = address as Address;
+    const [wstBalance, stBalance] = await Promise.all([
+      client.readContract({ address: wstEth, abi: erc20Abi, functionName: 'balanceOf', args: [user] }),
+      chainId === ETHEREUM_CHAIN_ID
+        ? client.readContract({ address: STETH_ADDRESS, abi: erc20Abi, functionName: 'balanceOf', args: [user] })
+        : Promise.resolve(0n),
+    ]);
+    if (wstBalance === 0n && stBalance === 0n) return {};
+
+    const pricing = await this.readPricing();
+    const chain = toDataChain(chainId);
+    const stakedPositions: StakedPosition[] = [];
+
+    if (stBalance > 0n) {
+      stakedPositions.push({
+        id: `lido-${chain.toLowerCase()}-${user.toLowerCase()}-steth`,
+        protocol: this.name,
+        chain,
+        asset: {
+          ...toAsset({ address: STETH_ADDRESS, symbol: 'stETH', name: 'Liquid staked Ether 2.0', decimals: 18 }, chainId),
+          type: 'STAKED_POSITION' as AssetType,
+        },
+        stakedAmount: formatAmount(stBalance, 18),
+        rewards: [],
+        value: pricing ? usdValue(Number(formatAmount(stBalance, 18)) * pricing.ethUsd) : undefined,
+        metadata: { owner: user, ethAmount: formatAmount(stBalance, 18) },
+      });
+    }
+
+    if (wstBalance > 0n) {
+      // wstETH is non-rebasing: its ETH claim grows through stEthPerToken
+      const ethAmount = pricing ? (wstBalance * pricing.stEthPerToken) / 10n ** 18n : null;
+      stakedPositions.push({
+        id: `lido-${chain.toLowerCase()}-${user.toLowerCase()}-wsteth`,
+        protocol: this.name,
+        chain,
+        asset: {
+          ...toAsset({ address: wstEth, symbol: 'wstETH', name: 'Wrapped liquid staked Ether 2.0', decimals: 18 }, chainId),
+          type: 'STAKED_POSITION' as AssetType,
+        },
+        stakedAmount: formatAmount(wstBalance, 18),
+        rewards: [],
+        value: pricing && ethAmount !== null
+          ? usdValue(Number(formatAmount(ethAmount, 18)) * pricing.ethUsd)
+          : undefined,
+        metadata: {
+          owner: user,
+          ethAmount: ethAmount !== null ? formatAmount(ethAmount, 18) : undefined,
+        },
+      });
+    }
+
+    return { stakedPositions };
+  }
+
+  /**
+   * Read the wstETH exchange rate and ETH/USD price from mainnet.
+   * Returns null when mainnet is not reachable so amounts are still reported.
+   */
+  private async readPricing(): Promise<LidoPricing | null> {
+    const mainnet: PublicClient | null = this.getClient(ETHEREUM_CHAIN_ID);
+    if (!mainnet) return null;
+
+    try {
+      const [stEthPerToken, ethUsd] = await Promise.all([
+        mainnet.readContract({ address: WSTETH_ADDRESSES[ETHEREUM_CHAIN_ID], abi: wstEthAbi, functionName: 'stEthPerToken' }),
+        readChainlinkPrice(mainnet, CHAINLINK_ETH_USD_FEEDS[ETHEREUM_CHAIN_ID]),
+      ]);
+      return { stEthPerToken, ethUsd };
+    } catch (error) {
+      console.warn('[LidoAdapter] Failed to read stETH pricing:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * UniswapV3Adapter
+ *
+ * Enumerates the wallet's Uniswap v3 position NFTs and derives the current
+ * token amounts of each range from the pool price. Closed positions (zero
+ * liquidity and nothing owed) are skipped.
+ */
+
+import type { Address } from 'viem';
+import type { LiquidityPosition } from '@cygnus-wealth/data-models';
+import type { IDeFiProtocolAdapter, DeFiDiscoveryTarget } from '../../../domain/defi/DeFiProtocolAdapter';
+import type { RawDeFiData } from '../../../domain/defi/DeFiPositionService';
+import type { EvmClientProvider } from '../EvmClientProvider';
+import { uniswapV3PositionManagerAbi, uniswapV3FactoryAbi, uniswapV3PoolAbi } from './abis';
+import { formatAmount, readTokenInfo, toAsset, toDataChain } from './protocolUtils';
+import type { TokenInfo } from './protocolUtils';
+
+interface UniswapV3Deployment {
+  positionManager: Address;
+  factory: Address;
+}
+
+export const UNISWAP_V3_DEPLOYMENTS: Record<number, UniswapV3Deployment> = {
+  1: { positionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88', factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984' },
+  10: { positionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88', factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984' },
+  137: { positionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88', factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984' },
+  42161: { positionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88', factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984' },
+  8453: { positionManager: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1', factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD' },
+};
+
+/** Upper bound on NFTs enumerated per wallet and chain */
+const MAX_POSITIONS = 50;
+
+const Q96 = 2 ** 96;
+
+/**
+ * Raw token amounts held by a concentrated-liquidity range at the current price.
+ * Uses floating point; precision is ample for display purposes.
+ */
+export function getPositionAmounts(
+  liquidity: bigint,
+  sqrtPriceX96: bigint,
+  tick: number,
+  tickLower: number,
+  tickUpper: number
+): { amount0: number; amount1: number } {
+  const L = Number(liquidity);
+  const sqrtP = Number(sqrtPriceX96) / Q96;
+  const sqrtA = Math.pow(1.0001, tickLower / 2);
+  const sqrtB = Math.pow(1.0001, tickUpper / 2);
+
+  if (tick < tickLower) {
+    return { amount0: (L * (sqrtB - sqrtA)) / (sqrtA * sqrtB), amount1: 0 };
+  }
+  if (tick >= tickUpper) {
+    return { amount0: 0, amount1: L * (sqrtB - sqrtA) };
+  }
+  return {
+    amount0: (L * (sqrtB - sqrtP)) / (sqrtP * sqrtB),
+    amount1: L * (sqrtP - sqrtA),
+  };
+}
+
+/**
+ * Scale a raw floating amount by token decimals into a decimal string
+ */
+function formatFloatAmount(raw: number, decimals: number): string {
+  return (raw / Math.pow(10, decimals)).toString();
+}
+
+export class UniswapV3Adapter implements IDeFiProtocolAdapter {
+  readonly id = 'uniswap-v3';
+  readonly name = 'Uniswap V3';
+
+  private getClient: EvmClientProvider;
+
+  constructor(getClient: EvmClientProvider) {
+    this.getClient = getClient;
+  }
+
+  supportsChain(chainId: number): boolean {
+    return chainId in UNISWAP_V3_DEPLOYMENTS;
+  }
+
+  async discoverPositions({ address, chainId }: DeFiDiscoveryTarget): Promise<RawDeFiData> {
+    const client = this.getClient(chainId);
+    const deployment = UNISWAP_V3_DEPLOYMENTS[chainId];
+    if (!client || !deployment) return {};
+
+    const owner = address as Address;
+    const { positionManager, factory } = deployment;
+
+    const count = await client.readContract({
+      address: positionManager,
+      abi: uniswapV3PositionManagerAbi,
+      functionName: 'balanceOf',
+      args: [owner],
+    });
+    if (count === 0n) return {};
+
+    const total = Math.min(Number(count), MAX_POSITIONS);
+    const tokenIds = await Promise.all(
+      Array.from({ length: total }, (_, i) =>
+        client.readContract({
+          address: positionManager,
+          abi: uniswapV3PositionManagerAbi,
+          functionName: 'tokenOfOwnerByIndex',
+          args: [owner, BigInt(i)],
+        })
+      )
+    );
+    const rawPositions = await Promise.all(
+      tokenIds.map(tokenId =>
+        client.readContract({
+          address: positionManager,
+          abi: uniswapV3PositionManagerAbi,
+          functionName: 'positions',
+          args: [tokenId],
+        })
+      )
+    );
+
+    const tokenCache = new Map<string, Promise<TokenInfo>>();
+    const getToken = (token: Address) => {
+      const key = token.toLowerCase();
+      if (!tokenCache.has(key)) tokenCache.set(key, readTokenInfo(client, token));
+      return tokenCache.get(key)!;
+    };
+
+    const chain = toDataChain(chainId);
+    const liquidityPositions: LiquidityPosition[] = [];
+
+    for (let i = 0; i < rawPositions.length; i++) {
+      const [, , token0, token1, fee, tickLower, tickUpper, liquidity, , , owed0, owed1] = rawPositions[i];
+      if (liquidity === 0n && owed0 === 0n && owed1 === 0n) continue;
+
+      const pool = await client.readContract({
+        address: factory,
+        abi: uniswapV3FactoryAbi,
+        functionName: 'getPool',
+        args: [token0, token1, fee],
+      });
+      const [[sqrtPriceX96, tick], info0, info1] = await Promise.all([
+        client.readContract({ address: pool, abi: uniswapV3PoolAbi, functionName: 'slot0' }),
+        getToken(token0),
+        getToken(token1),
+      ]);
+
+      const { amount0, amount1 } = getPositionAmounts(liquidity, sqrtPriceX96, tick, tickLower, tickUpper);
+      const inRange = tick >= tickLower && tick < tickUpper;
+
+      liquidityPositions.push({
+        id: `uniswap-v3-${chain.toLowerCase()}-${tokenIds[i].toString()}`,
+        protocol: this.name,
+        poolAddress: pool,
+        poolName: `${info0.symbol}/${info1.symbol} ${fee / 10_000}%`,
+        chain,
+        tokens: [
+          { assetId: toAsset(info0, chainId).id, asset: toAsset(info0, chainId), amount: formatFloatAmount(amount0, info0.decimals) },
+          { assetId: toAsset(info1, chainId).id, asset: toAsset(info1, chainId), amount: formatFloatAmount(amount1, info1.decimals) },
+        ],
+        lpTokenBalance: liquidity.toString(),
+        metadata: {
+          owner,
+          tokenId: tokenIds[i].toString(),
+          tickLower,
+          tickUpper,
+          inRange,
+          uncollectedFees: [formatAmount(owed0, info0.decimals), formatAmount(owed1, info1.decimals)],
+        },
+      });
+    }
+
+    return { liquidityPositions };
+  }
+}
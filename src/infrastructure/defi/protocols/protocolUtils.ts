@@ -0,0 +1,106 @@
+/**
+ * Shared helpers for protocol adapters: token metadata reads and conversion
+ * into data-model Asset / Price objects.
+ */
+
+import { erc20Abi, formatUnits } from 'viem';
+import type { Address, PublicClient } from 'viem';
+import type { Asset, AssetType, Chain, IntegrationSource, Price } from '@cygnus-wealth/data-models';
+import { chainlinkAggregatorAbi } from './abis';
+
+/** Chainlink ETH/USD aggregators used to price ETH-denominated positions */
+export const CHAINLINK_ETH_USD_FEEDS: Record<number, Address> = {
+  1: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+  8453: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+};
+
+export interface TokenInfo {
+  address: Address;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+const DATA_CHAIN_BY_ID: Record<number, Chain> = {
+  1: 'ETHEREUM' as Chain,
+  10: 'OPTIMISM' as Chain,
+  56: 'BSC' as Chain,
+  137: 'POLYGON' as Chain,
+  8453: 'BASE' as Chain,
+  42161: 'ARBITRUM' as Chain,
+  43114: 'AVALANCHE' as Chain,
+};
+
+/**
+ * Map a numeric chain id to the data-model Chain enum
+ */
+export function toDataChain(chainId: number): Chain {
+  return DATA_CHAIN_BY_ID[chainId] ?? ('OTHER' as Chain);
+}
+
+/**
+ * Read ERC-20 symbol/name/decimals. Non-standard tokens (e.g. bytes32 symbols)
+ * fall back to placeholder metadata rather than failing the whole position.
+ */
+export async function readTokenInfo(client: PublicClient, address: Address): Promise<TokenInfo> {
+  const [symbol, name, decimals] = await Promise.all([
+    client.readContract({ address, abi: erc20Abi, functionName: 'symbol' }).catch(() => 'Unknown'),
+    client.readContract({ address, abi: erc20Abi, functionName: 'name' }).catch(() => 'Unknown'),
+    client.readContract({ address, abi: erc20Abi, functionName: 'decimals' }).catch(() => 18),
+  ]);
+  return { address, symbol, name, decimals: Number(decimals) };
+}
+
+/**
+ * Build a data-model Asset for a token on a chain
+ */
+export function toAsset(token: TokenInfo, chainId: number): Asset {
+  const chain = toDataChain(chainId);
+  return {
+    id: `${chain.toLowerCase()}-${token.address.toLowerCase()}`,
+    symbol: token.symbol,
+    name: token.name,
+    type: 'CRYPTOCURRENCY' as AssetType,
+    decimals: token.decimals,
+    contractAddress: token.address,
+    chain,
+  };
+}
+
+/**
+ * Wrap a USD value as an on-chain sourced Price
+ */
+export function usdValue(value: number): Price {
+  return {
+    value,
+    currency: 'USD',
+    timestamp: new Date(),
+    source: 'BLOCKCHAIN_DIRECT' as IntegrationSource,
+  };
+}
+
+/**
+ * Format a raw integer amount as a decimal string
+ */
+export function formatAmount(raw: bigint, decimals: number): string {
+  return formatUnits(raw, decimals);
+}
+
+/**
+ * Convert a raw amount and an 8-decimal USD price (Aave/Compound/Chainlink
+ * convention) into a USD value
+ */
+export function toUsd(raw: bigint, decimals: number, price: bigint, priceDecimals = 8): number {
+  return Number(formatUnits(raw, decimals)) * Number(formatUnits(price, priceDecimals));
+}
+
+/**
+ * Read the latest answer of a Chainlink aggregator as a decimal number
+ */
+export async function readChainlinkPrice(client: PublicClient, feed: Address): Promise<number> {
+  const [round, decimals] = await Promise.all([
+    client.readContract({ address: feed, abi: chainlinkAggregatorAbi, functionName: 'latestRoundData' }),
+    client.readContract({ address: feed, abi: chainlinkAggregatorAbi, functionName: 'decimals' }),
+  ]);
+  return Number(formatUnits(round[1], decimals));
+}
@@ -0,0 +1,41 @@
+/**
+ * CryptoDenominationRateProvider
+ *
+ * Rates between USD and the crypto denominations (BTC, ETH), derived from the
+ * asset's USD price: one dollar buys 1 / price units of the asset.
+ */
+
+import { Result } from '../../domain/shared/Result';
+import { ExternalServiceError } from '../../domain/shared/DomainError';
+import { BASE_CURRENCIES, CURRENCY_INFO } from '../../domain/asset/Currency';
+import type { IExchangeRateProvider } from '../../domain/services/PriceService';
+
+/** Resolves the USD price of an asset; 0 or less means unknown */
+export type UsdPriceLookup = (symbol: string) => Promise<number>;
+
+const DENOMINATIONS = new Set<string>(BASE_CURRENCIES.filter(c => CURRENCY_INFO[c].kind === 'crypto'));
+
+export class CryptoDenominationRateProvider implements IExchangeRateProvider {
+  private readonly getUsdPrice: UsdPriceLookup;
+
+  constructor(getUsdPrice: UsdPriceLookup) {
+    this.getUsdPrice = getUsdPrice;
+  }
+
+  public getProviderName(): string {
+    return 'asset-valuator';
+  }
+
+  public supports(base: string, quote: string): boolean {
+    return (base === 'USD' && DENOMINATIONS.has(quote)) || (quote === 'USD' && DENOMINATIONS.has(base));
+  }
+
+  public async fetchRate(base: string, quote: string): Promise<Result<number, Error>> {
+    const asset = base === 'USD' ? quote : base;
+    const price = await this.getUsdPrice(asset);
+    if (!Number.isFinite(price) || price <= 0) {
+      return Result.failure(new ExternalServiceError('asset-valuator', 'fetchRate', `No USD price for ${asset}`));
+    }
+    return Result.success(base === 'USD' ? 1 / price : price);
+  }
+}
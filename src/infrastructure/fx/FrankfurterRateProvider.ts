@@ -0,0 +1,53 @@
+/**
+ * FrankfurterRateProvider
+ *
+ * Fiat exchange rates from the Frankfurter API, which republishes the
+ * European Central Bank reference rates once per working day. No API key is
+ * needed.
+ */
+
+import { Result } from '../../domain/shared/Result';
+import { ExternalServiceError } from '../../domain/shared/DomainError';
+import { BASE_CURRENCIES, CURRENCY_INFO } from '../../domain/asset/Currency';
+import type { IExchangeRateProvider } from '../../domain/services/PriceService';
+
+const FRANKFURTER_URL = 'https://api.frankfurter.app/latest';
+
+const FIAT_CURRENCIES = new Set<string>(BASE_CURRENCIES.filter(c => CURRENCY_INFO[c].kind === 'fiat'));
+
+interface FrankfurterResponse {
+  rates?: Record<string, number>;
+}
+
+export class FrankfurterRateProvider implements IExchangeRateProvider {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(fetchImpl?: typeof fetch) {
+    this.fetchImpl = fetchImpl ?? ((...args) => fetch(...args));
+  }
+
+  public getProviderName(): string {
+    return 'frankfurter';
+  }
+
+  public supports(base: string, quote: string): boolean {
+    return FIAT_CURRENCIES.has(base) && FIAT_CURRENCIES.has(quote);
+  }
+
+  public async fetchRate(base: string, quote: string): Promise<Result<number, Error>> {
+    const url = `${FRANKFURTER_URL}?from=${encodeURIComponent(base)}&to=${encodeURIComponent(quote)}`;
+    const response = await this.fetchImpl(url);
+    if (!response.ok) {
+      return Result.failure(new ExternalServiceError(
+        'frankfurter', 'fetchRate', `Exchange rate request failed with status ${response.status}`, undefined, response.status
+      ));
+    }
+
+    const body = await response.json() as FrankfurterResponse;
+    const rate = body.rates?.[quote];
+    if (typeof rate !== 'number') {
+      return Result.failure(new ExternalServiceError('frankfurter', 'fetchRate', `No ${base}/${quote} rate in response`));
+    }
+    return Result.success(rate);
+  }
+}
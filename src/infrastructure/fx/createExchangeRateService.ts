@@ -0,0 +1,34 @@
+/**
+ * Exchange rate service wiring
+ *
+ * A PriceService with the fiat and crypto denomination rate providers, whose
+ * rates are cached through the shared PriceCache.
+ */
+
+import { PriceService } from '../../domain/services/PriceService';
+import { PriceCache } from '../cache/PriceCache';
+import { FrankfurterRateProvider } from './FrankfurterRateProvider';
+import { CryptoDenominationRateProvider } from './CryptoDenominationRateProvider';
+
+async function fetchUsdPrice(symbol: string): Promise<number> {
+  const { AssetValuator } = await import('@cygnus-wealth/asset-valuator');
+  const priceData = await new AssetValuator().getPrice(symbol);
+  return priceData?.price ?? 0;
+}
+
+export function createExchangeRateService(): PriceService {
+  const service = new PriceService(new PriceCache());
+  service.registerExchangeRateProvider(new FrankfurterRateProvider());
+  service.registerExchangeRateProvider(new CryptoDenominationRateProvider(fetchUsdPrice));
+  return service;
+}
+
+// Created on first use so the cache database is only opened for non-USD display
+let _exchangeRateServiceInstance: PriceService | null = null;
+
+export function getExchangeRateService(): PriceService {
+  if (!_exchangeRateServiceInstance) {
+    _exchangeRateServiceInstance = createExchangeRateService();
+  }
+  return _exchangeRateServiceInstance;
+}
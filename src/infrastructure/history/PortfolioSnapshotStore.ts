@@ -0,0 +1,184 @@
+/**
+ * PortfolioSnapshotStore Implementation
+ *
+ * IndexedDB-backed repository for portfolio snapshots. Falls back to an
+ * in-memory store when IndexedDB is unavailable (tests, private browsing).
+ * The database name is namespaced by network environment so testnet history
+ * never mixes with production history.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { PortfolioSnapshot } from '../../domain/portfolio/PortfolioSnapshot';
+import {
+  PortfolioHistoryService,
+  type IPortfolioSnapshotRepository,
+} from '../../domain/services/PortfolioHistoryService';
+import { detectEnvironment } from '../../config/environment';
+
+export class PortfolioSnapshotStore implements IPortfolioSnapshotRepository {
+  private memoryStore: Map<string, PortfolioSnapshot> = new Map();
+  private dbName: string;
+  private storeName = 'snapshots';
+  private db: IDBDatabase | null = null;
+  private ready: Promise<void>;
+
+  constructor(env: NetworkEnvironment = detectEnvironment()) {
+    this.dbName = `CygnusWealthHistory-${env}`;
+    this.ready = this.initializeDB().catch(() => {
+      // Already logged; continue with the memory store
+    });
+  }
+
+  /**
+   * Initialize IndexedDB
+   */
+  private async initializeDB(): Promise<void> {
+    if (typeof indexedDB === 'undefined' || !indexedDB) {
+      console.warn('IndexedDB not available, portfolio history will not persist');
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => {
+        console.error('Failed to open history database:', request.error);
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          const store = db.createObjectStore(this.storeName, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+        }
+      };
+    });
+  }
+
+  /**
+   * Persist a snapshot
+   */
+  public async save(snapshot: PortfolioSnapshot): Promise<void> {
+    await this.ready;
+
+    if (!this.db) {
+      this.memoryStore.set(snapshot.id, snapshot);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      const request = store.put(snapshot);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        console.error('Failed to save snapshot:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Get all snapshots with from <= timestamp <= to, sorted ascending
+   */
+  public async findInRange(from: number, to: number): Promise<PortfolioSnapshot[]> {
+    await this.ready;
+
+    if (!this.db) {
+      return Array.from(this.memoryStore.values())
+        .filter(s => s.timestamp >= from && s.timestamp <= to)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readonly');
+      const index = transaction.objectStore(this.storeName).index('timestamp');
+      const request = index.getAll(IDBKeyRange.bound(from, to));
+
+      request.onsuccess = () => resolve(request.result as PortfolioSnapshot[]);
+      request.onerror = () => {
+        console.error('Failed to read snapshots:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Delete snapshots by id in a single transaction
+   */
+  public async deleteByIds(ids: string[]): Promise<void> {
+    await this.ready;
+
+    if (!this.db) {
+      for (const id of ids) {
+        this.memoryStore.delete(id);
+      }
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+
+      for (const id of ids) {
+        store.delete(id);
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.error('Failed to delete snapshots:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Remove all snapshots
+   */
+  public async clear(): Promise<void> {
+    await this.ready;
+    this.memoryStore.clear();
+
+    if (!this.db) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const request = transaction.objectStore(this.storeName).clear();
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        console.error('Failed to clear snapshots:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Close the database connection
+   */
+  public destroy(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    this.memoryStore.clear();
+  }
+}
+
+// Lazily-created shared service so the database is only opened when history is used
+let _historyServiceInstance: PortfolioHistoryService | null = null;
+
+export function getPortfolioHistoryService(): PortfolioHistoryService {
+  if (!_historyServiceInstance) {
+    _historyServiceInstance = new PortfolioHistoryService(new PortfolioSnapshotStore());
+  }
+  return _historyServiceInstance;
+}
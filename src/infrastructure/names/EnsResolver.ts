@@ -0,0 +1,28 @@
+/**
+ * ENS lookups through the universal resolver on Ethereum mainnet.
+ */
+
+import type { Address, PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { normalize } from 'viem/ens';
+import type { NameResolver } from '../../domain/names/NameService';
+
+export type EnsClient = Pick<PublicClient, 'getEnsAddress' | 'getEnsName'>;
+
+const universalResolverAddress = mainnet.contracts.ensUniversalResolver.address;
+
+export class EnsResolver implements NameResolver {
+  private readonly getClient: () => EnsClient;
+
+  constructor(getClient: () => EnsClient) {
+    this.getClient = getClient;
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    return this.getClient().getEnsAddress({ name: normalize(name), universalResolverAddress });
+  }
+
+  async lookup(address: string): Promise<string | null> {
+    return this.getClient().getEnsName({ address: address as Address, universalResolverAddress });
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Name Resolution Service
+ *
+ * Resolves ENS, SNS and SuiNS names through one resolver per service and
+ * caches the answers in localStorage for a while, so account labels render
+ * without a round trip on every load. Reverse lookups only count once the name
+ * they return resolves back to the same address; a name that does not is
+ * treated as no name at all.
+ */
+
+import { createPublicClient, fallback, http } from 'viem';
+import { mainnet } from 'viem/chains';
+import { Connection } from '@solana/web3.js';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui.js/client';
+import { Result } from '../../domain/shared/Result';
+import { ExternalServiceError, ValidationError, type DomainError } from '../../domain/shared/DomainError';
+import {
+  MISSING_NAME_TTL_MS,
+  NAME_CACHE_TTL_MS,
+  NAME_SERVICE_LABELS,
+  nameServiceForName,
+  normalizeName,
+  sameAddress,
+  type NameResolver,
+  type NameServiceKind,
+} from '../../domain/names/NameService';
+import { buildRpcProviderConfig } from '../../config/buildRpcProviderConfig';
+import { rpcConfigService } from '../rpc/RpcConfigurationService';
+import { createTelemetryRanker } from '../rpc/endpointRanking';
+import { withRequestTelemetry } from '../rpc/requestTelemetry';
+import { getSecretVault } from '../vault/SecretVault';
+import { EnsResolver, type EnsClient } from './EnsResolver';
+import { SnsResolver } from './SnsResolver';
+import { SuinsResolver } from './SuinsResolver';
+
+export type NameCacheStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface NameResolutionOptions {
+  storageKey?: string;
+  storage?: NameCacheStorage;
+  now?: () => number;
+}
+
+export interface ResolvedName {
+  name: string;
+  address: string;
+  service: NameServiceKind;
+}
+
+interface CacheEntry {
+  value: string | null;
+  expiresAt: number;
+}
+
+interface NameCacheFile {
+  version: 1;
+  /** Forward lookups by normalized name */
+  names: Record<string, CacheEntry>;
+  /** Verified reverse lookups by service and address */
+  addresses: Record<string, CacheEntry>;
+}
+
+function addressKey(kind: NameServiceKind, address: string): string {
+  return `${kind}:${kind === 'sns' ? address : address.toLowerCase()}`;
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (typeof entry.value === 'string' || entry.value === null) && typeof entry.expiresAt === 'number';
+}
+
+function readEntries(value: unknown): Map<string, CacheEntry> {
+  if (typeof value !== 'object' || value === null) return new Map();
+  return new Map(Object.entries(value).filter((pair): pair is [string, CacheEntry] => isCacheEntry(pair[1])));
+}
+
+export class NameResolutionService {
+  private readonly resolvers: Record<NameServiceKind, NameResolver>;
+  private readonly storageKey: string;
+  private readonly storage: NameCacheStorage;
+  private readonly now: () => number;
+  private names: Map<string, CacheEntry>;
+  private addresses: Map<string, CacheEntry>;
+  private pending: Map<string, Promise<string | null>> = new Map();
+  private listeners: Set<() => void> = new Set();
+  private version = 0;
+
+  constructor(resolvers: Record<NameServiceKind, NameResolver>, options: NameResolutionOptions = {}) {
+    this.resolvers = resolvers;
+    this.storageKey = options.storageKey ?? 'name-resolution-cache';
+    this.storage = options.storage ?? localStorage;
+    this.now = options.now ?? Date.now;
+    const file = this.load();
+    this.names = readEntries(file?.names);
+    this.addresses = readEntries(file?.addresses);
+  }
+
+  /**
+   * Address a name points at, e.g. for `vitalik.eth`
+   */
+  async resolveName(name: string): Promise<Result<ResolvedName, DomainError>> {
+    const service = nameServiceForName(name);
+    if (!service) {
+      return Result.failure(new ValidationError(`${name} is not an ENS, SNS or SuiNS name`, 'name', name));
+    }
+
+    const normalized = normalizeName(name);
+    let address: string | null;
+    try {
+      address = await this.forward(service, normalized);
+    } catch (error) {
+      return Result.failure(new ExternalServiceError(
+        NAME_SERVICE_LABELS[service],
+        'resolve name',
+        `Could not resolve ${normalized}: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      ));
+    }
+
+    if (!address) {
+      return Result.failure(new ValidationError(`${normalized} does not point to an address`, 'name', normalized));
+    }
+    return Result.success({ name: normalized, address, service });
+  }
+
+  /**
+   * Verified primary name of an address, or null without one. Lookup errors
+   * keep whatever was cached before.
+   */
+  lookupAddress(service: NameServiceKind, address: string): Promise<string | null> {
+    const key = addressKey(service, address);
+    const cached = this.addresses.get(key);
+    if (cached && cached.expiresAt > this.now()) return Promise.resolve(cached.value);
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const lookup = this.reverse(service, address)
+      .then(name => {
+        this.addresses.set(key, {
+          value: name,
+          expiresAt: this.now() + (name ? NAME_CACHE_TTL_MS : MISSING_NAME_TTL_MS),
+        });
+        this.save();
+        if ((cached?.value ?? null) !== name) this.notify();
+        return name;
+      })
+      .catch((error: unknown) => {
+        console.warn(`[NameResolution] ${NAME_SERVICE_LABELS[service]} lookup failed for ${address}:`, error);
+        return cached?.value ?? null;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, lookup);
+    return lookup;
+  }
+
+  /**
+   * Last verified name of an address, expired or not, for rendering before a
+   * lookup finishes
+   */
+  getCachedName(service: NameServiceKind, address: string): string | null {
+    return this.addresses.get(addressKey(service, address))?.value ?? null;
+  }
+
+  /**
+   * Counter bumped whenever a cached name changes, usable as an external store snapshot
+   */
+  getVersion = (): number => this.version;
+
+  subscribe = (listener: () => void): () => void => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private async forward(service: NameServiceKind, name: string): Promise<string | null> {
+    const cached = this.names.get(name);
+    if (cached && cached.expiresAt > this.now()) return cached.value;
+
+    const address = await this.resolvers[service].resolve(name);
+    this.names.set(name, {
+      value: address,
+      expiresAt: this.now() + (address ? NAME_CACHE_TTL_MS : MISSING_NAME_TTL_MS),
+    });
+    this.save();
+    return address;
+  }
+
+  private async reverse(service: NameServiceKind, address: string): Promise<string | null> {
+    const name = await this.resolvers[service].lookup(address);
+    if (!name || nameServiceForName(name) !== service) return null;
+
+    // The reverse record is only a claim; the name has to point back here
+    const normalized = normalizeName(name);
+    this.names.delete(normalized);
+    const resolved = await this.forward(service, normalized);
+    return resolved && sameAddress(service, resolved, address) ? normalized : null;
+  }
+
+  private load(): Partial<NameCacheFile> | null {
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      return raw ? JSON.parse(raw) as Partial<NameCacheFile> : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    const now = this.now();
+    // Expired names are still shown until their lookup is repeated, so only forward lookups are pruned
+    const file: NameCacheFile = {
+      version: 1,
+      names: Object.fromEntries([...this.names].filter(([, entry]) => entry.expiresAt > now)),
+      addresses: Object.fromEntries(this.addresses),
+    };
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(file));
+    } catch (error) {
+      console.warn('[NameResolution] Failed to persist name cache:', error);
+    }
+  }
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+let instance: NameResolutionService | null = null;
+
+/**
+ * Client over the mainnet Ethereum endpoints of the built RPC config, tiers,
+ * API keys and the user's priority included, rebuilt when the settings or the
+ * vault change. ENS names live on mainnet whatever the app's environment.
+ */
+function createEnsClientSource(): () => EnsClient {
+  let ethereum: { key: string; client: EnsClient } | null = null;
+
+  return () => {
+    const key = `${rpcConfigService.getVersion()}:${getSecretVault().isUnlocked()}`;
+    if (ethereum?.key !== key) {
+      const { endpoints } = buildRpcProviderConfig('production', {
+        envVars: import.meta.env,
+        userConfig: rpcConfigService.getUserRpcConfig(),
+        rankEndpoints: createTelemetryRanker(),
+      }).chains[String(mainnet.id)];
+      const transport = fallback(endpoints.map(({ url }) => withRequestTelemetry(http(url), String(mainnet.id), url)));
+      ethereum = { key, client: createPublicClient({ chain: mainnet, transport }) };
+    }
+    return ethereum.client;
+  };
+}
+
+/**
+ * Shared service over mainnet endpoints: the configured Ethereum and Solana
+ * RPCs, and the public Sui fullnode used for balances
+ */
+export function getNameResolutionService(): NameResolutionService {
+  if (instance) return instance;
+
+
+  let solana: { url: string; connection: Connection } | null = null;
+  let sui: SuiClient | null = null;
+
+  instance = new NameResolutionService({
+    ens: new EnsResolver(createEnsClientSource()),
+    sns: new SnsResolver(() => {
+      const url = rpcConfigService.getActiveEndpoint('solana');
+      if (solana?.url !== url) {
+        solana = { url, connection: new Connection(url, { commitment: 'confirmed' }) };
+      }
+      return solana.connection;
+    }),
+    suins: new SuinsResolver(() => {
+      if (!sui) sui = new SuiClient({ url: getFullnodeUrl('mainnet') });
+      return sui;
+    }),
+  });
+  return instance;
+}
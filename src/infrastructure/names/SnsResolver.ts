@@ -0,0 +1,76 @@
+/**
+ * SNS lookups read straight from the Solana name program, over the app's
+ * configured Solana endpoint. Name accounts live at addresses derived from a
+ * hash of the name; the owner of a .sol name is the address it resolves to.
+ * The primary name of an address is its "favourite domain" record, read back
+ * through the reverse lookup account of that domain.
+ */
+
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { sha256, stringToBytes } from 'viem';
+import type { NameResolver } from '../../domain/names/NameService';
+
+export type SnsConnection = Pick<Connection, 'getAccountInfo'>;
+
+const NAME_PROGRAM_ID = new PublicKey('namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX');
+const NAME_OFFERS_PROGRAM_ID = new PublicKey('85iDfUvr3HJyLM2LcB5Ac4uUPXagKEtDUAVNU6xR5Bbh');
+/** Parent account of every .sol name */
+const SOL_TLD = new PublicKey('58PwtjSDuFHuUkYjH9BYnnQKHfwo9reZhC2zMJv9JPkx');
+const REVERSE_LOOKUP_CLASS = new PublicKey('33m47vH6Eav6jr5Ry86XjhRft2jRBLDnDgPSHoquXi2Z');
+const HASH_PREFIX = 'SPL Name Service';
+/** parent, owner and class keys precede the record data */
+const HEADER_LENGTH = 96;
+const OWNER_OFFSET = 32;
+
+function nameAccountKey(name: string, nameClass?: PublicKey, parent?: PublicKey): PublicKey {
+  const hashed = sha256(stringToBytes(HASH_PREFIX + name), 'bytes');
+  const [key] = PublicKey.findProgramAddressSync(
+    [hashed, nameClass?.toBytes() ?? new Uint8Array(32), parent?.toBytes() ?? new Uint8Array(32)],
+    NAME_PROGRAM_ID
+  );
+  return key;
+}
+
+/** Account of `name.sol`, or of `sub.name.sol` under its parent name */
+export function snsDomainKey(name: string): PublicKey {
+  const labels = name.replace(/\.sol$/, '').split('.');
+  if (labels.length === 1) return nameAccountKey(labels[0], undefined, SOL_TLD);
+  const [sub, parent] = labels;
+  return nameAccountKey(`\0${sub}`, undefined, nameAccountKey(parent, undefined, SOL_TLD));
+}
+
+export class SnsResolver implements NameResolver {
+  private readonly getConnection: () => SnsConnection;
+
+  constructor(getConnection: () => SnsConnection) {
+    this.getConnection = getConnection;
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    const account = await this.getConnection().getAccountInfo(snsDomainKey(name));
+    if (!account) return null;
+    return new PublicKey(account.data.subarray(OWNER_OFFSET, OWNER_OFFSET + 32)).toBase58();
+  }
+
+  async lookup(address: string): Promise<string | null> {
+    const connection = this.getConnection();
+    const [favouriteKey] = PublicKey.findProgramAddressSync(
+      [stringToBytes('favourite_domain'), new PublicKey(address).toBytes()],
+      NAME_OFFERS_PROGRAM_ID
+    );
+    const favourite = await connection.getAccountInfo(favouriteKey);
+    if (!favourite) return null;
+
+    // One tag byte, then the key of the chosen name account
+    const domainKey = new PublicKey(favourite.data.subarray(1, 33));
+    const reverse = await connection.getAccountInfo(nameAccountKey(domainKey.toBase58(), REVERSE_LOOKUP_CLASS));
+    if (!reverse) return null;
+
+    const data = reverse.data.subarray(HEADER_LENGTH);
+    const length = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true);
+    const label = new TextDecoder().decode(data.subarray(4, 4 + length));
+    // Subdomain records hold only their own label
+    if (!label || label.startsWith('\0')) return null;
+    return `${label}.sol`;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * SuiNS lookups through the Sui fullnode's name service methods. The first
+ * name returned for an address is its default name.
+ */
+
+import type { SuiClient } from '@mysten/sui.js/client';
+import type { NameResolver } from '../../domain/names/NameService';
+
+export type SuinsClient = Pick<SuiClient, 'resolveNameServiceAddress' | 'resolveNameServiceNames'>;
+
+export class SuinsResolver implements NameResolver {
+  private readonly getClient: () => SuinsClient;
+
+  constructor(getClient: () => SuinsClient) {
+    this.getClient = getClient;
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    return this.getClient().resolveNameServiceAddress({ name });
+  }
+
+  async lookup(address: string): Promise<string | null> {
+    const { data } = await this.getClient().resolveNameServiceNames({ address, limit: 1, format: 'dot' });
+    return data[0] ?? null;
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NAME_CACHE_TTL_MS, type NameResolver } from '../../../domain/names/NameService';
+import { NameResolutionService, type NameCacheStorage } from '../NameResolutionService';
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const OTHER = '0x1111111111111111111111111111111111111111';
+
+function createStorage(): NameCacheStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+  };
+}
+
+function createResolver(names: Record<string, string>, reverse: Record<string, string>) {
+  return {
+    resolve: vi.fn(async (name: string) => names[name] ?? null),
+    lookup: vi.fn(async (address: string) => reverse[address] ?? null),
+  } satisfies NameResolver;
+}
+
+function createService(ens: NameResolver, storage = createStorage(), now = () => 1000) {
+  const unused = createResolver({}, {});
+  return new NameResolutionService({ ens, sns: unused, suins: unused }, { storage, now });
+}
+
+describe('NameResolutionService', () => {
+  it('resolves names and caches the answer', async () => {
+    const ens = createResolver({ 'vitalik.eth': VITALIK }, {});
+    const service = createService(ens);
+
+    const result = await service.resolveName('Vitalik.eth');
+    expect(result.isSuccess).toBe(true);
+    expect(result.value).toEqual({ name: 'vitalik.eth', address: VITALIK, service: 'ens' });
+
+    await service.resolveName('vitalik.eth');
+    expect(ens.resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails for names without an address or outside the supported services', async () => {
+    const service = createService(createResolver({}, {}));
+
+    expect((await service.resolveName('nobody.eth')).error.message).toBe('nobody.eth does not point to an address');
+    expect((await service.resolveName('example.com')).isFailure).toBe(true);
+  });
+
+  it('reports resolver errors as external service failures', async () => {
+    const ens = createResolver({}, {});
+    ens.resolve.mockRejectedValueOnce(new Error('rpc down'));
+    const result = await createService(ens).resolveName('vitalik.eth');
+
+    expect(result.error.code).toBe('EXTERNAL_SERVICE_ERROR');
+    expect(result.error.message).toBe('Could not resolve vitalik.eth: rpc down');
+  });
+
+  it('keeps reverse names that resolve back to the address', async () => {
+    const ens = createResolver({ 'vitalik.eth': VITALIK }, { [VITALIK]: 'vitalik.eth' });
+    const service = createService(ens);
+    const listener = vi.fn();
+    service.subscribe(listener);
+
+    expect(await service.lookupAddress('ens', VITALIK)).toBe('vitalik.eth');
+    expect(service.getCachedName('ens', VITALIK.toLowerCase())).toBe('vitalik.eth');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops reverse names that point elsewhere', async () => {
+    const ens = createResolver({ 'vitalik.eth': VITALIK }, { [OTHER]: 'vitalik.eth' });
+    const service = createService(ens);
+
+    expect(await service.lookupAddress('ens', OTHER)).toBeNull();
+    expect(service.getCachedName('ens', OTHER)).toBeNull();
+  });
+
+  it('looks names up again once the cache expires', async () => {
+    const ens = createResolver({ 'vitalik.eth': VITALIK }, { [VITALIK]: 'vitalik.eth' });
+    const storage = createStorage();
+    let now = 1000;
+    const service = createService(ens, storage, () => now);
+
+    await Promise.all([service.lookupAddress('ens', VITALIK), service.lookupAddress('ens', VITALIK)]);
+    expect(ens.lookup).toHaveBeenCalledTimes(1);
+
+    // A new instance reads the persisted cache
+    const reloaded = createService(ens, storage, () => now);
+    expect(reloaded.getCachedName('ens', VITALIK)).toBe('vitalik.eth');
+    await reloaded.lookupAddress('ens', VITALIK);
+    expect(ens.lookup).toHaveBeenCalledTimes(1);
+
+    now += NAME_CACHE_TTL_MS + 1;
+    await reloaded.lookupAddress('ens', VITALIK);
+    expect(ens.lookup).toHaveBeenCalledTimes(2);
+    // The name is verified with a fresh forward lookup
+    expect(ens.resolve).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the cached name when a lookup fails', async () => {
+    const ens = createResolver({ 'vitalik.eth': VITALIK }, { [VITALIK]: 'vitalik.eth' });
+    let now = 1000;
+    const service = createService(ens, createStorage(), () => now);
+    await service.lookupAddress('ens', VITALIK);
+
+    now += NAME_CACHE_TTL_MS + 1;
+    ens.lookup.mockRejectedValueOnce(new Error('rpc down'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await service.lookupAddress('ens', VITALIK)).toBe('vitalik.eth');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -2,16 +2,40 @@
  * RPC Configuration Service
  * 
  * Centralized management of RPC endpoints for all supported chains.
- * Provides default configurations, custom endpoint management, health tracking,
- * and persistence to localStorage.
+ * Provides default configurations, custom endpoint management, priority
+ * ordering, health and latency tracking, and persistence to localStorage.
+ * Every health update is also recorded as telemetry, and fallback picks the
+ * best-scoring healthy endpoint.
+ * Managed provider API keys are kept in the SecretVault and only readable
+ * while it is unlocked.
  */
 
+import { Result } from '../../domain/shared/Result';
+import { ServiceError, type DomainError } from '../../domain/shared/DomainError';
+import { getSecretVault, type SecretVault } from '../vault/SecretVault';
+import { getRpcTelemetryStore } from './RpcTelemetryStore';
+import { classifyRpcError, rankByScore, scoreEndpoint, type EndpointScore } from '../../domain/rpc/EndpointTelemetry';
+import type { AppUserRpcConfig, ManagedRpcApiKeys, ManagedRpcProvider } from '../../config/rpc-provider-config.types';
+import { MANAGED_RPC_PROVIDERS } from '../../config/rpc-provider-config.types';
+import { CHAIN_REGISTRY, type ChainKey, type ChainNetwork } from '../../domain/chain/ChainRegistry';
+
+/** Latency samples kept per endpoint for the history shown in settings */
+export const LATENCY_HISTORY_SIZE = 20;
+
+const RPC_KEY_SECRET_PREFIX = 'rpc-key:';
+
+export function rpcApiKeySecretId(provider: ManagedRpcProvider): string {
+  return `${RPC_KEY_SECRET_PREFIX}${provider}`;
+}
+
 export interface RpcEndpoint {
   url: string;
   name: string;
   isHealthy: boolean;
   lastChecked?: number;
   responseTime?: number;
+  /** Most recent response times in ms, oldest first */
+  latencyHistory?: number[];
 }
 
 export interface ChainRpcConfig {
@@ -19,15 +43,47 @@ export interface ChainRpcConfig {
   defaultEndpoints: RpcEndpoint[];
   customEndpoints: RpcEndpoint[];
   activeEndpoint: string;
+  /** Endpoint URLs in priority order; endpoints missing from it follow in list order */
+  endpointOrder: string[];
 }
 
-export type SupportedChain = 'ethereum' | 'polygon' | 'arbitrum' | 'optimism' | 'bsc' | 'avalanche' | 'base' | 'solana' | 'sui';
+/** User-managed part of a chain's configuration, as persisted and backed up */
+export interface CustomRpcConfiguration {
+  customEndpoints: Array<{ url: string; name: string }>;
+  activeEndpoint?: string;
+}
+
+export interface EndpointHealthCheck {
+  isHealthy: boolean;
+  responseTime: number;
+  errorCode?: string;
+}
+
+export type SupportedChain = ChainKey;
+
+/**
+ * Endpoints each chain starts with: the keyless tiers of its production
+ * network, in the order buildRpcProviderConfig tries them. Keyed providers
+ * join the built config once their API key is entered. Bitcoin lists Esplora
+ * REST APIs; a self-hosted instance is added as a custom endpoint.
+ */
+function defaultEndpoints(network: ChainNetwork): Array<{ url: string; name: string }> {
+  const { pokt, lava, esplora = [], public: publicUrls } = network.rpc;
+  return [
+    ...(pokt ? [{ url: pokt, name: 'POKT Gateway' }] : []),
+    ...(lava ? [{ url: lava, name: 'Lava Network' }] : []),
+    ...esplora.map(({ url, provider }) => ({ url, name: provider })),
+    ...publicUrls.map(url => ({ url, name: new URL(url).host })),
+  ];
+}
 
 export class RpcConfigurationService {
   private static instance: RpcConfigurationService;
   private configs: Map<SupportedChain, ChainRpcConfig>;
   private readonly STORAGE_KEY = 'rpc-configurations';
   private readonly HEALTH_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private listeners: Set<() => void> = new Set();
+  private version = 0;
 
   private constructor() {
     this.configs = new Map();
@@ -46,113 +102,20 @@ export class RpcConfigurationService {
    * Initialize default RPC configurations for all supported chains
    */
   private initializeDefaultConfigurations(): void {
-    // Ethereum
-    this.configs.set('ethereum', {
-      chainId: '1',
-      defaultEndpoints: [
-        { url: 'https://eth-mainnet.g.alchemy.com/v2/demo', name: 'Alchemy', isHealthy: true },
-        { url: 'https://rpc.ankr.com/eth', name: 'Ankr', isHealthy: true },
-        { url: 'https://cloudflare-eth.com', name: 'Cloudflare', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://eth-mainnet.g.alchemy.com/v2/demo'
-    });
-
-    // Polygon
-    this.configs.set('polygon', {
-      chainId: '137',
-      defaultEndpoints: [
-        { url: 'https://polygon-rpc.com', name: 'Polygon Official', isHealthy: true },
-        { url: 'https://rpc.ankr.com/polygon', name: 'Ankr', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://polygon-rpc.com'
-    });
-
-    // Arbitrum
-    this.configs.set('arbitrum', {
-      chainId: '42161',
-      defaultEndpoints: [
-        { url: 'https://arb1.arbitrum.io/rpc', name: 'Arbitrum Official', isHealthy: true },
-        { url: 'https://rpc.ankr.com/arbitrum', name: 'Ankr', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://arb1.arbitrum.io/rpc'
-    });
-
-    // Optimism
-    this.configs.set('optimism', {
-      chainId: '10',
-      defaultEndpoints: [
-        { url: 'https://mainnet.optimism.io', name: 'Optimism Official', isHealthy: true },
-        { url: 'https://rpc.ankr.com/optimism', name: 'Ankr', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://mainnet.optimism.io'
-    });
-
-    // BSC
-    this.configs.set('bsc', {
-      chainId: '56',
-      defaultEndpoints: [
-        { url: 'https://bsc-dataseed1.binance.org', name: 'Binance', isHealthy: true },
-        { url: 'https://rpc.ankr.com/bsc', name: 'Ankr', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://bsc-dataseed1.binance.org'
-    });
-
-    // Avalanche
-    this.configs.set('avalanche', {
-      chainId: '43114',
-      defaultEndpoints: [
-        { url: 'https://api.avax.network/ext/bc/C/rpc', name: 'Avalanche Official', isHealthy: true },
-        { url: 'https://rpc.ankr.com/avalanche', name: 'Ankr', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://api.avax.network/ext/bc/C/rpc'
-    });
-
-    // Base
-    this.configs.set('base', {
-      chainId: '8453',
-      defaultEndpoints: [
-        { url: 'https://mainnet.base.org', name: 'Base Official', isHealthy: true },
-        { url: 'https://rpc.ankr.com/base', name: 'Ankr', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://mainnet.base.org'
-    });
-
-    // Solana - with QuickNode endpoint
-    this.configs.set('solana', {
-      chainId: 'solana-mainnet',
-      defaultEndpoints: [
-        { 
-          url: 'https://wiser-lingering-gas.solana-mainnet.quiknode.pro/160ecd1c42f82d449445981bd36df3db377abc66/', 
-          name: 'QuickNode', 
-          isHealthy: true 
-        },
-        { url: 'https://solana.publicnode.com', name: 'PublicNode', isHealthy: true },
-        { url: 'https://api.mainnet-beta.solana.com', name: 'Solana Official', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://wiser-lingering-gas.solana-mainnet.quiknode.pro/160ecd1c42f82d449445981bd36df3db377abc66/'
-    });
-
-    // SUI
-    this.configs.set('sui', {
-      chainId: 'sui-mainnet',
-      defaultEndpoints: [
-        { url: 'https://fullnode.mainnet.sui.io', name: 'SUI Official', isHealthy: true },
-        { url: 'https://rpc.ankr.com/sui', name: 'Ankr', isHealthy: true },
-        { url: 'https://sui-mainnet.nodeinfra.com', name: 'NodeInfra', isHealthy: true }
-      ],
-      customEndpoints: [],
-      activeEndpoint: 'https://fullnode.mainnet.sui.io'
-    });
+    for (const chain of CHAIN_REGISTRY) {
+      const network = chain.networks.production!;
+      const endpoints = defaultEndpoints(network).map(endpoint => ({ ...endpoint, isHealthy: true }));
+      this.configs.set(chain.key, {
+        chainId: network.rpcKey,
+        defaultEndpoints: endpoints,
+        customEndpoints: [],
+        endpointOrder: [],
+        activeEndpoint: endpoints[0].url
+      });
+    }
   }
 
+
   /**
    * Load custom configurations from localStorage
    */
@@ -163,16 +126,19 @@ export class RpcConfigurationService {
         const customConfigs = JSON.parse(stored);
         
         // Merge custom configurations with defaults
-        for (const [chain, config] of Object.entries(customConfigs) as Array<[SupportedChain, { customEndpoints?: Array<{ url: string; name: string; isHealthy?: boolean }>; activeEndpoint?: string }]>) {
+        for (const [chain, config] of Object.entries(customConfigs) as Array<[SupportedChain, { customEndpoints?: Array<{ url: string; name: string; isHealthy?: boolean }>; activeEndpoint?: string; endpointOrder?: string[] }]>) {
           const existingConfig = this.configs.get(chain);
+          if (existingConfig && Array.isArray(config.endpointOrder)) {
+            existingConfig.endpointOrder = config.endpointOrder.filter(url => typeof url === 'string');
+          }
           if (existingConfig && config.customEndpoints) {
             existingConfig.customEndpoints = config.customEndpoints.map((endpoint: { url: string; name: string; isHealthy?: boolean }) => ({
               ...endpoint,
               isHealthy: endpoint.isHealthy ?? true
             }));
             
-            // Update active endpoint if specified
-            if (config.activeEndpoint) {
+            // Update active endpoint if specified and still offered
+            if (config.activeEndpoint && this.getAllEndpoints(chain).some(endpoint => endpoint.url === config.activeEndpoint)) {
               existingConfig.activeEndpoint = config.activeEndpoint;
             }
           }
@@ -188,12 +154,13 @@ export class RpcConfigurationService {
    */
   private saveConfigurations(): void {
     try {
-      const configsToSave: Record<string, { customEndpoints: RpcEndpoint[]; activeEndpoint: string }> = {};
+      const configsToSave: Record<string, { customEndpoints: RpcEndpoint[]; activeEndpoint: string; endpointOrder: string[] }> = {};
       
       for (const [chain, config] of this.configs.entries()) {
         configsToSave[chain] = {
           customEndpoints: config.customEndpoints,
-          activeEndpoint: config.activeEndpoint
+          activeEndpoint: config.activeEndpoint,
+          endpointOrder: config.endpointOrder
         };
       }
       
@@ -201,8 +168,29 @@ export class RpcConfigurationService {
     } catch (error) {
       console.warn('Failed to save RPC configurations:', error);
     }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
   }
 
+  /**
+   * Subscribe to endpoint, priority and health changes; returns an unsubscribe function
+   */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Counter bumped on every change, usable as an external store snapshot
+   */
+  public getVersion = (): number => this.version;
+
   /**
    * Get the active RPC endpoint for a chain
    */
@@ -222,7 +210,37 @@ export class RpcConfigurationService {
     if (!config) {
       throw new Error(`Chain ${chain} is not supported`);
     }
-    return [...config.defaultEndpoints, ...config.customEndpoints];
+    const endpoints = [...config.defaultEndpoints, ...config.customEndpoints];
+    const rank = (endpoint: RpcEndpoint) => {
+      const index = config.endpointOrder.indexOf(endpoint.url);
+      return index === -1 ? config.endpointOrder.length + endpoints.indexOf(endpoint) : index;
+    };
+    return endpoints.sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Move an endpoint up (negative offset) or down the priority list; the one
+   * on top becomes the active endpoint
+   */
+  public moveEndpoint(chain: SupportedChain, url: string, offset: number): void {
+    const config = this.configs.get(chain);
+    if (!config) {
+      throw new Error(`Chain ${chain} is not supported`);
+    }
+
+    const order = this.getAllEndpoints(chain).map(endpoint => endpoint.url);
+    const from = order.indexOf(url);
+    if (from === -1) {
+      throw new Error(`Endpoint ${url} not found for chain ${chain}`);
+    }
+    const to = Math.min(Math.max(from + offset, 0), order.length - 1);
+    if (to === from) return;
+
+    order.splice(to, 0, ...order.splice(from, 1));
+    config.endpointOrder = order;
+    // The endpoint on top is the one used first
+    config.activeEndpoint = order[0];
+    this.saveConfigurations();
   }
 
   /**
@@ -233,7 +251,7 @@ export class RpcConfigurationService {
   }
 
   /**
-   * Set the active endpoint for a chain
+   * Set the active endpoint for a chain, moving it to the top of the priority list
    */
   public setActiveEndpoint(chain: SupportedChain, url: string): void {
     const config = this.configs.get(chain);
@@ -249,6 +267,7 @@ export class RpcConfigurationService {
     }
 
     config.activeEndpoint = url;
+    config.endpointOrder = [url, ...allEndpoints.map(ep => ep.url).filter(orderedUrl => orderedUrl !== url)];
     this.saveConfigurations();
   }
 
@@ -261,6 +280,10 @@ export class RpcConfigurationService {
       throw new Error(`Chain ${chain} is not supported`);
     }
 
+    if (this.getAllEndpoints(chain).some(ep => ep.url === endpoint.url)) {
+      throw new Error(`Endpoint ${endpoint.url} already exists for chain ${chain}`);
+    }
+
     const newEndpoint: RpcEndpoint = {
       ...endpoint,
       isHealthy: true
@@ -280,22 +303,72 @@ export class RpcConfigurationService {
     }
 
     config.customEndpoints = config.customEndpoints.filter(ep => ep.url !== url);
+    config.endpointOrder = config.endpointOrder.filter(orderedUrl => orderedUrl !== url);
     
-    // If the removed endpoint was active, switch to default
+    // If the removed endpoint was active, switch to the next one in line
     if (config.activeEndpoint === url && config.defaultEndpoints.length > 0) {
-      config.activeEndpoint = config.defaultEndpoints[0].url;
+      config.activeEndpoint = this.getAllEndpoints(chain)[0].url;
     }
 
     this.saveConfigurations();
   }
 
+  /**
+   * Custom endpoints and active endpoint of every chain, for backups
+   */
+  public exportCustomConfigurations(): Record<string, CustomRpcConfiguration> {
+    const configs: Record<string, CustomRpcConfiguration> = {};
+    for (const [chain, config] of this.configs.entries()) {
+      configs[chain] = {
+        customEndpoints: config.customEndpoints.map(({ url, name }) => ({ url, name })),
+        activeEndpoint: config.activeEndpoint
+      };
+    }
+    return configs;
+  }
+
+  /**
+   * Replace the custom endpoints of every supported chain. Chains missing from
+   * `configs` fall back to their defaults; unknown chains are ignored.
+   */
+  public replaceCustomConfigurations(configs: Record<string, CustomRpcConfiguration>): void {
+    for (const [chain, config] of this.configs.entries()) {
+      const incoming = configs[chain];
+      config.customEndpoints = (incoming?.customEndpoints ?? []).map(({ url, name }) => ({
+        url,
+        name,
+        isHealthy: true
+      }));
+
+      const known = [...config.defaultEndpoints, ...config.customEndpoints].some(
+        endpoint => endpoint.url === incoming?.activeEndpoint
+      );
+      config.activeEndpoint = known && incoming?.activeEndpoint
+        ? incoming.activeEndpoint
+        : config.defaultEndpoints[0]?.url ?? config.activeEndpoint;
+    }
+    this.saveConfigurations();
+  }
+
   /**
    * Update endpoint health status
    */
-  public updateEndpointHealth(chain: SupportedChain, url: string, isHealthy: boolean, responseTime?: number): void {
+  public updateEndpointHealth(
+    chain: SupportedChain,
+    url: string,
+    isHealthy: boolean,
+    responseTime?: number,
+    errorCode?: string
+  ): void {
     const config = this.configs.get(chain);
     if (!config) return;
 
+    getRpcTelemetryStore().record(config.chainId, url, {
+      ok: isHealthy,
+      ...(responseTime !== undefined ? { latencyMs: responseTime } : {}),
+      ...(!isHealthy && errorCode ? { errorCode } : {}),
+    });
+
     const updateEndpoint = (endpoints: RpcEndpoint[]) => {
       const endpoint = endpoints.find(ep => ep.url === url);
       if (endpoint) {
@@ -303,42 +376,43 @@ export class RpcConfigurationService {
         endpoint.lastChecked = Date.now();
         if (responseTime !== undefined) {
           endpoint.responseTime = responseTime;
+          endpoint.latencyHistory = [...(endpoint.latencyHistory ?? []), responseTime].slice(-LATENCY_HISTORY_SIZE);
         }
       }
     };
 
     updateEndpoint(config.defaultEndpoints);
     updateEndpoint(config.customEndpoints);
+    this.notify();
   }
 
   /**
-   * Get the next healthy endpoint for fallback
+   * Endpoints of a chain ranked by telemetry score. The priority order is the
+   * prior, so until there are measurements the ranking follows it.
    */
-  public getNextHealthyEndpoint(chain: SupportedChain, currentUrl?: string): string | null {
-    const healthyEndpoints = this.getHealthyEndpoints(chain);
-
-    if (healthyEndpoints.length === 0) {
-      return null;
-    }
-
-    if (!currentUrl) {
-      return healthyEndpoints[0].url;
+  public getRankedEndpoints(chain: SupportedChain): Array<{ item: RpcEndpoint; ranking: EndpointScore }> {
+    const config = this.configs.get(chain);
+    if (!config) {
+      throw new Error(`Chain ${chain} is not supported`);
     }
 
-    // If only one healthy endpoint and it's the current one, no fallback available
-    if (healthyEndpoints.length === 1 && healthyEndpoints[0].url === currentUrl) {
-      return null;
-    }
+    const telemetry = getRpcTelemetryStore();
+    return rankByScore(this.getAllEndpoints(chain), (endpoint, index) => scoreEndpoint(
+      telemetry.getStats(config.chainId, endpoint.url),
+      Math.max(0.9 - 0.05 * index, 0.3),
+      'priority order'
+    ));
+  }
 
-    const currentIndex = healthyEndpoints.findIndex(ep => ep.url === currentUrl);
-    if (currentIndex === -1) {
-      return healthyEndpoints[0].url;
-    }
-    if (currentIndex === healthyEndpoints.length - 1) {
-      return healthyEndpoints[0].url; // Wrap around to first healthy endpoint
-    }
+  /**
+   * Get the best-scoring healthy endpoint other than the current one, for fallback
+   */
+  public getNextHealthyEndpoint(chain: SupportedChain, currentUrl?: string): string | null {
+    const candidates = this.getRankedEndpoints(chain)
+      .map(({ item }) => item)
+      .filter(endpoint => endpoint.isHealthy && endpoint.url !== currentUrl);
 
-    return healthyEndpoints[currentIndex + 1].url;
+    return candidates[0]?.url ?? null;
   }
 
   /**
@@ -358,38 +432,44 @@ export class RpcConfigurationService {
   /**
    * Health check for an endpoint
    */
-  public async checkEndpointHealth(url: string): Promise<{ isHealthy: boolean; responseTime: number }> {
+  public async checkEndpointHealth(url: string, chain?: SupportedChain): Promise<EndpointHealthCheck> {
     const startTime = Date.now();
     
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method: url.includes('solana') ? 'getHealth' : 'eth_blockNumber',
-          params: []
-        }),
-        signal: controller.signal
-      });
+      // Esplora has no JSON-RPC; ask for the chain tip instead
+      const response = chain === 'bitcoin'
+        ? await fetch(`${url.replace(/\/+$/, '')}/blocks/tip/height`, { signal: controller.signal })
+        : await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: healthCheckMethod(url, chain),
+            params: []
+          }),
+          signal: controller.signal
+        });
 
       clearTimeout(timeoutId);
       const responseTime = Date.now() - startTime;
       
+      const isHealthy = response.ok && response.status === 200;
       return {
-        isHealthy: response.ok && response.status === 200,
-        responseTime
+        isHealthy,
+        responseTime,
+        ...(isHealthy ? {} : { errorCode: classifyRpcError(null, response.status) })
       };
-    } catch {
+    } catch (error) {
       return {
         isHealthy: false,
-        responseTime: Date.now() - startTime
+        responseTime: Date.now() - startTime,
+        errorCode: classifyRpcError(error)
       };
     }
   }
@@ -403,13 +483,115 @@ export class RpcConfigurationService {
 
     const allEndpoints = this.getAllEndpoints(chain);
     const healthPromises = allEndpoints.map(async (endpoint) => {
-      const { isHealthy, responseTime } = await this.checkEndpointHealth(endpoint.url);
-      this.updateEndpointHealth(chain, endpoint.url, isHealthy, responseTime);
+      await this.testEndpoint(chain, endpoint.url);
     });
 
     await Promise.allSettled(healthPromises);
   }
 
+  /**
+   * Check a single endpoint and record the result in its health and latency history
+   */
+  public async testEndpoint(chain: SupportedChain, url: string): Promise<EndpointHealthCheck> {
+    const result = await this.checkEndpointHealth(url, chain);
+    this.updateEndpointHealth(chain, url, result.isHealthy, result.responseTime, result.errorCode);
+    return result;
+  }
+
+  /**
+   * Check any endpoint of a chain by chain ID, e.g. one of the provider tiers
+   * from buildRpcProviderConfig, and record the result as telemetry
+   */
+  public async probeEndpoint(chainId: string, url: string): Promise<EndpointHealthCheck> {
+    const chain = [...this.configs.entries()].find(([, config]) => config.chainId === chainId)?.[0];
+    if (chain && this.getAllEndpoints(chain).some(endpoint => endpoint.url === url)) {
+      return this.testEndpoint(chain, url);
+    }
+
+    const result = await this.checkEndpointHealth(url, chain ?? (chainId.startsWith('solana') ? 'solana' : undefined));
+    getRpcTelemetryStore().record(chainId, url, {
+      ok: result.isHealthy,
+      latencyMs: result.responseTime,
+      ...(result.errorCode ? { errorCode: result.errorCode } : {}),
+    });
+    return result;
+  }
+
+  /**
+   * Custom endpoints and the priority order of every chain the user changed,
+   * the active endpoint first, in the shape buildRpcProviderConfig takes, plus
+   * the managed provider keys from the vault when it is unlocked. Chains left
+   * as they are keep the built-in tiers and their measured ranking.
+   */
+  public getUserRpcConfig(vault: SecretVault = getSecretVault()): AppUserRpcConfig {
+    const endpoints: AppUserRpcConfig['endpoints'] = [];
+    const endpointPriority: Record<string, string[]> = {};
+    for (const [chain, config] of this.configs.entries()) {
+      const ordered = this.getAllEndpoints(chain);
+      const customUrls = new Set(config.customEndpoints.map(endpoint => endpoint.url));
+      for (const endpoint of ordered) {
+        if (customUrls.has(endpoint.url)) {
+          endpoints.push({ chainId: config.chainId, url: endpoint.url, label: endpoint.name });
+        }
+      }
+
+      const isChanged = customUrls.size > 0
+        || config.endpointOrder.length > 0
+        || config.activeEndpoint !== config.defaultEndpoints[0]?.url;
+      if (isChanged) {
+        endpointPriority[config.chainId] = [
+          config.activeEndpoint,
+          ...ordered.map(endpoint => endpoint.url).filter(url => url !== config.activeEndpoint),
+        ];
+      }
+    }
+    return { endpoints, mode: 'prepend', endpointPriority, apiKeys: this.getApiKeys(vault) };
+  }
+
+  /**
+   * Managed provider API keys held in the vault; empty while it is locked
+   */
+  public getApiKeys(vault: SecretVault = getSecretVault()): ManagedRpcApiKeys {
+    const keys: ManagedRpcApiKeys = {};
+    if (!vault.isUnlocked()) return keys;
+    for (const provider of MANAGED_RPC_PROVIDERS) {
+      const key = vault.getSecret(rpcApiKeySecretId(provider));
+      if (key) keys[provider] = key;
+    }
+    return keys;
+  }
+
+  /**
+   * Providers that have a key stored, readable without unlocking the vault
+   */
+  public getConfiguredApiKeyProviders(vault: SecretVault = getSecretVault()): ManagedRpcProvider[] {
+    return MANAGED_RPC_PROVIDERS.filter(provider => vault.hasSecret(rpcApiKeySecretId(provider)));
+  }
+
+  /**
+   * Store a managed provider API key in the vault; an empty key removes it
+   */
+  public async setApiKey(
+    provider: ManagedRpcProvider,
+    apiKey: string,
+    vault: SecretVault = getSecretVault()
+  ): Promise<Result<void, DomainError>> {
+    if (!vault.isUnlocked()) {
+      return Result.failure(new ServiceError('VAULT_LOCKED', 'Unlock the vault to change RPC API keys'));
+    }
+
+    const trimmed = apiKey.trim();
+    if (trimmed === '') {
+      vault.deleteSecret(rpcApiKeySecretId(provider));
+      this.notify();
+      return Result.success(undefined);
+    }
+
+    const result = await vault.setSecret(rpcApiKeySecretId(provider), trimmed);
+    if (result.isSuccess) this.notify();
+    return result;
+  }
+
   /**
    * Start periodic health checks for all chains
    */
@@ -423,5 +605,14 @@ export class RpcConfigurationService {
   }
 }
 
+/**
+ * JSON-RPC method used to probe an endpoint: Solana and Sui have no eth_ methods
+ */
+function healthCheckMethod(url: string, chain?: SupportedChain): string {
+  if (chain === 'solana' || (!chain && url.includes('solana'))) return 'getHealth';
+  if (chain === 'sui') return 'sui_getLatestCheckpointSequenceNumber';
+  return 'eth_blockNumber';
+}
+
 // Export singleton instance
 export const rpcConfigService = RpcConfigurationService.getInstance();
\ No newline at end of file
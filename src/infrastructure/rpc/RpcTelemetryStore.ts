@@ -0,0 +1,179 @@
+/**
+ * RPC Telemetry Store
+ *
+ * Rolling per-endpoint, per-chain record of request outcomes, persisted to
+ * localStorage so rankings survive reloads. Endpoint URLs can carry API keys,
+ * so entries are keyed by a hash of the URL rather than the URL itself.
+ *
+ * Every RPC request records a sample, so samples are kept in memory and
+ * written out at most once per persist interval, and when the page is hidden;
+ * subscribers are likewise told about a burst of samples once.
+ */
+
+import {
+  appendSample,
+  summarizeSamples,
+  type EndpointStats,
+  type TelemetrySample,
+} from '../../domain/rpc/EndpointTelemetry';
+
+export type TelemetryStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface RpcTelemetryStoreOptions {
+  storageKey?: string;
+  storage?: TelemetryStorage;
+  /** Longest time new samples wait to be written to storage */
+  persistDelayMs?: number;
+  /** Longest time new samples wait to be announced to subscribers */
+  notifyDelayMs?: number;
+}
+
+interface TelemetryFile {
+  version: 1;
+  endpoints: Record<string, TelemetrySample[]>;
+}
+
+const TELEMETRY_VERSION = 1;
+const DEFAULT_PERSIST_DELAY_MS = 5_000;
+const DEFAULT_NOTIFY_DELAY_MS = 250;
+
+/** FNV-1a over the URL, twice with different offsets, as 16 hex chars */
+function hashUrl(url: string): string {
+  const fnv = (offset: number) => {
+    let hash = offset;
+    for (let i = 0; i < url.length; i++) {
+      hash ^= url.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  };
+  return fnv(0x811c9dc5) + fnv(0x050c5d1f);
+}
+
+export function telemetryKey(chainId: string, url: string): string {
+  return `${chainId}:${hashUrl(url)}`;
+}
+
+function isSample(value: unknown): value is TelemetrySample {
+  if (typeof value !== 'object' || value === null) return false;
+  const sample = value as Record<string, unknown>;
+  return typeof sample.at === 'number' && typeof sample.ok === 'boolean';
+}
+
+export class RpcTelemetryStore {
+  private storageKey: string;
+  private storage: TelemetryStorage;
+  private samples: Map<string, TelemetrySample[]>;
+  private listeners: Set<() => void> = new Set();
+  private version = 0;
+  private persistDelayMs: number;
+  private notifyDelayMs: number;
+  private persistTimer: ReturnType<typeof setTimeout> | undefined;
+  private notifyTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RpcTelemetryStoreOptions = {}) {
+    this.storageKey = options.storageKey ?? 'rpc-telemetry';
+    this.storage = options.storage ?? localStorage;
+    this.persistDelayMs = options.persistDelayMs ?? DEFAULT_PERSIST_DELAY_MS;
+    this.notifyDelayMs = options.notifyDelayMs ?? DEFAULT_NOTIFY_DELAY_MS;
+    this.samples = this.load();
+    // Samples still waiting for the persist interval would be lost with the page
+    globalThis.addEventListener?.('pagehide', this.flush);
+  }
+
+  /**
+   * Record the outcome of one request to an endpoint
+   */
+  record(chainId: string, url: string, sample: Omit<TelemetrySample, 'at'> & { at?: number }): void {
+    const key = telemetryKey(chainId, url);
+    const at = sample.at ?? Date.now();
+    this.samples.set(key, appendSample(this.samples.get(key) ?? [], { ...sample, at }, at));
+    this.persistTimer ??= setTimeout(this.flush, this.persistDelayMs);
+    this.notifyTimer ??= setTimeout(() => {
+      this.notifyTimer = undefined;
+      this.notify();
+    }, this.notifyDelayMs);
+  }
+
+  /**
+   * Write samples still waiting for the persist interval
+   */
+  flush = (): void => {
+    if (this.persistTimer === undefined) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = undefined;
+    this.save();
+  };
+
+  getSamples(chainId: string, url: string): TelemetrySample[] {
+    return this.samples.get(telemetryKey(chainId, url)) ?? [];
+  }
+
+  getStats(chainId: string, url: string): EndpointStats {
+    return summarizeSamples(this.getSamples(chainId, url));
+  }
+
+  clear(): void {
+    clearTimeout(this.persistTimer);
+    this.persistTimer = undefined;
+    this.samples.clear();
+    this.storage.removeItem(this.storageKey);
+    this.notify();
+  }
+
+  /**
+   * Subscribe to new samples; returns an unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Counter bumped on every change, usable as an external store snapshot
+   */
+  getVersion = (): number => this.version;
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): Map<string, TelemetrySample[]> {
+    const samples = new Map<string, TelemetrySample[]>();
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (!raw) return samples;
+      const file = JSON.parse(raw) as Partial<TelemetryFile>;
+      if (file.version !== TELEMETRY_VERSION || typeof file.endpoints !== 'object' || file.endpoints === null) {
+        return samples;
+      }
+      for (const [key, entries] of Object.entries(file.endpoints)) {
+        if (Array.isArray(entries)) samples.set(key, entries.filter(isSample));
+      }
+    } catch (error) {
+      console.warn('Failed to load RPC telemetry:', error);
+    }
+    return samples;
+  }
+
+  private save(): void {
+    try {
+      const file: TelemetryFile = { version: TELEMETRY_VERSION, endpoints: Object.fromEntries(this.samples) };
+      this.storage.setItem(this.storageKey, JSON.stringify(file));
+    } catch (error) {
+      console.warn('Failed to save RPC telemetry:', error);
+    }
+  }
+}
+
+let _telemetryStoreInstance: RpcTelemetryStore | null = null;
+
+export function getRpcTelemetryStore(): RpcTelemetryStore {
+  if (!_telemetryStoreInstance) {
+    _telemetryStoreInstance = new RpcTelemetryStore();
+  }
+  return _telemetryStoreInstance;
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { rpcConfigService, rpcApiKeySecretId, LATENCY_HISTORY_SIZE } from '../RpcConfigurationService';
+import { SecretVault, type VaultStorage } from '../../vault/SecretVault';
+import { buildRpcProviderConfig } from '../../../config/buildRpcProviderConfig';
+
+function createMemoryStorage(): VaultStorage {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+const MY_NODE = 'https://my-eth-node.example';
+
+/** Last RPC configuration written to the (mocked) localStorage */
+function lastSaved(): string {
+  const calls = vi.mocked(localStorage.setItem).mock.calls.filter(([key]) => key === 'rpc-configurations');
+  return calls.at(-1)?.[1] ?? '';
+}
+
+describe('RpcConfigurationService', () => {
+  let vault: SecretVault;
+
+  beforeEach(() => {
+    rpcConfigService.replaceCustomConfigurations({});
+    for (const chain of rpcConfigService.getSupportedChains()) {
+      rpcConfigService.getChainConfig(chain)!.endpointOrder = [];
+    }
+    vault = new SecretVault({ storageKey: 'test-vault', storage: createMemoryStorage(), iterations: 1000 });
+  });
+
+  it('reorders endpoints and persists the priority', () => {
+    rpcConfigService.addCustomEndpoint('ethereum', { url: MY_NODE, name: 'Mine' });
+    const urls = () => rpcConfigService.getAllEndpoints('ethereum').map(e => e.url);
+    expect(urls().at(-1)).toBe(MY_NODE);
+
+    rpcConfigService.moveEndpoint('ethereum', MY_NODE, -100);
+
+    expect(urls()[0]).toBe(MY_NODE);
+    const saved = JSON.parse(lastSaved());
+    expect(saved.ethereum.endpointOrder[0]).toBe(MY_NODE);
+  });
+
+  it('rejects duplicate endpoints', () => {
+    rpcConfigService.addCustomEndpoint('ethereum', { url: MY_NODE, name: 'Mine' });
+    expect(() => rpcConfigService.addCustomEndpoint('ethereum', { url: MY_NODE, name: 'Again' })).toThrow();
+  });
+
+  it('records a capped latency history and notifies subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = rpcConfigService.subscribe(listener);
+    const url = rpcConfigService.getAllEndpoints('polygon')[0].url;
+
+    for (let i = 0; i < LATENCY_HISTORY_SIZE + 5; i++) {
+      rpcConfigService.updateEndpointHealth('polygon', url, true, i);
+    }
+    unsubscribe();
+
+    const endpoint = rpcConfigService.getAllEndpoints('polygon').find(e => e.url === url)!;
+    expect(endpoint.latencyHistory).toHaveLength(LATENCY_HISTORY_SIZE);
+    expect(endpoint.latencyHistory!.at(-1)).toBe(LATENCY_HISTORY_SIZE + 4);
+    expect(listener).toHaveBeenCalledTimes(LATENCY_HISTORY_SIZE + 5);
+  });
+
+  it('falls back to the best-scoring healthy endpoint', () => {
+    const [first, second] = rpcConfigService.getAllEndpoints('arbitrum');
+    expect(rpcConfigService.getNextHealthyEndpoint('arbitrum', first.url)).toBe(second.url);
+
+    rpcConfigService.addCustomEndpoint('arbitrum', { url: 'https://fast-arb.example', name: 'Fast' });
+    for (let i = 0; i < 20; i++) {
+      rpcConfigService.updateEndpointHealth('arbitrum', second.url, i % 2 === 0, 900, 'HTTP_429');
+      rpcConfigService.updateEndpointHealth('arbitrum', 'https://fast-arb.example', true, 50);
+    }
+    rpcConfigService.updateEndpointHealth('arbitrum', second.url, true, 900);
+
+    expect(rpcConfigService.getNextHealthyEndpoint('arbitrum', first.url)).toBe('https://fast-arb.example');
+    rpcConfigService.removeCustomEndpoint('arbitrum', 'https://fast-arb.example');
+  });
+
+  it('builds the user RPC config from custom endpoints in priority order', () => {
+    rpcConfigService.addCustomEndpoint('ethereum', { url: MY_NODE, name: 'Mine' });
+    rpcConfigService.addCustomEndpoint('ethereum', { url: 'https://second.example', name: 'Second' });
+    rpcConfigService.moveEndpoint('ethereum', 'https://second.example', -1);
+
+    const config = rpcConfigService.getUserRpcConfig(vault);
+
+    expect(config.mode).toBe('prepend');
+    expect(config.endpoints).toEqual([
+      { chainId: '1', url: 'https://second.example', label: 'Second' },
+      { chainId: '1', url: MY_NODE, label: 'Mine' },
+    ]);
+  });
+
+  it('sends the priority order to the built provider config, the active endpoint first', () => {
+    const built = () => buildRpcProviderConfig('production', {
+      envVars: {},
+      userConfig: rpcConfigService.getUserRpcConfig(vault),
+    }).chains['10'].endpoints.map(e => e.url);
+    const [pokt, lava, official] = rpcConfigService.getAllEndpoints('optimism').map(e => e.url);
+    expect(built().slice(0, 3)).toEqual([pokt, lava, official]);
+
+    rpcConfigService.moveEndpoint('optimism', lava, -1);
+    expect(built().slice(0, 3)).toEqual([lava, pokt, official]);
+    expect(rpcConfigService.getActiveEndpoint('optimism')).toBe(lava);
+
+    rpcConfigService.setActiveEndpoint('optimism', official);
+    expect(built().slice(0, 3)).toEqual([official, lava, pokt]);
+    expect(rpcConfigService.getUserRpcConfig(vault).endpointPriority).not.toHaveProperty('1');
+  });
+
+  it('keeps API keys in the vault and only exposes them while unlocked', async () => {
+    const locked = await rpcConfigService.setApiKey('alchemy', 'my-alchemy-key', vault);
+    expect(locked.isFailure).toBe(true);
+
+    await vault.initialize('correct horse');
+    expect((await rpcConfigService.setApiKey('alchemy', ' my-alchemy-key ', vault)).isSuccess).toBe(true);
+
+    expect(vault.getSecret(rpcApiKeySecretId('alchemy'))).toBe('my-alchemy-key');
+    expect(rpcConfigService.getUserRpcConfig(vault).apiKeys).toEqual({ alchemy: 'my-alchemy-key' });
+    expect(lastSaved()).not.toContain('my-alchemy-key');
+
+    vault.lock();
+    expect(rpcConfigService.getApiKeys(vault)).toEqual({});
+    expect(rpcConfigService.getConfiguredApiKeyProviders(vault)).toEqual(['alchemy']);
+  });
+
+  it('removes an API key when set to an empty value', async () => {
+    await vault.initialize('correct horse');
+    await rpcConfigService.setApiKey('helius', 'key', vault);
+
+    await rpcConfigService.setApiKey('helius', '', vault);
+
+    expect(vault.hasSecret(rpcApiKeySecretId('helius'))).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RpcTelemetryStore, type TelemetryStorage } from '../RpcTelemetryStore';
+import { rankRpcEndpoints } from '../endpointRanking';
+import { RpcProviderRole, RpcProviderType, type RpcEndpointConfig } from '../../../config/rpc-provider-config.types';
+
+function createMemoryStorage(): TelemetryStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+function endpoint(provider: string, url: string, role: RpcProviderRole): RpcEndpointConfig {
+  return { url, provider, role, type: RpcProviderType.PUBLIC, rateLimitRps: 10, timeoutMs: 5000 };
+}
+
+describe('RpcTelemetryStore', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+  let store: RpcTelemetryStore;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    store = new RpcTelemetryStore({ storage });
+  });
+
+  it('persists samples across instances without storing the URL', () => {
+    const url = 'https://eth-mainnet.example/v2/secret-key';
+    store.record('1', url, { ok: true, latencyMs: 120 });
+    store.record('1', url, { ok: false, errorCode: 'HTTP_429' });
+    store.flush();
+
+    const reopened = new RpcTelemetryStore({ storage });
+
+    expect(reopened.getStats('1', url)).toMatchObject({ requests: 2, successRate: 0.5, p50LatencyMs: 120 });
+    expect(reopened.getStats('137', url).requests).toBe(0);
+    expect(storage.data.get('rpc-telemetry')).not.toContain('secret-key');
+  });
+
+  it('writes and announces a burst of samples once', () => {
+    vi.useFakeTimers();
+    try {
+      const setItem = vi.spyOn(storage, 'setItem');
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      for (let i = 0; i < 200; i++) store.record('1', 'https://a.example', { ok: true, latencyMs: i });
+      expect(setItem).not.toHaveBeenCalled();
+      expect(store.getStats('1', 'https://a.example').requests).toBe(100);
+
+      vi.advanceTimersByTime(5_000);
+      expect(setItem).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('ignores unreadable stored data', () => {
+    storage.setItem('rpc-telemetry', '{"version":99}');
+    expect(new RpcTelemetryStore({ storage }).getStats('1', 'https://a.example').requests).toBe(0);
+  });
+
+  it('clears history', () => {
+    store.record('1', 'https://a.example', { ok: true });
+    store.clear();
+    expect(store.getSamples('1', 'https://a.example')).toEqual([]);
+    expect(storage.data.has('rpc-telemetry')).toBe(false);
+  });
+});
+
+describe('rankRpcEndpoints', () => {
+  it('keeps the tier order without telemetry and promotes measured reliable endpoints', () => {
+    const store = new RpcTelemetryStore({ storage: createMemoryStorage() });
+    const endpoints = [
+      endpoint('POKT', 'https://pokt.example', RpcProviderRole.PRIMARY),
+      endpoint('Lava', 'https://lava.example', RpcProviderRole.TERTIARY),
+      endpoint('Public', 'https://public.example', RpcProviderRole.EMERGENCY),
+    ];
+
+    expect(rankRpcEndpoints('1', endpoints, store).map(({ item }) => item.provider)).toEqual(['POKT', 'Lava', 'Public']);
+
+    for (let i = 0; i < 20; i++) {
+      store.record('1', 'https://pokt.example', { ok: false, errorCode: 'TIMEOUT' });
+      store.record('1', 'https://public.example', { ok: true, latencyMs: 150 });
+    }
+
+    const ranked = rankRpcEndpoints('1', endpoints, store);
+    expect(ranked.map(({ item }) => item.provider)).toEqual(['Public', 'Lava', 'POKT']);
+    expect(ranked[2].ranking.reasons).toContain('Errors: TIMEOUT ×20');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPublicClient, custom, HttpRequestError } from 'viem';
+import { mainnet } from 'viem/chains';
+import { setRpcTelemetrySink, withRequestTelemetry, type RpcTelemetrySink } from '../requestTelemetry';
+
+const ENDPOINT = 'https://eth.example';
+
+function clientAnswering(request: (args: { method: string }) => Promise<unknown>) {
+  return createPublicClient({ chain: mainnet, transport: withRequestTelemetry(custom({ request }), '1', ENDPOINT) });
+}
+
+describe('withRequestTelemetry', () => {
+  let sink: ReturnType<typeof vi.fn<RpcTelemetrySink>>;
+  let previousSink: RpcTelemetrySink;
+
+  beforeEach(() => {
+    sink = vi.fn<RpcTelemetrySink>();
+    previousSink = setRpcTelemetrySink(sink);
+  });
+
+  afterEach(() => {
+    setRpcTelemetrySink(previousSink);
+  });
+
+  it('records answered requests with their latency', async () => {
+    const client = clientAnswering(async () => '0x10');
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).resolves.toBe(16n);
+
+    expect(sink).toHaveBeenCalledWith('1', ENDPOINT, { ok: true, latencyMs: expect.any(Number) });
+  });
+
+  it('records HTTP failures against the endpoint', async () => {
+    const client = clientAnswering(async () => {
+      throw new HttpRequestError({ url: ENDPOINT, status: 429 });
+    });
+
+    await expect(client.getBlockNumber({ cacheTime: 0 })).rejects.toThrow();
+
+    expect(sink).toHaveBeenCalledWith('1', ENDPOINT, expect.objectContaining({ ok: false, errorCode: 'HTTP_429' }));
+  });
+
+  it('counts an RPC error answer, e.g. a revert, as the endpoint working', async () => {
+    const client = clientAnswering(async () => {
+      throw Object.assign(new Error('execution reverted'), { code: 3 });
+    });
+
+    await expect(client.call({ to: '0x0000000000000000000000000000000000000001' })).rejects.toThrow();
+
+    expect(sink).toHaveBeenCalled();
+    expect(sink.mock.calls.every(([, , outcome]) => outcome.ok)).toBe(true);
+  });
+});
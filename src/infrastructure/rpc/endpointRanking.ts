@@ -0,0 +1,39 @@
+/**
+ * Endpoint ranking
+ *
+ * Orders the endpoints of a chain from buildRpcProviderConfig by their
+ * telemetry score. The configured tier is the prior, so without measurements
+ * the decentralized-first order is kept as is. Scores are compared in steps,
+ * so the order, and with it the integrations built from it, only changes when
+ * an endpoint is clearly better or worse.
+ */
+
+import { rankByScore, scoreEndpoint, type EndpointScore } from '../../domain/rpc/EndpointTelemetry';
+import { RpcProviderRole, type RpcEndpointConfig, type RpcEndpointRanker } from '../../config/rpc-provider-config.types';
+import { getRpcTelemetryStore, type RpcTelemetryStore } from './RpcTelemetryStore';
+
+/** Score points within which endpoints keep their configured order */
+export const RANKING_STEP = 5;
+
+const ROLE_PRIORS: Record<RpcProviderRole, number> = {
+  [RpcProviderRole.PRIMARY]: 0.9,
+  [RpcProviderRole.SECONDARY]: 0.8,
+  [RpcProviderRole.TERTIARY]: 0.7,
+  [RpcProviderRole.EMERGENCY]: 0.5,
+};
+
+export function rankRpcEndpoints(
+  chainId: string,
+  endpoints: RpcEndpointConfig[],
+  store: RpcTelemetryStore = getRpcTelemetryStore()
+): Array<{ item: RpcEndpointConfig; ranking: EndpointScore }> {
+  return rankByScore(endpoints, endpoint => scoreEndpoint(
+    store.getStats(chainId, endpoint.url),
+    ROLE_PRIORS[endpoint.role] ?? ROLE_PRIORS[RpcProviderRole.EMERGENCY],
+    `${endpoint.role.toLowerCase()} tier`
+  ), RANKING_STEP);
+}
+
+export function createTelemetryRanker(store: RpcTelemetryStore = getRpcTelemetryStore()): RpcEndpointRanker {
+  return (chainId, endpoints) => rankRpcEndpoints(chainId, endpoints, store).map(({ item }) => item);
+}
@@ -0,0 +1,68 @@
+/**
+ * Request telemetry
+ *
+ * Records the outcome of real RPC traffic, not just health checks, so that
+ * endpoint rankings follow what balance reads actually see. Samples go to the
+ * telemetry store on the main thread; the account sync worker, which has no
+ * localStorage, swaps in a sink that posts them back to it.
+ */
+
+import { HttpRequestError, TimeoutError, type Transport } from 'viem';
+import { classifyRpcError, type TelemetrySample } from '../../domain/rpc/EndpointTelemetry';
+import { getRpcTelemetryStore } from './RpcTelemetryStore';
+
+export type RequestOutcome = Omit<TelemetrySample, 'at'>;
+
+export type RpcTelemetrySink = (chainId: string, url: string, outcome: RequestOutcome) => void;
+
+let sink: RpcTelemetrySink = (chainId, url, outcome) => getRpcTelemetryStore().record(chainId, url, outcome);
+
+/**
+ * Send request outcomes somewhere other than the telemetry store; returns the
+ * sink it replaces
+ */
+export function setRpcTelemetrySink(next: RpcTelemetrySink): RpcTelemetrySink {
+  const previous = sink;
+  sink = next;
+  return previous;
+}
+
+export function recordRpcRequest(chainId: string, url: string, outcome: RequestOutcome): void {
+  sink(chainId, url, outcome);
+}
+
+/**
+ * Whether an error means the endpoint failed rather than the call itself, e.g.
+ * a reverted eth_call, which a healthy endpoint answers with an RPC error
+ */
+function isEndpointFailure(error: unknown): boolean {
+  return error instanceof HttpRequestError || error instanceof TimeoutError;
+}
+
+/**
+ * Wrap a viem transport so that every request to `url` is recorded
+ */
+export function withRequestTelemetry(transport: Transport, chainId: string, url: string): Transport {
+  return (params) => {
+    const inner = transport(params);
+    type RequestFn = typeof inner.request;
+    const request = (async (args: Parameters<RequestFn>[0], options?: Parameters<RequestFn>[1]) => {
+      const startedAt = performance.now();
+      const latencyMs = () => Math.round(performance.now() - startedAt);
+      try {
+        const result = await inner.request(args, options);
+        recordRpcRequest(chainId, url, { ok: true, latencyMs: latencyMs() });
+        return result;
+      } catch (error) {
+        if (isEndpointFailure(error)) {
+          const status = error instanceof HttpRequestError ? error.status : undefined;
+          recordRpcRequest(chainId, url, { ok: false, latencyMs: latencyMs(), errorCode: classifyRpcError(error, status) });
+        } else {
+          recordRpcRequest(chainId, url, { ok: true, latencyMs: latencyMs() });
+        }
+        throw error;
+      }
+    }) as RequestFn;
+    return { ...inner, request };
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Account sync client
+ *
+ * Main-thread side of the account sync. Starts syncs in the account sync
+ * worker and applies the events it streams back to the store. The client
+ * outlives the components that start syncs, so a sync keeps running while the
+ * user navigates between routes.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { Account, Asset } from '../../store/useStore';
+import type { AppRpcProviderConfig } from '../../config/rpc-provider-config.types';
+import { getPortfolioHistoryService } from '../history/PortfolioSnapshotStore';
+import { runAccountSync, type SyncDependencies } from './AccountSyncEngine';
+import { recordRpcRequest } from '../rpc/requestTelemetry';
+import type { SyncEvent, SyncProgress, SyncRequest, SyncScope, SyncWorkerMessage } from './syncProtocol';
+
+/** The store state and actions the client writes sync results to */
+export interface SyncStoreState {
+  assets: Asset[];
+  prices: Record<string, number>;
+  setAssets: (assets: Asset[]) => void;
+  calculateTotalValue: () => void;
+  updatePrice: (symbol: string, price: number) => void;
+  updateAccount: (id: string, updates: Partial<Account>) => void;
+  setIsLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  setSyncProgress: (progress: SyncProgress | null) => void;
+  assetLoadingStates: Map<string, { isLoadingBalance: boolean; isLoadingPrice: boolean }>;
+  setAssetLoadingState: (assetId: string, state: {
+    isLoadingBalance?: boolean;
+    isLoadingPrice?: boolean;
+    balanceError?: string;
+  }) => void;
+}
+
+export interface SyncStoreApi {
+  getState: () => SyncStoreState;
+}
+
+/**
+ * Carries requests to wherever the engine runs. `local` is used only by the
+ * in-process transport; the worker builds its own integrations.
+ */
+export interface SyncTransport {
+  send: (request: SyncRequest, local: SyncDependencies) => void;
+}
+
+export function createInProcessTransport(onEvent: (event: SyncEvent) => void): SyncTransport {
+  const running = new Map<number, AbortController>();
+
+  return {
+    send(request, local) {
+      if (request.type === 'abort') {
+        running.get(request.syncId)?.abort();
+        running.delete(request.syncId);
+        return;
+      }
+
+      const controller = new AbortController();
+      running.set(request.syncId, controller);
+      runAccountSync(request, local, onEvent, controller.signal)
+        .catch((error: unknown) => {
+          onEvent({ type: 'error', syncId: request.syncId, message: error instanceof Error ? error.message : String(error) });
+        })
+        .finally(() => running.delete(request.syncId));
+    },
+  };
+}
+
+export function createWorkerTransport(worker: Worker, onEvent: (event: SyncEvent) => void): SyncTransport {
+  let lastSyncId = 0;
+  worker.addEventListener('message', ({ data: message }: MessageEvent<SyncWorkerMessage>) => {
+    if (message.type === 'telemetry') {
+      recordRpcRequest(message.chainId, message.url, message.outcome);
+      return;
+    }
+    onEvent(message);
+  });
+  // A worker that fails to load or throws outside a sync fails the sync it was running
+  worker.addEventListener('error', (event: ErrorEvent) => {
+    onEvent({ type: 'error', syncId: lastSyncId, message: event.message || 'Account sync worker failed' });
+  });
+
+  return {
+    send(request) {
+      if (request.type === 'start') lastSyncId = request.syncId;
+      worker.postMessage(request);
+    },
+  };
+}
+
+/** The worker transport where workers exist, otherwise the engine runs on the main thread */
+export function createSyncTransport(onEvent: (event: SyncEvent) => void): SyncTransport {
+  if (typeof Worker === 'undefined') return createInProcessTransport(onEvent);
+  try {
+    const worker = new Worker(new URL('./accountSync.worker.ts', import.meta.url), { type: 'module' });
+    return createWorkerTransport(worker, onEvent);
+  } catch (error) {
+    console.warn('[AccountSyncClient] Account sync worker unavailable, syncing on the main thread:', error);
+    return createInProcessTransport(onEvent);
+  }
+}
+
+export interface StartSyncOptions {
+  /** Identifies what is synced; a start with the key of the running sync joins it */
+  key: string;
+  accounts: Account[];
+  environment: NetworkEnvironment;
+  rpcConfig: AppRpcProviderConfig;
+  local: SyncDependencies;
+  /** Refresh only these fetches, leaving other rows as they are */
+  targets?: SyncScope[];
+  discoverTokens?: boolean;
+}
+
+function inScope(asset: Asset, scope: SyncScope): boolean {
+  return asset.accountId === scope.accountId && (scope.chain === undefined || asset.chain === scope.chain);
+}
+
+interface RunningSync {
+  syncId: number;
+  key: string;
+  local: SyncDependencies;
+  targets?: SyncScope[];
+  /** Fetches that failed; their rows are kept, stale, when the sync completes */
+  failedScopes: SyncScope[];
+}
+
+export class AccountSyncClient {
+  private readonly store: SyncStoreApi;
+  private readonly transport: SyncTransport;
+  private nextSyncId = 1;
+  private current: RunningSync | null = null;
+  private readonly listeners = new Set<(event: SyncEvent) => void>();
+
+  constructor(
+    store: SyncStoreApi,
+    createTransport: (onEvent: (event: SyncEvent) => void) => SyncTransport = createSyncTransport
+  ) {
+    this.store = store;
+    this.transport = createTransport(event => this.handleEvent(event));
+  }
+
+  isSyncing(): boolean {
+    return this.current !== null;
+  }
+
+  /** Events of the running sync, after they have been applied to the store */
+  subscribe(listener: (event: SyncEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Start a sync, superseding the running one unless it syncs the same key */
+  start(options: StartSyncOptions): void {
+    if (this.current?.key === options.key) return;
+    this.abort();
+
+    const state = this.store.getState();
+    if (options.accounts.length === 0) {
+      console.log('[AccountSyncClient] No accounts, clearing assets');
+      state.setAssets([]);
+      state.calculateTotalValue();
+      state.setIsLoading(false);
+      return;
+    }
+
+    const syncId = this.nextSyncId++;
+    this.current = { syncId, key: options.key, local: options.local, targets: options.targets, failedScopes: [] };
+    state.setIsLoading(true);
+    state.setError(null);
+
+    // Rows already shown keep their values but show as refreshing until their fetch settles
+    const syncedAccountIds = new Set(options.accounts.map(account => account.id));
+    const isSynced = (asset: Asset) => options.targets
+      ? options.targets.some(scope => inScope(asset, scope))
+      : syncedAccountIds.has(asset.accountId);
+    for (const asset of state.assets) {
+      if (isSynced(asset)) {
+        state.setAssetLoadingState(asset.id, { isLoadingBalance: true, balanceError: undefined });
+      }
+    }
+
+    this.transport.send(
+      {
+        type: 'start',
+        syncId,
+        accounts: options.accounts,
+        environment: options.environment,
+        rpcConfig: options.rpcConfig,
+        targets: options.targets,
+        discoverTokens: options.discoverTokens,
+      },
+      options.local
+    );
+  }
+
+  abort(): void {
+    if (!this.current) return;
+    this.transport.send({ type: 'abort', syncId: this.current.syncId }, this.current.local);
+    this.current = null;
+
+    const state = this.store.getState();
+    state.setSyncProgress(null);
+    for (const [assetId, loading] of state.assetLoadingStates) {
+      if (loading.isLoadingBalance || loading.isLoadingPrice) {
+        state.setAssetLoadingState(assetId, { isLoadingBalance: false, isLoadingPrice: false });
+      }
+    }
+  }
+
+  private handleEvent(event: SyncEvent): void {
+    // Events of a superseded sync are dropped
+    const running = this.current;
+    if (event.syncId !== running?.syncId) return;
+    this.applyEvent(running, event);
+    for (const listener of this.listeners) listener(event);
+  }
+
+  private applyEvent(running: RunningSync, event: SyncEvent): void {
+    const state = this.store.getState();
+
+    switch (event.type) {
+      case 'progress':
+        state.setSyncProgress({ completed: event.completed, total: event.total });
+        return;
+
+      case 'partial':
+        this.applyPartial({ accountId: event.accountId, chain: event.chain }, event.assets);
+        return;
+
+      case 'error':
+        if (event.accountId) {
+          const scope: SyncScope = { accountId: event.accountId, chain: event.chain };
+          console.warn(`[AccountSyncClient] Sync failed for account ${event.accountId}${event.chain ? ` on ${event.chain}` : ''}:`, event.message);
+          running.failedScopes.push(scope);
+          for (const asset of state.assets) {
+            if (inScope(asset, scope)) {
+              state.setAssetLoadingState(asset.id, { isLoadingBalance: false, balanceError: event.message });
+            }
+          }
+          return;
+        }
+        console.error('[AccountSyncClient] Sync failed:', event.message);
+        this.current = null;
+        state.setSyncProgress(null);
+        state.setIsLoading(false);
+        state.setError(event.message);
+        return;
+
+      case 'complete': {
+        this.current = null;
+        for (const [symbol, price] of Object.entries(event.prices)) {
+          state.updatePrice(symbol, price);
+        }
+
+        // A full sync replaces all assets atomically, keeping the last known rows of failed
+        // fetches; a targeted one already reconciled its scopes and only reprices their rows
+        let assets: Asset[];
+        if (running.targets) {
+          const priced = new Map(event.assets.map(asset => [asset.id, asset]));
+          assets = state.assets.map(asset => priced.get(asset.id) ?? asset);
+        } else {
+          const stale = state.assets.filter(asset => running.failedScopes.some(scope => inScope(asset, scope)));
+          assets = [...event.assets, ...stale];
+        }
+        state.setAssets(assets);
+        state.calculateTotalValue();
+        for (const asset of event.assets) {
+          state.setAssetLoadingState(asset.id, { isLoadingBalance: false, isLoadingPrice: false });
+        }
+        state.setSyncProgress(null);
+        state.setIsLoading(false);
+
+        // Record a snapshot for the net-worth history (fire-and-forget)
+        getPortfolioHistoryService()
+          .recordSnapshot(assets)
+          .then(result => result.ifFailure(error => {
+            console.warn('[AccountSyncClient] Failed to record portfolio snapshot:', error.message);
+          }));
+
+        for (const accountId of event.completedAccountIds) {
+          state.updateAccount(accountId, { lastSync: event.syncedAt });
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Reconcile one completed fetch: its rows replace the scope's rows, so
+   * assets that disappeared from the account on that chain are dropped. Until
+   * the sync completes new rows keep the last known price so totals do not
+   * dip to zero; rows without one show their price as loading.
+   */
+  private applyPartial(scope: SyncScope, assets: Asset[]): void {
+    const state = this.store.getState();
+    const previous = new Map(state.assets.filter(asset => inScope(asset, scope)).map(asset => [asset.id, asset]));
+    if (previous.size === 0 && assets.length === 0) return;
+
+    const incoming = assets.map(asset => {
+      const price = asset.priceUsd ?? previous.get(asset.id)?.priceUsd ?? state.prices[asset.symbol] ?? null;
+      return {
+        ...asset,
+        priceUsd: price,
+        valueUsd: price ? parseFloat(asset.balance) * price : asset.valueUsd,
+      };
+    });
+    const incomingById = new Map(incoming.map(asset => [asset.id, asset]));
+
+    // Rows keep their position; rows new to the scope are appended
+    const merged = state.assets
+      .filter(asset => !inScope(asset, scope) || incomingById.has(asset.id))
+      .map(asset => incomingById.get(asset.id) ?? asset);
+    const known = new Set(merged.map(asset => asset.id));
+    merged.push(...incoming.filter(asset => !known.has(asset.id)));
+
+    state.setAssets(merged);
+    state.calculateTotalValue();
+    for (const asset of incoming) {
+      state.setAssetLoadingState(asset.id, {
+        isLoadingBalance: false,
+        isLoadingPrice: !asset.priceUsd,
+        balanceError: undefined,
+      });
+    }
+  }
+}
@@ -0,0 +1,880 @@
+/**
+ * Account sync engine
+ *
+ * Fetches balances for every connected wallet and exchange account, prices
+ * them in one deduplicated batch and reports through sync events. It has no
+ * access to the store or the DOM, so the same code runs in the account sync
+ * worker and, where workers are unavailable, on the main thread.
+ */
+
+import { formatUnits, type Address } from 'viem';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui.js/client';
+import { AssetValuator } from '@cygnus-wealth/asset-valuator';
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { ChainRegistry, IChainAdapter, TokenConfig } from '@cygnus-wealth/evm-integration';
+import type { SolanaIntegrationFacade } from '@cygnus-wealth/sol-integration';
+import type { TokenDiscoveryService } from '../../domain/tokens/TokenDiscovery';
+import type { TokenListService } from '../tokens/TokenListService';
+import type { BitcoinWatchService } from '../bitcoin/BitcoinWatchService';
+import { formatSats } from '../../domain/bitcoin/BitcoinWatch';
+import { CHAIN_REGISTRY, chainsIn } from '../../domain/chain/ChainRegistry';
+import type { Account, Asset, Token } from '../../store/useStore';
+import { fetchExchangeAssets } from '../cex/fetchExchangeAssets';
+import type { MulticallBalanceReader, OwnerBalances } from './MulticallBalanceReader';
+import type { SyncEvent, SyncScope, SyncStartRequest } from './syncProtocol';
+
+// Chain mapping for EVM chains
+export interface ChainMapEntry {
+  chainId: number;
+  symbol: string;
+  name: string;
+  /** Name of the chain in the evm-integration ChainRegistry */
+  registryName: string;
+}
+
+const chainMaps = new Map<NetworkEnvironment, Record<string, ChainMapEntry>>();
+
+/** EVM chains of an environment by the name accounts use, derived from the chain registry */
+export function getChainMap(env: NetworkEnvironment): Record<string, ChainMapEntry> {
+  let chainMap = chainMaps.get(env);
+  if (!chainMap) {
+    chainMap = Object.fromEntries(chainsIn(env, 'evm').map(({ chain, network }) => [chain.name, {
+      chainId: network.numericId!,
+      symbol: network.native.symbol,
+      name: network.native.name,
+      registryName: network.name,
+    }]));
+    chainMaps.set(env, chainMap);
+  }
+  return chainMap;
+}
+
+// Well-known ERC20 tokens per chain for comprehensive discovery.
+// The evm-integration library's default popular list only includes USDC, USDT, DAI.
+// We supplement it with commonly-held tokens so that balances like WETH and PYUSD are discovered.
+const WELL_KNOWN_TOKENS: Record<string, TokenConfig[]> = {
+  'Ethereum': [
+    { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F' as Address, symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin' },
+    { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599' as Address, symbol: 'WBTC', decimals: 8, name: 'Wrapped BTC' },
+    { address: '0x6c3ea9036406852006290770BEdFcAbA0e23A0e8' as Address, symbol: 'PYUSD', decimals: 6, name: 'PayPal USD' },
+    { address: '0x514910771AF9Ca656af840dff83E8264EcF986CA' as Address, symbol: 'LINK', decimals: 18, name: 'Chainlink' },
+    { address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984' as Address, symbol: 'UNI', decimals: 18, name: 'Uniswap' },
+    { address: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84' as Address, symbol: 'stETH', decimals: 18, name: 'Lido Staked Ether' },
+    { address: '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9' as Address, symbol: 'AAVE', decimals: 18, name: 'Aave' },
+  ],
+  'Polygon': [
+    { address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174' as Address, symbol: 'USDC.e', decimals: 6, name: 'Bridged USD Coin' },
+    { address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063' as Address, symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin' },
+    { address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6' as Address, symbol: 'WBTC', decimals: 8, name: 'Wrapped BTC' },
+    { address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270' as Address, symbol: 'WMATIC', decimals: 18, name: 'Wrapped Matic' },
+    { address: '0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39' as Address, symbol: 'LINK', decimals: 18, name: 'Chainlink' },
+  ],
+  'Arbitrum': [
+    { address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8' as Address, symbol: 'USDC.e', decimals: 6, name: 'Bridged USD Coin' },
+    { address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1' as Address, symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin' },
+    { address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f' as Address, symbol: 'WBTC', decimals: 8, name: 'Wrapped BTC' },
+    { address: '0x912CE59144191C1204E64559FE8253a0e49E6548' as Address, symbol: 'ARB', decimals: 18, name: 'Arbitrum' },
+    { address: '0xf97f4df75117a78c1A5a0DBb814Af92458539FB4' as Address, symbol: 'LINK', decimals: 18, name: 'Chainlink' },
+  ],
+  'Optimism': [
+    { address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0x7F5c764cBc14f9669B88837ca1490cCa17c31607' as Address, symbol: 'USDC.e', decimals: 6, name: 'Bridged USD Coin' },
+    { address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1' as Address, symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin' },
+    { address: '0x4200000000000000000000000000000000000006' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x68f180fcCe6836688e9084f035309E29Bf0A2095' as Address, symbol: 'WBTC', decimals: 8, name: 'Wrapped BTC' },
+    { address: '0x4200000000000000000000000000000000000042' as Address, symbol: 'OP', decimals: 18, name: 'Optimism' },
+    { address: '0x350a791Bfc2C21F9Ed5d10980Dad2e2638ffa7f6' as Address, symbol: 'LINK', decimals: 18, name: 'Chainlink' },
+  ],
+  'Base': [
+    { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA' as Address, symbol: 'USDbC', decimals: 6, name: 'Bridged USD Coin' },
+    { address: '0x4200000000000000000000000000000000000006' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb' as Address, symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin' },
+    { address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22' as Address, symbol: 'cbETH', decimals: 18, name: 'Coinbase Wrapped Staked ETH' },
+  ],
+  'BSC': [
+    { address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' as Address, symbol: 'USDC', decimals: 18, name: 'Binance-Peg USD Coin' },
+    { address: '0x55d398326f99059fF775485246999027B3197955' as Address, symbol: 'USDT', decimals: 18, name: 'Binance-Peg BSC-USD' },
+    { address: '0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3' as Address, symbol: 'DAI', decimals: 18, name: 'Binance-Peg Dai Token' },
+    { address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c' as Address, symbol: 'WBNB', decimals: 18, name: 'Wrapped BNB' },
+    { address: '0x2170Ed0880ac9A755fd29B2688956BD959F933F8' as Address, symbol: 'ETH', decimals: 18, name: 'Binance-Peg Ethereum' },
+    { address: '0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c' as Address, symbol: 'BTCB', decimals: 18, name: 'Binance-Peg BTCB' },
+  ],
+  'Avalanche': [
+    { address: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0xd586E7F844cEa2F87f50152665BCbc2C279D8d70' as Address, symbol: 'DAI.e', decimals: 18, name: 'Bridged Dai Stablecoin' },
+    { address: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7' as Address, symbol: 'WAVAX', decimals: 18, name: 'Wrapped AVAX' },
+    { address: '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB' as Address, symbol: 'WETH.e', decimals: 18, name: 'Bridged Wrapped Ether' },
+    { address: '0x152b9d0FdC40C096757F570A51E494bd4b943E50' as Address, symbol: 'BTC.b', decimals: 8, name: 'Bitcoin' },
+  ],
+  'zkSync': [
+    { address: '0x1d17CBcF0D6D143135aE902365D2E5e2A16538D4' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0x3355df6D4c9C3035724Fd0e3914dE96A5a83aaf4' as Address, symbol: 'USDC.e', decimals: 6, name: 'Bridged USD Coin' },
+    { address: '0x493257fD37EDB34451f62EDf8D2a0C418852bA4C' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0x5AEa5775959fBC2557Cc8789bC1bf90A239D9a91' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0xBBeB516fb02a01611cBBE0453Fe3c580D7281011' as Address, symbol: 'WBTC', decimals: 8, name: 'Wrapped BTC' },
+    { address: '0x5A7d6b2F92C77FAD6CCaBd7EE0624E64907Eaf3E' as Address, symbol: 'ZK', decimals: 18, name: 'ZKsync' },
+  ],
+  'Linea': [
+    { address: '0x176211869cA2b568f2A7D4EE941E073a821EE1ff' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0xA219439258ca9da29E9Cc4cE5596924745e12B93' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0x4AF15ec2A0BD43Db75dd04E62FAA3B8EF36b00d5' as Address, symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin' },
+    { address: '0xe5D7C2a44FfDDf6b295A15c148167daaAf5Cf34f' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x3aAB2285ddcDdaD8edf438C1bAB47e1a9D05a9b4' as Address, symbol: 'WBTC', decimals: 8, name: 'Wrapped BTC' },
+  ],
+  'Scroll': [
+    { address: '0x06eFdBFf2a14a7c8E15944D1F4A48F9F95F663A4' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0xf55BEC9cafDbE8730f096Aa55dad6D22d44099Df' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0xcA77eB3fEFe3725Dc33bccB54eDEFc3D9f764f97' as Address, symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin' },
+    { address: '0x5300000000000000000000000000000000000004' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x3C1BCa5a656e69edCD0D4E36BEbb3FcDAcA60Cf1' as Address, symbol: 'WBTC', decimals: 8, name: 'Wrapped BTC' },
+    { address: '0xd29687c813D741E2F938F4aC377128810E217b1b' as Address, symbol: 'SCR', decimals: 18, name: 'Scroll' },
+  ],
+  'Blast': [
+    { address: '0x4300000000000000000000000000000000000003' as Address, symbol: 'USDB', decimals: 18, name: 'USDB' },
+    { address: '0x4300000000000000000000000000000000000004' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0xb1a5700fA2358173Fe465e6eA4Ff52E36e88E2ad' as Address, symbol: 'BLAST', decimals: 18, name: 'Blast' },
+  ],
+  'Mantle': [
+    { address: '0x09Bc4E0D864854c6aFB6eB9A9cdF58aC190D0dF9' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin' },
+    { address: '0x201EBa5CC46D216Ce6DC03F6a759e8E766e956aE' as Address, symbol: 'USDT', decimals: 6, name: 'Tether USD' },
+    { address: '0xdEAddEaDdeadDEadDEADDEAddEADDEAddead1111' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether' },
+    { address: '0x78c1b0C915c4FAA5FffA6CAbf0219DA63d7f4cb8' as Address, symbol: 'WMNT', decimals: 18, name: 'Wrapped Mantle' },
+    { address: '0xcDA86A272531e8640cD7F1a92c01839911B90bb0' as Address, symbol: 'mETH', decimals: 18, name: 'Mantle Staked Ether' },
+  ],
+  'Gnosis': [
+    { address: '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83' as Address, symbol: 'USDC', decimals: 6, name: 'USD Coin on xDai' },
+    { address: '0x4ECaBa5870353805a9F068101A40E0f32ed605C6' as Address, symbol: 'USDT', decimals: 6, name: 'Tether on xDai' },
+    { address: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d' as Address, symbol: 'WXDAI', decimals: 18, name: 'Wrapped XDAI' },
+    { address: '0x6A023CCd1ff6F2045C3309768eAd9E68F978f6e1' as Address, symbol: 'WETH', decimals: 18, name: 'Wrapped Ether on xDai' },
+    { address: '0x9C58BAcC331c9aa871AFD802DB6379a98e80CEdb' as Address, symbol: 'GNO', decimals: 18, name: 'Gnosis Token on xDai' },
+    { address: '0xaf204776c7245bF4147c2612BF6e5972Ee483701' as Address, symbol: 'sDAI', decimals: 18, name: 'Savings xDAI' },
+  ],
+};
+
+/**
+ * Build a deduplicated token list by merging well-known tokens for the chain
+ * with any user-configured tokens from the account.
+ */
+function buildTokenList(chainName: string, chainId: number, accountTokens: Token[]): TokenConfig[] {
+  const wellKnown = WELL_KNOWN_TOKENS[chainName] || [];
+  const userConfigs: TokenConfig[] = accountTokens
+    .filter(t => t.chainId === chainId)
+    .map(t => ({
+      address: t.address as Address,
+      symbol: t.symbol,
+      decimals: t.decimals,
+      name: t.name,
+    }));
+
+  const seen = new Set<string>();
+  const result: TokenConfig[] = [];
+  for (const token of [...wellKnown, ...userConfigs]) {
+    const key = token.address.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(token);
+    }
+  }
+  return result;
+}
+
+// Singleton AssetValuator to avoid re-creating per price call
+let _valuatorInstance: InstanceType<typeof AssetValuator> | null = null;
+function getValuator(): InstanceType<typeof AssetValuator> {
+  if (!_valuatorInstance) {
+    _valuatorInstance = new AssetValuator();
+  }
+  return _valuatorInstance;
+}
+
+const SUI_DECIMALS = 9;
+const RPC_TIMEOUT_MS = 15000; // 15s timeout for RPC calls
+const PRICE_TIMEOUT_MS = 10000; // 10s timeout for price fetches
+
+/**
+ * Race a promise against a timeout. Rejects with a TimeoutError if the
+ * timeout fires first.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timeout: ${label} (${ms}ms)`)), ms);
+    promise.then(
+      (val) => { clearTimeout(timer); resolve(val); },
+      (err) => { clearTimeout(timer); reject(err); },
+    );
+  });
+}
+
+/**
+ * Fetch price for a symbol using AssetValuator singleton.
+ * Returns 0 if price is not available.
+ */
+async function fetchPrice(symbol: string): Promise<number> {
+  try {
+    const valuator = getValuator();
+    const priceData = await withTimeout(
+      valuator.getPrice(symbol),
+      PRICE_TIMEOUT_MS,
+      `price(${symbol})`,
+    );
+    return priceData?.price || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Fetch prices for multiple symbols in parallel, deduplicating symbols.
+ * Returns a map of symbol -> priceUsd.
+ */
+async function fetchPricesBatch(symbols: string[]): Promise<Record<string, number>> {
+  const unique = [...new Set(symbols)];
+  const results: Record<string, number> = {};
+
+  const settled = await Promise.allSettled(
+    unique.map(async (symbol) => {
+      const price = await fetchPrice(symbol);
+      return { symbol, price };
+    })
+  );
+
+  for (const result of settled) {
+    if (result.status === 'fulfilled') {
+      results[result.value.symbol] = result.value.price;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Deduplicate assets by ID. When duplicates exist, the last occurrence wins.
+ * This prevents accumulation from overlapping syncs.
+ */
+function deduplicateAssets(assets: Asset[]): Asset[] {
+  const assetMap = new Map<string, Asset>();
+  for (const asset of assets) {
+    assetMap.set(asset.id, asset);
+  }
+  return Array.from(assetMap.values());
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+/** Wallet platforms with their own integration rather than an EVM chain adapter */
+const NON_EVM_PLATFORMS = new Set(CHAIN_REGISTRY.filter(chain => chain.category !== 'evm').map(chain => chain.name));
+
+export function syncScopeKey(scope: SyncScope): string {
+  return scope.chain === undefined ? scope.accountId : `${scope.accountId}:${scope.chain}`;
+}
+
+function collectScopes(
+  accounts: Account[],
+  chainMap: Record<string, ChainMapEntry>,
+  warnUnknown = false
+): Array<{ account: Account; scope: SyncScope }> {
+  const scopes: Array<{ account: Account; scope: SyncScope }> = [];
+
+  for (const account of accounts) {
+    if (account.type === 'cex') {
+      scopes.push({ account, scope: { accountId: account.id } });
+      continue;
+    }
+
+    if (!account.address) continue;
+
+    if (account.platform === 'Multi-Chain EVM') {
+      for (const chain of account.metadata?.detectedChains || ['Ethereum']) {
+        scopes.push({ account, scope: { accountId: account.id, chain } });
+      }
+    } else if (NON_EVM_PLATFORMS.has(account.platform) || chainMap[account.platform]) {
+      scopes.push({ account, scope: { accountId: account.id, chain: account.platform } });
+    } else if (warnUnknown) {
+      console.warn(`Unknown platform: ${account.platform}`);
+    }
+  }
+
+  return scopes;
+}
+
+/** The fetches a sync of these accounts makes, one per account and chain */
+export function listSyncScopes(accounts: Account[], environment: NetworkEnvironment): SyncScope[] {
+  return collectScopes(accounts, getChainMap(environment)).map(({ scope }) => scope);
+}
+
+/** Integrations the engine reads balances through */
+export interface SyncDependencies {
+  evmRegistry: Pick<InstanceType<typeof ChainRegistry>, 'getAdapterByName'>;
+  solanaFacade: Pick<InstanceType<typeof SolanaIntegrationFacade>, 'getSolanaBalance' | 'getTokenBalances'>;
+  /** Reads watch-only Bitcoin addresses and extended keys; without it Bitcoin accounts fail to sync */
+  bitcoin?: Pick<BitcoinWatchService, 'getHoldings'>;
+  /** Used when the request asks for token discovery */
+  tokenDiscovery?: Pick<TokenDiscoveryService, 'discover' | 'known'>;
+  /** Tokens of the imported token lists marked for sync */
+  tokenCatalog?: Pick<TokenListService, 'syncTokens'>;
+  /** Batches each chain's balance reads; without it every fetch reads through its adapter */
+  balanceReader?: Pick<MulticallBalanceReader, 'readBalances'>;
+}
+
+type BalanceReader = NonNullable<SyncDependencies['balanceReader']>;
+
+/**
+ * Collects the reads of every fetch on one chain and makes them in a single
+ * `readBalances` call once each expected fetch has either read or skipped.
+ */
+class ChainBalanceBatch {
+  private readonly reader: BalanceReader;
+  private readonly chainId: number;
+  private readonly signal: AbortSignal;
+  private expected: number;
+  private readonly pending: Array<{
+    owner: Address;
+    tokens: Address[];
+    resolve: (balances: OwnerBalances) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+
+  constructor(reader: BalanceReader, chainId: number, expected: number, signal: AbortSignal) {
+    this.reader = reader;
+    this.chainId = chainId;
+    this.expected = expected;
+    this.signal = signal;
+  }
+
+  read(owner: Address, tokens: TokenConfig[]): Promise<OwnerBalances> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ owner, tokens: tokens.map(token => token.address as Address), resolve, reject });
+      this.flushIfReady();
+    });
+  }
+
+  /** A fetch of this chain that will not read */
+  skip(): void {
+    this.expected--;
+    this.flushIfReady();
+  }
+
+  private flushIfReady(): void {
+    if (this.pending.length === 0 || this.pending.length < this.expected) return;
+    const reads = this.pending.splice(0);
+    withTimeout(
+      this.reader.readBalances(this.chainId, reads.map(({ owner, tokens }) => ({ owner, tokens })), this.signal),
+      RPC_TIMEOUT_MS,
+      `readBalances(${this.chainId})`,
+    ).then(
+      balances => {
+        for (const read of reads) {
+          const owned = balances.get(read.owner.toLowerCase());
+          if (owned) read.resolve(owned);
+          else read.reject(new Error(`No balances read for ${read.owner}`));
+        }
+      },
+      error => {
+        for (const read of reads) read.reject(error);
+      }
+    );
+  }
+}
+
+/** Assets of one owner from batched balances, shaped like the adapter path's */
+function evmAssetsFromBalances(
+  balances: OwnerBalances,
+  tokenList: TokenConfig[],
+  chainName: string,
+  chainConfig: ChainMapEntry,
+  address: string,
+  accountId: string,
+  accountLabel: string
+): Asset[] {
+  const assets: Asset[] = [];
+  const base = { source: accountLabel, chain: chainName, accountId, priceUsd: null, valueUsd: null };
+
+  if (balances.native > 0n) {
+    assets.push({
+      ...base,
+      id: `${accountId}-${chainConfig.symbol}-${chainName}-${address}`,
+      symbol: chainConfig.symbol,
+      name: chainConfig.name,
+      balance: formatUnits(balances.native, 18),
+      metadata: { address, isMultiAccount: false },
+    });
+  }
+
+  for (const { address: tokenAddress, symbol, name, decimals } of tokenList) {
+    const raw = balances.tokens.get(tokenAddress.toLowerCase());
+    // Every listed token carries its metadata; one that does not cannot be formatted
+    if (raw === undefined || raw <= 0n || !symbol || decimals === undefined) continue;
+    assets.push({
+      ...base,
+      id: `${accountId}-${symbol}-${chainName}-${address}`,
+      symbol,
+      name: name || symbol,
+      balance: formatUnits(raw, decimals),
+      metadata: { address, contractAddress: tokenAddress, isMultiAccount: false },
+    });
+  }
+
+  return assets;
+}
+
+/**
+ * Run one sync. Each balance fetch covers one scope and emits either a partial
+ * result or a scoped error as it settles; a fetch throws rather than return a
+ * short list, so a failed chain is never mistaken for an empty one. Nothing
+ * more is emitted once `signal` is aborted.
+ */
+export async function runAccountSync(
+  request: Pick<SyncStartRequest, 'syncId' | 'accounts' | 'environment' | 'targets' | 'discoverTokens'>,
+  deps: SyncDependencies,
+  emit: (event: SyncEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const { syncId } = request;
+  const chainMap = getChainMap(request.environment);
+  const balanceBatches = new Map<string, ChainBalanceBatch>();
+
+  /**
+   * Fetch EVM balances for a single chain. Reads go through the chain's
+   * Multicall3 batch when one is open, otherwise (or when the batch fails)
+   * through the integration registry's adapter.
+   * Returns assets WITHOUT prices so that prices can be batch-fetched later.
+   */
+  const fetchEvmBalances = async (
+    address: string,
+    chainName: string,
+    accountId: string,
+    accountLabel: string,
+    accountTokens: Token[],
+    discovered?: Token[]
+  ) => {
+    console.log(`[fetchEvmBalances] Fetching for ${address} on ${chainName}`);
+    const assets: Asset[] = [];
+    const batch = balanceBatches.get(chainName);
+    let joinedBatch = false;
+
+    try {
+      const chainConfig = chainMap[chainName];
+      if (!chainConfig) {
+        console.warn(`No chain config for ${chainName}, skipping`);
+        return assets;
+      }
+
+      // Tokens found in the account's Transfer logs so far, when discovery is on;
+      // scanning for new ones happens once the balances are in
+      const discoveredTokens: Token[] = discovered ?? (request.discoverTokens && deps.tokenDiscovery
+        ? await deps.tokenDiscovery.known({ accountId, chain: chainName })
+        : []);
+
+      // Tokens of the token lists marked for sync; an unreadable list store only loses those
+      const catalogTokens: Token[] = deps.tokenCatalog
+        ? await deps.tokenCatalog.syncTokens(chainConfig.chainId).catch((error: unknown) => {
+          console.warn('[fetchEvmBalances] Token lists unavailable:', error);
+          return [];
+        })
+        : [];
+
+      // Build comprehensive token list from well-known, user-configured, discovered and listed tokens
+      const tokenList = buildTokenList(chainName, chainConfig.chainId, [...accountTokens, ...discoveredTokens, ...catalogTokens]);
+
+      if (batch && !signal.aborted) {
+        joinedBatch = true;
+        const balances = await batch.read(address as Address, tokenList).catch((error: unknown) => {
+          console.warn(`[fetchEvmBalances] Batched read failed on ${chainName}, falling back to the adapter:`, error);
+          return null;
+        });
+        if (balances) {
+          return evmAssetsFromBalances(balances, tokenList, chainName, chainConfig, address, accountId, accountLabel);
+        }
+      }
+
+      // Fetch native balance via evm-integration registry adapter
+      const { registryName } = chainConfig;
+
+      let adapter: IChainAdapter;
+      try {
+        adapter = deps.evmRegistry.getAdapterByName(registryName);
+      } catch {
+        console.warn(`evm-integration has no adapter for ${registryName}, skipping`);
+        return assets;
+      }
+
+      await withTimeout(adapter.connect(), RPC_TIMEOUT_MS, `connect(${registryName})`);
+
+      if (signal.aborted) return assets;
+
+      // Fetch native balance via adapter
+      const nativeBalance = await withTimeout(
+        adapter.getBalance(address as Address),
+        RPC_TIMEOUT_MS,
+        `getBalance(${registryName})`,
+      );
+
+      if (signal.aborted) return assets;
+
+      // Use formatted value from value.amount (human-readable) with fallback to raw amount for tests
+      const formattedNativeBalance = nativeBalance.value?.amount ?? parseFloat(nativeBalance.amount);
+      if (formattedNativeBalance > 0) {
+        assets.push({
+          id: `${accountId}-${chainConfig.symbol}-${chainName}-${address}`,
+          symbol: chainConfig.symbol,
+          name: chainConfig.name,
+          balance: formattedNativeBalance.toString(),
+          source: accountLabel,
+          chain: chainName,
+          accountId: accountId,
+          priceUsd: null,
+          valueUsd: null,
+          metadata: {
+            address: address,
+            isMultiAccount: false
+          }
+        });
+      }
+
+      // Fetch ERC20 token balances via adapter with our expanded token list
+      const tokenBalances = await withTimeout(
+        adapter.getTokenBalances(address as Address, tokenList.length > 0 ? tokenList : undefined),
+        RPC_TIMEOUT_MS,
+        `getTokenBalances(${registryName})`,
+      );
+
+      for (const tokenBalance of tokenBalances) {
+        if (signal.aborted) return assets;
+
+        const symbol = tokenBalance.asset.symbol;
+        const name = tokenBalance.asset.name || symbol;
+        // Use formatted value from value.amount (human-readable) with fallback to raw amount
+        const formattedAmount = tokenBalance.value?.amount ?? parseFloat(tokenBalance.amount);
+        if (isNaN(formattedAmount) || formattedAmount <= 0) continue;
+
+        assets.push({
+          id: `${accountId}-${symbol}-${chainName}-${address}`,
+          symbol,
+          name,
+          balance: formattedAmount.toString(),
+          source: accountLabel,
+          chain: chainName,
+          accountId: accountId,
+          priceUsd: null,
+          valueUsd: null,
+          metadata: {
+            address,
+            contractAddress: tokenBalance.asset.contractAddress || undefined,
+            isMultiAccount: false
+          }
+        });
+      }
+    } catch (error) {
+      console.error(`Error fetching EVM balances for ${chainName} - ${address}:`, error);
+      throw error;
+    } finally {
+      // A fetch that never read still lets the rest of its chain's batch go out
+      if (batch && !joinedBatch) batch.skip();
+    }
+
+    return assets;
+  };
+
+  const fetchSolanaBalances = async (address: string, accountId: string, accountLabel: string) => {
+    console.log(`[fetchSolanaBalances] Fetching for ${address}`);
+    const assets: Asset[] = [];
+
+    try {
+      const balanceResult = await withTimeout(
+        deps.solanaFacade.getSolanaBalance(address),
+        RPC_TIMEOUT_MS,
+        `solana.getBalance(${address.slice(0, 8)})`,
+      );
+      if (balanceResult.isFailure) throw balanceResult.getError();
+      if (balanceResult.getValue() > 0) {
+        const balanceSol = balanceResult.getValue();
+
+        assets.push({
+          id: `${accountId}-SOL-Solana-${address}`,
+          symbol: 'SOL',
+          name: 'Solana',
+          balance: balanceSol.toString(),
+          source: accountLabel,
+          chain: 'Solana',
+          accountId: accountId,
+          priceUsd: null,
+          valueUsd: null,
+          metadata: {
+            address,
+            isMultiAccount: false
+          }
+        });
+      }
+
+      if (signal.aborted) return assets;
+
+      const tokensResult = await withTimeout(
+        deps.solanaFacade.getTokenBalances(address),
+        RPC_TIMEOUT_MS,
+        `solana.getTokenBalances(${address.slice(0, 8)})`,
+      );
+      if (tokensResult.isFailure) throw tokensResult.getError();
+      for (const token of tokensResult.getValue()) {
+        if (signal.aborted) return assets;
+        if (token.balance <= 0) continue;
+
+        assets.push({
+          id: `${accountId}-${token.symbol}-Solana-${address}`,
+          symbol: token.symbol,
+          name: token.name,
+          balance: token.balance.toString(),
+          source: accountLabel,
+          chain: 'Solana',
+          accountId: accountId,
+          priceUsd: null,
+          valueUsd: null,
+          metadata: {
+            address,
+            contractAddress: token.mint,
+            isMultiAccount: false
+          }
+        });
+      }
+    } catch (error) {
+      console.error(`Error fetching Solana balance for ${address}:`, error);
+      throw error;
+    }
+
+    return assets;
+  };
+
+  const fetchSuiBalances = async (address: string, accountId: string, accountLabel: string) => {
+    console.log(`[fetchSuiBalances] Fetching for ${address}`);
+    const assets: Asset[] = [];
+
+    try {
+      const client = new SuiClient({ url: getFullnodeUrl('mainnet') });
+      const balanceResult = await withTimeout(
+        client.getBalance({ owner: address }),
+        RPC_TIMEOUT_MS,
+        `sui.getBalance(${address.slice(0, 8)})`,
+      );
+      const balanceSui = Number(balanceResult.totalBalance) / Math.pow(10, SUI_DECIMALS);
+
+      if (balanceSui > 0) {
+        assets.push({
+          id: `${accountId}-SUI-SUI-${address}`,
+          symbol: 'SUI',
+          name: 'Sui',
+          balance: balanceSui.toString(),
+          source: accountLabel,
+          chain: 'SUI',
+          accountId: accountId,
+          priceUsd: null,
+          valueUsd: null,
+          metadata: {
+            address,
+            isMultiAccount: false
+          }
+        });
+      }
+    } catch (error) {
+      console.error(`Error fetching SUI balance for ${address}:`, error);
+      throw error;
+    }
+
+    return assets;
+  };
+
+  const fetchBitcoinBalances = async (input: string, accountId: string, accountLabel: string) => {
+    console.log(`[fetchBitcoinBalances] Fetching for ${input.slice(0, 12)}`);
+    const assets: Asset[] = [];
+
+    if (!deps.bitcoin) throw new Error('No Bitcoin integration is available');
+    const holdingsResult = await deps.bitcoin.getHoldings(input, { signal });
+    if (holdingsResult.isFailure) {
+      console.error(`Error fetching Bitcoin balance for ${input.slice(0, 12)}:`, holdingsResult.error);
+      throw holdingsResult.error;
+    }
+
+    const { balanceSats } = holdingsResult.value;
+    if (balanceSats > 0) {
+      assets.push({
+        id: `${accountId}-BTC-Bitcoin-${input}`,
+        symbol: 'BTC',
+        name: 'Bitcoin',
+        balance: formatSats(balanceSats),
+        source: accountLabel,
+        chain: 'Bitcoin',
+        accountId: accountId,
+        priceUsd: null,
+        valueUsd: null,
+        metadata: {
+          address: input,
+          isMultiAccount: false
+        }
+      });
+    }
+
+    return assets;
+  };
+
+  const fetchScope = (account: Account, scope: SyncScope): Promise<Asset[]> => {
+    if (account.type === 'cex') {
+      return fetchExchangeAssets(account, signal).then(result => {
+        if (result.isFailure) {
+          console.warn(`[runAccountSync] Exchange sync failed for ${account.label}:`, result.error.message);
+          throw result.error;
+        }
+        return result.value;
+      });
+    }
+    const address = account.address ?? '';
+    if (account.platform === 'Solana') return fetchSolanaBalances(address, account.id, account.label);
+    if (account.platform === 'SUI') return fetchSuiBalances(address, account.id, account.label);
+    if (account.platform === 'Bitcoin') return fetchBitcoinBalances(address, account.id, account.label);
+    return fetchEvmBalances(address, scope.chain ?? account.platform, account.id, account.label, account.tokens || []);
+  };
+
+  // ── Phase 1: Fetch all balances in parallel across all accounts/chains ──
+  const targetKeys = request.targets && new Set(request.targets.map(syncScopeKey));
+  const fetches: Array<{ account: Account; scope: SyncScope; assets: Promise<Asset[]> }> = [];
+  const planned = collectScopes(request.accounts, chainMap, true)
+    .filter(({ scope }) => !targetKeys || targetKeys.has(syncScopeKey(scope)));
+
+  // One batch per EVM chain, expecting a read from each of the chain's fetches
+  if (deps.balanceReader && !signal.aborted) {
+    const fetchesPerChain = new Map<string, number>();
+    for (const { account, scope } of planned) {
+      if (account.type === 'cex' || NON_EVM_PLATFORMS.has(account.platform)) continue;
+      const chain = scope.chain ?? account.platform;
+      if (chainMap[chain]) fetchesPerChain.set(chain, (fetchesPerChain.get(chain) ?? 0) + 1);
+    }
+    for (const [chain, count] of fetchesPerChain) {
+      balanceBatches.set(chain, new ChainBalanceBatch(deps.balanceReader, chainMap[chain].chainId, count, signal));
+    }
+  }
+
+  for (const { account, scope } of planned) {
+    if (signal.aborted) break;
+    fetches.push({ account, scope, assets: fetchScope(account, scope) });
+  }
+
+  // Stream each fetch back as it settles
+  const total = fetches.length;
+  let completed = 0;
+  emit({ type: 'progress', syncId, completed, total });
+  const reported = fetches.map(({ scope, assets }) => assets.then(
+    (result) => {
+      if (!signal.aborted) {
+        emit({ type: 'partial', syncId, ...scope, assets: result });
+        emit({ type: 'progress', syncId, completed: ++completed, total });
+      }
+      return result;
+    },
+    (error: unknown) => {
+      if (!signal.aborted) {
+        emit({ type: 'error', syncId, ...scope, message: errorMessage(error) });
+        emit({ type: 'progress', syncId, completed: ++completed, total });
+      }
+      throw error;
+    }
+  ));
+
+  // Wait for ALL balance fetches to complete (or fail individually)
+  const balanceResults = await Promise.allSettled(reported);
+  if (signal.aborted) return;
+
+  // ── Phase 1b: Scan for new tokens, outside the balance batches ──
+  // The scanner bounds each run in blocks and time; only fetches that turn up
+  // new tokens are read again, and their partial replaces the first one.
+  const discovery = deps.tokenDiscovery;
+  if (request.discoverTokens && discovery) {
+    const rescans = (await Promise.all(fetches.map(async ({ account, scope }, index) => {
+      const chain = scope.chain ?? account.platform;
+      const chainConfig = chainMap[chain];
+      if (balanceResults[index].status !== 'fulfilled' || account.type === 'cex' || !chainConfig || !account.address) return null;
+
+      const target = { accountId: account.id, address: account.address, chain, chainId: chainConfig.chainId };
+      const knownCount = (await discovery.known(target)).length;
+      const result = await discovery.discover(target, signal).catch(() => null);
+      if (result?.error) {
+        console.warn(`[runAccountSync] Token discovery failed on ${chain}:`, result.error);
+      }
+      return result && result.tokens.length > knownCount ? { account, scope, index, chain, tokens: result.tokens } : null;
+    }))).filter(rescan => rescan !== null);
+    if (signal.aborted) return;
+
+    balanceBatches.clear();
+    if (deps.balanceReader) {
+      const rescansPerChain = new Map<string, number>();
+      for (const { chain } of rescans) rescansPerChain.set(chain, (rescansPerChain.get(chain) ?? 0) + 1);
+      for (const [chain, count] of rescansPerChain) {
+        balanceBatches.set(chain, new ChainBalanceBatch(deps.balanceReader, chainMap[chain].chainId, count, signal));
+      }
+    }
+
+    await Promise.all(rescans.map(async ({ account, scope, index, chain, tokens }) => {
+      try {
+        const assets = await fetchEvmBalances(account.address ?? '', chain, account.id, account.label, account.tokens || [], tokens);
+        if (signal.aborted) return;
+        balanceResults[index] = { status: 'fulfilled', value: assets };
+        emit({ type: 'partial', syncId, ...scope, assets });
+      } catch (error) {
+        // The balances read before discovery still stand
+        console.warn(`[runAccountSync] Reading discovered tokens failed on ${chain}:`, error);
+      }
+    }));
+    if (signal.aborted) return;
+  }
+
+  // Collect all assets. An account whose fetches did not all succeed keeps its lastSync.
+  const allAssets: Asset[] = [];
+  const completedAccountIds = new Set(fetches.map(({ scope }) => scope.accountId));
+
+  balanceResults.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      allAssets.push(...result.value);
+    } else {
+      completedAccountIds.delete(fetches[index].scope.accountId);
+    }
+  });
+  const syncedAt = new Date().toISOString();
+
+  // ── Phase 2: Batch-fetch all prices in parallel ──
+  // Assets priced at the source (exchange cash balances) keep their price
+  const symbolsToPrice = [...new Set(allAssets.filter(a => a.priceUsd === null).map(a => a.symbol))];
+  const priceMap = await fetchPricesBatch(symbolsToPrice);
+  if (signal.aborted) return;
+
+  const pricedAssets = allAssets.map(asset => {
+    if (asset.priceUsd !== null) return asset;
+    const price = priceMap[asset.symbol] ?? 0;
+    return {
+      ...asset,
+      priceUsd: price,
+      valueUsd: price > 0 ? parseFloat(asset.balance) * price : asset.valueUsd,
+    };
+  });
+
+  emit({
+    type: 'complete',
+    syncId,
+    // Deduplicate assets by ID to prevent accumulation
+    assets: deduplicateAssets(pricedAssets),
+    prices: Object.fromEntries(Object.entries(priceMap).filter(([, price]) => price > 0)),
+    completedAccountIds: [...completedAccountIds],
+    syncedAt,
+  });
+}
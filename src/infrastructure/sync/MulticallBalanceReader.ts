@@ -0,0 +1,169 @@
+/**
+ * MulticallBalanceReader
+ *
+ * Reads native and ERC-20 balances of many addresses on one chain through
+ * Multicall3, so a sync makes a few eth_calls per chain instead of one per
+ * address and token. Calls are split into chunks bounded by call count and an
+ * estimated gas budget that stays under the eth_call gas caps nodes enforce.
+ * A chunk whose aggregate call fails is read again with individual calls.
+ */
+
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  multicall3Abi,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { multicall3Address, type EvmClientProvider } from '../defi/EvmClientProvider';
+
+export interface BalanceQuery {
+  owner: Address;
+  /** ERC-20 contracts to read the owner's balance of */
+  tokens: Address[];
+}
+
+export interface OwnerBalances {
+  /** Native balance in wei */
+  native: bigint;
+  /** Raw token balances by lowercased contract address; tokens whose read failed are absent */
+  tokens: Map<string, bigint>;
+}
+
+export interface MulticallBalanceReaderOptions {
+  /** Most calls aggregated into one eth_call */
+  maxCallsPerChunk?: number;
+  /** Gas budget of one aggregated eth_call, estimated per call */
+  maxGasPerChunk?: number;
+}
+
+const DEFAULT_MAX_CALLS_PER_CHUNK = 500;
+// Nodes commonly cap eth_call at 50M gas; stay well below it
+const DEFAULT_MAX_GAS_PER_CHUNK = 30_000_000;
+// Generous per-call estimates; proxied tokens cost more than a plain balanceOf
+const NATIVE_BALANCE_GAS = 10_000;
+const TOKEN_BALANCE_GAS = 60_000;
+
+interface BalanceCall {
+  owner: Address;
+  /** Undefined for the native balance */
+  token?: Address;
+}
+
+/** Balances of owners, keyed by lowercased address */
+export type ChainBalances = Map<string, OwnerBalances>;
+
+export class MulticallBalanceReader {
+  private readonly getClient: EvmClientProvider;
+  private readonly maxCallsPerChunk: number;
+  private readonly maxGasPerChunk: number;
+
+  constructor(getClient: EvmClientProvider, options: MulticallBalanceReaderOptions = {}) {
+    this.getClient = getClient;
+    this.maxCallsPerChunk = options.maxCallsPerChunk ?? DEFAULT_MAX_CALLS_PER_CHUNK;
+    this.maxGasPerChunk = options.maxGasPerChunk ?? DEFAULT_MAX_GAS_PER_CHUNK;
+  }
+
+  /**
+   * Read every query's native and token balances. Throws when a native
+   * balance cannot be read at all, so a failed chain is never reported as empty.
+   */
+  async readBalances(chainId: number, queries: BalanceQuery[], signal?: AbortSignal): Promise<ChainBalances> {
+    const client = this.getClient(chainId);
+    if (!client) throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+
+    // An owner queried more than once is read once, for all of its tokens
+    const owners = new Map<string, { owner: Address; tokens: Set<Address> }>();
+    for (const { owner, tokens } of queries) {
+      const key = owner.toLowerCase();
+      const entry = owners.get(key) ?? { owner, tokens: new Set<Address>() };
+      owners.set(key, entry);
+      for (const token of tokens) entry.tokens.add(token.toLowerCase() as Address);
+    }
+
+    const balances: ChainBalances = new Map();
+    const calls: BalanceCall[] = [];
+    for (const [key, { owner, tokens }] of owners) {
+      balances.set(key, { native: 0n, tokens: new Map() });
+      calls.push({ owner });
+      for (const token of tokens) calls.push({ owner, token });
+    }
+
+    for (const chunk of this.chunk(calls)) {
+      signal?.throwIfAborted();
+      const results = await this.readChunk(client, multicall3Address(chainId), chunk);
+      chunk.forEach((call, i) => {
+        const value = results[i];
+        const owner = balances.get(call.owner.toLowerCase())!;
+        if (call.token === undefined) {
+          if (value === null) throw new Error(`Failed to read the native balance of ${call.owner}`);
+          owner.native = value;
+        } else if (value !== null) {
+          owner.tokens.set(call.token, value);
+        }
+      });
+    }
+
+    return balances;
+  }
+
+  private chunk(calls: BalanceCall[]): BalanceCall[][] {
+    const chunks: BalanceCall[][] = [];
+    let current: BalanceCall[] = [];
+    let gas = 0;
+
+    for (const call of calls) {
+      const cost = call.token === undefined ? NATIVE_BALANCE_GAS : TOKEN_BALANCE_GAS;
+      if (current.length > 0 && (current.length >= this.maxCallsPerChunk || gas + cost > this.maxGasPerChunk)) {
+        chunks.push(current);
+        current = [];
+        gas = 0;
+      }
+      current.push(call);
+      gas += cost;
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+  }
+
+  /** One value per call, null where the call failed */
+  private async readChunk(client: PublicClient, multicall: Address, calls: BalanceCall[]): Promise<Array<bigint | null>> {
+    try {
+      const results = await client.readContract({
+        address: multicall,
+        abi: multicall3Abi,
+        functionName: 'aggregate3',
+        args: [calls.map(call => ({
+          target: call.token ?? multicall,
+          allowFailure: true,
+          callData: call.token === undefined
+            ? encodeFunctionData({ abi: multicall3Abi, functionName: 'getEthBalance', args: [call.owner] })
+            : encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [call.owner] }),
+        }))],
+      });
+
+      return results.map(({ success, returnData }, i) => success ? decodeBalance(calls[i], returnData) : null);
+    } catch (error) {
+      // Multicall3 missing, gas cap or response size exceeded: read this chunk call by call
+      console.warn(`[MulticallBalanceReader] Aggregated read of ${calls.length} balances failed, reading individually:`, error);
+      const settled = await Promise.allSettled(calls.map(call => call.token === undefined
+        ? client.getBalance({ address: call.owner })
+        : client.readContract({ address: call.token, abi: erc20Abi, functionName: 'balanceOf', args: [call.owner] })
+      ));
+      return settled.map(outcome => outcome.status === 'fulfilled' ? outcome.value : null);
+    }
+  }
+}
+
+function decodeBalance(call: BalanceCall, data: Hex): bigint | null {
+  try {
+    return call.token === undefined
+      ? decodeFunctionResult({ abi: multicall3Abi, functionName: 'getEthBalance', data })
+      : decodeFunctionResult({ abi: erc20Abi, functionName: 'balanceOf', data });
+  } catch {
+    // Contracts that are not ERC-20 tokens may return nothing
+    return null;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Sync scheduler
+ *
+ * Decides when balances are refreshed. Every few seconds it collects the
+ * scopes (an account on one chain, or an exchange account) whose cadence has
+ * elapsed and refreshes just those through the account sync client. It pauses
+ * while the tab is hidden or the browser is offline, refreshes stale scopes
+ * when the user returns, backs off scopes whose fetches keep failing, and
+ * runs manual account and chain refreshes as soon as no sync is running.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { Account } from '../../store/useStore';
+import type { AppRpcProviderConfig } from '../../config/rpc-provider-config.types';
+import {
+  MANUAL_SYNC,
+  isScopeDue,
+  resolveSyncInterval,
+  type ScopeSyncState,
+  type SyncCadence,
+} from '../../domain/sync/SyncCadence';
+import { listSyncScopes, syncScopeKey, type SyncDependencies } from './AccountSyncEngine';
+import type { AccountSyncClient } from './AccountSyncClient';
+import type { SyncEvent, SyncScope } from './syncProtocol';
+
+/** How often due scopes are looked for */
+export const SCHEDULER_TICK_MS = 5_000;
+
+/** On focus or reconnect, scopes not fetched for this long refresh right away */
+export const FOCUS_REFRESH_MS = 30_000;
+
+export type ActivityChange = 'visible' | 'hidden' | 'online' | 'offline';
+
+/** Page visibility and connectivity; injectable for tests */
+export interface ActivitySource {
+  isVisible: () => boolean;
+  isOnline: () => boolean;
+  subscribe: (listener: (change: ActivityChange) => void) => () => void;
+}
+
+export function browserActivity(): ActivitySource {
+  return {
+    isVisible: () => typeof document === 'undefined' || document.visibilityState !== 'hidden',
+    isOnline: () => typeof navigator === 'undefined' || navigator.onLine !== false,
+    subscribe(listener) {
+      const onVisibilityChange = () => listener(document.visibilityState === 'hidden' ? 'hidden' : 'visible');
+      const onFocus = () => listener('visible');
+      const onOnline = () => listener('online');
+      const onOffline = () => listener('offline');
+      // Global listeners rather than window's, which tests may replace with a plain object
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      addEventListener('focus', onFocus);
+      addEventListener('online', onOnline);
+      addEventListener('offline', onOffline);
+      return () => {
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+        removeEventListener('focus', onFocus);
+        removeEventListener('online', onOnline);
+        removeEventListener('offline', onOffline);
+      };
+    },
+  };
+}
+
+export interface SyncSchedulerConfig {
+  /** Connected wallet and exchange accounts */
+  accounts: Account[];
+  /** Identity of the accounts; when it changes everything is re-synced at once */
+  accountsKey: string;
+  environment: NetworkEnvironment;
+  rpcConfig: AppRpcProviderConfig;
+  local: SyncDependencies;
+  cadence: SyncCadence;
+  discoverTokens: boolean;
+}
+
+/** A manual refresh: every scope of an account, of a chain, or of an account on a chain */
+export interface RefreshTarget {
+  accountId?: string;
+  chain?: string;
+}
+
+export interface SyncSchedulerOptions {
+  activity?: ActivitySource;
+  now?: () => number;
+  tickMs?: number;
+}
+
+type SyncRunner = Pick<AccountSyncClient, 'start' | 'isSyncing' | 'subscribe'>;
+
+export class SyncScheduler {
+  private readonly client: SyncRunner;
+  private readonly activity: ActivitySource;
+  private readonly now: () => number;
+  private readonly tickMs: number;
+  private config: SyncSchedulerConfig | null = null;
+  private readonly scopeStates = new Map<string, ScopeSyncState>();
+  /** Scope keys refreshed on request; they skip the cadence and backoff checks */
+  private readonly forced = new Set<string>();
+  private inFlight: SyncScope[] = [];
+  private attachments = 0;
+  private stopTimers: (() => void) | null = null;
+
+  constructor(client: SyncRunner, options: SyncSchedulerOptions = {}) {
+    this.client = client;
+    this.activity = options.activity ?? browserActivity();
+    this.now = options.now ?? Date.now;
+    this.tickMs = options.tickMs ?? SCHEDULER_TICK_MS;
+    this.client.subscribe(event => this.handleEvent(event));
+  }
+
+  /**
+   * Latest accounts and settings. While attached, a change of accounts
+   * re-syncs everything, superseding a running sync.
+   */
+  configure(config: SyncSchedulerConfig): void {
+    const previousKey = this.config && `${this.config.environment}:${this.config.accountsKey}`;
+    this.config = config;
+    if (this.attachments > 0 && `${config.environment}:${config.accountsKey}` !== previousKey) {
+      this.start(this.scopes(), true);
+    }
+  }
+
+  /**
+   * Run the timers while at least one view needs them. A view attaching when
+   * no sync is running refreshes everything, as opening the dashboard did
+   * before syncs were scheduled.
+   */
+  attach(): () => void {
+    this.attachments++;
+    if (this.attachments === 1) {
+      const intervalId = setInterval(() => this.tick(), this.tickMs);
+      const unsubscribe = this.activity.subscribe(change => this.handleActivity(change));
+      this.stopTimers = () => {
+        clearInterval(intervalId);
+        unsubscribe();
+      };
+      if (!this.client.isSyncing()) this.start(this.scopes(), true);
+    }
+
+    let detached = false;
+    return () => {
+      if (detached) return;
+      detached = true;
+      this.attachments--;
+      if (this.attachments === 0) {
+        this.stopTimers?.();
+        this.stopTimers = null;
+      }
+    };
+  }
+
+  /** Refresh the scopes matching any target now, or once the running sync finishes */
+  refresh(...targets: RefreshTarget[]): void {
+    for (const scope of this.scopes()) {
+      const matches = targets.some(target =>
+        (target.accountId === undefined || scope.accountId === target.accountId)
+        && (target.chain === undefined || scope.chain === target.chain)
+      );
+      if (matches) this.forced.add(syncScopeKey(scope));
+    }
+    this.tick();
+  }
+
+  private scopes(): SyncScope[] {
+    return this.config ? listSyncScopes(this.config.accounts, this.config.environment) : [];
+  }
+
+  private stateOf(scope: SyncScope): ScopeSyncState {
+    const key = syncScopeKey(scope);
+    let state = this.scopeStates.get(key);
+    if (!state) {
+      state = { failures: 0 };
+      this.scopeStates.set(key, state);
+    }
+    return state;
+  }
+
+  private tick(): void {
+    const config = this.config;
+    if (!config || this.client.isSyncing()) return;
+    if (!this.activity.isVisible() || !this.activity.isOnline()) return;
+
+    const now = this.now();
+    const scopes = this.scopes();
+    const due = scopes.filter(scope =>
+      this.forced.has(syncScopeKey(scope))
+      || isScopeDue(this.stateOf(scope), resolveSyncInterval(config.cadence, scope.accountId, scope.chain), now)
+    );
+    if (due.length === 0) return;
+    this.start(due, due.length === scopes.length);
+  }
+
+  private start(scopes: SyncScope[], everything: boolean): void {
+    const config = this.config;
+    if (!config) return;
+
+    const now = this.now();
+    for (const scope of scopes) {
+      this.forced.delete(syncScopeKey(scope));
+      this.stateOf(scope).lastAttemptAt = now;
+    }
+    this.inFlight = scopes;
+
+    const targets = everything ? undefined : scopes;
+    this.client.start({
+      key: `${config.environment}:${config.accountsKey}${targets ? `|${targets.map(syncScopeKey).join(',')}` : ''}`,
+      accounts: config.accounts,
+      environment: config.environment,
+      rpcConfig: config.rpcConfig,
+      local: config.local,
+      targets,
+      discoverTokens: config.discoverTokens,
+    });
+  }
+
+  private handleEvent(event: SyncEvent): void {
+    switch (event.type) {
+      case 'partial':
+        this.stateOf(event).failures = 0;
+        return;
+      case 'error':
+        if (event.accountId) {
+          this.stateOf({ accountId: event.accountId, chain: event.chain }).failures++;
+        } else {
+          for (const scope of this.inFlight) this.stateOf(scope).failures++;
+        }
+        return;
+      case 'complete':
+        // Manual refreshes requested during the sync run now
+        if (this.forced.size > 0) this.tick();
+        return;
+    }
+  }
+
+  private handleActivity(change: ActivityChange): void {
+    if (change === 'hidden' || change === 'offline') return;
+
+    // Failures while offline say nothing about the endpoints
+    if (change === 'online') {
+      for (const state of this.scopeStates.values()) state.failures = 0;
+    }
+
+    const config = this.config;
+    if (!config) return;
+    const now = this.now();
+    for (const scope of this.scopes()) {
+      if (resolveSyncInterval(config.cadence, scope.accountId, scope.chain) === MANUAL_SYNC) continue;
+      const { lastAttemptAt } = this.stateOf(scope);
+      if (lastAttemptAt === undefined || now - lastAttemptAt >= FOCUS_REFRESH_MS) {
+        this.forced.add(syncScopeKey(scope));
+      }
+    }
+    this.tick();
+  }
+}
@@ -0,0 +1,486 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Account, Asset } from '../../../store/useStore';
+import { runAccountSync, type SyncDependencies } from '../AccountSyncEngine';
+import { AccountSyncClient, type SyncStoreState, type SyncTransport } from '../AccountSyncClient';
+import type { SyncEvent, SyncRequest } from '../syncProtocol';
+import { Result } from '../../../domain/shared/Result';
+
+vi.mock('@cygnus-wealth/asset-valuator', () => ({
+  AssetValuator: vi.fn().mockImplementation(() => ({
+    getPrice: vi.fn().mockImplementation((symbol: string) =>
+      Promise.resolve({ price: ({ ETH: 2000, SOL: 100 } as Record<string, number>)[symbol] ?? 0 })
+    ),
+  })),
+}));
+
+const { mockRecordSnapshot } = vi.hoisted(() => ({ mockRecordSnapshot: vi.fn() }));
+vi.mock('../../history/PortfolioSnapshotStore', () => ({
+  getPortfolioHistoryService: () => ({ recordSnapshot: mockRecordSnapshot }),
+}));
+
+const evmAccount: Account = {
+  id: 'evm-1',
+  type: 'wallet',
+  platform: 'Ethereum',
+  label: 'MetaMask',
+  address: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1',
+  status: 'connected',
+};
+
+const solAccount: Account = {
+  id: 'sol-1',
+  type: 'wallet',
+  platform: 'Solana',
+  label: 'Phantom',
+  address: '7EYnhQoR9YM3N7UoaKRoA44Uy8JeaZV3qyouov87awMs',
+  status: 'connected',
+};
+
+function createDeps(): SyncDependencies {
+  return {
+    evmRegistry: {
+      getAdapterByName: vi.fn().mockReturnValue({
+        connect: vi.fn().mockResolvedValue(undefined),
+        getBalance: vi.fn().mockResolvedValue({ amount: '1.5' }),
+        getTokenBalances: vi.fn().mockResolvedValue([]),
+      }),
+    } as unknown as SyncDependencies['evmRegistry'],
+    solanaFacade: {
+      getSolanaBalance: vi.fn().mockResolvedValue({ isSuccess: true, getValue: () => 2 }),
+      getTokenBalances: vi.fn().mockResolvedValue({ isSuccess: true, getValue: () => [] }),
+    } as unknown as SyncDependencies['solanaFacade'],
+  };
+}
+
+function asset(overrides: Partial<Asset>): Asset {
+  return {
+    id: 'evm-1-ETH-Ethereum-0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1',
+    symbol: 'ETH',
+    name: 'Ethereum',
+    balance: '1.5',
+    source: 'MetaMask',
+    chain: 'Ethereum',
+    accountId: 'evm-1',
+    priceUsd: null,
+    valueUsd: null,
+    ...overrides,
+  };
+}
+
+function createStore(initial: Partial<Pick<SyncStoreState, 'assets' | 'prices'>> = {}) {
+  const state: SyncStoreState = {
+    assets: initial.assets ?? [],
+    prices: initial.prices ?? {},
+    setAssets: vi.fn((assets: Asset[]) => { state.assets = assets; }),
+    calculateTotalValue: vi.fn(),
+    updatePrice: vi.fn((symbol: string, price: number) => { state.prices = { ...state.prices, [symbol]: price }; }),
+    updateAccount: vi.fn(),
+    setIsLoading: vi.fn(),
+    setError: vi.fn(),
+    setSyncProgress: vi.fn(),
+    assetLoadingStates: new Map(),
+    setAssetLoadingState: vi.fn((assetId: string, loading: object) => {
+      const current = state.assetLoadingStates.get(assetId) ?? { isLoadingBalance: false, isLoadingPrice: false };
+      state.assetLoadingStates = new Map(state.assetLoadingStates).set(assetId, { ...current, ...loading });
+    }),
+  };
+  return { getState: () => state };
+}
+
+/** Transport that records requests; tests push events through `emit` */
+function createFakeTransport() {
+  const sent: SyncRequest[] = [];
+  let emit: (event: SyncEvent) => void = () => {};
+  const create = (onEvent: (event: SyncEvent) => void): SyncTransport => {
+    emit = onEvent;
+    return { send: request => { sent.push(request); } };
+  };
+  return { sent, create, emit: (event: SyncEvent) => emit(event) };
+}
+
+const startOptions = {
+  key: 'production:evm-1',
+  accounts: [evmAccount],
+  environment: 'production' as const,
+  rpcConfig: {} as never,
+  local: createDeps(),
+};
+
+describe('runAccountSync', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('streams progress and partial results before the priced completion', async () => {
+    const events: SyncEvent[] = [];
+    await runAccountSync(
+      { syncId: 7, accounts: [evmAccount, solAccount], environment: 'production' },
+      createDeps(),
+      event => events.push(event),
+      new AbortController().signal
+    );
+
+    expect(events.map(event => event.type)).toEqual(['progress', 'partial', 'progress', 'partial', 'progress', 'complete']);
+    expect(events.every(event => event.syncId === 7)).toBe(true);
+    expect(events[0]).toMatchObject({ type: 'progress', completed: 0, total: 2 });
+
+    const partials = events.filter(event => event.type === 'partial');
+    expect(partials.flatMap(event => event.assets).every(a => a.priceUsd === null)).toBe(true);
+
+    const complete = events.at(-1);
+    expect(complete).toMatchObject({
+      type: 'complete',
+      prices: { ETH: 2000, SOL: 100 },
+      completedAccountIds: expect.arrayContaining(['evm-1', 'sol-1']),
+    });
+    if (complete?.type !== 'complete') throw new Error('expected complete');
+    expect(complete.assets.find(a => a.symbol === 'ETH')?.valueUsd).toBe(3000);
+    expect(complete.assets.find(a => a.symbol === 'SOL')?.valueUsd).toBe(200);
+  });
+
+  it('reports a failed chain as a scoped error instead of an empty partial', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const deps = createDeps();
+    vi.mocked(deps.evmRegistry.getAdapterByName).mockImplementation(name => ({
+      connect: vi.fn().mockResolvedValue(undefined),
+      getBalance: name === 'Polygon'
+        ? vi.fn().mockRejectedValue(new Error('rate limited'))
+        : vi.fn().mockResolvedValue({ amount: '1.5' }),
+      getTokenBalances: vi.fn().mockResolvedValue([]),
+    }) as unknown as ReturnType<SyncDependencies['evmRegistry']['getAdapterByName']>);
+    const multiChain: Account = {
+      ...evmAccount,
+      platform: 'Multi-Chain EVM',
+      metadata: { detectedChains: ['Ethereum', 'Polygon'] },
+    };
+
+    const events: SyncEvent[] = [];
+    await runAccountSync({ syncId: 1, accounts: [multiChain], environment: 'production' }, deps, event => events.push(event), new AbortController().signal);
+
+    expect(events).toContainEqual(expect.objectContaining({ type: 'partial', accountId: 'evm-1', chain: 'Ethereum' }));
+    expect(events).toContainEqual({ type: 'error', syncId: 1, accountId: 'evm-1', chain: 'Polygon', message: 'rate limited' });
+    expect(events.at(-1)).toMatchObject({ type: 'complete', completedAccountIds: [] });
+  });
+
+  it('reads balances of discovered tokens when discovery is requested', async () => {
+    const deps = createDeps();
+    const discovered = { address: '0x5555555555555555555555555555555555555555', symbol: 'ENA', name: 'Ethena', decimals: 18, chainId: 1 };
+    const tokenDiscovery = {
+      discover: vi.fn().mockResolvedValue({ tokens: [discovered], hasMore: false }),
+      known: vi.fn().mockResolvedValue([]),
+    };
+    deps.tokenDiscovery = tokenDiscovery;
+    const adapter = deps.evmRegistry.getAdapterByName('Ethereum');
+
+    await runAccountSync({ syncId: 1, accounts: [evmAccount], environment: 'production' }, deps, () => {}, new AbortController().signal);
+    expect(tokenDiscovery.discover).not.toHaveBeenCalled();
+
+    await runAccountSync(
+      { syncId: 2, accounts: [evmAccount], environment: 'production', discoverTokens: true },
+      deps,
+      () => {},
+      new AbortController().signal
+    );
+    expect(tokenDiscovery.discover).toHaveBeenCalledWith(
+      { accountId: 'evm-1', address: evmAccount.address, chain: 'Ethereum', chainId: 1 },
+      expect.any(AbortSignal)
+    );
+    const tokenList = vi.mocked(adapter.getTokenBalances).mock.calls.at(-1)?.[1];
+    expect(tokenList).toContainEqual(expect.objectContaining({ address: discovered.address, symbol: 'ENA' }));
+  });
+
+  it('reads balances of tokens on token lists marked for sync', async () => {
+    const deps = createDeps();
+    const listed = { chainId: 1, address: '0x57e114B691Db790C35207b2e685D4A43181e6061', symbol: 'ENA', name: 'Ethena', decimals: 18 };
+    deps.tokenCatalog = { syncTokens: vi.fn().mockResolvedValue([listed]) };
+    const adapter = deps.evmRegistry.getAdapterByName('Ethereum');
+
+    await runAccountSync({ syncId: 1, accounts: [evmAccount], environment: 'production' }, deps, () => {}, new AbortController().signal);
+
+    expect(deps.tokenCatalog.syncTokens).toHaveBeenCalledWith(1);
+    const tokenList = vi.mocked(adapter.getTokenBalances).mock.calls.at(-1)?.[1];
+    expect(tokenList).toContainEqual(expect.objectContaining({ address: listed.address, symbol: 'ENA' }));
+  });
+
+  it('reads watch-only Bitcoin accounts through the Bitcoin integration', async () => {
+    const deps = createDeps();
+    deps.bitcoin = {
+      getHoldings: vi.fn().mockResolvedValue(Result.success({
+        balanceSats: 150_000, addresses: [], utxos: [], nextReceiveAddress: null,
+      })),
+    };
+    const btcAccount: Account = {
+      id: 'btc-1',
+      type: 'wallet',
+      platform: 'Bitcoin',
+      label: 'Cold storage',
+      address: 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs',
+      status: 'connected',
+    };
+
+    const events: SyncEvent[] = [];
+    await runAccountSync({ syncId: 1, accounts: [btcAccount], environment: 'production' }, deps, event => events.push(event), new AbortController().signal);
+
+    expect(deps.bitcoin.getHoldings).toHaveBeenCalledWith(btcAccount.address, { signal: expect.any(AbortSignal) });
+    expect(events).toContainEqual(expect.objectContaining({
+      type: 'partial',
+      accountId: 'btc-1',
+      chain: 'Bitcoin',
+      assets: [expect.objectContaining({ symbol: 'BTC', balance: '0.0015', chain: 'Bitcoin' })],
+    }));
+    expect(events.at(-1)).toMatchObject({ type: 'complete', completedAccountIds: ['btc-1'] });
+  });
+
+  it('reads the balances of every account on a chain in one batch', async () => {
+    const deps = createDeps();
+    const secondAccount = { ...evmAccount, id: 'evm-2', address: '0x1111111111111111111111111111111111111111' };
+    const owner = (native: bigint, usdc: bigint) => ({
+      native,
+      tokens: new Map([['0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', usdc]]),
+    });
+    deps.balanceReader = {
+      readBalances: vi.fn().mockResolvedValue(new Map([
+        [evmAccount.address!.toLowerCase(), owner(10n ** 18n, 0n)],
+        [secondAccount.address.toLowerCase(), owner(0n, 2_500_000n)],
+      ])),
+    };
+    const events: SyncEvent[] = [];
+
+    await runAccountSync(
+      { syncId: 1, accounts: [evmAccount, secondAccount, solAccount], environment: 'production' },
+      deps,
+      event => events.push(event),
+      new AbortController().signal
+    );
+
+    expect(deps.balanceReader.readBalances).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(deps.balanceReader.readBalances).mock.calls[0][1].map(query => query.owner))
+      .toEqual([evmAccount.address, secondAccount.address]);
+    expect(deps.evmRegistry.getAdapterByName).not.toHaveBeenCalled();
+
+    const partials = events.flatMap(event => event.type === 'partial' ? [event] : []);
+    expect(partials.find(event => event.accountId === 'evm-1')?.assets)
+      .toEqual([expect.objectContaining({ symbol: 'ETH', balance: '1' })]);
+    expect(partials.find(event => event.accountId === 'evm-2')?.assets)
+      .toEqual([expect.objectContaining({ symbol: 'USDC', balance: '2.5' })]);
+  });
+
+  it('falls back to the chain adapter when the batched read fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const deps = createDeps();
+    deps.balanceReader = { readBalances: vi.fn().mockRejectedValue(new Error('execution reverted')) };
+    const events: SyncEvent[] = [];
+
+    await runAccountSync(
+      { syncId: 1, accounts: [evmAccount], environment: 'production' },
+      deps,
+      event => events.push(event),
+      new AbortController().signal
+    );
+
+    expect(deps.evmRegistry.getAdapterByName).toHaveBeenCalledWith('Ethereum');
+    expect(events).toContainEqual(expect.objectContaining({
+      type: 'partial',
+      accountId: 'evm-1',
+      assets: [expect.objectContaining({ symbol: 'ETH', balance: '1.5' })],
+    }));
+  });
+
+  it('emits nothing more once aborted', async () => {
+    const controller = new AbortController();
+    const events: SyncEvent[] = [];
+    const sync = runAccountSync(
+      { syncId: 1, accounts: [evmAccount], environment: 'production' },
+      createDeps(),
+      event => events.push(event),
+      controller.signal
+    );
+    controller.abort();
+    await sync;
+
+    expect(events.map(event => event.type)).toEqual(['progress']);
+  });
+});
+
+describe('AccountSyncClient', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockRecordSnapshot.mockReset().mockResolvedValue({ ifFailure: vi.fn() });
+  });
+
+  it('sends a start request and marks the store as loading', () => {
+    const store = createStore();
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+
+    client.start(startOptions);
+
+    expect(transport.sent).toEqual([expect.objectContaining({ type: 'start', syncId: 1, accounts: [evmAccount] })]);
+    expect(store.getState().setIsLoading).toHaveBeenCalledWith(true);
+    expect(client.isSyncing()).toBe(true);
+  });
+
+  it('joins a running sync with the same key and supersedes it otherwise', () => {
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(createStore(), transport.create);
+
+    client.start(startOptions);
+    client.start(startOptions);
+    expect(transport.sent).toHaveLength(1);
+
+    client.start({ ...startOptions, key: 'production:evm-1,sol-1', accounts: [evmAccount, solAccount] });
+    expect(transport.sent.map(request => [request.type, request.syncId])).toEqual([
+      ['start', 1],
+      ['abort', 1],
+      ['start', 2],
+    ]);
+  });
+
+  it('merges partial rows into the store keeping the last known price', () => {
+    const store = createStore({
+      assets: [asset({ balance: '1', priceUsd: 2000, valueUsd: 2000 }), asset({ id: 'other', symbol: 'MATIC', chain: 'Polygon' })],
+      prices: { LINK: 10 },
+    });
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+    client.start(startOptions);
+
+    transport.emit({
+      type: 'partial',
+      syncId: 1,
+      accountId: 'evm-1',
+      chain: 'Ethereum',
+      assets: [asset({ balance: '2' }), asset({ id: 'link', symbol: 'LINK', balance: '3' }), asset({ id: 'new', symbol: 'NEW' })],
+    });
+
+    const { assets } = store.getState();
+    expect(assets.map(a => [a.id, a.balance, a.valueUsd])).toEqual([
+      ['evm-1-ETH-Ethereum-0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1', '2', 4000],
+      ['other', '1.5', null],
+      ['link', '3', 30],
+      ['new', '1.5', null],
+    ]);
+    expect(store.getState().calculateTotalValue).toHaveBeenCalled();
+  });
+
+  it('drops rows that disappeared from the fetched chain only', () => {
+    const store = createStore({
+      assets: [asset({ id: 'sold', symbol: 'UNI' }), asset({ id: 'polygon', symbol: 'MATIC', chain: 'Polygon' })],
+    });
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+    client.start(startOptions);
+
+    transport.emit({ type: 'partial', syncId: 1, accountId: 'evm-1', chain: 'Ethereum', assets: [] });
+
+    expect(store.getState().assets.map(a => a.id)).toEqual(['polygon']);
+  });
+
+  it('tracks per-row loading states as fetches settle', () => {
+    const store = createStore({
+      assets: [asset({ priceUsd: 2000 }), asset({ id: 'polygon', symbol: 'MATIC', chain: 'Polygon', priceUsd: 1 })],
+    });
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+    const loading = (id: string) => store.getState().assetLoadingStates.get(id);
+
+    client.start(startOptions);
+    expect(loading(asset({}).id)).toMatchObject({ isLoadingBalance: true });
+    expect(loading('polygon')).toMatchObject({ isLoadingBalance: true });
+
+    transport.emit({
+      type: 'partial',
+      syncId: 1,
+      accountId: 'evm-1',
+      chain: 'Ethereum',
+      assets: [asset({}), asset({ id: 'unpriced', symbol: 'NEW' })],
+    });
+    transport.emit({ type: 'error', syncId: 1, accountId: 'evm-1', chain: 'Polygon', message: 'Timeout' });
+
+    expect(loading(asset({}).id)).toMatchObject({ isLoadingBalance: false, isLoadingPrice: false });
+    expect(loading('unpriced')).toMatchObject({ isLoadingBalance: false, isLoadingPrice: true });
+    expect(loading('polygon')).toMatchObject({ isLoadingBalance: false, balanceError: 'Timeout' });
+  });
+
+  it('keeps the last known rows of a failed fetch when the sync completes', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const polygon = asset({ id: 'polygon', symbol: 'MATIC', chain: 'Polygon', priceUsd: 1, valueUsd: 1.5 });
+    const store = createStore({ assets: [asset({}), polygon] });
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+    client.start(startOptions);
+
+    const priced = asset({ priceUsd: 2000, valueUsd: 3000 });
+    transport.emit({ type: 'error', syncId: 1, accountId: 'evm-1', chain: 'Polygon', message: 'Timeout' });
+    transport.emit({ type: 'complete', syncId: 1, assets: [priced], prices: {}, completedAccountIds: [], syncedAt: '' });
+
+    expect(store.getState().assets).toEqual([priced, polygon]);
+    expect(store.getState().updateAccount).not.toHaveBeenCalled();
+  });
+
+  it('applies the completed sync to the store', () => {
+    const store = createStore({ assets: [asset({ id: 'stale' })] });
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+    client.start(startOptions);
+
+    const priced = asset({ priceUsd: 2000, valueUsd: 3000 });
+    transport.emit({
+      type: 'complete',
+      syncId: 1,
+      assets: [priced],
+      prices: { ETH: 2000 },
+      completedAccountIds: ['evm-1'],
+      syncedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    const state = store.getState();
+    expect(state.assets).toEqual([priced]);
+    expect(state.prices).toEqual({ ETH: 2000 });
+    expect(state.setIsLoading).toHaveBeenLastCalledWith(false);
+    expect(state.setSyncProgress).toHaveBeenLastCalledWith(null);
+    expect(state.updateAccount).toHaveBeenCalledWith('evm-1', { lastSync: '2026-01-01T00:00:00.000Z' });
+    expect(mockRecordSnapshot).toHaveBeenCalledWith([priced]);
+    expect(client.isSyncing()).toBe(false);
+  });
+
+  it('drops events of a superseded sync', () => {
+    const store = createStore();
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+    client.start(startOptions);
+    client.start({ ...startOptions, key: 'production:sol-1', accounts: [solAccount] });
+
+    transport.emit({ type: 'progress', syncId: 1, completed: 1, total: 1 });
+    transport.emit({ type: 'partial', syncId: 1, accountId: 'evm-1', assets: [asset({})] });
+
+    expect(store.getState().setSyncProgress).not.toHaveBeenCalledWith({ completed: 1, total: 1 });
+    expect(store.getState().assets).toEqual([]);
+  });
+
+  it('ends the sync with a store error when the whole sync fails', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = createStore();
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+    client.start(startOptions);
+
+    transport.emit({ type: 'error', syncId: 1, message: 'Account sync worker failed' });
+
+    expect(store.getState().setError).toHaveBeenLastCalledWith('Account sync worker failed');
+    expect(store.getState().setIsLoading).toHaveBeenLastCalledWith(false);
+    expect(client.isSyncing()).toBe(false);
+  });
+
+  it('clears assets without a sync when there are no accounts', () => {
+    const store = createStore({ assets: [asset({})] });
+    const transport = createFakeTransport();
+    const client = new AccountSyncClient(store, transport.create);
+
+    client.start({ ...startOptions, key: 'production:', accounts: [] });
+
+    expect(transport.sent).toEqual([]);
+    expect(store.getState().assets).toEqual([]);
+    expect(client.isSyncing()).toBe(false);
+  });
+});
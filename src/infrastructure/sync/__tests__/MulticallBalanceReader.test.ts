@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  erc20Abi,
+  multicall3Abi,
+  toHex,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { MULTICALL3_ADDRESS, multicall3Address } from '../../defi/EvmClientProvider';
+import { MulticallBalanceReader } from '../MulticallBalanceReader';
+
+const ALICE: Address = '0x1111111111111111111111111111111111111111';
+const BOB: Address = '0x2222222222222222222222222222222222222222';
+const USDC: Address = '0x3333333333333333333333333333333333333333';
+const WETH: Address = '0x4444444444444444444444444444444444444444';
+/** Not a token: balanceOf reverts */
+const BROKEN: Address = '0x5555555555555555555555555555555555555555';
+
+const NATIVE: Record<string, bigint> = { [ALICE]: 10n ** 18n, [BOB]: 0n };
+const TOKENS: Record<string, Record<string, bigint>> = {
+  [USDC]: { [ALICE]: 5_000_000n, [BOB]: 7n },
+  [WETH]: { [ALICE]: 2n, [BOB]: 0n },
+};
+
+interface ChainOptions {
+  /** Sizes of the aggregated calls made */
+  aggregates?: number[];
+  /** RPC methods called individually */
+  individual?: string[];
+  /** Reject every aggregated call, as a chain without Multicall3 would */
+  failAggregate?: boolean;
+  /** Where the chain's Multicall3 is deployed */
+  multicall?: Address;
+}
+
+function tokenBalance(token: string, owner: string): bigint {
+  const balances = TOKENS[token.toLowerCase()];
+  if (!balances) throw new Error('execution reverted');
+  return balances[owner.toLowerCase()] ?? 0n;
+}
+
+function createChainClient({ aggregates = [], individual = [], failAggregate = false, multicall = MULTICALL3_ADDRESS }: ChainOptions = {}): PublicClient {
+  return createPublicClient({
+    transport: custom({
+      async request({ method, params }: { method: string; params?: unknown }) {
+        const args = params as unknown[];
+        switch (method) {
+          case 'eth_getBalance':
+            individual.push(method);
+            return toHex(NATIVE[(args[0] as string).toLowerCase()] ?? 0n);
+          case 'eth_call': {
+            const { to, data } = args[0] as { to: string; data: Hex };
+            if (to.toLowerCase() !== multicall.toLowerCase()) {
+              individual.push(method);
+              const { args: [owner] } = decodeFunctionData({ abi: erc20Abi, data }) as unknown as { args: [string] };
+              return encodeFunctionResult({ abi: erc20Abi, functionName: 'balanceOf', result: tokenBalance(to, owner) });
+            }
+
+            if (failAggregate) throw new Error('execution reverted');
+            const { args: [subcalls] } = decodeFunctionData({ abi: multicall3Abi, data }) as unknown as {
+              args: [Array<{ target: string; callData: Hex }>];
+            };
+            aggregates.push(subcalls.length);
+            const results = subcalls.map(({ target, callData }) => {
+              if (target.toLowerCase() === multicall.toLowerCase()) {
+                const { args: [owner] } = decodeFunctionData({ abi: multicall3Abi, data: callData }) as unknown as { args: [string] };
+                return {
+                  success: true,
+                  returnData: encodeFunctionResult({ abi: multicall3Abi, functionName: 'getEthBalance', result: NATIVE[owner.toLowerCase()] ?? 0n }),
+                };
+              }
+              const { args: [owner] } = decodeFunctionData({ abi: erc20Abi, data: callData }) as unknown as { args: [string] };
+              try {
+                return {
+                  success: true,
+                  returnData: encodeFunctionResult({ abi: erc20Abi, functionName: 'balanceOf', result: tokenBalance(target, owner) }),
+                };
+              } catch {
+                return { success: false, returnData: '0x' as Hex };
+              }
+            });
+            return encodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', result: results });
+          }
+          default:
+            throw new Error(`Unexpected RPC method: ${method}`);
+        }
+      },
+    }, { retryCount: 0 }),
+  });
+}
+
+const queries = [
+  { owner: ALICE, tokens: [USDC, WETH] },
+  { owner: BOB, tokens: [USDC, WETH] },
+];
+
+describe('MulticallBalanceReader', () => {
+  it('reads every balance of a chain in one aggregated call', async () => {
+    const aggregates: number[] = [];
+    const reader = new MulticallBalanceReader(() => createChainClient({ aggregates }));
+
+    const balances = await reader.readBalances(1, queries);
+
+    expect(aggregates).toEqual([6]);
+    expect(balances.get(ALICE)).toEqual({ native: 10n ** 18n, tokens: new Map([[USDC, 5_000_000n], [WETH, 2n]]) });
+    expect(balances.get(BOB)).toEqual({ native: 0n, tokens: new Map([[USDC, 7n], [WETH, 0n]]) });
+  });
+
+  it('uses the zkSync Multicall3 deployment on zkSync Era', async () => {
+    const aggregates: number[] = [];
+    const individual: string[] = [];
+    const reader = new MulticallBalanceReader(() => createChainClient({ aggregates, individual, multicall: multicall3Address(324) }));
+
+    const balances = await reader.readBalances(324, queries);
+
+    expect(multicall3Address(324)).not.toBe(MULTICALL3_ADDRESS);
+    expect(aggregates).toEqual([6]);
+    expect(individual).toEqual([]);
+    expect(balances.get(ALICE)?.native).toBe(10n ** 18n);
+  });
+
+  it('splits calls into chunks bounded by call count and gas', async () => {
+    const byCount: number[] = [];
+    await new MulticallBalanceReader(() => createChainClient({ aggregates: byCount }), { maxCallsPerChunk: 4 })
+      .readBalances(1, queries);
+    expect(byCount).toEqual([4, 2]);
+
+    // A native read fits beside one token read in 70k gas, two token reads do not
+    const byGas: number[] = [];
+    await new MulticallBalanceReader(() => createChainClient({ aggregates: byGas }), { maxGasPerChunk: 70_000 })
+      .readBalances(1, queries);
+    expect(byGas).toEqual([2, 2, 1, 1]);
+  });
+
+  it('reads a chunk call by call when its aggregated call fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const individual: string[] = [];
+    const reader = new MulticallBalanceReader(() => createChainClient({ individual, failAggregate: true }));
+
+    const balances = await reader.readBalances(1, queries);
+
+    expect(individual).toHaveLength(6);
+    expect(balances.get(ALICE)?.native).toBe(10n ** 18n);
+    expect(balances.get(BOB)?.tokens.get(USDC)).toBe(7n);
+  });
+
+  it('leaves out tokens whose balance cannot be read', async () => {
+    const reader = new MulticallBalanceReader(() => createChainClient());
+
+    const balances = await reader.readBalances(1, [{ owner: ALICE, tokens: [USDC, BROKEN] }]);
+
+    expect(balances.get(ALICE)?.tokens).toEqual(new Map([[USDC, 5_000_000n]]));
+  });
+
+  it('reads an owner queried more than once for every token asked for', async () => {
+    const aggregates: number[] = [];
+    const reader = new MulticallBalanceReader(() => createChainClient({ aggregates }));
+
+    const balances = await reader.readBalances(1, [
+      { owner: ALICE, tokens: [USDC] },
+      { owner: ALICE, tokens: [WETH, USDC] },
+    ]);
+
+    expect(aggregates).toEqual([3]);
+    expect(balances.get(ALICE)).toEqual({ native: 10n ** 18n, tokens: new Map([[USDC, 5_000_000n], [WETH, 2n]]) });
+  });
+
+  it('rejects chains without a configured client', async () => {
+    const reader = new MulticallBalanceReader(() => null);
+    await expect(reader.readBalances(1, queries)).rejects.toThrow('No RPC endpoint');
+  });
+});
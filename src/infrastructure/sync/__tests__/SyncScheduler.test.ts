@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Account } from '../../../store/useStore';
+import type { AppRpcProviderConfig } from '../../../config/rpc-provider-config.types';
+import { DEFAULT_SYNC_CADENCE, type SyncCadence } from '../../../domain/sync/SyncCadence';
+import type { StartSyncOptions } from '../AccountSyncClient';
+import type { SyncDependencies } from '../AccountSyncEngine';
+import type { SyncEvent } from '../syncProtocol';
+import {
+  SyncScheduler,
+  SCHEDULER_TICK_MS,
+  type ActivityChange,
+  type ActivitySource,
+  type SyncSchedulerConfig,
+} from '../SyncScheduler';
+
+vi.mock('@cygnus-wealth/asset-valuator', () => ({
+  AssetValuator: vi.fn(),
+}));
+
+const evmAccount: Account = {
+  id: 'evm-1',
+  type: 'wallet',
+  platform: 'Multi-Chain EVM',
+  label: 'MetaMask',
+  address: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1',
+  status: 'connected',
+  metadata: { detectedChains: ['Ethereum', 'Polygon'] },
+};
+
+const solAccount: Account = {
+  id: 'sol-1',
+  type: 'wallet',
+  platform: 'Solana',
+  label: 'Phantom',
+  address: '7EYnhQoR9YM3N7UoaKRoA44Uy8JeaZV3qyouov87awMs',
+  status: 'connected',
+};
+
+/** Stands in for the account sync client; syncs run until `finish` is called */
+function createFakeClient() {
+  const listeners = new Set<(event: SyncEvent) => void>();
+  const started: StartSyncOptions[] = [];
+  let running = false;
+
+  return {
+    started,
+    start: vi.fn((options: StartSyncOptions) => {
+      started.push(options);
+      running = true;
+    }),
+    isSyncing: () => running,
+    subscribe: (listener: (event: SyncEvent) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    emit(event: Omit<SyncEvent, 'syncId'>) {
+      if (event.type === 'complete' || (event.type === 'error' && !('accountId' in event && event.accountId))) {
+        running = false;
+      }
+      for (const listener of listeners) listener({ ...event, syncId: 1 } as SyncEvent);
+    },
+    finish() {
+      this.emit({ type: 'complete', assets: [], prices: {}, completedAccountIds: [], syncedAt: '' } as Omit<SyncEvent, 'syncId'>);
+    },
+  };
+}
+
+function createFakeActivity() {
+  let listener: ((change: ActivityChange) => void) | null = null;
+  const activity = {
+    visible: true,
+    online: true,
+    isVisible: () => activity.visible,
+    isOnline: () => activity.online,
+    subscribe: (next: (change: ActivityChange) => void) => {
+      listener = next;
+      return () => { listener = null; };
+    },
+    change(change: ActivityChange) {
+      if (change === 'hidden' || change === 'visible') activity.visible = change === 'visible';
+      if (change === 'online' || change === 'offline') activity.online = change === 'online';
+      listener?.(change);
+    },
+  };
+  return activity satisfies ActivitySource;
+}
+
+function config(overrides: Partial<SyncSchedulerConfig> = {}): SyncSchedulerConfig {
+  return {
+    accounts: [evmAccount, solAccount],
+    accountsKey: 'evm-1,sol-1',
+    environment: 'production',
+    rpcConfig: {} as AppRpcProviderConfig,
+    local: {} as SyncDependencies,
+    cadence: DEFAULT_SYNC_CADENCE,
+    discoverTokens: false,
+    ...overrides,
+  };
+}
+
+const targetKeys = (options: StartSyncOptions | undefined) =>
+  options?.targets?.map(scope => `${scope.accountId}:${scope.chain}`);
+
+describe('SyncScheduler', () => {
+  let now: number;
+  let client: ReturnType<typeof createFakeClient>;
+  let activity: ReturnType<typeof createFakeActivity>;
+  let scheduler: SyncScheduler;
+
+  const advance = (ms: number) => {
+    now += ms;
+    vi.advanceTimersByTime(ms);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    now = 0;
+    client = createFakeClient();
+    activity = createFakeActivity();
+    scheduler = new SyncScheduler(client, { activity, now: () => now });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('syncs everything when attached and again when the accounts change', () => {
+    scheduler.configure(config());
+    expect(client.start).not.toHaveBeenCalled();
+
+    scheduler.attach();
+    expect(client.started).toHaveLength(1);
+    expect(client.started[0].targets).toBeUndefined();
+
+    scheduler.configure(config({ accounts: [solAccount], accountsKey: 'sol-1' }));
+    expect(client.started).toHaveLength(2);
+    expect(client.started[1].accounts).toEqual([solAccount]);
+  });
+
+  it('refreshes each scope on the cadence of its chain or account', () => {
+    const cadence: SyncCadence = {
+      defaultIntervalMs: 60_000,
+      chains: { Polygon: 5 * 60_000 },
+      accounts: { 'sol-1': 30_000 },
+    };
+    scheduler.configure(config({ cadence }));
+    scheduler.attach();
+    client.finish();
+
+    advance(30_000);
+    expect(targetKeys(client.started[1])).toEqual(['sol-1:Solana']);
+    client.finish();
+
+    advance(30_000);
+    expect(targetKeys(client.started[2])).toEqual(['evm-1:Ethereum', 'sol-1:Solana']);
+    client.finish();
+
+    for (let elapsed = 60_000; elapsed < 4.5 * 60_000; elapsed += 30_000) {
+      advance(30_000);
+      client.finish();
+    }
+    expect(client.started.filter(options => targetKeys(options)?.includes('evm-1:Polygon'))).toHaveLength(0);
+
+    // At five minutes every scope is due, so one full sync runs
+    advance(30_000);
+    expect(client.started.at(-1)?.targets).toBeUndefined();
+  });
+
+  it('pauses while hidden or offline and catches up on return', () => {
+    scheduler.configure(config());
+    scheduler.attach();
+    client.finish();
+
+    activity.change('hidden');
+    advance(5 * 60_000);
+    expect(client.started).toHaveLength(1);
+
+    activity.change('visible');
+    expect(client.started).toHaveLength(2);
+    expect(client.started[1].targets).toBeUndefined();
+    client.finish();
+
+    activity.change('offline');
+    advance(5 * 60_000);
+    expect(client.started).toHaveLength(2);
+    activity.change('online');
+    expect(client.started).toHaveLength(3);
+  });
+
+  it('does not refresh on focus when the last fetch is recent', () => {
+    scheduler.configure(config());
+    scheduler.attach();
+    client.finish();
+
+    advance(10_000);
+    activity.change('visible');
+    expect(client.started).toHaveLength(1);
+  });
+
+  it('backs off a scope whose fetches keep failing', () => {
+    scheduler.configure(config({ accounts: [solAccount], accountsKey: 'sol-1' }));
+    scheduler.attach();
+    client.emit({ type: 'error', accountId: 'sol-1', chain: 'Solana', message: 'RPC down' } as Omit<SyncEvent, 'syncId'>);
+    client.finish();
+
+    // First failure: retried after the normal interval
+    advance(60_000);
+    expect(client.started).toHaveLength(2);
+    client.emit({ type: 'error', accountId: 'sol-1', chain: 'Solana', message: 'RPC down' } as Omit<SyncEvent, 'syncId'>);
+    client.finish();
+
+    // Second failure: the wait doubles
+    advance(60_000);
+    expect(client.started).toHaveLength(2);
+    advance(60_000);
+    expect(client.started).toHaveLength(3);
+
+    // A success resets the backoff
+    client.emit({ type: 'partial', accountId: 'sol-1', chain: 'Solana', assets: [] } as Omit<SyncEvent, 'syncId'>);
+    client.finish();
+    advance(60_000);
+    expect(client.started).toHaveLength(4);
+  });
+
+  it('runs manual refreshes now, or after the running sync', () => {
+    scheduler.configure(config());
+    scheduler.attach();
+
+    scheduler.refresh({ chain: 'Polygon' });
+    expect(client.started).toHaveLength(1);
+
+    client.finish();
+    expect(targetKeys(client.started[1])).toEqual(['evm-1:Polygon']);
+    client.finish();
+
+    scheduler.refresh({ accountId: 'evm-1' });
+    expect(targetKeys(client.started[2])).toEqual(['evm-1:Ethereum', 'evm-1:Polygon']);
+  });
+
+  it('keeps manual-only scopes out of the schedule', () => {
+    scheduler.configure(config({ cadence: { ...DEFAULT_SYNC_CADENCE, defaultIntervalMs: 0 } }));
+    scheduler.attach();
+    client.finish();
+
+    advance(60 * 60_000);
+    activity.change('visible');
+    expect(client.started).toHaveLength(1);
+
+    scheduler.refresh({ accountId: 'sol-1' });
+    expect(targetKeys(client.started[1])).toEqual(['sol-1:Solana']);
+  });
+
+  it('stops ticking once every view has detached', () => {
+    scheduler.configure(config());
+    const detachA = scheduler.attach();
+    const detachB = scheduler.attach();
+    client.finish();
+
+    detachA();
+    advance(60_000 + SCHEDULER_TICK_MS);
+    expect(client.started).toHaveLength(2);
+    client.finish();
+
+    detachB();
+    advance(10 * 60_000);
+    expect(client.started).toHaveLength(2);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Account sync worker
+ *
+ * Runs the account sync engine off the main thread. The EVM, Solana and
+ * Bitcoin integrations are built here from the RPC config sent with each start
+ * request, and reused while that config stays the same. Request telemetry is
+ * posted back, as workers have no localStorage to keep it in.
+ */
+
+import { createBitcoinIntegration, createEvmIntegration, createSolIntegration } from '../../config/integrationServices';
+import type { AppRpcProviderConfig } from '../../config/rpc-provider-config.types';
+import { createRegistryClientProvider } from '../defi/EvmClientProvider';
+import { createTokenDiscoveryService } from '../tokens/createTokenDiscoveryService';
+import { getTokenListService } from '../tokens/TokenListService';
+import { runAccountSync, type SyncDependencies } from './AccountSyncEngine';
+import { MulticallBalanceReader } from './MulticallBalanceReader';
+import { setRpcTelemetrySink } from '../rpc/requestTelemetry';
+import type { SyncRequest, SyncWorkerMessage } from './syncProtocol';
+
+// The app is type-checked against the DOM lib; this is the part of the worker scope we use
+interface SyncWorkerScope {
+  postMessage(message: SyncWorkerMessage): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<SyncRequest>) => void): void;
+}
+
+const scope = self as unknown as SyncWorkerScope;
+const running = new Map<number, AbortController>();
+let integrations: { configKey: string; deps: SyncDependencies } | null = null;
+
+setRpcTelemetrySink((chainId, url, outcome) => scope.postMessage({ type: 'telemetry', chainId, url, outcome }));
+
+function getDependencies(rpcConfig: AppRpcProviderConfig): SyncDependencies {
+  const configKey = JSON.stringify(rpcConfig);
+  if (integrations?.configKey !== configKey) {
+    const evmRegistry = createEvmIntegration(rpcConfig);
+    integrations = {
+      configKey,
+      deps: {
+        evmRegistry,
+        solanaFacade: createSolIntegration(rpcConfig),
+        bitcoin: createBitcoinIntegration(rpcConfig),
+        tokenDiscovery: createTokenDiscoveryService(evmRegistry, rpcConfig.environment),
+        balanceReader: new MulticallBalanceReader(createRegistryClientProvider(evmRegistry)),
+        tokenCatalog: getTokenListService(),
+      },
+    };
+  }
+  return integrations.deps;
+}
+
+scope.addEventListener('message', ({ data: request }) => {
+  if (request.type === 'abort') {
+    running.get(request.syncId)?.abort();
+    running.delete(request.syncId);
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(request.syncId, controller);
+
+  runAccountSync(request, getDependencies(request.rpcConfig), event => scope.postMessage(event), controller.signal)
+    .catch((error: unknown) => {
+      scope.postMessage({
+        type: 'error',
+        syncId: request.syncId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    })
+    .finally(() => running.delete(request.syncId));
+});
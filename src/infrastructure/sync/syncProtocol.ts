@@ -0,0 +1,93 @@
+/**
+ * Account sync message protocol
+ *
+ * Messages between the main thread and the account sync worker. Requests start
+ * or abort a sync; events stream back progress, per-fetch partial results,
+ * errors and the final priced asset list. Every event carries the id of the
+ * sync it belongs to so events of a superseded sync can be dropped. The worker
+ * also reports the outcome of its RPC requests, which belongs to no sync.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { Account, Asset } from '../../store/useStore';
+import type { AppRpcProviderConfig } from '../../config/rpc-provider-config.types';
+import type { RequestOutcome } from '../rpc/requestTelemetry';
+
+/**
+ * What one balance fetch covers: a wallet account on one chain, or a whole
+ * exchange account when `chain` is absent
+ */
+export interface SyncScope {
+  accountId: string;
+  chain?: string;
+}
+
+export interface SyncStartRequest {
+  type: 'start';
+  syncId: number;
+  /** Connected wallet and exchange accounts, with exchange credentials when unlocked */
+  accounts: Account[];
+  environment: NetworkEnvironment;
+  /** Used by the worker to build its own EVM and Solana integrations */
+  rpcConfig: AppRpcProviderConfig;
+  /** Only these fetches run; every account and chain when absent */
+  targets?: SyncScope[];
+  /** Scan Transfer logs for tokens beyond the well-known and user-added ones */
+  discoverTokens?: boolean;
+}
+
+export interface SyncAbortRequest {
+  type: 'abort';
+  syncId: number;
+}
+
+export type SyncRequest = SyncStartRequest | SyncAbortRequest;
+
+export interface SyncProgress {
+  /** Balance fetches (one per account and chain) finished so far */
+  completed: number;
+  total: number;
+}
+
+export interface SyncProgressEvent extends SyncProgress {
+  type: 'progress';
+  syncId: number;
+}
+
+export interface SyncPartialEvent extends SyncScope {
+  type: 'partial';
+  syncId: number;
+  /** Unpriced assets of one completed fetch; rows of the scope missing here no longer exist */
+  assets: Asset[];
+}
+
+/** Carries the scope when a single fetch failed; without one the whole sync failed */
+export interface SyncErrorEvent extends Partial<SyncScope> {
+  type: 'error';
+  syncId: number;
+  message: string;
+}
+
+export interface SyncCompleteEvent {
+  type: 'complete';
+  syncId: number;
+  /** Deduplicated, priced assets of every account */
+  assets: Asset[];
+  /** USD prices fetched in this sync, by symbol */
+  prices: Record<string, number>;
+  /** Accounts whose balances were all fetched; their lastSync advances */
+  completedAccountIds: string[];
+  syncedAt: string;
+}
+
+export type SyncEvent = SyncProgressEvent | SyncPartialEvent | SyncErrorEvent | SyncCompleteEvent;
+
+/** Outcome of one RPC request the worker made, for the main thread's telemetry store */
+export interface RpcTelemetryMessage {
+  type: 'telemetry';
+  chainId: string;
+  url: string;
+  outcome: RequestOutcome;
+}
+
+export type SyncWorkerMessage = SyncEvent | RpcTelemetryMessage;
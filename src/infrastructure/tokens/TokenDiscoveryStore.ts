@@ -0,0 +1,120 @@
+/**
+ * TokenDiscoveryStore
+ *
+ * IndexedDB-backed repository for discovered tokens and scan positions, one
+ * record per (account, chain). Falls back to memory when IndexedDB is
+ * unavailable (tests, private browsing). The database is namespaced by network
+ * environment and opened from the account sync worker as well as the page.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { ITokenDiscoveryRepository, TokenDiscoveryRecord } from '../../domain/tokens/TokenDiscovery';
+
+const RECORDS = 'records';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class TokenDiscoveryStore implements ITokenDiscoveryRepository {
+  private memoryRecords: Map<string, TokenDiscoveryRecord> = new Map();
+  private dbName: string;
+  private db: IDBDatabase | null = null;
+  private ready: Promise<void>;
+
+  constructor(env: NetworkEnvironment) {
+    this.dbName = `CygnusWealthTokenDiscovery-${env}`;
+    this.ready = this.initializeDB().catch(() => {
+      // Already logged; continue with the memory store
+    });
+  }
+
+  private async initializeDB(): Promise<void> {
+    if (typeof indexedDB === 'undefined' || !indexedDB) {
+      console.warn('IndexedDB not available, discovered tokens will not persist');
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => {
+        console.error('Failed to open token discovery database:', request.error);
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(RECORDS)) {
+          db.createObjectStore(RECORDS, { keyPath: 'key' });
+        }
+      };
+    });
+  }
+
+  public async get(key: string): Promise<TokenDiscoveryRecord | null> {
+    await this.ready;
+
+    if (!this.db) {
+      return this.memoryRecords.get(key) ?? null;
+    }
+
+    const store = this.db.transaction([RECORDS], 'readonly').objectStore(RECORDS);
+    const record = await requestToPromise(store.get(key) as IDBRequest<TokenDiscoveryRecord | undefined>);
+    return record ?? null;
+  }
+
+  public async save(record: TokenDiscoveryRecord): Promise<void> {
+    await this.ready;
+
+    if (!this.db) {
+      this.memoryRecords.set(record.key, record);
+      return;
+    }
+
+    const transaction = this.db.transaction([RECORDS], 'readwrite');
+    transaction.objectStore(RECORDS).put(record);
+    return transactionDone(transaction);
+  }
+
+  /**
+   * Remove all records, so the next sync scans from the backfill start again
+   */
+  public async clear(): Promise<void> {
+    await this.ready;
+    this.memoryRecords.clear();
+
+    if (!this.db) return;
+
+    const transaction = this.db.transaction([RECORDS], 'readwrite');
+    transaction.objectStore(RECORDS).clear();
+    return transactionDone(transaction);
+  }
+}
+
+const _storeInstances = new Map<NetworkEnvironment, TokenDiscoveryStore>();
+
+export function getTokenDiscoveryStore(env: NetworkEnvironment): TokenDiscoveryStore {
+  let store = _storeInstances.get(env);
+  if (!store) {
+    store = new TokenDiscoveryStore(env);
+    _storeInstances.set(env, store);
+  }
+  return store;
+}
@@ -0,0 +1,172 @@
+/**
+ * TokenListService
+ *
+ * Imports token lists from URLs and files, keeps them in the token list store
+ * and serves the catalog built from them. The built-in default list is always
+ * part of the catalog, below every imported list. Lists marked for sync also
+ * supply the tokens whose balances the account sync reads.
+ */
+
+import { Result } from '../../domain/shared/Result';
+import { ExternalServiceError, NotFoundError, ValidationError, type DomainError } from '../../domain/shared/DomainError';
+import {
+  TokenCatalog,
+  planTokenListImport,
+  validateTokenList,
+  type ITokenListRepository,
+  type ImportedTokenList,
+  type TokenListImport,
+  type TokenListSource,
+  type TokenListToken,
+} from '../../domain/tokens/TokenList';
+import { DEFAULT_TOKEN_LIST } from './defaultTokenList';
+import { getTokenListStore } from './TokenListStore';
+
+/** Settings of a stored list the user can change */
+export type TokenListSettings = Partial<Pick<ImportedTokenList, 'enabled' | 'includeInSync'>>;
+
+export class TokenListService {
+  private readonly repository: ITokenListRepository;
+  private readonly fetchImpl: typeof fetch;
+  private readonly now: () => number;
+  private lists: Promise<ImportedTokenList[]> | null = null;
+  private catalog: TokenCatalog | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(repository: ITokenListRepository, fetchImpl?: typeof fetch, now: () => number = Date.now) {
+    this.repository = repository;
+    this.fetchImpl = fetchImpl ?? ((...args) => fetch(...args));
+    this.now = now;
+  }
+
+  /** Called whenever the stored lists change */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Stored lists, highest priority first */
+  getLists(): Promise<ImportedTokenList[]> {
+    this.lists ??= this.repository.getAll();
+    return this.lists;
+  }
+
+  async getCatalog(): Promise<TokenCatalog> {
+    if (!this.catalog) {
+      const lists = await this.getLists();
+      this.catalog = new TokenCatalog([
+        ...lists.filter(stored => stored.enabled).map(stored => stored.list),
+        DEFAULT_TOKEN_LIST,
+      ]);
+    }
+    return this.catalog;
+  }
+
+  async importFromUrl(url: string): Promise<Result<TokenListImport, DomainError>> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return Result.failure(new ValidationError('Enter a valid URL', 'tokenList', url));
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return Result.failure(new ValidationError('Token lists can only be fetched over HTTP(S)', 'tokenList', url));
+    }
+
+    let body: unknown;
+    try {
+      const response = await this.fetchImpl(parsed.toString());
+      if (!response.ok) {
+        return Result.failure(new ExternalServiceError(
+          parsed.host, 'fetch the token list', `Token list request failed with status ${response.status}`, undefined, response.status
+        ));
+      }
+      body = await response.json();
+    } catch (error) {
+      return Result.failure(new ExternalServiceError(
+        parsed.host, 'fetch the token list', 'Token list could not be fetched', error instanceof Error ? error : undefined
+      ));
+    }
+
+    return this.store(body, { kind: 'url', url: parsed.toString() });
+  }
+
+  async importFromText(text: string, fileName: string): Promise<Result<TokenListImport, DomainError>> {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return Result.failure(new ValidationError(`${fileName} is not valid JSON`, 'tokenList', fileName));
+    }
+    return this.store(body, { kind: 'file', fileName });
+  }
+
+  /** Fetch a URL list again, storing it when the published version is newer */
+  async refresh(id: string): Promise<Result<TokenListImport, DomainError>> {
+    const stored = (await this.getLists()).find(list => list.id === id);
+    if (!stored) return Result.failure(new NotFoundError('Token list', id));
+    if (stored.source.kind !== 'url') {
+      return Result.failure(new ValidationError('Lists imported from a file cannot be refreshed', 'tokenList', id));
+    }
+    return this.importFromUrl(stored.source.url);
+  }
+
+  async update(id: string, settings: TokenListSettings): Promise<void> {
+    const lists = await this.getLists();
+    await this.save(lists.map(list => list.id === id ? { ...list, ...settings } : list));
+  }
+
+  /** Move a list up (negative offset) or down the priority order */
+  async move(id: string, offset: number): Promise<void> {
+    const lists = [...await this.getLists()];
+    const from = lists.findIndex(list => list.id === id);
+    if (from === -1) return;
+    const to = Math.max(0, Math.min(lists.length - 1, from + offset));
+    const [moved] = lists.splice(from, 1);
+    lists.splice(to, 0, moved);
+    await this.save(lists);
+  }
+
+  async remove(id: string): Promise<void> {
+    const lists = await this.getLists();
+    await this.save(lists.filter(list => list.id !== id));
+  }
+
+  /**
+   * Tokens of a chain on the enabled lists marked for sync. Read from the
+   * store each time, since the sync may run in a worker with its own service.
+   */
+  async syncTokens(chainId: number): Promise<TokenListToken[]> {
+    const lists = await this.repository.getAll();
+    return lists
+      .filter(stored => stored.enabled && stored.includeInSync)
+      .flatMap(stored => stored.list.tokens.filter(token => token.chainId === chainId));
+  }
+
+  private async store(body: unknown, source: TokenListSource): Promise<Result<TokenListImport, DomainError>> {
+    const validated = validateTokenList(body);
+    if (validated.isFailure) return Result.failure(validated.error);
+
+    const planned = planTokenListImport(await this.getLists(), validated.value, source, this.now());
+    if (planned.isFailure) return Result.failure(planned.error);
+
+    if (planned.value.outcome !== 'unchanged') await this.save(planned.value.lists);
+    return Result.success(planned.value);
+  }
+
+  private async save(lists: ImportedTokenList[]): Promise<void> {
+    await this.repository.saveAll(lists);
+    this.lists = Promise.resolve(lists);
+    this.catalog = null;
+    for (const listener of this.listeners) listener();
+  }
+}
+
+let _serviceInstance: TokenListService | null = null;
+
+export function getTokenListService(): TokenListService {
+  if (!_serviceInstance) {
+    _serviceInstance = new TokenListService(getTokenListStore());
+  }
+  return _serviceInstance;
+}
@@ -0,0 +1,116 @@
+/**
+ * TokenListStore
+ *
+ * IndexedDB-backed repository for imported token lists, one record per list
+ * with its priority position. Falls back to memory when IndexedDB is
+ * unavailable (tests, private browsing). Lists carry their own chain IDs, so
+ * one database serves every network environment; it is read from the account
+ * sync worker as well as the page.
+ */
+
+import type { ITokenListRepository, ImportedTokenList } from '../../domain/tokens/TokenList';
+
+const DB_NAME = 'CygnusWealthTokenLists';
+const LISTS = 'lists';
+
+interface StoredTokenList {
+  id: string;
+  position: number;
+  entry: ImportedTokenList;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class TokenListStore implements ITokenListRepository {
+  private memoryLists: ImportedTokenList[] = [];
+  private db: IDBDatabase | null = null;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.initializeDB().catch(() => {
+      // Already logged; continue with the memory store
+    });
+  }
+
+  private async initializeDB(): Promise<void> {
+    if (typeof indexedDB === 'undefined' || !indexedDB) {
+      console.warn('IndexedDB not available, token lists will not persist');
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+
+      request.onerror = () => {
+        console.error('Failed to open token list database:', request.error);
+        reject(request.error);
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(LISTS)) {
+          db.createObjectStore(LISTS, { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  public async getAll(): Promise<ImportedTokenList[]> {
+    await this.ready;
+
+    if (!this.db) {
+      return [...this.memoryLists];
+    }
+
+    const store = this.db.transaction([LISTS], 'readonly').objectStore(LISTS);
+    const records = await requestToPromise(store.getAll() as IDBRequest<StoredTokenList[]>);
+    return records
+      .sort((a, b) => a.position - b.position)
+      .map(record => record.entry);
+  }
+
+  /**
+   * Replace the stored lists, keeping their order as priority
+   */
+  public async saveAll(lists: ImportedTokenList[]): Promise<void> {
+    await this.ready;
+
+    if (!this.db) {
+      this.memoryLists = [...lists];
+      return;
+    }
+
+    const transaction = this.db.transaction([LISTS], 'readwrite');
+    const store = transaction.objectStore(LISTS);
+    store.clear();
+    lists.forEach((entry, position) => store.put({ id: entry.id, position, entry } satisfies StoredTokenList));
+    return transactionDone(transaction);
+  }
+}
+
+let _storeInstance: TokenListStore | null = null;
+
+export function getTokenListStore(): TokenListStore {
+  if (!_storeInstance) {
+    _storeInstance = new TokenListStore();
+  }
+  return _storeInstance;
+}
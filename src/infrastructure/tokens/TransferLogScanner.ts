@@ -0,0 +1,132 @@
+/**
+ * TransferLogScanner
+ *
+ * Finds token contracts for token discovery by scanning ERC-20 Transfer logs
+ * to and from an address on the configured RPC endpoints, in bounded block
+ * ranges and within a time budget per run. Candidate metadata is read through
+ * Multicall3 in one call per chain.
+ */
+
+import { erc20Abi, parseAbiItem, type Address, type PublicClient } from 'viem';
+import type {
+  ITokenLogScanner,
+  TokenLogScan,
+  TokenMetadata,
+  TokenScanTarget,
+} from '../../domain/tokens/TokenDiscovery';
+import { multicall3Address, type EvmClientProvider } from '../defi/EvmClientProvider';
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+export interface TransferLogScannerOptions {
+  /** Blocks scanned on the first run for an account */
+  backfillBlocks?: number;
+  /** Upper bound of blocks scanned per run; the rest is picked up next time */
+  maxBlocksPerScan?: number;
+  /** Largest eth_getLogs range, halved when a provider rejects it and doubled back after each success */
+  logChunkSize?: number;
+  /** Time in ms after which a run stops starting new ranges; the rest is picked up next time */
+  timeBudgetMs?: number;
+}
+
+const DEFAULT_BACKFILL_BLOCKS = 200_000;
+const DEFAULT_MAX_BLOCKS_PER_SCAN = 100_000;
+const DEFAULT_LOG_CHUNK_SIZE = 10_000;
+const MIN_LOG_CHUNK_SIZE = 16;
+const DEFAULT_TIME_BUDGET_MS = 20_000;
+
+export class TransferLogScanner implements ITokenLogScanner {
+  private readonly getClient: EvmClientProvider;
+  private readonly backfillBlocks: bigint;
+  private readonly maxBlocksPerScan: bigint;
+  private readonly logChunkSize: bigint;
+  private readonly timeBudgetMs: number;
+
+  constructor(getClient: EvmClientProvider, options: TransferLogScannerOptions = {}) {
+    this.getClient = getClient;
+    this.backfillBlocks = BigInt(options.backfillBlocks ?? DEFAULT_BACKFILL_BLOCKS);
+    this.maxBlocksPerScan = BigInt(options.maxBlocksPerScan ?? DEFAULT_MAX_BLOCKS_PER_SCAN);
+    this.logChunkSize = BigInt(options.logChunkSize ?? DEFAULT_LOG_CHUNK_SIZE);
+    this.timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  }
+
+  async scan(target: TokenScanTarget, afterBlock: bigint | null, signal?: AbortSignal): Promise<TokenLogScan> {
+    const client = this.clientFor(target.chainId, target.chain);
+    const latest = await client.getBlockNumber();
+    const fromBlock = afterBlock !== null
+      ? afterBlock + 1n
+      : latest >= this.backfillBlocks ? latest - this.backfillBlocks + 1n : 0n;
+
+    if (fromBlock > latest) {
+      return { contracts: [], scannedToBlock: latest, hasMore: false };
+    }
+
+    const toBlock = fromBlock + this.maxBlocksPerScan - 1n < latest
+      ? fromBlock + this.maxBlocksPerScan - 1n
+      : latest;
+    const address = target.address as Address;
+    const contracts = new Set<string>();
+    const deadline = Date.now() + this.timeBudgetMs;
+    let chunk = this.logChunkSize;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      signal?.throwIfAborted();
+      if (start > fromBlock && Date.now() >= deadline) {
+        return { contracts: Array.from(contracts), scannedToBlock: start - 1n, hasMore: true };
+      }
+      const end = start + chunk - 1n < toBlock ? start + chunk - 1n : toBlock;
+
+      try {
+        const [sent, received] = await Promise.all([
+          client.getLogs({ event: TRANSFER_EVENT, args: { from: address }, fromBlock: start, toBlock: end }),
+          client.getLogs({ event: TRANSFER_EVENT, args: { to: address }, fromBlock: start, toBlock: end }),
+        ]);
+        for (const log of [...sent, ...received]) contracts.add(log.address);
+      } catch (error) {
+        // Providers cap the range or result size of eth_getLogs; retry smaller
+        if (chunk <= MIN_LOG_CHUNK_SIZE) throw error;
+        chunk /= 2n;
+        continue;
+      }
+      start = end + 1n;
+      // A narrow range may only have been needed for a busy stretch
+      if (chunk < this.logChunkSize) {
+        chunk = chunk * 2n < this.logChunkSize ? chunk * 2n : this.logChunkSize;
+      }
+    }
+
+    return { contracts: Array.from(contracts), scannedToBlock: toBlock, hasMore: toBlock < latest };
+  }
+
+  async readMetadata(chainId: number, contracts: string[], signal?: AbortSignal): Promise<Array<TokenMetadata | null>> {
+    const client = this.clientFor(chainId, `chain ${chainId}`);
+    const calls = contracts.flatMap(contract => (['symbol', 'name', 'decimals'] as const).map(functionName => ({
+      address: contract as Address,
+      abi: erc20Abi,
+      functionName,
+    })));
+
+    signal?.throwIfAborted();
+    const results = await client.multicall({ contracts: calls, allowFailure: true, multicallAddress: multicall3Address(chainId) });
+
+    return contracts.map((address, i) => {
+      const [symbol, name, decimals] = results.slice(i * 3, i * 3 + 3);
+      // NFTs emit the same Transfer event but have no decimals
+      if (symbol.status !== 'success' || decimals.status !== 'success') return null;
+      if (typeof symbol.result !== 'string' || !symbol.result.trim() || typeof decimals.result !== 'number') return null;
+      return {
+        address,
+        symbol: symbol.result,
+        name: name.status === 'success' && typeof name.result === 'string' && name.result ? name.result : symbol.result,
+        decimals: decimals.result,
+      };
+    });
+  }
+
+  private clientFor(chainId: number, label: string): PublicClient {
+    const client = this.getClient(chainId);
+    if (!client) throw new Error(`No RPC endpoint configured for ${label}`);
+    return client;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ITokenListRepository, ImportedTokenList, TokenList } from '../../../domain/tokens/TokenList';
+import { TokenListService } from '../TokenListService';
+
+const LIST_URL = 'https://tokens.example.com/list.json';
+const ENA = { chainId: 1, address: '0x57e114B691Db790C35207b2e685D4A43181e6061', symbol: 'ENA', name: 'Ethena', decimals: 18 };
+const ARB = { chainId: 42161, address: '0x912CE59144191C1204E64559FE8253a0e49E6548', symbol: 'ARB', name: 'Arbitrum', decimals: 18 };
+/** USDC at its mainnet address under another symbol; the default list has it too */
+const USDC_RENAMED = { chainId: 1, address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', symbol: 'USDC.x', name: 'USD Coin', decimals: 6 };
+
+function tokenList(minor: number): TokenList {
+  return {
+    name: 'Example',
+    timestamp: '2025-06-01T00:00:00.000Z',
+    version: { major: 1, minor, patch: 0 },
+    tokens: [ENA, ARB, USDC_RENAMED],
+  };
+}
+
+function createRepository(): ITokenListRepository & { lists: ImportedTokenList[] } {
+  const repository = {
+    lists: [] as ImportedTokenList[],
+    getAll: async () => [...repository.lists],
+    saveAll: async (lists: ImportedTokenList[]) => { repository.lists = [...lists]; },
+  };
+  return repository;
+}
+
+function createFetch(responses: Array<{ status: number; body?: unknown }>) {
+  return vi.fn(async () => {
+    const { status, body } = responses.shift()!;
+    return new Response(JSON.stringify(body), { status });
+  }) as unknown as typeof fetch;
+}
+
+describe('TokenListService', () => {
+  it('imports a list from a URL and merges it above the default list', async () => {
+    const repository = createRepository();
+    const service = new TokenListService(repository, createFetch([{ status: 200, body: tokenList(0) }]), () => 1000);
+    const listener = vi.fn();
+    service.subscribe(listener);
+
+    const result = await service.importFromUrl(LIST_URL);
+
+    expect(result.value.outcome).toBe('added');
+    expect(repository.lists).toHaveLength(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    const catalog = await service.getCatalog();
+    expect(catalog.search(1, 'ena').map(token => token.symbol)).toEqual(['ENA']);
+    expect(catalog.get(1, USDC_RENAMED.address)?.symbol).toBe('USDC.x');
+    expect(catalog.search(1, 'DAI').map(token => token.symbol)).toEqual(['DAI']);
+  });
+
+  it('refreshes a URL list only when the published version is newer', async () => {
+    const repository = createRepository();
+    const service = new TokenListService(repository, createFetch([
+      { status: 200, body: tokenList(1) },
+      { status: 200, body: tokenList(1) },
+      { status: 200, body: tokenList(2) },
+    ]));
+    await service.importFromUrl(LIST_URL);
+
+    expect((await service.refresh('example')).value.outcome).toBe('unchanged');
+    expect((await service.refresh('example')).value.outcome).toBe('updated');
+    expect(repository.lists[0].list.version.minor).toBe(2);
+  });
+
+  it('reports invalid files and failed requests without storing anything', async () => {
+    const repository = createRepository();
+    const service = new TokenListService(repository, createFetch([{ status: 404 }]));
+
+    const notJson = await service.importFromText('{', 'list.json');
+    expect(notJson.error.message).toContain('not valid JSON');
+
+    const invalid = await service.importFromText(JSON.stringify({ ...tokenList(0), tokens: [{ ...ENA, decimals: -1 }] }), 'list.json');
+    expect(invalid.error.message).toContain('tokens[0]');
+
+    const missing = await service.importFromUrl(LIST_URL);
+    expect(missing.error.message).toContain('404');
+    expect(repository.lists).toEqual([]);
+  });
+
+  it('supplies tokens of enabled lists marked for sync', async () => {
+    const service = new TokenListService(createRepository());
+    await service.importFromText(JSON.stringify(tokenList(0)), 'list.json');
+    expect(await service.syncTokens(1)).toEqual([]);
+
+    await service.update('example', { includeInSync: true });
+    expect(await service.syncTokens(1)).toEqual([ENA, USDC_RENAMED]);
+
+    await service.update('example', { enabled: false });
+    expect(await service.syncTokens(1)).toEqual([]);
+    expect((await service.getCatalog()).get(1, ENA.address)).toBeUndefined();
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  erc20Abi,
+  multicall3Abi,
+  pad,
+  parseAbiItem,
+  toHex,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { MULTICALL3_ADDRESS } from '../../defi/EvmClientProvider';
+import { TransferLogScanner } from '../TransferLogScanner';
+
+const ACCOUNT: Hex = '0x1111111111111111111111111111111111111111';
+const PEER: Hex = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const NFT = '0x4444444444444444444444444444444444444444';
+const TRANSFER = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+const LATEST = 100n;
+const RECEIVE_BLOCK = 80n;
+const SEND_BLOCK = 90n;
+
+/** Ask for the USDC and NFT transfers below; only USDC answers decimals() */
+const TOKEN_RESULTS: Record<string, Partial<Record<'symbol' | 'name' | 'decimals', string | number>>> = {
+  [TOKEN]: { symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+  [NFT]: { symbol: 'PUNK', name: 'Punks' },
+};
+
+interface ChainOptions {
+  /** Largest eth_getLogs range the node accepts */
+  maxLogRange?: number;
+  calls?: string[];
+  /** Sizes of the eth_getLogs ranges asked for */
+  logRanges?: number[];
+}
+
+/**
+ * An in-memory chain: the account receives USDC and an NFT at RECEIVE_BLOCK
+ * and sends USDC back at SEND_BLOCK
+ */
+function createChainClient({ maxLogRange = Infinity, calls = [], logRanges = [] }: ChainOptions = {}): PublicClient {
+  const log = (address: string, block: bigint, from: Hex, to: Hex, nft = false) => ({
+    address,
+    topics: nft
+      ? [...encodeEventTopics({ abi: [TRANSFER], eventName: 'Transfer', args: { from, to } }), pad('0x07', { size: 32 })]
+      : encodeEventTopics({ abi: [TRANSFER], eventName: 'Transfer', args: { from, to } }),
+    data: nft ? '0x' : encodeAbiParameters([{ type: 'uint256' }], [1_000_000n]),
+    blockNumber: toHex(block),
+    blockHash: pad(toHex(block), { size: 32 }),
+    transactionHash: pad(toHex(block), { size: 32 }),
+    transactionIndex: '0x0',
+    logIndex: '0x0',
+    removed: false,
+  });
+  const logs = [
+    log(TOKEN, RECEIVE_BLOCK, PEER, ACCOUNT),
+    log(NFT, RECEIVE_BLOCK, PEER, ACCOUNT, true),
+    log(TOKEN, SEND_BLOCK, ACCOUNT, PEER),
+  ];
+
+  return createPublicClient({
+    transport: custom({
+      async request({ method, params }: { method: string; params?: unknown }) {
+        const args = params as unknown[];
+        switch (method) {
+          case 'eth_blockNumber':
+            return toHex(LATEST);
+          case 'eth_getLogs': {
+            const { fromBlock, toBlock, topics } = args[0] as { fromBlock: string; toBlock: string; topics: (string | null)[] };
+            logRanges.push(Number(BigInt(toBlock) - BigInt(fromBlock)) + 1);
+            if (Number(BigInt(toBlock) - BigInt(fromBlock)) + 1 > maxLogRange) {
+              throw new Error('query returned more than 10000 results');
+            }
+            return logs.filter(entry => {
+              const block = BigInt(entry.blockNumber);
+              const matchesTopics = [1, 2].every(i => !topics[i] || topics[i]?.toLowerCase() === entry.topics[i]);
+              return BigInt(fromBlock) <= block && block <= BigInt(toBlock) && matchesTopics;
+            });
+          }
+          case 'eth_call': {
+            const { to, data } = args[0] as { to: string; data: Hex };
+            calls.push(to);
+            if (to.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) throw new Error(`Unexpected call to ${to}`);
+
+            const { args: [subcalls] } = decodeFunctionData({ abi: multicall3Abi, data }) as unknown as {
+              args: [Array<{ target: string; callData: Hex }>];
+            };
+            const results = subcalls.map(({ target, callData }) => {
+              const { functionName } = decodeFunctionData({ abi: erc20Abi, data: callData });
+              const value = TOKEN_RESULTS[target.toLowerCase()]?.[functionName as 'symbol' | 'name' | 'decimals'];
+              if (value === undefined) return { success: false, returnData: '0x' as Hex };
+              return {
+                success: true,
+                returnData: encodeFunctionResult({ abi: erc20Abi, functionName: functionName as 'symbol', result: value as string }),
+              };
+            });
+            return encodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', result: results });
+          }
+          default:
+            throw new Error(`Unexpected RPC method: ${method}`);
+        }
+      },
+    }, { retryCount: 0 }),
+  });
+}
+
+const target = { accountId: 'acc-1', address: ACCOUNT, chain: 'Ethereum', chainId: 1 };
+
+describe('TransferLogScanner', () => {
+  it('collects contracts that transferred to or from the address', async () => {
+    const scanner = new TransferLogScanner(() => createChainClient(), { backfillBlocks: 50 });
+
+    const scan = await scanner.scan(target, null);
+
+    expect(scan.contracts.map(address => address.toLowerCase()).sort()).toEqual([TOKEN, NFT]);
+    expect(scan.scannedToBlock).toBe(100n);
+    expect(scan.hasMore).toBe(false);
+  });
+
+  it('continues after the last scanned block and caps the range per scan', async () => {
+    const scanner = new TransferLogScanner(() => createChainClient(), { maxBlocksPerScan: 5 });
+
+    const scan = await scanner.scan(target, 85n);
+    expect(scan).toEqual({ contracts: [TOKEN], scannedToBlock: 90n, hasMore: true });
+
+    const caughtUp = await scanner.scan(target, 100n);
+    expect(caughtUp).toEqual({ contracts: [], scannedToBlock: 100n, hasMore: false });
+  });
+
+  it('narrows the log range when the node rejects it', async () => {
+    const scanner = new TransferLogScanner(() => createChainClient({ maxLogRange: 20 }), { backfillBlocks: 50, logChunkSize: 50 });
+
+    const scan = await scanner.scan(target, null);
+    expect(scan.contracts).toHaveLength(2);
+  });
+
+  it('widens the log range again after a narrowed one succeeds', async () => {
+    const logRanges: number[] = [];
+    const scanner = new TransferLogScanner(
+      () => createChainClient({ maxLogRange: 20, logRanges }),
+      { backfillBlocks: 60, logChunkSize: 40 }
+    );
+
+    await scanner.scan(target, null);
+
+    // Each range is asked for by the from and the to query
+    expect(logRanges.filter((_, i) => i % 2 === 0)).toEqual([40, 20, 40, 20, 20]);
+  });
+
+  it('stops at the time budget and leaves the rest for the next run', async () => {
+    const scanner = new TransferLogScanner(() => createChainClient(), { backfillBlocks: 50, logChunkSize: 10, timeBudgetMs: 0 });
+
+    const scan = await scanner.scan(target, null);
+
+    expect(scan).toEqual({ contracts: [], scannedToBlock: 60n, hasMore: true });
+  });
+
+  it('reads metadata in one multicall and turns down contracts without decimals', async () => {
+    const calls: string[] = [];
+    const scanner = new TransferLogScanner(() => createChainClient({ calls }));
+
+    const metadata = await scanner.readMetadata(1, [TOKEN, NFT]);
+
+    expect(metadata).toEqual([{ address: TOKEN, symbol: 'USDC', name: 'USD Coin', decimals: 6 }, null]);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('rejects chains without a configured client', async () => {
+    const scanner = new TransferLogScanner(() => null);
+    await expect(scanner.scan(target, null)).rejects.toThrow('No RPC endpoint');
+  });
+});
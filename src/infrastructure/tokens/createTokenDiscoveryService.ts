@@ -0,0 +1,26 @@
+/**
+ * Wires token discovery to the app's RPC configuration.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import type { ChainRegistry } from '@cygnus-wealth/evm-integration';
+import { TokenDiscoveryService } from '../../domain/tokens/TokenDiscovery';
+import { isSpamTokenName } from '../../utils/spamFilter';
+import { createRegistryClientProvider } from '../defi/EvmClientProvider';
+import { getTokenDiscoveryStore } from './TokenDiscoveryStore';
+import { TransferLogScanner } from './TransferLogScanner';
+
+/**
+ * Build a discovery service over the persistent store for one environment.
+ * Candidates whose name or symbol matches the spam patterns are rejected.
+ */
+export function createTokenDiscoveryService(
+  registry: InstanceType<typeof ChainRegistry>,
+  environment: NetworkEnvironment
+): TokenDiscoveryService {
+  return new TokenDiscoveryService(
+    getTokenDiscoveryStore(environment),
+    new TransferLogScanner(createRegistryClientProvider(registry)),
+    token => isSpamTokenName(token.name) || isSpamTokenName(token.symbol)
+  );
+}
@@ -0,0 +1,341 @@
+/**
+ * SecretVault
+ *
+ * Passphrase-protected store for secrets such as exchange API keys. The
+ * passphrase is stretched with PBKDF2 into an AES-GCM key that only lives in
+ * memory while the vault is unlocked; on disk the vault holds the KDF
+ * parameters, an encrypted verifier used to check the passphrase, and one
+ * ciphertext per secret. The vault file is namespaced by network environment
+ * like the main store.
+ */
+
+import type { NetworkEnvironment } from '@cygnus-wealth/data-models';
+import { Result } from '../../domain/shared/Result';
+import { ServiceError, ValidationError, type DomainError } from '../../domain/shared/DomainError';
+import { detectEnvironment } from '../../config/environment';
+import {
+  DEFAULT_PBKDF2_ITERATIONS,
+  decryptString,
+  deriveKey,
+  encryptString,
+  generateSalt,
+  type EncryptedPayload,
+} from './VaultCrypto';
+
+export type VaultStatus = 'uninitialized' | 'locked' | 'unlocked';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const VAULT_VERSION = 1;
+const VERIFIER_CONTEXT = 'cygnus-wealth:vault-verifier';
+const VERIFIER_PLAINTEXT = 'cygnus-wealth-vault';
+
+interface VaultFile {
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; salt: string; iterations: number };
+  verifier: EncryptedPayload;
+  secrets: Record<string, EncryptedPayload>;
+  /** Minutes of inactivity before the vault locks itself; 0 disables auto-lock */
+  autoLockMinutes: number;
+}
+
+export type VaultStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface SecretVaultOptions {
+  storageKey?: string;
+  storage?: VaultStorage;
+  iterations?: number;
+}
+
+export class SecretVault {
+  private storageKey: string;
+  private storage: VaultStorage;
+  private iterations: number;
+  private file: VaultFile | null;
+  private key: CryptoKey | null = null;
+  private plaintext: Map<string, string> = new Map();
+  private listeners: Set<(status: VaultStatus) => void> = new Set();
+  // Mutations run one at a time so a re-key never races a secret write
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: SecretVaultOptions = {}) {
+    this.storageKey = options.storageKey ?? vaultStorageKey(detectEnvironment());
+    this.storage = options.storage ?? localStorage;
+    this.iterations = options.iterations ?? DEFAULT_PBKDF2_ITERATIONS;
+    this.file = this.readFile();
+  }
+
+  getStatus = (): VaultStatus => {
+    if (!this.file) return 'uninitialized';
+    return this.key ? 'unlocked' : 'locked';
+  };
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Subscribe to status changes; returns an unsubscribe function
+   */
+  subscribe = (listener: (status: VaultStatus) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getAutoLockMinutes(): number {
+    return this.file?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  }
+
+  setAutoLockMinutes(minutes: number): void {
+    if (!this.file) return;
+    this.file = { ...this.file, autoLockMinutes: Math.max(0, minutes) };
+    this.writeFile();
+    this.notify();
+  }
+
+  /**
+   * Create the vault with a passphrase and leave it unlocked
+   */
+  initialize(passphrase: string): Promise<Result<void, DomainError>> {
+    return this.enqueue(async () => {
+      if (this.file) {
+        return Result.failure(new ServiceError('VAULT_EXISTS', 'Vault is already initialized'));
+      }
+      const invalid = validatePassphrase(passphrase);
+      if (invalid) return Result.failure(invalid);
+
+      const salt = generateSalt();
+      const key = await deriveKey(passphrase, salt, this.iterations);
+      this.file = {
+        version: VAULT_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: this.iterations },
+        verifier: await encryptString(key, VERIFIER_PLAINTEXT, VERIFIER_CONTEXT),
+        secrets: {},
+        autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+      };
+      this.writeFile();
+      this.key = key;
+      this.plaintext.clear();
+      this.notify();
+      return Result.success(undefined);
+    });
+  }
+
+  /**
+   * Derive the key from the passphrase and decrypt every secret into memory
+   */
+  unlock(passphrase: string): Promise<Result<void, DomainError>> {
+    return this.enqueue(async () => {
+      if (!this.file) {
+        return Result.failure(new ServiceError('VAULT_NOT_INITIALIZED', 'Vault has not been set up'));
+      }
+      if (this.key) return Result.success(undefined);
+
+      const key = await this.verifyPassphrase(this.file, passphrase);
+      if (!key) return Result.failure(incorrectPassphrase());
+
+      const plaintext = new Map<string, string>();
+      for (const [id, payload] of Object.entries(this.file.secrets)) {
+        try {
+          plaintext.set(id, await decryptString(key, payload, id));
+        } catch (error) {
+          console.warn(`[SecretVault] Could not decrypt secret "${id}":`, error);
+        }
+      }
+
+      this.key = key;
+      this.plaintext = plaintext;
+      this.notify();
+      return Result.success(undefined);
+    });
+  }
+
+  /**
+   * Forget the key and all decrypted secrets
+   */
+  lock(): void {
+    if (!this.key) return;
+    this.key = null;
+    this.plaintext.clear();
+    this.notify();
+  }
+
+  /**
+   * Re-encrypt every secret under a key derived from a new passphrase
+   * with a fresh salt. The vault stays unlocked afterwards.
+   */
+  changePassphrase(current: string, next: string): Promise<Result<void, DomainError>> {
+    return this.enqueue(async () => {
+      if (!this.file) {
+        return Result.failure(new ServiceError('VAULT_NOT_INITIALIZED', 'Vault has not been set up'));
+      }
+      const invalid = validatePassphrase(next);
+      if (invalid) return Result.failure(invalid);
+
+      const oldKey = await this.verifyPassphrase(this.file, current);
+      if (!oldKey) return Result.failure(incorrectPassphrase());
+
+      const salt = generateSalt();
+      const newKey = await deriveKey(next, salt, this.iterations);
+      const plaintext = new Map<string, string>();
+      const secrets: Record<string, EncryptedPayload> = {};
+
+      for (const [id, payload] of Object.entries(this.file.secrets)) {
+        try {
+          const value = await decryptString(oldKey, payload, id);
+          plaintext.set(id, value);
+          secrets[id] = await encryptString(newKey, value, id);
+        } catch (error) {
+          return Result.failure(new ServiceError(
+            'VAULT_REENCRYPT_FAILED',
+            `Could not re-encrypt secret "${id}"; the passphrase was not changed`,
+            { originalError: error }
+          ));
+        }
+      }
+
+      // Swap everything in a single write so a failure never leaves mixed keys on disk
+      this.file = {
+        ...this.file,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: this.iterations },
+        verifier: await encryptString(newKey, VERIFIER_PLAINTEXT, VERIFIER_CONTEXT),
+        secrets,
+      };
+      this.writeFile();
+      this.key = newKey;
+      this.plaintext = plaintext;
+      this.notify();
+      return Result.success(undefined);
+    });
+  }
+
+  /**
+   * Delete the vault and every secret in it (forgotten passphrase)
+   */
+  reset(): void {
+    this.storage.removeItem(this.storageKey);
+    this.file = null;
+    this.key = null;
+    this.plaintext.clear();
+    this.notify();
+  }
+
+  /**
+   * Read a decrypted secret; undefined while locked or when absent
+   */
+  getSecret(id: string): string | undefined {
+    return this.key ? this.plaintext.get(id) : undefined;
+  }
+
+  hasSecret(id: string): boolean {
+    return !!this.file && id in this.file.secrets;
+  }
+
+  listSecretIds(prefix = ''): string[] {
+    return this.file ? Object.keys(this.file.secrets).filter(id => id.startsWith(prefix)) : [];
+  }
+
+  /**
+   * Encrypt and store a secret. Requires the vault to be unlocked.
+   */
+  setSecret(id: string, value: string): Promise<Result<void, DomainError>> {
+    return this.enqueue(async () => {
+      if (!this.file || !this.key) {
+        return Result.failure(new ServiceError('VAULT_LOCKED', 'Unlock the vault to store secrets'));
+      }
+      if (this.plaintext.get(id) === value) return Result.success(undefined);
+
+      const payload = await encryptString(this.key, value, id);
+      this.file = { ...this.file, secrets: { ...this.file.secrets, [id]: payload } };
+      this.writeFile();
+      this.plaintext.set(id, value);
+      return Result.success(undefined);
+    });
+  }
+
+  /**
+   * Remove a secret. Works while locked since no decryption is needed.
+   */
+  deleteSecret(id: string): void {
+    if (!this.file || !(id in this.file.secrets)) return;
+    const secrets = { ...this.file.secrets };
+    delete secrets[id];
+    this.file = { ...this.file, secrets };
+    this.writeFile();
+    this.plaintext.delete(id);
+  }
+
+  private async verifyPassphrase(file: VaultFile, passphrase: string): Promise<CryptoKey | null> {
+    const key = await deriveKey(passphrase, file.kdf.salt, file.kdf.iterations);
+    try {
+      const check = await decryptString(key, file.verifier, VERIFIER_CONTEXT);
+      return check === VERIFIER_PLAINTEXT ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private readFile(): VaultFile | null {
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (!raw) return null;
+      const parsed = JSON.parse(raw) as VaultFile;
+      if (parsed.version !== VAULT_VERSION || !parsed.verifier || !parsed.kdf) {
+        console.warn('[SecretVault] Ignoring vault with unsupported format');
+        return null;
+      }
+      return { ...parsed, secrets: parsed.secrets ?? {} };
+    } catch (error) {
+      console.warn('[SecretVault] Failed to read vault:', error);
+      return null;
+    }
+  }
+
+  private writeFile(): void {
+    if (this.file) {
+      this.storage.setItem(this.storageKey, JSON.stringify(this.file));
+    }
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export function vaultStorageKey(env: NetworkEnvironment): string {
+  return `cygnus-wealth-vault-${env}`;
+}
+
+export function validatePassphrase(passphrase: string): ValidationError | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return new ValidationError(
+      `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      'passphrase'
+    );
+  }
+  return null;
+}
+
+function incorrectPassphrase(): ValidationError {
+  return new ValidationError('Incorrect passphrase', 'passphrase');
+}
+
+// Lazily-created shared vault so localStorage is only read when secrets are used
+let _vaultInstance: SecretVault | null = null;
+
+export function getSecretVault(): SecretVault {
+  if (!_vaultInstance) {
+    _vaultInstance = new SecretVault();
+  }
+  return _vaultInstance;
+}
@@ -0,0 +1,88 @@
+/**
+ * VaultCrypto
+ *
+ * WebCrypto primitives for the secret vault: PBKDF2-SHA256 key derivation
+ * and AES-GCM authenticated encryption. Derived keys are non-extractable, so
+ * key material never leaves the browser's crypto implementation.
+ */
+
+/** OWASP 2023 recommendation for PBKDF2-HMAC-SHA256 */
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  /** Base64 AES-GCM nonce, unique per encryption */
+  iv: string;
+  /** Base64 ciphertext including the GCM authentication tag */
+  ciphertext: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/**
+ * Derive a non-extractable AES-256-GCM key from a passphrase
+ */
+export async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a string. `context` is bound as additional authenticated data so a
+ * ciphertext cannot be moved to another slot without failing to decrypt.
+ */
+export async function encryptString(key: CryptoKey, plaintext: string, context: string): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(plaintext)
+  );
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypt a payload produced by encryptString. Rejects when the key or
+ * context is wrong or the ciphertext was tampered with.
+ */
+export async function decryptString(key: CryptoKey, payload: EncryptedPayload, context: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: encoder.encode(context) },
+    key,
+    fromBase64(payload.ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
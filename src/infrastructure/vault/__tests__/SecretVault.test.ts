@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SecretVault, type VaultStorage } from '../SecretVault';
+
+const STORAGE_KEY = 'test-vault';
+
+function createMemoryStorage(): VaultStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => { data.set(key, value); },
+    removeItem: (key) => { data.delete(key); },
+  };
+}
+
+describe('SecretVault', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+  let vault: SecretVault;
+
+  const reopen = () => new SecretVault({ storageKey: STORAGE_KEY, storage, iterations: 1000 });
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    vault = reopen();
+  });
+
+  it('starts uninitialized and unlocks after initialize', async () => {
+    expect(vault.getStatus()).toBe('uninitialized');
+
+    const result = await vault.initialize('correct horse');
+
+    expect(result.isSuccess).toBe(true);
+    expect(vault.getStatus()).toBe('unlocked');
+  });
+
+  it('rejects short passphrases', async () => {
+    const result = await vault.initialize('short');
+
+    expect(result.isFailure).toBe(true);
+    expect(vault.getStatus()).toBe('uninitialized');
+  });
+
+  it('never writes secrets in plaintext', async () => {
+    await vault.initialize('correct horse');
+    await vault.setSecret('account:1:apiKey', 'super-secret-key');
+
+    const raw = storage.data.get(STORAGE_KEY)!;
+    expect(raw).not.toContain('super-secret-key');
+    expect(raw).not.toContain('correct horse');
+  });
+
+  it('decrypts secrets after re-opening and unlocking', async () => {
+    await vault.initialize('correct horse');
+    await vault.setSecret('account:1:apiKey', 'super-secret-key');
+
+    const reopened = reopen();
+    expect(reopened.getStatus()).toBe('locked');
+    expect(reopened.getSecret('account:1:apiKey')).toBeUndefined();
+
+    const result = await reopened.unlock('correct horse');
+    expect(result.isSuccess).toBe(true);
+    expect(reopened.getSecret('account:1:apiKey')).toBe('super-secret-key');
+  });
+
+  it('fails to unlock with the wrong passphrase', async () => {
+    await vault.initialize('correct horse');
+    const reopened = reopen();
+
+    const result = await reopened.unlock('wrong horse');
+
+    expect(result.isFailure).toBe(true);
+    expect(result.error.message).toBe('Incorrect passphrase');
+    expect(reopened.getStatus()).toBe('locked');
+  });
+
+  it('forgets decrypted secrets on lock and refuses writes while locked', async () => {
+    await vault.initialize('correct horse');
+    await vault.setSecret('a', 'one');
+
+    vault.lock();
+
+    expect(vault.getSecret('a')).toBeUndefined();
+    const result = await vault.setSecret('b', 'two');
+    expect(result.isFailure).toBe(true);
+    expect(result.error.code).toBe('VAULT_LOCKED');
+  });
+
+  it('re-encrypts every secret when the passphrase changes', async () => {
+    await vault.initialize('correct horse');
+    await vault.setSecret('a', 'one');
+    await vault.setSecret('b', 'two');
+    const before = JSON.parse(storage.data.get(STORAGE_KEY)!);
+
+    const result = await vault.changePassphrase('correct horse', 'battery staple');
+    expect(result.isSuccess).toBe(true);
+
+    const after = JSON.parse(storage.data.get(STORAGE_KEY)!);
+    expect(after.kdf.salt).not.toBe(before.kdf.salt);
+    expect(after.secrets.a.ciphertext).not.toBe(before.secrets.a.ciphertext);
+
+    expect((await reopen().unlock('correct horse')).isFailure).toBe(true);
+    const reopened = reopen();
+    await reopened.unlock('battery staple');
+    expect(reopened.getSecret('a')).toBe('one');
+    expect(reopened.getSecret('b')).toBe('two');
+  });
+
+  it('keeps the old passphrase when the current one is wrong', async () => {
+    await vault.initialize('correct horse');
+
+    const result = await vault.changePassphrase('wrong horse', 'battery staple');
+
+    expect(result.isFailure).toBe(true);
+    expect((await reopen().unlock('correct horse')).isSuccess).toBe(true);
+  });
+
+  it('detects a ciphertext moved to another secret id', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await vault.initialize('correct horse');
+    await vault.setSecret('a', 'one');
+    const file = JSON.parse(storage.data.get(STORAGE_KEY)!);
+    file.secrets.b = file.secrets.a;
+    storage.setItem(STORAGE_KEY, JSON.stringify(file));
+
+    const reopened = reopen();
+    await reopened.unlock('correct horse');
+
+    expect(reopened.getSecret('a')).toBe('one');
+    expect(reopened.getSecret('b')).toBeUndefined();
+    warn.mockRestore();
+  });
+
+  it('notifies subscribers and removes everything on reset', async () => {
+    const statuses: string[] = [];
+    vault.subscribe(status => statuses.push(status));
+
+    await vault.initialize('correct horse');
+    vault.lock();
+    vault.reset();
+
+    expect(statuses).toEqual(['unlocked', 'locked', 'uninitialized']);
+    expect(storage.data.has(STORAGE_KEY)).toBe(false);
+  });
+});
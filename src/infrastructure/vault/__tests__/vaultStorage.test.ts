@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SecretVault } from '../SecretVault';
+import { accountSecretId, bindVaultToStore, createVaultStorage } from '../vaultStorage';
+import type { Account } from '../../../store/useStore';
+
+function createMemoryStorage() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value); },
+    removeItem: (key: string) => { data.delete(key); },
+  };
+}
+
+const exchangeAccount: Account = {
+  id: 'cex-1',
+  type: 'cex',
+  platform: 'Kraken',
+  label: 'Kraken',
+  apiKey: 'kraken-api-key',
+  status: 'connected',
+};
+
+describe('createVaultStorage', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+  let vault: SecretVault;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    vault = new SecretVault({ storageKey: 'vault', storage, iterations: 1000 });
+  });
+
+  it('stores secrets in the vault and strips them from the persisted state', async () => {
+    await vault.initialize('correct horse');
+    const persist = createVaultStorage<{ accounts: Account[] }>(vault, () => storage);
+
+    await persist.setItem('store', { state: { accounts: [exchangeAccount] }, version: 0 });
+
+    const raw = storage.data.get('store')!;
+    expect(raw).not.toContain('kraken-api-key');
+    expect(storage.data.get('vault')).not.toContain('kraken-api-key');
+    expect(JSON.parse(raw).state.accounts[0].label).toBe('Kraken');
+    expect(vault.getSecret(accountSecretId('cex-1', 'apiKey'))).toBe('kraken-api-key');
+  });
+
+  it('drops secrets instead of writing plaintext while the vault is locked', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const persist = createVaultStorage<{ accounts: Account[] }>(vault, () => storage);
+
+    await persist.setItem('store', { state: { accounts: [exchangeAccount] }, version: 0 });
+
+    expect(storage.data.get('store')).not.toContain('kraken-api-key');
+    expect(storage.data.has('vault')).toBe(false);
+    warn.mockRestore();
+  });
+
+  it('keeps secrets persisted in plaintext before the vault until it can take them', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    storage.setItem('store', JSON.stringify({ state: { accounts: [exchangeAccount] }, version: 0 }));
+    const persist = createVaultStorage<{ accounts: Account[] }>(vault, () => storage);
+
+    // Rehydrated and written back while locked, then wiped from memory by a lock
+    await persist.setItem('store', { state: { accounts: [exchangeAccount] }, version: 0 });
+    await persist.setItem('store', { state: { accounts: [{ ...exchangeAccount, apiKey: undefined }] }, version: 0 });
+    expect(JSON.parse(storage.data.get('store')!).state.accounts[0].apiKey).toBe('kraken-api-key');
+
+    await vault.initialize('correct horse');
+    await persist.setItem('store', { state: { accounts: [{ ...exchangeAccount, apiKey: undefined }] }, version: 0 });
+
+    expect(storage.data.get('store')).not.toContain('kraken-api-key');
+    expect(vault.getSecret(accountSecretId('cex-1', 'apiKey'))).toBe('kraken-api-key');
+    warn.mockRestore();
+  });
+
+  it('deletes vault secrets of removed accounts', async () => {
+    await vault.initialize('correct horse');
+    const persist = createVaultStorage<{ accounts: Account[] }>(vault, () => storage);
+    await persist.setItem('store', { state: { accounts: [exchangeAccount] }, version: 0 });
+
+    await persist.setItem('store', { state: { accounts: [] }, version: 0 });
+
+    expect(vault.listSecretIds()).toEqual([]);
+  });
+});
+
+describe('bindVaultToStore', () => {
+  it('reveals secrets on unlock and wipes them on lock', async () => {
+    const storage = createMemoryStorage();
+    const setup = new SecretVault({ storageKey: 'vault', storage, iterations: 1000 });
+    await setup.initialize('correct horse');
+    await setup.setSecret(accountSecretId('cex-1', 'apiKey'), 'kraken-api-key');
+
+    const vault = new SecretVault({ storageKey: 'vault', storage, iterations: 1000 });
+    let state: { accounts: Account[] } = { accounts: [{ ...exchangeAccount, apiKey: undefined }] };
+    bindVaultToStore(vault, {
+      getState: () => state,
+      setState: (partial) => { state = { ...state, ...partial }; },
+    });
+
+    await vault.unlock('correct horse');
+    expect(state.accounts[0].apiKey).toBe('kraken-api-key');
+
+    vault.lock();
+    expect(state.accounts[0].apiKey).toBeUndefined();
+    expect('apiKey' in state.accounts[0]).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Vault-backed persistence for the app store
+ *
+ * A zustand PersistStorage that moves account secrets into the SecretVault
+ * before anything is written, so the persisted store JSON never contains
+ * them. While the vault is locked, or has not been set up, secrets cannot be
+ * encrypted and are dropped from the write rather than stored in plaintext;
+ * only those persisted in plaintext before the vault existed are kept, until a
+ * write with the vault unlocked moves them into it.
+ */
+
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import type { Account } from '../../store/useStore';
+import type { SecretVault } from './SecretVault';
+
+/** Account fields that hold credentials and must only be persisted encrypted */
+export const SECRET_ACCOUNT_FIELDS = ['apiKey', 'apiSecret'] as const;
+
+export type SecretAccountField = typeof SECRET_ACCOUNT_FIELDS[number];
+
+const ACCOUNT_SECRET_PREFIX = 'account:';
+
+export function accountSecretId(accountId: string, field: SecretAccountField): string {
+  return `${ACCOUNT_SECRET_PREFIX}${accountId}:${field}`;
+}
+
+export function stripAccountSecrets(account: Account): Account {
+  const stripped = { ...account };
+  for (const field of SECRET_ACCOUNT_FIELDS) delete stripped[field];
+  return stripped;
+}
+
+/**
+ * Fill in account secrets from an unlocked vault
+ */
+export function revealAccountSecrets(account: Account, vault: SecretVault): Account {
+  const revealed = { ...account };
+  for (const field of SECRET_ACCOUNT_FIELDS) {
+    const value = vault.getSecret(accountSecretId(account.id, field));
+    if (value !== undefined) revealed[field] = value;
+  }
+  return revealed;
+}
+
+/**
+ * Secrets an earlier version persisted in plaintext, by account ID
+ */
+function persistedPlaintextSecrets(raw: string | null): Map<string, Partial<Record<SecretAccountField, string>>> {
+  const secrets = new Map<string, Partial<Record<SecretAccountField, string>>>();
+  const accounts = raw ? (JSON.parse(raw) as StorageValue<{ accounts?: Account[] }>).state.accounts ?? [] : [];
+  for (const account of accounts) {
+    const fields: Partial<Record<SecretAccountField, string>> = {};
+    for (const field of SECRET_ACCOUNT_FIELDS) {
+      if (account[field]) fields[field] = account[field];
+    }
+    if (Object.keys(fields).length > 0) secrets.set(account.id, fields);
+  }
+  return secrets;
+}
+
+/**
+ * Move plaintext secrets into the vault and drop vault entries of accounts
+ * that no longer exist
+ */
+async function storeAccountSecrets(accounts: Account[], vault: SecretVault): Promise<void> {
+  const accountIds = new Set(accounts.map(acc => acc.id));
+  for (const id of vault.listSecretIds(ACCOUNT_SECRET_PREFIX)) {
+    const accountId = id.slice(ACCOUNT_SECRET_PREFIX.length, id.lastIndexOf(':'));
+    if (!accountIds.has(accountId)) vault.deleteSecret(id);
+  }
+
+  for (const account of accounts) {
+    for (const field of SECRET_ACCOUNT_FIELDS) {
+      const value = account[field];
+      if (!value) continue;
+
+      if (!vault.isUnlocked()) {
+        console.warn(`[vaultStorage] Vault is locked; not encrypting ${field} of account ${account.id}`);
+        continue;
+      }
+      const result = await vault.setSecret(accountSecretId(account.id, field), value);
+      result.ifFailure(error => console.warn(`[vaultStorage] Failed to store ${field}:`, error));
+    }
+  }
+}
+
+/**
+ * Create a JSON PersistStorage over localStorage that routes account secrets
+ * through the vault. Reads stay synchronous so the store hydrates on creation.
+ */
+export function createVaultStorage<S extends { accounts?: Account[] }>(
+  vault: SecretVault,
+  getStorage: () => Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> = () => localStorage
+): PersistStorage<S> {
+  // Writes are chained so a slow encryption never lets an older state overwrite a newer one
+  let writes: Promise<void> = Promise.resolve();
+
+  return {
+    getItem: (name) => {
+      const raw = getStorage().getItem(name);
+      return raw ? (JSON.parse(raw) as StorageValue<S>) : null;
+    },
+    setItem: (name, value) => {
+      writes = writes.then(async () => {
+        const legacy = persistedPlaintextSecrets(getStorage().getItem(name));
+        // Fill in legacy secrets the in-memory accounts no longer hold, e.g. after a lock
+        const accounts = (value.state.accounts ?? []).map(account => {
+          const filled = { ...account };
+          for (const [field, secret] of Object.entries(legacy.get(account.id) ?? {})) {
+            filled[field as SecretAccountField] ??= secret;
+          }
+          return filled;
+        });
+        await storeAccountSecrets(accounts, vault);
+        const state = {
+          ...value.state,
+          accounts: accounts.map(account => (
+            vault.isUnlocked() ? stripAccountSecrets(account) : { ...stripAccountSecrets(account), ...legacy.get(account.id) }
+          )),
+        };
+        getStorage().setItem(name, JSON.stringify({ ...value, state }));
+      }).catch(error => {
+        console.error('[vaultStorage] Failed to persist state:', error);
+      });
+      return writes;
+    },
+    removeItem: (name) => getStorage().removeItem(name),
+  };
+}
+
+/**
+ * Keep in-memory account secrets in step with the vault: revealed on unlock,
+ * wiped on lock or reset
+ */
+export function bindVaultToStore(
+  vault: SecretVault,
+  store: {
+    getState: () => { accounts: Account[] };
+    setState: (partial: { accounts: Account[] }) => void;
+  }
+): () => void {
+  let lastStatus = vault.getStatus();
+  return vault.subscribe(status => {
+    if (status === lastStatus) return;
+    lastStatus = status;
+    const { accounts } = store.getState();
+    store.setState({
+      accounts: status === 'unlocked'
+        ? accounts.map(acc => revealAccountSecrets(acc, vault))
+        : accounts.map(stripAccountSecrets),
+    });
+  });
+}
@@ -1,28 +1,89 @@
-import React, { createContext, useContext, useMemo } from 'react';
+import React, { createContext, useContext, useMemo, useState, useSyncExternalStore } from 'react';
 import { buildRpcProviderConfig } from '../config/buildRpcProviderConfig';
-import { createEvmIntegration, createSolIntegration } from '../config/integrationServices';
+import { createBitcoinIntegration, createEvmIntegration, createSolIntegration } from '../config/integrationServices';
 import { detectEnvironment } from '../config/environment';
 import type { AppRpcProviderConfig } from '../config/rpc-provider-config.types';
+import { rpcConfigService } from '../infrastructure/rpc/RpcConfigurationService';
+import { getRpcTelemetryStore } from '../infrastructure/rpc/RpcTelemetryStore';
+import { createTelemetryRanker } from '../infrastructure/rpc/endpointRanking';
+import { useVault } from '../hooks/useVault';
+import { getSecretVault } from '../infrastructure/vault/SecretVault';
 import type { ChainRegistry } from '@cygnus-wealth/evm-integration';
 import type { SolanaIntegrationFacade } from '@cygnus-wealth/sol-integration';
+import type { BitcoinWatchService } from '../infrastructure/bitcoin/BitcoinWatchService';
 
 export interface IntegrationContextValue {
   rpcConfig: AppRpcProviderConfig;
   evmRegistry: InstanceType<typeof ChainRegistry>;
   solanaFacade: InstanceType<typeof SolanaIntegrationFacade>;
+  bitcoinWatch: BitcoinWatchService;
 }
 
 const IntegrationContext = createContext<IntegrationContextValue | null>(null);
 
+/** How often new telemetry may re-rank endpoints; real traffic records a sample per request */
+const RANKING_REFRESH_MS = 30_000;
+
+/**
+ * External store over the RPC settings and telemetry. Telemetry only bumps the
+ * ranking epoch every RANKING_REFRESH_MS, and the config is rebuilt only when
+ * the settings, the vault or that epoch changed. It is serialized so that
+ * health checks, which notify often, only rebuild the integrations when
+ * endpoints, keys or their order change.
+ */
+function createRpcConfigSource() {
+  let rankingEpoch = 0;
+  let snapshot: { key: string; json: string } | null = null;
+
+  const subscribe = (listener: () => void): (() => void) => {
+    const unsubscribeConfig = rpcConfigService.subscribe(listener);
+    let refresh: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribeTelemetry = getRpcTelemetryStore().subscribe(() => {
+      refresh ??= setTimeout(() => {
+        refresh = undefined;
+        rankingEpoch++;
+        listener();
+      }, RANKING_REFRESH_MS);
+    });
+    return () => {
+      unsubscribeConfig();
+      unsubscribeTelemetry();
+      clearTimeout(refresh);
+    };
+  };
+
+  const getSnapshot = (): string => {
+    const key = `${rpcConfigService.getVersion()}:${rankingEpoch}:${getSecretVault().isUnlocked()}`;
+    if (snapshot?.key !== key) {
+      snapshot = {
+        key,
+        json: JSON.stringify(buildRpcProviderConfig(detectEnvironment(), {
+          envVars: import.meta.env,
+          userConfig: rpcConfigService.getUserRpcConfig(),
+          rankEndpoints: createTelemetryRanker(),
+        })),
+      };
+    }
+    return snapshot.json;
+  };
+
+  return { subscribe, getSnapshot };
+}
+
 export function IntegrationProvider({ children }: { children: React.ReactNode }) {
+  // Re-render on vault lock/unlock so the snapshot re-reads the stored API keys
+  useVault();
+  const [rpcConfigSource] = useState(createRpcConfigSource);
+  const rpcConfigJson = useSyncExternalStore(rpcConfigSource.subscribe, rpcConfigSource.getSnapshot);
+
   const value = useMemo(() => {
-    const env = detectEnvironment();
-    const rpcConfig = buildRpcProviderConfig(env, { envVars: import.meta.env });
+    const rpcConfig = JSON.parse(rpcConfigJson) as AppRpcProviderConfig;
     const evmRegistry = createEvmIntegration(rpcConfig);
     const solanaFacade = createSolIntegration(rpcConfig);
+    const bitcoinWatch = createBitcoinIntegration(rpcConfig);
 
-    return { rpcConfig, evmRegistry, solanaFacade };
-  }, []);
+    return { rpcConfig, evmRegistry, solanaFacade, bitcoinWatch };
+  }, [rpcConfigJson]);
 
   return (
     <IntegrationContext.Provider value={value}>
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook } from '@testing-library/react';
+import { act, renderHook } from '@testing-library/react';
 import React from 'react';
 
 // Hoisted mocks
@@ -7,8 +7,10 @@ const {
   mockBuildRpcProviderConfig,
   mockCreateEvmIntegration,
   mockCreateSolIntegration,
+  mockCreateBitcoinIntegration,
   mockRegistry,
   mockFacade,
+  mockBitcoinWatch,
 } = vi.hoisted(() => {
   const mockRegistry = {
     getAdapterByName: vi.fn(),
@@ -21,6 +23,7 @@ const {
     getTokenBalances: vi.fn(),
     getHealthMetrics: vi.fn().mockReturnValue({ endpoints: 2, requests: 0, failures: 0, avgResponseTime: 0 }),
   };
+  const mockBitcoinWatch = { getHoldings: vi.fn() };
   return {
     mockBuildRpcProviderConfig: vi.fn().mockReturnValue({
       environment: 'production',
@@ -35,8 +38,10 @@ const {
     }),
     mockCreateEvmIntegration: vi.fn().mockReturnValue(mockRegistry),
     mockCreateSolIntegration: vi.fn().mockReturnValue(mockFacade),
+    mockCreateBitcoinIntegration: vi.fn().mockReturnValue(mockBitcoinWatch),
     mockRegistry,
     mockFacade,
+    mockBitcoinWatch,
   };
 });
 
@@ -47,9 +52,11 @@ vi.mock('../../config/buildRpcProviderConfig', () => ({
 vi.mock('../../config/integrationServices', () => ({
   createEvmIntegration: mockCreateEvmIntegration,
   createSolIntegration: mockCreateSolIntegration,
+  createBitcoinIntegration: mockCreateBitcoinIntegration,
 }));
 
 import { IntegrationProvider, useIntegration } from '../IntegrationProvider';
+import { getRpcTelemetryStore } from '../../infrastructure/rpc/RpcTelemetryStore';
 
 describe('IntegrationProvider', () => {
   beforeEach(() => {
@@ -70,6 +77,11 @@ describe('IntegrationProvider', () => {
     expect(result.current.solanaFacade).toBe(mockFacade);
   });
 
+  it('provides bitcoinWatch via context', () => {
+    const { result } = renderHook(() => useIntegration(), { wrapper });
+    expect(result.current.bitcoinWatch).toBe(mockBitcoinWatch);
+  });
+
   it('provides rpcConfig via context', () => {
     const { result } = renderHook(() => useIntegration(), { wrapper });
     expect(result.current.rpcConfig).toBeDefined();
@@ -95,6 +107,26 @@ describe('IntegrationProvider', () => {
     );
   });
 
+  it('re-ranks on new telemetry at most once per refresh interval', () => {
+    vi.useFakeTimers();
+    try {
+      renderHook(() => useIntegration(), { wrapper });
+      const builds = mockBuildRpcProviderConfig.mock.calls.length;
+
+      act(() => {
+        for (let i = 0; i < 10; i++) getRpcTelemetryStore().record('1', 'https://eth.example', { ok: true, latencyMs: 50 });
+      });
+      // The store announces the burst of samples once, shortly after
+      act(() => vi.advanceTimersByTime(1_000));
+      expect(mockBuildRpcProviderConfig).toHaveBeenCalledTimes(builds);
+
+      act(() => vi.advanceTimersByTime(30_000));
+      expect(mockBuildRpcProviderConfig).toHaveBeenCalledTimes(builds + 1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it('throws when useIntegration is used outside provider', () => {
     // Suppress console.error for expected React error
     const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { useStore } from './useStore';
 import type { Account, Asset } from './useStore';
 
@@ -70,10 +70,13 @@ describe('useStore', () => {
       };
 
       useStore.getState().addAccount(account);
+      useStore.getState().setAccountSyncInterval('test-account-1', 60_000);
+      useStore.getState().setAccountSyncInterval('other-account', 120_000);
       expect(useStore.getState().accounts).toHaveLength(1);
 
       useStore.getState().removeAccount('test-account-1');
       expect(useStore.getState().accounts).toHaveLength(0);
+      expect(useStore.getState().syncCadence.accounts).toEqual({ 'other-account': 120_000 });
     });
 
     it('should get account by id', () => {
@@ -462,4 +465,21 @@ describe('useStore', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('Alerts', () => {
+    it('should give rules added in the same millisecond their own ids', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+      useStore.setState({ alertRules: [] });
+
+      useStore.getState().addAlertRule({ kind: 'price-above', symbol: 'ETH', price: 5000 });
+      useStore.getState().addAlertRule({ kind: 'price-below', symbol: 'ETH', price: 1000 });
+      vi.restoreAllMocks();
+
+      const [first, second] = useStore.getState().alertRules;
+      expect(first.id).not.toBe(second.id);
+
+      useStore.getState().removeAlertRule(first.id);
+      expect(useStore.getState().alertRules.map(rule => rule.condition.kind)).toEqual(['price-below']);
+    });
+  });
+});
@@ -1,8 +1,18 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
 import type { Balance, NetworkEnvironment } from '@cygnus-wealth/data-models';
 import { detectEnvironment } from '../config/environment';
 import type { DeFiPosition } from '../domain/defi/DeFiPosition';
+import type { CostBasisEntry, CostBasisMethod } from '../domain/portfolio/CostBasis';
+import { DEFAULT_REBALANCE_PLAN, type RebalancePlan } from '../domain/portfolio/Rebalance';
+import { DEFAULT_BASE_CURRENCY, isBaseCurrency, type BaseCurrency, type ExchangeRate } from '../domain/asset/Currency';
+import { getSecretVault } from '../infrastructure/vault/SecretVault';
+import { bindVaultToStore, createVaultStorage } from '../infrastructure/vault/vaultStorage';
+import type { SyncProgress } from '../infrastructure/sync/syncProtocol';
+import { DEFAULT_SYNC_CADENCE, type SyncCadence } from '../domain/sync/SyncCadence';
+import type { ExplorerSetting, ExplorerSettings } from '../domain/chain/ExplorerLinks';
+import type { ChainKey } from '../domain/chain/ChainRegistry';
+import { MAX_ALERT_HISTORY, type AlertCondition, type AlertEvaluation, type AlertEvent, type AlertRule } from '../domain/alerts/Alert';
 
 /** Persistence key is namespaced by environment so data never leaks across networks */
 const detectedEnv = detectEnvironment();
@@ -22,7 +32,8 @@ export interface Account {
   platform: string;
   label: string;
   address?: string;
-  apiKey?: string; // Encrypted
+  apiKey?: string; // Held in memory only while the vault is unlocked; persisted encrypted
+  apiSecret?: string; // Same handling as apiKey
   status: 'connected' | 'disconnected' | 'error';
   lastSync?: string;
   balances?: Balance[];
@@ -54,7 +65,10 @@ export interface Asset {
   priceUsd: number | null;
   valueUsd: number | null;
   metadata?: {
+    /** Address holding the asset */
     address?: string;
+    /** Token contract, mint or coin type; absent for native assets */
+    contractAddress?: string;
     isMultiAccount?: boolean;
   };
 }
@@ -122,6 +136,57 @@ interface AppState {
   defiError: string | null;
   setDeFiError: (error: string | null) => void;
 
+  // Cost Basis
+  costBasisEntries: CostBasisEntry[];
+  costBasisMethod: CostBasisMethod;
+  addCostBasisEntries: (entries: CostBasisEntry[]) => void;
+  updateCostBasisEntry: (id: string, updates: Partial<CostBasisEntry>) => void;
+  removeCostBasisEntry: (id: string) => void;
+  setCostBasisMethod: (method: CostBasisMethod) => void;
+
+  // Rebalancing
+  /** Kept as entered; validate before planning */
+  rebalancePlan: RebalancePlan;
+  setRebalancePlan: (plan: RebalancePlan) => void;
+
+  // Sync Cadence
+  syncCadence: SyncCadence;
+  setDefaultSyncInterval: (intervalMs: number) => void;
+  /** null removes the override so the chain follows the default */
+  setChainSyncInterval: (chain: string, intervalMs: number | null) => void;
+  /** null removes the override so the account follows its chains */
+  setAccountSyncInterval: (accountId: string, intervalMs: number | null) => void;
+  /** Opt-in scanning of Transfer logs for tokens held by EVM accounts */
+  tokenDiscoveryEnabled: boolean;
+  setTokenDiscoveryEnabled: (enabled: boolean) => void;
+
+  // Alerts
+  alertRules: AlertRule[];
+  addAlertRule: (condition: AlertCondition) => void;
+  /** Changing the condition re-arms the rule */
+  updateAlertRule: (id: string, updates: Partial<Pick<AlertRule, 'condition' | 'enabled'>>) => void;
+  removeAlertRule: (id: string) => void;
+  /** Silence a rule until the given time (null ends the snooze); it fires again afterwards if still true */
+  snoozeAlertRule: (id: string, until: number | null) => void;
+  /** Newest first, capped at MAX_ALERT_HISTORY */
+  alertEvents: AlertEvent[];
+  recordAlertEvaluation: (evaluation: AlertEvaluation) => void;
+  markAlertsRead: () => void;
+  clearAlertHistory: () => void;
+
+  // Block Explorers
+  /** Per environment and chain; chains without an entry use their default explorer */
+  explorerSettings: ExplorerSettings;
+  /** null goes back to the chain's default explorer */
+  setExplorerSetting: (env: NetworkEnvironment, chain: ChainKey, setting: ExplorerSetting | null) => void;
+
+  // Display Currency
+  baseCurrency: BaseCurrency;
+  setBaseCurrency: (currency: BaseCurrency) => void;
+  /** Last known USD rate per currency, kept so a switch renders before the next fetch */
+  exchangeRates: Partial<Record<BaseCurrency, ExchangeRate>>;
+  setExchangeRate: (rate: ExchangeRate) => void;
+
   // Account Selection/Filtering
   selectedAccountIds: Set<string> | null; // null = all accounts selected
   setSelectedAccountIds: (ids: Set<string> | null) => void;
@@ -130,10 +195,20 @@ interface AppState {
   // UI State
   isLoading: boolean;
   setIsLoading: (loading: boolean) => void;
+  /** Balance fetches of the running account sync; null when idle */
+  syncProgress: SyncProgress | null;
+  setSyncProgress: (progress: SyncProgress | null) => void;
   error: string | null;
   setError: (error: string | null) => void;
 }
 
+function withOverride(overrides: Record<string, number>, key: string, intervalMs: number | null): Record<string, number> {
+  const next = { ...overrides };
+  if (intervalMs === null) delete next[key];
+  else next[key] = intervalMs;
+  return next;
+}
+
 export const useStore = create<AppState>()(
   persist(
     (set, get) => ({
@@ -153,8 +228,19 @@ export const useStore = create<AppState>()(
       defiPositions: [],
       isLoadingDeFi: false,
       defiError: null,
+      costBasisEntries: [],
+      costBasisMethod: 'fifo',
+      rebalancePlan: DEFAULT_REBALANCE_PLAN,
+      syncCadence: DEFAULT_SYNC_CADENCE,
+      tokenDiscoveryEnabled: false,
+      alertRules: [],
+      alertEvents: [],
+      explorerSettings: {},
+      baseCurrency: DEFAULT_BASE_CURRENCY,
+      exchangeRates: {},
       selectedAccountIds: null,
       isLoading: false,
+      syncProgress: null,
       error: null,
 
       // Account actions
@@ -174,6 +260,8 @@ export const useStore = create<AppState>()(
         set((state) => ({
           accounts: state.accounts.filter((acc) => acc.id !== id),
           assets: state.assets.filter((asset) => asset.accountId !== id),
+          costBasisEntries: state.costBasisEntries.filter((entry) => entry.accountId !== id),
+          syncCadence: { ...state.syncCadence, accounts: withOverride(state.syncCadence.accounts, id, null) },
         })),
 
       getAccountById: (id) => {
@@ -260,6 +348,103 @@ export const useStore = create<AppState>()(
       setIsLoadingDeFi: (loading) => set({ isLoadingDeFi: loading }),
       setDeFiError: (error) => set({ defiError: error }),
 
+      // Cost Basis actions
+      addCostBasisEntries: (entries) =>
+        set((state) => {
+          const existing = new Set(state.costBasisEntries.map((entry) => entry.id));
+          return {
+            costBasisEntries: [
+              ...state.costBasisEntries,
+              ...entries.filter((entry) => !existing.has(entry.id)),
+            ],
+          };
+        }),
+      updateCostBasisEntry: (id, updates) =>
+        set((state) => ({
+          costBasisEntries: state.costBasisEntries.map((entry) =>
+            entry.id === id ? { ...entry, ...updates } : entry
+          ),
+        })),
+      removeCostBasisEntry: (id) =>
+        set((state) => ({
+          costBasisEntries: state.costBasisEntries.filter((entry) => entry.id !== id),
+        })),
+      setCostBasisMethod: (method) => set({ costBasisMethod: method }),
+
+      // Rebalancing actions
+      setRebalancePlan: (plan) => set({ rebalancePlan: plan }),
+
+      // Sync Cadence actions
+      setDefaultSyncInterval: (intervalMs) =>
+        set((state) => ({
+          syncCadence: { ...state.syncCadence, defaultIntervalMs: intervalMs },
+        })),
+      setChainSyncInterval: (chain, intervalMs) =>
+        set((state) => ({
+          syncCadence: { ...state.syncCadence, chains: withOverride(state.syncCadence.chains, chain, intervalMs) },
+        })),
+      setAccountSyncInterval: (accountId, intervalMs) =>
+        set((state) => ({
+          syncCadence: { ...state.syncCadence, accounts: withOverride(state.syncCadence.accounts, accountId, intervalMs) },
+        })),
+
+      setTokenDiscoveryEnabled: (enabled) => set({ tokenDiscoveryEnabled: enabled }),
+
+      // Alert actions
+      addAlertRule: (condition) =>
+        set((state) => ({
+          alertRules: [
+            ...state.alertRules,
+            { id: `alert-${crypto.randomUUID()}`, condition, enabled: true, createdAt: Date.now(), active: false },
+          ],
+        })),
+      updateAlertRule: (id, updates) =>
+        set((state) => ({
+          alertRules: state.alertRules.map((rule) =>
+            rule.id === id
+              ? { ...rule, ...updates, active: updates.condition ? false : rule.active }
+              : rule
+          ),
+        })),
+      removeAlertRule: (id) =>
+        set((state) => ({
+          alertRules: state.alertRules.filter((rule) => rule.id !== id),
+        })),
+      snoozeAlertRule: (id, until) =>
+        set((state) => ({
+          alertRules: state.alertRules.map((rule) =>
+            rule.id === id ? { ...rule, snoozedUntil: until ?? undefined, active: false } : rule
+          ),
+        })),
+      recordAlertEvaluation: ({ activeById, events }) =>
+        set((state) => ({
+          alertRules: state.alertRules.map((rule) =>
+            rule.id in activeById ? { ...rule, active: activeById[rule.id] } : rule
+          ),
+          alertEvents: [...[...events].reverse(), ...state.alertEvents].slice(0, MAX_ALERT_HISTORY),
+        })),
+      markAlertsRead: () =>
+        set((state) => ({
+          alertEvents: state.alertEvents.map((event) => event.read ? event : { ...event, read: true }),
+        })),
+      clearAlertHistory: () => set({ alertEvents: [] }),
+
+      // Block Explorer actions
+      setExplorerSetting: (env, chain, setting) =>
+        set((state) => {
+          const chains = { ...state.explorerSettings[env] };
+          if (setting === null) delete chains[chain];
+          else chains[chain] = setting;
+          return { explorerSettings: { ...state.explorerSettings, [env]: chains } };
+        }),
+
+      // Display Currency actions
+      setBaseCurrency: (currency) => set({ baseCurrency: currency }),
+      setExchangeRate: (rate) =>
+        set((state) => ({
+          exchangeRates: { ...state.exchangeRates, [rate.currency]: rate },
+        })),
+
       // Account Selection/Filtering actions
       setSelectedAccountIds: (ids) => set({ selectedAccountIds: ids }),
       toggleAccountSelection: (accountId) => {
@@ -286,16 +471,15 @@ export const useStore = create<AppState>()(
 
       // UI State actions
       setIsLoading: (loading) => set({ isLoading: loading }),
+      setSyncProgress: (progress) => set({ syncProgress: progress }),
       setError: (error) => set({ error }),
     }),
     {
       name: STORAGE_KEY,
-      storage: createJSONStorage(() => localStorage),
+      // Account secrets are encrypted into the vault and stripped from this JSON
+      storage: createVaultStorage(getSecretVault()),
       partialize: (state) => ({
-        accounts: state.accounts.map(acc => ({
-          ...acc,
-          apiKey: acc.apiKey, // In production, this should be encrypted
-        })),
+        accounts: state.accounts,
         networkEnvironment: state.networkEnvironment,
         // Cache assets, prices, and portfolio for instant display on page load.
         // Fresh data will overwrite these once useAccountSync completes.
@@ -303,6 +487,16 @@ export const useStore = create<AppState>()(
         prices: state.prices,
         portfolio: state.portfolio,
         defiPositions: state.defiPositions,
+        costBasisEntries: state.costBasisEntries,
+        costBasisMethod: state.costBasisMethod,
+        rebalancePlan: state.rebalancePlan,
+        syncCadence: state.syncCadence,
+        tokenDiscoveryEnabled: state.tokenDiscoveryEnabled,
+        alertRules: state.alertRules,
+        alertEvents: state.alertEvents,
+        explorerSettings: state.explorerSettings,
+        baseCurrency: state.baseCurrency,
+        exchangeRates: state.exchangeRates,
         // Persist as array for JSON serialization, rehydrate as Set
         selectedAccountIds: state.selectedAccountIds
           ? Array.from(state.selectedAccountIds)
@@ -317,8 +511,14 @@ export const useStore = create<AppState>()(
           selectedAccountIds: Array.isArray(selectedRaw)
             ? new Set(selectedRaw as string[])
             : null,
+          // Fall back when a persisted currency is no longer offered
+          baseCurrency: isBaseCurrency(persistedState?.baseCurrency)
+            ? persistedState.baseCurrency
+            : current.baseCurrency,
         };
       },
     }
   )
-);
\ No newline at end of file
+);
+
+bindVaultToStore(getSecretVault(), useStore);
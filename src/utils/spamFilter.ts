@@ -17,6 +17,13 @@ const SPAM_NAME_PATTERNS = [
   /bonus/i,              // "Bonus" tokens
 ];
 
+/**
+ * Whether a token name or symbol matches a known spam pattern.
+ */
+export function isSpamTokenName(name: string): boolean {
+  return SPAM_NAME_PATTERNS.some(pattern => pattern.test(name));
+}
+
 /**
  * Determines if an asset is spam or worthless.
  * An asset is considered spam/worthless if:
@@ -30,8 +37,7 @@ const SPAM_NAME_PATTERNS = [
  */
 export function isSpamOrWorthless(asset: Asset): boolean {
   // Check name against spam patterns first (always filter spam names)
-  const name = asset.name || '';
-  if (SPAM_NAME_PATTERNS.some(pattern => pattern.test(name))) {
+  if (isSpamTokenName(asset.name || '')) {
     return true;
   }
 
@@ -3,19 +3,26 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { nodePolyfills } from 'vite-plugin-node-polyfills';
 
+// The account sync worker bundles the chain integrations too, so it needs the same polyfills
+const polyfills = () => nodePolyfills({
+  // To add only specific polyfills, add them here. If no option is passed, adds all polyfills
+  include: ['buffer', 'stream', 'crypto', 'util'],
+  globals: {
+    Buffer: true,
+    global: true,
+    process: true
+  }
+});
+
 export default defineConfig({
   plugins: [
     react(),
-    nodePolyfills({
-      // To add only specific polyfills, add them here. If no option is passed, adds all polyfills
-      include: ['buffer', 'stream', 'crypto', 'util'],
-      globals: {
-        Buffer: true,
-        global: true,
-        process: true
-      }
-    })
+    polyfills()
   ],
+  worker: {
+    format: 'es',
+    plugins: () => [polyfills()]
+  },
   optimizeDeps: {
     include: [
       '@cygnus-wealth/asset-valuator',